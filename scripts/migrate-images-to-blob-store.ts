@@ -0,0 +1,43 @@
+/**
+ * Migrate Images to Blob Store
+ *
+ * Moves base64 images still stored in the database (pending images, member
+ * photos and journal media) into the configured blob store and clears the
+ * inline data. Safe to run multiple times - migrated rows are skipped.
+ *
+ * Environment variables:
+ * - DATABASE_URL: Database to migrate
+ * - BLOB_STORAGE_DRIVER and related settings (see .env.example)
+ * - IMAGE_MIGRATION_BATCH_SIZE: Rows loaded per query (default: 20)
+ */
+
+import { migrateInlineImagesToBlobStore } from '../src/lib/db/images';
+import { prisma } from '../src/lib/prisma';
+
+async function migrateImages() {
+  const batchSize = parseInt(process.env.IMAGE_MIGRATION_BATCH_SIZE || '20', 10);
+
+  try {
+    console.log('📦 Moving inline images to the blob store...');
+
+    const result = await migrateInlineImagesToBlobStore(batchSize);
+
+    console.log('✅ Migration finished');
+    console.log(`   Pending images: ${result.pendingImages}`);
+    console.log(`   Member photos: ${result.memberPhotos}`);
+    console.log(`   Journal media: ${result.journalMedia}`);
+
+    if (result.failed.length > 0) {
+      console.log(`⚠️  ${result.failed.length} rows could not be migrated:`);
+      result.failed.forEach(failure => console.log(`   ${failure}`));
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ Image migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+migrateImages();
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import {
   FileText,
@@ -9,55 +9,64 @@ import {
   Search,
   Filter,
   Download,
-  Calendar,
   User,
   Clock,
   CheckCircle,
   AlertTriangle,
   XCircle,
   Info,
-  Shield,
+  ShieldCheck,
+  ShieldAlert,
   Eye,
   X,
   ChevronDown,
-  Trash2,
 } from 'lucide-react';
-import {
-  getAuditLogs,
-  getAuditStats,
-  cleanupAuditLogs,
-  type AuditLogEntry,
-  type AuditAction,
-  type AuditSeverity,
-} from '@/lib/audit';
+import { useAuth } from '@/contexts/AuthContext';
+import type { AuditChainStatus, AuditLogEntry, AuditSeverity } from '@/lib/audit';
 import { paginationSettings } from '@/config/constants';
 
-const ACTION_LABELS: Record<AuditAction, { label: string; icon: React.ReactNode; color: string }> = {
-  MEMBER_CREATE: { label: 'إنشاء عضو', icon: null, color: 'bg-green-100 text-green-700' },
-  MEMBER_UPDATE: { label: 'تعديل عضو', icon: null, color: 'bg-blue-100 text-blue-700' },
-  MEMBER_DELETE: { label: 'حذف عضو', icon: null, color: 'bg-red-100 text-red-700' },
-  MEMBER_VIEW: { label: 'عرض عضو', icon: null, color: 'bg-gray-100 text-gray-700' },
-  PARENT_CHANGE: { label: 'تغيير الأب', icon: null, color: 'bg-purple-100 text-purple-700' },
-  BACKUP_CREATE: { label: 'إنشاء نسخة', icon: null, color: 'bg-green-100 text-green-700' },
-  BACKUP_RESTORE: { label: 'استعادة نسخة', icon: null, color: 'bg-orange-100 text-orange-700' },
-  BACKUP_DELETE: { label: 'حذف نسخة', icon: null, color: 'bg-red-100 text-red-700' },
-  BACKUP_DOWNLOAD: { label: 'تحميل نسخة', icon: null, color: 'bg-blue-100 text-blue-700' },
-  CONFIG_UPDATE: { label: 'تعديل الإعدادات', icon: null, color: 'bg-yellow-100 text-yellow-700' },
-  ADMIN_CREATE: { label: 'إنشاء مشرف', icon: null, color: 'bg-green-100 text-green-700' },
-  ADMIN_UPDATE: { label: 'تعديل مشرف', icon: null, color: 'bg-blue-100 text-blue-700' },
-  ADMIN_DELETE: { label: 'حذف مشرف', icon: null, color: 'bg-red-100 text-red-700' },
-  ADMIN_LOGIN: { label: 'تسجيل دخول', icon: null, color: 'bg-green-100 text-green-700' },
-  ADMIN_LOGOUT: { label: 'تسجيل خروج', icon: null, color: 'bg-gray-100 text-gray-700' },
-  EXPORT_DATA: { label: 'تصدير بيانات', icon: null, color: 'bg-blue-100 text-blue-700' },
-  IMPORT_DATA: { label: 'استيراد بيانات', icon: null, color: 'bg-purple-100 text-purple-700' },
-  BRANCH_LINK_CREATE: { label: 'إنشاء رابط فرع', icon: null, color: 'bg-green-100 text-green-700' },
-  BRANCH_LINK_UPDATE: { label: 'تعديل رابط فرع', icon: null, color: 'bg-blue-100 text-blue-700' },
-  BRANCH_LINK_DELETE: { label: 'حذف رابط فرع', icon: null, color: 'bg-red-100 text-red-700' },
-  PENDING_APPROVE: { label: 'موافقة على طلب', icon: null, color: 'bg-green-100 text-green-700' },
-  PENDING_REJECT: { label: 'رفض طلب', icon: null, color: 'bg-red-100 text-red-700' },
-  DUPLICATE_RESOLVE: { label: 'حل تكرار', icon: null, color: 'bg-purple-100 text-purple-700' },
-  SYSTEM_CLEANUP: { label: 'تنظيف النظام', icon: null, color: 'bg-orange-100 text-orange-700' },
-  INTEGRITY_CHECK: { label: 'فحص السلامة', icon: null, color: 'bg-blue-100 text-blue-700' },
+const ACTION_LABELS: Record<string, { label: string; color: string }> = {
+  MEMBER_CREATE: { label: 'إنشاء عضو', color: 'bg-green-100 text-green-700' },
+  MEMBER_UPDATE: { label: 'تعديل عضو', color: 'bg-blue-100 text-blue-700' },
+  MEMBER_DELETE: { label: 'حذف عضو', color: 'bg-red-100 text-red-700' },
+  MEMBER_MERGE: { label: 'دمج أعضاء', color: 'bg-purple-100 text-purple-700' },
+  PARENT_CHANGE: { label: 'تغيير الأب', color: 'bg-purple-100 text-purple-700' },
+  BACKUP_CREATE: { label: 'إنشاء نسخة', color: 'bg-green-100 text-green-700' },
+  BACKUP_RESTORE: { label: 'استعادة نسخة', color: 'bg-orange-100 text-orange-700' },
+  BACKUP_DELETE: { label: 'حذف نسخة', color: 'bg-red-100 text-red-700' },
+  BACKUP_DOWNLOAD: { label: 'تنزيل نسخة', color: 'bg-blue-100 text-blue-700' },
+  CREATE_SNAPSHOT: { label: 'إنشاء لقطة', color: 'bg-green-100 text-green-700' },
+  RESTORE_SNAPSHOT: { label: 'استعادة لقطة', color: 'bg-orange-100 text-orange-700' },
+  CONFIG_UPDATE: { label: 'تعديل الإعدادات', color: 'bg-yellow-100 text-yellow-700' },
+  UPDATE_SETTINGS: { label: 'تعديل الإعدادات', color: 'bg-yellow-100 text-yellow-700' },
+  CREATE_USER: { label: 'إنشاء مستخدم', color: 'bg-green-100 text-green-700' },
+  EDIT_USER: { label: 'تعديل مستخدم', color: 'bg-blue-100 text-blue-700' },
+  DELETE_USER: { label: 'حذف مستخدم', color: 'bg-red-100 text-red-700' },
+  LOGIN: { label: 'تسجيل دخول', color: 'bg-green-100 text-green-700' },
+  LOGIN_FAILED: { label: 'فشل تسجيل الدخول', color: 'bg-red-100 text-red-700' },
+  LOGOUT: { label: 'تسجيل خروج', color: 'bg-gray-100 text-gray-700' },
+  REGISTER: { label: 'تسجيل حساب', color: 'bg-green-100 text-green-700' },
+  IMPORT_DATA: { label: 'استيراد بيانات', color: 'bg-purple-100 text-purple-700' },
+  PENDING_MEMBER_APPROVED: { label: 'موافقة على طلب', color: 'bg-green-100 text-green-700' },
+  PENDING_MEMBER_REJECTED: { label: 'رفض طلب', color: 'bg-red-100 text-red-700' },
+  DUPLICATE_RESOLVE: { label: 'حل تكرار', color: 'bg-purple-100 text-purple-700' },
+  AUDIT_RETENTION: { label: 'تطبيق سياسة الاحتفاظ', color: 'bg-orange-100 text-orange-700' },
+  AUDIT_EXPORT: { label: 'تصدير سجل المراجعة', color: 'bg-blue-100 text-blue-700' },
+  INTEGRITY_CHECK: { label: 'فحص السلامة', color: 'bg-blue-100 text-blue-700' },
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  AUTH: 'الدخول والحسابات',
+  USER: 'المستخدمون',
+  ADMIN: 'الإدارة',
+  MEMBER: 'الأعضاء',
+  DATA: 'البيانات',
+  SETTINGS: 'الإعدادات',
+  BACKUP: 'النسخ الاحتياطي',
+  IMAGE: 'الصور',
+  CONTENT: 'المحتوى',
+  BROADCAST: 'المراسلات',
+  SYSTEM: 'النظام',
 };
 
 const SEVERITY_ICONS: Record<AuditSeverity, React.ReactNode> = {
@@ -67,15 +76,29 @@ const SEVERITY_ICONS: Record<AuditSeverity, React.ReactNode> = {
   CRITICAL: <XCircle className="w-4 h-4 text-red-700" />,
 };
 
+interface AuditStats {
+  total: number;
+  today: number;
+  thisWeek: number;
+  failed: number;
+  bySeverity: Record<string, number>;
+}
+
 export default function AuditLogPage() {
+  const { getAuthHeader } = useAuth();
   const [logs, setLogs] = useState<AuditLogEntry[]>([]);
-  const [filteredLogs, setFilteredLogs] = useState<AuditLogEntry[]>([]);
-  const [stats, setStats] = useState<ReturnType<typeof getAuditStats> | null>(null);
+  const [total, setTotal] = useState(0);
+  const [stats, setStats] = useState<AuditStats | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null);
   const [filters, setFilters] = useState({
+    category: '',
     action: '',
     severity: '',
     startDate: '',
@@ -85,104 +108,82 @@ export default function AuditLogPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = paginationSettings.auditLogItemsPerPage;
 
-  useEffect(() => {
-    loadAuditLogs();
-  }, []);
-
-  useEffect(() => {
-    applyFilters();
-  }, [logs, searchQuery, filters]);
+  const buildQuery = useCallback(() => {
+    const params = new URLSearchParams();
+    if (searchQuery) params.set('search', searchQuery);
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return params;
+  }, [searchQuery, filters]);
 
-  const loadAuditLogs = () => {
+  const loadAuditLogs = useCallback(async () => {
     setIsLoading(true);
     try {
-      const allLogs = getAuditLogs();
-      setLogs(allLogs);
-      setStats(getAuditStats());
+      const params = buildQuery();
+      params.set('limit', String(itemsPerPage));
+      params.set('offset', String((currentPage - 1) * itemsPerPage));
+      params.set('stats', 'true');
+
+      const res = await fetch(`/api/admin/audit?${params}`, { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        setLogs(data.logs);
+        setTotal(data.pagination.total);
+        setStats(data.statistics || null);
+        setRetentionDays(data.retentionDays);
+      }
     } catch (error) {
       console.error('Error loading audit logs:', error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [buildQuery, currentPage, itemsPerPage, getAuthHeader]);
 
-  const applyFilters = () => {
-    let result = [...logs];
-
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(
-        (log) =>
-          log.description.toLowerCase().includes(query) ||
-          log.userName.toLowerCase().includes(query) ||
-          log.targetName?.toLowerCase().includes(query) ||
-          log.targetId?.toLowerCase().includes(query)
-      );
-    }
-
-    if (filters.action) {
-      result = result.filter((log) => log.action === filters.action);
-    }
-
-    if (filters.severity) {
-      result = result.filter((log) => log.severity === filters.severity);
-    }
-
-    if (filters.startDate) {
-      result = result.filter((log) => new Date(log.timestamp) >= new Date(filters.startDate));
-    }
-
-    if (filters.endDate) {
-      result = result.filter((log) => new Date(log.timestamp) <= new Date(filters.endDate));
-    }
-
-    if (filters.success !== '') {
-      result = result.filter((log) => log.success === (filters.success === 'true'));
-    }
+  useEffect(() => {
+    // Debounce typing in the search box
+    const timer = setTimeout(loadAuditLogs, 300);
+    return () => clearTimeout(timer);
+  }, [loadAuditLogs]);
 
-    setFilteredLogs(result);
+  useEffect(() => {
     setCurrentPage(1);
-  };
+  }, [searchQuery, filters]);
 
-  const handleCleanup = () => {
-    const days = prompt('أدخل عدد الأيام للاحتفاظ بالسجلات (مثال: 90):', '90');
-    if (days) {
-      const daysNum = parseInt(days);
-      if (isNaN(daysNum) || daysNum < 1) {
-        alert('يرجى إدخال رقم صحيح');
-        return;
-      }
-      const deleted = cleanupAuditLogs(daysNum);
-      alert(`تم حذف ${deleted} سجل قديم`);
-      loadAuditLogs();
+  const verifyChain = async () => {
+    setIsVerifying(true);
+    try {
+      const res = await fetch('/api/admin/audit/verify', { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) setChainStatus(data.data);
+    } catch (error) {
+      console.error('Error verifying audit log:', error);
+    } finally {
+      setIsVerifying(false);
     }
   };
 
-  const exportLogs = () => {
-    const data = filteredLogs.map((log) => ({
-      التاريخ: new Date(log.timestamp).toLocaleString('ar-SA'),
-      الإجراء: ACTION_LABELS[log.action]?.label || log.action,
-      المستخدم: log.userName,
-      الهدف: log.targetName || log.targetId || '-',
-      الوصف: log.description,
-      الحالة: log.success ? 'ناجح' : 'فشل',
-      الخطورة: log.severity,
-    }));
-
-    const csv = [
-      Object.keys(data[0] || {}).join(','),
-      ...data.map((row) => Object.values(row).map((v) => `"${v}"`).join(',')),
-    ].join('\n');
-
-    const blob = new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `audit_log_${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const exportLogs = async () => {
+    setIsExporting(true);
+    try {
+      const res = await fetch(`/api/admin/audit/export?${buildQuery()}`, { headers: getAuthHeader() });
+      if (!res.ok) throw new Error(`Export failed with status ${res.status}`);
+
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit_log_${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting audit logs:', error);
+      alert('فشل تصدير سجل المراجعة');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const formatDate = (dateStr: string) => {
@@ -196,13 +197,10 @@ export default function AuditLogPage() {
     });
   };
 
-  const totalPages = Math.ceil(filteredLogs.length / itemsPerPage);
-  const paginatedLogs = filteredLogs.slice(
-    (currentPage - 1) * itemsPerPage,
-    currentPage * itemsPerPage
-  );
+  const totalPages = Math.ceil(total / itemsPerPage);
 
-  if (isLoading) {
+  // Full-page spinner only on first load, so the search box keeps focus
+  if (isLoading && !stats) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -229,7 +227,10 @@ export default function AuditLogPage() {
             </div>
             <div>
               <h1 className="text-2xl font-bold text-gray-800">سجل المراجعة</h1>
-              <p className="text-sm text-gray-500">Audit Log - {filteredLogs.length} سجل</p>
+              <p className="text-sm text-gray-500">
+                Audit Log - {total} سجل
+                {retentionDays && ` · يُحتفظ بالسجلات ${retentionDays} يوماً`}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -242,22 +243,45 @@ export default function AuditLogPage() {
             </button>
             <button
               onClick={exportLogs}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg"
+              disabled={isExporting}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg disabled:opacity-50"
             >
               <Download className="w-5 h-5" />
-              تصدير
+              تصدير CSV
             </button>
             <button
-              onClick={handleCleanup}
-              className="flex items-center gap-2 px-4 py-2 bg-red-100 hover:bg-red-200 text-red-700 rounded-lg"
+              onClick={verifyChain}
+              disabled={isVerifying}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-100 hover:bg-indigo-200 text-indigo-700 rounded-lg disabled:opacity-50"
             >
-              <Trash2 className="w-5 h-5" />
-              تنظيف
+              <ShieldCheck className="w-5 h-5" />
+              {isVerifying ? 'جاري التحقق...' : 'التحقق من السلامة'}
             </button>
           </div>
         </div>
       </div>
 
+      {/* Chain verification */}
+      {chainStatus && (
+        <div
+          className={`rounded-xl p-4 mb-6 flex items-center gap-3 ${
+            chainStatus.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {chainStatus.valid ? <ShieldCheck className="w-6 h-6" /> : <ShieldAlert className="w-6 h-6" />}
+          <p className="text-sm">
+            {chainStatus.valid
+              ? `سلسلة السجلات سليمة - تم التحقق من ${chainStatus.checked} سجل`
+              : `تم اكتشاف تعديل أو حذف في السجل رقم ${chainStatus.brokenAt?.sequence} (${
+                  chainStatus.brokenAt?.reason === 'HASH_MISMATCH' ? 'محتوى معدل' : 'سلسلة منقطعة'
+                })`}
+          </p>
+          <button onClick={() => setChainStatus(null)} className="mr-auto p-1 hover:bg-black/5 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Stats */}
       {stats && (
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
@@ -276,7 +300,7 @@ export default function AuditLogPage() {
           <div className="bg-white rounded-xl shadow-sm p-4">
             <p className="text-sm text-gray-500">التحذيرات</p>
             <p className="text-2xl font-bold text-yellow-600">
-              {(stats.bySeverity['WARNING'] || 0) + (stats.bySeverity['ERROR'] || 0)}
+              {(stats.bySeverity['WARNING'] || 0) + (stats.bySeverity['ERROR'] || 0) + (stats.bySeverity['CRITICAL'] || 0)}
             </p>
           </div>
         </div>
@@ -308,7 +332,20 @@ export default function AuditLogPage() {
         </div>
 
         {showFilters && (
-          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mt-4 pt-4 border-t">
+          <div className="grid grid-cols-2 lg:grid-cols-6 gap-4 mt-4 pt-4 border-t">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">التصنيف</label>
+              <select
+                value={filters.category}
+                onChange={(e) => setFilters({ ...filters, category: e.target.value })}
+                className="w-full border rounded-lg px-3 py-2"
+              >
+                <option value="">الكل</option>
+                {Object.entries(CATEGORY_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">الإجراء</label>
               <select
@@ -386,7 +423,7 @@ export default function AuditLogPage() {
               </tr>
             </thead>
             <tbody className="divide-y">
-              {paginatedLogs.length === 0 ? (
+              {logs.length === 0 ? (
                 <tr>
                   <td colSpan={7} className="p-12 text-center text-gray-500">
                     <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
@@ -394,14 +431,14 @@ export default function AuditLogPage() {
                   </td>
                 </tr>
               ) : (
-                paginatedLogs.map((log) => {
+                logs.map((log) => {
                   const actionInfo = ACTION_LABELS[log.action] || { label: log.action, color: 'bg-gray-100 text-gray-700' };
                   return (
                     <tr key={log.id} className="hover:bg-gray-50">
                       <td className="p-3 text-sm">
                         <div className="flex items-center gap-2">
                           <Clock className="w-4 h-4 text-gray-400" />
-                          <span className="text-gray-600">{formatDate(log.timestamp)}</span>
+                          <span className="text-gray-600">{formatDate(log.createdAt)}</span>
                         </div>
                       </td>
                       <td className="p-3">
@@ -412,14 +449,14 @@ export default function AuditLogPage() {
                       <td className="p-3 text-sm">
                         <div className="flex items-center gap-2">
                           <User className="w-4 h-4 text-gray-400" />
-                          <span>{log.userName}</span>
+                          <span>{log.userName || log.userEmail || '-'}</span>
                         </div>
                       </td>
                       <td className="p-3 text-sm text-gray-600">
                         {log.targetName || log.targetId || '-'}
                       </td>
                       <td className="p-3 text-sm text-gray-600 max-w-xs truncate">
-                        {log.description}
+                        {log.description || '-'}
                       </td>
                       <td className="p-3 text-center">
                         <div className="flex items-center justify-center gap-1">
@@ -452,7 +489,7 @@ export default function AuditLogPage() {
         {totalPages > 1 && (
           <div className="p-4 border-t bg-gray-50 flex items-center justify-between">
             <span className="text-sm text-gray-600">
-              عرض {(currentPage - 1) * itemsPerPage + 1} - {Math.min(currentPage * itemsPerPage, filteredLogs.length)} من {filteredLogs.length}
+              عرض {(currentPage - 1) * itemsPerPage + 1} - {Math.min(currentPage * itemsPerPage, total)} من {total}
             </span>
             <div className="flex items-center gap-2">
               <button
@@ -494,12 +531,12 @@ export default function AuditLogPage() {
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="text-sm text-gray-500">المعرف</label>
-                  <p className="font-mono text-sm">{selectedLog.id}</p>
+                  <label className="text-sm text-gray-500">الرقم التسلسلي</label>
+                  <p className="font-mono text-sm">#{selectedLog.sequence}</p>
                 </div>
                 <div>
                   <label className="text-sm text-gray-500">التاريخ</label>
-                  <p>{formatDate(selectedLog.timestamp)}</p>
+                  <p>{formatDate(selectedLog.createdAt)}</p>
                 </div>
               </div>
 
@@ -522,7 +559,10 @@ export default function AuditLogPage() {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="text-sm text-gray-500">المستخدم</label>
-                  <p>{selectedLog.userName} ({selectedLog.userRole})</p>
+                  <p>
+                    {selectedLog.userName || selectedLog.userEmail || '-'}
+                    {selectedLog.userRole && ` (${selectedLog.userRole})`}
+                  </p>
                 </div>
                 <div>
                   <label className="text-sm text-gray-500">الحالة</label>
@@ -549,7 +589,7 @@ export default function AuditLogPage() {
 
               <div>
                 <label className="text-sm text-gray-500">الوصف</label>
-                <p>{selectedLog.description}</p>
+                <p>{selectedLog.description || '-'}</p>
               </div>
 
               {selectedLog.errorMessage && (
@@ -586,12 +626,25 @@ export default function AuditLogPage() {
                 </div>
               )}
 
+              {selectedLog.ipAddress && (
+                <div>
+                  <label className="text-sm text-gray-500">عنوان IP</label>
+                  <p className="font-mono text-sm">{selectedLog.ipAddress}</p>
+                </div>
+              )}
+
               {selectedLog.userAgent && (
                 <div>
                   <label className="text-sm text-gray-500">المتصفح</label>
                   <p className="text-xs text-gray-600 break-all">{selectedLog.userAgent}</p>
                 </div>
               )}
+
+              <div>
+                <label className="text-sm text-gray-500">البصمة (SHA-256)</label>
+                <p className="font-mono text-xs text-gray-600 break-all">{selectedLog.hash}</p>
+                <p className="font-mono text-xs text-gray-400 break-all">السابقة: {selectedLog.prevHash}</p>
+              </div>
             </div>
 
             <div className="mt-6 flex justify-end">
@@ -20,7 +20,15 @@ import {
   Edit,
   AlertTriangle,
   User,
+  Eye,
+  MousePointerClick,
+  Ban,
 } from 'lucide-react';
+import {
+  BROADCAST_CHANNEL_LABELS,
+  parseBroadcastChannels,
+  type BroadcastChannel,
+} from '@/lib/broadcast-channels';
 
 type BroadcastType = 'MEETING' | 'ANNOUNCEMENT' | 'REMINDER' | 'UPDATE';
 type BroadcastStatus = 'DRAFT' | 'SCHEDULED' | 'SENDING' | 'SENT' | 'CANCELLED';
@@ -30,14 +38,30 @@ interface Recipient {
   id: string;
   memberId?: string;
   memberName: string;
-  email: string;
+  email?: string | null;
+  phone?: string | null;
+  channels?: string;
   status: string;
   sentAt?: string;
   openedAt?: string;
+  clickedAt?: string;
+  deliveredAt?: string;
+  bouncedAt?: string;
   rsvpResponse?: RSVPResponse;
   rsvpRespondedAt?: string;
   rsvpNote?: string;
   errorMessage?: string;
+  deliveries?: Delivery[];
+}
+
+// WhatsApp or SMS message to one recipient; email status stays on the recipient
+interface Delivery {
+  id: string;
+  channel: BroadcastChannel;
+  to: string;
+  status: string;
+  errorMessage?: string;
+  sentAt?: string;
 }
 
 interface Broadcast {
@@ -56,12 +80,15 @@ interface Broadcast {
   targetAudience: string;
   targetBranch?: string;
   targetGeneration?: number;
+  channels: string;
   scheduledAt?: string;
   sentAt?: string;
   totalRecipients: number;
   sentCount: number;
   failedCount: number;
   openCount: number;
+  clickCount: number;
+  bounceCount: number;
   rsvpYesCount: number;
   rsvpNoCount: number;
   rsvpMaybeCount: number;
@@ -80,9 +107,9 @@ interface RSVPSummary {
     totalCount: number;
   };
   recipients: {
-    yes: Array<{ memberName: string; email: string; rsvpRespondedAt?: string; rsvpNote?: string }>;
-    no: Array<{ memberName: string; email: string; rsvpRespondedAt?: string; rsvpNote?: string }>;
-    maybe: Array<{ memberName: string; email: string; rsvpRespondedAt?: string; rsvpNote?: string }>;
+    yes: Array<{ memberName: string; email?: string | null; rsvpRespondedAt?: string; rsvpNote?: string }>;
+    no: Array<{ memberName: string; email?: string | null; rsvpRespondedAt?: string; rsvpNote?: string }>;
+    maybe: Array<{ memberName: string; email?: string | null; rsvpRespondedAt?: string; rsvpNote?: string }>;
     noResponse: Array<{ memberName: string; email: string }>;
   };
 }
@@ -94,6 +121,18 @@ const typeLabels: Record<BroadcastType, { ar: string; color: string; bgColor: st
   UPDATE: { ar: 'تحديث', color: 'text-emerald-700', bgColor: 'bg-emerald-100' },
 };
 
+// Delivery status of one recipient, updated by provider webhooks after sending
+const recipientStatusLabels: Record<string, { ar: string; color: string; icon: typeof CheckCircle }> = {
+  PENDING: { ar: 'قيد الانتظار', color: 'text-gray-500', icon: Clock },
+  SENT: { ar: 'تم الإرسال', color: 'text-green-600', icon: CheckCircle },
+  DELIVERED: { ar: 'تم التسليم', color: 'text-emerald-700', icon: CheckCircle },
+  FAILED: { ar: 'فشل', color: 'text-red-600', icon: XCircle },
+  BOUNCED: { ar: 'مرتد', color: 'text-red-600', icon: AlertTriangle },
+  COMPLAINED: { ar: 'أبلغ عن إزعاج', color: 'text-orange-600', icon: AlertTriangle },
+  SUPPRESSED: { ar: 'محظور الإرسال', color: 'text-gray-500', icon: Ban },
+  SKIPPED: { ar: 'لم يُرسل بالبريد', color: 'text-gray-400', icon: Clock },
+};
+
 const statusLabels: Record<BroadcastStatus, { ar: string; color: string; bgColor: string }> = {
   DRAFT: { ar: 'مسودة', color: 'text-gray-700', bgColor: 'bg-gray-100' },
   SCHEDULED: { ar: 'مجدول', color: 'text-purple-700', bgColor: 'bg-purple-100' },
@@ -210,6 +249,22 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
     }).format(new Date(dateStr));
   };
 
+  const formatRate = (count: number, of: number) => (of > 0 ? `${Math.round((count / of) * 100)}%` : '0%');
+
+  // Sent and failed messages per channel; email status is on the recipient itself
+  const channelStats = (broadcast: Broadcast) =>
+    parseBroadcastChannels(broadcast.channels || 'EMAIL').map((channel) => {
+      const statuses = channel === 'EMAIL'
+        ? (broadcast.recipients || []).filter((r) => r.status !== 'SKIPPED').map((r) => r.status)
+        : (broadcast.recipients || []).flatMap((r) =>
+          (r.deliveries || []).filter((d) => d.channel === channel).map((d) => d.status));
+      return {
+        channel,
+        sent: statuses.filter((status) => !['PENDING', 'FAILED', 'SUPPRESSED'].includes(status)).length,
+        failed: statuses.filter((status) => status === 'FAILED').length,
+      };
+    });
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -329,6 +384,45 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
               </div>
             </div>
           </div>
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+                <Eye className="w-5 h-5 text-indigo-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-800">
+                  {broadcast.openCount}
+                  <span className="text-sm font-normal text-gray-500"> · {formatRate(broadcast.openCount, broadcast.sentCount)}</span>
+                </p>
+                <p className="text-sm text-gray-500">فتح الرسالة</p>
+              </div>
+            </div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-cyan-100 rounded-lg flex items-center justify-center">
+                <MousePointerClick className="w-5 h-5 text-cyan-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-800">
+                  {broadcast.clickCount}
+                  <span className="text-sm font-normal text-gray-500"> · {formatRate(broadcast.clickCount, broadcast.sentCount)}</span>
+                </p>
+                <p className="text-sm text-gray-500">ضغط على رابط</p>
+              </div>
+            </div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center">
+                <AlertTriangle className="w-5 h-5 text-orange-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-gray-800">{broadcast.bounceCount}</p>
+                <p className="text-sm text-gray-500">مرتد</p>
+              </div>
+            </div>
+          </div>
           {broadcast.type === 'MEETING' && broadcast.rsvpRequired && (
             <div className="bg-white rounded-xl shadow-sm p-4">
               <div className="flex items-center gap-3">
@@ -347,6 +441,21 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
         </div>
       )}
 
+      {/* Per-channel delivery */}
+      {broadcast.status === 'SENT' && (
+        <div className="bg-white rounded-xl shadow-sm p-4 mb-6">
+          <div className="flex flex-wrap gap-6">
+            {channelStats(broadcast).map(({ channel, sent, failed }) => (
+              <div key={channel} className="text-sm">
+                <span className="font-medium text-gray-800">{BROADCAST_CHANNEL_LABELS[channel].ar}:</span>
+                <span className="text-green-600 mr-2">{sent} تم الإرسال</span>
+                {failed > 0 && <span className="text-red-600 mr-2">· {failed} فشل</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="bg-white rounded-xl shadow-sm overflow-hidden">
         <div className="border-b">
@@ -472,6 +581,8 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
                     {broadcast.targetAudience === 'ALL' && 'جميع أفراد العائلة'}
                     {broadcast.targetAudience === 'BRANCH' && `فرع: ${broadcast.targetBranch}`}
                     {broadcast.targetAudience === 'GENERATION' && `الجيل ${broadcast.targetGeneration}`}
+                    {broadcast.targetAudience === 'SEGMENT' && 'شريحة محفوظة'}
+                    {broadcast.targetAudience === 'RULES' && 'قواعد مخصصة'}
                   </p>
                 </div>
               </div>
@@ -492,7 +603,7 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
                     <thead>
                       <tr className="border-b">
                         <th className="text-right py-3 px-4 font-medium text-gray-600">الاسم</th>
-                        <th className="text-right py-3 px-4 font-medium text-gray-600">البريد</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">التواصل</th>
                         <th className="text-right py-3 px-4 font-medium text-gray-600">الحالة</th>
                         <th className="text-right py-3 px-4 font-medium text-gray-600">تاريخ الإرسال</th>
                       </tr>
@@ -508,27 +619,46 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
                               <span className="font-medium text-gray-800">{recipient.memberName}</span>
                             </div>
                           </td>
-                          <td className="py-3 px-4 text-gray-600" dir="ltr">
-                            {recipient.email}
+                          <td className="py-3 px-4 text-gray-600 text-sm" dir="ltr">
+                            {recipient.email && <div>{recipient.email}</div>}
+                            {recipient.phone && <div>{recipient.phone}</div>}
                           </td>
                           <td className="py-3 px-4">
-                            {recipient.status === 'SENT' && (
-                              <span className="inline-flex items-center gap-1 text-green-600">
-                                <CheckCircle className="w-4 h-4" />
-                                تم الإرسال
-                              </span>
-                            )}
-                            {recipient.status === 'FAILED' && (
-                              <span className="inline-flex items-center gap-1 text-red-600" title={recipient.errorMessage}>
-                                <XCircle className="w-4 h-4" />
-                                فشل
-                              </span>
-                            )}
-                            {recipient.status === 'PENDING' && (
-                              <span className="inline-flex items-center gap-1 text-gray-500">
-                                <Clock className="w-4 h-4" />
-                                قيد الانتظار
-                              </span>
+                            {(() => {
+                              const label = recipientStatusLabels[recipient.status] || recipientStatusLabels.PENDING;
+                              const Icon = label.icon;
+                              return (
+                                <span className={`inline-flex items-center gap-1 ${label.color}`} title={recipient.errorMessage}>
+                                  <Icon className="w-4 h-4" />
+                                  {label.ar}
+                                </span>
+                              );
+                            })()}
+                            {recipient.deliveries?.map((delivery) => {
+                              const label = recipientStatusLabels[delivery.status] || recipientStatusLabels.PENDING;
+                              const Icon = label.icon;
+                              return (
+                                <div key={delivery.id} className={`flex items-center gap-1 mt-1 text-sm ${label.color}`} title={delivery.errorMessage}>
+                                  <Icon className="w-4 h-4" />
+                                  {BROADCAST_CHANNEL_LABELS[delivery.channel]?.ar}: {label.ar}
+                                </div>
+                              );
+                            })}
+                            {(recipient.openedAt || recipient.clickedAt) && (
+                              <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                                {recipient.openedAt && (
+                                  <span className="inline-flex items-center gap-1" title={formatDate(recipient.openedAt)}>
+                                    <Eye className="w-3 h-3" />
+                                    فتح
+                                  </span>
+                                )}
+                                {recipient.clickedAt && (
+                                  <span className="inline-flex items-center gap-1" title={formatDate(recipient.clickedAt)}>
+                                    <MousePointerClick className="w-3 h-3" />
+                                    ضغط
+                                  </span>
+                                )}
+                              </div>
                             )}
                           </td>
                           <td className="py-3 px-4 text-gray-500 text-sm">
@@ -583,7 +713,7 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
                         <div key={i} className="flex items-center justify-between">
                           <div>
                             <span className="font-medium text-gray-800">{r.memberName}</span>
-                            <span className="text-gray-500 text-sm mr-2">({r.email})</span>
+                            {r.email && <span className="text-gray-500 text-sm mr-2">({r.email})</span>}
                           </div>
                           {r.rsvpNote && (
                             <span className="text-sm text-gray-600 italic">&quot;{r.rsvpNote}&quot;</span>
@@ -608,7 +738,7 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
                         <div key={i} className="flex items-center justify-between">
                           <div>
                             <span className="font-medium text-gray-800">{r.memberName}</span>
-                            <span className="text-gray-500 text-sm mr-2">({r.email})</span>
+                            {r.email && <span className="text-gray-500 text-sm mr-2">({r.email})</span>}
                           </div>
                           {r.rsvpNote && (
                             <span className="text-sm text-gray-600 italic">&quot;{r.rsvpNote}&quot;</span>
@@ -633,7 +763,7 @@ export default function BroadcastDetailPage({ params }: { params: { id: string }
                         <div key={i} className="flex items-center justify-between">
                           <div>
                             <span className="font-medium text-gray-800">{r.memberName}</span>
-                            <span className="text-gray-500 text-sm mr-2">({r.email})</span>
+                            {r.email && <span className="text-gray-500 text-sm mr-2">({r.email})</span>}
                           </div>
                           {r.rsvpNote && (
                             <span className="text-sm text-gray-600 italic">&quot;{r.rsvpNote}&quot;</span>
@@ -0,0 +1,217 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowRight, Edit, Plus, Save, Trash2, Users, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { AudienceRule } from '@/lib/audience';
+import AudienceBuilder, { EMPTY_AUDIENCE, type LineageBranch } from '@/components/admin/AudienceBuilder';
+
+interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  rules: AudienceRule;
+  lastCount: number;
+  createdByName: string;
+  updatedAt: string;
+}
+
+interface SegmentForm {
+  id?: string;
+  name: string;
+  description: string;
+  rules: AudienceRule;
+}
+
+export default function AudienceSegmentsPage() {
+  const { getAuthHeader } = useAuth();
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [branches, setBranches] = useState<LineageBranch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<SegmentForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSegments = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/audience/segments', { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        setSegments(data.data.segments);
+        setBranches(data.data.branches);
+      }
+    } catch (err) {
+      console.error('Error loading segments:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getAuthHeader]);
+
+  useEffect(() => {
+    loadSegments();
+  }, [loadSegments]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      const res = await fetch(form.id ? `/api/audience/segments/${form.id}` : '/api/audience/segments', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify({ name: form.name, description: form.description || null, rules: form.rules }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setForm(null);
+        loadSegments();
+      } else {
+        setError(data.messageAr || data.error || 'تعذر حفظ الشريحة');
+      }
+    } catch {
+      setError('تعذر حفظ الشريحة');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: Segment) => {
+    if (!confirm(`حذف الشريحة "${segment.name}"؟`)) return;
+    const res = await fetch(`/api/audience/segments/${segment.id}`, {
+      method: 'DELETE',
+      headers: getAuthHeader(),
+    });
+    const data = await res.json();
+    if (data.success) {
+      loadSegments();
+    } else {
+      alert(res.status === 409 ? 'الشريحة مستخدمة في بث لم يُرسل بعد' : data.error || 'تعذر حذف الشريحة');
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto" dir="rtl">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <Link href="/admin/broadcasts" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowRight className="w-4 h-4" />
+            البث البريدي
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800">شرائح الجمهور</h1>
+          <p className="text-gray-500 mt-1">Audience Segments - جمهور محفوظ للبث ودعوات اللقاءات</p>
+        </div>
+        {!form && (
+          <button
+            onClick={() => setForm({ name: '', description: '', rules: EMPTY_AUDIENCE })}
+            className="flex items-center gap-2 px-6 py-3 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>شريحة جديدة</span>
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="bg-white rounded-xl shadow-sm p-6 mb-6 space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">اسم الشريحة *</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+                placeholder="شباب الرياض"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">الوصف</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+          </div>
+
+          <AudienceBuilder
+            value={form.rules}
+            onChange={(rules) => setForm({ ...form, rules })}
+            branches={branches}
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-end gap-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={() => { setForm(null); setError(''); }}
+              className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              <X className="w-4 h-4" />
+              إلغاء
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || !form.name.trim()}
+              className="flex items-center gap-2 px-6 py-2 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              حفظ
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="p-12 text-center text-gray-500">جاري التحميل...</div>
+        ) : segments.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">
+            <Users className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>لا توجد شرائح محفوظة</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {segments.map((segment) => (
+              <div key={segment.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-semibold text-gray-800">{segment.name}</h3>
+                  {segment.description && <p className="text-sm text-gray-500">{segment.description}</p>}
+                  <p className="text-xs text-gray-400 mt-1">
+                    {segment.lastCount} شخصاً عند آخر حفظ · {segment.createdByName}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setForm({
+                      id: segment.id,
+                      name: segment.name,
+                      description: segment.description || '',
+                      rules: segment.rules,
+                    })}
+                    className="p-2 text-gray-500 hover:text-[#1E3A5F] hover:bg-gray-100 rounded-lg"
+                    title="تعديل"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(segment)}
+                    className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                    title="حذف"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,10 @@ import {
   Search,
   Filter,
 } from 'lucide-react';
+import { BROADCAST_CHANNELS, BROADCAST_CHANNEL_LABELS, type BroadcastChannel } from '@/lib/broadcast-channels';
+import type { AudienceRule } from '@/lib/audience';
+import { useAuth } from '@/contexts/AuthContext';
+import AudienceBuilder, { EMPTY_AUDIENCE, type LineageBranch } from '@/components/admin/AudienceBuilder';
 
 type BroadcastType = 'MEETING' | 'ANNOUNCEMENT' | 'REMINDER' | 'UPDATE';
 type BroadcastStatus = 'DRAFT' | 'SCHEDULED' | 'SENDING' | 'SENT' | 'CANCELLED';
@@ -80,13 +84,33 @@ export default function BroadcastsPage() {
     meetingUrl: '',
     rsvpRequired: false,
     rsvpDeadline: '',
-    targetAudience: 'ALL' as 'ALL' | 'BRANCH' | 'GENERATION' | 'CUSTOM',
+    targetAudience: 'ALL' as 'ALL' | 'BRANCH' | 'GENERATION' | 'CUSTOM' | 'SEGMENT' | 'RULES',
     targetBranch: '',
     targetGeneration: '',
+    targetSegmentId: '',
+    targetRules: EMPTY_AUDIENCE as AudienceRule,
+    channels: ['EMAIL'] as BroadcastChannel[],
     scheduledAt: '',
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState('');
+  const { getAuthHeader } = useAuth();
+  const [segments, setSegments] = useState<{ id: string; name: string; lastCount: number }[]>([]);
+  const [branches, setBranches] = useState<LineageBranch[]>([]);
+
+  // Saved segments and branches for the audience options
+  useEffect(() => {
+    if (!showCreateForm) return;
+    fetch('/api/audience/segments', { headers: getAuthHeader() })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setSegments(data.data.segments);
+          setBranches(data.data.branches);
+        }
+      })
+      .catch(() => {});
+  }, [showCreateForm, getAuthHeader]);
 
   useEffect(() => {
     loadBroadcasts();
@@ -114,6 +138,10 @@ export default function BroadcastsPage() {
 
   const handleCreateBroadcast = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (formData.channels.length === 0) {
+      setFormError('اختر وسيلة إرسال واحدة على الأقل');
+      return;
+    }
     setIsSubmitting(true);
     setFormError('');
 
@@ -127,6 +155,8 @@ export default function BroadcastsPage() {
           rsvpDeadline: formData.rsvpDeadline || undefined,
           scheduledAt: formData.scheduledAt || undefined,
           targetGeneration: formData.targetGeneration ? parseInt(formData.targetGeneration) : undefined,
+          targetSegmentId: formData.targetAudience === 'SEGMENT' ? formData.targetSegmentId : undefined,
+          targetRules: formData.targetAudience === 'RULES' ? formData.targetRules : undefined,
           createdBy: 'admin',
           createdByName: 'مدير النظام',
         }),
@@ -150,6 +180,9 @@ export default function BroadcastsPage() {
           targetAudience: 'ALL',
           targetBranch: '',
           targetGeneration: '',
+          targetSegmentId: '',
+          targetRules: EMPTY_AUDIENCE,
+          channels: ['EMAIL'],
           scheduledAt: '',
         });
         loadBroadcasts();
@@ -243,13 +276,22 @@ export default function BroadcastsPage() {
           <h1 className="text-3xl font-bold text-gray-800">البث البريدي</h1>
           <p className="text-gray-500 mt-1">Email Broadcasts - إرسال رسائل جماعية للعائلة</p>
         </div>
-        <button
-          onClick={() => setShowCreateForm(true)}
-          className="flex items-center gap-2 px-6 py-3 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] transition-colors"
-        >
-          <Plus className="w-5 h-5" />
-          <span>إنشاء بث جديد</span>
-        </button>
+        <div className="flex items-center gap-3">
+          <Link
+            href="/admin/broadcasts/audiences"
+            className="flex items-center gap-2 px-4 py-3 border border-[#1E3A5F] text-[#1E3A5F] rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Users className="w-5 h-5" />
+            <span>شرائح الجمهور</span>
+          </Link>
+          <button
+            onClick={() => setShowCreateForm(true)}
+            className="flex items-center gap-2 px-6 py-3 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>إنشاء بث جديد</span>
+          </button>
+        </div>
       </div>
 
       {/* Quick Stats */}
@@ -635,9 +677,39 @@ export default function BroadcastsPage() {
                   <option value="ALL">جميع أفراد العائلة</option>
                   <option value="BRANCH">فرع محدد</option>
                   <option value="GENERATION">جيل محدد</option>
+                  <option value="SEGMENT">شريحة محفوظة</option>
+                  <option value="RULES">قواعد مخصصة</option>
                 </select>
               </div>
 
+              {formData.targetAudience === 'SEGMENT' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">الشريحة</label>
+                  <select
+                    value={formData.targetSegmentId}
+                    onChange={(e) => setFormData({ ...formData, targetSegmentId: e.target.value })}
+                    className="w-full px-4 py-2 border rounded-lg"
+                    required
+                  >
+                    <option value="">اختر شريحة</option>
+                    {segments.map((segment) => (
+                      <option key={segment.id} value={segment.id}>
+                        {segment.name} ({segment.lastCount})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {formData.targetAudience === 'RULES' && (
+                <AudienceBuilder
+                  value={formData.targetRules}
+                  onChange={(targetRules) => setFormData({ ...formData, targetRules })}
+                  branches={branches}
+                  channels={formData.channels}
+                />
+              )}
+
               {formData.targetAudience === 'BRANCH' && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">الفرع</label>
@@ -666,6 +738,32 @@ export default function BroadcastsPage() {
                 </div>
               )}
 
+              {/* Channels */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">وسائل الإرسال</label>
+                <div className="flex flex-wrap gap-4">
+                  {BROADCAST_CHANNELS.map((channel) => (
+                    <label key={channel} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.channels.includes(channel)}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          channels: e.target.checked
+                            ? [...formData.channels, channel]
+                            : formData.channels.filter((c) => c !== channel),
+                        })}
+                        className="w-4 h-4 text-[#1E3A5F] rounded"
+                      />
+                      <span className="text-sm text-gray-700">{BROADCAST_CHANNEL_LABELS[channel].ar}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  يستلم كل فرد الرسالة عبر الوسائل التي اختارها في ملفه، وإلا عبر كل الوسائل المتاحة له
+                </p>
+              </div>
+
               {/* Schedule */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">جدولة الإرسال (اختياري)</label>
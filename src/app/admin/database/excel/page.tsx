@@ -29,6 +29,7 @@ import {
   Undo2,
 } from 'lucide-react';
 import { memberFields } from '@/config/fields';
+import { withDualCalendarYears } from '@/lib/hijri';
 
 // Use centralized field definitions from config
 const MEMBER_FIELDS = memberFields;
@@ -243,8 +244,12 @@ export default function ExcelViewPage() {
     }
 
     if (oldValue !== newValue) {
+      // Editing a Gregorian or Hijri year also fills in the other calendar
+      const update = typeof newValue === 'string'
+        ? { [field]: newValue }
+        : withDualCalendarYears({ [field]: newValue });
       const updatedMembers = [...members];
-      updatedMembers[row] = { ...updatedMembers[row], [field]: newValue };
+      updatedMembers[row] = { ...updatedMembers[row], ...update };
       setMembers(updatedMembers);
 
       // Track change
@@ -15,6 +15,7 @@ import {
   Plus,
   Trash2,
   RotateCcw,
+  GitMerge,
   ChevronDown,
   X,
 } from 'lucide-react';
@@ -114,6 +115,8 @@ export default function HistoryPage() {
         return { label: 'تغيير الأب', icon: RotateCcw, color: 'bg-purple-100 text-purple-700' };
       case 'RESTORE':
         return { label: 'استعادة', icon: RotateCcw, color: 'bg-orange-100 text-orange-700' };
+      case 'MERGE':
+        return { label: 'دمج', icon: GitMerge, color: 'bg-teal-100 text-teal-700' };
       default:
         return { label: type, icon: History, color: 'bg-gray-100 text-gray-700' };
     }
@@ -225,6 +228,7 @@ export default function HistoryPage() {
                 <option value="DELETE">حذف</option>
                 <option value="PARENT_CHANGE">تغيير الأب</option>
                 <option value="RESTORE">استعادة</option>
+                <option value="MERGE">دمج</option>
               </select>
             </div>
             <div>
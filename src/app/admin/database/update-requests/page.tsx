@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ClipboardEdit, ChevronLeft, RefreshCw, Check, X, Calendar, User } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { MEMBER_PRIVACY_OVERRIDE_LABELS, parseMemberPrivacyOverrides } from '@/lib/privacy';
+
+type RequestStatus = 'PENDING' | 'APPROVED' | 'PARTIALLY_APPROVED' | 'REJECTED';
+
+interface UpdateRequest {
+  id: string;
+  memberId: string;
+  memberName: string;
+  submittedByName: string;
+  proposedChanges: string;
+  status: RequestStatus;
+  reviewNotes: string | null;
+  createdAt: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  birthYear: 'سنة الميلاد',
+  deathYear: 'سنة الوفاة',
+  phone: 'الجوال',
+  email: 'البريد الإلكتروني',
+  city: 'المدينة',
+  photoUrl: 'الصورة',
+  biography: 'النبذة',
+  occupation: 'المهنة',
+  status: 'الحالة',
+  privacyOverrides: 'إعدادات الخصوصية',
+};
+
+const STATUS_INFO: Record<RequestStatus, { label: string; color: string }> = {
+  PENDING: { label: 'معلق', color: 'bg-yellow-100 text-yellow-700' },
+  APPROVED: { label: 'موافق عليه', color: 'bg-green-100 text-green-700' },
+  PARTIALLY_APPROVED: { label: 'موافقة جزئية', color: 'bg-blue-100 text-blue-700' },
+  REJECTED: { label: 'مرفوض', color: 'bg-red-100 text-red-700' },
+};
+
+function formatChange(field: string, value: unknown): string {
+  if (field === 'privacyOverrides') {
+    const flags = Object.keys(parseMemberPrivacyOverrides(value)) as (keyof typeof MEMBER_PRIVACY_OVERRIDE_LABELS)[];
+    return flags.length > 0
+      ? flags.map((flag) => MEMBER_PRIVACY_OVERRIDE_LABELS[flag].ar).join('، ')
+      : 'إظهار كل البيانات';
+  }
+  return value === null || value === undefined || value === '' ? '-' : String(value);
+}
+
+function parseChanges(proposedChanges: string): Record<string, unknown> {
+  try {
+    return JSON.parse(proposedChanges);
+  } catch {
+    return {};
+  }
+}
+
+export default function UpdateRequestsPage() {
+  const { getAuthHeader, isLoading: authLoading } = useAuth();
+  const [requests, setRequests] = useState<UpdateRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<RequestStatus>('PENDING');
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/member-update-requests?status=${status}`, { headers: getAuthHeader() });
+      const data = await res.json();
+      setRequests(data.data?.requests || []);
+    } catch (error) {
+      console.error('Error loading update requests:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, getAuthHeader]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    loadRequests();
+  }, [authLoading, loadRequests]);
+
+  const handleReview = async (id: string, action: 'APPROVE' | 'REJECT') => {
+    const reviewNotes = action === 'REJECT' ? prompt('سبب الرفض (اختياري):') : null;
+    try {
+      const res = await fetch(`/api/member-update-requests/${id}`, {
+        method: 'PATCH',
+        headers: { ...getAuthHeader(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reviewNotes }),
+      });
+      const data = await res.json();
+      alert(data.messageAr || data.message);
+      if (data.success) {
+        setRequests((prev) => prev.filter((request) => request.id !== id));
+      }
+    } catch (error) {
+      console.error('Error reviewing request:', error);
+    }
+  };
+
+  return (
+    <div className="p-4 lg:p-8">
+      {/* Header */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+          <Link href="/admin" className="hover:text-gray-700">لوحة التحكم</Link>
+          <ChevronLeft className="w-4 h-4" />
+          <Link href="/admin/database" className="hover:text-gray-700">قاعدة البيانات</Link>
+          <ChevronLeft className="w-4 h-4" />
+          <span className="text-gray-800">طلبات التحديث</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+              <ClipboardEdit className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-800">طلبات التحديث</h1>
+              <p className="text-sm text-gray-500">MemberUpdateRequest - {requests.length} طلب</p>
+            </div>
+          </div>
+          <button
+            onClick={loadRequests}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg"
+          >
+            <RefreshCw className="w-5 h-5" />
+            تحديث
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 mb-6">
+        {(Object.keys(STATUS_INFO) as RequestStatus[]).map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatus(s)}
+            className={`px-4 py-2 rounded-lg transition-colors ${
+              status === s ? 'bg-[#1E3A5F] text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {STATUS_INFO[s].label}
+          </button>
+        ))}
+      </div>
+
+      {/* List */}
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="w-12 h-12 border-4 border-[#1E3A5F] border-t-transparent rounded-full animate-spin mx-auto" />
+        </div>
+      ) : requests.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm p-12 text-center">
+          <ClipboardEdit className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-600">لا توجد طلبات</h3>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {requests.map((request) => (
+            <div key={request.id} className="bg-white rounded-xl shadow-sm p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Link href={`/member/${request.memberId}`} className="font-bold text-gray-800 hover:underline">
+                      {request.memberName}
+                    </Link>
+                    <span className={`px-2 py-0.5 rounded text-xs ${STATUS_INFO[request.status]?.color}`}>
+                      {STATUS_INFO[request.status]?.label || request.status}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
+                    <span className="flex items-center gap-1">
+                      <User className="w-4 h-4" />
+                      {request.submittedByName}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Calendar className="w-4 h-4" />
+                      {new Date(request.createdAt).toLocaleDateString('ar-SA')}
+                    </span>
+                  </div>
+                </div>
+
+                {request.status === 'PENDING' && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleReview(request.id, 'APPROVE')}
+                      className="p-2 hover:bg-green-100 rounded-lg"
+                      title="موافقة"
+                    >
+                      <Check className="w-5 h-5 text-green-500" />
+                    </button>
+                    <button
+                      onClick={() => handleReview(request.id, 'REJECT')}
+                      className="p-2 hover:bg-red-100 rounded-lg"
+                      title="رفض"
+                    >
+                      <X className="w-5 h-5 text-red-500" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <dl className="mt-4 grid gap-2 text-sm">
+                {Object.entries(parseChanges(request.proposedChanges)).map(([field, value]) => (
+                  <div key={field} className="flex gap-2 p-2 bg-gray-50 rounded-lg">
+                    <dt className="text-gray-500">{FIELD_LABELS[field] || field}:</dt>
+                    <dd className="text-gray-800">{formatChange(field, value)}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {request.reviewNotes && (
+                <div className="mt-4 p-3 bg-gray-50 rounded-lg text-sm">
+                  <span className="text-gray-500">ملاحظات المراجعة: </span>
+                  {request.reviewNotes}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, ArrowRight, Camera, CameraOff, CheckCircle, Search, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { AttendanceTotals } from '@/lib/gatherings';
+
+// BarcodeDetector isn't in the DOM typings yet; Chrome on Android and Safari 17+ ship it
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+interface CheckInAttendee {
+  id: string;
+  name: string;
+  rsvpStatus: string;
+  plusOnes: number;
+  dietaryNotes: string | null;
+  attended: boolean;
+}
+
+interface ScanResult {
+  kind: 'ok' | 'repeat' | 'error';
+  message: string;
+  attendee?: CheckInAttendee;
+}
+
+// The same pass held in front of the camera is only sent once in this window
+const RESCAN_DELAY_MS = 4000;
+
+export default function GatheringCheckInPage({ params }: { params: { id: string } }) {
+  const { id } = params;
+  const { getAuthHeader } = useAuth();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastScan = useRef<{ code: string; at: number } | null>(null);
+  const busy = useRef(false);
+  const [title, setTitle] = useState('');
+  const [totals, setTotals] = useState<AttendanceTotals | null>(null);
+  const [attendees, setAttendees] = useState<CheckInAttendee[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [cameraError, setCameraError] = useState('');
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [search, setSearch] = useState('');
+
+  const loadReport = useCallback(async () => {
+    const res = await fetch(`/api/gatherings/${id}/report`, { headers: getAuthHeader() });
+    const data = await res.json();
+    if (data.success) {
+      setTitle(data.data.gathering.titleAr);
+      setTotals(data.data.totals);
+      setAttendees(data.data.attendees);
+    }
+  }, [id, getAuthHeader]);
+
+  useEffect(() => {
+    loadReport().catch(() => {});
+  }, [loadReport]);
+
+  const checkIn = useCallback(async (input: { code: string } | { attendeeId: string }) => {
+    if (busy.current) return;
+    busy.current = true;
+    try {
+      const res = await fetch(`/api/gatherings/${id}/check-in`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify(input),
+      });
+      const data = await res.json();
+      if (data.success) {
+        const attendee: CheckInAttendee = data.data.attendee;
+        setResult(data.data.alreadyCheckedIn
+          ? { kind: 'repeat', message: 'تم تسجيل حضوره مسبقاً', attendee }
+          : { kind: 'ok', message: 'أهلاً وسهلاً', attendee });
+        if ('vibrate' in navigator) navigator.vibrate(data.data.alreadyCheckedIn ? [80, 80, 80] : 120);
+        loadReport().catch(() => {});
+      } else {
+        setResult({ kind: 'error', message: data.error || 'رمز غير صالح' });
+      }
+    } catch {
+      setResult({ kind: 'error', message: 'تعذر الاتصال بالخادم' });
+    } finally {
+      busy.current = false;
+    }
+  }, [id, getAuthHeader, loadReport]);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }, []);
+
+  const startCamera = async () => {
+    setCameraError('');
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) {
+      setCameraError('المتصفح لا يدعم قراءة الرموز بالكاميرا، استخدم البحث بالاسم');
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+    } catch {
+      setCameraError('تعذر تشغيل الكاميرا، تحقق من إذن الوصول');
+    }
+  };
+
+  // Read frames while the camera runs
+  useEffect(() => {
+    if (!scanning) return;
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) return;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const timer = setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || busy.current) return;
+      try {
+        const [code] = await detector.detect(video);
+        if (!code) return;
+        const now = Date.now();
+        if (lastScan.current?.code === code.rawValue && now - lastScan.current.at < RESCAN_DELAY_MS) return;
+        lastScan.current = { code: code.rawValue, at: now };
+        checkIn({ code: code.rawValue });
+      } catch {
+        // Frames that can't be read are skipped
+      }
+    }, 300);
+    return () => clearInterval(timer);
+  }, [scanning, checkIn]);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const matches = search.trim()
+    ? attendees.filter((attendee) => attendee.name.includes(search.trim())).slice(0, 20)
+    : [];
+
+  return (
+    <div className="p-4 max-w-lg mx-auto space-y-4" dir="rtl">
+      <div>
+        <Link href={`/admin/gatherings/${id}`} className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2">
+          <ArrowRight className="w-4 h-4" />
+          تفاصيل اللقاء
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-800">تسجيل الحضور</h1>
+        {title && <p className="text-gray-500">{title}</p>}
+      </div>
+
+      {totals && (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-white rounded-xl shadow-sm p-3">
+            <p className="text-xl font-bold text-green-700">{totals.attended}</p>
+            <p className="text-xs text-gray-500">وصلوا</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-3">
+            <p className="text-xl font-bold text-gray-800">{totals.attendedHeadcount}</p>
+            <p className="text-xs text-gray-500">مع المرافقين</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-3">
+            <p className="text-xl font-bold text-gray-800">{totals.expectedHeadcount}</p>
+            <p className="text-xs text-gray-500">المتوقع</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-black rounded-xl overflow-hidden relative aspect-square">
+        <video ref={videoRef} className={`w-full h-full object-cover ${scanning ? '' : 'hidden'}`} playsInline muted />
+        {!scanning && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-white p-6 text-center">
+            <Camera className="w-12 h-12 opacity-70" />
+            <button
+              onClick={startCamera}
+              className="px-6 py-3 bg-white text-gray-800 rounded-lg font-medium"
+            >
+              تشغيل الكاميرا
+            </button>
+            {cameraError && <p className="text-sm text-red-300">{cameraError}</p>}
+          </div>
+        )}
+        {scanning && (
+          <>
+            <div className="absolute inset-12 border-4 border-white/70 rounded-xl pointer-events-none" />
+            <button
+              onClick={stopCamera}
+              className="absolute top-3 left-3 p-2 bg-black/50 text-white rounded-full"
+              title="إيقاف الكاميرا"
+            >
+              <CameraOff className="w-5 h-5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {result && (
+        <div className={`rounded-xl p-4 flex items-start gap-3 ${
+          result.kind === 'ok' ? 'bg-green-50 text-green-800' : result.kind === 'repeat' ? 'bg-amber-50 text-amber-800' : 'bg-red-50 text-red-700'
+        }`}>
+          {result.kind === 'ok' ? <CheckCircle className="w-6 h-6 shrink-0" />
+            : result.kind === 'repeat' ? <AlertTriangle className="w-6 h-6 shrink-0" />
+              : <XCircle className="w-6 h-6 shrink-0" />}
+          <div>
+            <p className="font-semibold">{result.attendee?.name || result.message}</p>
+            {result.attendee && <p className="text-sm">{result.message}</p>}
+            {result.attendee && result.attendee.plusOnes > 0 && (
+              <p className="text-sm">ومعه {result.attendee.plusOnes} مرافق</p>
+            )}
+            {result.attendee?.dietaryNotes && <p className="text-sm">🍽️ {result.attendee.dietaryNotes}</p>}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="بحث بالاسم لمن لا يحمل بطاقة"
+            className="w-full pr-9 pl-3 py-2 border rounded-lg"
+          />
+        </div>
+        {matches.map((attendee) => (
+          <div key={attendee.id} className="flex items-center justify-between gap-2">
+            <span className="text-gray-800">
+              {attendee.name}
+              {attendee.plusOnes > 0 && <span className="text-xs text-gray-500"> +{attendee.plusOnes}</span>}
+            </span>
+            {attendee.attended ? (
+              <span className="text-sm text-green-700">وصل</span>
+            ) : (
+              <button
+                onClick={() => checkIn({ attendeeId: attendee.id })}
+                className="px-3 py-1.5 bg-[#1E3A5F] text-white rounded-lg text-sm"
+              >
+                تسجيل
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,493 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowRight, Calendar, CheckCircle, MapPin, QrCode, RefreshCw, Send, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { AudienceRule } from '@/lib/audience';
+import { BROADCAST_CHANNELS, BROADCAST_CHANNEL_LABELS, type BroadcastChannel } from '@/lib/broadcast-channels';
+import {
+  GATHERING_RSVP_LABELS,
+  type AttendanceTotals,
+  type BranchAttendance,
+  type GatheringRsvpResponse,
+} from '@/lib/gatherings';
+import AudienceBuilder, { EMPTY_AUDIENCE, type LineageBranch } from '@/components/admin/AudienceBuilder';
+
+interface ReportAttendee {
+  id: string;
+  name: string;
+  email: string | null;
+  rsvpStatus: GatheringRsvpResponse | 'PENDING';
+  rsvpNote: string | null;
+  plusOnes: number;
+  dietaryNotes: string | null;
+  invitedAt: string | null;
+  attended: boolean;
+  attendedAt: string | null;
+  branchName: string | null;
+}
+
+interface Report {
+  gathering: {
+    id: string;
+    titleAr: string;
+    title: string;
+    date: string;
+    time: string | null;
+    locationAr: string | null;
+    location: string | null;
+    status: string;
+  };
+  totals: AttendanceTotals;
+  branches: BranchAttendance[];
+  attendees: ReportAttendee[];
+}
+
+interface InviteForm {
+  targetAudience: 'ALL' | 'BRANCH' | 'SEGMENT' | 'RULES';
+  lineageBranchId: string;
+  subBranchId: string;
+  targetSegmentId: string;
+  targetRules: AudienceRule;
+  channels: BroadcastChannel[];
+  messageAr: string;
+  rsvpDeadline: string;
+  sendNow: boolean;
+}
+
+const emptyInvite: InviteForm = {
+  targetAudience: 'ALL',
+  lineageBranchId: '',
+  subBranchId: '',
+  targetSegmentId: '',
+  targetRules: EMPTY_AUDIENCE,
+  channels: ['EMAIL'],
+  messageAr: '',
+  rsvpDeadline: '',
+  sendNow: true,
+};
+
+const rsvpBadges: Record<ReportAttendee['rsvpStatus'], string> = {
+  YES: 'bg-green-100 text-green-700',
+  MAYBE: 'bg-amber-100 text-amber-700',
+  NO: 'bg-red-100 text-red-700',
+  PENDING: 'bg-gray-100 text-gray-600',
+};
+
+export default function AdminGatheringPage({ params }: { params: { id: string } }) {
+  const { id } = params;
+  const { getAuthHeader } = useAuth();
+  const [report, setReport] = useState<Report | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [branches, setBranches] = useState<LineageBranch[]>([]);
+  const [segments, setSegments] = useState<{ id: string; name: string; lastCount: number }[]>([]);
+  const [invite, setInvite] = useState<InviteForm | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [inviteError, setInviteError] = useState('');
+  const [inviteResult, setInviteResult] = useState('');
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/gatherings/${id}/report`, { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) setReport(data.data);
+    } catch (err) {
+      console.error('Error loading attendance report:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, getAuthHeader]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Saved segments and branches for the audience options
+  useEffect(() => {
+    if (!invite) return;
+    fetch('/api/audience/segments', { headers: getAuthHeader() })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setSegments(data.data.segments);
+          setBranches(data.data.branches);
+        }
+      })
+      .catch(() => {});
+  }, [invite, getAuthHeader]);
+
+  const handleInvite = async () => {
+    if (!invite) return;
+    setIsSending(true);
+    setInviteError('');
+    try {
+      const res = await fetch(`/api/gatherings/${id}/invite`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify({
+          targetAudience: invite.targetAudience,
+          lineageBranchId: invite.lineageBranchId || null,
+          subBranchId: invite.subBranchId || null,
+          targetSegmentId: invite.targetSegmentId || null,
+          targetRules: invite.targetAudience === 'RULES' ? invite.targetRules : null,
+          channels: invite.channels,
+          messageAr: invite.messageAr.trim() || null,
+          rsvpDeadline: invite.rsvpDeadline || null,
+          sendNow: invite.sendNow,
+        }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setInvite(null);
+        setInviteResult(data.messageAr);
+        loadReport();
+      } else {
+        const fieldErrors = data.details?.fieldErrors as Record<string, string> | undefined;
+        setInviteError(fieldErrors ? Object.values(fieldErrors).join('، ') : data.error || 'تعذر إرسال الدعوات');
+      }
+    } catch {
+      setInviteError('تعذر إرسال الدعوات');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const toggleAttended = async (attendee: ReportAttendee) => {
+    const res = await fetch(`/api/gatherings/${id}/check-in`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+      body: JSON.stringify({ attendeeId: attendee.id, attended: !attendee.attended }),
+    });
+    const data = await res.json();
+    if (data.success) loadReport();
+    else alert(data.error || 'تعذر تحديث الحضور');
+  };
+
+  if (isLoading && !report) {
+    return <div className="p-12 text-center text-gray-500">جاري التحميل...</div>;
+  }
+  if (!report) {
+    return <div className="p-12 text-center text-gray-500">اللقاء غير موجود</div>;
+  }
+
+  const { gathering, totals } = report;
+  const selectedBranch = branches.find((branch) => branch.id === invite?.lineageBranchId);
+  const stats = [
+    { label: 'مدعو', value: totals.invited },
+    { label: 'سيحضر', value: totals.yes },
+    { label: 'ربما', value: totals.maybe },
+    { label: 'اعتذر', value: totals.no },
+    { label: 'لم يرد', value: totals.pending },
+    { label: 'العدد المتوقع', value: totals.expectedHeadcount },
+    { label: 'حضر فعلياً', value: totals.attendedHeadcount },
+  ];
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6" dir="rtl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link href="/admin/gatherings" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowRight className="w-4 h-4" />
+            اللقاءات العائلية
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800">{gathering.titleAr}</h1>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-1">
+            <span className="flex items-center gap-1">
+              <Calendar className="w-4 h-4" />
+              {gathering.date.split('T')[0]}{gathering.time && ` · ${gathering.time}`}
+            </span>
+            {(gathering.locationAr || gathering.location) && (
+              <span className="flex items-center gap-1">
+                <MapPin className="w-4 h-4" />
+                {gathering.locationAr || gathering.location}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={loadReport}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+            title="تحديث"
+          >
+            <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          <Link
+            href={`/admin/gatherings/${id}/check-in`}
+            className="flex items-center gap-2 px-4 py-2 border border-[#1E3A5F] text-[#1E3A5F] rounded-lg hover:bg-blue-50"
+          >
+            <QrCode className="w-5 h-5" />
+            تسجيل الحضور
+          </Link>
+          {!invite && gathering.status !== 'CANCELLED' && (
+            <button
+              onClick={() => { setInvite(emptyInvite); setInviteResult(''); }}
+              className="flex items-center gap-2 px-4 py-2 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87]"
+            >
+              <Send className="w-5 h-5" />
+              إرسال دعوات
+            </button>
+          )}
+        </div>
+      </div>
+
+      {inviteResult && (
+        <div className="p-4 bg-green-50 text-green-700 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-5 h-5" />
+          {inviteResult}
+        </div>
+      )}
+
+      {invite && (
+        <div className="bg-white rounded-xl shadow-sm p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-800">دعوة إلى اللقاء</h2>
+          <p className="text-sm text-gray-500">
+            تُرسل الدعوة كبث، ويحصل كل مدعو على رابط شخصي للرد وعدد المرافقين وبطاقة دخول برمز QR.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {([
+              { id: 'ALL', label: 'كل العائلة' },
+              { id: 'BRANCH', label: 'فرع' },
+              { id: 'SEGMENT', label: 'شريحة محفوظة' },
+              { id: 'RULES', label: 'قواعد مخصصة' },
+            ] as const).map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setInvite({ ...invite, targetAudience: option.id })}
+                className={`px-4 py-2 rounded-lg border text-sm ${
+                  invite.targetAudience === option.id ? 'bg-[#1E3A5F] text-white border-[#1E3A5F]' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {invite.targetAudience === 'BRANCH' && (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">الفرع *</label>
+                <select
+                  value={invite.lineageBranchId}
+                  onChange={(e) => setInvite({ ...invite, lineageBranchId: e.target.value, subBranchId: '' })}
+                  className="w-full px-4 py-2 border rounded-lg"
+                >
+                  <option value="">اختر الفرع</option>
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">الفرع الفرعي</label>
+                <select
+                  value={invite.subBranchId}
+                  onChange={(e) => setInvite({ ...invite, subBranchId: e.target.value })}
+                  disabled={!selectedBranch}
+                  className="w-full px-4 py-2 border rounded-lg disabled:bg-gray-50"
+                >
+                  <option value="">الفرع كاملاً</option>
+                  {selectedBranch?.subBranches.map((sub) => (
+                    <option key={sub.id} value={sub.id}>{sub.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {invite.targetAudience === 'SEGMENT' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">الشريحة *</label>
+              <select
+                value={invite.targetSegmentId}
+                onChange={(e) => setInvite({ ...invite, targetSegmentId: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              >
+                <option value="">اختر الشريحة</option>
+                {segments.map((segment) => (
+                  <option key={segment.id} value={segment.id}>{segment.name} ({segment.lastCount})</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {invite.targetAudience === 'RULES' && (
+            <AudienceBuilder
+              value={invite.targetRules}
+              onChange={(targetRules) => setInvite({ ...invite, targetRules })}
+              branches={branches}
+              channels={invite.channels}
+            />
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">قنوات الإرسال</label>
+            <div className="flex flex-wrap gap-4">
+              {BROADCAST_CHANNELS.map((channel) => (
+                <label key={channel} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={invite.channels.includes(channel)}
+                    onChange={(e) => setInvite({
+                      ...invite,
+                      channels: e.target.checked
+                        ? [...invite.channels, channel]
+                        : invite.channels.filter((c) => c !== channel),
+                    })}
+                  />
+                  <span className="text-sm text-gray-700">{BROADCAST_CHANNEL_LABELS[channel].ar}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">نص الدعوة</label>
+            <textarea
+              value={invite.messageAr}
+              onChange={(e) => setInvite({ ...invite, messageAr: e.target.value })}
+              rows={4}
+              className="w-full px-4 py-2 border rounded-lg"
+              placeholder="يُستخدم وصف اللقاء إذا تُرك فارغاً"
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">آخر موعد للرد</label>
+              <input
+                type="datetime-local"
+                value={invite.rsvpDeadline}
+                onChange={(e) => setInvite({ ...invite, rsvpDeadline: e.target.value })}
+                className="w-full px-4 py-2 border rounded-lg"
+              />
+            </div>
+            <label className="flex items-center gap-2 self-end pb-2">
+              <input
+                type="checkbox"
+                checked={invite.sendNow}
+                onChange={(e) => setInvite({ ...invite, sendNow: e.target.checked })}
+              />
+              <span className="text-sm text-gray-700">إرسال الآن (وإلا تُحفظ مسودة في البث البريدي)</span>
+            </label>
+          </div>
+
+          {inviteError && <p className="text-sm text-red-600">{inviteError}</p>}
+
+          <div className="flex items-center justify-end gap-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={() => { setInvite(null); setInviteError(''); }}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+            >
+              إلغاء
+            </button>
+            <button
+              type="button"
+              onClick={handleInvite}
+              disabled={isSending || invite.channels.length === 0}
+              className="flex items-center gap-2 px-6 py-2 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              {isSending ? 'جاري الإرسال...' : invite.sendNow ? 'إرسال الدعوات' : 'حفظ كمسودة'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-white rounded-xl shadow-sm p-4 text-center">
+            <p className="text-2xl font-bold text-gray-800">{stat.value}</p>
+            <p className="text-xs text-gray-500 mt-1">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        <h2 className="text-lg font-semibold text-gray-800 p-4 border-b">الحضور حسب الفرع</h2>
+        {report.branches.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">لا يوجد مدعوون بعد</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 text-right">الفرع</th>
+                  <th className="px-4 py-2">مدعو</th>
+                  <th className="px-4 py-2">سيحضر</th>
+                  <th className="px-4 py-2">ربما</th>
+                  <th className="px-4 py-2">اعتذر</th>
+                  <th className="px-4 py-2">لم يرد</th>
+                  <th className="px-4 py-2">المتوقع</th>
+                  <th className="px-4 py-2">حضر</th>
+                  <th className="px-4 py-2">لم يحضر</th>
+                  <th className="px-4 py-2">دون رد مسبق</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y text-center">
+                {report.branches.map((branch) => (
+                  <tr key={branch.branchId || 'none'}>
+                    <td className="px-4 py-2 text-right font-medium text-gray-800">{branch.branchName || 'غير محدد'}</td>
+                    <td className="px-4 py-2">{branch.invited}</td>
+                    <td className="px-4 py-2">{branch.yes}</td>
+                    <td className="px-4 py-2">{branch.maybe}</td>
+                    <td className="px-4 py-2">{branch.no}</td>
+                    <td className="px-4 py-2">{branch.pending}</td>
+                    <td className="px-4 py-2">{branch.expectedHeadcount}</td>
+                    <td className="px-4 py-2 text-green-700">{branch.attendedHeadcount}</td>
+                    <td className="px-4 py-2 text-red-600">{branch.noShows}</td>
+                    <td className="px-4 py-2">{branch.walkIns}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        <h2 className="text-lg font-semibold text-gray-800 p-4 border-b flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          المدعوون ({report.attendees.length})
+        </h2>
+        <div className="divide-y">
+          {report.attendees.map((attendee) => (
+            <div key={attendee.id} className="p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-800">{attendee.name}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${rsvpBadges[attendee.rsvpStatus] || rsvpBadges.PENDING}`}>
+                    {(GATHERING_RSVP_LABELS[attendee.rsvpStatus] || GATHERING_RSVP_LABELS.PENDING).ar}
+                  </span>
+                  {attendee.plusOnes > 0 && (
+                    <span className="text-xs text-gray-500">+{attendee.plusOnes} مرافق</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {attendee.branchName || 'فرع غير محدد'}
+                  {attendee.dietaryNotes && ` · 🍽️ ${attendee.dietaryNotes}`}
+                  {attendee.rsvpNote && ` · ${attendee.rsvpNote}`}
+                </p>
+              </div>
+              <button
+                onClick={() => toggleAttended(attendee)}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm ${
+                  attendee.attended ? 'bg-green-100 text-green-700 hover:bg-green-200' : 'border text-gray-600 hover:bg-gray-50'
+                }`}
+                title={attendee.attended ? 'إلغاء تسجيل الحضور' : 'تسجيل الحضور'}
+              >
+                <CheckCircle className="w-4 h-4" />
+                {attendee.attended ? 'حضر' : 'تسجيل'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowRight, Calendar, CalendarDays, ChevronLeft, MapPin, QrCode } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface GatheringItem {
+  id: string;
+  title: string;
+  titleAr: string;
+  date: string;
+  time: string | null;
+  location: string | null;
+  locationAr: string | null;
+  status: string;
+  attendees: {
+    confirmed: number;
+    maybe: number;
+    total: number;
+  };
+}
+
+const statusLabels: Record<string, { label: string; className: string }> = {
+  DRAFT: { label: 'مسودة', className: 'bg-gray-100 text-gray-700' },
+  UPCOMING: { label: 'قادم', className: 'bg-blue-100 text-blue-700' },
+  ONGOING: { label: 'جارٍ', className: 'bg-green-100 text-green-700' },
+  COMPLETED: { label: 'منتهٍ', className: 'bg-gray-100 text-gray-600' },
+  CANCELLED: { label: 'ملغى', className: 'bg-red-100 text-red-700' },
+};
+
+export default function AdminGatheringsPage() {
+  const { getAuthHeader } = useAuth();
+  const [gatherings, setGatherings] = useState<GatheringItem[]>([]);
+  const [filter, setFilter] = useState<'upcoming' | 'past'>('upcoming');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadGatherings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '50', [filter]: 'true' });
+      const res = await fetch(`/api/gatherings?${params}`, { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        setGatherings(filter === 'past' ? [...data.data].reverse() : data.data);
+      }
+    } catch (err) {
+      console.error('Error loading gatherings:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter, getAuthHeader]);
+
+  useEffect(() => {
+    loadGatherings();
+  }, [loadGatherings]);
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto" dir="rtl">
+      <div className="mb-8">
+        <Link href="/admin" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2">
+          <ArrowRight className="w-4 h-4" />
+          لوحة التحكم
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800">اللقاءات العائلية</h1>
+        <p className="text-gray-500 mt-1">Gatherings - الدعوات والردود وتسجيل الحضور</p>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {([
+          { id: 'upcoming', label: 'القادمة' },
+          { id: 'past', label: 'السابقة' },
+        ] as const).map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setFilter(tab.id)}
+            className={`px-4 py-2 rounded-full text-sm font-medium ${
+              filter === tab.id ? 'bg-[#1E3A5F] text-white' : 'bg-white text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="p-12 text-center text-gray-500">جاري التحميل...</div>
+        ) : gatherings.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">
+            <CalendarDays className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>لا توجد لقاءات</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {gatherings.map((gathering) => {
+              const status = statusLabels[gathering.status] || statusLabels.UPCOMING;
+              return (
+                <div key={gathering.id} className="p-4 flex items-center justify-between gap-4">
+                  <Link href={`/admin/gatherings/${gathering.id}`} className="flex-1 min-w-0 group">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-gray-800 group-hover:text-[#1E3A5F] truncate">{gathering.titleAr}</h3>
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${status.className}`}>{status.label}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 mt-1">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-4 h-4" />
+                        {gathering.date}{gathering.time && ` · ${gathering.time}`}
+                      </span>
+                      {(gathering.locationAr || gathering.location) && (
+                        <span className="flex items-center gap-1">
+                          <MapPin className="w-4 h-4" />
+                          {gathering.locationAr || gathering.location}
+                        </span>
+                      )}
+                      <span>
+                        {gathering.attendees.confirmed} سيحضر · {gathering.attendees.maybe} ربما · {gathering.attendees.total} مدعو
+                      </span>
+                    </div>
+                  </Link>
+                  <div className="flex items-center gap-2">
+                    {gathering.status !== 'CANCELLED' && (
+                      <Link
+                        href={`/admin/gatherings/${gathering.id}/check-in`}
+                        className="p-2 text-gray-500 hover:text-[#1E3A5F] hover:bg-gray-100 rounded-lg"
+                        title="تسجيل الحضور"
+                      >
+                        <QrCode className="w-5 h-5" />
+                      </Link>
+                    )}
+                    <Link href={`/admin/gatherings/${gathering.id}`} className="p-2 text-gray-400 hover:text-gray-600">
+                      <ChevronLeft className="w-5 h-5" />
+                    </Link>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
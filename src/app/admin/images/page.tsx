@@ -21,8 +21,8 @@ import {
 
 interface PendingImage {
   id: string;
-  imageData: string;
-  thumbnailData?: string;
+  imageUrl: string;
+  thumbnailUrl?: string;
   category: string;
   title?: string;
   titleAr?: string;
@@ -381,7 +381,7 @@ export default function AdminImagesPage() {
                 >
                   {/* eslint-disable-next-line @next/next/no-img-element */}
                   <img
-                    src={image.thumbnailData || image.imageData}
+                    src={image.thumbnailUrl || image.imageUrl}
                     alt={image.title || 'صورة معلقة'}
                     className="w-full h-full object-cover"
                   />
@@ -489,7 +489,7 @@ export default function AdminImagesPage() {
               <div className="bg-gray-100 rounded-xl overflow-hidden mb-4">
                 {/* eslint-disable-next-line @next/next/no-img-element */}
                 <img
-                  src={selectedImage.imageData}
+                  src={selectedImage.imageUrl}
                   alt={selectedImage.title || 'صورة'}
                   className="w-full h-auto max-h-[50vh] object-contain"
                 />
@@ -20,6 +20,7 @@ import {
   Smartphone,
 } from 'lucide-react';
 import { emailProviders, otpProviders } from '@/config/constants';
+import { ScheduledJobsPanel } from '@/components/admin/ScheduledJobsPanel';
 
 interface ApiConfig {
   emailProvider: string;
@@ -667,6 +668,9 @@ export default function ApiServicesPage() {
             حفظ الإعدادات
           </button>
         </div>
+
+        {/* Scheduled Jobs */}
+        <ScheduledJobsPanel />
       </main>
     </div>
   );
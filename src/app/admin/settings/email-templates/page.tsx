@@ -0,0 +1,442 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import {
+  AlertTriangle,
+  ArrowRight,
+  Bold,
+  Heading,
+  History,
+  Link2,
+  List,
+  Mail,
+  MousePointerClick,
+  RotateCcw,
+  Save,
+  Send,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EDITABLE_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_LABELS,
+  EMAIL_TEMPLATE_VARIABLES,
+  renderEmailTemplate,
+  sampleTemplateData,
+  validateEmailTemplate,
+  type EditableEmailTemplate,
+  type EmailTemplateContent,
+} from '@/lib/email-templates';
+
+interface TemplateSummary extends EmailTemplateContent {
+  type: EditableEmailTemplate;
+  version: number;
+  isDefault: boolean;
+  updatedByName: string | null;
+  updatedAt: string | null;
+}
+
+interface TemplateVersion extends EmailTemplateContent {
+  version: number;
+  note: string | null;
+  createdByName: string;
+  createdAt: string;
+}
+
+type BodyField = 'bodyAr' | 'bodyEn';
+
+function toDraft(content: EmailTemplateContent): EmailTemplateContent {
+  return {
+    subjectAr: content.subjectAr,
+    subjectEn: content.subjectEn || '',
+    bodyAr: content.bodyAr,
+    bodyEn: content.bodyEn || '',
+  };
+}
+
+export default function EmailTemplatesPage() {
+  const { getAuthHeader } = useAuth();
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [selected, setSelected] = useState<EditableEmailTemplate>('welcome');
+  const [draft, setDraft] = useState<EmailTemplateContent>(toDraft(DEFAULT_EMAIL_TEMPLATES.welcome));
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [bodyField, setBodyField] = useState<BodyField>('bodyAr');
+  const [note, setNote] = useState('');
+  const [testTo, setTestTo] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const current = templates.find((t) => t.type === selected);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/email-templates', { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) setTemplates(data.data.templates);
+    } catch (err) {
+      console.error('Error loading email templates:', err);
+    }
+  }, [getAuthHeader]);
+
+  const loadTemplate = useCallback(async (type: EditableEmailTemplate) => {
+    try {
+      const res = await fetch(`/api/admin/email-templates/${type}`, { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        setDraft(toDraft(data.data.template));
+        setVersions(data.data.versions);
+      }
+    } catch (err) {
+      console.error('Error loading email template:', err);
+    }
+  }, [getAuthHeader]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    setNotice(null);
+    setNote('');
+    loadTemplate(selected);
+  }, [selected, loadTemplate]);
+
+  const issues = useMemo(() => validateEmailTemplate(selected, draft), [selected, draft]);
+  const preview = useMemo(
+    () => renderEmailTemplate(selected, draft, sampleTemplateData(selected)),
+    [selected, draft]
+  );
+
+  // Wrap the selection in the textarea, or insert at the cursor
+  const insert = (before: string, after = '', placeholder = '') => {
+    const textarea = bodyRef.current;
+    const text = draft[bodyField] || '';
+    const start = textarea?.selectionStart ?? text.length;
+    const end = textarea?.selectionEnd ?? text.length;
+    const selection = text.slice(start, end) || placeholder;
+    const next = text.slice(0, start) + before + selection + after + text.slice(end);
+    setDraft({ ...draft, [bodyField]: next });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + before.length, start + before.length + selection.length);
+    });
+  };
+
+  const insertBlock = (block: string) => insert(`\n\n${block}\n\n`);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/email-templates/${selected}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify({ ...draft, note: note || null }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setNotice({ type: 'success', text: data.messageAr });
+        setNote('');
+        loadTemplates();
+        loadTemplate(selected);
+      } else {
+        setNotice({ type: 'error', text: data.errorAr || data.error || 'تعذر حفظ القالب' });
+      }
+    } catch {
+      setNotice({ type: 'error', text: 'تعذر حفظ القالب' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTestSend = async () => {
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/email-templates/${selected}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify({ ...draft, ...(testTo && { to: testTo }) }),
+      });
+      const data = await res.json();
+      setNotice(data.success
+        ? { type: 'success', text: data.messageAr }
+        : { type: 'error', text: data.errorAr || data.error || 'تعذر إرسال الرسالة التجريبية' });
+    } catch {
+      setNotice({ type: 'error', text: 'تعذر إرسال الرسالة التجريبية' });
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(`استعادة الإصدار ${version}؟ سيُحفظ كإصدار جديد.`)) return;
+    const res = await fetch(`/api/admin/email-templates/${selected}/rollback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+      body: JSON.stringify({ version }),
+    });
+    const data = await res.json();
+    if (data.success) {
+      setNotice({ type: 'success', text: data.messageAr });
+      loadTemplates();
+      loadTemplate(selected);
+    } else {
+      setNotice({ type: 'error', text: data.errorAr || data.error || 'تعذر استعادة الإصدار' });
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto" dir="rtl">
+      <div className="mb-6">
+        <Link href="/admin/settings" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-2">
+          <ArrowRight className="w-4 h-4" />
+          الإعدادات
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-800">قوالب البريد</h1>
+        <p className="text-gray-500 mt-1">Email Templates - نصوص الرسائل بالعربية والإنجليزية</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {EDITABLE_EMAIL_TEMPLATES.map((type) => {
+          const summary = templates.find((t) => t.type === type);
+          return (
+            <button
+              key={type}
+              onClick={() => setSelected(type)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm ${
+                selected === type ? 'bg-[#1E3A5F] text-white' : 'bg-white text-gray-700 hover:bg-gray-100 shadow-sm'
+              }`}
+            >
+              <Mail className="w-4 h-4" />
+              {EMAIL_TEMPLATE_LABELS[type].ar}
+              {summary && !summary.isDefault && (
+                <span className="text-xs opacity-75">v{summary.version}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {notice && (
+        <div className={`mb-4 px-4 py-3 rounded-lg text-sm ${notice.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {notice.text}
+        </div>
+      )}
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Editor */}
+        <div className="bg-white rounded-xl shadow-sm p-6 space-y-4">
+          <div className="flex items-center justify-between text-sm text-gray-500">
+            <span>
+              {current?.isDefault
+                ? 'القالب الافتراضي - لم يُعدَّل بعد'
+                : `الإصدار ${current?.version ?? ''} · ${current?.updatedByName ?? ''}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => setDraft(toDraft(DEFAULT_EMAIL_TEMPLATES[selected]))}
+              className="flex items-center gap-1 hover:text-[#1E3A5F]"
+            >
+              <RotateCcw className="w-4 h-4" />
+              النص الافتراضي
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">الموضوع بالعربية *</label>
+              <input
+                type="text"
+                value={draft.subjectAr}
+                onChange={(e) => setDraft({ ...draft, subjectAr: e.target.value })}
+                className="w-full px-3 py-2 border rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">الموضوع بالإنجليزية</label>
+              <input
+                type="text"
+                value={draft.subjectEn || ''}
+                onChange={(e) => setDraft({ ...draft, subjectEn: e.target.value })}
+                className="w-full px-3 py-2 border rounded-lg"
+                dir="ltr"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex rounded-lg border overflow-hidden text-sm">
+                {(['bodyAr', 'bodyEn'] as BodyField[]).map((field) => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => setBodyField(field)}
+                    className={`px-4 py-1.5 ${bodyField === field ? 'bg-[#1E3A5F] text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    {field === 'bodyAr' ? 'العربية' : 'English'}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-1">
+                <button type="button" onClick={() => insert('**', '**', 'نص')} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="عريض">
+                  <Bold className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => insertBlock('## عنوان')} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="عنوان">
+                  <Heading className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => insertBlock('- عنصر')} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="قائمة">
+                  <List className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => insert('[', '](https://)', 'رابط')} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="رابط">
+                  <Link2 className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => insertBlock('[نص الزر](https://)')} className="p-1.5 text-gray-500 hover:bg-gray-100 rounded" title="زر (رابط في سطر مستقل)">
+                  <MousePointerClick className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <textarea
+              ref={bodyRef}
+              value={draft[bodyField] || ''}
+              onChange={(e) => setDraft({ ...draft, [bodyField]: e.target.value })}
+              rows={16}
+              dir={bodyField === 'bodyAr' ? 'rtl' : 'ltr'}
+              className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
+              placeholder={bodyField === 'bodyEn' ? 'Optional English section shown below the Arabic text' : ''}
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Markdown: **عريض**، ## عنوان، - قائمة، &gt; اقتباس، --- فاصل. الرابط في سطر مستقل يظهر كزر،
+              و{'{{#متغير}}'}…{'{{/متغير}}'} يظهر فقط عند توفر قيمة.
+            </p>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">المتغيرات</p>
+            <div className="flex flex-wrap gap-2">
+              {EMAIL_TEMPLATE_VARIABLES[selected].map((variable) => (
+                <button
+                  key={variable.key}
+                  type="button"
+                  onClick={() => (variable.html ? insertBlock(`{{${variable.key}}}`) : insert(`{{${variable.key}}}`))}
+                  className={`px-2 py-1 rounded text-xs border ${variable.required ? 'border-[#1E3A5F] text-[#1E3A5F]' : 'text-gray-600'}`}
+                  title={variable.labelAr}
+                  dir="ltr"
+                >
+                  {`{{${variable.key}}}`}{variable.required ? ' *' : ''}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="space-y-1 text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+              {issues.map((issue, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  {issue.messageAr}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 pt-4 border-t">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="flex-1 min-w-[10rem] px-3 py-2 border rounded-lg text-sm"
+              placeholder="ملاحظة عن التغيير (اختياري)"
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || issues.length > 0 || !draft.subjectAr.trim() || !draft.bodyAr.trim()}
+              className="flex items-center gap-2 px-5 py-2 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              حفظ
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="email"
+              value={testTo}
+              onChange={(e) => setTestTo(e.target.value)}
+              className="flex-1 min-w-[10rem] px-3 py-2 border rounded-lg text-sm"
+              placeholder="بريد التجربة (افتراضياً بريدك)"
+              dir="ltr"
+            />
+            <button
+              type="button"
+              onClick={handleTestSend}
+              disabled={issues.length > 0}
+              className="flex items-center gap-2 px-5 py-2 border border-[#1E3A5F] text-[#1E3A5F] rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              إرسال تجريبي
+            </button>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="px-4 py-3 border-b bg-gray-50 text-sm">
+              <span className="text-gray-500">الموضوع: </span>
+              <span className="font-medium text-gray-800">{preview.subject}</span>
+            </div>
+            <iframe
+              title="معاينة الرسالة"
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-[32rem] bg-gray-50"
+            />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-4">
+            <h2 className="font-semibold text-gray-800 flex items-center gap-2 mb-3">
+              <History className="w-5 h-5" />
+              سجل الإصدارات
+            </h2>
+            {versions.length === 0 ? (
+              <p className="text-sm text-gray-500">لم يُحفظ أي إصدار بعد؛ تُستخدم الرسالة المدمجة.</p>
+            ) : (
+              <div className="divide-y">
+                {versions.map((version) => (
+                  <div key={version.version} className="py-2 flex items-center justify-between gap-3 text-sm">
+                    <div>
+                      <span className="font-medium">الإصدار {version.version}</span>
+                      <span className="text-gray-500"> · {version.createdByName} · {new Date(version.createdAt).toLocaleString('ar-SA')}</span>
+                      {version.note && <p className="text-gray-500 text-xs">{version.note}</p>}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => setDraft(toDraft(version))}
+                        className="text-[#1E3A5F] hover:underline"
+                      >
+                        فتح
+                      </button>
+                      {version.version !== current?.version && (
+                        <button
+                          type="button"
+                          onClick={() => handleRollback(version.version)}
+                          className="flex items-center gap-1 text-amber-700 hover:underline"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          استعادة
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   Info,
   ChevronDown,
   ChevronUp,
+  Mail,
 } from 'lucide-react';
 import {
   type Admin,
@@ -292,13 +293,22 @@ export default function AdminSettingsPage() {
               </div>
             </div>
 
-            <button
-              onClick={() => setIsAddingAdmin(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg"
-            >
-              <UserPlus className="w-5 h-5" />
-              إضافة مشرف
-            </button>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/admin/settings/email-templates"
+                className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg"
+              >
+                <Mail className="w-5 h-5" />
+                قوالب البريد
+              </Link>
+              <button
+                onClick={() => setIsAddingAdmin(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg"
+              >
+                <UserPlus className="w-5 h-5" />
+                إضافة مشرف
+              </button>
+            </div>
           </div>
         </div>
       </header>
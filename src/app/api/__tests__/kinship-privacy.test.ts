@@ -0,0 +1,308 @@
+/**
+ * Kinship API Privacy Tests
+ * Member data returned by the marriage, relationship and mahram routes is
+ * redacted for the viewer
+ */
+
+import type { NextRequest } from 'next/server';
+import { DEFAULT_PERMISSION_MATRIX } from '@/lib/auth/types';
+import type { Marriage } from '@/lib/types';
+import { createMockAdmin, createMockPrivacySettings, createMockProfileMember, createMockSession } from '@/test/setup';
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+jest.mock('@/lib/auth/db-store', () => ({
+  findSessionByToken: jest.fn(),
+  findUserById: jest.fn(),
+  getPermissionMatrix: jest.fn(),
+  getUserPermissionOverrides: jest.fn(),
+  getPrivacySettings: jest.fn(),
+}));
+
+jest.mock('@/lib/services/access-tokens', () => ({
+  verifyAccessToken: jest.fn(),
+}));
+
+jest.mock('@/lib/db', () => ({
+  getAllMembersFromDb: jest.fn(),
+  getMemberByIdFromDb: jest.fn(),
+  getChildrenFromDb: jest.fn(),
+  getChildrenOfMotherFromDb: jest.fn(),
+}));
+
+jest.mock('@/lib/db/marriages', () => ({
+  ...jest.requireActual('@/lib/db/marriages'),
+  getAllMarriages: jest.fn(),
+  getMarriagesForMember: jest.fn(),
+}));
+
+jest.mock('@/lib/db/mahram', () => ({
+  getMahramContext: jest.fn(),
+}));
+
+import {
+  findSessionByToken,
+  findUserById,
+  getPermissionMatrix,
+  getPrivacySettings,
+  getUserPermissionOverrides,
+} from '@/lib/auth/db-store';
+import { getAllMembersFromDb, getChildrenFromDb, getMemberByIdFromDb } from '@/lib/db';
+import { getAllMarriages, getMarriagesForMember } from '@/lib/db/marriages';
+import { getMahramContext } from '@/lib/db/mahram';
+import { HIDDEN_MEMBER_NAME } from '@/lib/privacy';
+import { GET as getMarriages } from '../marriages/route';
+import { GET as getMemberMarriages } from '../members/[id]/marriages/route';
+import { GET as getMemberMahrams } from '../members/[id]/mahrams/route';
+import { GET as getRelationship } from '../relationship/route';
+
+const settings = createMockPrivacySettings({
+  profileVisibility: { GUEST: true, MEMBER: true, BRANCH_LEADER: true, ADMIN: true, SUPER_ADMIN: true },
+});
+
+const father = createMockProfileMember({ id: 'P001', firstName: 'عبدالله', fullNameAr: 'عبدالله آل شايع' });
+const mother = createMockProfileMember({ id: 'P002', firstName: 'نورة', fullNameAr: 'نورة آل شايع', gender: 'Female' });
+const son = createMockProfileMember({ id: 'P003', firstName: 'محمد', fullNameAr: 'محمد عبدالله آل شايع', fatherId: 'P001', motherId: 'P002', generation: 2 });
+const daughter = createMockProfileMember({ id: 'P004', firstName: 'سارة', fullNameAr: 'سارة عبدالله آل شايع', gender: 'Female', fatherId: 'P001', motherId: 'P002', generation: 2 });
+
+const marriage: Marriage = {
+  id: 'M1',
+  husbandId: 'P001',
+  husband: { id: 'P001', firstName: 'عبدالله', fullNameAr: 'عبدالله آل شايع', gender: 'Male', branch: null },
+  wifeId: 'P002',
+  wife: {
+    id: 'P002', firstName: 'نورة', fullNameAr: 'نورة آل شايع', gender: 'Female', branch: null,
+    privacyOverrides: { hidePhone: true },
+  },
+  externalWifeName: null,
+  externalWifeFamily: null,
+  wifeOrder: 1,
+  startYear: null,
+  endYear: null,
+  status: 'ACTIVE',
+  notes: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: null,
+};
+
+function makeRequest(url: string, token?: string) {
+  const headers: Record<string, string> = {};
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  // next/server is mocked in jest.setup.js, so build the parts withApi reads
+  const nextUrl = new URL(url);
+  return { method: 'GET', headers: new Headers(headers), nextUrl, json: async () => undefined } as unknown as NextRequest;
+}
+
+// The mocked NextResponse.json returns { ...data, ...init }
+type MockResponse = Record<string, any>;
+
+async function call(
+  route: (request: NextRequest, context?: { params?: any }) => Promise<unknown>,
+  url: string,
+  options: { params?: Record<string, string>; token?: string } = {}
+): Promise<MockResponse> {
+  return (await route(makeRequest(url, options.token), { params: options.params })) as MockResponse;
+}
+
+describe('Kinship API privacy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (findSessionByToken as jest.Mock).mockResolvedValue(null);
+    (getPermissionMatrix as jest.Mock).mockResolvedValue(DEFAULT_PERMISSION_MATRIX);
+    (getUserPermissionOverrides as jest.Mock).mockResolvedValue({});
+    (getPrivacySettings as jest.Mock).mockResolvedValue(settings);
+    (getAllMembersFromDb as jest.Mock).mockResolvedValue([father, mother, son, daughter]);
+    (getMemberByIdFromDb as jest.Mock).mockImplementation(async (id: string) =>
+      [father, mother, son, daughter].find(m => m.id === id) || null
+    );
+    (getChildrenFromDb as jest.Mock).mockResolvedValue([son, daughter]);
+    (getAllMarriages as jest.Mock).mockResolvedValue([marriage]);
+    (getMarriagesForMember as jest.Mock).mockResolvedValue([marriage]);
+  });
+
+  describe('GET /api/marriages', () => {
+    const externalMarriage: Marriage = {
+      ...marriage,
+      id: 'M2',
+      wifeId: null,
+      wife: null,
+      externalWifeName: 'هند',
+      externalWifeFamily: 'الدوسري',
+      wifeOrder: 2,
+      startYear: 2005,
+      endYear: 2010,
+      status: 'DIVORCED',
+      notes: 'ملاحظة خاصة',
+    };
+
+    it('should not return spouse privacy profiles to guests', async () => {
+      const response = await call(getMarriages, 'http://localhost:5000/api/marriages');
+
+      expect(response.success).toBe(true);
+      expect(response.data[0].wife.fullNameAr).toBe('نورة آل شايع');
+      expect(response.data[0].wife.privacyOverrides).toBeUndefined();
+    });
+
+    it('should hide marriage years from guests who cannot see birth years', async () => {
+      (getAllMarriages as jest.Mock).mockResolvedValue([externalMarriage]);
+
+      const response = await call(getMarriages, 'http://localhost:5000/api/marriages');
+
+      expect(response.data[0]).toMatchObject({ startYear: null, endYear: null, status: 'DIVORCED', notes: 'ملاحظة خاصة' });
+    });
+
+    it('should hide all marriage details from guests who cannot see profiles', async () => {
+      (getPrivacySettings as jest.Mock).mockResolvedValue({
+        ...settings,
+        profileVisibility: { ...settings.profileVisibility, GUEST: false },
+      });
+      (getAllMarriages as jest.Mock).mockResolvedValue([externalMarriage]);
+
+      const response = await call(getMarriages, 'http://localhost:5000/api/marriages');
+
+      expect(response.data[0]).toMatchObject({
+        husbandId: 'P001',
+        externalWifeName: null,
+        externalWifeFamily: null,
+        startYear: null,
+        endYear: null,
+        status: null,
+        notes: null,
+      });
+    });
+
+    it('should show marriage details to admins', async () => {
+      const admin = createMockAdmin();
+      (findSessionByToken as jest.Mock).mockResolvedValue(createMockSession(admin));
+      (findUserById as jest.Mock).mockResolvedValue(admin);
+      (getAllMarriages as jest.Mock).mockResolvedValue([externalMarriage]);
+
+      const response = await call(getMarriages, 'http://localhost:5000/api/marriages', { token: 'admin-token' });
+
+      expect(response.data[0]).toMatchObject({ externalWifeName: 'هند', startYear: 2005, notes: 'ملاحظة خاصة' });
+    });
+  });
+
+  describe('GET /api/members/[id]/marriages', () => {
+    it('should hide contact details of children from guests', async () => {
+      const response = await call(getMemberMarriages, 'http://localhost:5000/api/members/P001/marriages', {
+        params: { id: 'P001' },
+      });
+
+      expect(response.success).toBe(true);
+      expect(response.data.children[0]).toMatchObject({ id: 'P003', phone: null, email: null, birthYear: null });
+      const group = response.data.childrenByMother[0];
+      expect(group.motherName).toBe('نورة آل شايع');
+      expect(group.children[0].phone).toBeNull();
+    });
+
+    it('should show the full record to admins', async () => {
+      const admin = createMockAdmin();
+      (findSessionByToken as jest.Mock).mockResolvedValue(createMockSession(admin));
+      (findUserById as jest.Mock).mockResolvedValue(admin);
+
+      const response = await call(getMemberMarriages, 'http://localhost:5000/api/members/P001/marriages', {
+        params: { id: 'P001' },
+        token: 'admin-token',
+      });
+
+      expect(response.data.children[0]).toMatchObject({ phone: '0500000000', email: 'member@example.com' });
+      expect(response.data.marriages[0].wife.privacyOverrides).toEqual({ hidePhone: true });
+    });
+
+    it('should answer 404 for unknown members', async () => {
+      const response = await call(getMemberMarriages, 'http://localhost:5000/api/members/P999/marriages', {
+        params: { id: 'P999' },
+      });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/relationship', () => {
+    it('should require both members', async () => {
+      const response = await call(getRelationship, 'http://localhost:5000/api/relationship?from=P003');
+      expect(response.status).toBe(400);
+      expect(response.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return only display fields of path members', async () => {
+      const response = await call(getRelationship, 'http://localhost:5000/api/relationship?from=P003&to=P004');
+
+      expect(response.data.termAr).toBeTruthy();
+      for (const pathMember of response.data.pathMembers) {
+        expect(pathMember).not.toHaveProperty('phone');
+        expect(pathMember).not.toHaveProperty('privacyOverrides');
+      }
+    });
+  });
+
+  describe('member privacy profiles', () => {
+    const hiddenMother = { ...mother, privacyOverrides: { hideFromGuests: true } };
+    const hiddenWife = { ...marriage.wife!, privacyOverrides: { hideFromGuests: true } };
+    const firstNameOnlySon = { ...son, privacyOverrides: { firstNameOnly: true } };
+
+    beforeEach(() => {
+      (getAllMembersFromDb as jest.Mock).mockResolvedValue([father, hiddenMother, firstNameOnlySon, daughter]);
+      (getMemberByIdFromDb as jest.Mock).mockImplementation(async (id: string) =>
+        [father, hiddenMother, firstNameOnlySon, daughter].find(m => m.id === id) || null
+      );
+      (getChildrenFromDb as jest.Mock).mockResolvedValue([firstNameOnlySon, daughter]);
+      (getMarriagesForMember as jest.Mock).mockResolvedValue([{ ...marriage, wife: hiddenWife }]);
+      (getAllMarriages as jest.Mock).mockResolvedValue([{ ...marriage, wife: hiddenWife }]);
+      (getMahramContext as jest.Mock).mockResolvedValue({
+        members: [father, hiddenMother, firstNameOnlySon, daughter],
+        breastfeeding: [],
+        marriages: [{ husbandId: 'P001', wifeId: 'P002' }],
+      });
+    });
+
+    it('should not list marriages of hidden spouses to guests', async () => {
+      const byMember = await call(getMarriages, 'http://localhost:5000/api/marriages?memberId=P002');
+      expect(byMember.status).toBe(404);
+
+      const all = await call(getMarriages, 'http://localhost:5000/api/marriages');
+      expect(all.data).toEqual([]);
+      expect(JSON.stringify(all)).not.toContain('P002');
+    });
+
+    it('should not list marriages or mahrams of hidden members to guests', async () => {
+      const marriages = await call(getMemberMarriages, 'http://localhost:5000/api/members/P002/marriages', {
+        params: { id: 'P002' },
+      });
+      expect(marriages.status).toBe(404);
+
+      const mahrams = await call(getMemberMahrams, 'http://localhost:5000/api/members/P002/mahrams', {
+        params: { id: 'P002' },
+      });
+      expect(mahrams.status).toBe(404);
+    });
+
+    it('should not name hidden mothers when grouping children', async () => {
+      const response = await call(getMemberMarriages, 'http://localhost:5000/api/members/P001/marriages', {
+        params: { id: 'P001' },
+      });
+      expect(response.data.childrenByMother[0].motherName).toBe(HIDDEN_MEMBER_NAME.ar);
+    });
+
+    it('should drop hidden mahrams and cut names to the first name', async () => {
+      const response = await call(getMemberMahrams, 'http://localhost:5000/api/members/P004/mahrams', {
+        params: { id: 'P004' },
+      });
+
+      const ids = response.data.map((mahram: { memberId: string }) => mahram.memberId);
+      expect(ids).not.toContain('P002');
+      expect(response.data.find((mahram: { memberId: string }) => mahram.memberId === 'P003'))
+        .toMatchObject({ firstName: 'محمد', fullNameAr: null });
+    });
+
+    it('should keep hidden members on relationship paths as placeholders only', async () => {
+      const response = await call(getRelationship, 'http://localhost:5000/api/relationship?from=P004&to=P003');
+
+      const target = response.data.pathMembers.find((m: { id: string }) => m.id === 'P003');
+      expect(target).toMatchObject({ firstName: 'محمد', fullNameAr: null });
+      expect(JSON.stringify(response.data)).not.toContain('محمد عبدالله آل شايع');
+    });
+  });
+});
@@ -8,8 +8,8 @@ import {
   findAccessRequestById,
   updateAccessRequest,
   createUser,
-  logActivity,
 } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
 import { UserRole } from '@/lib/auth/types';
 import { emailService } from '@/lib/services/email';
@@ -186,7 +186,7 @@ export async function POST(request: NextRequest) {
         approvedRole: assignedRole,
       });
 
-      await logActivity({
+      await audit({
         userId: currentUser.id,
         userEmail: currentUser.email,
         userName: currentUser.nameArabic,
@@ -264,7 +264,7 @@ export async function POST(request: NextRequest) {
         reviewNote,
       });
 
-      await logActivity({
+      await audit({
         userId: currentUser.id,
         userEmail: currentUser.email,
         userName: currentUser.nameArabic,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { encrypt, decrypt, isEncrypted } from '@/lib/encryption';
+import { audit } from '@/lib/services/audit';
 
 // ============================================
 // TEST EMAIL/SMS HELPER FUNCTIONS
@@ -456,6 +457,18 @@ export async function PUT(request: NextRequest) {
       } as typeof updateData & { id: string; emailProvider: string; otpProvider: string },
     });
 
+    await audit({
+      action: 'CONFIG_UPDATE',
+      category: 'SETTINGS',
+      user,
+      request,
+      targetType: 'API_SERVICE_CONFIG',
+      targetId: 'default',
+      description: 'تم تحديث إعدادات خدمات البريد والرسائل',
+      // Field names only: the values include API keys
+      details: { changedFields: Object.keys(updateData).filter(key => key !== 'updatedBy') },
+    });
+
     // Return masked version
     const maskedConfig = {
       ...config,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api';
+import { auditLogsToCsv, parseAuditLogFilter } from '@/lib/audit';
+import { audit, exportAuditLogs } from '@/lib/services/audit';
+
+// GET /api/admin/audit/export - Download matching audit logs as CSV
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'view_audit_logs');
+    if (user instanceof NextResponse) return user;
+
+    const filter = parseAuditLogFilter(new URL(request.url).searchParams);
+    const logs = await exportAuditLogs(filter);
+
+    await audit({
+      action: 'AUDIT_EXPORT',
+      category: 'SYSTEM',
+      user,
+      request,
+      targetType: 'AUDIT_LOG',
+      description: `تم تصدير ${logs.length} سجل من سجل المراجعة`,
+      details: { filter, count: logs.length },
+    });
+
+    const date = new Date().toISOString().split('T')[0];
+    return new NextResponse(auditLogsToCsv(logs), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit_log_${date}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting audit logs:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to export audit logs', messageAr: 'فشل في تصدير سجل المراجعة' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/api';
+import { audit, verifyAuditLogChain } from '@/lib/services/audit';
+
+// GET /api/admin/audit/verify - Recompute the audit log hash chain
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'view_audit_logs');
+    if (user instanceof NextResponse) return user;
+
+    const status = await verifyAuditLogChain();
+
+    await audit({
+      action: 'INTEGRITY_CHECK',
+      category: 'SYSTEM',
+      severity: status.valid ? 'INFO' : 'CRITICAL',
+      user,
+      request,
+      targetType: 'AUDIT_LOG',
+      description: status.valid
+        ? `تم التحقق من سلامة ${status.checked} سجل`
+        : `تم اكتشاف تلاعب في سجل المراجعة عند السجل رقم ${status.brokenAt?.sequence}`,
+      details: { ...status },
+      success: status.valid,
+    });
+
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    console.error('Error verifying audit log:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to verify audit log', messageAr: 'فشل في التحقق من سجل المراجعة' },
+      { status: 500 }
+    );
+  }
+}
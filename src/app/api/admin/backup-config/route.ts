@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { safeJsonParse } from '@/lib/utils/safe-json';
+import { getNextCronRun, isValidCronExpression } from '@/lib/cron';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get auth user from request
 async function getAuthUser(request: NextRequest) {
@@ -117,10 +119,9 @@ export async function PUT(request: NextRequest) {
 
     const body = await request.json();
 
-    // Validate cron expression (basic validation)
+    // Validate cron expression
     if (body.cronExpression) {
-      const cronParts = body.cronExpression.split(' ');
-      if (cronParts.length !== 5) {
+      if (!isValidCronExpression(body.cronExpression)) {
         return NextResponse.json(
           { success: false, message: 'Invalid cron expression. Must have 5 parts (minute hour day month weekday)' },
           { status: 400 }
@@ -164,8 +165,9 @@ export async function PUT(request: NextRequest) {
     };
 
     // Calculate next run time based on cron expression
-    const nextRunAt = calculateNextRun(
+    const nextRunAt = getNextCronRun(
       body.cronExpression || backupJob?.cronExpression || DEFAULT_CONFIG.cronExpression,
+      new Date(),
       body.timezone || backupJob?.timezone || DEFAULT_CONFIG.timezone
     );
 
@@ -193,6 +195,19 @@ export async function PUT(request: NextRequest) {
 
     const config = safeJsonParse<Record<string, unknown>>(backupJob.jobConfig, {});
 
+    await audit({
+      action: 'CONFIG_UPDATE',
+      category: 'BACKUP',
+      user,
+      request,
+      targetType: 'SCHEDULED_JOB',
+      targetId: backupJob.id,
+      targetName: backupJob.name,
+      description: 'تم تحديث إعدادات النسخ الاحتياطي',
+      previousState: existingConfig,
+      newState: { ...config, cronExpression: backupJob.cronExpression, enabled: backupJob.isEnabled },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Backup configuration updated',
@@ -262,6 +277,18 @@ export async function POST(request: NextRequest) {
       // Job might not exist yet
     });
 
+    await audit({
+      action: 'BACKUP_CREATE',
+      category: 'BACKUP',
+      user,
+      request,
+      targetType: 'SNAPSHOT',
+      targetId: snapshot.id,
+      targetName: snapshot.name,
+      description: `تم إنشاء نسخة احتياطية يدوية: ${snapshot.name}`,
+      details: { memberCount: snapshot.memberCount },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Manual backup created successfully',
@@ -281,23 +308,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Helper function to calculate next run time from cron expression
-function calculateNextRun(cronExpression: string, timezone: string): Date {
-  // Simple implementation - just set next run to tomorrow at the specified hour
-  // In production, use a proper cron parser library
-  const parts = cronExpression.split(' ');
-  const minute = parseInt(parts[0]) || 0;
-  const hour = parseInt(parts[1]) || 2;
-
-  const now = new Date();
-  const next = new Date(now);
-  next.setHours(hour, minute, 0, 0);
-
-  // If the time has already passed today, schedule for tomorrow
-  if (next <= now) {
-    next.setDate(next.getDate() + 1);
-  }
-
-  return next;
-}
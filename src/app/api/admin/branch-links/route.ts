@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { randomBytes } from 'crypto';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get authenticated admin user from request
 async function getAuthAdmin(request: NextRequest) {
@@ -92,6 +93,18 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await audit({
+      action: 'BRANCH_LINK_CREATE',
+      category: 'ADMIN',
+      user,
+      request,
+      targetType: 'BRANCH_LINK',
+      targetId: link.id,
+      targetName: link.branchName,
+      description: `تم إنشاء رابط إدخال للفرع: ${link.branchName}`,
+      details: { branchHeadId: link.branchHeadId, expiresAt: link.expiresAt, maxUses: link.maxUses },
+    });
+
     return NextResponse.json({ success: true, link });
   } catch (error) {
     console.error('Error creating branch link:', error);
@@ -120,10 +133,22 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    await prisma.branchEntryLink.delete({
+    const link = await prisma.branchEntryLink.delete({
       where: { id },
     });
 
+    await audit({
+      action: 'BRANCH_LINK_DELETE',
+      category: 'ADMIN',
+      severity: 'WARNING',
+      user,
+      request,
+      targetType: 'BRANCH_LINK',
+      targetId: id,
+      targetName: link.branchName,
+      description: `تم حذف رابط إدخال الفرع: ${link.branchName}`,
+    });
+
     return NextResponse.json({ success: true, message: 'Branch link deleted' });
   } catch (error) {
     console.error('Error deleting branch link:', error);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { logger } from '@/lib/logging';
 import { z } from 'zod';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -148,6 +149,17 @@ export async function PUT(request: NextRequest) {
       newValues: systemConfig,
     });
 
+    await audit({
+      action: 'CONFIG_UPDATE',
+      category: 'SETTINGS',
+      user,
+      request,
+      targetType: 'SYSTEM_CONFIG',
+      description: `تم تعديل إعدادات النظام: ${Object.keys(validatedData).join(', ')}`,
+      previousState: previousConfig,
+      newState: systemConfig,
+    });
+
     return NextResponse.json({
       success: true,
       config: systemConfig,
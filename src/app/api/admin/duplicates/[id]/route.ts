@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { Prisma } from '@prisma/client';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
-import { randomUUID } from 'crypto';
+import { mergeDuplicateMembers } from '@/lib/db/merge';
+import { AppError } from '@/lib/errors/AppError';
+import type { MergeStrategy } from '@/lib/import-utils';
+import { MERGE_STRATEGIES } from '@/lib/merge';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get auth user from request
 async function getAuthUser(request: NextRequest) {
@@ -77,7 +80,7 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { action, keepMemberId, mergeStrategy } = body;
+    const { action, keepMemberId, mergeStrategy, fieldChoices } = body;
 
     // Validate action
     if (!['NOT_DUPLICATE', 'MERGE', 'CONFIRMED_DUPLICATE'].includes(action)) {
@@ -123,6 +126,17 @@ export async function PUT(
         },
       });
 
+      await audit({
+        action: 'DUPLICATE_RESOLVE',
+        category: 'MEMBER',
+        user,
+        request,
+        targetType: 'DUPLICATE_FLAG',
+        targetId: params.id,
+        description: 'تم تحديد أن العضوين غير مكررين',
+        details: { resolution: 'NOT_DUPLICATE', sourceMemberId: duplicate.sourceMemberId, targetMemberId: duplicate.targetMemberId },
+      });
+
       return NextResponse.json({
         success: true,
         message: 'Marked as not duplicate',
@@ -142,6 +156,17 @@ export async function PUT(
         },
       });
 
+      await audit({
+        action: 'DUPLICATE_RESOLVE',
+        category: 'MEMBER',
+        user,
+        request,
+        targetType: 'DUPLICATE_FLAG',
+        targetId: params.id,
+        description: 'تم تأكيد تكرار العضوين',
+        details: { resolution: 'CONFIRMED_DUPLICATE', sourceMemberId: duplicate.sourceMemberId, targetMemberId: duplicate.targetMemberId },
+      });
+
       return NextResponse.json({
         success: true,
         message: 'Confirmed as duplicate',
@@ -168,139 +193,53 @@ export async function PUT(
         );
       }
 
-      const batchId = randomUUID();
-
-      // Start transaction for merge
-      const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-        // 1. Record the merge in change history
-        await tx.changeHistory.create({
-          data: {
-            memberId: keepMember.id,
-            fieldName: 'MERGE',
-            oldValue: null,
-            newValue: JSON.stringify({
-              mergedFrom: removeMember.id,
-              mergedFromName: removeMember.fullNameAr || removeMember.firstName,
-            }),
-            changeType: 'UPDATE',
-            changedBy: user.id,
-            changedByName: user.nameArabic,
-            batchId,
-            fullSnapshot: JSON.stringify(keepMember),
-            reason: `Merged with duplicate member ${removeMember.id}`,
-          },
-        });
-
-        // 2. Merge data based on strategy
-        const mergeData: Record<string, unknown> = {};
-
-        if (mergeStrategy === 'PREFER_SOURCE') {
-          // Prefer source member data, fill gaps with target
-          const fields = ['phone', 'city', 'occupation', 'email', 'biography', 'photoUrl', 'birthYear', 'deathYear'];
-          for (const field of fields) {
-            const sourceVal = (duplicate.sourceMember as Record<string, unknown>)[field];
-            const targetVal = (duplicate.targetMember as Record<string, unknown>)[field];
-            if (keepMemberId === duplicate.sourceMemberId) {
-              if (!sourceVal && targetVal) mergeData[field] = targetVal;
-            } else {
-              if (!targetVal && sourceVal) mergeData[field] = sourceVal;
-            }
-          }
-        } else if (mergeStrategy === 'PREFER_TARGET') {
-          // Prefer target member data, fill gaps with source
-          const fields = ['phone', 'city', 'occupation', 'email', 'biography', 'photoUrl', 'birthYear', 'deathYear'];
-          for (const field of fields) {
-            const sourceVal = (duplicate.sourceMember as Record<string, unknown>)[field];
-            const targetVal = (duplicate.targetMember as Record<string, unknown>)[field];
-            if (keepMemberId === duplicate.targetMemberId) {
-              if (!targetVal && sourceVal) mergeData[field] = sourceVal;
-            } else {
-              if (!sourceVal && targetVal) mergeData[field] = targetVal;
-            }
-          }
-        } else {
-          // Default: fill empty fields from the other member
-          const fields = ['phone', 'city', 'occupation', 'email', 'biography', 'photoUrl', 'birthYear', 'deathYear'];
-          const otherMember = keepMemberId === duplicate.sourceMemberId ? duplicate.targetMember : duplicate.sourceMember;
-          for (const field of fields) {
-            const keepVal = (keepMember as Record<string, unknown>)[field];
-            const otherVal = (otherMember as Record<string, unknown>)[field];
-            if (!keepVal && otherVal) {
-              mergeData[field] = otherVal;
-            }
-          }
-        }
-
-        // 3. Update the kept member with merged data
-        if (Object.keys(mergeData).length > 0) {
-          await tx.familyMember.update({
-            where: { id: keepMember.id },
-            data: mergeData,
-          });
-        }
-
-        // 4. Reassign children from removed member to kept member
-        await tx.familyMember.updateMany({
-          where: { fatherId: removeMember.id },
-          data: { fatherId: keepMember.id },
-        });
-
-        // 5. Transfer photos from removed member to kept member
-        await tx.memberPhoto.updateMany({
-          where: { memberId: removeMember.id },
-          data: { memberId: keepMember.id },
-        });
-
-        // 6. Update change history references
-        await tx.changeHistory.updateMany({
-          where: { memberId: removeMember.id },
-          data: { memberId: keepMember.id },
-        });
-
-        // 7. Delete the removed member
-        await tx.familyMember.delete({
-          where: { id: removeMember.id },
-        });
-
-        // 8. Update the duplicate flag
-        const updated = await tx.duplicateFlag.update({
-          where: { id: params.id },
-          data: {
-            status: 'MERGED',
-            resolvedBy: user.id,
-            resolvedAt: new Date(),
-            resolution: JSON.stringify({
-              action: 'MERGED',
-              keptMemberId: keepMember.id,
-              removedMemberId: removeMember.id,
-              mergeStrategy: mergeStrategy || 'FILL_EMPTY',
-              mergedFields: Object.keys(mergeData),
-            }),
-          },
-        });
-
-        // 9. Clean up any other duplicate flags involving the removed member
-        await tx.duplicateFlag.deleteMany({
-          where: {
-            OR: [
-              { sourceMemberId: removeMember.id },
-              { targetMemberId: removeMember.id },
-            ],
-            id: { not: params.id },
-          },
-        });
-
-        return updated;
+      // Older clients send PREFER_SOURCE/PREFER_TARGET; map them onto a MergeStrategy
+      let strategy: MergeStrategy | undefined = MERGE_STRATEGIES.includes(mergeStrategy) ? mergeStrategy : undefined;
+      if (mergeStrategy === 'PREFER_SOURCE' || mergeStrategy === 'PREFER_TARGET') {
+        const preferredId = mergeStrategy === 'PREFER_SOURCE' ? duplicate.sourceMemberId : duplicate.targetMemberId;
+        strategy = preferredId === keepMember.id ? 'MERGE_PREFER_EXISTING' : 'MERGE_PREFER_IMPORTED';
+      }
+
+      // The merged member's flags (including this one) are removed with it
+      // and restored if the merge is rolled back
+      const result = await mergeDuplicateMembers({
+        survivorId: keepMember.id,
+        mergedId: removeMember.id,
+        strategy,
+        fieldChoices,
+        changedBy: user.id,
+        changedByName: user.nameArabic,
+        reason: `Merged duplicate member ${removeMember.id} (flag ${duplicate.id})`,
+      });
+
+      await audit({
+        action: 'MEMBER_MERGE',
+        category: 'MEMBER',
+        severity: 'WARNING',
+        user,
+        request,
+        targetType: 'MEMBER',
+        targetId: keepMember.id,
+        targetName: keepMember.fullNameAr || keepMember.firstName,
+        description: `تم دمج العضو ${removeMember.id} في ${keepMember.id}`,
+        details: {
+          duplicateFlagId: duplicate.id,
+          mergedMemberId: removeMember.id,
+          batchId: result.batchId,
+          mergedFields: result.mergedFields,
+        },
       });
 
       return NextResponse.json({
         success: true,
         message: 'Members merged successfully',
         messageAr: 'تم دمج الأعضاء بنجاح',
-        duplicate: result,
         mergeDetails: {
           keptMemberId: keepMember.id,
           removedMemberId: removeMember.id,
+          batchId: result.batchId,
+          mergedFields: result.mergedFields,
+          rewired: result.rewired,
         },
       });
     }
@@ -310,6 +249,12 @@ export async function PUT(
       { status: 400 }
     );
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.statusCode }
+      );
+    }
     console.error('Error resolving duplicate:', error);
     return NextResponse.json(
       { success: false, message: 'Failed to resolve duplicate' },
@@ -336,6 +281,16 @@ export async function DELETE(
       where: { id: params.id },
     });
 
+    await audit({
+      action: 'DUPLICATE_FLAG_DELETE',
+      category: 'MEMBER',
+      user,
+      request,
+      targetType: 'DUPLICATE_FLAG',
+      targetId: params.id,
+      description: 'تم حذف علامة التكرار',
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Duplicate flag deleted',
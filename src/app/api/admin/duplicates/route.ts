@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get auth user from request
 async function getAuthUser(request: NextRequest) {
@@ -102,6 +103,17 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await audit({
+      action: 'DUPLICATE_FLAG_CREATE',
+      category: 'MEMBER',
+      user,
+      request,
+      targetType: 'DUPLICATE_FLAG',
+      targetId: duplicate.id,
+      description: 'تم الإبلاغ عن عضوين مكررين',
+      details: { sourceMemberId: duplicate.sourceMemberId, targetMemberId: duplicate.targetMemberId, matchScore: duplicate.matchScore },
+    });
+
     return NextResponse.json({ duplicate });
   } catch (error) {
     console.error('Error creating duplicate flag:', error);
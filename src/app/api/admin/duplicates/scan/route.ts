@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser } from '@/lib/api';
+import { ConflictError } from '@/lib/errors/AppError';
+import { DUPLICATE_SCAN_JOB_NAME, ensureDuplicateScanJob, getDuplicateScanStatus } from '@/lib/services/duplicate-scan';
+import { triggerJobNow } from '@/lib/services/job-runner';
+import { audit } from '@/lib/services/audit';
+
+async function requireDuplicatesAdmin(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user || (user.role !== 'SUPER_ADMIN' && user.role !== 'ADMIN')) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized', messageAr: 'غير مصرح' },
+      { status: 401 }
+    );
+  }
+  return user;
+}
+
+// GET /api/admin/duplicates/scan - Status and progress of the background duplicate scan
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireDuplicatesAdmin(request);
+    if (user instanceof NextResponse) return user;
+
+    const status = await getDuplicateScanStatus();
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    console.error('Error fetching duplicate scan status:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch duplicate scan status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/duplicates/scan - Start a duplicate scan now (runs in the background)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireDuplicatesAdmin(request);
+    if (user instanceof NextResponse) return user;
+
+    await ensureDuplicateScanJob();
+    try {
+      await triggerJobNow({ name: DUPLICATE_SCAN_JOB_NAME }, user.id);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return NextResponse.json(
+          { success: false, message: 'Duplicate scan is already running', messageAr: 'الفحص قيد التشغيل بالفعل' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await audit({
+      action: 'JOB_RUN',
+      category: 'SYSTEM',
+      user,
+      request,
+      targetType: 'SCHEDULED_JOB',
+      targetName: DUPLICATE_SCAN_JOB_NAME,
+      description: 'تم بدء فحص التكرارات يدوياً',
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Duplicate scan started',
+        messageAr: 'بدأ فحص التكرارات',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting duplicate scan:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to start duplicate scan' },
+      { status: 500 }
+    );
+  }
+}
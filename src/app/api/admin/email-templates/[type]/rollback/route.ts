@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+import { emailTemplateRollbackSchema } from '@/lib/validations';
+import { requireTemplateType, rollbackEmailTemplate } from '@/lib/services/email-templates';
+import { EMAIL_TEMPLATE_LABELS } from '@/lib/email-templates';
+import { audit } from '@/lib/services/audit';
+
+// POST /api/admin/email-templates/[type]/rollback - Restore an earlier version as the newest one
+export const POST = withApi<{ version: number }, { type: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], schema: emailTemplateRollbackSchema },
+  async ({ request, user, body, params }) => {
+    const type = requireTemplateType(params.type);
+    const template = await rollbackEmailTemplate(type, body.version, { id: user.id, name: user.nameArabic || user.email });
+    if (!template) {
+      throw new NotFoundError('Template version not found', 'emailTemplateVersion', String(body.version));
+    }
+
+    await audit({
+      action: 'EMAIL_TEMPLATE_ROLLBACK',
+      category: 'SETTINGS',
+      description: `استعادة الإصدار ${body.version} من قالب البريد: ${EMAIL_TEMPLATE_LABELS[type].ar}`,
+      user,
+      request,
+      targetType: 'EMAIL_TEMPLATE',
+      targetId: type,
+      targetName: EMAIL_TEMPLATE_LABELS[type].en,
+      details: { restoredVersion: body.version, version: template.version },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Version ${body.version} restored as version ${template.version}`,
+      messageAr: `تمت استعادة الإصدار ${body.version}`,
+      data: template,
+    });
+  }
+);
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { emailTemplateSchema, type EmailTemplateInput } from '@/lib/validations';
+import {
+  assertValidTemplate,
+  getEmailTemplate,
+  listEmailTemplateVersions,
+  requireTemplateType,
+  saveEmailTemplate,
+} from '@/lib/services/email-templates';
+import { EMAIL_TEMPLATE_LABELS } from '@/lib/email-templates';
+import { audit } from '@/lib/services/audit';
+
+// GET /api/admin/email-templates/[type] - A template and its saved versions
+export const GET = withApi<undefined, { type: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'] },
+  async ({ params }) => {
+    const type = requireTemplateType(params.type);
+    const [template, versions] = await Promise.all([getEmailTemplate(type), listEmailTemplateVersions(type)]);
+    return NextResponse.json({ success: true, data: { template, versions } });
+  }
+);
+
+// PUT /api/admin/email-templates/[type] - Save a new version of a template
+export const PUT = withApi<EmailTemplateInput, { type: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], schema: emailTemplateSchema },
+  async ({ request, user, body, params }) => {
+    const type = requireTemplateType(params.type);
+    const { note, ...content } = body;
+    assertValidTemplate(type, content);
+
+    const template = await saveEmailTemplate(type, content, { id: user.id, name: user.nameArabic || user.email }, note);
+
+    await audit({
+      action: 'EMAIL_TEMPLATE_UPDATE',
+      category: 'SETTINGS',
+      description: `تعديل قالب البريد: ${EMAIL_TEMPLATE_LABELS[type].ar}`,
+      user,
+      request,
+      targetType: 'EMAIL_TEMPLATE',
+      targetId: type,
+      targetName: EMAIL_TEMPLATE_LABELS[type].en,
+      details: { version: template.version, note: note || null },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Template saved as version ${template.version}`,
+      messageAr: `تم حفظ القالب (الإصدار ${template.version})`,
+      data: template,
+    });
+  }
+);
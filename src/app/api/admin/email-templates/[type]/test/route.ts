@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { ExternalServiceError } from '@/lib/errors';
+import { emailTemplateTestSchema, type EmailTemplateTestInput } from '@/lib/validations';
+import { assertValidTemplate, requireTemplateType } from '@/lib/services/email-templates';
+import { renderEmailTemplate, sampleTemplateData } from '@/lib/email-templates';
+import { emailService } from '@/lib/services/email';
+
+// POST /api/admin/email-templates/[type]/test - Send the unsaved template with sample data
+export const POST = withApi<EmailTemplateTestInput, { type: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], rateLimit: 'api', schema: emailTemplateTestSchema },
+  async ({ user, body, params }) => {
+    const type = requireTemplateType(params.type);
+    const { to, ...content } = body;
+    assertValidTemplate(type, content);
+
+    const rendered = renderEmailTemplate(type, content, sampleTemplateData(type));
+    const result = await emailService.sendEmail({
+      to: to || user.email,
+      subject: `[تجربة] ${rendered.subject}`,
+      html: rendered.html,
+      text: rendered.text,
+    });
+
+    if (!result.success) {
+      throw new ExternalServiceError(result.error || 'Test email failed', 'email');
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Test email sent to ${to || user.email}`,
+      messageAr: `تم إرسال رسالة تجريبية إلى ${to || user.email}`,
+      data: { messageId: result.messageId },
+    });
+  }
+);
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { listEmailTemplates } from '@/lib/services/email-templates';
+
+// GET /api/admin/email-templates - Editable email templates, stored or built-in
+export const GET = withApi({ roles: ['SUPER_ADMIN', 'ADMIN'] }, async () => {
+  const templates = await listEmailTemplates();
+  return NextResponse.json({ success: true, data: { templates } });
+});
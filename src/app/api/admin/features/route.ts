@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -142,6 +143,17 @@ export async function PUT(request: NextRequest) {
       // Extract only the flag fields
       const { id, updatedAt, updatedBy, ...flagValues } = updatedFlags;
 
+      await audit({
+        action: 'FEATURES_UPDATE',
+        category: 'SETTINGS',
+        user,
+        request,
+        targetType: 'FEATURE_FLAGS',
+        targetId: id,
+        description: `تم تعديل الميزات: ${Object.keys(updates).join(', ')}`,
+        newState: updates,
+      });
+
       return NextResponse.json({
         flags: flagValues,
         success: true,
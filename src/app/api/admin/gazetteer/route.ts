@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { audit } from '@/lib/services/audit';
+import { applyPlaceNameChanges, findPlaceNameChanges } from '@/lib/services/gazetteer';
+
+// GET /api/admin/gazetteer - Preview the place names normalization would rewrite
+export const GET = withApi({ roles: ['SUPER_ADMIN', 'ADMIN'] }, async () => {
+  const changes = await findPlaceNameChanges();
+  return NextResponse.json({ success: true, data: { changes } });
+});
+
+// POST /api/admin/gazetteer - Rewrite matching place names to the gazetteer's Arabic names
+export const POST = withApi({ roles: ['SUPER_ADMIN', 'ADMIN'] }, async ({ request, user }) => {
+  const changes = await findPlaceNameChanges();
+  const updated = changes.length > 0
+    ? await applyPlaceNameChanges(changes, { id: user.id, name: user.nameArabic || user.email })
+    : 0;
+
+  await audit({
+    action: 'PLACE_NAMES_NORMALIZE',
+    category: 'ADMIN',
+    description: `توحيد أسماء ${updated} من الأماكن`,
+    user,
+    request,
+    targetType: 'GAZETTEER',
+    details: {
+      updated,
+      byField: changes.reduce<Record<string, number>>((counts, change) => {
+        const key = `${change.entity}.${change.field}`;
+        counts[key] = (counts[key] || 0) + 1;
+        return counts;
+      }, {}),
+    },
+  });
+
+  return NextResponse.json({
+    success: true,
+    message: `${updated} place names normalized`,
+    messageAr: `تم توحيد ${updated} من أسماء الأماكن`,
+    data: { updated },
+  });
+});
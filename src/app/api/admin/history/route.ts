@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get auth user from request
 async function getAuthUser(request: NextRequest) {
@@ -115,6 +116,17 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await audit({
+      action: 'HISTORY_RECORD',
+      category: 'MEMBER',
+      user,
+      request,
+      targetType: 'MEMBER',
+      targetId: change.memberId,
+      description: `تم تسجيل تغيير يدوي في سجل التعديلات: ${change.fieldName || change.changeType}`,
+      details: { changeId: change.id, changeType: change.changeType, fieldName: change.fieldName },
+    });
+
     return NextResponse.json({ change });
   } catch (error) {
     console.error('Error creating history:', error);
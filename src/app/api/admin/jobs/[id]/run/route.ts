@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api';
+import { AppError } from '@/lib/errors/AppError';
+import { triggerJobNow } from '@/lib/services/job-runner';
+import { audit } from '@/lib/services/audit';
+
+// POST /api/admin/jobs/[id]/run - Run a scheduled job now (runs in the background)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAdmin(request);
+    if (user instanceof NextResponse) return user;
+
+    const run = await triggerJobNow({ id: params.id }, user.id);
+
+    await audit({
+      action: 'JOB_RUN',
+      category: 'SYSTEM',
+      user,
+      request,
+      targetType: 'SCHEDULED_JOB',
+      targetId: params.id,
+      description: 'تم تشغيل مهمة مجدولة يدوياً',
+      details: { runId: run.id },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: run,
+        message: 'Job started',
+        messageAr: 'بدأ تشغيل المهمة',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error('Error running scheduled job:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to run scheduled job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api';
+import { safeJsonParse } from '@/lib/utils/safe-json';
+import { ensureDefaultJobs, listScheduledJobs } from '@/lib/services/job-runner';
+
+// GET /api/admin/jobs - Scheduled jobs with their recent runs
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAdmin(request);
+    if (user instanceof NextResponse) return user;
+
+    await ensureDefaultJobs();
+    const jobs = await listScheduledJobs();
+
+    return NextResponse.json({
+      success: true,
+      data: jobs.map(({ jobConfig, leaseOwner, ...job }) => ({
+        ...job,
+        jobConfig: safeJsonParse<Record<string, unknown> | null>(jobConfig, null),
+        isRunning: !!leaseOwner,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching scheduled jobs:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch scheduled jobs' },
+      { status: 500 }
+    );
+  }
+}
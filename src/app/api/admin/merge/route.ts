@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser } from '@/lib/api';
+import { mergeDuplicateMembers } from '@/lib/db/merge';
+import { AppError } from '@/lib/errors/AppError';
+import { formatZodErrors, mergeMembersSchema } from '@/lib/validations';
+import { audit } from '@/lib/services/audit';
+
+// POST /api/admin/merge - Merge a duplicate member into a surviving member
+// Body: { survivorId, mergedId, strategy?, fieldChoices?: { phone: 'merged', ... }, reason? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user || (user.role !== 'SUPER_ADMIN' && user.role !== 'ADMIN')) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized', messageAr: 'غير مصرح' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = mergeMembersSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await mergeDuplicateMembers({
+      ...validation.data,
+      changedBy: user.id,
+      changedByName: user.nameArabic,
+    });
+
+    await audit({
+      action: 'MEMBER_MERGE',
+      category: 'MEMBER',
+      severity: 'WARNING',
+      user,
+      request,
+      targetType: 'MEMBER',
+      targetId: validation.data.survivorId,
+      description: `تم دمج العضو ${validation.data.mergedId} في ${validation.data.survivorId}`,
+      details: { mergedMemberId: validation.data.mergedId, batchId: result.batchId, mergedFields: result.mergedFields },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Members merged successfully',
+      messageAr: 'تم دمج الأعضاء بنجاح',
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.statusCode }
+      );
+    }
+    console.error('Failed to merge members:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge members' },
+      { status: 500 }
+    );
+  }
+}
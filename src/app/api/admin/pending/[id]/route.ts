@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { findSessionByToken, findUserById, logActivity } from '@/lib/auth/store';
+import { findSessionByToken, findUserById } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
+import { notifyNewMemberInBranch } from '@/lib/services/notifications';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
 import { randomUUID } from 'crypto';
 
@@ -144,6 +146,7 @@ export async function POST(
           daughtersCount: 0,
         },
       });
+      void notifyNewMemberInBranch(newMember, user);
 
       // Update pending status
       await prisma.pendingMember.update({
@@ -158,7 +161,7 @@ export async function POST(
       });
 
       // Log activity
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -192,7 +195,7 @@ export async function POST(
         },
       });
 
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -278,6 +281,19 @@ export async function PUT(
         },
       });
 
+      await audit({
+        action: 'PENDING_MEMBER_RESET',
+        category: 'MEMBER',
+        user,
+        targetType: 'PENDING_MEMBER',
+        targetId: params.id,
+        targetName: pending.fullNameAr || pending.firstName,
+        description: 'تمت إعادة طلب العضو إلى الانتظار',
+        details: { previousStatus: pending.reviewStatus },
+        ipAddress,
+        userAgent,
+      });
+
       return NextResponse.json({
         success: true,
         message: 'Status reset to pending',
@@ -319,6 +335,7 @@ export async function PUT(
           daughtersCount: 0,
         },
       });
+      void notifyNewMemberInBranch(newMember, user);
 
       await prisma.pendingMember.update({
         where: { id: params.id },
@@ -331,7 +348,7 @@ export async function PUT(
         },
       });
 
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -372,7 +389,7 @@ export async function PUT(
         },
       });
 
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -462,6 +479,19 @@ export async function PATCH(
       data: updateData,
     });
 
+    await audit({
+      action: 'PENDING_MEMBER_UPDATED',
+      category: 'MEMBER',
+      user,
+      request,
+      targetType: 'PENDING_MEMBER',
+      targetId: params.id,
+      targetName: updated.fullNameAr || updated.firstName,
+      description: `تم تعديل طلب العضو: ${Object.keys(updateData).join(', ')}`,
+      previousState: { firstName: pending.firstName, birthYear: pending.birthYear, city: pending.city, phone: pending.phone, occupation: pending.occupation },
+      newState: updateData,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Pending member updated',
@@ -498,10 +528,22 @@ export async function DELETE(
       );
     }
 
-    await prisma.pendingMember.delete({
+    const deleted = await prisma.pendingMember.delete({
       where: { id: params.id },
     });
 
+    await audit({
+      action: 'PENDING_MEMBER_DELETED',
+      category: 'MEMBER',
+      severity: 'WARNING',
+      user,
+      request,
+      targetType: 'PENDING_MEMBER',
+      targetId: params.id,
+      targetName: deleted.fullNameAr || deleted.firstName,
+      description: `تم حذف طلب العضو: ${deleted.fullNameAr || deleted.firstName}`,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Pending member deleted',
@@ -6,6 +6,7 @@ import { pendingMemberSchema, formatZodErrors } from '@/lib/validations';
 import { logger } from '@/lib/logging';
 import { sanitizeString } from '@/lib/sanitize';
 import { checkRateLimit, RATE_LIMITS } from '@/lib/middleware/rateLimit';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get auth user from request
 async function getAuthUser(request: NextRequest) {
@@ -144,6 +145,18 @@ export async function POST(request: NextRequest) {
       ip,
     });
 
+    // Public submission: there is no signed-in user
+    await audit({
+      action: 'PENDING_MEMBER_SUBMITTED',
+      category: 'MEMBER',
+      request,
+      targetType: 'PENDING_MEMBER',
+      targetId: pending.id,
+      targetName: pending.fullNameAr || pending.firstName,
+      description: `تم تقديم طلب إضافة عضو: ${pending.fullNameAr || pending.firstName}`,
+      details: { submittedVia: pending.submittedVia, proposedFatherId: pending.proposedFatherId },
+    });
+
     return NextResponse.json({
       success: true,
       pending,
@@ -3,6 +3,9 @@ import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { randomUUID } from 'crypto';
+import { isMergeBatch, rollbackMemberMerge } from '@/lib/db/merge';
+import { AppError } from '@/lib/errors/AppError';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get auth user from request
 async function getAuthUser(request: NextRequest) {
@@ -141,6 +144,13 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      if (change.changeType === 'MERGE') {
+        return NextResponse.json(
+          { success: false, message: 'Merges can only be rolled back as a whole (BATCH)' },
+          { status: 400 }
+        );
+      }
+
       // Rollback single field
       await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
         // Get current value for history
@@ -189,6 +199,31 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Merges re-point other records and delete a member, so they have their own rollback
+      if (await isMergeBatch(batchId)) {
+        const result = await rollbackMemberMerge(batchId, user.id, user.nameArabic);
+
+        await audit({
+          action: 'MEMBER_MERGE_ROLLBACK',
+          category: 'MEMBER',
+          severity: 'WARNING',
+          user,
+          request,
+          targetType: 'MEMBER',
+          targetId: result.restoredMemberId,
+          description: `تم التراجع عن الدمج واستعادة العضو ${result.restoredMemberId}`,
+          details: { mergeBatchId: batchId, rollbackBatchId: result.batchId, restoredReferences: result.restoredReferences },
+        });
+
+        return NextResponse.json({
+          success: true,
+          message: `Merge rolled back successfully. Member ${result.restoredMemberId} restored.`,
+          messageAr: `تم التراجع عن الدمج واستعادة العضو ${result.restoredMemberId}.`,
+          rollbackBatchId: result.batchId,
+          rolledBackCount: result.restoredReferences,
+        });
+      }
+
       const batchChanges = await prisma.changeHistory.findMany({
         where: { batchId },
         orderBy: { changedAt: 'desc' }, // Reverse order to undo last changes first
@@ -336,6 +371,18 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    await audit({
+      action: 'ROLLBACK',
+      category: 'MEMBER',
+      severity: 'WARNING',
+      user,
+      request,
+      targetType: memberId ? 'MEMBER' : 'CHANGE_HISTORY',
+      targetId: memberId || changeId || batchId || null,
+      description: `تم التراجع عن ${rolledBackCount} تغيير`,
+      details: { rollbackType, changeId, batchId, memberId, rollbackBatchId, rolledBackCount },
+    });
+
     return NextResponse.json({
       success: true,
       message: `Rollback completed successfully. ${rolledBackCount} change(s) rolled back.`,
@@ -344,6 +391,12 @@ export async function POST(request: NextRequest) {
       rolledBackCount,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.statusCode }
+      );
+    }
     console.error('Error executing rollback:', error);
     return NextResponse.json(
       { success: false, message: 'Failed to execute rollback' },
@@ -7,6 +7,7 @@ import { apiServiceConfigSchema, validateInput, formatZodErrors } from '@/lib/va
 import { emailService } from '@/lib/services/email';
 import { smsService } from '@/lib/services/sms';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get authenticated admin user from request
 async function getAuthAdmin(request: NextRequest) {
@@ -161,6 +162,18 @@ export async function POST(request: NextRequest) {
     emailService.clearConfigCache();
     smsService.clearConfigCache();
 
+    await audit({
+      action: 'CONFIG_UPDATE',
+      category: 'SETTINGS',
+      user,
+      request,
+      targetType: 'API_SERVICE_CONFIG',
+      targetId: 'default',
+      description: 'تم تحديث إعدادات خدمات البريد والرسائل',
+      // Field names only: the values include API keys
+      details: { changedFields: Object.keys(updateData) },
+    });
+
     // Mask sensitive data in response
     const maskedConfig = {
       ...config,
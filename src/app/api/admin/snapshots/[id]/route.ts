@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { findSessionByToken, findUserById, logActivity } from '@/lib/auth/store';
+import { findSessionByToken, findUserById } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
 
 // Helper to get auth user from request
@@ -82,6 +83,18 @@ export async function GET(
 
       const filename = `backup_${snapshot.name || snapshot.id}_${new Date().toISOString().split('T')[0]}.json`;
 
+      await audit({
+        action: 'BACKUP_DOWNLOAD',
+        category: 'BACKUP',
+        user,
+        request,
+        targetType: 'SNAPSHOT',
+        targetId: snapshot.id,
+        targetName: snapshot.name || snapshot.id,
+        description: `تم تنزيل نسخة احتياطية: ${snapshot.name || snapshot.id}`,
+        details: { memberCount: snapshot.memberCount },
+      });
+
       return new NextResponse(JSON.stringify(downloadData, null, 2), {
         headers: {
           'Content-Type': 'application/json; charset=utf-8',
@@ -161,9 +174,6 @@ export async function POST(
       );
     }
 
-    const ipAddress = request.headers.get('x-forwarded-for') || 'unknown';
-    const userAgent = request.headers.get('user-agent') || 'unknown';
-
     // Create a pre-restore backup
     const currentMembers = await prisma.familyMember.findMany();
     const preRestoreSnapshot = await prisma.snapshot.create({
@@ -203,25 +213,24 @@ export async function POST(
       }
     }
 
-    // Log activity
-    await logActivity({
-      userId: user.id,
-      userEmail: user.email,
-      userName: user.nameArabic,
-      action: 'RESTORE_SNAPSHOT',
-      category: 'DATA',
+    await audit({
+      action: 'BACKUP_RESTORE',
+      category: 'BACKUP',
+      severity: 'WARNING',
+      user,
+      request,
       targetType: 'SNAPSHOT',
       targetId: params.id,
       targetName: snapshot.name || params.id,
+      description: `تم استعادة ${restoredCount} عضو من النسخة الاحتياطية: ${snapshot.name || params.id}`,
       details: {
         snapshotId: params.id,
         preRestoreSnapshotId: preRestoreSnapshot.id,
         membersRestored: restoredCount,
         errors: errors.length,
       },
-      ipAddress,
-      userAgent,
       success: errors.length === 0,
+      errorMessage: errors.length > 0 ? errors.slice(0, 5).join('; ') : null,
     });
 
     return NextResponse.json({
@@ -279,22 +288,17 @@ export async function DELETE(
       where: { id: params.id },
     });
 
-    const ipAddress = request.headers.get('x-forwarded-for') || 'unknown';
-    const userAgent = request.headers.get('user-agent') || 'unknown';
-
-    await logActivity({
-      userId: user.id,
-      userEmail: user.email,
-      userName: user.nameArabic,
-      action: 'CREATE_SNAPSHOT', // Using existing action type
-      category: 'DATA',
+    await audit({
+      action: 'BACKUP_DELETE',
+      category: 'BACKUP',
+      severity: 'WARNING',
+      user,
+      request,
       targetType: 'SNAPSHOT',
       targetId: params.id,
       targetName: snapshot.name || params.id,
-      details: { action: 'DELETE' },
-      ipAddress,
-      userAgent,
-      success: true,
+      description: `تم حذف نسخة احتياطية: ${snapshot.name || params.id}`,
+      details: { memberCount: snapshot.memberCount, snapshotType: snapshot.snapshotType },
     });
 
     return NextResponse.json({
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get auth user from request
 async function getAuthUser(request: NextRequest) {
@@ -86,6 +87,18 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await audit({
+      action: 'BACKUP_CREATE',
+      category: 'BACKUP',
+      user,
+      request,
+      targetType: 'SNAPSHOT',
+      targetId: snapshot.id,
+      targetName: snapshot.name,
+      description: `تم إنشاء لقطة: ${snapshot.name}`,
+      details: { memberCount: snapshot.memberCount, snapshotType: snapshot.snapshotType },
+    });
+
     return NextResponse.json({ snapshot });
   } catch (error) {
     console.error('Error creating snapshot:', error);
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { audiencePreviewSchema } from '@/lib/validations';
+import { serializeBroadcastChannels } from '@/lib/broadcast-channels';
+import { resolveAudience } from '@/lib/services/audience';
+import { broadcastService } from '@/lib/services/broadcast';
+
+// POST /api/audience/preview - People a rule matches and how many a broadcast would reach
+export const POST = withApi(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], schema: audiencePreviewSchema, rateLimit: 'api' },
+  async ({ body }) => {
+    const [audience, recipients] = await Promise.all([
+      resolveAudience(body.rules),
+      broadcastService.getRecipients({
+        targetAudience: 'RULES',
+        targetRules: JSON.stringify(body.rules),
+        channels: serializeBroadcastChannels(body.channels),
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        matched: audience.count,
+        members: audience.memberIds.length,
+        users: audience.userIds.length,
+        recipients: recipients.length,
+      },
+    });
+  }
+);
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { ConflictError, NotFoundError } from '@/lib/errors';
+import { updateAudienceSegmentSchema, type AudienceSegmentInput } from '@/lib/validations';
+import { deleteSegment, getSegment, updateSegment } from '@/lib/services/audience';
+import { audit } from '@/lib/services/audit';
+
+async function requireSegment(id: string) {
+  const segment = await getSegment(id);
+  if (!segment) {
+    throw new NotFoundError('Audience segment not found', 'audienceSegment', id);
+  }
+  return segment;
+}
+
+// GET /api/audience/segments/[id] - One saved segment
+export const GET = withApi<undefined, { id: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'] },
+  async ({ params }) => {
+    const segment = await requireSegment(params.id);
+    return NextResponse.json({ success: true, data: segment });
+  }
+);
+
+// PUT /api/audience/segments/[id] - Rename a segment or change its rules
+export const PUT = withApi<Partial<AudienceSegmentInput>, { id: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], schema: updateAudienceSegmentSchema },
+  async ({ request, user, body, params }) => {
+    await requireSegment(params.id);
+    const segment = await updateSegment(params.id, body);
+
+    await audit({
+      action: 'AUDIENCE_SEGMENT_UPDATE',
+      category: 'BROADCAST',
+      description: `تعديل شريحة جمهور: ${segment.name}`,
+      user,
+      request,
+      targetType: 'AUDIENCE_SEGMENT',
+      targetId: segment.id,
+      targetName: segment.name,
+      details: { fields: Object.keys(body), lastCount: segment.lastCount },
+    });
+
+    return NextResponse.json({ success: true, data: segment });
+  }
+);
+
+// DELETE /api/audience/segments/[id] - Delete a segment no draft or scheduled broadcast targets
+export const DELETE = withApi<undefined, { id: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'] },
+  async ({ request, user, params }) => {
+    const segment = await requireSegment(params.id);
+    const { deleted, blockedBy } = await deleteSegment(params.id);
+    if (!deleted) {
+      throw new ConflictError('Segment is used by broadcasts that have not been sent', { broadcasts: blockedBy });
+    }
+
+    await audit({
+      action: 'AUDIENCE_SEGMENT_DELETE',
+      category: 'BROADCAST',
+      description: `حذف شريحة جمهور: ${segment.name}`,
+      user,
+      request,
+      targetType: 'AUDIENCE_SEGMENT',
+      targetId: segment.id,
+      targetName: segment.name,
+    });
+
+    return NextResponse.json({ success: true, message: 'Segment deleted', messageAr: 'تم حذف الشريحة' });
+  }
+);
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { audienceSegmentSchema } from '@/lib/validations';
+import { createSegment, listSegments } from '@/lib/services/audience';
+import { getLineageBranches } from '@/lib/services/timeline';
+import { audit } from '@/lib/services/audit';
+
+// GET /api/audience/segments - Saved audience segments, and the branches rules can pick from
+export const GET = withApi({ roles: ['SUPER_ADMIN', 'ADMIN'] }, async () => {
+  const [segments, branches] = await Promise.all([listSegments(), getLineageBranches()]);
+  return NextResponse.json({ success: true, data: { segments, branches } });
+});
+
+// POST /api/audience/segments - Save an audience segment
+export const POST = withApi(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], schema: audienceSegmentSchema },
+  async ({ request, user, body }) => {
+    const segment = await createSegment(body, { id: user.id, name: user.nameArabic || user.email });
+
+    await audit({
+      action: 'AUDIENCE_SEGMENT_CREATE',
+      category: 'BROADCAST',
+      description: `إنشاء شريحة جمهور: ${segment.name}`,
+      user,
+      request,
+      targetType: 'AUDIENCE_SEGMENT',
+      targetId: segment.id,
+      targetName: segment.name,
+      details: { lastCount: segment.lastCount },
+    });
+
+    return NextResponse.json(
+      { success: true, message: 'Segment saved', messageAr: 'تم حفظ الشريحة', data: segment },
+      { status: 201 }
+    );
+  }
+);
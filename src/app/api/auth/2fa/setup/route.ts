@@ -3,8 +3,8 @@ import { prisma } from '@/lib/prisma';
 import {
   findUserById,
   findSessionByToken,
-  logActivity,
 } from '@/lib/auth/db-store';
+import { audit } from '@/lib/services/audit';
 import {
   generateTOTPSecret,
   generateTOTPUri,
@@ -235,7 +235,7 @@ export async function POST(request: NextRequest) {
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
     // Log activity
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
@@ -342,7 +342,7 @@ export async function DELETE(request: NextRequest) {
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
     // Log activity
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
@@ -4,8 +4,8 @@ import {
   findUserByEmail,
   createSession,
   updateUser,
-  logActivity,
 } from '@/lib/auth/db-store';
+import { audit } from '@/lib/services/audit';
 import { verifyTOTP, verifyBackupCode } from '@/lib/auth/totp';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
 import { checkRateLimit, getClientIp, rateLimiters, createRateLimitResponse } from '@/lib/rate-limit';
@@ -108,7 +108,7 @@ export async function POST(request: NextRequest) {
     }
 
     if (!isValid) {
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -138,7 +138,7 @@ export async function POST(request: NextRequest) {
     await updateUser(user.id, { lastLoginAt: new Date() });
 
     // Log successful login
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
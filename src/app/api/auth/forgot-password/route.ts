@@ -2,8 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
   findUserByEmail,
   createPasswordResetToken,
-  logActivity,
 } from '@/lib/auth/db-store';
+import { audit } from '@/lib/services/audit';
 import { emailService } from '@/lib/services/email';
 import { checkRateLimit, getClientIp, rateLimiters, createRateLimitResponse } from '@/lib/rate-limit';
 
@@ -55,7 +55,7 @@ export async function POST(request: NextRequest) {
       });
 
       // Log activity
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -68,7 +68,7 @@ export async function POST(request: NextRequest) {
       });
     } else {
       // Log failed attempt (user not found)
-      await logActivity({
+      await audit({
         userEmail: email,
         action: 'PASSWORD_RESET_REQUESTED',
         category: 'AUTH',
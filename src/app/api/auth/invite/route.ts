@@ -8,9 +8,9 @@ import {
   createUser,
   findUserByEmail,
   getAllInvites,
-  logActivity,
   getSiteSettings,
 } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole, getAssignableRoles } from '@/lib/auth/permissions';
 import { UserRole } from '@/lib/auth/types';
 import { hashPassword, validatePassword } from '@/lib/auth/password';
@@ -108,7 +108,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Log activity
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
@@ -290,7 +290,7 @@ export async function PUT(request: NextRequest) {
     await markInviteUsed(code, newUser.id);
 
     // Log activity
-    await logActivity({
+    await audit({
       userId: newUser.id,
       userEmail: newUser.email,
       userName: newUser.nameArabic,
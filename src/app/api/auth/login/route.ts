@@ -7,8 +7,8 @@ import {
   checkLoginAttempts,
   recordFailedLogin,
   clearLoginAttempts,
-  logActivity,
 } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
 import { checkRateLimit, getClientIp, rateLimiters, createRateLimitResponse } from '@/lib/rate-limit';
 
@@ -48,7 +48,7 @@ export async function POST(request: NextRequest) {
         ? Math.ceil((attemptCheck.lockedUntil.getTime() - Date.now()) / 60000)
         : 15;
 
-      await logActivity({
+      await audit({
         userEmail: email,
         action: 'LOGIN_FAILED',
         category: 'AUTH',
@@ -75,7 +75,7 @@ export async function POST(request: NextRequest) {
     const user = await findUserByEmail(email);
     if (!user) {
       await recordFailedLogin(email);
-      await logActivity({
+      await audit({
         userEmail: email,
         action: 'LOGIN_FAILED',
         category: 'AUTH',
@@ -101,7 +101,7 @@ export async function POST(request: NextRequest) {
     const isValidPassword = await verifyPassword(password, user.passwordHash);
     if (!isValidPassword) {
       await recordFailedLogin(email);
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -127,7 +127,7 @@ export async function POST(request: NextRequest) {
 
     // Check user status
     if (user.status === 'PENDING') {
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -152,7 +152,7 @@ export async function POST(request: NextRequest) {
     }
 
     if (user.status === 'DISABLED') {
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -186,7 +186,7 @@ export async function POST(request: NextRequest) {
     await updateUser(user.id, { lastLoginAt: new Date() });
 
     // Log successful login
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
@@ -3,8 +3,8 @@ import {
   findSessionByToken,
   deleteSessionByToken,
   findUserById,
-  logActivity,
 } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 
 export async function POST(request: NextRequest) {
   try {
@@ -33,7 +33,7 @@ export async function POST(request: NextRequest) {
       await deleteSessionByToken(token);
 
       // Log the logout
-      await logActivity({
+      await audit({
         userId: user?.id,
         userEmail: user?.email,
         userName: user?.nameArabic,
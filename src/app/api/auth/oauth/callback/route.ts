@@ -10,8 +10,8 @@ import {
   createUser,
   createSession,
   updateUser,
-  logActivity,
 } from '@/lib/auth/db-store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
 
 // Generate a cryptographically secure random password for OAuth users
@@ -83,7 +83,7 @@ export async function GET(request: NextRequest) {
         avatarUrl: userInfo.picture,
       });
 
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -117,7 +117,7 @@ export async function GET(request: NextRequest) {
     await updateUser(user.id, { lastLoginAt: new Date() });
 
     // Log login
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
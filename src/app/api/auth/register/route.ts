@@ -4,8 +4,8 @@ import {
   createAccessRequest,
   findAccessRequestByEmail,
   getSiteSettings,
-  logActivity,
 } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 import { validatePassword } from '@/lib/auth/password';
 import { checkRateLimit, getClientIp, rateLimiters, createRateLimitResponse } from '@/lib/rate-limit';
 
@@ -155,7 +155,7 @@ export async function POST(request: NextRequest) {
     // For now, we'll create the user account when approved
 
     // Log the registration
-    await logActivity({
+    await audit({
       userEmail: email,
       userName: nameArabic,
       action: 'REGISTER',
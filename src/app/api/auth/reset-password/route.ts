@@ -5,8 +5,8 @@ import {
   findUserByEmail,
   updateUserPassword,
   deleteUserSessions,
-  logActivity,
 } from '@/lib/auth/db-store';
+import { audit } from '@/lib/services/audit';
 import { validatePassword } from '@/lib/auth/password';
 import { checkRateLimit, getClientIp, rateLimiters, createRateLimitResponse } from '@/lib/rate-limit';
 
@@ -165,7 +165,7 @@ export async function POST(request: NextRequest) {
     await deleteUserSessions(user.id);
 
     // Log activity
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { revokeAccessToken } from '@/lib/services/access-tokens';
+import { audit } from '@/lib/services/audit';
+
+// DELETE /api/auth/tokens/[id] - Revoke one of the current user's tokens
+export const DELETE = withApi<undefined, { id: string }>({}, async ({ request, user, params }) => {
+  const accessToken = await revokeAccessToken(user.id, params.id);
+
+  await audit({
+    action: 'ACCESS_TOKEN_REVOKE',
+    category: 'AUTH',
+    description: `إلغاء رمز وصول: ${accessToken.name}`,
+    user,
+    targetType: 'ACCESS_TOKEN',
+    targetId: accessToken.id,
+    targetName: accessToken.name,
+    request,
+  });
+
+  return NextResponse.json({
+    success: true,
+    message: 'Access token revoked',
+    messageAr: 'تم إلغاء رمز الوصول',
+    data: accessToken,
+  });
+});
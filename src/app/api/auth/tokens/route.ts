@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { createAccessTokenSchema } from '@/lib/validations';
+import { createAccessToken, listAccessTokens } from '@/lib/services/access-tokens';
+import { audit } from '@/lib/services/audit';
+
+// GET /api/auth/tokens - List the current user's personal access tokens
+export const GET = withApi({}, async ({ user }) => {
+  const tokens = await listAccessTokens(user.id);
+  return NextResponse.json({ success: true, data: tokens });
+});
+
+// POST /api/auth/tokens - Create a token; the plain value is returned only once
+export const POST = withApi(
+  { schema: createAccessTokenSchema, rateLimit: 'auth' },
+  async ({ request, user, body }) => {
+    const { token, accessToken } = await createAccessToken(user.id, body);
+
+    await audit({
+      action: 'ACCESS_TOKEN_CREATE',
+      category: 'AUTH',
+      description: `إنشاء رمز وصول: ${accessToken.name}`,
+      user,
+      targetType: 'ACCESS_TOKEN',
+      targetId: accessToken.id,
+      targetName: accessToken.name,
+      details: { scopes: accessToken.scopes, expiresAt: accessToken.expiresAt },
+      request,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Access token created. Copy it now; it will not be shown again.',
+        messageAr: 'تم إنشاء رمز الوصول. انسخه الآن، لن يظهر مرة أخرى.',
+        data: { ...accessToken, token },
+      },
+      { status: 201 }
+    );
+  }
+);
@@ -5,8 +5,8 @@ import {
   markEmailVerified,
   findUserByEmail,
   createEmailVerificationToken,
-  logActivity,
 } from '@/lib/auth/db-store';
+import { audit } from '@/lib/services/audit';
 import { emailService } from '@/lib/services/email';
 import { checkRateLimit, getClientIp, rateLimiters, createRateLimitResponse } from '@/lib/rate-limit';
 
@@ -52,7 +52,7 @@ export async function GET(request: NextRequest) {
     const user = await findUserByEmail(verificationToken.email);
 
     // Log activity
-    await logActivity({
+    await audit({
       userId: user?.id,
       userEmail: verificationToken.email,
       userName: user?.nameArabic,
@@ -143,7 +143,7 @@ export async function POST(request: NextRequest) {
     await emailService.sendVerificationEmail(email, { verifyUrl });
 
     // Log activity
-    await logActivity({
+    await audit({
       userId: user.id,
       userEmail: user.email,
       userName: user.nameArabic,
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { runBackupIfNeeded, getBackupStats, isBackupNeeded } from '@/lib/backup-scheduler';
+import { audit } from '@/lib/services/audit';
 
 /**
  * POST /api/backup/check
@@ -20,6 +21,20 @@ export async function POST() {
 
     const result = await runBackupIfNeeded();
 
+    if (result.ran) {
+      await audit({
+        action: 'BACKUP_CREATE',
+        category: 'BACKUP',
+        userName: 'النظام',
+        userRole: 'SYSTEM',
+        targetType: 'SNAPSHOT',
+        targetId: result.snapshotId,
+        description: 'تم إنشاء نسخة احتياطية تلقائية',
+        success: result.success !== false,
+        errorMessage: result.error,
+      });
+    }
+
     return NextResponse.json({
       success: result.success ?? true,
       backupRan: result.ran,
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getMemberByIdFromDb } from '@/lib/db';
+import { audit } from '@/lib/services/audit';
+import { withApi } from '@/lib/api';
+import { redactMember } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
 
 // GET /api/breastfeeding/[id] - Get a single breastfeeding relationship
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withApi<undefined, { id: string }, true>({ public: true }, async ({ user, params }) => {
   try {
     const relationship = await prisma.breastfeedingRelationship.findUnique({
       where: { id: params.id },
@@ -24,9 +25,16 @@ export async function GET(
       );
     }
 
+    const viewer = await getPrivacyViewer(user);
+
     return NextResponse.json({
       success: true,
-      data: relationship,
+      data: {
+        ...relationship,
+        child: redactMember(relationship.child, viewer),
+        nurse: relationship.nurse && redactMember(relationship.nurse, viewer),
+        milkFather: relationship.milkFather && redactMember(relationship.milkFather, viewer),
+      },
     });
   } catch (error) {
     console.error('Failed to fetch breastfeeding relationship:', error);
@@ -35,7 +43,7 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // PUT /api/breastfeeding/[id] - Update a breastfeeding relationship
 export async function PUT(
@@ -115,6 +123,18 @@ export async function PUT(
       },
     });
 
+    await audit({
+      action: 'BREASTFEEDING_UPDATE',
+      category: 'MEMBER',
+      description: `تحديث علاقة رضاعة لـ ${updatedRelationship.child.firstName}`,
+      request,
+      targetType: 'BREASTFEEDING',
+      targetId: params.id,
+      targetName: updatedRelationship.child.firstName,
+      previousState: existingRelationship,
+      newState: body,
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedRelationship,
@@ -150,6 +170,16 @@ export async function DELETE(
       where: { id: params.id },
     });
 
+    await audit({
+      action: 'BREASTFEEDING_DELETE',
+      category: 'MEMBER',
+      description: 'حذف علاقة رضاعة',
+      request,
+      targetType: 'BREASTFEEDING',
+      targetId: params.id,
+      previousState: existingRelationship,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Breastfeeding relationship deleted successfully',
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getMemberByIdFromDb } from '@/lib/db';
+import { audit } from '@/lib/services/audit';
+import { withApi } from '@/lib/api';
+import { redactMember } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
 
 // GET /api/breastfeeding - Get all breastfeeding relationships
-export async function GET(request: NextRequest) {
+export const GET = withApi({ public: true }, async ({ user }) => {
   try {
     const relationships = await prisma.breastfeedingRelationship.findMany({
       include: {
@@ -16,9 +20,16 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    const viewer = await getPrivacyViewer(user);
+
     return NextResponse.json({
       success: true,
-      data: relationships,
+      data: relationships.map(relationship => ({
+        ...relationship,
+        child: redactMember(relationship.child, viewer),
+        nurse: relationship.nurse && redactMember(relationship.nurse, viewer),
+        milkFather: relationship.milkFather && redactMember(relationship.milkFather, viewer),
+      })),
     });
   } catch (error) {
     console.error('Failed to fetch breastfeeding relationships:', error);
@@ -27,7 +38,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/breastfeeding - Create a new breastfeeding relationship
 export async function POST(request: NextRequest) {
@@ -139,6 +150,17 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await audit({
+      action: 'BREASTFEEDING_CREATE',
+      category: 'MEMBER',
+      description: `إضافة علاقة رضاعة لـ ${child.firstName}`,
+      request,
+      targetType: 'BREASTFEEDING',
+      targetId: relationship.id,
+      targetName: child.firstName,
+      newState: { childId, nurseId, externalNurseName, milkFatherId, externalMilkFatherName, breastfeedingYear },
+    });
+
     return NextResponse.json({
       success: true,
       data: relationship,
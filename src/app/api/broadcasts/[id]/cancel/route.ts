@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { broadcastService } from '@/lib/services/broadcast';
+import { audit } from '@/lib/services/audit';
 
 // POST /api/broadcasts/[id]/cancel - Cancel a scheduled broadcast
 export async function POST(
@@ -10,6 +11,16 @@ export async function POST(
     const { id } = params;
     const broadcast = await broadcastService.cancelBroadcast(id);
 
+    await audit({
+      action: 'BROADCAST_CANCEL',
+      category: 'BROADCAST',
+      description: `إلغاء رسالة جماعية: ${broadcast.titleAr}`,
+      request,
+      targetType: 'BROADCAST',
+      targetId: id,
+      targetName: broadcast.titleAr,
+    });
+
     return NextResponse.json({
       success: true,
       data: broadcast,
@@ -5,6 +5,7 @@ import { hasPermission } from '@/lib/auth/permissions';
 import { updateBroadcastSchema, formatZodErrors } from '@/lib/validations';
 import { logger } from '@/lib/logging';
 import { UserRole } from '@/lib/auth/types';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -112,6 +113,18 @@ export async function PUT(
 
     logger.info('Broadcast updated', { broadcastId: id, userId: user.id });
 
+    await audit({
+      action: 'BROADCAST_UPDATE',
+      category: 'BROADCAST',
+      description: `تحديث رسالة جماعية: ${broadcast.titleAr}`,
+      user,
+      request,
+      targetType: 'BROADCAST',
+      targetId: id,
+      targetName: broadcast.titleAr,
+      newState: updateData,
+    });
+
     return NextResponse.json({
       success: true,
       data: broadcast,
@@ -155,6 +168,16 @@ export async function DELETE(
 
     logger.info('Broadcast deleted', { broadcastId: id, userId: user.id });
 
+    await audit({
+      action: 'BROADCAST_DELETE',
+      category: 'BROADCAST',
+      description: 'حذف رسالة جماعية',
+      user,
+      request,
+      targetType: 'BROADCAST',
+      targetId: id,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Broadcast deleted successfully',
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { broadcastService, RSVPResponse } from '@/lib/services/broadcast';
+import { audit } from '@/lib/services/audit';
 
 // GET /api/broadcasts/[id]/rsvp - Handle RSVP via email link
 export async function GET(
@@ -143,6 +144,17 @@ export async function POST(
       body.note
     );
 
+    await audit({
+      action: 'BROADCAST_RSVP',
+      category: 'BROADCAST',
+      description: `تسجيل رد على الدعوة: ${body.response}`,
+      userEmail: body.email,
+      request,
+      targetType: 'BROADCAST',
+      targetId: id,
+      details: { response: body.response },
+    });
+
     return NextResponse.json({
       success: true,
       data: result,
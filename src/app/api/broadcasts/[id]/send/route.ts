@@ -3,6 +3,7 @@ import { broadcastService } from '@/lib/services/broadcast';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { logger } from '@/lib/logging';
 import { checkRateLimit, RATE_LIMITS } from '@/lib/middleware/rateLimit';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -71,6 +72,21 @@ export async function POST(
     const { id } = params;
     const result = await broadcastService.sendBroadcast(id);
 
+    await audit({
+      action: 'BROADCAST_SEND',
+      category: 'BROADCAST',
+      description: result.success
+        ? `إرسال رسالة جماعية إلى ${result.sentCount} مستلم`
+        : 'فشل إرسال رسالة جماعية',
+      user,
+      request,
+      targetType: 'BROADCAST',
+      targetId: id,
+      details: { sentCount: result.sentCount, failedCount: result.failedCount },
+      success: result.success,
+      errorMessage: result.errors?.join(', '),
+    });
+
     if (result.success) {
       logger.info('Broadcast sent successfully', {
         broadcastId: id,
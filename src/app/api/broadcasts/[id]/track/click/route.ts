@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { ValidationError } from '@/lib/errors';
+import { isTrackableLink, verifyTrackingParams } from '@/lib/email-tracking';
+import { recordClick } from '@/lib/services/email-tracking';
+import { logger } from '@/lib/logging';
+
+// GET /api/broadcasts/[id]/track/click?r=<recipientId>&u=<url>&s=<signature>
+// Records the click and redirects. Unsigned URLs are refused so the route
+// can't be used as an open redirect.
+export const GET = withApi<undefined, { id: string }, true>(
+  { public: true },
+  async ({ request, params }) => {
+    const recipientId = request.nextUrl.searchParams.get('r');
+    const url = request.nextUrl.searchParams.get('u');
+    const signature = request.nextUrl.searchParams.get('s');
+
+    if (!recipientId || !url || !isTrackableLink(url)
+      || !verifyTrackingParams(signature, 'click', params.id, recipientId, url)) {
+      throw new ValidationError('Invalid tracking link');
+    }
+
+    try {
+      await recordClick(params.id, recipientId);
+    } catch (error) {
+      logger.error('Failed to record broadcast click', error);
+    }
+
+    return NextResponse.redirect(url, 302);
+  }
+);
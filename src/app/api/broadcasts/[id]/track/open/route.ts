@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { TRACKING_PIXEL_GIF, verifyTrackingParams } from '@/lib/email-tracking';
+import { recordOpen } from '@/lib/services/email-tracking';
+import { logger } from '@/lib/logging';
+
+// GET /api/broadcasts/[id]/track/open?r=<recipientId>&s=<signature> - Open pixel
+// Always answers with the pixel; only signed requests are counted.
+export const GET = withApi<undefined, { id: string }, true>(
+  { public: true },
+  async ({ request, params }) => {
+    const recipientId = request.nextUrl.searchParams.get('r');
+    const signature = request.nextUrl.searchParams.get('s');
+
+    if (recipientId && verifyTrackingParams(signature, 'open', params.id, recipientId)) {
+      try {
+        await recordOpen(params.id, recipientId);
+      } catch (error) {
+        logger.error('Failed to record broadcast open', error);
+      }
+    }
+
+    return new NextResponse(new Uint8Array(TRACKING_PIXEL_GIF), {
+      headers: {
+        'Content-Type': 'image/gif',
+        'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+      },
+    });
+  }
+);
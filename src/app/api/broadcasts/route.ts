@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { broadcastService, BroadcastType, BroadcastStatus, TargetAudience } from '@/lib/services/broadcast';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
+import { BROADCAST_CHANNELS, isBroadcastChannel } from '@/lib/broadcast-channels';
+import { getSegment } from '@/lib/services/audience';
+import { audienceRuleSchema, formatZodErrors } from '@/lib/validations';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -110,7 +114,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate target audience
-    const validAudiences: TargetAudience[] = ['ALL', 'BRANCH', 'GENERATION', 'CUSTOM'];
+    const validAudiences: TargetAudience[] = ['ALL', 'BRANCH', 'GENERATION', 'CUSTOM', 'SEGMENT', 'RULES'];
     if (body.targetAudience && !validAudiences.includes(body.targetAudience)) {
       return NextResponse.json(
         { success: false, error: `Invalid targetAudience. Must be one of: ${validAudiences.join(', ')}` },
@@ -118,6 +122,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate audience segment or rules
+    if (body.targetAudience === 'SEGMENT' && !(body.targetSegmentId && await getSegment(body.targetSegmentId))) {
+      return NextResponse.json(
+        { success: false, error: 'targetSegmentId must name a saved audience segment' },
+        { status: 400 }
+      );
+    }
+
+    const rules = body.targetAudience === 'RULES' ? audienceRuleSchema.safeParse(body.targetRules) : null;
+    if (rules && !rules.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid targetRules', details: formatZodErrors(rules.error) },
+        { status: 400 }
+      );
+    }
+
+    // Validate channels
+    if (body.channels !== undefined && (
+      !Array.isArray(body.channels) || body.channels.length === 0 || !body.channels.every(isBroadcastChannel)
+    )) {
+      return NextResponse.json(
+        { success: false, error: `Invalid channels. Must be a non-empty list of: ${BROADCAST_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Validate meeting-specific fields
     if (body.type === 'MEETING' && !body.meetingDate) {
       return NextResponse.json(
@@ -150,11 +180,26 @@ export async function POST(request: NextRequest) {
       targetBranch: body.targetBranch,
       targetGeneration: body.targetGeneration,
       targetMemberIds: body.targetMemberIds,
+      targetSegmentId: body.targetAudience === 'SEGMENT' ? body.targetSegmentId : undefined,
+      targetRules: rules?.success ? rules.data : undefined,
+      channels: body.channels,
       scheduledAt,
       createdBy,
       createdByName,
     });
 
+    await audit({
+      action: 'BROADCAST_CREATE',
+      category: 'BROADCAST',
+      description: `إنشاء رسالة جماعية: ${broadcast.titleAr}`,
+      user,
+      request,
+      targetType: 'BROADCAST',
+      targetId: broadcast.id,
+      targetName: broadcast.titleAr,
+      details: { type: broadcast.type, targetAudience: broadcast.targetAudience, channels: broadcast.channels, scheduledAt },
+    });
+
     return NextResponse.json({
       success: true,
       data: broadcast,
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { gatheringCheckInSchema, type GatheringCheckInInput } from '@/lib/validations';
+import { checkInAttendee, getGatheringOrThrow } from '@/lib/services/gatherings';
+import { audit } from '@/lib/services/audit';
+
+// POST /api/gatherings/[id]/check-in - Mark an attendee as arrived from a scanned pass or the list
+// Admins only: attendees are often guests without a branch to scope leaders to
+export const POST = withApi<GatheringCheckInInput, { id: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], rateLimit: 'api', schema: gatheringCheckInSchema },
+  async ({ request, user, body, params }) => {
+    const gathering = await getGatheringOrThrow(params.id);
+    const { attendee, changed } = await checkInAttendee(gathering.id, body, user.id);
+
+    if (changed) {
+      await audit({
+        action: body.attended ? 'GATHERING_CHECK_IN' : 'GATHERING_CHECK_IN_UNDO',
+        category: 'CONTENT',
+        description: body.attended
+          ? `تسجيل وصول ${attendee.name} إلى ${gathering.titleAr}`
+          : `إلغاء تسجيل وصول ${attendee.name} إلى ${gathering.titleAr}`,
+        user,
+        request,
+        targetType: 'GATHERING',
+        targetId: gathering.id,
+        targetName: gathering.titleAr,
+        details: { attendeeId: attendee.id, scanned: !!body.code },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        attendee: {
+          id: attendee.id,
+          name: attendee.name,
+          rsvpStatus: attendee.rsvpStatus,
+          plusOnes: attendee.plusOnes,
+          dietaryNotes: attendee.dietaryNotes,
+          attended: attendee.attended,
+          attendedAt: attendee.attendedAt,
+        },
+        // Scanning a pass twice is reported rather than treated as an error
+        alreadyCheckedIn: body.attended && !changed,
+      },
+    });
+  }
+);
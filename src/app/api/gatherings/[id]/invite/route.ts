@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { ExternalServiceError } from '@/lib/errors';
+import { gatheringInviteSchema, type GatheringInviteInput } from '@/lib/validations';
+import { broadcastService } from '@/lib/services/broadcast';
+import { gatheringInvitation, getGatheringOrThrow, getInvitedUserIds } from '@/lib/services/gatherings';
+import { notifyGatheringInvitation } from '@/lib/services/notifications';
+import { audit } from '@/lib/services/audit';
+
+// POST /api/gatherings/[id]/invite - Invite a branch or audience to a gathering through a broadcast
+export const POST = withApi<GatheringInviteInput, { id: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN'], rateLimit: 'api', schema: gatheringInviteSchema },
+  async ({ request, user, body, params }) => {
+    const gathering = await getGatheringOrThrow(params.id);
+    const broadcast = await broadcastService.createBroadcast(
+      gatheringInvitation(gathering, body, { id: user.id, name: user.nameArabic || user.email })
+    );
+
+    const result = body.sendNow ? await broadcastService.sendBroadcast(broadcast.id) : null;
+    // Invitees with an account also get the invitation in the app
+    if (result && result.sentCount > 0) {
+      void getInvitedUserIds(gathering.id)
+        .then(userIds => notifyGatheringInvitation({ ...gathering, createdBy: user.id }, userIds))
+        .catch(error => console.error('Failed to notify gathering invitees:', error));
+    }
+
+    await audit({
+      action: 'GATHERING_INVITE',
+      category: 'BROADCAST',
+      description: `إرسال دعوات لقاء: ${gathering.titleAr}`,
+      user,
+      request,
+      targetType: 'GATHERING',
+      targetId: gathering.id,
+      targetName: gathering.titleAr,
+      details: {
+        broadcastId: broadcast.id,
+        targetAudience: body.targetAudience,
+        channels: body.channels,
+        sent: !!result,
+        sentCount: result?.sentCount,
+      },
+    });
+
+    if (result && !result.success && result.sentCount === 0) {
+      throw new ExternalServiceError(result.errors?.[0] || 'Failed to send invitations', 'broadcast');
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result ? `Invitations sent to ${result.sentCount} recipients` : 'Invitation saved as a draft broadcast',
+      messageAr: result ? `تم إرسال الدعوة إلى ${result.sentCount} مستلم` : 'تم حفظ الدعوة كمسودة',
+      data: { broadcastId: broadcast.id, result },
+    });
+  }
+);
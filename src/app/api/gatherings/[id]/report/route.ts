@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getAttendanceReport } from '@/lib/services/gatherings';
+
+// GET /api/gatherings/[id]/report - Attendees with RSVPs, check-ins and headcounts per branch
+export const GET = withApi<undefined, { id: string }>(
+  { roles: ['SUPER_ADMIN', 'ADMIN', 'BRANCH_LEADER'], rateLimit: 'api' },
+  async ({ params }) => {
+    const report = await getAttendanceReport(params.id);
+    return NextResponse.json({ success: true, data: report });
+  }
+);
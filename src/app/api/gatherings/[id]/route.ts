@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { syncSearchDocument } from '@/lib/db/search';
 import { sanitizeString } from '@/lib/sanitize';
+import { audit } from '@/lib/services/audit';
+import { getSegment } from '@/lib/services/audience';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -123,6 +126,13 @@ export async function PUT(
       );
     }
 
+    if (body.audienceSegmentId && !(await getSegment(body.audienceSegmentId))) {
+      return NextResponse.json(
+        { success: false, error: 'Audience segment not found' },
+        { status: 400 }
+      );
+    }
+
     // Update gathering
     const gathering = await prisma.gathering.update({
       where: { id },
@@ -142,13 +152,28 @@ export async function PUT(
         organizerName: body.organizerName !== undefined ? (sanitizeString(body.organizerName) ?? body.organizerName) : undefined,
         organizerNameAr: body.organizerNameAr !== undefined ? (sanitizeString(body.organizerNameAr) ?? body.organizerNameAr) : undefined,
         status: body.status !== undefined ? body.status : undefined,
-        isPublic: body.isPublic !== undefined ? body.isPublic : undefined
+        isPublic: body.isPublic !== undefined ? body.isPublic : undefined,
+        audienceSegmentId: body.audienceSegmentId !== undefined ? (body.audienceSegmentId || null) : undefined
       },
       include: {
         attendees: true
       }
     });
 
+    void syncSearchDocument('gathering', id);
+
+    await audit({
+      action: 'GATHERING_UPDATE',
+      category: 'CONTENT',
+      description: `تحديث لقاء: ${gathering.titleAr}`,
+      request,
+      targetType: 'GATHERING',
+      targetId: id,
+      targetName: gathering.titleAr,
+      previousState: existing,
+      newState: body,
+    });
+
     return NextResponse.json({
       success: true,
       data: gathering,
@@ -188,6 +213,19 @@ export async function DELETE(
       where: { id }
     });
 
+    void syncSearchDocument('gathering', id);
+
+    await audit({
+      action: 'GATHERING_DELETE',
+      category: 'CONTENT',
+      description: `حذف لقاء: ${existing.titleAr}`,
+      request,
+      targetType: 'GATHERING',
+      targetId: id,
+      targetName: existing.titleAr,
+      previousState: existing,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'تم حذف اللقاء بنجاح'
@@ -259,6 +297,17 @@ export async function POST(
       }
     });
 
+    await audit({
+      action: 'GATHERING_RSVP',
+      category: 'CONTENT',
+      description: `تسجيل حضور ${attendee.name}: ${attendee.rsvpStatus}`,
+      request,
+      targetType: 'GATHERING',
+      targetId: id,
+      targetName: gathering.titleAr,
+      details: { attendeeId: attendee.id, rsvpStatus: attendee.rsvpStatus },
+    });
+
     return NextResponse.json({
       success: true,
       data: attendee,
@@ -0,0 +1,15 @@
+import { withApi } from '@/lib/api';
+import { getAttendeeByToken, renderGatheringPass } from '@/lib/services/gatherings';
+
+// GET /api/gatherings/pass?t= - Check-in QR code for the attendee behind an RSVP link
+export const GET = withApi({ public: true, rateLimit: 'search' }, async ({ request }) => {
+  const { attendee } = await getAttendeeByToken('rsvp', request.nextUrl.searchParams.get('t'));
+  const svg = await renderGatheringPass(attendee);
+
+  return new Response(svg, {
+    headers: {
+      'Content-Type': 'image/svg+xml',
+      'Cache-Control': 'private, no-store',
+    },
+  });
+});
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { syncSearchDocument } from '@/lib/db/search';
 import { sanitizeString } from '@/lib/sanitize';
+import { audit } from '@/lib/services/audit';
+import { notifyGatheringInvitation } from '@/lib/services/notifications';
+import { getSegment, resolveAudience } from '@/lib/services/audience';
 
 // GET /api/gatherings - Get all gatherings with filters
 export async function GET(request: NextRequest) {
@@ -167,6 +171,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Invite only a saved audience segment's users when one is chosen
+    let invitedUserIds: string[] | undefined;
+    if (body.audienceSegmentId) {
+      const segment = await getSegment(body.audienceSegmentId);
+      if (!segment) {
+        return NextResponse.json(
+          { success: false, error: 'شريحة الجمهور غير موجودة / Audience segment not found' },
+          { status: 400 }
+        );
+      }
+      invitedUserIds = (await resolveAudience(segment.rules)).userIds;
+    }
+
     // Create gathering
     const gathering = await prisma.gathering.create({
       data: {
@@ -187,6 +204,7 @@ export async function POST(request: NextRequest) {
         organizerNameAr: sanitizeString(body.organizerNameAr) || 'المنظم',
         status: body.status || 'UPCOMING',
         isPublic: body.isPublic !== false,
+        audienceSegmentId: body.audienceSegmentId || null,
         createdBy: body.createdBy || null
       },
       include: {
@@ -194,6 +212,22 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    void syncSearchDocument('gathering', gathering.id);
+    if (gathering.isPublic && gathering.status === 'UPCOMING') {
+      void notifyGatheringInvitation(gathering, invitedUserIds);
+    }
+
+    await audit({
+      action: 'GATHERING_CREATE',
+      category: 'CONTENT',
+      description: `إنشاء لقاء: ${gathering.titleAr}`,
+      request,
+      targetType: 'GATHERING',
+      targetId: gathering.id,
+      targetName: gathering.titleAr,
+      details: { date: gathering.date, type: gathering.type, audienceSegmentId: gathering.audienceSegmentId },
+    });
+
     return NextResponse.json({
       success: true,
       data: gathering,
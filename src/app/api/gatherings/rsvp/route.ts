@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { gatheringRsvpSchema, type GatheringRsvpInput } from '@/lib/validations';
+import { sanitizeString } from '@/lib/sanitize';
+import {
+  getAttendeeByToken,
+  hasGatheringPass,
+  isAcceptingRsvps,
+  recordGatheringRsvp,
+  type GatheringAttendeeRecord,
+  type GatheringSummary,
+} from '@/lib/services/gatherings';
+import { audit } from '@/lib/services/audit';
+
+// What the RSVP page shows; the token stands in for signing in
+function rsvpView(attendee: GatheringAttendeeRecord, gathering: GatheringSummary, token: string) {
+  return {
+    attendee: {
+      name: attendee.name,
+      rsvpStatus: attendee.rsvpStatus,
+      rsvpNote: attendee.rsvpNote,
+      plusOnes: attendee.plusOnes,
+      dietaryNotes: attendee.dietaryNotes,
+      attended: attendee.attended,
+    },
+    gathering: {
+      title: gathering.title,
+      titleAr: gathering.titleAr,
+      descriptionAr: gathering.descriptionAr,
+      date: gathering.date.toISOString().split('T')[0],
+      time: gathering.time,
+      location: gathering.location,
+      locationAr: gathering.locationAr,
+      locationUrl: gathering.locationUrl,
+      status: gathering.status,
+    },
+    acceptingRsvps: isAcceptingRsvps(gathering),
+    // Only people who are coming get a pass for the door
+    passUrl: hasGatheringPass(attendee)
+      ? `/api/gatherings/pass?t=${encodeURIComponent(token)}`
+      : null,
+  };
+}
+
+// GET /api/gatherings/rsvp?t= - Invitation and current answer for a signed RSVP link
+export const GET = withApi({ public: true, rateLimit: 'search' }, async ({ request }) => {
+  const token = request.nextUrl.searchParams.get('t');
+  const { attendee, gathering } = await getAttendeeByToken('rsvp', token);
+  return NextResponse.json({ success: true, data: rsvpView(attendee, gathering, token!) });
+});
+
+// POST /api/gatherings/rsvp - Answer an invitation, with guests and dietary notes
+export const POST = withApi<GatheringRsvpInput, Record<string, string>, true>(
+  { public: true, rateLimit: 'search', schema: gatheringRsvpSchema },
+  async ({ request, body }) => {
+    const { attendee, gathering } = await getAttendeeByToken('rsvp', body.token);
+    const updated = await recordGatheringRsvp(attendee, gathering, {
+      rsvpStatus: body.rsvpStatus,
+      plusOnes: body.plusOnes,
+      dietaryNotes: body.dietaryNotes ? sanitizeString(body.dietaryNotes) : null,
+      rsvpNote: body.rsvpNote ? sanitizeString(body.rsvpNote) : null,
+    });
+
+    await audit({
+      action: 'GATHERING_RSVP',
+      category: 'CONTENT',
+      description: `تسجيل حضور ${updated.name}: ${updated.rsvpStatus}`,
+      userEmail: updated.email,
+      request,
+      targetType: 'GATHERING',
+      targetId: gathering.id,
+      targetName: gathering.titleAr,
+      details: { attendeeId: updated.id, rsvpStatus: updated.rsvpStatus, plusOnes: updated.plusOnes },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'RSVP recorded successfully',
+      messageAr: 'تم تسجيل ردك',
+      data: rsvpView(updated, gathering, body.token),
+    });
+  }
+);
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { StoredUser } from '@/lib/auth/db-store';
+import { withApi } from '@/lib/api';
+import { etagForKey, getBlobStore, isValidBlobKey, parseRangeHeader } from '@/lib/blob-store';
+import { getImageBlobMembers } from '@/lib/db/images';
+import { getVisibleMemberFields } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+
+// Keys are content-addressed, so a blob at a key never changes
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// Member photos depend on the viewer's privacy, so they are revalidated
+// (by ETag) on every use and never kept in shared caches
+const MEMBER_PHOTO_CACHE_CONTROL = 'private, no-cache';
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Image not found', errorAr: 'الصورة غير موجودة' },
+    { status: 404 }
+  );
+}
+
+async function serveBlob(
+  request: NextRequest,
+  user: StoredUser | null,
+  keyParts: string[],
+  includeBody: boolean
+) {
+  const key = keyParts.join('/');
+  if (!isValidBlobKey(key)) return notFound();
+
+  // A photo of a member is only served to viewers who may see their photo
+  const members = await getImageBlobMembers(key);
+  if (members.length > 0) {
+    const viewer = await getPrivacyViewer(user);
+    if (members.some(member => !getVisibleMemberFields(viewer, member).photo)) return notFound();
+  }
+
+  const etag = etagForKey(key);
+  const baseHeaders: Record<string, string> = {
+    ETag: etag,
+    'Cache-Control': members.length > 0 ? MEMBER_PHOTO_CACHE_CONTROL : CACHE_CONTROL,
+    'Accept-Ranges': 'bytes',
+    'X-Content-Type-Options': 'nosniff',
+  };
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers: baseHeaders });
+  }
+
+  const store = getBlobStore();
+  const metadata = await store.head(key);
+  if (!metadata) return notFound();
+
+  // Ignore the range when If-Range names another version
+  const rangeHeader = request.headers.get('range');
+  const ifRange = request.headers.get('if-range');
+  const range = rangeHeader && (!ifRange || ifRange === etag)
+    ? parseRangeHeader(rangeHeader, metadata.size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...baseHeaders, 'Content-Range': `bytes */${metadata.size}` },
+    });
+  }
+
+  const headers: Record<string, string> = {
+    ...baseHeaders,
+    'Content-Type': metadata.contentType,
+    'Content-Length': String(range ? range.end - range.start + 1 : metadata.size),
+  };
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.start}-${range.end}/${metadata.size}`;
+  }
+
+  if (!includeBody) {
+    return new NextResponse(null, { status: range ? 206 : 200, headers });
+  }
+
+  const blob = await store.get(key, range || undefined);
+  if (!blob) return notFound();
+
+  return new NextResponse(blob.body, { status: range ? 206 : 200, headers });
+}
+
+// GET /api/images/blob/[...key] - Stream an image from the blob store
+// Images are loaded by <img> tags, which send the session cookie only
+export const GET = withApi<undefined, { key: string[] }, true>(
+  { public: true, sessionCookie: true },
+  async ({ request, user, params }) => {
+    try {
+      return await serveBlob(request, user, params.key, true);
+    } catch (error) {
+      console.error('Error serving image blob:', error);
+      return NextResponse.json(
+        { error: 'Failed to load image', errorAr: 'فشل في تحميل الصورة' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const HEAD = withApi<undefined, { key: string[] }, true>(
+  { public: true, sessionCookie: true },
+  async ({ request, user, params }) => {
+    try {
+      return await serveBlob(request, user, params.key, false);
+    } catch (error) {
+      console.error('Error serving image blob:', error);
+      return new NextResponse(null, { status: 500 });
+    }
+  }
+);
@@ -41,7 +41,7 @@ export async function GET(request: NextRequest) {
 
       const photosWithThumbnails = result.photos.map(photo => ({
         id: photo.id,
-        thumbnailData: photo.thumbnailData || photo.imageData,
+        thumbnailUrl: photo.thumbnailUrl || photo.imageUrl,
         category: photo.category,
         title: photo.title,
         titleAr: photo.titleAr,
@@ -70,7 +70,7 @@ export async function GET(request: NextRequest) {
 
     const photosWithThumbnails = result.photos.map(photo => ({
       id: photo.id,
-      thumbnailData: photo.thumbnailData || photo.imageData,
+      thumbnailUrl: photo.thumbnailUrl || photo.imageUrl,
       category: photo.category,
       title: photo.title,
       titleAr: photo.titleAr,
@@ -20,7 +20,7 @@ export async function GET(
       return NextResponse.json({
         profilePhoto: profilePhoto ? {
           id: profilePhoto.id,
-          imageData: profilePhoto.imageData,
+          imageUrl: profilePhoto.imageUrl,
           title: profilePhoto.title,
           titleAr: profilePhoto.titleAr,
         } : null,
@@ -43,10 +43,10 @@ export async function GET(
     // Get profile photo
     const profilePhoto = await getProfilePhoto(memberId);
 
-    // Return photos without full image data in list (use thumbnails)
+    // Return thumbnails in the list; the full image is fetched per photo
     const photosWithThumbnails = result.photos.map(photo => ({
       id: photo.id,
-      thumbnailData: photo.thumbnailData || photo.imageData,
+      thumbnailUrl: photo.thumbnailUrl || photo.imageUrl,
       category: photo.category,
       title: photo.title,
       titleAr: photo.titleAr,
@@ -5,6 +5,9 @@ import {
   rejectPendingImage,
   deletePendingImage
 } from '@/lib/db/images';
+import { audit } from '@/lib/services/audit';
+import { notifyPhotoTagged } from '@/lib/services/notifications';
+import { safeJsonParseArray } from '@/lib/utils/safe-json';
 
 // GET - Get a specific pending image
 export async function GET(
@@ -86,6 +89,19 @@ export async function PATCH(
         );
       }
 
+      void notifyPhotoTagged(photo, safeJsonParseArray<string>(photo.taggedMemberIds), reviewedBy);
+
+      await audit({
+        action: 'IMAGE_APPROVE',
+        category: 'IMAGE',
+        description: `الموافقة على صورة: ${photo.title || id}`,
+        request,
+        targetType: 'PENDING_IMAGE',
+        targetId: id,
+        targetName: photo.title,
+        details: { photoId: photo.id, memberId: photo.memberId, reviewedBy, reviewedByName },
+      });
+
       return NextResponse.json({
         success: true,
         message: 'Image approved successfully',
@@ -117,6 +133,17 @@ export async function PATCH(
         );
       }
 
+      await audit({
+        action: 'IMAGE_REJECT',
+        category: 'IMAGE',
+        description: `رفض صورة: ${pendingImage.title || id}`,
+        request,
+        targetType: 'PENDING_IMAGE',
+        targetId: id,
+        targetName: pendingImage.title,
+        details: { reviewedBy, reviewedByName, reviewNotes },
+      });
+
       return NextResponse.json({
         success: true,
         message: 'Image rejected',
@@ -164,6 +191,16 @@ export async function DELETE(
       );
     }
 
+    await audit({
+      action: 'IMAGE_DELETE',
+      category: 'IMAGE',
+      description: `حذف صورة معلقة: ${pendingImage.title || id}`,
+      request,
+      targetType: 'PENDING_IMAGE',
+      targetId: id,
+      targetName: pendingImage.title,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Pending image deleted',
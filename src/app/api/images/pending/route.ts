@@ -74,13 +74,6 @@ export async function GET(request: NextRequest) {
       stats = await getImageStats();
     }
 
-    // Don't include full image data in list response (for performance)
-    const imagesWithoutData = result.images.map(img => ({
-      ...img,
-      imageData: img.thumbnailData || img.imageData.substring(0, 100) + '...', // Use thumbnail or truncate
-      thumbnailData: undefined,
-    }));
-
     logger.debug('Pending images fetched', {
       userId: user.id,
       count: result.images.length,
@@ -89,7 +82,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      images: imagesWithoutData,
+      images: result.images,
       total: result.total,
       limit,
       offset,
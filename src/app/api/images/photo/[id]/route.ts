@@ -5,6 +5,8 @@ import {
   deleteMemberPhoto,
   setProfilePhoto,
 } from '@/lib/db/images';
+import { audit } from '@/lib/services/audit';
+import { newlyTaggedMemberIds, notifyPhotoTagged } from '@/lib/services/notifications';
 
 // GET - Get a specific photo with full image data
 export async function GET(
@@ -114,6 +116,19 @@ export async function PATCH(
       );
     }
 
+    void notifyPhotoTagged(updated, newlyTaggedMemberIds(existing.taggedMemberIds, taggedMemberIds));
+
+    await audit({
+      action: 'IMAGE_UPDATE',
+      category: 'IMAGE',
+      description: `تحديث صورة: ${updated.title || id}`,
+      request,
+      targetType: 'PHOTO',
+      targetId: id,
+      targetName: updated.title,
+      newState: body,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Photo updated successfully',
@@ -161,6 +176,17 @@ export async function DELETE(
       );
     }
 
+    await audit({
+      action: 'IMAGE_DELETE',
+      category: 'IMAGE',
+      description: `حذف صورة: ${existing.title || id}`,
+      request,
+      targetType: 'PHOTO',
+      targetId: id,
+      targetName: existing.title,
+      details: { memberId: existing.memberId },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Photo deleted successfully',
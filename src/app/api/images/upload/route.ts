@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createPendingImage, type CreatePendingImageInput } from '@/lib/db/images';
+import { parseDataUrl, putBlob } from '@/lib/blob-store';
 import sharp from 'sharp';
+import { audit } from '@/lib/services/audit';
 
 // Replit-compatible: Lower memory limits for constrained environments
 const IS_REPLIT = !!process.env.REPL_ID;
@@ -77,19 +79,12 @@ function sanitizeString(str: string | undefined): string | undefined {
 }
 
 // Generate a thumbnail using Sharp
-async function generateThumbnail(imageData: string, maxSize: number = THUMBNAIL_MAX_SIZE): Promise<string> {
+async function generateThumbnail(
+  buffer: Buffer,
+  mimeType: string,
+  maxSize: number = THUMBNAIL_MAX_SIZE
+): Promise<{ data: Buffer; contentType: string } | null> {
   try {
-    // Extract base64 data and mime type from data URL
-    const match = imageData.match(/^data:(image\/[a-zA-Z]+);base64,(.+)$/);
-    if (!match) {
-      console.log('Invalid image data URL for thumbnail generation');
-      return imageData;
-    }
-
-    const mimeType = match[1];
-    const base64Data = match[2];
-    const buffer = Buffer.from(base64Data, 'base64');
-
     // Determine output format based on input type
     let outputFormat: 'jpeg' | 'png' | 'webp' = 'jpeg';
     if (mimeType === 'image/png') outputFormat = 'png';
@@ -124,13 +119,11 @@ async function generateThumbnail(imageData: string, maxSize: number = THUMBNAIL_
         .toBuffer();
     }
 
-    // Convert back to data URL
-    const thumbnailBase64 = thumbnailBuffer.toString('base64');
-    return `data:image/${outputFormat};base64,${thumbnailBase64}`;
+    return { data: thumbnailBuffer, contentType: `image/${outputFormat}` };
   } catch (error) {
     console.error('Thumbnail generation failed:', error);
-    // Return original image if thumbnail generation fails
-    return imageData;
+    // The original image is shown when there is no thumbnail
+    return null;
   }
 }
 
@@ -194,13 +187,18 @@ export async function POST(request: NextRequest) {
       uploadedBy = 'authenticated';
     }
 
-    // Generate thumbnail
-    const thumbnailData = await generateThumbnail(body.imageData);
+    // Store the image and its thumbnail in the blob store
+    const image = parseDataUrl(body.imageData)!;
+    const imageKey = await putBlob(image.data, image.contentType);
+    const thumbnail = await generateThumbnail(image.data, image.contentType);
+    const thumbnailKey = thumbnail ? await putBlob(thumbnail.data, thumbnail.contentType) : undefined;
 
     // Prepare the input
     const input: CreatePendingImageInput = {
-      imageData: body.imageData,
-      thumbnailData,
+      imageKey,
+      thumbnailKey,
+      mimeType: image.contentType,
+      fileSize: image.data.length,
       category: body.category || 'memory',
       title: sanitizeString(body.title),
       titleAr: sanitizeString(body.titleAr),
@@ -219,6 +217,17 @@ export async function POST(request: NextRequest) {
     // Create the pending image
     const pendingImage = await createPendingImage(input);
 
+    await audit({
+      action: 'IMAGE_UPLOAD',
+      category: 'IMAGE',
+      description: `رفع صورة بانتظار الموافقة: ${input.title || pendingImage.id}`,
+      request,
+      targetType: 'PENDING_IMAGE',
+      targetId: pendingImage.id,
+      targetName: input.title,
+      details: { category: input.category, memberId: input.memberId, fileSize: input.fileSize, uploadedByName: input.uploadedByName },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Image uploaded successfully and is pending approval',
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { syncSearchDocument } from '@/lib/db/search';
+import { withJournalMediaUrls } from '@/lib/db/images';
 import { safeJsonParseArray } from '@/lib/utils/safe-json';
 import { sanitizeString } from '@/lib/sanitize';
+import { audit } from '@/lib/services/audit';
+import { notifyJournalAboutAncestor } from '@/lib/services/notifications';
 
 // GET /api/journals/[id] - Get a single journal
 export async function GET(
@@ -36,6 +40,7 @@ export async function GET(
     // Parse JSON fields safely
     const parsedJournal = {
       ...journal,
+      mediaItems: journal.mediaItems.map(withJournalMediaUrls),
       tags: safeJsonParseArray<string>(journal.tags),
       relatedMemberIds: safeJsonParseArray<string>(journal.relatedMemberIds)
     };
@@ -111,10 +116,27 @@ export async function PUT(
       }
     });
 
+    void syncSearchDocument('journal', id);
+    if (journal.status === 'PUBLISHED' && existing.status !== 'PUBLISHED') {
+      void notifyJournalAboutAncestor(journal);
+    }
+
+    await audit({
+      action: 'JOURNAL_UPDATE',
+      category: 'CONTENT',
+      description: `تحديث قصة: ${journal.titleAr}`,
+      request,
+      targetType: 'JOURNAL',
+      targetId: id,
+      targetName: journal.titleAr,
+      details: { changedFields: Object.keys(updateData) },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
         ...journal,
+        mediaItems: journal.mediaItems.map(withJournalMediaUrls),
         tags: safeJsonParseArray<string>(journal.tags),
         relatedMemberIds: safeJsonParseArray<string>(journal.relatedMemberIds)
       },
@@ -154,6 +176,18 @@ export async function DELETE(
       where: { id }
     });
 
+    void syncSearchDocument('journal', id);
+
+    await audit({
+      action: 'JOURNAL_DELETE',
+      category: 'CONTENT',
+      description: `حذف قصة: ${existing.titleAr}`,
+      request,
+      targetType: 'JOURNAL',
+      targetId: id,
+      targetName: existing.titleAr,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'تم حذف القصة بنجاح'
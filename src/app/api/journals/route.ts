@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { syncSearchDocument } from '@/lib/db/search';
+import { withJournalMediaUrls } from '@/lib/db/images';
 import { safeJsonParseArray } from '@/lib/utils/safe-json';
 import { sanitizeString } from '@/lib/sanitize';
+import { audit } from '@/lib/services/audit';
+import { notifyJournalAboutAncestor } from '@/lib/services/notifications';
 
 // GET /api/journals - Get all journals with filters
 export async function GET(request: NextRequest) {
@@ -110,6 +114,7 @@ export async function GET(request: NextRequest) {
     // Parse JSON fields safely
     const parsedJournals = journals.map((journal: typeof journals[0]) => ({
       ...journal,
+      mediaItems: journal.mediaItems.map(withJournalMediaUrls),
       tags: safeJsonParseArray<string>(journal.tags),
       relatedMemberIds: safeJsonParseArray<string>(journal.relatedMemberIds)
     }));
@@ -191,6 +196,22 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    void syncSearchDocument('journal', journal.id);
+    if (journal.status === 'PUBLISHED') {
+      void notifyJournalAboutAncestor(journal);
+    }
+
+    await audit({
+      action: 'JOURNAL_CREATE',
+      category: 'CONTENT',
+      description: `إضافة قصة: ${journal.titleAr}`,
+      request,
+      targetType: 'JOURNAL',
+      targetId: journal.id,
+      targetName: journal.titleAr,
+      details: { category: journal.category },
+    });
+
     return NextResponse.json({
       success: true,
       data: {
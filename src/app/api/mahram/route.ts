@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getMahramContext } from '@/lib/db/mahram';
+import { checkMahram } from '@/lib/mahram';
+import { withApi } from '@/lib/api';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+
+// GET /api/mahram?a=P001&b=P057 - Check whether two members are mahram
+// Only IDs and the kinship rule are returned, never member details
+export const GET = withApi({ public: true, rateLimit: 'api' }, async ({ request }) => {
+  const searchParams = request.nextUrl.searchParams;
+  const a = searchParams.get('a');
+  const b = searchParams.get('b');
+
+  if (!a || !b) {
+    throw new ValidationError('Both a and b parameters are required');
+  }
+
+  const context = await getMahramContext();
+  if (!context.members.some(m => m.id === a) || !context.members.some(m => m.id === b)) {
+    throw new NotFoundError('Member not found', 'member');
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: checkMahram(a, b, context),
+  });
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getFamilyMap } from '@/lib/services/gazetteer';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { getLineageBranches } from '@/lib/services/timeline';
+import { familyMapQuerySchema, formatZodErrors } from '@/lib/validations';
+
+// GET /api/map - Where members live, grouped by gazetteer city, and birthplace -> city migrations
+// ?lineageBranchId=P002&subBranchId=P010&generation=4
+export const GET = withApi({ public: true }, async ({ request, user }) => {
+  try {
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = familyMapQuerySchema.safeParse(params);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const viewer = await getPrivacyViewer(user);
+    const [map, branches] = await Promise.all([
+      getFamilyMap(viewer, validation.data),
+      getLineageBranches(),
+    ]);
+
+    return NextResponse.json({ success: true, data: { ...map, branches } });
+  } catch (error) {
+    console.error('Error building family map:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build family map', errorAr: 'فشل في تحميل الخريطة' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { getMemberByIdFromDb } from '@/lib/db';
+import { withApi } from '@/lib/api';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { deleteMarriage, getMarriageById, updateMarriage } from '@/lib/db/marriages';
+import { updateMarriageSchema } from '@/lib/validations';
+import { audit } from '@/lib/services/audit';
+import { hasHiddenSpouse, redactMarriage } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+
+// GET /api/marriages/[id] - Get a single marriage
+export const GET = withApi<undefined, { id: string }, true>(
+  { public: true, rateLimit: 'api' },
+  async ({ user, params }) => {
+    const marriage = await getMarriageById(params.id);
+    const viewer = await getPrivacyViewer(user);
+    if (!marriage || hasHiddenSpouse(marriage, viewer)) {
+      throw new NotFoundError('Marriage not found', 'marriage', params.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: redactMarriage(marriage, viewer),
+    });
+  }
+);
+
+// Branch of the husband, which scopes edits by branch leaders
+async function getMarriageBranch(id: string): Promise<string | null | undefined> {
+  const marriage = await getMarriageById(id);
+  return marriage ? (await getMemberByIdFromDb(marriage.husbandId))?.branch : null;
+}
+
+// PUT /api/marriages/[id] - Update a marriage (e.g. record divorce or widowhood)
+export const PUT = withApi(
+  {
+    permission: 'edit_member',
+    schema: updateMarriageSchema,
+    branchScope: ({ params }: { params: { id: string } }) => getMarriageBranch(params.id),
+  },
+  async ({ request, user, body: data, params }) => {
+    const existing = await getMarriageById(params.id);
+    if (!existing) {
+      throw new NotFoundError('Marriage not found', 'marriage', params.id);
+    }
+
+    if (data.wifeId) {
+      const wife = await getMemberByIdFromDb(data.wifeId);
+      if (!wife) {
+        throw new NotFoundError('Wife member not found', 'member', data.wifeId);
+      }
+      if (wife.gender !== 'Female') {
+        throw new ValidationError('Wife should be female', { wifeId: 'Wife should be female' });
+      }
+    }
+
+    const startYear = data.startYear !== undefined ? data.startYear : existing.startYear;
+    const endYear = data.endYear !== undefined ? data.endYear : existing.endYear;
+    if (startYear && endYear && endYear < startYear) {
+      throw new ValidationError('End year must be after start year', { endYear: 'End year must be after start year' });
+    }
+
+    const marriage = await updateMarriage(params.id, data);
+
+    await audit({
+      action: 'MARRIAGE_UPDATE',
+      category: 'MEMBER',
+      description: 'تحديث بيانات زواج',
+      user,
+      request,
+      targetType: 'MARRIAGE',
+      targetId: params.id,
+      previousState: { ...existing },
+      newState: data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: marriage,
+      message: 'Marriage updated successfully',
+    });
+  }
+);
+
+// DELETE /api/marriages/[id] - Delete a marriage record
+export const DELETE = withApi(
+  {
+    permission: 'edit_member',
+    branchScope: ({ params }: { params: { id: string } }) => getMarriageBranch(params.id),
+  },
+  async ({ request, user, params }) => {
+    const deleted = await deleteMarriage(params.id);
+    if (!deleted) {
+      throw new NotFoundError('Marriage not found', 'marriage', params.id);
+    }
+
+    await audit({
+      action: 'MARRIAGE_DELETE',
+      category: 'MEMBER',
+      description: 'حذف بيانات زواج',
+      user,
+      request,
+      targetType: 'MARRIAGE',
+      targetId: params.id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Marriage deleted successfully',
+    });
+  }
+);
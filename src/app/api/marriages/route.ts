@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { getMemberByIdFromDb } from '@/lib/db';
+import { withApi } from '@/lib/api';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { createMarriage, getAllMarriages, getMarriagesForMember } from '@/lib/db/marriages';
+import { createMarriageSchema } from '@/lib/validations';
+import { audit } from '@/lib/services/audit';
+import { getVisibleMemberFields, hasHiddenSpouse, redactMarriage } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+
+// GET /api/marriages - Get all marriages, or those of one member (?memberId=P001)
+export const GET = withApi({ public: true, rateLimit: 'api' }, async ({ request, user }) => {
+  const memberId = request.nextUrl.searchParams.get('memberId');
+  const viewer = await getPrivacyViewer(user);
+
+  if (memberId) {
+    const member = await getMemberByIdFromDb(memberId);
+    if (!member || getVisibleMemberFields(viewer, member).placeholder) {
+      throw new NotFoundError('Member not found', 'member', memberId);
+    }
+  }
+
+  const marriages = memberId
+    ? await getMarriagesForMember(memberId)
+    : await getAllMarriages();
+
+  // Marriages of members hidden from the viewer are left out
+  return NextResponse.json({
+    success: true,
+    data: marriages
+      .filter(marriage => !hasHiddenSpouse(marriage, viewer))
+      .map(marriage => redactMarriage(marriage, viewer)),
+  });
+});
+
+// POST /api/marriages - Record a new marriage
+export const POST = withApi(
+  {
+    permission: 'edit_member',
+    schema: createMarriageSchema,
+    branchScope: async ({ body }) => (await getMemberByIdFromDb(body.husbandId))?.branch,
+  },
+  async ({ request, user, body: data }) => {
+    // Validate husband exists and is male
+    const husband = await getMemberByIdFromDb(data.husbandId);
+    if (!husband) {
+      throw new NotFoundError('Husband member not found', 'member', data.husbandId);
+    }
+    if (husband.gender !== 'Male') {
+      throw new ValidationError('Husband should be male', { husbandId: 'Husband should be male' });
+    }
+
+    // Validate wife exists and is female if she is in the tree
+    if (data.wifeId) {
+      const wife = await getMemberByIdFromDb(data.wifeId);
+      if (!wife) {
+        throw new NotFoundError('Wife member not found', 'member', data.wifeId);
+      }
+      if (wife.gender !== 'Female') {
+        throw new ValidationError('Wife should be female', { wifeId: 'Wife should be female' });
+      }
+    }
+
+    // Check for duplicate marriage record
+    const existing = await getMarriagesForMember(data.husbandId);
+    const duplicate = existing.find(m =>
+      m.husbandId === data.husbandId && (
+        (data.wifeId && m.wifeId === data.wifeId) ||
+        (!data.wifeId && data.externalWifeName && m.externalWifeName === data.externalWifeName)
+      )
+    );
+    if (duplicate) {
+      throw new ConflictError('This marriage already exists', { marriageId: duplicate.id });
+    }
+
+    const marriage = await createMarriage({
+      ...data,
+      wifeOrder: data.wifeOrder ?? existing.filter(m => m.husbandId === data.husbandId).length + 1,
+      createdBy: user.id,
+    });
+
+    await audit({
+      action: 'MARRIAGE_CREATE',
+      category: 'MEMBER',
+      description: `إضافة زواج لـ ${husband.firstName}`,
+      user,
+      request,
+      targetType: 'MARRIAGE',
+      targetId: marriage.id,
+      targetName: husband.firstName,
+      newState: data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: marriage,
+      message: 'Marriage created successfully',
+    });
+  }
+);
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { findSessionByToken, findUserById, logActivity } from '@/lib/auth/store';
+import { findSessionByToken, findUserById } from '@/lib/auth/db-store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
 import { getMemberByIdFromDb } from '@/lib/db';
+import { serializeMemberPrivacyOverrides } from '@/lib/services/privacy';
+import { notifyUpdateRequestApproved } from '@/lib/services/notifications';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -166,6 +169,11 @@ export async function PATCH(
         newStatus = 'REJECTED';
       }
 
+      // Privacy profiles are proposed as an object and stored as JSON
+      if ('privacyOverrides' in fieldsToApply) {
+        fieldsToApply.privacyOverrides = serializeMemberPrivacyOverrides(fieldsToApply.privacyOverrides);
+      }
+
       // Apply changes to member if approved
       if (Object.keys(fieldsToApply).length > 0) {
         await prisma.familyMember.update({
@@ -187,8 +195,12 @@ export async function PATCH(
         },
       });
 
+      if (newStatus !== 'REJECTED') {
+        void notifyUpdateRequestApproved(updatedRequest);
+      }
+
       // Log activity
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -1,14 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getMemberByIdFromDb, getChildrenFromDb } from '@/lib/db';
 import { MilkFamily, MilkSibling } from '@/lib/types';
+import { withApi } from '@/lib/api';
+import { redactMember } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
 
 // GET /api/members/[id]/breastfeeding - Get breastfeeding relationships for a member
 // Returns milk families with milk mother, milk father, and milk siblings
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withApi<undefined, { id: string }, true>({ public: true }, async ({ user, params }) => {
   try {
     const memberId = params.id;
     const member = await getMemberByIdFromDb(memberId);
@@ -32,8 +32,12 @@ export async function GET(
 
     // Build milk families with milk siblings
     const milkFamilies: MilkFamily[] = [];
+    const viewer = await getPrivacyViewer(user);
 
     for (const relationship of relationships) {
+      const nurse = relationship.nurse && redactMember(relationship.nurse, viewer);
+      const milkFather = relationship.milkFather && redactMember(relationship.milkFather, viewer);
+
       // Get milk siblings (children of the nurse, excluding the current person)
       let milkSiblings: MilkSibling[] = [];
 
@@ -91,58 +95,58 @@ export async function GET(
           updatedAt: relationship.updatedAt,
           createdBy: relationship.createdBy,
         },
-        milkMother: relationship.nurse
+        milkMother: nurse
           ? {
-              id: relationship.nurse.id,
-              firstName: relationship.nurse.firstName,
-              fatherName: relationship.nurse.fatherName,
-              grandfatherName: relationship.nurse.grandfatherName,
-              greatGrandfatherName: relationship.nurse.greatGrandfatherName,
-              familyName: relationship.nurse.familyName,
-              fatherId: relationship.nurse.fatherId,
-              gender: relationship.nurse.gender as 'Male' | 'Female',
-              birthYear: relationship.nurse.birthYear,
-              sonsCount: relationship.nurse.sonsCount,
-              daughtersCount: relationship.nurse.daughtersCount,
-              generation: relationship.nurse.generation,
-              branch: relationship.nurse.branch,
-              fullNameAr: relationship.nurse.fullNameAr,
-              fullNameEn: relationship.nurse.fullNameEn,
-              phone: relationship.nurse.phone,
-              city: relationship.nurse.city,
-              status: relationship.nurse.status,
-              photoUrl: relationship.nurse.photoUrl,
-              biography: relationship.nurse.biography,
-              occupation: relationship.nurse.occupation,
-              email: relationship.nurse.email,
+              id: nurse.id,
+              firstName: nurse.firstName,
+              fatherName: nurse.fatherName,
+              grandfatherName: nurse.grandfatherName,
+              greatGrandfatherName: nurse.greatGrandfatherName,
+              familyName: nurse.familyName,
+              fatherId: nurse.fatherId,
+              gender: nurse.gender as 'Male' | 'Female',
+              birthYear: nurse.birthYear,
+              sonsCount: nurse.sonsCount,
+              daughtersCount: nurse.daughtersCount,
+              generation: nurse.generation,
+              branch: nurse.branch,
+              fullNameAr: nurse.fullNameAr,
+              fullNameEn: nurse.fullNameEn,
+              phone: nurse.phone,
+              city: nurse.city,
+              status: nurse.status,
+              photoUrl: nurse.photoUrl,
+              biography: nurse.biography,
+              occupation: nurse.occupation,
+              email: nurse.email,
             }
           : relationship.externalNurseName
             ? { name: relationship.externalNurseName, isExternal: true as const }
             : null,
-        milkFather: relationship.milkFather
+        milkFather: milkFather
           ? {
-              id: relationship.milkFather.id,
-              firstName: relationship.milkFather.firstName,
-              fatherName: relationship.milkFather.fatherName,
-              grandfatherName: relationship.milkFather.grandfatherName,
-              greatGrandfatherName: relationship.milkFather.greatGrandfatherName,
-              familyName: relationship.milkFather.familyName,
-              fatherId: relationship.milkFather.fatherId,
-              gender: relationship.milkFather.gender as 'Male' | 'Female',
-              birthYear: relationship.milkFather.birthYear,
-              sonsCount: relationship.milkFather.sonsCount,
-              daughtersCount: relationship.milkFather.daughtersCount,
-              generation: relationship.milkFather.generation,
-              branch: relationship.milkFather.branch,
-              fullNameAr: relationship.milkFather.fullNameAr,
-              fullNameEn: relationship.milkFather.fullNameEn,
-              phone: relationship.milkFather.phone,
-              city: relationship.milkFather.city,
-              status: relationship.milkFather.status,
-              photoUrl: relationship.milkFather.photoUrl,
-              biography: relationship.milkFather.biography,
-              occupation: relationship.milkFather.occupation,
-              email: relationship.milkFather.email,
+              id: milkFather.id,
+              firstName: milkFather.firstName,
+              fatherName: milkFather.fatherName,
+              grandfatherName: milkFather.grandfatherName,
+              greatGrandfatherName: milkFather.greatGrandfatherName,
+              familyName: milkFather.familyName,
+              fatherId: milkFather.fatherId,
+              gender: milkFather.gender as 'Male' | 'Female',
+              birthYear: milkFather.birthYear,
+              sonsCount: milkFather.sonsCount,
+              daughtersCount: milkFather.daughtersCount,
+              generation: milkFather.generation,
+              branch: milkFather.branch,
+              fullNameAr: milkFather.fullNameAr,
+              fullNameEn: milkFather.fullNameEn,
+              phone: milkFather.phone,
+              city: milkFather.city,
+              status: milkFather.status,
+              photoUrl: milkFather.photoUrl,
+              biography: milkFather.biography,
+              occupation: milkFather.occupation,
+              email: milkFather.email,
             }
           : relationship.externalMilkFatherName
             ? { name: relationship.externalMilkFatherName, isExternal: true as const }
@@ -202,4 +206,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getMahramContext } from '@/lib/db/mahram';
+import { findMahrams } from '@/lib/mahram';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+import { getVisibleMemberFields, redactMember } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+
+// GET /api/members/[id]/mahrams - List all recorded mahrams of a member
+export const GET = withApi<undefined, { id: string }, true>(
+  { public: true, rateLimit: 'api' },
+  async ({ user, params }) => {
+    const context = await getMahramContext();
+    const member = context.members.find(m => m.id === params.id);
+    const viewer = await getPrivacyViewer(user);
+
+    // Members hidden from the viewer only appear as placeholders in the tree
+    if (!member || getVisibleMemberFields(viewer, member).placeholder) {
+      throw new NotFoundError('Member not found', 'member', params.id);
+    }
+
+    // Hidden mahrams are left out, as in search results
+    const memberMap = new Map(context.members.map(m => [m.id, m]));
+    const mahrams = findMahrams(member.id, context).flatMap(mahram => {
+      const other = redactMember(memberMap.get(mahram.memberId)!, viewer);
+      if (other.isPlaceholder) return [];
+      return [{
+        ...mahram,
+        firstName: other.firstName,
+        fullNameAr: other.fullNameAr,
+        gender: other.gender,
+      }];
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: mahrams,
+    });
+  }
+);
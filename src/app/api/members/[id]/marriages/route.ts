@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getAllMembersFromDb, getChildrenFromDb, getChildrenOfMotherFromDb, getMemberByIdFromDb } from '@/lib/db';
+import { buildMotherChildrenGroups, getMarriagesForMember } from '@/lib/db/marriages';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+import { getVisibleMemberFields, redactMarriage, redactMembers } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+
+// GET /api/members/[id]/marriages - Get spouses of a member and their children grouped by mother
+export const GET = withApi<undefined, { id: string }, true>(
+  { public: true, rateLimit: 'api' },
+  async ({ user, params }) => {
+    const member = await getMemberByIdFromDb(params.id);
+    const viewer = await getPrivacyViewer(user);
+
+    // Members hidden from the viewer only appear as placeholders in the tree
+    if (!member || getVisibleMemberFields(viewer, member).placeholder) {
+      throw new NotFoundError('Member not found', 'member', params.id);
+    }
+
+    const marriages = (await getMarriagesForMember(member.id)).map(marriage => redactMarriage(marriage, viewer));
+
+    if (member.gender === 'Female') {
+      // A mother's children are already a single group
+      const children = redactMembers(await getChildrenOfMotherFromDb(member.id), viewer);
+      return NextResponse.json({
+        success: true,
+        data: { marriages, children, childrenByMother: [] },
+      });
+    }
+
+    const [children, allMembers] = await Promise.all([
+      getChildrenFromDb(member.id),
+      getAllMembersFromDb(),
+    ]);
+    const ownMarriages = marriages.filter(m => m.husbandId === member.id);
+
+    // Mother names are resolved from redacted members, so hidden mothers stay hidden
+    const visibleChildren = redactMembers(children, viewer);
+    const motherIds = new Set(children.map(child => child.motherId).filter(Boolean));
+    const mothers = redactMembers(allMembers.filter(m => motherIds.has(m.id)), viewer);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        marriages,
+        children: visibleChildren,
+        childrenByMother: buildMotherChildrenGroups(visibleChildren, ownMarriages, mothers),
+      },
+    });
+  }
+);
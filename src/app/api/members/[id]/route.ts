@@ -1,26 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMemberByIdFromDb, getChildrenFromDb, updateMemberInDb, deleteMemberFromDb } from '@/lib/db';
+import { getMemberByIdFromDb, getChildrenFromDb, updateMemberInDb, deleteMemberFromDb, ConcurrencyError } from '@/lib/db';
+import { syncSearchDocument } from '@/lib/db/search';
+import { assertValidMother } from '@/lib/db/marriages';
 import { FamilyMember } from '@/lib/types';
 import { prisma } from '@/lib/prisma';
 import { randomUUID } from 'crypto';
-import { findSessionByToken, findUserById } from '@/lib/auth/store';
-import { getPermissionsForRole } from '@/lib/auth/permissions';
-
-// Helper to get authenticated user from request
-async function getAuthUser(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  const token = authHeader?.replace('Bearer ', '');
-
-  if (!token) return null;
-
-  const session = await findSessionByToken(token);
-  if (!session) return null;
-
-  const user = await findUserById(session.userId);
-  if (!user || user.status !== 'ACTIVE') return null;
-
-  return user;
-}
+import { withApi } from '@/lib/api';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { withDualCalendarYears } from '@/lib/hijri';
+import { parseBroadcastChannels, serializeBroadcastChannels } from '@/lib/broadcast-channels';
+import { audit } from '@/lib/services/audit';
+import { redactMember, redactMembers } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { memberVersionConflict, publishMemberEvent } from '@/lib/services/collaboration';
+import { memberUpdateBodySchema, type MemberUpdateBody } from '@/lib/validations';
 
 // Helper to record change history
 async function recordChangeHistory(
@@ -36,9 +29,11 @@ async function recordChangeHistory(
   // Detect changed fields
   const fieldsToTrack: (keyof FamilyMember)[] = [
     'firstName', 'fatherName', 'grandfatherName', 'greatGrandfatherName',
-    'familyName', 'fatherId', 'gender', 'birthYear', 'deathYear',
+    'familyName', 'fatherId', 'motherId', 'externalMotherName', 'gender', 'birthYear', 'deathYear',
+    'birthYearHijri', 'deathYearHijri', 'birthYearPrecision', 'deathYearPrecision',
     'generation', 'branch', 'fullNameAr', 'fullNameEn', 'phone',
-    'city', 'status', 'photoUrl', 'biography', 'occupation', 'email'
+    'city', 'birthPlace', 'status', 'photoUrl', 'biography', 'occupation', 'email',
+    'broadcastChannels'
   ];
 
   for (const field of fieldsToTrack) {
@@ -78,157 +73,109 @@ async function recordChangeHistory(
 }
 
 // GET /api/members/[id] - Get single member with children
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    // SECURITY: Require authentication
-    const user = await getAuthUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { success: false, message: 'Unauthorized', messageAr: 'غير مصرح' },
-        { status: 401 }
-      );
-    }
-
-    const permissions = getPermissionsForRole(user.role);
-    if (!permissions.view_member_profiles) {
-      return NextResponse.json(
-        { success: false, message: 'No permission to view members', messageAr: 'لا تملك صلاحية عرض الأعضاء' },
-        { status: 403 }
-      );
-    }
-
+export const GET = withApi(
+  { permission: 'view_member_profiles' },
+  async ({ user, params }) => {
     const member = await getMemberByIdFromDb(params.id);
-
     if (!member) {
-      return NextResponse.json(
-        { success: false, error: 'Member not found' },
-        { status: 404 }
-      );
+      throw new NotFoundError('Member not found', 'member', params.id);
     }
 
     const children = await getChildrenFromDb(member.id);
+    const viewer = await getPrivacyViewer(user);
 
     return NextResponse.json({
       success: true,
       data: {
-        ...member,
-        children,
+        ...redactMember(member, viewer),
+        children: redactMembers(children, viewer),
       }
     });
-  } catch (error) {
-    console.error('Error fetching member:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to fetch member' },
-      { status: 500 }
-    );
   }
-}
+);
 
-// PUT /api/members/[id] - Update a member
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    // SECURITY: Require authentication and edit permission
-    const user = await getAuthUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { success: false, message: 'Unauthorized', messageAr: 'غير مصرح' },
-        { status: 401 }
-      );
-    }
+// Branch of the member being edited, which scopes branch leaders
+async function getMemberBranch(id: string): Promise<string | null | undefined> {
+  return (await getMemberByIdFromDb(id))?.branch;
+}
 
-    const permissions = getPermissionsForRole(user.role);
-    if (!permissions.edit_member) {
-      return NextResponse.json(
-        { success: false, message: 'No permission to edit members', messageAr: 'لا تملك صلاحية تعديل الأعضاء' },
-        { status: 403 }
-      );
-    }
+// Branches an update acts on: the member's current branch and, when the
+// update moves the member (new branch or new father), the branch it moves to
+async function getUpdateBranches(id: string, body: MemberUpdateBody): Promise<(string | null | undefined)[]> {
+  const branch = await getMemberBranch(id);
+  if (body.branch !== undefined) return [branch, body.branch];
+  if (body.fatherId) return [branch, (await getMemberByIdFromDb(body.fatherId))?.branch];
+  return [branch];
+}
 
+// PUT /api/members/[id] - Update a member
+export const PUT = withApi<MemberUpdateBody, { id: string }>(
+  {
+    permission: 'edit_member',
+    schema: memberUpdateBodySchema,
+    branchScope: ({ params, body }) => getUpdateBranches(params.id, body),
+  },
+  async ({ request, user, params, body }) => {
     const member = await getMemberByIdFromDb(params.id);
-
     if (!member) {
-      return NextResponse.json(
-        { success: false, error: 'Member not found' },
-        { status: 404 }
-      );
-    }
-
-    const body = await request.json();
-
-    // Validate gender if provided
-    if (body.gender && !['Male', 'Female'].includes(body.gender)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid gender value' },
-        { status: 400 }
-      );
-    }
-
-    // Validate status if provided
-    if (body.status && !['Living', 'Deceased'].includes(body.status)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid status value' },
-        { status: 400 }
-      );
+      throw new NotFoundError('Member not found', 'member', params.id);
     }
 
     // Validate fatherId doesn't create cycle
     if (body.fatherId) {
       const isDescendant = await checkIsDescendantAsync(body.fatherId, params.id);
       if (isDescendant) {
-        return NextResponse.json(
-          { success: false, error: 'Cannot set a descendant as parent (would create cycle)' },
-          { status: 400 }
-        );
+        throw new ValidationError('Cannot set a descendant as parent (would create cycle)', { fatherId: 'cycle' });
       }
 
-      // Validate father exists
+      // Validate father exists and is male
       const father = await getMemberByIdFromDb(body.fatherId);
       if (!father) {
-        return NextResponse.json(
-          { success: false, error: 'Father not found' },
-          { status: 400 }
-        );
+        throw new ValidationError('Father not found', { fatherId: 'Father not found' });
       }
-
-      // Validate father is male
       if (father.gender !== 'Male') {
-        return NextResponse.json(
-          { success: false, error: 'Father must be male' },
-          { status: 400 }
-        );
+        throw new ValidationError('Father must be male', { fatherId: 'Father must be male' });
       }
     }
 
-    // Create updated member data
-    const updateData = {
+    // Validate mother exists and is female
+    if (body.motherId) {
+      await assertValidMother(body.motherId, params.id);
+    }
+
+    // Create updated member data, keeping Gregorian and Hijri years in step
+    const updateData = withDualCalendarYears({
       firstName: body.firstName,
       fatherName: body.fatherName,
       grandfatherName: body.grandfatherName,
       greatGrandfatherName: body.greatGrandfatherName,
       familyName: body.familyName,
       fatherId: body.fatherId,
+      motherId: body.motherId,
+      externalMotherName: body.externalMotherName,
       gender: body.gender,
       birthYear: body.birthYear,
       deathYear: body.deathYear,
+      birthYearHijri: body.birthYearHijri,
+      deathYearHijri: body.deathYearHijri,
+      birthYearPrecision: body.birthYearPrecision,
+      deathYearPrecision: body.deathYearPrecision,
       generation: body.generation,
       branch: body.branch,
-      lineage: body.lineage,
       fullNameAr: body.fullNameAr,
       fullNameEn: body.fullNameEn,
       phone: body.phone,
       city: body.city,
+      birthPlace: body.birthPlace,
       status: body.status,
       photoUrl: body.photoUrl,
       biography: body.biography,
       occupation: body.occupation,
       email: body.email,
-    };
+      broadcastChannels: body.broadcastChannels === undefined
+        ? undefined
+        : serializeBroadcastChannels(parseBroadcastChannels(body.broadcastChannels)) || null,
+    });
 
     // Remove undefined values
     Object.keys(updateData).forEach(key => {
@@ -240,8 +187,18 @@ export async function PUT(
     // Store original member data for change tracking
     const originalMember = { ...member };
 
-    // Update in database
-    const updatedMember = await updateMemberInDb(params.id, updateData);
+    // Update in database. Clients that send the version they loaded get a
+    // 409 with the current record if someone else saved in between.
+    const expectedVersion = body.version;
+    let updatedMember: FamilyMember | null;
+    try {
+      updatedMember = await updateMemberInDb(params.id, updateData, expectedVersion);
+    } catch (error) {
+      if (error instanceof ConcurrencyError && expectedVersion !== undefined) {
+        throw await memberVersionConflict(params.id, expectedVersion);
+      }
+      throw error;
+    }
     if (!updatedMember) {
       return NextResponse.json(
         { success: false, error: 'Failed to update member' },
@@ -249,59 +206,51 @@ export async function PUT(
       );
     }
 
+    void syncSearchDocument('member', params.id);
+    publishMemberEvent(updateData.fatherId !== undefined && updateData.fatherId !== member.fatherId
+      ? 'member.moved'
+      : 'member.updated', updatedMember, user);
+
     // Record change history (non-blocking)
     recordChangeHistory(
       params.id,
       originalMember,
       updateData,
-      body.changedBy || 'system',
-      body.changedByName || 'النظام'
+      user.id,
+      user.nameArabic
     ).catch(err => console.log('Change history recording failed:', err));
 
+    await audit({
+      action: 'MEMBER_UPDATE',
+      category: 'MEMBER',
+      description: `تحديث عضو: ${updatedMember.fullNameAr || updatedMember.firstName}`,
+      user,
+      request,
+      targetType: 'MEMBER',
+      targetId: params.id,
+      targetName: updatedMember.fullNameAr || updatedMember.firstName,
+      previousState: { ...originalMember },
+      newState: { ...updateData },
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedMember,
       message: 'Member updated successfully'
     });
-  } catch (error) {
-    console.error('Error updating member:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to update member' },
-      { status: 500 }
-    );
   }
-}
+);
 
 // DELETE /api/members/[id] - Delete a member
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    // SECURITY: Require authentication and delete permission
-    const user = await getAuthUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { success: false, message: 'Unauthorized', messageAr: 'غير مصرح' },
-        { status: 401 }
-      );
-    }
-
-    const permissions = getPermissionsForRole(user.role);
-    if (!permissions.delete_member) {
-      return NextResponse.json(
-        { success: false, message: 'No permission to delete members', messageAr: 'لا تملك صلاحية حذف الأعضاء' },
-        { status: 403 }
-      );
-    }
-
+export const DELETE = withApi(
+  {
+    permission: 'delete_member',
+    branchScope: ({ params }: { params: { id: string } }) => getMemberBranch(params.id),
+  },
+  async ({ request, user, params }) => {
     const member = await getMemberByIdFromDb(params.id);
-
     if (!member) {
-      return NextResponse.json(
-        { success: false, error: 'Member not found' },
-        { status: 404 }
-      );
+      throw new NotFoundError('Member not found', 'member', params.id);
     }
 
     // Check if member has children
@@ -326,18 +275,27 @@ export async function DELETE(
       );
     }
 
+    void syncSearchDocument('member', params.id);
+    publishMemberEvent('member.deleted', member, user);
+
+    await audit({
+      action: 'MEMBER_DELETE',
+      category: 'MEMBER',
+      description: `حذف عضو: ${member.fullNameAr || member.firstName}`,
+      user,
+      request,
+      targetType: 'MEMBER',
+      targetId: params.id,
+      targetName: member.fullNameAr || member.firstName,
+      previousState: { ...member },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Member deleted successfully'
     });
-  } catch (error) {
-    console.error('Error deleting member:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to delete member' },
-      { status: 500 }
-    );
   }
-}
+);
 
 // Helper function to check if a member is a descendant (async, uses database)
 async function checkIsDescendantAsync(potentialDescendantId: string, ancestorId: string): Promise<boolean> {
@@ -7,6 +7,8 @@ import {
   NameInput,
   MatchResult,
 } from '@/lib/matching';
+import { redactMembers } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
 
 /**
  * POST /api/members/match
@@ -58,8 +60,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get all members from database
-    const members = await getAllMembersFromDb();
+    // Get all members from database, redacted as for an anonymous visitor
+    const members = redactMembers(await getAllMembersFromDb(), await getPrivacyViewer(null));
 
     if (!members || members.length === 0) {
       return NextResponse.json(
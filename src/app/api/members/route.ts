@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { FamilyMember } from '@/lib/types';
 import { getAllMembersFromDb, getNextIdFromDb, memberExistsInDb, createMemberInDb } from '@/lib/db';
+import { syncSearchDocument } from '@/lib/db/search';
+import { assertValidMother } from '@/lib/db/marriages';
 import { sanitizeString } from '@/lib/sanitize';
+import { parseDatePrecision } from '@/lib/hijri';
 import { findSessionByToken, findUserById } from '@/lib/auth/store';
 import { getPermissionsForRole } from '@/lib/auth/permissions';
+import { audit } from '@/lib/services/audit';
+import { withApi } from '@/lib/api';
+import { ValidationError } from '@/lib/errors';
+import { redactMembers } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { publishMemberEvent } from '@/lib/services/collaboration';
+import { notifyNewMemberInBranch } from '@/lib/services/notifications';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -30,8 +40,8 @@ function normalizeGender(gender: string): 'Male' | 'Female' | null {
 }
 
 // GET /api/members - Get all members with optional filters
-// PUBLIC: Allow read access for viewing the family tree
-export async function GET(request: NextRequest) {
+// PUBLIC: Allow read access for viewing the family tree, redacted for the viewer
+export const GET = withApi({ public: true }, async ({ request, user }) => {
   try {
     const searchParams = request.nextUrl.searchParams;
     const gender = searchParams.get('gender');
@@ -76,6 +86,9 @@ export async function GET(request: NextRequest) {
       members = members.filter(m => m.status === status);
     }
 
+    // Redact before searching so hidden fields cannot be probed
+    members = redactMembers(members, await getPrivacyViewer(user));
+
     if (search) {
       const query = search.toLowerCase();
       members = members.filter(m =>
@@ -110,7 +123,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/members - Create a new member
 export async function POST(request: NextRequest) {
@@ -167,6 +180,22 @@ export async function POST(request: NextRequest) {
     // Generate ID if not provided
     const id = body.id || await getNextIdFromDb();
 
+    // Validate mother exists, is female and is not the member
+    const motherId = sanitizeString(body.motherId);
+    if (motherId) {
+      try {
+        await assertValidMother(motherId, id);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return NextResponse.json(
+            { success: false, error: error.message, details: error.details },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
     // Create member object with sanitized inputs
     const newMember: FamilyMember = {
       id,
@@ -176,8 +205,15 @@ export async function POST(request: NextRequest) {
       greatGrandfatherName: sanitizeString(body.greatGrandfatherName),
       familyName: sanitizeString(body.familyName) || 'آل شايع',
       fatherId: sanitizeString(body.fatherId),
+      motherId,
+      externalMotherName: sanitizeString(body.externalMotherName),
       gender: sanitizedGender,
       birthYear: body.birthYear || null,
+      deathYear: body.deathYear || null,
+      birthYearHijri: body.birthYearHijri || null,
+      deathYearHijri: body.deathYearHijri || null,
+      birthYearPrecision: parseDatePrecision(body.birthYearPrecision),
+      deathYearPrecision: parseDatePrecision(body.deathYearPrecision),
       sonsCount: body.sonsCount || 0,
       daughtersCount: body.daughtersCount || 0,
       generation: body.generation || 1,
@@ -186,6 +222,7 @@ export async function POST(request: NextRequest) {
       fullNameEn: sanitizeString(body.fullNameEn),
       phone: sanitizeString(body.phone),
       city: sanitizeString(body.city),
+      birthPlace: sanitizeString(body.birthPlace),
       status: body.status === 'Deceased' ? 'Deceased' : 'Living',
       photoUrl: sanitizeString(body.photoUrl),
       biography: sanitizeString(body.biography),
@@ -204,6 +241,22 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
+    void syncSearchDocument('member', createdMember.id);
+    publishMemberEvent('member.created', createdMember, user);
+    void notifyNewMemberInBranch(createdMember, user);
+
+    await audit({
+      action: 'MEMBER_CREATE',
+      category: 'MEMBER',
+      description: `إضافة عضو: ${createdMember.fullNameAr || createdMember.firstName}`,
+      user,
+      request,
+      targetType: 'MEMBER',
+      targetId: createdMember.id,
+      targetName: createdMember.fullNameAr || createdMember.firstName,
+      newState: { ...newMember },
+    });
+
     return NextResponse.json({
       success: true,
       data: createdMember,
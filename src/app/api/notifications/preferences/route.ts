@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/lib/services/notifications';
+import { notificationPreferencesSchema } from '@/lib/validations';
+
+// GET /api/notifications/preferences - Channels for every notification type
+export const GET = withApi({}, async ({ user }) => {
+  const preferences = await getNotificationPreferences(user.id);
+  return NextResponse.json({ success: true, data: preferences });
+});
+
+// PUT /api/notifications/preferences - Save channels for the given types
+export const PUT = withApi({ schema: notificationPreferencesSchema }, async ({ user, body }) => {
+  const preferences = await updateNotificationPreferences(user.id, body);
+  return NextResponse.json({
+    success: true,
+    message: 'Notification preferences saved',
+    messageAr: 'تم حفظ تفضيلات الإشعارات',
+    data: preferences,
+  });
+});
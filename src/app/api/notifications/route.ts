@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { listInbox, markNotificationsRead } from '@/lib/services/notifications';
+import { markNotificationsReadSchema } from '@/lib/validations';
+
+const MAX_PAGE_SIZE = 50;
+
+// GET /api/notifications - The user's inbox, newest first
+// ?page=&limit=&unread=true
+export const GET = withApi({}, async ({ request, user }) => {
+  const { searchParams } = request.nextUrl;
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20));
+
+  const { notifications, total, unreadCount } = await listInbox(user.id, {
+    page,
+    limit,
+    unreadOnly: searchParams.get('unread') === 'true',
+  });
+
+  return NextResponse.json({
+    success: true,
+    data: notifications,
+    unreadCount,
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  });
+});
+
+// PATCH /api/notifications - Mark notifications read: { ids } or { all: true }
+export const PATCH = withApi({ schema: markNotificationsReadSchema }, async ({ user, body }) => {
+  const updated = await markNotificationsRead(user.id, body.all ? 'all' : body.ids!);
+  return NextResponse.json({ success: true, data: { updated } });
+});
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getLineageBranches } from '@/lib/services/timeline';
+
+// GET /api/poster/branches - Gen 2 branches and their sub-branches, to pick a poster root
+export const GET = withApi({ permission: 'view_family_tree' }, async () => {
+  const branches = await getLineageBranches();
+  return NextResponse.json({ success: true, data: branches });
+});
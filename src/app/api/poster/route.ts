@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { AuthorizationError } from '@/lib/errors';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { buildPoster, renderPosterPdf } from '@/lib/services/poster';
+import { formatZodErrors, posterQuerySchema } from '@/lib/validations';
+
+// GET /api/poster - Printable wall chart of the tree or one branch
+// ?rootId=P002&layout=FAN&paper=A0&orientation=landscape&generations=6&format=pdf&tile=A3&dpi=150
+// SVG is the whole poster; PDF is one page, or one page per tile when `tile` is set.
+// PDFs are rasterized on the server, so only admins may render them.
+export const GET = withApi(
+  { permission: 'view_family_tree', rateLimit: 'api' },
+  async ({ request, user }) => {
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = posterQuerySchema.safeParse(params);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, ...options } = validation.data;
+    if (format === 'pdf' && user.role !== 'SUPER_ADMIN' && user.role !== 'ADMIN') {
+      throw new AuthorizationError('Only admins can download the poster as PDF');
+    }
+
+    const viewer = await getPrivacyViewer(user);
+    const poster = await buildPoster(viewer, options);
+    const filename = `alshaye_poster_${options.rootId || 'family'}_${options.layout.toLowerCase()}_${options.paper}`;
+
+    if (format === 'pdf') {
+      const pdf = await renderPosterPdf(poster, options);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}.pdf"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return new NextResponse(poster.svg, {
+      headers: {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        'Content-Disposition': `inline; filename="${encodeURIComponent(filename)}.svg"`,
+        'Cache-Control': 'no-store',
+        'X-Poster-Members': String(poster.memberCount),
+      },
+    });
+  }
+);
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { getMemberByIdFromDb } from '@/lib/db';
+import { getClientIp } from '@/lib/rate-limit';
+import {
+  getMemberPrivacyOverrides,
+  getPendingPrivacyRequest,
+  submitPrivacyRequest,
+} from '@/lib/services/privacy';
+import { audit } from '@/lib/services/audit';
+import { memberPrivacyOverridesSchema } from '@/lib/validations';
+
+function requireLinkedMember(linkedMemberId: string | null | undefined): string {
+  if (!linkedMemberId) {
+    throw new ValidationError('No family member is linked to this account');
+  }
+  return linkedMemberId;
+}
+
+// GET /api/profile/privacy - Privacy profile of the user's own member record,
+// and the change waiting for review if there is one
+export const GET = withApi({}, async ({ user }) => {
+  const memberId = requireLinkedMember(user.linkedMemberId);
+  const overrides = await getMemberPrivacyOverrides(memberId);
+  if (!overrides) {
+    throw new NotFoundError('Member not found', 'member', memberId);
+  }
+
+  const pending = await getPendingPrivacyRequest(memberId, user.id);
+  return NextResponse.json({ success: true, data: { overrides, pending } });
+});
+
+// PUT /api/profile/privacy - Submit a new privacy profile for review
+export const PUT = withApi(
+  { schema: memberPrivacyOverridesSchema, rateLimit: 'api' },
+  async ({ request, user, body }) => {
+    const memberId = requireLinkedMember(user.linkedMemberId);
+    const member = await getMemberByIdFromDb(memberId);
+    if (!member) {
+      throw new NotFoundError('Member not found', 'member', memberId);
+    }
+
+    const pending = await submitPrivacyRequest(user, member, body, getClientIp(request));
+
+    await audit({
+      action: 'SUBMIT_UPDATE_REQUEST',
+      category: 'MEMBER',
+      description: 'طلب تحديث خصوصية الملف الشخصي',
+      user,
+      request,
+      targetType: 'MEMBER',
+      targetId: memberId,
+      targetName: member.fullNameAr || member.firstName,
+      details: { requestId: pending.id, proposedFields: ['privacyOverrides'] },
+      newState: { ...pending.overrides },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Privacy preferences submitted. They will apply once reviewed.',
+      messageAr: 'تم إرسال تفضيلات الخصوصية وستطبق بعد مراجعتها',
+      data: { pending },
+    });
+  }
+);
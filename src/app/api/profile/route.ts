@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { findSessionByToken, findUserById, updateUser } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 
 // Helper to get authenticated user from request
 async function getAuthUser(request: NextRequest) {
@@ -160,6 +161,21 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    await audit({
+      action: 'PROFILE_UPDATE',
+      category: 'USER',
+      description: 'تحديث الملف الشخصي',
+      user,
+      request,
+      targetType: 'USER',
+      targetId: user.id,
+      targetName: user.nameArabic,
+      details: {
+        userFields: Object.keys(userUpdates),
+        linkedMemberId: updatedMember ? user.linkedMemberId : null,
+      },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Profile updated successfully',
@@ -232,6 +248,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await audit({
+      action: 'PROFILE_PHOTO_UPDATE',
+      category: 'USER',
+      description: 'تحديث صورة الملف الشخصي',
+      user,
+      request,
+      targetType: 'USER',
+      targetId: user.id,
+      targetName: user.nameArabic,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Photo uploaded successfully',
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getAllMembersFromDb } from '@/lib/db';
+import { calculateRelationship } from '@/lib/relationship';
+import { withApi } from '@/lib/api';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { redactMember } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+
+// GET /api/relationship?from=P001&to=P057 - How member "to" is related to member "from"
+// PUBLIC: Same read access as the family tree
+export const GET = withApi({ public: true, rateLimit: 'api' }, async ({ request, user }) => {
+  const searchParams = request.nextUrl.searchParams;
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  if (!from || !to) {
+    throw new ValidationError('Both from and to parameters are required');
+  }
+
+  const members = await getAllMembersFromDb();
+  const fromMember = members.find(m => m.id === from);
+  const toMember = members.find(m => m.id === to);
+
+  if (!fromMember || !toMember) {
+    throw new NotFoundError('Member not found', 'member');
+  }
+
+  const relationship = calculateRelationship(from, to, members);
+
+  if (!relationship) {
+    return NextResponse.json({
+      success: true,
+      data: null,
+      message: 'No common paternal ancestor found',
+      messageAr: 'لا يوجد جد مشترك من جهة الأب',
+    });
+  }
+
+  const memberMap = new Map(members.map(m => [m.id, m]));
+  const viewer = await getPrivacyViewer(user);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      ...relationship,
+      pathMembers: relationship.path.map(id => {
+        const member = redactMember(memberMap.get(id)!, viewer);
+        return {
+          id: member.id,
+          firstName: member.firstName,
+          fullNameAr: member.fullNameAr,
+          gender: member.gender,
+          generation: member.generation,
+          isPlaceholder: member.isPlaceholder,
+        };
+      }),
+    },
+  });
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser } from '@/lib/api';
+import { hasPermission } from '@/lib/auth/permissions';
+import { UserRole } from '@/lib/auth/types';
+import { rebuildSearchIndex } from '@/lib/db/search';
+import { audit } from '@/lib/services/audit';
+
+// POST /api/search/reindex - Rebuild the search index from scratch
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized', messageAr: 'غير مصرح' },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(user.role as UserRole, 'import_data')) {
+      return NextResponse.json(
+        { success: false, message: 'No permission to rebuild the search index', messageAr: 'لا تملك صلاحية إعادة بناء فهرس البحث' },
+        { status: 403 }
+      );
+    }
+
+    const indexed = await rebuildSearchIndex();
+
+    await audit({
+      action: 'SEARCH_REINDEX',
+      category: 'SYSTEM',
+      description: `إعادة بناء فهرس البحث (${indexed} مستند)`,
+      user,
+      request,
+      details: { indexed },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { indexed },
+      message: `Indexed ${indexed} documents`,
+    });
+  } catch (error) {
+    console.error('Failed to rebuild search index:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to rebuild search index' },
+      { status: 500 }
+    );
+  }
+}
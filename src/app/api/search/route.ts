@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { searchIndex } from '@/lib/db/search';
+import { withApi } from '@/lib/api';
+import {
+  canViewerSeeCities,
+  canViewerSeeMemberDetails,
+  getPrivacyViewer,
+  redactSearchHits,
+} from '@/lib/services/privacy';
+import { formatZodErrors, fullTextSearchSchema } from '@/lib/validations';
+
+// GET /api/search - Arabic-aware search across members, journals, photos and gatherings
+// ?q=محمد&types=member,journal&generation=3&branch=&city=&status=&page=1&limit=20
+// Member hits are redacted for the viewer; the city filter and facet are
+// only offered to viewers who may see cities, and occupations and
+// biographies are only matched for viewers who may see them.
+export const GET = withApi({ public: true }, async ({ request, user }) => {
+  try {
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = fullTextSearchSchema.safeParse(params);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const viewer = await getPrivacyViewer(user);
+    const showCities = canViewerSeeCities(viewer);
+
+    const { q, types, generation, branch, city, status, page, limit } = validation.data;
+    const result = await searchIndex({
+      q,
+      types,
+      filters: { generation, branch, city: showCities ? city : undefined, status },
+      matchPrivateText: canViewerSeeMemberDetails(viewer),
+      page,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results: await redactSearchHits(result.hits, viewer),
+        facets: showCities ? result.facets : { ...result.facets, city: [] },
+      },
+      pagination: {
+        page,
+        limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Search failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'Search failed' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,26 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getAllMembersFromDb } from '@/lib/db';
-import { findSessionByToken, findUserById } from '@/lib/auth/store';
-
-// Helper to get auth user from request
-async function getAuthUser(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  const token = authHeader?.replace('Bearer ', '');
-
-  if (!token) return null;
-
-  const session = await findSessionByToken(token);
-  if (!session) return null;
-
-  const user = await findUserById(session.userId);
-  if (!user || user.status !== 'ACTIVE') return null;
-
-  return user;
-}
+import { searchIndex, suggestFacetValues } from '@/lib/db/search';
+import { withApi } from '@/lib/api';
+import {
+  canViewerSeeCities,
+  canViewerSeeMemberDetails,
+  getPrivacyViewer,
+  redactSearchHits,
+} from '@/lib/services/privacy';
 
 // GET /api/search/suggestions - Get search suggestions based on query
-export async function GET(request: NextRequest) {
+export const GET = withApi({ public: true, rateLimit: 'search' }, async ({ request, user }) => {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q')?.toLowerCase() || '';
@@ -43,51 +33,46 @@ export async function GET(request: NextRequest) {
       id?: string;
     }> = [];
 
-    // Get member name suggestions from database
-    const members = await getAllMembersFromDb();
-    const matchingMembers = members
-      .filter(m =>
-        m.firstName.toLowerCase().includes(query) ||
-        m.fullNameAr?.toLowerCase().includes(query) ||
-        m.id.toLowerCase().includes(query)
-      )
-      .slice(0, limit);
-
-    for (const member of matchingMembers) {
+    const viewer = await getPrivacyViewer(user);
+
+    // Get member name suggestions from the search index, redacted like search results
+    const { hits } = await searchIndex({
+      q: query,
+      types: ['member'],
+      matchPrivateText: canViewerSeeMemberDetails(viewer),
+      limit,
+    });
+
+    for (const hit of await redactSearchHits(hits, viewer)) {
       suggestions.push({
         type: 'member',
-        value: member.firstName,
-        label: `${member.firstName} - ${member.fullNameAr || ''}`,
-        labelAr: member.fullNameAr || member.firstName,
-        id: member.id,
+        value: hit.title.split(' ')[0],
+        label: hit.title,
+        labelAr: hit.title,
+        id: hit.id,
       });
     }
 
-    // Get unique branches
-    const branches = [...new Set(members.map(m => m.branch).filter(Boolean))];
-    const matchingBranches = branches
-      .filter(b => b?.toLowerCase().includes(query))
-      .slice(0, 3);
+    // Get matching branches
+    const matchingBranches = await suggestFacetValues('branch', query);
 
     for (const branch of matchingBranches) {
       suggestions.push({
         type: 'branch',
-        value: branch!,
+        value: branch,
         label: `Branch: ${branch}`,
         labelAr: `الفرع: ${branch}`,
       });
     }
 
-    // Get unique cities
-    const cities = [...new Set(members.map(m => m.city).filter(Boolean))];
-    const matchingCities = cities
-      .filter(c => c?.toLowerCase().includes(query))
-      .slice(0, 3);
+    // Get matching cities, for viewers the privacy settings show cities to
+    const showCities = canViewerSeeCities(viewer);
+    const matchingCities = showCities ? await suggestFacetValues('city', query) : [];
 
     for (const city of matchingCities) {
       suggestions.push({
         type: 'city',
-        value: city!,
+        value: city,
         label: `City: ${city}`,
         labelAr: `المدينة: ${city}`,
       });
@@ -97,7 +82,6 @@ export async function GET(request: NextRequest) {
     let recentSearches: string[] = [];
     if (includeHistory) {
       try {
-        const user = await getAuthUser(request);
         const sessionId = searchParams.get('sessionId');
 
         if (user || sessionId) {
@@ -146,4 +130,4 @@ export async function GET(request: NextRequest) {
       recentSearches: [],
     });
   }
-}
+});
@@ -8,8 +8,8 @@ import {
   updatePrivacySettings,
   getPermissionMatrix,
   updatePermissionMatrix,
-  logActivity,
 } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole, validatePermissionMatrix } from '@/lib/auth/permissions';
 import { PermissionMatrix } from '@/lib/auth/types';
 
@@ -165,7 +165,7 @@ export async function PATCH(request: NextRequest) {
       const previousSettings = await getSiteSettings();
       const updated = await updateSiteSettings(data);
 
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -198,7 +198,7 @@ export async function PATCH(request: NextRequest) {
       const previousSettings = await getPrivacySettings();
       const updated = await updatePrivacySettings(data);
 
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -245,7 +245,7 @@ export async function PATCH(request: NextRequest) {
       const previousMatrix = await getPermissionMatrix();
       const updated = await updatePermissionMatrix(data as PermissionMatrix);
 
-      await logActivity({
+      await audit({
         userId: user.id,
         userEmail: user.email,
         userName: user.nameArabic,
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { getTimelineEvents } from '@/lib/services/timeline';
+import { getThisDayInHistory } from '@/lib/timeline';
+
+const MAX_ITEMS = 10;
+
+// GET /api/timeline/on-this-day - "This day in family history" for the dashboard
+export const GET = withApi({ public: true }, async ({ user }) => {
+  try {
+    const viewer = await getPrivacyViewer(user);
+    const today = new Date();
+    const items = getThisDayInHistory(await getTimelineEvents(viewer), today);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        date: today.toISOString(),
+        items: items.slice(0, MAX_ITEMS),
+        total: items.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error loading this day in family history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load this day in family history' },
+      { status: 500 }
+    );
+  }
+});
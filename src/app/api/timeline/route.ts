@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { getLineageBranches, getTimelineEvents } from '@/lib/services/timeline';
+import { filterTimelineByYears, groupTimelineByDecade, sortTimelineEvents } from '@/lib/timeline';
+import { formatZodErrors, timelineQuerySchema } from '@/lib/validations';
+
+// GET /api/timeline - Births, deaths, gatherings, journals and photos in one chronology
+// ?lineageBranchId=P002&subBranchId=P010&kinds=BIRTH,JOURNAL&from=1950&to=1999&decade=1980&order=asc
+// `decades` counts every event matching the branch and kind filters so the
+// page can zoom out; `events` is narrowed to the era or decade.
+export const GET = withApi({ public: true }, async ({ request, user }) => {
+  try {
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = timelineQuerySchema.safeParse(params);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: formatZodErrors(validation.error),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { lineageBranchId, subBranchId, kinds, from, to, decade, order } = validation.data;
+    const viewer = await getPrivacyViewer(user);
+    const [events, branches] = await Promise.all([
+      getTimelineEvents(viewer, { lineageBranchId, subBranchId, kinds }),
+      getLineageBranches(),
+    ]);
+
+    const range = decade != null ? { from: decade, to: decade + 9 } : { from, to };
+    const inRange = filterTimelineByYears(events, range.from, range.to);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        events: sortTimelineEvents(inRange, order),
+        decades: groupTimelineByDecade(events),
+        branches,
+      },
+    });
+  } catch (error) {
+    console.error('Error building timeline:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build timeline', errorAr: 'فشل في تحميل الخط الزمني' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,83 @@
+import { withApi } from '@/lib/api';
+import { formatStreamMessage, type PresenceMode, type TreeStreamMessage } from '@/lib/collaboration';
+import { redactMember } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import {
+  joinPresence,
+  leavePresence,
+  listPresence,
+  subscribe,
+  type CollaborationMessage,
+} from '@/lib/services/collaboration';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing idle streams
+const HEARTBEAT_MS = 25_000;
+
+// GET /api/tree/events - Server-sent member events and presence
+// ?branch=&mode=viewing|editing
+// Members are redacted for the viewer. Signed-in viewers join the presence
+// list and receive it; anonymous viewers only receive member events.
+export const GET = withApi({ public: true, sessionCookie: true }, async ({ request, user }) => {
+  const viewer = await getPrivacyViewer(user);
+  const { searchParams } = request.nextUrl;
+  const mode: PresenceMode = searchParams.get('mode') === 'editing' ? 'editing' : 'viewing';
+
+  const presence = user
+    ? joinPresence(user, { mode, branch: searchParams.get('branch') })
+    : null;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (message: TreeStreamMessage | string) => {
+        try {
+          controller.enqueue(encoder.encode(typeof message === 'string' ? message : formatStreamMessage(message)));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribe((message: CollaborationMessage) => {
+        if (message.kind === 'presence') {
+          if (user) send({ event: 'presence', data: message.presence });
+          return;
+        }
+        const { event } = message;
+        send({
+          event: 'member',
+          data: { ...event, member: event.member && redactMember(event.member, viewer) },
+        });
+      });
+
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        if (presence) leavePresence(presence.connectionId);
+        cleanup = () => {};
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      send({
+        event: 'ready',
+        data: { connectionId: presence?.connectionId || '', presence: user ? listPresence() : [] },
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+});
@@ -1,25 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
-import { findSessionByToken, findUserById } from '@/lib/auth/store';
-import { getMemberByIdFromDb, getChildrenFromDb } from '@/lib/db';
+import { withApi } from '@/lib/api';
+import { DatabaseError, NotFoundError, ValidationError } from '@/lib/errors';
+import { batchMoveSchema, moveMemberSchema } from '@/lib/validations';
+import { getMemberByIdFromDb, getChildrenFromDb, ConcurrencyError } from '@/lib/db';
 import { randomUUID } from 'crypto';
-
-// Helper to get auth user from request
-async function getAuthUser(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization');
-  const token = authHeader?.replace('Bearer ', '');
-
-  if (!token) return null;
-
-  const session = await findSessionByToken(token);
-  if (!session) return null;
-
-  const user = await findUserById(session.userId);
-  if (!user || user.status !== 'ACTIVE') return null;
-
-  return user;
-}
+import { audit } from '@/lib/services/audit';
+import { memberVersionConflict, publishStoredMember } from '@/lib/services/collaboration';
+import type { StoredUser } from '@/lib/auth/db-store';
 
 // Helper to check if a member is a descendant of another (async, uses database)
 async function isDescendantAsync(potentialDescendantId: string, ancestorId: string): Promise<boolean> {
@@ -77,97 +66,83 @@ async function updateDescendantGenerations(
   return updated;
 }
 
-// POST /api/tree/move - Move a member to a new parent (drag-and-drop)
-export async function POST(request: NextRequest) {
-  try {
-    const user = await getAuthUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { success: false, message: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+// Tell live viewers about everything a move changed: the member, both
+// parents' child counts and, when generations shifted, the descendants
+async function publishMove(
+  memberId: string,
+  parentIds: (string | null | undefined)[],
+  user: StoredUser,
+  includeDescendants: boolean
+): Promise<void> {
+  await publishStoredMember('member.moved', memberId, user);
+  for (const parentId of new Set(parentIds.filter((id): id is string => !!id))) {
+    await publishStoredMember('member.updated', parentId, user);
+  }
+  if (!includeDescendants) return;
 
-    // Check permission - need edit_members permission
-    if (user.role !== 'SUPER_ADMIN' && user.role !== 'ADMIN' && user.role !== 'BRANCH_LEADER') {
-      return NextResponse.json(
-        { success: false, message: 'No permission to move members' },
-        { status: 403 }
-      );
+  const queue = [memberId];
+  while (queue.length > 0) {
+    for (const child of await getChildrenFromDb(queue.shift()!)) {
+      await publishStoredMember('member.updated', child.id, user);
+      queue.push(child.id);
     }
+  }
+}
 
-    const body = await request.json();
-    const { memberId, newParentId, updateGenerations = true } = body;
-
-    // Validate memberId
-    if (!memberId) {
-      return NextResponse.json(
-        { success: false, message: 'memberId is required' },
-        { status: 400 }
-      );
-    }
+// POST /api/tree/move - Move a member to a new parent (drag-and-drop)
+// Send expectedVersion to get a 409 with the current record when the member
+// changed since it was loaded
+export const POST = withApi(
+  {
+    permission: 'edit_member',
+    schema: moveMemberSchema,
+    branchScope: async ({ body }) => (await getMemberByIdFromDb(body.memberId))?.branch,
+  },
+  async ({ request, user, body }) => {
+    const { memberId, newParentId, updateGenerations, expectedVersion } = body;
 
     // Get the member to move from database
     const member = await getMemberByIdFromDb(memberId);
     if (!member) {
-      return NextResponse.json(
-        { success: false, message: 'Member not found' },
-        { status: 404 }
-      );
-    }
-
-    // Check for branch leader scope
-    if (user.role === 'BRANCH_LEADER' && user.assignedBranch) {
-      if (member.branch !== user.assignedBranch) {
-        return NextResponse.json(
-          { success: false, message: 'You can only move members in your branch' },
-          { status: 403 }
-        );
-      }
+      throw new NotFoundError('Member not found', 'member', memberId);
     }
 
     // Validate new parent if provided
     if (newParentId) {
       const newParent = await getMemberByIdFromDb(newParentId);
       if (!newParent) {
-        return NextResponse.json(
-          { success: false, message: 'New parent not found' },
-          { status: 404 }
-        );
+        throw new NotFoundError('New parent not found', 'member', newParentId);
       }
 
       // Check that new parent is male (father)
       if (newParent.gender !== 'Male') {
-        return NextResponse.json(
-          { success: false, message: 'Parent must be male (father)' },
-          { status: 400 }
-        );
+        throw new ValidationError('Parent must be male (father)', { newParentId: 'Parent must be male (father)' });
       }
 
       // Check for circular reference - can't set a descendant as parent
       if (await isDescendantAsync(newParentId, memberId)) {
-        return NextResponse.json(
-          { success: false, message: 'Cannot set a descendant as parent (would create cycle)' },
-          { status: 400 }
-        );
-      }
-
-      // Can't set self as parent
-      if (newParentId === memberId) {
-        return NextResponse.json(
-          { success: false, message: 'Cannot set self as parent' },
-          { status: 400 }
-        );
+        throw new ValidationError('Cannot set a descendant as parent (would create cycle)', { newParentId: 'cycle' });
       }
     }
 
     const oldParentId = member.fatherId;
-    const newGeneration = await calculateGenerationAsync(newParentId);
+    const newGeneration = await calculateGenerationAsync(newParentId ?? null);
     const batchId = randomUUID();
 
     try {
       // Perform the move in a transaction
       const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // 0. Optimistic locking check
+        if (expectedVersion !== undefined) {
+          const current = await tx.familyMember.findUnique({
+            where: { id: memberId },
+            select: { version: true },
+          });
+          if (current && current.version !== expectedVersion) {
+            throw new ConcurrencyError(`Member ${memberId} was modified by another user`);
+          }
+        }
+
         // 1. Record the change in history
         await tx.changeHistory.create({
           data: {
@@ -187,6 +162,7 @@ export async function POST(request: NextRequest) {
         // 2. Update the member's parent
         const updateData: Record<string, unknown> = {
           fatherId: newParentId || null,
+          version: { increment: 1 },
         };
 
         // 3. Update generation if requested
@@ -250,6 +226,22 @@ export async function POST(request: NextRequest) {
         };
       });
 
+      await publishMove(memberId, [oldParentId, newParentId], user, result.descendantsUpdated > 0);
+
+      await audit({
+        action: 'MEMBER_MOVE',
+        category: 'MEMBER',
+        description: `نقل ${member.firstName} في الشجرة`,
+        user,
+        request,
+        targetType: 'MEMBER',
+        targetId: memberId,
+        targetName: member.fullNameAr || member.firstName,
+        previousState: { fatherId: oldParentId, generation: member.generation },
+        newState: { fatherId: newParentId, generation: newGeneration },
+        details: { descendantsUpdated: result.descendantsUpdated },
+      });
+
       return NextResponse.json({
         success: true,
         message: 'Member moved successfully',
@@ -265,49 +257,25 @@ export async function POST(request: NextRequest) {
         batchId,
       });
     } catch (dbError) {
+      if (dbError instanceof ConcurrencyError && expectedVersion !== undefined) {
+        throw await memberVersionConflict(memberId, expectedVersion);
+      }
       console.error('Database error during move:', dbError);
-      return NextResponse.json(
-        { success: false, message: 'Failed to move member' },
-        { status: 500 }
-      );
+      throw new DatabaseError('Failed to move member');
     }
-  } catch (error) {
-    console.error('Error moving member:', error);
-    return NextResponse.json(
-      { success: false, message: 'Failed to move member' },
-      { status: 500 }
-    );
   }
-}
+);
 
 // PUT /api/tree/move - Batch move multiple members
-export async function PUT(request: NextRequest) {
-  try {
-    const user = await getAuthUser(request);
-    if (!user || (user.role !== 'SUPER_ADMIN' && user.role !== 'ADMIN')) {
-      return NextResponse.json(
-        { success: false, message: 'Unauthorized - Admin required' },
-        { status: 401 }
-      );
-    }
-
-    const body = await request.json();
+export const PUT = withApi(
+  {
+    roles: ['SUPER_ADMIN', 'ADMIN'],
+    permission: 'edit_member',
+    schema: batchMoveSchema,
+  },
+  async ({ request, user, body }) => {
     const { moves } = body;
 
-    if (!Array.isArray(moves) || moves.length === 0) {
-      return NextResponse.json(
-        { success: false, message: 'moves array is required' },
-        { status: 400 }
-      );
-    }
-
-    if (moves.length > 50) {
-      return NextResponse.json(
-        { success: false, message: 'Maximum 50 moves per batch' },
-        { status: 400 }
-      );
-    }
-
     const batchId = randomUUID();
     const results: Array<{ memberId: string; success: boolean; error?: string }> = [];
 
@@ -349,7 +317,9 @@ export async function PUT(request: NextRequest) {
     }
 
     // Execute valid moves
-    const validMoves = moves.filter((_, i) => results[i].success);
+    const validMoves = moves
+      .filter((_, i) => results[i].success)
+      .map(move => ({ memberId: move.memberId!, newParentId: move.newParentId ?? null }));
 
     if (validMoves.length > 0) {
       await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
@@ -377,15 +347,30 @@ export async function PUT(request: NextRequest) {
             data: {
               fatherId: move.newParentId || null,
               generation: newGeneration,
+              version: { increment: 1 },
             },
           });
         }
       });
+
+      for (const move of validMoves) {
+        await publishStoredMember('member.moved', move.memberId, user);
+      }
     }
 
     const successCount = results.filter(r => r.success).length;
     const failCount = results.filter(r => !r.success).length;
 
+    await audit({
+      action: 'MEMBER_MOVE_BATCH',
+      category: 'MEMBER',
+      description: `نقل جماعي في الشجرة: ${successCount} نجحت، ${failCount} فشلت`,
+      user,
+      request,
+      details: { batchId, results },
+      success: failCount === 0,
+    });
+
     return NextResponse.json({
       success: true,
       message: `Batch move completed: ${successCount} succeeded, ${failCount} failed`,
@@ -393,11 +378,5 @@ export async function PUT(request: NextRequest) {
       results,
       batchId,
     });
-  } catch (error) {
-    console.error('Error in batch move:', error);
-    return NextResponse.json(
-      { success: false, message: 'Failed to execute batch move' },
-      { status: 500 }
-    );
   }
-}
+);
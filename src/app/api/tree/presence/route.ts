@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { NotFoundError } from '@/lib/errors';
+import { updatePresence } from '@/lib/services/collaboration';
+import { treePresenceSchema } from '@/lib/validations';
+
+// POST /api/tree/presence - Update what the user's event stream connection
+// is doing: viewing or editing, which branch, which member
+export const POST = withApi({ schema: treePresenceSchema }, async ({ user, body }) => {
+  const { connectionId, ...changes } = body;
+  if (!updatePresence(connectionId, user.id, changes)) {
+    throw new NotFoundError('Connection not found', 'connection', connectionId);
+  }
+
+  return NextResponse.json({ success: true });
+});
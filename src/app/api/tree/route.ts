@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
 import { buildFamilyTreeFromDb } from '@/lib/db';
+import { withApi } from '@/lib/api';
+import { redactMemberTree } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
 
-export async function GET() {
+export const GET = withApi({ public: true }, async ({ user }) => {
   try {
     const tree = await buildFamilyTreeFromDb();
-    return NextResponse.json(tree);
+    const viewer = await getPrivacyViewer(user);
+    return NextResponse.json(tree && redactMemberTree(tree, viewer));
   } catch (error) {
     console.error('Error building family tree:', error);
     return NextResponse.json(
@@ -12,4 +16,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
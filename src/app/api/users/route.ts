@@ -6,8 +6,8 @@ import {
   updateUser,
   deleteUser,
   createUser,
-  logActivity,
 } from '@/lib/auth/store';
+import { audit } from '@/lib/services/audit';
 import { getPermissionsForRole, getAssignableRoles } from '@/lib/auth/permissions';
 import { UserRole, UserStatus, ROLE_LABELS, STATUS_LABELS } from '@/lib/auth/types';
 
@@ -163,7 +163,7 @@ export async function POST(request: NextRequest) {
       assignedBranch,
     });
 
-    await logActivity({
+    await audit({
       userId: currentUser.id,
       userEmail: currentUser.email,
       userName: currentUser.nameArabic,
@@ -282,7 +282,7 @@ export async function PATCH(request: NextRequest) {
 
     const updatedUser = await updateUser(userId, updateData);
 
-    await logActivity({
+    await audit({
       userId: currentUser.id,
       userEmail: currentUser.email,
       userName: currentUser.nameArabic,
@@ -364,7 +364,7 @@ export async function DELETE(request: NextRequest) {
 
     await deleteUser(userId);
 
-    await logActivity({
+    await audit({
       userId: currentUser.id,
       userEmail: currentUser.email,
       userName: currentUser.nameArabic,
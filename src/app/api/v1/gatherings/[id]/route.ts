@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { prisma } from '@/lib/prisma';
+import { NotFoundError } from '@/lib/errors';
+import { toApiGathering } from '@/lib/api/v1/resources';
+
+// GET /api/v1/gatherings/[id] - Get a single public gathering
+export const GET = withApi<undefined, { id: string }>(
+  { scope: 'gatherings:read', rateLimit: 'api' },
+  async ({ params }) => {
+    const gathering = await prisma.gathering.findFirst({
+      where: { id: params.id, isPublic: true, status: { not: 'DRAFT' } },
+      include: { _count: { select: { attendees: true } } },
+    });
+    if (!gathering) {
+      throw new NotFoundError('Gathering not found', 'gathering', params.id);
+    }
+
+    return NextResponse.json({ success: true, data: toApiGathering(gathering) });
+  }
+);
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { prisma } from '@/lib/prisma';
+import { paginationOf, parsePagination, toApiGathering } from '@/lib/api/v1/resources';
+
+// GET /api/v1/gatherings - List public gatherings, soonest first
+export const GET = withApi(
+  { scope: 'gatherings:read', rateLimit: 'api' },
+  async ({ request }) => {
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit } = parsePagination(searchParams);
+    const type = searchParams.get('type');
+    const upcoming = searchParams.get('upcoming');
+
+    const where: Record<string, unknown> = { isPublic: true, status: { not: 'DRAFT' } };
+    if (type) where.type = type;
+    if (upcoming === 'true') where.date = { gte: new Date() };
+
+    const [total, gatherings] = await Promise.all([
+      prisma.gathering.count({ where }),
+      prisma.gathering.findMany({
+        where,
+        include: { _count: { select: { attendees: true } } },
+        orderBy: { date: upcoming === 'true' ? 'asc' : 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: gatherings.map(toApiGathering),
+      pagination: paginationOf(page, limit, total),
+    });
+  }
+);
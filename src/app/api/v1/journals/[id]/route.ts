@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { prisma } from '@/lib/prisma';
+import { NotFoundError } from '@/lib/errors';
+import { toApiJournal } from '@/lib/api/v1/resources';
+
+// GET /api/v1/journals/[id] - Get a single published journal
+export const GET = withApi<undefined, { id: string }>(
+  { scope: 'journals:read', rateLimit: 'api' },
+  async ({ params }) => {
+    const journal = await prisma.familyJournal.findFirst({
+      where: { id: params.id, status: 'PUBLISHED' },
+    });
+    if (!journal) {
+      throw new NotFoundError('Journal not found', 'journal', params.id);
+    }
+
+    return NextResponse.json({ success: true, data: toApiJournal(journal) });
+  }
+);
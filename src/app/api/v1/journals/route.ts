@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { prisma } from '@/lib/prisma';
+import { paginationOf, parsePagination, toApiJournal } from '@/lib/api/v1/resources';
+
+// GET /api/v1/journals - List published journals
+export const GET = withApi(
+  { scope: 'journals:read', rateLimit: 'api' },
+  async ({ request }) => {
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit } = parsePagination(searchParams);
+    const category = searchParams.get('category');
+    const memberId = searchParams.get('memberId');
+
+    const where: Record<string, unknown> = { status: 'PUBLISHED' };
+    if (category) where.category = category;
+    if (memberId) {
+      where.OR = [
+        { primaryMemberId: memberId },
+        { relatedMemberIds: { contains: memberId } },
+      ];
+    }
+
+    const [total, journals] = await Promise.all([
+      prisma.familyJournal.count({ where }),
+      prisma.familyJournal.findMany({
+        where,
+        orderBy: [{ isFeatured: 'desc' }, { displayOrder: 'asc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: journals.map(toApiJournal),
+      pagination: paginationOf(page, limit, total),
+    });
+  }
+);
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getMemberByIdFromDb } from '@/lib/db';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { NotFoundError } from '@/lib/errors';
+import { toApiMember } from '@/lib/api/v1/resources';
+
+// GET /api/v1/members/[id] - Get a single member
+export const GET = withApi<undefined, { id: string }>(
+  { scope: 'members:read', permission: 'view_member_profiles', rateLimit: 'api' },
+  async ({ user, params }) => {
+    const member = await getMemberByIdFromDb(params.id);
+    if (!member) {
+      throw new NotFoundError('Member not found', 'member', params.id);
+    }
+
+    const viewer = await getPrivacyViewer(user);
+    return NextResponse.json({ success: true, data: toApiMember(member, viewer) });
+  }
+);
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getAllMembersFromDb } from '@/lib/db';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { paginationOf, parsePagination, toApiMember } from '@/lib/api/v1/resources';
+
+// GET /api/v1/members - List members, by generation then ID
+export const GET = withApi(
+  { scope: 'members:read', permission: 'view_member_profiles', rateLimit: 'api' },
+  async ({ request, user }) => {
+    const searchParams = request.nextUrl.searchParams;
+    const { page, limit } = parsePagination(searchParams);
+    const generation = parseInt(searchParams.get('generation') || '', 10);
+    const branch = searchParams.get('branch');
+    const gender = searchParams.get('gender');
+    const status = searchParams.get('status');
+    const updatedSince = searchParams.get('updatedSince');
+    const since = updatedSince ? new Date(updatedSince) : null;
+
+    const members = (await getAllMembersFromDb())
+      .filter(m => isNaN(generation) || m.generation === generation)
+      .filter(m => !branch || m.branch === branch)
+      .filter(m => !gender || m.gender === gender)
+      .filter(m => !status || m.status === status)
+      .filter(m => !since || isNaN(since.getTime()) || (m.updatedAt && new Date(m.updatedAt) >= since))
+      .sort((a, b) => a.generation - b.generation || a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+    const viewer = await getPrivacyViewer(user);
+    const pageItems = members.slice((page - 1) * limit, page * limit);
+
+    return NextResponse.json({
+      success: true,
+      data: pageItems.map(member => toApiMember(member, viewer)),
+      pagination: paginationOf(page, limit, members.length),
+    });
+  }
+);
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/v1/openapi';
+
+// GET /api/v1/openapi.json - OpenAPI document for the v1 API
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
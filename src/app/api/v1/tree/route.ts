@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { getAllMembersFromDb } from '@/lib/db';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { NotFoundError } from '@/lib/errors';
+import { buildApiTree } from '@/lib/api/v1/resources';
+
+// GET /api/v1/tree - The tree from the root, or from ?root= down ?depth= levels
+export const GET = withApi(
+  { scope: 'tree:read', permission: 'view_family_tree', rateLimit: 'api' },
+  async ({ request, user }) => {
+    const searchParams = request.nextUrl.searchParams;
+    const rootId = searchParams.get('root') || undefined;
+    const depth = parseInt(searchParams.get('depth') || '', 10);
+
+    const viewer = await getPrivacyViewer(user);
+    const tree = buildApiTree(await getAllMembersFromDb(), viewer, {
+      rootId,
+      maxDepth: isNaN(depth) ? undefined : Math.max(0, depth),
+    });
+
+    if (!tree) {
+      throw new NotFoundError('Tree root not found', 'member', rootId);
+    }
+
+    return NextResponse.json({ success: true, data: tree });
+  }
+);
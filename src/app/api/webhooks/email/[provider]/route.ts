@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { withApi } from '@/lib/api';
+import { AuthenticationError, NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  EMAIL_WEBHOOK_PROVIDERS,
+  parseDeliveryEvents,
+  verifyMailgunSignature,
+  verifyResendSignature,
+  verifySendGridSignature,
+  type EmailWebhookProvider,
+} from '@/lib/email-tracking';
+import { applyDeliveryEvents } from '@/lib/services/email-tracking';
+import { logger } from '@/lib/logging';
+
+// Signing secret per provider; webhooks are refused until it is configured
+const WEBHOOK_SECRETS: Record<EmailWebhookProvider, string> = {
+  resend: 'RESEND_WEBHOOK_SECRET',
+  sendgrid: 'SENDGRID_WEBHOOK_PUBLIC_KEY',
+  mailgun: 'MAILGUN_WEBHOOK_SIGNING_KEY',
+};
+
+function isVerified(provider: EmailWebhookProvider, secret: string, headers: Headers, body: string, payload: unknown) {
+  switch (provider) {
+    case 'resend':
+      return verifyResendSignature(secret, {
+        id: headers.get('svix-id'),
+        timestamp: headers.get('svix-timestamp'),
+        signature: headers.get('svix-signature'),
+      }, body);
+    case 'sendgrid':
+      return verifySendGridSignature(secret, {
+        signature: headers.get('x-twilio-email-event-webhook-signature'),
+        timestamp: headers.get('x-twilio-email-event-webhook-timestamp'),
+      }, body);
+    case 'mailgun':
+      return verifyMailgunSignature(secret, (payload as { signature?: Record<string, string> })?.signature);
+  }
+}
+
+// POST /api/webhooks/email/[provider] - Delivery, bounce and complaint events
+// from resend, sendgrid or mailgun. Updates EmailLog and broadcast recipients
+// and suppresses hard-bounced and complaining addresses.
+export const POST = withApi<undefined, { provider: string }, true>(
+  { public: true },
+  async ({ request, params }) => {
+    const provider = params.provider as EmailWebhookProvider;
+    if (!EMAIL_WEBHOOK_PROVIDERS.includes(provider)) {
+      throw new NotFoundError('Unknown email provider');
+    }
+
+    const secret = process.env[WEBHOOK_SECRETS[provider]];
+    if (!secret) {
+      logger.security('Email webhook received without a configured signing secret', 'medium', { provider });
+      throw new AuthenticationError(`${WEBHOOK_SECRETS[provider]} is not configured`);
+    }
+
+    const body = await request.text();
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new ValidationError('Invalid JSON body');
+    }
+
+    if (!isVerified(provider, secret, request.headers, body, payload)) {
+      logger.security('Email webhook signature rejected', 'medium', { provider });
+      throw new AuthenticationError('Invalid webhook signature');
+    }
+
+    const result = await applyDeliveryEvents(parseDeliveryEvents(provider, payload));
+    return NextResponse.json({ success: true, ...result });
+  }
+);
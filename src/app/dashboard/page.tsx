@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { BarChart3, Users, TrendingUp, GitBranch, Calendar, MapPin } from 'lucide-react';
 import ExportPDF, { ExportButton } from '@/components/ExportPDF';
+import ThisDayInHistory from '@/components/ThisDayInHistory';
 
 interface Statistics {
   totalMembers: number;
@@ -178,6 +179,9 @@ export default function DashboardPage() {
           </div>
         </div>
 
+        {/* This day in family history */}
+        <ThisDayInHistory className="mb-8" />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           {/* Generation Analysis */}
           <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import {
   ArrowRight,
@@ -21,6 +21,8 @@ import {
 } from 'lucide-react';
 import { findDuplicates, DuplicateMatch } from '@/lib/import-utils';
 import { FamilyMember } from '@/lib/types';
+import { useAuth } from '@/contexts/AuthContext';
+import type { DuplicateScanStatus } from '@/lib/services/duplicate-scan';
 
 interface DuplicatePair {
   member1: FamilyMember;
@@ -30,7 +32,11 @@ interface DuplicatePair {
   status: 'PENDING' | 'CONFIRMED' | 'NOT_DUPLICATE' | 'MERGED';
 }
 
+// Poll the background scan while it runs
+const SCAN_POLL_INTERVAL_MS = 2000;
+
 export default function DuplicatesPage() {
+  const { session } = useAuth();
   // State
   const [threshold, setThreshold] = useState(60);
   const [isScanning, setIsScanning] = useState(false);
@@ -38,6 +44,51 @@ export default function DuplicatesPage() {
   const [expandedPairs, setExpandedPairs] = useState<number[]>([]);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [allMembers, setAllMembers] = useState<FamilyMember[]>([]);
+  const [scanStatus, setScanStatus] = useState<DuplicateScanStatus | null>(null);
+
+  const fetchScanStatus = useCallback(async () => {
+    if (!session?.token) return;
+    try {
+      const response = await fetch('/api/admin/duplicates/scan', {
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+      if (response.ok) {
+        const result = await response.json();
+        setScanStatus(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch duplicate scan status:', error);
+    }
+  }, [session?.token]);
+
+  useEffect(() => {
+    fetchScanStatus();
+  }, [fetchScanStatus]);
+
+  useEffect(() => {
+    if (scanStatus?.lastRunStatus !== 'RUNNING') return;
+    const timer = setInterval(fetchScanStatus, SCAN_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [scanStatus?.lastRunStatus, fetchScanStatus]);
+
+  // Start the background scan of the whole tree
+  const startBackgroundScan = async () => {
+    if (!session?.token) return;
+    try {
+      const response = await fetch('/api/admin/duplicates/scan', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+      const result = await response.json();
+      if (!response.ok && response.status !== 409) {
+        alert(result.messageAr || result.message || 'فشل بدء الفحص');
+      }
+      // Show the scan as running right away; polling then reports the real progress
+      setScanStatus(prev => prev ? { ...prev, lastRunStatus: 'RUNNING' } : prev);
+    } catch (error) {
+      console.error('Failed to start duplicate scan:', error);
+    }
+  };
 
   // Fetch members from API (public access)
   useEffect(() => {
@@ -106,30 +157,39 @@ export default function DuplicatesPage() {
     );
   };
 
-  // Merge members (keep member1, transfer data from member2)
-  const mergePair = (index: number, keepMemberId: string) => {
+  // Merge members: keep one, re-point references of the other and delete it
+  const mergePair = async (index: number, keepMemberId: string) => {
     const pair = duplicatePairs[index];
     const keepMember = keepMemberId === pair.member1.id ? pair.member1 : pair.member2;
     const removeMember = keepMemberId === pair.member1.id ? pair.member2 : pair.member1;
 
-    // In real implementation, this would:
-    // 1. Update all references to removeMember to point to keepMember
-    // 2. Merge any unique data from removeMember to keepMember
-    // 3. Mark removeMember as deleted or merged
-
-    console.log('Merging:', removeMember.id, 'into', keepMember.id);
+    if (!confirm(`سيتم حذف ${removeMember.fullNameAr || removeMember.firstName} ونقل بياناته إلى ${keepMember.fullNameAr || keepMember.firstName}. متابعة؟`)) {
+      return;
+    }
 
-    // Store merge action
-    const mergeHistory = JSON.parse(localStorage.getItem('alshaye_merges') || '[]');
-    mergeHistory.push({
-      date: new Date().toISOString(),
-      keptMemberId: keepMember.id,
-      mergedMemberId: removeMember.id,
-      score: pair.score
-    });
-    localStorage.setItem('alshaye_merges', JSON.stringify(mergeHistory));
+    try {
+      const headers: HeadersInit = { 'Content-Type': 'application/json' };
+      if (session?.token) {
+        headers['Authorization'] = `Bearer ${session.token}`;
+      }
+      const response = await fetch('/api/admin/merge', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ survivorId: keepMember.id, mergedId: removeMember.id }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        alert(result.messageAr || result.error || 'فشل دمج الأعضاء');
+        return;
+      }
 
-    updateStatus(index, 'MERGED');
+      setAllMembers(prev => prev.filter(m => m.id !== removeMember.id));
+      updateStatus(index, 'MERGED');
+    } catch (error) {
+      console.error('Failed to merge members:', error);
+      alert('فشل دمج الأعضاء');
+    }
   };
 
   // Filtered pairs
@@ -221,6 +281,59 @@ export default function DuplicatesPage() {
           </div>
         </div>
 
+        {/* Background Scan */}
+        {scanStatus && (
+          <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-bold text-gray-800">الفحص التلقائي لكامل الشجرة</h2>
+                <p className="text-gray-500 text-sm">
+                  {scanStatus.lastRunAt
+                    ? `آخر تشغيل: ${new Date(scanStatus.lastRunAt).toLocaleString('ar-SA')}`
+                    : 'لم يتم التشغيل بعد'}
+                  {' · '}
+                  {scanStatus.pendingFlags} تكرار محتمل بانتظار المراجعة
+                </p>
+              </div>
+              <button
+                onClick={startBackgroundScan}
+                disabled={scanStatus.lastRunStatus === 'RUNNING'}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg disabled:opacity-50"
+              >
+                <RefreshCw className={`w-5 h-5 ${scanStatus.lastRunStatus === 'RUNNING' ? 'animate-spin' : ''}`} />
+                {scanStatus.lastRunStatus === 'RUNNING' ? 'جاري الفحص...' : 'تشغيل الفحص التلقائي'}
+              </button>
+            </div>
+
+            {scanStatus.progress && (
+              <>
+                <div className="w-full bg-gray-100 rounded-full h-2 mb-2">
+                  <div
+                    className={`h-2 rounded-full ${scanStatus.lastRunStatus === 'FAILED' ? 'bg-red-500' : 'bg-[#1E3A5F]'}`}
+                    style={{
+                      width: `${scanStatus.progress.totalBlocks
+                        ? Math.round((scanStatus.progress.processedBlocks / scanStatus.progress.totalBlocks) * 100)
+                        : scanStatus.lastRunStatus === 'RUNNING' ? 0 : 100}%`,
+                    }}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                  <span>المجموعات: {scanStatus.progress.processedBlocks} / {scanStatus.progress.totalBlocks}</span>
+                  <span>الأعضاء: {scanStatus.progress.totalMembers}</span>
+                  <span>تطابقات: {scanStatus.progress.pairsFound}</span>
+                  <span>جديدة: {scanStatus.progress.created}</span>
+                  <span>محدثة: {scanStatus.progress.updated}</span>
+                  <span>متجاهلة (ليست تكرار): {scanStatus.progress.skipped}</span>
+                </div>
+              </>
+            )}
+
+            {scanStatus.lastRunStatus === 'FAILED' && scanStatus.lastRunError && (
+              <p className="mt-2 text-sm text-red-600">فشل الفحص: {scanStatus.lastRunError}</p>
+            )}
+          </div>
+        )}
+
         {/* Stats */}
         {duplicatePairs.length > 0 && (
           <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
@@ -33,6 +33,12 @@ import {
   CascadeUpdate,
 } from '@/lib/edit-utils';
 import { FamilyMember, ValidationError } from '@/lib/types';
+import {
+  BROADCAST_CHANNELS,
+  BROADCAST_CHANNEL_LABELS,
+  parseBroadcastChannels,
+  serializeBroadcastChannels,
+} from '@/lib/broadcast-channels';
 import { useAuth } from '@/contexts/AuthContext';
 
 type EditSection = 'identity' | 'family' | 'personal' | 'contact';
@@ -703,6 +709,37 @@ export default function EditMemberPage() {
                             </div>
                           </div>
 
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              وسائل استلام الرسائل
+                            </label>
+                            <div className={`flex flex-wrap gap-4 px-4 py-2 border rounded-lg ${
+                              changedFields.includes('broadcastChannels') ? 'border-yellow-400 bg-yellow-50' : ''
+                            }`}>
+                              {BROADCAST_CHANNELS.map((channel) => {
+                                const selected = parseBroadcastChannels(formData.broadcastChannels);
+                                return (
+                                  <label key={channel} className="flex items-center gap-2 text-sm">
+                                    <input
+                                      type="checkbox"
+                                      checked={selected.includes(channel)}
+                                      onChange={(e) => {
+                                        const next = e.target.checked
+                                          ? [...selected, channel]
+                                          : selected.filter((c) => c !== channel);
+                                        updateField('broadcastChannels', serializeBroadcastChannels(next) || null);
+                                      }}
+                                    />
+                                    {BROADCAST_CHANNEL_LABELS[channel].ar}
+                                  </label>
+                                );
+                              })}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              بدون اختيار تصل الرسائل عبر كل الوسائل المتاحة
+                            </p>
+                          </div>
+
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
                               المدينة
@@ -716,6 +753,20 @@ export default function EditMemberPage() {
                               }`}
                             />
                           </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              مكان الميلاد
+                            </label>
+                            <input
+                              type="text"
+                              value={formData.birthPlace || ''}
+                              onChange={(e) => updateField('birthPlace', e.target.value)}
+                              className={`w-full px-4 py-2 border rounded-lg ${
+                                changedFields.includes('birthPlace') ? 'border-yellow-400 bg-yellow-50' : ''
+                              }`}
+                            />
+                          </div>
                         </>
                       )}
                     </div>
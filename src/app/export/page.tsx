@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useMemo, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
 import Link from 'next/link';
 import {
   ArrowRight,
@@ -17,6 +18,7 @@ import {
   Layers,
   Eye,
   Filter,
+  GitBranch,
 } from 'lucide-react';
 import {
   ALL_EXPORT_FIELDS,
@@ -25,23 +27,29 @@ import {
   exportToCSV,
   exportToHTML,
   exportToReadableText,
+  exportToGEDCOM,
   downloadFile,
   getExportFilename,
   getMimeType,
 } from '@/lib/export-utils';
-import { ExportField, ExportFormat, ExportFilters, FamilyMember } from '@/lib/types';
+import { ExportField, ExportFormat, ExportFilters, FamilyMember, GedcomVersion, Marriage } from '@/lib/types';
+import { useCalendarPreference } from '@/lib/hooks/useCalendarPreference';
 
 type ViewMode = 'format' | 'fields' | 'filters' | 'preview';
 
 export default function ExportPage() {
+  const { getAuthHeader, isLoading: authLoading } = useAuth();
   const [allMembers, setAllMembers] = useState<FamilyMember[]>([]);
+  const [marriages, setMarriages] = useState<Marriage[]>([]);
   const [stats, setStats] = useState({ totalMembers: 0, males: 0, females: 0, generations: 0 });
 
   // Fetch members from API (public access)
   useEffect(() => {
+    // Wait for the session so members are redacted for the signed-in viewer
+    if (authLoading) return;
     async function fetchMembers() {
       try {
-        const response = await fetch('/api/members?limit=500');
+        const response = await fetch('/api/members?limit=500', { headers: getAuthHeader() });
         if (response.ok) {
           const result = await response.json();
           setAllMembers(result.data || []);
@@ -51,7 +59,25 @@ export default function ExportPage() {
       }
     }
     fetchMembers();
-  }, []);
+  }, [authLoading, getAuthHeader]);
+
+  // Fetch marriages for GEDCOM family records
+  useEffect(() => {
+    // Marriages are redacted for the viewer too, so also wait for the session
+    if (authLoading) return;
+    async function fetchMarriages() {
+      try {
+        const response = await fetch('/api/marriages', { headers: getAuthHeader() });
+        if (response.ok) {
+          const result = await response.json();
+          setMarriages(result.data || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch marriages:', error);
+      }
+    }
+    fetchMarriages();
+  }, [authLoading, getAuthHeader]);
 
   // Fetch statistics from API
   useEffect(() => {
@@ -79,6 +105,8 @@ export default function ExportPage() {
   const [fields, setFields] = useState<ExportField[]>(ALL_EXPORT_FIELDS);
   const [includeTree, setIncludeTree] = useState(true);
   const [groupByGeneration, setGroupByGeneration] = useState(true);
+  const [gedcomVersion, setGedcomVersion] = useState<GedcomVersion>('5.5.1');
+  const { calendar } = useCalendarPreference();
 
   // Filter state
   const [filters, setFilters] = useState<ExportFilters>({
@@ -164,6 +192,8 @@ export default function ExportPage() {
         includeTree,
         groupByGeneration,
         filters,
+        gedcomVersion,
+        calendar,
       };
 
       let content: string;
@@ -186,8 +216,13 @@ export default function ExportPage() {
           filename = getExportFilename('PDF');
           mimeType = getMimeType('PDF');
           break;
+        case 'GEDCOM':
+          content = exportToGEDCOM(filteredMembers, options, marriages);
+          filename = getExportFilename('GEDCOM');
+          mimeType = getMimeType('GEDCOM');
+          break;
         default:
-          content = exportToReadableText(filteredMembers);
+          content = exportToReadableText(filteredMembers, calendar);
           filename = getExportFilename('TXT');
           mimeType = getMimeType('TXT');
       }
@@ -209,6 +244,7 @@ export default function ExportPage() {
       includeTree,
       groupByGeneration,
       filters,
+      calendar,
     };
 
     const html = exportToHTML(filteredMembers, options);
@@ -244,6 +280,13 @@ export default function ExportPage() {
       description: 'للطباعة والمشاركة',
       descriptionEn: 'For printing & sharing',
     },
+    {
+      format: 'GEDCOM' as ExportFormat,
+      icon: GitBranch,
+      title: 'GEDCOM',
+      description: 'لبرامج الأنساب الأخرى',
+      descriptionEn: 'For other genealogy tools',
+    },
     {
       format: 'EXCEL' as ExportFormat,
       icon: FileText,
@@ -341,7 +384,7 @@ export default function ExportPage() {
           <div className="bg-white rounded-xl shadow-sm p-6">
             <h2 className="text-xl font-bold text-gray-800 mb-6">اختر صيغة التصدير</h2>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
               {formatOptions.map(({ format, icon: Icon, title, description, descriptionEn }) => (
                 <button
                   key={format}
@@ -362,6 +405,47 @@ export default function ExportPage() {
               ))}
             </div>
 
+            {/* Wall chart */}
+            {selectedFormat === 'PDF' && (
+              <div className="border-t pt-6 mb-6 flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-600">
+                  تحتاج لوحة جدارية للشجرة بحجم كبير؟ - Need a large wall chart of the tree?
+                </p>
+                <Link
+                  href="/poster"
+                  className="flex items-center gap-2 px-4 py-2 border-2 border-[#1E3A5F] text-[#1E3A5F] rounded-lg hover:bg-[#1E3A5F]/5"
+                >
+                  <Printer className="w-4 h-4" />
+                  ملصق الشجرة
+                </Link>
+              </div>
+            )}
+
+            {/* GEDCOM version */}
+            {selectedFormat === 'GEDCOM' && (
+              <div className="border-t pt-6 mb-6">
+                <h3 className="font-bold text-gray-700 mb-4">إصدار GEDCOM</h3>
+                <div className="flex gap-3">
+                  {(['5.5.1', '7.0'] as GedcomVersion[]).map(version => (
+                    <button
+                      key={version}
+                      onClick={() => setGedcomVersion(version)}
+                      className={`px-4 py-2 rounded-lg border-2 transition-all ${
+                        gedcomVersion === version
+                          ? 'border-[#1E3A5F] bg-[#1E3A5F]/5 font-bold'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      GEDCOM {version}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-500 mt-2">
+                  الإصدار 5.5.1 مدعوم في أغلب البرامج - Version 5.5.1 is the most widely supported
+                </p>
+              </div>
+            )}
+
             {/* Tree structure options */}
             <div className="border-t pt-6">
               <h3 className="font-bold text-gray-700 mb-4">خيارات الهيكل</h3>
@@ -717,7 +801,7 @@ export default function ExportPage() {
 
               {previewMode === 'tree' && (
                 <pre className="text-sm font-mono whitespace-pre-wrap text-gray-700" dir="ltr">
-                  {exportToReadableText(filteredMembers.slice(0, 20))}
+                  {exportToReadableText(filteredMembers.slice(0, 20), calendar)}
                 </pre>
               )}
 
@@ -727,6 +811,8 @@ export default function ExportPage() {
                     ? exportToJSON(filteredMembers.slice(0, 5), { format: selectedFormat, fields, includeTree, groupByGeneration })
                     : selectedFormat === 'CSV'
                     ? exportToCSV(filteredMembers.slice(0, 5), { format: selectedFormat, fields, includeTree, groupByGeneration })
+                    : selectedFormat === 'GEDCOM'
+                    ? exportToGEDCOM(filteredMembers.slice(0, 5), { format: selectedFormat, fields, gedcomVersion }, marriages)
                     : '...'
                   }
                 </pre>
@@ -20,8 +20,8 @@ import ImageUploadForm from '@/components/ImageUploadForm';
 
 interface Photo {
   id: string;
-  imageData?: string;
-  thumbnailData?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
   category: string;
   title?: string;
   titleAr?: string;
@@ -114,7 +114,7 @@ export default function GalleryPage() {
       const res = await fetch(`/api/images/photo/${photoId}`);
       const data = await res.json();
       if (data.photo) {
-        setFullImageData(data.photo.imageData);
+        setFullImageData(data.photo.imageUrl);
       }
     } catch (error) {
       console.error('Error loading full image:', error);
@@ -327,7 +327,7 @@ export default function GalleryPage() {
                         >
                           {/* eslint-disable-next-line @next/next/no-img-element */}
                           <img
-                            src={photo.thumbnailData || photo.imageData}
+                            src={photo.thumbnailUrl || photo.imageUrl}
                             alt={photo.titleAr || photo.title || 'صورة'}
                             className="w-full h-full object-cover"
                           />
@@ -366,7 +366,7 @@ export default function GalleryPage() {
                     >
                       {/* eslint-disable-next-line @next/next/no-img-element */}
                       <img
-                        src={photo.thumbnailData || photo.imageData}
+                        src={photo.thumbnailUrl || photo.imageUrl}
                         alt={photo.titleAr || photo.title || 'صورة'}
                         className="w-full h-full object-cover transition-transform group-hover:scale-105"
                       />
@@ -446,7 +446,7 @@ export default function GalleryPage() {
               ) : (
                 // eslint-disable-next-line @next/next/no-img-element
                 <img
-                  src={fullImageData || selectedPhoto.thumbnailData || selectedPhoto.imageData}
+                  src={fullImageData || selectedPhoto.thumbnailUrl || selectedPhoto.imageUrl}
                   alt={selectedPhoto.titleAr || selectedPhoto.title || 'صورة'}
                   className="max-w-full max-h-[80vh] object-contain"
                 />
@@ -21,6 +21,8 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { EmptyGatherings } from '@/components/ui/EmptyState';
 import { useToast } from '@/components/ui/Toast';
+import { formatDateInCalendar } from '@/lib/hijri';
+import { useCalendarPreference } from '@/lib/hooks/useCalendarPreference';
 
 // ============================================
 // TYPES
@@ -79,6 +81,7 @@ const eventTypeConfig: Record<Gathering['type'], { label: string; labelAr: strin
 export default function GatheringsPage() {
   const { user } = useAuth();
   const { success, error: showError } = useToast();
+  const { calendar } = useCalendarPreference();
   const [activeTab, setActiveTab] = useState<FilterTab>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [gatherings, setGatherings] = useState<Gathering[]>([]);
@@ -216,14 +219,13 @@ export default function GatheringsPage() {
 
   // Format date
   const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
     const options: Intl.DateTimeFormatOptions = {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
       day: 'numeric',
     };
-    return date.toLocaleDateString('ar-SA', options);
+    return formatDateInCalendar(dateStr, calendar, options);
   };
 
   // Days until event
@@ -0,0 +1,307 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Calendar, Check, Clock, HelpCircle, Loader2, MapPin, Save, Users, X } from 'lucide-react';
+import {
+  GATHERING_MAX_PLUS_ONES,
+  GATHERING_RSVP_LABELS,
+  GATHERING_RSVP_RESPONSES,
+  type GatheringRsvpResponse,
+} from '@/lib/gatherings';
+
+interface RsvpView {
+  attendee: {
+    name: string;
+    rsvpStatus: string;
+    rsvpNote: string | null;
+    plusOnes: number;
+    dietaryNotes: string | null;
+    attended: boolean;
+  };
+  gathering: {
+    title: string;
+    titleAr: string;
+    descriptionAr: string | null;
+    date: string;
+    time: string | null;
+    location: string | null;
+    locationAr: string | null;
+    locationUrl: string | null;
+    status: string;
+  };
+  acceptingRsvps: boolean;
+  passUrl: string | null;
+}
+
+const responseStyles: Record<GatheringRsvpResponse, { icon: typeof Check; active: string }> = {
+  YES: { icon: Check, active: 'bg-green-600 text-white border-green-600' },
+  MAYBE: { icon: HelpCircle, active: 'bg-amber-500 text-white border-amber-500' },
+  NO: { icon: X, active: 'bg-red-600 text-white border-red-600' },
+};
+
+function isResponse(value: string | null): value is GatheringRsvpResponse {
+  return GATHERING_RSVP_RESPONSES.includes(value as GatheringRsvpResponse);
+}
+
+function RsvpContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('t') || '';
+  const clicked = searchParams.get('response');
+  const [view, setView] = useState<RsvpView | null>(null);
+  const [status, setStatus] = useState<GatheringRsvpResponse | null>(null);
+  const [plusOnes, setPlusOnes] = useState(0);
+  const [dietaryNotes, setDietaryNotes] = useState('');
+  const [rsvpNote, setRsvpNote] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+  const answeredLink = useRef(false);
+
+  const applyView = (data: RsvpView) => {
+    setView(data);
+    setStatus(isResponse(data.attendee.rsvpStatus) ? data.attendee.rsvpStatus : null);
+    setPlusOnes(data.attendee.plusOnes);
+    setDietaryNotes(data.attendee.dietaryNotes || '');
+    setRsvpNote(data.attendee.rsvpNote || '');
+  };
+
+  const submit = useCallback(async (body: {
+    rsvpStatus: GatheringRsvpResponse;
+    plusOnes: number;
+    dietaryNotes: string | null;
+    rsvpNote: string | null;
+  }) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const res = await fetch('/api/gatherings/rsvp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, ...body }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        applyView(data.data);
+        setSaved(true);
+      } else {
+        setError(res.status === 409 ? 'انتهى وقت الرد على هذه الدعوة' : data.errorAr || 'تعذر تسجيل ردك');
+      }
+    } catch {
+      setError('تعذر تسجيل ردك');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) {
+      setError('رابط الدعوة غير صالح');
+      setIsLoading(false);
+      return;
+    }
+
+    fetch(`/api/gatherings/rsvp?t=${encodeURIComponent(token)}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) {
+          setError('رابط الدعوة غير صالح أو منتهي');
+          return;
+        }
+        applyView(data.data);
+        // A button in the invitation answers right away; details can follow
+        if (isResponse(clicked) && data.data.acceptingRsvps && !answeredLink.current) {
+          answeredLink.current = true;
+          const attendee = data.data.attendee;
+          submit({
+            rsvpStatus: clicked,
+            plusOnes: attendee.plusOnes,
+            dietaryNotes: attendee.dietaryNotes,
+            rsvpNote: attendee.rsvpNote,
+          });
+        }
+      })
+      .catch(() => setError('تعذر تحميل الدعوة'))
+      .finally(() => setIsLoading(false));
+  }, [token, clicked, submit]);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-green-600 mx-auto" />
+      </div>
+    );
+  }
+
+  if (!view) {
+    return <p className="text-center text-red-600 py-8">{error}</p>;
+  }
+
+  const { gathering, attendee } = view;
+  const date = new Intl.DateTimeFormat('ar-SA', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  }).format(new Date(gathering.date));
+  const coming = status === 'YES' || status === 'MAYBE';
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <p className="text-sm text-gray-500">السلام عليكم {attendee.name}</p>
+        <h1 className="text-2xl font-bold text-gray-800 mt-1">{gathering.titleAr}</h1>
+        <p className="text-gray-500 text-sm">{gathering.title}</p>
+      </div>
+
+      <div className="bg-gray-50 rounded-xl p-4 space-y-2 text-sm text-gray-700">
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-green-600" />
+          <span>{date}</span>
+        </div>
+        {gathering.time && (
+          <div className="flex items-center gap-2">
+            <Clock className="w-4 h-4 text-green-600" />
+            <span>{gathering.time}</span>
+          </div>
+        )}
+        {(gathering.locationAr || gathering.location) && (
+          <div className="flex items-center gap-2">
+            <MapPin className="w-4 h-4 text-green-600" />
+            {gathering.locationUrl ? (
+              <a href={gathering.locationUrl} target="_blank" rel="noopener noreferrer" className="text-green-700 underline">
+                {gathering.locationAr || gathering.location}
+              </a>
+            ) : (
+              <span>{gathering.locationAr || gathering.location}</span>
+            )}
+          </div>
+        )}
+        {gathering.descriptionAr && <p className="pt-2 text-gray-600 whitespace-pre-line">{gathering.descriptionAr}</p>}
+      </div>
+
+      {!view.acceptingRsvps ? (
+        <p className="text-center text-gray-600">
+          {gathering.status === 'CANCELLED' ? 'تم إلغاء هذا اللقاء' : 'انتهى وقت الرد على هذه الدعوة'}
+          {status && ` · ردك: ${GATHERING_RSVP_LABELS[status].ar}`}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {GATHERING_RSVP_RESPONSES.map((response) => {
+              const Icon = responseStyles[response].icon;
+              return (
+                <button
+                  key={response}
+                  type="button"
+                  onClick={() => { setStatus(response); setSaved(false); }}
+                  className={`flex flex-col items-center gap-1 py-3 rounded-xl border-2 font-medium transition-colors ${
+                    status === response ? responseStyles[response].active : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <Icon className="w-5 h-5" />
+                  {GATHERING_RSVP_LABELS[response].ar}
+                </button>
+              );
+            })}
+          </div>
+
+          {coming && (
+            <>
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                  <Users className="w-4 h-4" />
+                  عدد المرافقين
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={GATHERING_MAX_PLUS_ONES}
+                  value={plusOnes}
+                  onChange={(e) => {
+                    setPlusOnes(Math.min(GATHERING_MAX_PLUS_ONES, Math.max(0, Number(e.target.value) || 0)));
+                    setSaved(false);
+                  }}
+                  className="w-full px-4 py-2 border rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">ملاحظات غذائية (حساسية، نظام خاص)</label>
+                <input
+                  type="text"
+                  value={dietaryNotes}
+                  maxLength={500}
+                  onChange={(e) => { setDietaryNotes(e.target.value); setSaved(false); }}
+                  className="w-full px-4 py-2 border rounded-lg"
+                  placeholder="مثال: حساسية من المكسرات"
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">ملاحظة للمنظمين</label>
+            <textarea
+              value={rsvpNote}
+              maxLength={500}
+              rows={2}
+              onChange={(e) => { setRsvpNote(e.target.value); setSaved(false); }}
+              className="w-full px-4 py-2 border rounded-lg"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {saved && <p className="text-sm text-green-700">تم تسجيل ردك، شكراً لك</p>}
+
+          <button
+            type="button"
+            disabled={!status || isSaving}
+            onClick={() => status && submit({
+              rsvpStatus: status,
+              plusOnes: coming ? plusOnes : 0,
+              dietaryNotes: coming ? dietaryNotes.trim() || null : null,
+              rsvpNote: rsvpNote.trim() || null,
+            })}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-green-600 text-white rounded-xl font-medium hover:bg-green-700 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+            حفظ الرد
+          </button>
+        </div>
+      )}
+
+      {view.passUrl && (
+        <div className="border-t pt-6 text-center">
+          <h2 className="font-semibold text-gray-800 mb-1">بطاقة الدخول</h2>
+          <p className="text-sm text-gray-500 mb-4">اعرض هذا الرمز عند الوصول لتسجيل حضورك</p>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={view.passUrl} alt="رمز تسجيل الحضور" className="w-56 h-56 mx-auto" />
+          {attendee.attended && <p className="text-sm text-green-700 mt-2">تم تسجيل حضورك</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function GatheringRsvpPage() {
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-green-50 to-emerald-100" dir="rtl">
+      <main className="flex-1 flex items-center justify-center px-4 py-12">
+        <div className="w-full max-w-md">
+          <div className="bg-white rounded-2xl shadow-xl p-6 sm:p-8">
+            <Suspense
+              fallback={
+                <div className="text-center py-8">
+                  <div className="animate-spin w-8 h-8 border-4 border-green-600 border-t-transparent rounded-full mx-auto" />
+                </div>
+              }
+            >
+              <RsvpContent />
+            </Suspense>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
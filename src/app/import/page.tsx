@@ -7,6 +7,7 @@ import {
   Upload,
   FileJson,
   FileSpreadsheet,
+  GitBranch,
   AlertTriangle,
   CheckCircle,
   XCircle,
@@ -22,6 +23,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import {
   parseJSON,
   parseCSV,
+  parseGEDCOM,
   prepareImport,
   mergeMembers,
   MergeStrategy,
@@ -88,8 +90,11 @@ export default function ImportPage() {
 
       // Determine file type and parse
       const isJSON = selectedFile.name.endsWith('.json') || content.trim().startsWith('{') || content.trim().startsWith('[');
+      const isGEDCOM = selectedFile.name.toLowerCase().endsWith('.ged') || /^\uFEFF?0 HEAD/.test(content);
 
-      const result = isJSON ? parseJSON(content) : parseCSV(content);
+      const result = isGEDCOM
+        ? parseGEDCOM(content, allMembers)
+        : isJSON ? parseJSON(content) : parseCSV(content);
 
       if (result.error) {
         setParseError(result.error);
@@ -343,12 +348,12 @@ export default function ImportPage() {
                 اسحب الملف هنا أو اضغط للاختيار
               </h2>
               <p className="text-gray-500 mb-6">
-                الصيغ المدعومة: JSON, CSV
+                الصيغ المدعومة: JSON, CSV, GEDCOM
               </p>
 
               <input
                 type="file"
-                accept=".json,.csv"
+                accept=".json,.csv,.ged"
                 onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
                 className="hidden"
                 id="file-input"
@@ -370,7 +375,7 @@ export default function ImportPage() {
             )}
 
             {/* Supported formats info */}
-            <div className="mt-8 grid md:grid-cols-2 gap-4">
+            <div className="mt-8 grid md:grid-cols-3 gap-4">
               <div className="p-4 bg-gray-50 rounded-lg">
                 <div className="flex items-center gap-3 mb-2">
                   <FileJson className="w-8 h-8 text-blue-500" />
@@ -389,6 +394,15 @@ export default function ImportPage() {
                   ملفات CSV من Excel أو Google Sheets مع رؤوس أعمدة عربية أو إنجليزية
                 </p>
               </div>
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center gap-3 mb-2">
+                  <GitBranch className="w-8 h-8 text-purple-500" />
+                  <span className="font-bold">GEDCOM</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  ملفات GEDCOM 5.5.1 أو 7.0 من برامج الأنساب الأخرى (.ged)
+                </p>
+              </div>
             </div>
           </div>
         )}
@@ -313,9 +313,9 @@ export default function JournalDetailPage({ params }: { params: { id: string } }
                     key={media.id}
                     className="relative aspect-square rounded-xl overflow-hidden bg-gray-100 group"
                   >
-                    {media.imageData || media.url ? (
+                    {media.imageUrl || media.url ? (
                       <img
-                        src={media.imageData || media.url || ''}
+                        src={media.imageUrl || media.url || ''}
                         alt={media.titleAr || ''}
                         className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                       />
@@ -9,6 +9,7 @@ import {
   Tent, Heart, Feather, TreePine, Info
 } from 'lucide-react';
 import { JOURNAL_CATEGORIES, type JournalCategoryType } from '@/lib/types';
+import { formatYear, gregorianYearToHijri, hijriYearToGregorian } from '@/lib/hijri';
 
 interface FormData {
   titleAr: string;
@@ -57,6 +58,22 @@ export default function NewJournalPage() {
   });
 
   const [linkedMemberName, setLinkedMemberName] = useState(preselectedMemberName || '');
+  // Years may be entered in either calendar; they are stored as Gregorian
+  const [yearCalendar, setYearCalendar] = useState<'gregorian' | 'hijri'>('hijri');
+
+  const toGregorianYear = (value: string) => {
+    if (!value) return null;
+    const year = parseInt(value);
+    return yearCalendar === 'hijri' ? hijriYearToGregorian(year) : year;
+  };
+
+  const otherCalendarYear = (value: string) => {
+    const year = parseInt(value);
+    if (!year) return '';
+    return yearCalendar === 'hijri'
+      ? formatYear(hijriYearToGregorian(year), 'gregorian')
+      : formatYear(gregorianYearToHijri(year), 'hijri');
+  };
 
   const [newTag, setNewTag] = useState('');
   const [saving, setSaving] = useState(false);
@@ -110,8 +127,8 @@ export default function NewJournalPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
-          yearFrom: formData.yearFrom ? parseInt(formData.yearFrom) : null,
-          yearTo: formData.yearTo ? parseInt(formData.yearTo) : null,
+          yearFrom: toGregorianYear(formData.yearFrom),
+          yearTo: toGregorianYear(formData.yearTo),
           generation: formData.generation ? parseInt(formData.generation) : null,
           primaryMemberId: formData.primaryMemberId || null,
           status,
@@ -336,6 +353,23 @@ export default function NewJournalPage() {
               </h2>
 
               {/* Year Range */}
+              <div className="flex items-center gap-2 mb-3 text-sm">
+                <span className="text-gray-600">التقويم:</span>
+                {(['hijri', 'gregorian'] as const).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setYearCalendar(option)}
+                    className={`px-3 py-1 rounded-full border transition-colors ${
+                      yearCalendar === option
+                        ? 'bg-amber-100 border-amber-400 text-amber-800'
+                        : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option === 'hijri' ? 'هجري' : 'ميلادي'}
+                  </button>
+                ))}
+              </div>
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -345,9 +379,12 @@ export default function NewJournalPage() {
                     type="number"
                     value={formData.yearFrom}
                     onChange={(e) => handleChange('yearFrom', e.target.value)}
-                    placeholder="مثال: 1350"
+                    placeholder={yearCalendar === 'hijri' ? 'مثال: 1350' : 'مثال: 1931'}
                     className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-amber-500 focus:ring-2 focus:ring-amber-200 transition-all"
                   />
+                  {formData.yearFrom && (
+                    <p className="text-xs text-gray-400 mt-1">يوافق {otherCalendarYear(formData.yearFrom)}</p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -360,6 +397,9 @@ export default function NewJournalPage() {
                     placeholder="اتركه فارغاً إذا كانت سنة واحدة"
                     className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:border-amber-500 focus:ring-2 focus:ring-amber-200 transition-all"
                   />
+                  {formData.yearTo && (
+                    <p className="text-xs text-gray-400 mt-1">يوافق {otherCalendarYear(formData.yearTo)}</p>
+                  )}
                 </div>
               </div>
 
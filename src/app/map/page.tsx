@@ -0,0 +1,266 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Map as MapIcon, MapPin, Wand2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import FamilyMap from '@/components/FamilyMap';
+import type { CityCluster, FamilyMapSummary } from '@/lib/gazetteer';
+
+interface LineageBranch {
+  id: string;
+  name: string;
+  subBranches: { id: string; name: string }[];
+}
+
+interface PlaceNameChange {
+  entity: 'member' | 'gathering' | 'journal';
+  id: string;
+  field: string;
+  from: string;
+  to: string;
+}
+
+const GENERATIONS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+export default function FamilyMapPage() {
+  const { user, getAuthHeader } = useAuth();
+  const isAdmin = user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN';
+
+  const [map, setMap] = useState<FamilyMapSummary | null>(null);
+  const [branches, setBranches] = useState<LineageBranch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [lineageBranchId, setLineageBranchId] = useState('');
+  const [subBranchId, setSubBranchId] = useState('');
+  const [generation, setGeneration] = useState('');
+  const [showMigrations, setShowMigrations] = useState(true);
+  const [selected, setSelected] = useState<CityCluster[]>([]);
+
+  const [changes, setChanges] = useState<PlaceNameChange[] | null>(null);
+  const [normalizing, setNormalizing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadMap = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (lineageBranchId) params.set('lineageBranchId', lineageBranchId);
+      if (subBranchId) params.set('subBranchId', subBranchId);
+      if (generation) params.set('generation', generation);
+
+      const res = await fetch(`/api/map?${params}`, { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        const { branches: branchList, ...summary } = data.data;
+        setMap(summary);
+        setBranches(branchList);
+        setSelected([]);
+      }
+    } catch (error) {
+      console.error('Error loading family map:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [lineageBranchId, subBranchId, generation, getAuthHeader]);
+
+  useEffect(() => {
+    loadMap();
+  }, [loadMap]);
+
+  const previewNormalization = async () => {
+    setMessage(null);
+    try {
+      const res = await fetch('/api/admin/gazetteer', { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) setChanges(data.data.changes);
+    } catch (error) {
+      console.error('Error previewing place names:', error);
+    }
+  };
+
+  const applyNormalization = async () => {
+    setNormalizing(true);
+    try {
+      const res = await fetch('/api/admin/gazetteer', { method: 'POST', headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        setMessage(data.messageAr);
+        setChanges(null);
+        loadMap();
+      }
+    } catch (error) {
+      console.error('Error normalizing place names:', error);
+    } finally {
+      setNormalizing(false);
+    }
+  };
+
+  const subBranches = branches.find(b => b.id === lineageBranchId)?.subBranches || [];
+  const matched = map?.residences.reduce((sum, r) => sum + r.count, 0) || 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8" dir="rtl">
+      <div className="max-w-6xl mx-auto px-4">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <MapIcon className="w-6 h-6 text-green-600" />
+            خريطة العائلة
+          </h1>
+          <p className="text-gray-600 mt-1">أين يقيم أفراد العائلة، ومن أين انتقلوا</p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm p-4 mb-6 flex flex-wrap items-center gap-3">
+          <select
+            value={lineageBranchId}
+            onChange={e => { setLineageBranchId(e.target.value); setSubBranchId(''); }}
+            className="px-3 py-2 border rounded-lg text-sm"
+            aria-label="الفرع"
+          >
+            <option value="">كل الفروع</option>
+            {branches.map(branch => (
+              <option key={branch.id} value={branch.id}>فرع {branch.name}</option>
+            ))}
+          </select>
+          <select
+            value={subBranchId}
+            onChange={e => setSubBranchId(e.target.value)}
+            disabled={subBranches.length === 0}
+            className="px-3 py-2 border rounded-lg text-sm disabled:opacity-50"
+            aria-label="الفرع الفرعي"
+          >
+            <option value="">كل الفروع الفرعية</option>
+            {subBranches.map(branch => (
+              <option key={branch.id} value={branch.id}>{branch.name}</option>
+            ))}
+          </select>
+          <select
+            value={generation}
+            onChange={e => setGeneration(e.target.value)}
+            className="px-3 py-2 border rounded-lg text-sm"
+            aria-label="الجيل"
+          >
+            <option value="">كل الأجيال</option>
+            {GENERATIONS.map(gen => (
+              <option key={gen} value={gen}>الجيل {gen}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showMigrations}
+              onChange={e => setShowMigrations(e.target.checked)}
+              className="accent-amber-600"
+            />
+            أسهم الانتقال من مكان الميلاد
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Map */}
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm p-3">
+            {loading && !map ? (
+              <div className="py-24 text-center text-gray-500">جاري التحميل...</div>
+            ) : map && (
+              <>
+                <FamilyMap
+                  residences={map.residences}
+                  migrations={map.migrations}
+                  showMigrations={showMigrations}
+                  selectedCityIds={selected.map(c => c.city.id)}
+                  onSelect={setSelected}
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  {matched} من {map.located} فرداً على الخريطة · {map.migrations.reduce((s, m) => s + m.count, 0)} انتقال
+                  · استخدم العجلة للتكبير واسحب للتحريك
+                </p>
+              </>
+            )}
+          </div>
+
+          {/* Side panel */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm p-4">
+              <h2 className="font-bold text-gray-800 mb-3 flex items-center gap-2">
+                <MapPin className="w-5 h-5 text-green-600" />
+                {selected.length > 0 ? selected.map(c => c.city.nameAr).join('، ') : 'المدن'}
+              </h2>
+              {selected.length > 0 ? (
+                <ul className="space-y-1 max-h-80 overflow-y-auto text-sm">
+                  {selected.flatMap(c => c.members).map(member => (
+                    <li key={member.id}>
+                      <Link href={`/member/${member.id}`} className="text-gray-800 hover:text-green-700">
+                        {member.name}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {map?.residences.slice(0, 12).map(r => (
+                    <li key={r.city.id}>
+                      <button onClick={() => setSelected([r])} className="w-full flex justify-between hover:text-green-700">
+                        <span>{r.city.nameAr}</span>
+                        <span className="text-gray-500">{r.count}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {isAdmin && map && (
+              <div className="bg-white rounded-xl shadow-sm p-4">
+                <h2 className="font-bold text-gray-800 mb-2">أماكن غير معروفة</h2>
+                {map.unmatched.length === 0 ? (
+                  <p className="text-sm text-gray-500">كل الأماكن المسجلة مطابقة لمدن معروفة</p>
+                ) : (
+                  <ul className="text-sm space-y-1 max-h-40 overflow-y-auto mb-3">
+                    {map.unmatched.map(place => (
+                      <li key={place.text} className="flex justify-between">
+                        <span className="text-gray-700">{place.text}</span>
+                        <span className="text-gray-500">{place.count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {message && <p className="text-sm text-green-700 mb-2">{message}</p>}
+
+                {changes === null ? (
+                  <button
+                    onClick={previewNormalization}
+                    className="flex items-center gap-2 text-sm text-green-700 hover:text-green-900"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                    توحيد أسماء المدن
+                  </button>
+                ) : changes.length === 0 ? (
+                  <p className="text-sm text-gray-500">لا توجد أسماء تحتاج إلى توحيد</p>
+                ) : (
+                  <div>
+                    <ul className="text-xs space-y-1 max-h-40 overflow-y-auto mb-3">
+                      {changes.map(change => (
+                        <li key={`${change.entity}-${change.id}-${change.field}`}>
+                          {change.from} ← <span className="font-medium">{change.to}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={applyNormalization}
+                      disabled={normalizing}
+                      className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {normalizing ? 'جاري التوحيد...' : `تطبيق ${changes.length} تغيير`}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,24 @@
+import { cookies } from 'next/headers';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
-import { getAllMembersFromDb, getChildrenFromDb, getMemberByIdFromDb } from '@/lib/db';
+import { getAllMembersFromDb, getChildrenFromDb, getChildrenOfMotherFromDb, getMemberByIdFromDb } from '@/lib/db';
+import {
+  buildMotherChildrenGroups,
+  getMarriagesForMember,
+  getWifeDisplayName,
+  MARRIAGE_STATUS_LABELS,
+} from '@/lib/db/marriages';
+import { getMahramContext } from '@/lib/db/mahram';
+import { formatDualYear, parseCalendarPreference } from '@/lib/hijri';
+import { getMotherKey, UNKNOWN_MOTHER_KEY } from '@/lib/lineage';
+import { findMahrams, MahramRuleType } from '@/lib/mahram';
 import { calculateAge, getGenerationColor, getStatusBadge } from '@/lib/utils';
 import MemberPhotoSection from '@/components/MemberPhotoSection';
 import MemberBreastfeedingSection from '@/components/MemberBreastfeedingSection';
 import MemberStoriesSection from '@/components/MemberStoriesSection';
+import { storageKeys } from '@/config/storage-keys';
+import { getVisibleMemberFields, redactMarriage, redactMember, redactMembers } from '@/lib/privacy';
+import { getPrivacyViewerForSessionToken } from '@/lib/services/privacy';
 import {
   User,
   Calendar,
@@ -17,6 +31,8 @@ import {
   ChevronLeft,
   ArrowRight,
   GitBranch,
+  Heart,
+  ShieldCheck,
 } from 'lucide-react';
 
 interface PageProps {
@@ -24,22 +40,72 @@ interface PageProps {
 }
 
 export default async function MemberPage({ params }: PageProps) {
-  const member = await getMemberByIdFromDb(params.id);
+  const storedMember = await getMemberByIdFromDb(params.id);
+
+  if (!storedMember) {
+    notFound();
+  }
 
-  if (!member) {
+  // Redact for the signed-in viewer, whose session token is mirrored into a cookie
+  const viewer = await getPrivacyViewerForSessionToken(cookies().get(storageKeys.sessionCookie)?.value);
+  const member = redactMember(storedMember, viewer);
+  const visible = getVisibleMemberFields(viewer, storedMember);
+
+  // Members hidden from this viewer have no page; they appear as placeholders in the tree
+  if (visible.placeholder) {
     notFound();
   }
 
-  const allMembers = await getAllMembersFromDb();
-  const children = await getChildrenFromDb(member.id);
-  const father = member.fatherId ? await getMemberByIdFromDb(member.fatherId) : null;
-  const siblings = father ? (await getChildrenFromDb(father.id)).filter((s) => s.id !== member.id) : [];
+  const calendar = parseCalendarPreference(cookies().get(storageKeys.calendar)?.value);
+  const birthYearText = formatDualYear(member.birthYear, member.birthYearHijri, member.birthYearPrecision, calendar);
+  const deathYearText = formatDualYear(member.deathYear, member.deathYearHijri, member.deathYearPrecision, calendar);
+
+  const allMembers = redactMembers(await getAllMembersFromDb(), viewer);
+  const children = redactMembers(member.gender === 'Female'
+    ? await getChildrenOfMotherFromDb(member.id)
+    : await getChildrenFromDb(member.id), viewer);
+  const storedFather = member.fatherId ? await getMemberByIdFromDb(member.fatherId) : null;
+  const storedMother = member.motherId ? await getMemberByIdFromDb(member.motherId) : null;
+  const father = storedFather && redactMember(storedFather, viewer);
+  const mother = storedMother && redactMember(storedMother, viewer);
+  const siblings = father
+    ? redactMembers(await getChildrenFromDb(father.id), viewer).filter((s) => s.id !== member.id)
+    : [];
+  const motherKey = getMotherKey(member);
+  // Half-siblings (إخوة لأب) can only be told apart when both mothers are recorded
+  const isPaternalHalfSibling = (sibling: typeof member) => {
+    const siblingMotherKey = getMotherKey(sibling);
+    return motherKey !== UNKNOWN_MOTHER_KEY &&
+      siblingMotherKey !== UNKNOWN_MOTHER_KEY &&
+      siblingMotherKey !== motherKey;
+  };
+
+  // Spouses and children grouped by mother
+  const marriages = (await getMarriagesForMember(member.id)).map((m) => redactMarriage(m, viewer));
+  const childrenByMother = member.gender === 'Male'
+    ? buildMotherChildrenGroups(
+        children,
+        marriages.filter((m) => m.husbandId === member.id),
+        allMembers
+      )
+    : [];
+  const showMotherGroups = childrenByMother.some((group) => group.motherName);
   const statusBadge = getStatusBadge(member.status);
 
+  // Mahrams grouped by the kind of kinship
+  const mahramContext = await getMahramContext();
+  const mahramMembers = new Map(redactMembers(mahramContext.members, viewer).map((m) => [m.id, m]));
+  const mahrams = findMahrams(member.id, mahramContext);
+  const mahramGroups: { type: MahramRuleType; label: string }[] = [
+    { type: 'blood', label: 'بالنسب' },
+    { type: 'milk', label: 'بالرضاعة' },
+    { type: 'marriage', label: 'بالمصاهرة' },
+  ];
+
   // Get grandchildren (children of children)
   const grandchildrenPromises = children.map((child) => getChildrenFromDb(child.id));
   const grandchildrenArrays = await Promise.all(grandchildrenPromises);
-  const grandchildren = grandchildrenArrays.flat();
+  const grandchildren = redactMembers(grandchildrenArrays.flat(), viewer);
 
   // Get lineage ancestors for display
   const lineageBranchAncestor = member.lineageBranchId
@@ -104,8 +170,8 @@ export default async function MemberPage({ params }: PageProps) {
               </div>
 
               <div className="bg-gray-50 rounded-xl p-4 text-center">
-                <p className="text-2xl font-bold text-gray-800 mb-1">
-                  {member.birthYear || '-'}
+                <p className={`${calendar === 'both' ? 'text-lg' : 'text-2xl'} font-bold text-gray-800 mb-1`}>
+                  {birthYearText || '-'}
                 </p>
                 <p className="text-sm text-gray-500">سنة الميلاد</p>
                 {member.birthYear && (
@@ -113,6 +179,9 @@ export default async function MemberPage({ params }: PageProps) {
                     ({calculateAge(member.birthYear)} سنة)
                   </p>
                 )}
+                {deathYearText && (
+                  <p className="text-xs text-gray-500">الوفاة: {deathYearText}</p>
+                )}
               </div>
 
               <div className="bg-gray-50 rounded-xl p-4 text-center">
@@ -281,6 +350,12 @@ export default async function MemberPage({ params }: PageProps) {
                     <span className="text-gray-500">المدينة</span>
                     <span className="font-medium">{member.city || '-'}</span>
                   </div>
+                  {member.birthPlace && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">مكان الميلاد</span>
+                      <span className="font-medium">{member.birthPlace}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-500">المهنة</span>
                     <span className="font-medium">{member.occupation || '-'}</span>
@@ -297,6 +372,59 @@ export default async function MemberPage({ params }: PageProps) {
               </div>
             </div>
 
+            {/* Spouses */}
+            {marriages.length > 0 && (
+              <div className="bg-rose-50 rounded-xl p-5 mb-8">
+                <h2 className="font-bold text-lg mb-4 flex items-center gap-2">
+                  <Heart className="text-rose-600" size={20} />
+                  {member.gender === 'Male' ? 'الزوجات' : 'الزوج'} ({marriages.length})
+                </h2>
+                <div className="space-y-2">
+                  {marriages.map((marriage) => {
+                    const spouse = member.gender === 'Male' ? marriage.wife : marriage.husband;
+                    const spouseName = member.gender === 'Male'
+                      ? getWifeDisplayName(marriage)
+                      : marriage.husband?.fullNameAr || marriage.husband?.firstName;
+                    const years = [marriage.startYear, marriage.endYear].filter(Boolean).join(' - ');
+                    const content = (
+                      <>
+                        <span className="w-8 h-8 rounded-full flex items-center justify-center text-sm bg-white">
+                          {member.gender === 'Male' ? '👩' : '👨'}
+                        </span>
+                        <div className="flex-1">
+                          <p className="font-medium">{spouseName || '-'}</p>
+                          <p className="text-xs text-gray-500">
+                            {member.gender === 'Male' && `الزوجة ${marriage.wifeOrder} • `}
+                            {MARRIAGE_STATUS_LABELS[marriage.status]?.ar}
+                            {years && ` • ${years}`}
+                          </p>
+                        </div>
+                        {spouse ? (
+                          <ChevronLeft size={16} className="text-gray-400" />
+                        ) : (
+                          <span className="text-xs text-gray-400">من خارج العائلة</span>
+                        )}
+                      </>
+                    );
+
+                    return spouse ? (
+                      <Link
+                        key={marriage.id}
+                        href={`/member/${spouse.id}`}
+                        className="flex items-center gap-3 p-2 bg-white rounded-lg hover:bg-rose-100 transition-colors"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <div key={marriage.id} className="flex items-center gap-3 p-2 bg-white rounded-lg">
+                        {content}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Family Info */}
             <div className="grid md:grid-cols-2 gap-6 mb-8">
               {/* Children */}
@@ -315,7 +443,39 @@ export default async function MemberPage({ params }: PageProps) {
                     <p className="text-xs text-gray-500">بنات</p>
                   </div>
                 </div>
-                {children.length > 0 ? (
+                {children.length > 0 && showMotherGroups ? (
+                  <div className="space-y-3 max-h-64 overflow-y-auto">
+                    {childrenByMother.map((group) => (
+                      <div key={group.motherKey}>
+                        <p className="text-xs font-semibold text-rose-700 mb-1">
+                          {group.motherName ? `من ${group.motherName}` : 'الأم غير مسجلة'}
+                        </p>
+                        <div className="space-y-2">
+                          {group.children.map((child) => (
+                            <Link
+                              key={child.id}
+                              href={`/member/${child.id}`}
+                              className="flex items-center gap-2 p-2 bg-white rounded-lg hover:bg-gray-100 transition-colors"
+                            >
+                              <span
+                                className={`w-8 h-8 rounded-full flex items-center justify-center text-sm ${
+                                  child.gender === 'Male'
+                                    ? 'bg-blue-100 text-blue-600'
+                                    : 'bg-pink-100 text-pink-600'
+                                }`}
+                              >
+                                {child.gender === 'Male' ? '👨' : '👩'}
+                              </span>
+                              <span className="font-medium">{child.firstName}</span>
+                              <span className="text-xs text-gray-400">({child.id})</span>
+                              <ChevronLeft size={16} className="mr-auto text-gray-400" />
+                            </Link>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : children.length > 0 ? (
                   <div className="space-y-2 max-h-48 overflow-y-auto">
                     {children.map((child) => (
                       <Link
@@ -368,6 +528,11 @@ export default async function MemberPage({ params }: PageProps) {
                         </span>
                         <span className="font-medium">{sibling.firstName}</span>
                         <span className="text-xs text-gray-400">({sibling.id})</span>
+                        {isPaternalHalfSibling(sibling) && (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">
+                            لأب
+                          </span>
+                        )}
                         <ChevronLeft size={16} className="mr-auto text-gray-400" />
                       </Link>
                     ))}
@@ -378,6 +543,53 @@ export default async function MemberPage({ params }: PageProps) {
               </div>
             </div>
 
+            {/* Mahrams */}
+            <div className="bg-teal-50 rounded-xl p-5 mb-8">
+              <h2 className="font-bold text-lg mb-1 flex items-center gap-2">
+                <ShieldCheck className="text-teal-600" size={20} />
+                المحارم ({mahrams.length})
+              </h2>
+              <p className="text-xs text-gray-500 mb-4">
+                محسوبة من النسب والرضاعة والمصاهرة المسجلة في الشجرة فقط
+              </p>
+              {mahrams.length > 0 ? (
+                <div className="space-y-4">
+                  {mahramGroups.map(({ type, label }) => {
+                    const group = mahrams.filter((m) => m.rule.type === type);
+                    if (group.length === 0) return null;
+                    return (
+                      <div key={type}>
+                        <p className="text-sm font-medium text-gray-600 mb-2">
+                          {label} ({group.length})
+                        </p>
+                        <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+                          {group.map((mahram) => {
+                            const other = mahramMembers.get(mahram.memberId);
+                            if (!other) return null;
+                            return (
+                              <Link
+                                key={mahram.memberId}
+                                href={`/member/${mahram.memberId}`}
+                                title={`${mahram.rule.labelAr} - ${mahram.rule.basisAr}`}
+                                className={`px-3 py-1.5 rounded-lg text-sm bg-white hover:bg-gray-100 transition-colors border ${
+                                  other.gender === 'Male' ? 'border-blue-200' : 'border-pink-200'
+                                }`}
+                              >
+                                <span className="font-medium">{other.firstName}</span>
+                                <span className="text-xs text-gray-400 mr-1">({mahram.memberId})</span>
+                              </Link>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-center">لا يوجد محارم مسجلون</p>
+              )}
+            </div>
+
             {/* Father Link */}
             {father && (
               <div className="bg-green-50 rounded-xl p-5 mb-8">
@@ -404,13 +616,51 @@ export default async function MemberPage({ params }: PageProps) {
               </div>
             )}
 
+            {/* Mother Link */}
+            {(mother || member.externalMotherName) && (
+              <div className="bg-pink-50 rounded-xl p-5 mb-8">
+                <h2 className="font-bold text-lg mb-4 flex items-center gap-2">
+                  <Heart className="text-pink-600" size={20} />
+                  الأم
+                </h2>
+                {mother ? (
+                  <Link
+                    href={`/member/${mother.id}`}
+                    className="flex items-center gap-4 p-4 bg-white rounded-lg hover:bg-pink-100 transition-colors"
+                  >
+                    <span className="w-12 h-12 rounded-full flex items-center justify-center text-2xl bg-pink-100 border-2 border-pink-400">
+                      👩
+                    </span>
+                    <div className="flex-1">
+                      <p className="font-bold">{mother.firstName}</p>
+                      <p className="text-sm text-gray-500">{mother.fullNameAr}</p>
+                    </div>
+                    <span className="text-xs text-gray-400">({mother.id})</span>
+                    <ChevronLeft size={20} className="text-gray-400" />
+                  </Link>
+                ) : (
+                  <div className="flex items-center gap-4 p-4 bg-white rounded-lg">
+                    <span className="w-12 h-12 rounded-full flex items-center justify-center text-2xl bg-pink-100 border-2 border-pink-200">
+                      👩
+                    </span>
+                    <div className="flex-1">
+                      <p className="font-bold">{member.externalMotherName}</p>
+                      <p className="text-sm text-gray-500">من خارج العائلة</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Photo Gallery */}
-            <div className="mb-8">
-              <MemberPhotoSection
-                memberId={member.id}
-                memberName={member.fullNameAr || member.firstName}
-              />
-            </div>
+            {visible.photo && (
+              <div className="mb-8">
+                <MemberPhotoSection
+                  memberId={member.id}
+                  memberName={member.fullNameAr || member.firstName}
+                />
+              </div>
+            )}
 
             {/* Member Stories & History */}
             <div className="mb-8">
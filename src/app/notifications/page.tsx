@@ -0,0 +1,162 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import type { InboxNotification } from '@/lib/notifications';
+
+const PAGE_SIZE = 20;
+
+export default function NotificationsPage() {
+  const { user, getAuthHeader } = useAuth();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async (nextPage: number) => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(nextPage), limit: String(PAGE_SIZE) });
+      if (unreadOnly) params.set('unread', 'true');
+      const res = await fetch(`/api/notifications?${params}`, { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        setNotifications(prev => (nextPage === 1 ? data.data : [...prev, ...data.data]));
+        setUnreadCount(data.unreadCount);
+        setTotalPages(data.pagination.totalPages);
+        setPage(nextPage);
+      }
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, unreadOnly, getAuthHeader]);
+
+  useEffect(() => {
+    load(1);
+  }, [load]);
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    try {
+      const res = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) return;
+
+      const ids = 'ids' in body ? new Set(body.ids) : null;
+      setNotifications(prev => prev.map(n => (!ids || ids.has(n.id) ? { ...n, read: true } : n)));
+      setUnreadCount(prev => (ids ? Math.max(0, prev - ids.size) : 0));
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  const openNotification = async (notification: InboxNotification) => {
+    if (!notification.read) await markRead({ ids: [notification.id] });
+    if (notification.linkUrl) router.push(notification.linkUrl);
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50 py-8" dir="rtl">
+        <div className="max-w-2xl mx-auto px-4">
+          {/* Header */}
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">الإشعارات</h1>
+              <p className="text-gray-600 mt-1">
+                {unreadCount > 0 ? `${unreadCount} غير مقروءة` : 'لا توجد إشعارات غير مقروءة'}
+              </p>
+            </div>
+            <Link
+              href="/settings/notifications"
+              className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border rounded-lg hover:bg-gray-50"
+            >
+              <Settings className="w-4 h-4" />
+              التفضيلات
+            </Link>
+          </div>
+
+          {/* Controls */}
+          <div className="mb-4 flex items-center justify-between">
+            <div className="flex gap-1 bg-white border rounded-lg p-1 text-sm">
+              <button
+                onClick={() => setUnreadOnly(false)}
+                className={`px-3 py-1 rounded ${!unreadOnly ? 'bg-green-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                الكل
+              </button>
+              <button
+                onClick={() => setUnreadOnly(true)}
+                className={`px-3 py-1 rounded ${unreadOnly ? 'bg-green-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                غير المقروءة
+              </button>
+            </div>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead({ all: true })}
+                className="flex items-center gap-1 text-sm text-green-700 hover:text-green-900"
+              >
+                <CheckCheck className="w-4 h-4" />
+                تعليم الكل كمقروء
+              </button>
+            )}
+          </div>
+
+          {/* List */}
+          <div className="bg-white rounded-xl shadow-sm divide-y">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => openNotification(notification)}
+                className={`w-full text-right p-4 flex gap-3 hover:bg-gray-50 ${notification.read ? '' : 'bg-green-50/60'}`}
+              >
+                <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${notification.read ? 'bg-transparent' : 'bg-green-600'}`} />
+                <span className="flex-1">
+                  <span className={`block ${notification.read ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                    {notification.titleAr}
+                  </span>
+                  <span className="block text-sm text-gray-600 mt-0.5">{notification.messageAr}</span>
+                  <span className="block text-xs text-gray-400 mt-1">
+                    {new Date(notification.createdAt).toLocaleString('ar-SA')}
+                  </span>
+                </span>
+              </button>
+            ))}
+
+            {!loading && notifications.length === 0 && (
+              <div className="p-10 text-center text-gray-500">
+                <Bell className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+                لا توجد إشعارات
+              </div>
+            )}
+          </div>
+
+          {page < totalPages && (
+            <div className="mt-4 text-center">
+              <button
+                onClick={() => load(page + 1)}
+                disabled={loading}
+                className="px-4 py-2 text-sm bg-white border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                {loading ? 'جاري التحميل...' : 'عرض المزيد'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
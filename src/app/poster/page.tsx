@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, Eye, FileImage, Printer } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { POSTER_LAYOUTS, POSTER_LAYOUT_LABELS, type PosterLayoutKind } from '@/lib/poster/layout';
+import { PAPER_SIZE_NAMES, type PaperSize, type PosterOrientation } from '@/lib/poster/paper';
+
+interface LineageBranch {
+  id: string;
+  name: string;
+  subBranches: { id: string; name: string }[];
+}
+
+const GENERATION_OPTIONS = [2, 3, 4, 5, 6, 7, 8, 10, 12];
+const DPI_OPTIONS = [100, 150, 200, 300];
+
+export default function PosterPage() {
+  const { user, getAuthHeader } = useAuth();
+  // PDFs are rendered on the server and limited to admins
+  const canDownloadPdf = user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN';
+  const [branches, setBranches] = useState<LineageBranch[]>([]);
+
+  const [lineageBranchId, setLineageBranchId] = useState('');
+  const [subBranchId, setSubBranchId] = useState('');
+  const [memberId, setMemberId] = useState('');
+  const [layout, setLayout] = useState<PosterLayoutKind>('DESCENDANT');
+  const [paper, setPaper] = useState<PaperSize>('A0');
+  const [orientation, setOrientation] = useState<PosterOrientation>('landscape');
+  const [generations, setGenerations] = useState('');
+  const [tile, setTile] = useState<PaperSize | ''>('');
+  const [dpi, setDpi] = useState(150);
+
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [memberCount, setMemberCount] = useState<number | null>(null);
+  const [busy, setBusy] = useState<'preview' | 'svg' | 'pdf' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadBranches() {
+      try {
+        const res = await fetch('/api/poster/branches', { headers: getAuthHeader() });
+        const data = await res.json();
+        if (data.success) setBranches(data.data);
+      } catch (err) {
+        console.error('Error loading branches:', err);
+      }
+    }
+    loadBranches();
+  }, [getAuthHeader]);
+
+  // Free the previous preview image
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const subBranches = branches.find(b => b.id === lineageBranchId)?.subBranches || [];
+  const rootId = memberId.trim() || subBranchId || lineageBranchId;
+  // Tiles must be smaller than the poster
+  const tileOptions = PAPER_SIZE_NAMES.filter(size => PAPER_SIZE_NAMES.indexOf(size) > PAPER_SIZE_NAMES.indexOf(paper));
+
+  const fetchPoster = async (format: 'svg' | 'pdf'): Promise<Blob | null> => {
+    const params = new URLSearchParams({ layout, paper, orientation, format });
+    if (rootId) params.set('rootId', rootId);
+    if (generations) params.set('generations', generations);
+    if (format === 'pdf') {
+      params.set('dpi', String(dpi));
+      if (tile) params.set('tile', tile);
+    }
+
+    const res = await fetch(`/api/poster?${params}`, { headers: getAuthHeader() });
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      setError(res.status === 404 ? 'لم يتم العثور على العضو' : data?.error || 'فشل في إنشاء الملصق');
+      return null;
+    }
+    const count = res.headers.get('X-Poster-Members');
+    if (count) setMemberCount(Number(count));
+    return res.blob();
+  };
+
+  const preview = async () => {
+    setBusy('preview');
+    setError(null);
+    try {
+      const blob = await fetchPoster('svg');
+      if (blob) setPreviewUrl(URL.createObjectURL(blob));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const download = async (format: 'svg' | 'pdf') => {
+    setBusy(format);
+    setError(null);
+    try {
+      const blob = await fetchPoster(format);
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `alshaye_poster_${rootId || 'family'}_${paper}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8" dir="rtl">
+      <div className="max-w-6xl mx-auto px-4">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Printer className="w-6 h-6 text-[#1E3A5F]" />
+            ملصق شجرة العائلة
+          </h1>
+          <p className="text-gray-600 mt-1">لوحة كبيرة للطباعة في اللقاءات العائلية، للعائلة كاملة أو لفرع منها</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Options */}
+          <div className="bg-white rounded-xl shadow-sm p-4 space-y-4 text-sm">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">الفرع</label>
+              <select
+                value={lineageBranchId}
+                onChange={e => { setLineageBranchId(e.target.value); setSubBranchId(''); }}
+                className="w-full px-3 py-2 border rounded-lg"
+              >
+                <option value="">العائلة كاملة</option>
+                {branches.map(branch => (
+                  <option key={branch.id} value={branch.id}>فرع {branch.name}</option>
+                ))}
+              </select>
+              <select
+                value={subBranchId}
+                onChange={e => setSubBranchId(e.target.value)}
+                disabled={subBranches.length === 0}
+                className="w-full px-3 py-2 border rounded-lg mt-2 disabled:opacity-50"
+                aria-label="الفرع الفرعي"
+              >
+                <option value="">الفرع كاملاً</option>
+                {subBranches.map(branch => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+              <input
+                value={memberId}
+                onChange={e => setMemberId(e.target.value)}
+                placeholder="أو رقم العضو (مثل P045)"
+                className="w-full px-3 py-2 border rounded-lg mt-2"
+                dir="ltr"
+              />
+            </div>
+
+            <div>
+              <span className="block font-medium text-gray-700 mb-1">الشكل</span>
+              <div className="grid grid-cols-3 gap-2">
+                {POSTER_LAYOUTS.map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setLayout(kind)}
+                    className={`px-2 py-2 rounded-lg border-2 ${
+                      layout === kind ? 'border-[#1E3A5F] bg-[#1E3A5F]/5 font-bold' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {POSTER_LAYOUT_LABELS[kind].ar}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">حجم الورق</label>
+                <select
+                  value={paper}
+                  onChange={e => { setPaper(e.target.value as PaperSize); setTile(''); }}
+                  className="w-full px-3 py-2 border rounded-lg"
+                >
+                  {PAPER_SIZE_NAMES.map(size => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block font-medium text-gray-700 mb-1">الاتجاه</label>
+                <select
+                  value={orientation}
+                  onChange={e => setOrientation(e.target.value as PosterOrientation)}
+                  className="w-full px-3 py-2 border rounded-lg"
+                >
+                  <option value="landscape">أفقي</option>
+                  <option value="portrait">عمودي</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">عدد الأجيال</label>
+              <select
+                value={generations}
+                onChange={e => setGenerations(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg"
+              >
+                <option value="">كل الأجيال</option>
+                {GENERATION_OPTIONS.map(count => (
+                  <option key={count} value={count}>{count} أجيال تحت الجذر</option>
+                ))}
+              </select>
+            </div>
+
+            {canDownloadPdf && (
+              <div className="border-t pt-4">
+                <h3 className="font-bold text-gray-700 mb-2">خيارات PDF</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-gray-600 mb-1">التقسيم إلى أوراق</label>
+                    <select
+                      value={tile}
+                      onChange={e => setTile(e.target.value as PaperSize | '')}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    >
+                      <option value="">صفحة واحدة</option>
+                      {tileOptions.map(size => (
+                        <option key={size} value={size}>أوراق {size}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-gray-600 mb-1">الدقة</label>
+                    <select
+                      value={dpi}
+                      onChange={e => setDpi(Number(e.target.value))}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    >
+                      {DPI_OPTIONS.map(value => (
+                        <option key={value} value={value}>{value} DPI</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {tile && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    تتداخل الأوراق بمقدار 1 سم للصق، وتُرقّم من الزاوية العليا اليمنى
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2 pt-2">
+              <button
+                onClick={preview}
+                disabled={busy !== null}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] disabled:opacity-50"
+              >
+                <Eye className="w-4 h-4" />
+                {busy === 'preview' ? 'جاري الإنشاء...' : 'معاينة'}
+              </button>
+              <div className={`grid gap-2 ${canDownloadPdf ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                <button
+                  onClick={() => download('svg')}
+                  disabled={busy !== null}
+                  className="flex items-center justify-center gap-2 px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <FileImage className="w-4 h-4" />
+                  {busy === 'svg' ? '...' : 'SVG'}
+                </button>
+                {canDownloadPdf && (
+                  <button
+                    onClick={() => download('pdf')}
+                    disabled={busy !== null}
+                    className="flex items-center justify-center gap-2 px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    {busy === 'pdf' ? 'جاري التجهيز...' : 'PDF'}
+                  </button>
+                )}
+              </div>
+              {error && <p className="text-red-600">{error}</p>}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="lg:col-span-2 bg-white rounded-xl shadow-sm p-3">
+            {previewUrl ? (
+              <>
+                <div className="overflow-auto max-h-[75vh] border rounded-lg bg-gray-100">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={previewUrl} alt="معاينة الملصق" className="w-full h-auto bg-white" />
+                </div>
+                {memberCount != null && (
+                  <p className="text-xs text-gray-500 mt-2">{memberCount} فرداً على الملصق</p>
+                )}
+              </>
+            ) : (
+              <div className="py-24 text-center text-gray-500">
+                اختر الفرع والشكل ثم اضغط معاينة
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,82 @@
 'use client';
 
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { ROLE_LABELS, STATUS_LABELS } from '@/lib/auth/types';
-import { User, Mail, Phone, Shield, Calendar, GitBranch } from 'lucide-react';
+import { useCalendarPreference } from '@/lib/hooks/useCalendarPreference';
+import type { CalendarPreference } from '@/lib/types';
+import { User, Mail, Phone, Shield, Calendar, GitBranch, CalendarDays, EyeOff, Clock } from 'lucide-react';
 import Link from 'next/link';
+import {
+  MEMBER_PRIVACY_OVERRIDE_KEYS,
+  MEMBER_PRIVACY_OVERRIDE_LABELS,
+  type MemberPrivacyOverrides,
+} from '@/lib/privacy';
+
+const CALENDAR_OPTIONS: { value: CalendarPreference; label: string; example: string }[] = [
+  { value: 'gregorian', label: 'ميلادي', example: '1990م' },
+  { value: 'hijri', label: 'هجري', example: '1410هـ' },
+  { value: 'both', label: 'كلاهما', example: '1410هـ / 1990م' },
+];
 
 export default function ProfilePage() {
-  const { user } = useAuth();
+  const { user, getAuthHeader } = useAuth();
+  const { calendar, setCalendar } = useCalendarPreference();
+  // Changes to the privacy profile apply once a reviewer approves them
+  const [privacyDraft, setPrivacyDraft] = useState<MemberPrivacyOverrides | null>(null);
+  const [submittedPrivacy, setSubmittedPrivacy] = useState<MemberPrivacyOverrides | null>(null);
+  const [privacyPending, setPrivacyPending] = useState(false);
+  const [savingPrivacy, setSavingPrivacy] = useState(false);
+
+  const loadPrivacy = useCallback(async () => {
+    if (!user?.linkedMemberId) return;
+    try {
+      const res = await fetch('/api/profile/privacy', { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        const current: MemberPrivacyOverrides = data.data.pending?.overrides ?? data.data.overrides;
+        setSubmittedPrivacy(current);
+        setPrivacyDraft(current);
+        setPrivacyPending(!!data.data.pending);
+      }
+    } catch (error) {
+      console.error('Failed to load privacy preferences:', error);
+    }
+  }, [user?.linkedMemberId, getAuthHeader]);
+
+  useEffect(() => {
+    loadPrivacy();
+  }, [loadPrivacy]);
+
+  const togglePrivacy = (key: keyof MemberPrivacyOverrides) => {
+    setPrivacyDraft(prev => prev && { ...prev, [key]: !prev[key] });
+  };
+
+  const privacyChanged = !!privacyDraft && !!submittedPrivacy &&
+    MEMBER_PRIVACY_OVERRIDE_KEYS.some(key => !!privacyDraft[key] !== !!submittedPrivacy[key]);
+
+  const submitPrivacy = async () => {
+    if (!privacyDraft) return;
+    setSavingPrivacy(true);
+    try {
+      const res = await fetch('/api/profile/privacy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify(privacyDraft),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setSubmittedPrivacy(data.data.pending.overrides);
+        setPrivacyDraft(data.data.pending.overrides);
+        setPrivacyPending(true);
+      }
+    } catch (error) {
+      console.error('Failed to submit privacy preferences:', error);
+    } finally {
+      setSavingPrivacy(false);
+    }
+  };
 
   return (
     <ProtectedRoute>
@@ -125,6 +194,72 @@ export default function ProfilePage() {
                 </div>
               </div>
 
+              {/* Display Preferences */}
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                  <CalendarDays size={20} className="text-green-600" />
+                  التقويم
+                </h3>
+                <p className="text-sm text-gray-500 mb-4">التقويم المستخدم لعرض سنوات الميلاد والوفاة وتواريخ المناسبات</p>
+                <div className="grid grid-cols-3 gap-3">
+                  {CALENDAR_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setCalendar(option.value)}
+                      className={`p-3 rounded-lg border-2 text-center transition-colors ${
+                        calendar === option.value
+                          ? 'border-green-500 bg-green-50 text-green-700'
+                          : 'border-gray-200 hover:border-gray-300 text-gray-700'
+                      }`}
+                    >
+                      <p className="font-medium">{option.label}</p>
+                      <p className="text-xs text-gray-400 mt-1">{option.example}</p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Member Privacy */}
+              {privacyDraft && (
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                    <EyeOff size={20} className="text-green-600" />
+                    خصوصية بياناتي
+                  </h3>
+                  <p className="text-sm text-gray-500 mb-4">
+                    إخفاء بياناتك في شجرة العائلة عن الآخرين. يبقى ظاهراً لك ولمن يملك صلاحية تعديل ملفك.
+                    تطبق التغييرات بعد موافقة المشرف.
+                  </p>
+                  {privacyPending && (
+                    <p className="text-sm text-yellow-700 bg-yellow-50 rounded-lg p-3 mb-4 flex items-center gap-2">
+                      <Clock size={16} />
+                      طلبك بانتظار المراجعة
+                    </p>
+                  )}
+                  <div className="space-y-3">
+                    {MEMBER_PRIVACY_OVERRIDE_KEYS.map(key => (
+                      <label key={key} className="flex items-center justify-between gap-3 cursor-pointer">
+                        <span className="text-gray-700">{MEMBER_PRIVACY_OVERRIDE_LABELS[key].ar}</span>
+                        <input
+                          type="checkbox"
+                          checked={!!privacyDraft[key]}
+                          disabled={savingPrivacy}
+                          onChange={() => togglePrivacy(key)}
+                          className="w-5 h-5 text-green-600 rounded"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <button
+                    onClick={submitPrivacy}
+                    disabled={!privacyChanged || savingPrivacy}
+                    className="mt-4 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {savingPrivacy ? 'جاري الإرسال...' : 'إرسال للمراجعة'}
+                  </button>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">إجراءات الحساب</h3>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useMemo, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
 import Link from 'next/link';
 import { FamilyMember } from '@/lib/types';
 import { calculateAge, getGenerationColor, getStatusBadge } from '@/lib/utils';
@@ -10,6 +11,7 @@ type SortField = 'id' | 'firstName' | 'generation' | 'birthYear';
 type SortOrder = 'asc' | 'desc';
 
 export default function RegistryPage() {
+  const { getAuthHeader, isLoading: authLoading } = useAuth();
   const [allMembers, setAllMembers] = useState<FamilyMember[]>([]);
   const [gen2Branches, setGen2Branches] = useState<FamilyMember[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -23,9 +25,11 @@ export default function RegistryPage() {
 
   // Fetch members from API (public access)
   useEffect(() => {
+    // Wait for the session so members are redacted for the signed-in viewer
+    if (authLoading) return;
     const loadData = async () => {
       try {
-        const res = await fetch('/api/members?limit=500');
+        const res = await fetch('/api/members?limit=500', { headers: getAuthHeader() });
         const data = await res.json();
         const members = data.data || [];
         setAllMembers(members);
@@ -38,7 +42,7 @@ export default function RegistryPage() {
       }
     };
     loadData();
-  }, []);
+  }, [authLoading, getAuthHeader]);
 
   const generations = [...new Set(allMembers.map((m) => m.generation))].sort();
   const branches = [...new Set(allMembers.map((m) => m.branch).filter(Boolean))];
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useMemo, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
 import Link from 'next/link';
 import { FamilyMember } from '@/lib/types';
 import { calculateAge, getGenerationColor } from '@/lib/utils';
@@ -30,6 +31,7 @@ function buildAncestorChain(member: FamilyMember, allMembers: FamilyMember[], ma
 }
 
 export default function SearchPage() {
+  const { getAuthHeader, isLoading: authLoading } = useAuth();
   const [allMembers, setAllMembers] = useState<FamilyMember[]>([]);
   const [membersLoading, setMembersLoading] = useState(true);
   const [query, setQuery] = useState('');
@@ -37,9 +39,11 @@ export default function SearchPage() {
 
   // Fetch members from API (public access)
   useEffect(() => {
+    // Wait for the session so members are redacted for the signed-in viewer
+    if (authLoading) return;
     async function fetchMembers() {
       try {
-        const response = await fetch('/api/members?limit=500');
+        const response = await fetch('/api/members?limit=500', { headers: getAuthHeader() });
         if (response.ok) {
           const result = await response.json();
           setAllMembers(result.data || []);
@@ -51,7 +55,7 @@ export default function SearchPage() {
       }
     }
     fetchMembers();
-  }, []);
+  }, [authLoading, getAuthHeader]);
 
   // Build ancestor chain map for all members
   const ancestorChainMap = useMemo(() => {
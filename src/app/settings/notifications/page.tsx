@@ -0,0 +1,152 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  type NotificationChannels,
+  type NotificationPreferences,
+  type NotificationType,
+} from '@/lib/notifications';
+
+const CHANNELS: { key: keyof NotificationChannels; label: string; hint?: string }[] = [
+  { key: 'inApp', label: 'داخل التطبيق' },
+  { key: 'email', label: 'البريد' },
+  { key: 'sms', label: 'رسالة نصية' },
+  { key: 'digest', label: 'ملخص يومي', hint: 'جمع رسائل البريد والرسائل النصية في رسالة واحدة يومياً' },
+];
+
+export default function NotificationSettingsPage() {
+  const { user, getAuthHeader } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      const res = await fetch('/api/notifications/preferences', { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) setPreferences(data.data);
+    } catch (error) {
+      console.error('Failed to load notification preferences:', error);
+    }
+  }, [user, getAuthHeader]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggle = (type: NotificationType, channel: keyof NotificationChannels) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      [type]: { ...prev[type], [channel]: !prev[type][channel] },
+    });
+    setMessage(null);
+  };
+
+  const save = async () => {
+    if (!preferences) return;
+    setSaving(true);
+    try {
+      const res = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+        body: JSON.stringify(preferences),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setPreferences(data.data);
+        setMessage({ type: 'success', text: data.messageAr });
+      } else {
+        setMessage({ type: 'error', text: data.errorAr || data.error || 'فشل حفظ التفضيلات' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'فشل حفظ التفضيلات' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50" dir="rtl">
+        <header className="bg-white shadow-sm">
+          <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+            <h1 className="text-xl font-bold text-gray-900">تفضيلات الإشعارات</h1>
+            <Link href="/notifications" className="text-emerald-600 hover:text-emerald-800">
+              رجوع
+            </Link>
+          </div>
+        </header>
+
+        <main className="max-w-4xl mx-auto px-4 py-8">
+          {message && (
+            <div className={`mb-6 p-4 rounded-lg flex items-center gap-3 border ${
+              message.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+            }`}>
+              {message.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />}
+              <p>{message.text}</p>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <p className="text-gray-600 mb-6">
+              اختر كيف تصلك الإشعارات لكل نوع. تُرسل الرسائل إلى البريد ورقم الجوال المسجلين في حسابك.
+            </p>
+
+            {preferences && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-600 border-b">
+                      <th className="p-3 text-right font-medium">النوع</th>
+                      {CHANNELS.map(channel => (
+                        <th key={channel.key} className="p-3 text-center font-medium" title={channel.hint}>
+                          {channel.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {NOTIFICATION_TYPES.map(type => (
+                      <tr key={type} className="border-b last:border-0">
+                        <td className="p-3 text-gray-900">{NOTIFICATION_TYPE_LABELS[type].ar}</td>
+                        {CHANNELS.map(channel => (
+                          <td key={channel.key} className="p-3 text-center">
+                            <input
+                              type="checkbox"
+                              checked={preferences[type][channel.key]}
+                              onChange={() => toggle(type, channel.key)}
+                              disabled={channel.key === 'digest' && !preferences[type].email && !preferences[type].sms}
+                              aria-label={`${NOTIFICATION_TYPE_LABELS[type].ar} - ${channel.label}`}
+                              className="w-4 h-4 accent-emerald-600"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end">
+              <button
+                onClick={save}
+                disabled={saving || !preferences}
+                className="px-6 py-2 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? 'جاري الحفظ...' : 'حفظ'}
+              </button>
+            </div>
+          </div>
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -3,8 +3,15 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
-import { Shield, Smartphone, Key, CheckCircle, AlertTriangle, Copy, Eye, EyeOff } from 'lucide-react';
+import { Shield, Smartphone, Key, CheckCircle, AlertTriangle, Copy, Eye, EyeOff, Code, Trash2 } from 'lucide-react';
 import { generateQRCodeDataURL } from '@/lib/utils/qrcode';
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  API_SCOPES,
+  API_SCOPE_LABELS,
+  type AccessTokenSummary,
+  type ApiScope,
+} from '@/lib/access-tokens';
 
 export default function SecuritySettingsPage() {
   const { user, session } = useAuth();
@@ -20,11 +27,34 @@ export default function SecuritySettingsPage() {
   const [disableCode, setDisableCode] = useState('');
   const [showDisable, setShowDisable] = useState(false);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
+  const [accessTokens, setAccessTokens] = useState<AccessTokenSummary[]>([]);
+  const [tokenName, setTokenName] = useState('');
+  const [tokenScopes, setTokenScopes] = useState<ApiScope[]>(['members:read', 'tree:read']);
+  const [tokenExpiryDays, setTokenExpiryDays] = useState<number>(90);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
 
   useEffect(() => {
     checkTwoFactorStatus();
   }, []);
 
+  const loadAccessTokens = useCallback(async () => {
+    if (!session?.token) return;
+
+    try {
+      const res = await fetch('/api/auth/tokens', {
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+      const data = await res.json();
+      if (res.ok) setAccessTokens(data.data || []);
+    } catch {
+      // Ignore error, the list stays empty
+    }
+  }, [session?.token]);
+
+  useEffect(() => {
+    loadAccessTokens();
+  }, [loadAccessTokens]);
+
   // Generate QR code when setupData is available
   useEffect(() => {
     if (setupData?.uri) {
@@ -137,6 +167,71 @@ export default function SecuritySettingsPage() {
     }
   };
 
+  const createToken = async () => {
+    if (!session?.token) return;
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const res = await fetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.token}`,
+        },
+        body: JSON.stringify({ name: tokenName, scopes: tokenScopes, expiresInDays: tokenExpiryDays }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setCreatedToken(data.data.token);
+        setTokenName('');
+        loadAccessTokens();
+      } else {
+        setError(data.errorAr || data.error);
+      }
+    } catch {
+      setError('حدث خطأ في الاتصال');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revokeToken = async (token: AccessTokenSummary) => {
+    if (!session?.token) return;
+    if (!confirm(`إلغاء رمز الوصول "${token.name}"؟ ستتوقف الأدوات التي تستخدمه عن العمل.`)) return;
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/auth/tokens/${token.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setSuccess('تم إلغاء رمز الوصول');
+        loadAccessTokens();
+      } else {
+        setError(data.errorAr || data.error);
+      }
+    } catch {
+      setError('حدث خطأ في الاتصال');
+    }
+  };
+
+  const toggleTokenScope = (scope: ApiScope) => {
+    setTokenScopes(prev =>
+      prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const tokenStatus = (token: AccessTokenSummary) => {
+    if (token.revokedAt) return { label: 'ملغى', className: 'bg-gray-100 text-gray-600' };
+    if (new Date(token.expiresAt) <= new Date()) return { label: 'منتهي', className: 'bg-yellow-100 text-yellow-800' };
+    return { label: 'نشط', className: 'bg-green-100 text-green-800' };
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     setSuccess('تم النسخ للحافظة');
@@ -373,6 +468,131 @@ export default function SecuritySettingsPage() {
           </div>
         )}
 
+        {/* Personal Access Tokens */}
+        <div className="bg-white rounded-xl shadow-sm p-6 mb-6">
+          <div className="flex items-start gap-4 mb-6">
+            <div className="w-12 h-12 rounded-full bg-purple-100 flex items-center justify-center flex-shrink-0">
+              <Code className="w-6 h-6 text-purple-600" />
+            </div>
+            <div className="flex-1">
+              <h2 className="text-lg font-semibold text-gray-900">رموز الوصول الشخصية</h2>
+              <p className="text-gray-600 mt-1">
+                للأدوات الخارجية مثل بوتات الواتساب والكتيبات المطبوعة. تمنح قراءة فقط عبر{' '}
+                <a href="/api/v1/openapi.json" className="text-emerald-600 hover:text-emerald-800" dir="ltr">
+                  /api/v1
+                </a>
+                {' '}وتخضع لإعدادات الخصوصية.
+              </p>
+            </div>
+          </div>
+
+          {createdToken && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm text-amber-800 mb-2">
+                انسخ الرمز الآن، لن يظهر مرة أخرى:
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 p-2 bg-white rounded text-sm font-mono break-all" dir="ltr">
+                  {createdToken}
+                </code>
+                <button
+                  onClick={() => copyToClipboard(createdToken)}
+                  className="p-2 text-gray-500 hover:text-gray-700"
+                >
+                  <Copy className="w-5 h-5" />
+                </button>
+              </div>
+              <button
+                onClick={() => setCreatedToken(null)}
+                className="mt-3 text-sm text-amber-800 hover:text-amber-900"
+              >
+                تم النسخ
+              </button>
+            </div>
+          )}
+
+          <div className="p-4 bg-gray-50 rounded-lg space-y-4 mb-6">
+            <input
+              type="text"
+              value={tokenName}
+              onChange={(e) => setTokenName(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500"
+              placeholder="اسم الرمز، مثل: بوت الواتساب"
+              maxLength={100}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              {API_SCOPES.map(scope => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={tokenScopes.includes(scope)}
+                    onChange={() => toggleTokenScope(scope)}
+                    className="rounded text-emerald-600"
+                  />
+                  {API_SCOPE_LABELS[scope].ar}
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <select
+                value={tokenExpiryDays}
+                onChange={(e) => setTokenExpiryDays(Number(e.target.value))}
+                className="px-4 py-2 border border-gray-300 rounded-lg"
+              >
+                {ACCESS_TOKEN_EXPIRY_DAYS.map(days => (
+                  <option key={days} value={days}>ينتهي بعد {days} يوم</option>
+                ))}
+              </select>
+              <button
+                onClick={createToken}
+                disabled={isLoading || !tokenName.trim() || tokenScopes.length === 0}
+                className="flex-1 py-2 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+              >
+                إنشاء رمز
+              </button>
+            </div>
+          </div>
+
+          {accessTokens.length > 0 && (
+            <ul className="divide-y divide-gray-100">
+              {accessTokens.map(token => {
+                const status = tokenStatus(token);
+                return (
+                  <li key={token.id} className="py-3 flex items-center gap-3">
+                    <Key className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{token.name}</span>
+                        <code className="text-xs text-gray-500" dir="ltr">{token.tokenPrefix}…</code>
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {token.scopes.map(scope => API_SCOPE_LABELS[scope].ar).join('، ')}
+                        {' · '}ينتهي {new Date(token.expiresAt).toLocaleDateString('ar-SA')}
+                        {' · '}
+                        {token.lastUsedAt
+                          ? `آخر استخدام ${new Date(token.lastUsedAt).toLocaleString('ar-SA')}`
+                          : 'لم يُستخدم بعد'}
+                      </p>
+                    </div>
+                    {!token.revokedAt && (
+                      <button
+                        onClick={() => revokeToken(token)}
+                        className="p-2 text-red-500 hover:text-red-700"
+                        title="إلغاء"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
         {/* Email Verification Status */}
         <div className="bg-white rounded-xl shadow-sm p-6">
           <div className="flex items-start gap-4">
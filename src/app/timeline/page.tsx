@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Baby, BookOpen, Calendar, Camera, Clock, Flower2, ZoomOut } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  TIMELINE_EVENT_KINDS,
+  TIMELINE_EVENT_KIND_LABELS,
+  type TimelineDecade,
+  type TimelineEvent,
+  type TimelineEventKind,
+} from '@/lib/timeline';
+
+interface LineageBranch {
+  id: string;
+  name: string;
+  subBranches: { id: string; name: string }[];
+}
+
+const kindIcons: Record<TimelineEventKind, React.ReactNode> = {
+  BIRTH: <Baby className="w-4 h-4" />,
+  DEATH: <Flower2 className="w-4 h-4" />,
+  GATHERING: <Calendar className="w-4 h-4" />,
+  JOURNAL: <BookOpen className="w-4 h-4" />,
+  PHOTO: <Camera className="w-4 h-4" />,
+};
+
+const kindColors: Record<TimelineEventKind, string> = {
+  BIRTH: 'bg-green-100 text-green-700 border-green-200',
+  DEATH: 'bg-gray-100 text-gray-700 border-gray-200',
+  GATHERING: 'bg-blue-100 text-blue-700 border-blue-200',
+  JOURNAL: 'bg-amber-100 text-amber-700 border-amber-200',
+  PHOTO: 'bg-rose-100 text-rose-700 border-rose-200',
+};
+
+export default function TimelinePage() {
+  const { getAuthHeader } = useAuth();
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [decades, setDecades] = useState<TimelineDecade[]>([]);
+  const [branches, setBranches] = useState<LineageBranch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [lineageBranchId, setLineageBranchId] = useState('');
+  const [subBranchId, setSubBranchId] = useState('');
+  const [kinds, setKinds] = useState<TimelineEventKind[]>([...TIMELINE_EVENT_KINDS]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [decade, setDecade] = useState<number | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (lineageBranchId) params.set('lineageBranchId', lineageBranchId);
+      if (subBranchId) params.set('subBranchId', subBranchId);
+      if (kinds.length < TIMELINE_EVENT_KINDS.length) params.set('kinds', kinds.join(','));
+      if (decade != null) {
+        params.set('decade', String(decade));
+      } else {
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+      }
+
+      const res = await fetch(`/api/timeline?${params}`, { headers: getAuthHeader() });
+      const data = await res.json();
+      if (data.success) {
+        setEvents(data.data.events);
+        setDecades(data.data.decades);
+        setBranches(data.data.branches);
+      }
+    } catch (error) {
+      console.error('Error loading timeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [lineageBranchId, subBranchId, kinds, from, to, decade, getAuthHeader]);
+
+  useEffect(() => {
+    if (kinds.length > 0) loadTimeline();
+  }, [loadTimeline, kinds.length]);
+
+  const subBranches = branches.find(b => b.id === lineageBranchId)?.subBranches || [];
+  const maxDecadeCount = Math.max(1, ...decades.map(d => d.count));
+
+  // Group by year for the zoomed-in list
+  const eventsByYear = useMemo(() => {
+    const groups: { year: number; events: TimelineEvent[] }[] = [];
+    for (const event of events) {
+      const last = groups[groups.length - 1];
+      if (last && last.year === event.year) last.events.push(event);
+      else groups.push({ year: event.year, events: [event] });
+    }
+    return groups;
+  }, [events]);
+
+  const toggleKind = (kind: TimelineEventKind) => {
+    setKinds(prev => (prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8" dir="rtl">
+      <div className="max-w-4xl mx-auto px-4">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Clock className="w-6 h-6 text-green-600" />
+            الخط الزمني للعائلة
+          </h1>
+          <p className="text-gray-600 mt-1">المواليد والوفيات واللقاءات والقصص والصور في تسلسل واحد</p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm p-4 mb-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3">
+            <select
+              value={lineageBranchId}
+              onChange={e => { setLineageBranchId(e.target.value); setSubBranchId(''); }}
+              className="px-3 py-2 border rounded-lg text-sm"
+              aria-label="الفرع"
+            >
+              <option value="">كل الفروع</option>
+              {branches.map(branch => (
+                <option key={branch.id} value={branch.id}>فرع {branch.name}</option>
+              ))}
+            </select>
+            <select
+              value={subBranchId}
+              onChange={e => setSubBranchId(e.target.value)}
+              disabled={subBranches.length === 0}
+              className="px-3 py-2 border rounded-lg text-sm disabled:opacity-50"
+              aria-label="الفرع الفرعي"
+            >
+              <option value="">كل الفروع الفرعية</option>
+              {subBranches.map(branch => (
+                <option key={branch.id} value={branch.id}>{branch.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={from}
+              onChange={e => { setFrom(e.target.value); setDecade(null); }}
+              placeholder="من سنة"
+              className="px-3 py-2 border rounded-lg text-sm"
+              aria-label="من سنة"
+            />
+            <input
+              type="number"
+              value={to}
+              onChange={e => { setTo(e.target.value); setDecade(null); }}
+              placeholder="إلى سنة"
+              className="px-3 py-2 border rounded-lg text-sm"
+              aria-label="إلى سنة"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {TIMELINE_EVENT_KINDS.map(kind => (
+              <button
+                key={kind}
+                onClick={() => toggleKind(kind)}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full border text-sm transition-opacity ${kindColors[kind]} ${
+                  kinds.includes(kind) ? '' : 'opacity-40'
+                }`}
+                aria-pressed={kinds.includes(kind)}
+              >
+                {kindIcons[kind]}
+                {TIMELINE_EVENT_KIND_LABELS[kind].ar}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Decades */}
+        {decades.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm p-4 mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="font-bold text-gray-800">العقود</h2>
+              {decade != null && (
+                <button
+                  onClick={() => setDecade(null)}
+                  className="flex items-center gap-1 text-sm text-green-700 hover:text-green-900"
+                >
+                  <ZoomOut className="w-4 h-4" />
+                  عرض كل العقود
+                </button>
+              )}
+            </div>
+            <div className="flex items-end gap-1 overflow-x-auto pb-1" dir="ltr">
+              {decades.map(entry => (
+                <button
+                  key={entry.decade}
+                  onClick={() => setDecade(entry.decade)}
+                  className="flex flex-col items-center min-w-[44px] group"
+                  title={`${entry.decade}s: ${entry.count}`}
+                >
+                  <span
+                    className={`w-6 rounded-t transition-colors ${
+                      decade === entry.decade ? 'bg-green-600' : 'bg-green-300 group-hover:bg-green-500'
+                    }`}
+                    style={{ height: `${8 + (entry.count / maxDecadeCount) * 72}px` }}
+                  />
+                  <span className={`text-xs mt-1 ${decade === entry.decade ? 'font-bold text-green-700' : 'text-gray-500'}`}>
+                    {entry.decade}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Events */}
+        {loading ? (
+          <div className="text-center py-12 text-gray-500">جاري التحميل...</div>
+        ) : eventsByYear.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-10 text-center text-gray-500">
+            لا توجد أحداث في هذه الفترة
+          </div>
+        ) : (
+          <ol className="relative border-r-2 border-green-200 pr-6 space-y-6">
+            {eventsByYear.map(group => (
+              <li key={group.year}>
+                <span className="absolute -right-[9px] mt-1 w-4 h-4 rounded-full bg-green-600 border-2 border-white" />
+                <h3 className="font-bold text-gray-900 mb-2">{group.year}</h3>
+                <div className="space-y-2">
+                  {group.events.map(event => (
+                    <TimelineEventCard key={event.id} event={event} />
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TimelineEventCard({ event }: { event: TimelineEvent }) {
+  const content = (
+    <div className="bg-white rounded-lg shadow-sm p-3 flex items-center gap-3 hover:shadow transition-shadow">
+      {event.imageUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={event.imageUrl} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+      ) : (
+        <span className={`w-12 h-12 rounded-lg border flex items-center justify-center flex-shrink-0 ${kindColors[event.kind]}`}>
+          {kindIcons[event.kind]}
+        </span>
+      )}
+      <div className="min-w-0">
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span>{TIMELINE_EVENT_KIND_LABELS[event.kind].ar}</span>
+          {event.date && <span>{new Date(event.date).toLocaleDateString('ar-SA')}</span>}
+          {event.yearTo && <span>{event.year}–{event.yearTo}</span>}
+          {event.approximate && <span>(تقريبي)</span>}
+        </div>
+        <p className="font-medium text-gray-900 truncate">{event.titleAr}</p>
+        {event.descriptionAr && <p className="text-sm text-gray-600 line-clamp-2">{event.descriptionAr}</p>}
+      </div>
+    </div>
+  );
+
+  return event.linkUrl ? <Link href={event.linkUrl}>{content}</Link> : content;
+}
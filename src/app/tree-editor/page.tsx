@@ -24,7 +24,11 @@ import {
   History,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import MergeConflictDialog from '@/components/MergeConflictDialog';
+import TreePresence from '@/components/TreePresence';
+import { applyTreeEvent, VERSION_CONFLICT, type MemberTreeEvent, type VersionConflictDetails } from '@/lib/collaboration';
 import { validateParentChange } from '@/lib/edit-utils';
+import { useTreeEvents } from '@/lib/hooks/useTreeEvents';
 import { FamilyMember, TreeNode } from '@/lib/types';
 
 interface D3Node extends d3.HierarchyPointNode<TreeNode> {
@@ -48,10 +52,12 @@ interface PendingChange {
   newParentId: string | null;
   oldParentName: string | null;
   newParentName: string | null;
+  /** Member version the change was made against */
+  expectedVersion?: number;
 }
 
 export default function TreeEditorPage() {
-  const { session } = useAuth();
+  const { session, isLoading: authLoading, getAuthHeader } = useAuth();
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -71,25 +77,32 @@ export default function TreeEditorPage() {
   const [pendingDrop, setPendingDrop] = useState<{ nodeId: string; newParentId: string } | null>(null);
   const [allMembers, setAllMembers] = useState<FamilyMember[]>([]);
   const [treeData, setTreeData] = useState<TreeNode | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [conflict, setConflict] = useState<{ change: PendingChange; details: VersionConflictDetails } | null>(null);
+
+  // Fetch tree structure
+  const loadTree = useCallback(async () => {
+    try {
+      const treeResponse = await fetch('/api/tree', { headers: getAuthHeader() });
+      if (treeResponse.ok) {
+        const tree = await treeResponse.json();
+        setTreeData(tree as TreeNode);
+      }
+    } catch (error) {
+      console.error('Failed to fetch tree:', error);
+    }
+  }, [getAuthHeader]);
 
   // Fetch tree data from API
   useEffect(() => {
+    if (authLoading) return;
+
     async function fetchData() {
       try {
-        const headers: HeadersInit = {};
-        if (session?.token) {
-          headers['Authorization'] = `Bearer ${session.token}`;
-        }
-
-        // Fetch tree structure
-        const treeResponse = await fetch('/api/tree', { headers });
-        if (treeResponse.ok) {
-          const tree = await treeResponse.json();
-          setTreeData(tree as TreeNode);
-        }
+        await loadTree();
 
         // Fetch all members for lookup
-        const membersResponse = await fetch('/api/members?limit=500', { headers });
+        const membersResponse = await fetch('/api/members?limit=500', { headers: getAuthHeader() });
         if (membersResponse.ok) {
           const result = await membersResponse.json();
           setAllMembers(result.data || []);
@@ -99,7 +112,21 @@ export default function TreeEditorPage() {
       }
     }
     fetchData();
-  }, [session?.token]);
+  }, [authLoading, session?.token, loadTree, getAuthHeader]);
+
+  // Changes saved by other editors: keep the lookup list current and
+  // rebuild the tree, since a move can reshape a whole branch
+  const { connected, connectionId, presence } = useTreeEvents({
+    enabled: !authLoading,
+    mode: editMode ? 'editing' : 'viewing',
+    branch: selectedNode?.branch || null,
+    memberId: selectedNode?.id || null,
+    getAuthHeader,
+    onMemberEvent: (event: MemberTreeEvent) => {
+      setAllMembers(prev => applyTreeEvent(prev, event));
+      loadTree();
+    },
+  });
 
   // D3 references
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
@@ -377,7 +404,8 @@ export default function TreeEditorPage() {
         oldParentId: member.fatherId,
         newParentId: pendingDrop.newParentId,
         oldParentName: oldParent?.firstName || null,
-        newParentName: newParent?.firstName || null
+        newParentName: newParent?.firstName || null,
+        expectedVersion: member.version
       };
 
       setPendingChanges(prev => [...prev, change]);
@@ -385,31 +413,85 @@ export default function TreeEditorPage() {
 
     setShowConfirmDialog(false);
     setPendingDrop(null);
-  }, [pendingDrop]);
+  }, [pendingDrop, allMembers]);
 
   // Remove pending change
   const removePendingChange = (index: number) => {
     setPendingChanges(prev => prev.filter((_, i) => i !== index));
   };
 
-  // Save all changes
-  const saveChanges = async () => {
-    if (pendingChanges.length === 0) return;
+  // Save all changes, one move at a time. A move made against a stale
+  // version stops the save and opens the merge dialog; the rest stay pending.
+  const saveChanges = async (changes: PendingChange[] = pendingChanges) => {
+    if (changes.length === 0 || saving) return;
+    setSaving(true);
+
+    try {
+      const remaining = [...changes];
+      while (remaining.length > 0) {
+        const change = remaining[0];
+        const response = await fetch('/api/tree/move', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+          body: JSON.stringify({
+            memberId: change.memberId,
+            newParentId: change.newParentId,
+            updateGenerations: true,
+            expectedVersion: change.expectedVersion,
+          }),
+        });
+        const result = await response.json();
 
-    // Save to localStorage
-    const history = JSON.parse(localStorage.getItem('alshaye_tree_changes') || '[]');
-    history.push({
-      timestamp: new Date().toISOString(),
-      changes: pendingChanges
-    });
-    localStorage.setItem('alshaye_tree_changes', JSON.stringify(history));
+        if (response.status === 409 && result.details?.reason === VERSION_CONFLICT) {
+          setPendingChanges(remaining);
+          setConflict({ change, details: result.details });
+          return;
+        }
+        if (!response.ok) {
+          setPendingChanges(remaining);
+          alert(result.errorAr || result.error || 'فشل حفظ التغييرات');
+          return;
+        }
 
-    // Clear pending
-    setPendingChanges([]);
-    setEditMode(false);
-    alert('تم حفظ التغييرات بنجاح');
+        if (result.member) {
+          setAllMembers(prev => prev.map(m => (m.id === change.memberId ? { ...m, ...result.member } : m)));
+        }
+        remaining.shift();
+      }
+
+      // Clear pending
+      setPendingChanges([]);
+      setEditMode(false);
+      await loadTree();
+      alert('تم حفظ التغييرات بنجاح');
+    } catch (error) {
+      console.error('Failed to save changes:', error);
+      alert('فشل حفظ التغييرات');
+    } finally {
+      setSaving(false);
+    }
   };
 
+  // Merge dialog choices
+  const keepTheirs = () => {
+    if (!conflict) return;
+    setPendingChanges(prev => prev.filter(c => c !== conflict.change));
+    setConflict(null);
+    loadTree();
+  };
+
+  const applyMine = () => {
+    if (!conflict?.details.current) return;
+    const retried = { ...conflict.change, expectedVersion: conflict.details.current.version };
+    const changes = pendingChanges.map(c => (c === conflict.change ? retried : c));
+    setPendingChanges(changes);
+    setConflict(null);
+    saveChanges(changes);
+  };
+
+  const conflictParentName = (parentId: string | null | undefined) =>
+    (parentId && allMembers.find(m => m.id === parentId)?.firstName) || parentId || 'جذر';
+
   return (
     <div className="h-screen flex flex-col bg-gray-100" dir="rtl">
       {/* Header */}
@@ -429,6 +511,13 @@ export default function TreeEditorPage() {
           </div>
 
           <div className="flex items-center gap-3">
+            <TreePresence
+              presence={presence}
+              connected={connected}
+              connectionId={connectionId}
+              className="text-white"
+            />
+
             {/* Edit mode toggle */}
             <button
               onClick={() => setEditMode(!editMode)}
@@ -444,8 +533,9 @@ export default function TreeEditorPage() {
 
             {pendingChanges.length > 0 && (
               <button
-                onClick={saveChanges}
-                className="flex items-center gap-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600"
+                onClick={() => saveChanges()}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
               >
                 <Save className="w-4 h-4" />
                 حفظ ({pendingChanges.length})
@@ -742,6 +832,23 @@ export default function TreeEditorPage() {
           </div>
         </div>
       )}
+
+      {/* Merge dialog */}
+      {conflict && (
+        <MergeConflictDialog
+          conflict={conflict.details}
+          fields={[
+            {
+              label: 'الأب',
+              mine: conflict.change.newParentName || 'جذر',
+              theirs: conflictParentName(conflict.details.current?.fatherId),
+            },
+          ]}
+          onKeepTheirs={keepTheirs}
+          onApplyMine={applyMine}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
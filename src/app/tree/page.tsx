@@ -1,14 +1,19 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { FamilyMember } from '@/lib/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { FamilyMember, Marriage } from '@/lib/types';
 import {
   Search, ChevronDown, ChevronRight, Users, User,
-  Eye, X, TreePine, LayoutGrid, List, GitBranch
+  Eye, X, TreePine, LayoutGrid, List, GitBranch, Link2
 } from 'lucide-react';
 import Link from 'next/link';
 import FamilyTreeGraph from '@/components/FamilyTreeGraph';
+import RelationshipPanel from '@/components/RelationshipPanel';
 import { FeatureGate } from '@/components/FeatureGate';
+import TreePresence from '@/components/TreePresence';
+import { applyTreeEvent } from '@/lib/collaboration';
+import { useTreeEvents } from '@/lib/hooks/useTreeEvents';
 
 type ViewMode = 'tree' | 'generations' | 'list' | 'graph';
 
@@ -23,14 +28,20 @@ function TreePageContent() {
   const [selectedMember, setSelectedMember] = useState<FamilyMember | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const { getAuthHeader, isLoading: authLoading } = useAuth();
   const [allMembers, setAllMembers] = useState<FamilyMember[]>([]);
   const [membersLoading, setMembersLoading] = useState(true);
+  const [marriages, setMarriages] = useState<Marriage[]>([]);
+  const [showRelationship, setShowRelationship] = useState(false);
+  const [relationshipPath, setRelationshipPath] = useState<string[]>([]);
 
   // Fetch members from API (public access)
   useEffect(() => {
+    // Wait for the session so members are redacted for the signed-in viewer
+    if (authLoading) return;
     async function fetchMembers() {
       try {
-        const response = await fetch('/api/members?limit=500');
+        const response = await fetch('/api/members?limit=500', { headers: getAuthHeader() });
         if (response.ok) {
           const result = await response.json();
           setAllMembers(result.data || []);
@@ -42,7 +53,33 @@ function TreePageContent() {
       }
     }
     fetchMembers();
-  }, []);
+  }, [authLoading, getAuthHeader]);
+
+  // Apply other editors' changes as they are saved
+  const { connected, connectionId, presence } = useTreeEvents({
+    enabled: !authLoading,
+    branch: selectedMember?.branch || null,
+    memberId: selectedMember?.id || null,
+    getAuthHeader,
+    onMemberEvent: event => setAllMembers(prev => applyTreeEvent(prev, event)),
+  });
+
+  // Fetch marriages to order children by wife order in the graph
+  useEffect(() => {
+    if (authLoading) return;
+    async function fetchMarriages() {
+      try {
+        const response = await fetch('/api/marriages', { headers: getAuthHeader() });
+        if (response.ok) {
+          const result = await response.json();
+          setMarriages(result.data || []);
+        }
+      } catch (error) {
+        console.error('Failed to fetch marriages:', error);
+      }
+    }
+    fetchMarriages();
+  }, [authLoading, getAuthHeader]);
 
   // Helper to get member by ID from the loaded members
   const getMemberById = (id: string): FamilyMember | undefined => {
@@ -146,6 +183,19 @@ function TreePageContent() {
     setTimeout(() => setHighlightedId(null), 4000);
   };
 
+  // Highlight a relationship path and expand the tree along it
+  const showRelationshipPath = (path: string[]) => {
+    setRelationshipPath(path);
+    if (path.length > 0) {
+      const newExpanded = new Set(expandedNodes);
+      path.forEach(id => {
+        const member = getMemberById(id);
+        if (member?.fatherId) newExpanded.add(member.fatherId);
+      });
+      setExpandedNodes(newExpanded);
+    }
+  };
+
   const generationColors: Record<number, string> = {
     1: 'bg-red-500',
     2: 'bg-orange-500',
@@ -162,6 +212,7 @@ function TreePageContent() {
     const isExpanded = expandedNodes.has(node.id);
     const hasChildren = node.children.length > 0;
     const isHighlighted = node.id === highlightedId;
+    const isOnPath = relationshipPath.includes(node.id);
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
       if (e.key === 'Enter' || e.key === ' ') {
@@ -184,7 +235,7 @@ function TreePageContent() {
         <div
           className={`
             flex items-center gap-1 sm:gap-2 py-1.5 sm:py-2 px-2 sm:px-3 rounded-lg mb-1 transition-all cursor-pointer
-            ${isHighlighted ? 'bg-yellow-100 ring-2 ring-yellow-400 animate-pulse' : 'hover:bg-gray-50'}
+            ${isHighlighted ? 'bg-yellow-100 ring-2 ring-yellow-400 animate-pulse' : isOnPath ? 'bg-amber-50 ring-2 ring-amber-400' : 'hover:bg-gray-50'}
             ${level === 0 ? 'bg-green-50 border border-green-200' : ''}
             focus-within:ring-2 focus-within:ring-green-400
           `}
@@ -406,6 +457,12 @@ function TreePageContent() {
           <p className="text-gray-500 text-sm mt-1">
             {allMembers.length} عضو • {generations.length} أجيال
           </p>
+          <TreePresence
+            presence={presence}
+            connected={connected}
+            connectionId={connectionId}
+            className="justify-center flex-wrap mt-2"
+          />
         </div>
 
         {/* Controls */}
@@ -484,6 +541,17 @@ function TreePageContent() {
               </button>
             </div>
 
+            {/* Relationship Calculator */}
+            <button
+              onClick={() => setShowRelationship(!showRelationship)}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm transition-all ${
+                showRelationship ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Link2 size={16} />
+              <span className="hidden sm:inline">صلة القرابة</span>
+            </button>
+
             {/* Expand/Collapse for Tree View */}
             {viewMode === 'tree' && (
               <div className="flex items-center gap-2">
@@ -504,6 +572,14 @@ function TreePageContent() {
           </div>
         </div>
 
+        {showRelationship && (
+          <RelationshipPanel
+            members={allMembers}
+            onPathChange={showRelationshipPath}
+            onClose={() => setShowRelationship(false)}
+          />
+        )}
+
         {/* Main Content */}
         <div className="flex gap-4">
           {/* Tree/Grid/List/Graph */}
@@ -522,6 +598,8 @@ function TreePageContent() {
                 members={allMembers}
                 onSelectMember={setSelectedMember}
                 highlightedId={highlightedId}
+                marriages={marriages}
+                highlightedPath={relationshipPath}
               />
             )}
           </div>
@@ -415,12 +415,15 @@ export default function BranchTreeViewer({
                   const isHovered = hoveredNode?.id === node.data.id;
                   const isMale = node.data.gender === 'Male';
                   const isPending = node.data.isPending;
+                  const isPlaceholder = !!node.data.isPlaceholder;
 
                   return (
                     <g
                       key={node.data.id}
                       transform={`translate(${node.x}, ${node.y})`}
                       onMouseEnter={(e) => {
+                        // Hidden members have no details to show
+                        if (isPlaceholder) return;
                         setHoveredNode(node.data);
                         const rect = containerRef.current?.getBoundingClientRect();
                         if (rect) {
@@ -454,8 +457,9 @@ export default function BranchTreeViewer({
                         rx={14}
                         fill={isPending ? '#fefce8' : 'white'}
                         filter="url(#viewer-card-shadow)"
-                        stroke={isPending ? '#fbbf24' : isHovered ? '#22c55e' : '#e5e7eb'}
+                        stroke={isPending ? '#fbbf24' : isHovered ? '#22c55e' : isPlaceholder ? '#d1d5db' : '#e5e7eb'}
                         strokeWidth={isPending ? 2 : 1}
+                        strokeDasharray={isPlaceholder ? '4 3' : undefined}
                       />
 
                       {/* Generation bar */}
@@ -473,14 +477,14 @@ export default function BranchTreeViewer({
                         cx={0}
                         cy={-12}
                         r={20}
-                        fill={isPending ? 'url(#viewer-pending-gradient)' : isMale ? 'url(#viewer-male-gradient)' : 'url(#viewer-female-gradient)'}
+                        fill={isPending ? 'url(#viewer-pending-gradient)' : isPlaceholder ? '#d1d5db' : isMale ? 'url(#viewer-male-gradient)' : 'url(#viewer-female-gradient)'}
                         stroke="white"
                         strokeWidth={3}
                       />
 
                       {/* Icon */}
                       <text x={0} y={-7} textAnchor="middle" fontSize={16} fill="white">
-                        {isPending ? '⏳' : isMale ? '♂' : '♀'}
+                        {isPending ? '⏳' : isPlaceholder ? '?' : isMale ? '♂' : '♀'}
                       </text>
 
                       {/* Name */}
@@ -490,7 +494,7 @@ export default function BranchTreeViewer({
                         textAnchor="middle"
                         fontSize={12}
                         fontWeight="600"
-                        fill={isPending ? '#d97706' : '#1f2937'}
+                        fill={isPending ? '#d97706' : isPlaceholder ? '#9ca3af' : '#1f2937'}
                       >
                         {node.data.firstName}
                       </text>
@@ -27,6 +27,7 @@ const routeConfig: Record<string, { label: string; labelEn: string }> = {
   '/admin/database/history': { label: 'السجل', labelEn: 'History' },
   '/admin/database/snapshots': { label: 'النسخ الاحتياطية', labelEn: 'Snapshots' },
   '/admin/database/pending': { label: 'قيد الانتظار', labelEn: 'Pending' },
+  '/admin/database/update-requests': { label: 'طلبات التحديث', labelEn: 'Update Requests' },
   '/admin/database/branches': { label: 'روابط الفروع', labelEn: 'Branch Links' },
   '/admin/config': { label: 'الإعدادات', labelEn: 'Config' },
   '/admin/tools': { label: 'الأدوات', labelEn: 'Tools' },
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { Download, FileText, Loader2, CheckCircle, Share2 } from 'lucide-react';
 import { FamilyMember } from '@/lib/types';
+import { prepareMembersForExport } from '@/lib/export-utils';
 
 interface ExportPDFProps {
   className?: string;
@@ -23,7 +24,7 @@ export default function ExportPDF({ className = '', members, stats }: ExportPDFP
 
     // Group members by generation
     const generations: Record<number, FamilyMember[]> = {};
-    members.forEach((member) => {
+    prepareMembersForExport(members).forEach((member) => {
       if (!generations[member.generation]) {
         generations[member.generation] = [];
       }
@@ -331,7 +332,7 @@ export function ExportButton({ onExport, members }: { onExport?: () => void; mem
     try {
       // Generate CSV content
       const csvHeader = 'ID,الاسم الكامل,الجنس,الجيل,الفرع,سنة الميلاد,المدينة,المهنة\n';
-      const csvRows = members
+      const csvRows = prepareMembersForExport(members)
         .map(
           (m) =>
             `${m.id},"${m.fullNameAr || m.firstName}",${m.gender === 'Male' ? 'ذكر' : 'أنثى'},${m.generation},"${m.branch || ''}",${m.birthYear || ''},"${m.city || ''}","${m.occupation || ''}"`
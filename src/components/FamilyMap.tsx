@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import {
+  GAZETTEER_CITIES,
+  clusterByDistance,
+  type CityCluster,
+  type MigrationFlow,
+} from '@/lib/gazetteer';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+const PADDING = 50;
+// Cities closer than this on screen are drawn as one cluster
+const CLUSTER_RADIUS = 28;
+
+interface FamilyMapProps {
+  residences: CityCluster[];
+  migrations: MigrationFlow[];
+  showMigrations?: boolean;
+  selectedCityIds?: string[];
+  onSelect?: (cities: CityCluster[]) => void;
+  className?: string;
+}
+
+/**
+ * Offline SVG map of member cities: a Mercator projection fitted to the
+ * data, circles clustered by screen distance (re-clustered on zoom) and
+ * curved arrows from birthplace to current city
+ */
+export default function FamilyMap({
+  residences,
+  migrations,
+  showMigrations = true,
+  selectedCityIds = [],
+  onSelect,
+  className = '',
+}: FamilyMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [transform, setTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+
+  // Fit to the cities on the map, or the whole gazetteer when there are too few
+  const projection = useMemo(() => {
+    const coordinates = [
+      ...residences.map(r => [r.city.lng, r.city.lat]),
+      ...migrations.flatMap(m => [[m.from.lng, m.from.lat], [m.to.lng, m.to.lat]]),
+    ];
+    const distinct = new Set(coordinates.map(c => c.join(',')));
+    const points = distinct.size >= 2 ? coordinates : GAZETTEER_CITIES.map(c => [c.lng, c.lat]);
+
+    return d3.geoMercator().fitExtent(
+      [[PADDING, PADDING], [WIDTH - PADDING, HEIGHT - PADDING]],
+      { type: 'MultiPoint', coordinates: points }
+    );
+  }, [residences, migrations]);
+
+  const graticule = useMemo(
+    () => d3.geoPath(projection)(d3.geoGraticule().step([2, 2])()) || '',
+    [projection]
+  );
+
+  const project = (lng: number, lat: number): [number, number] => projection([lng, lat]) || [0, 0];
+
+  const clusters = useMemo(() => {
+    const points = residences.map(residence => {
+      const [x, y] = projection([residence.city.lng, residence.city.lat]) || [0, 0];
+      return { x, y, weight: residence.count, item: residence };
+    });
+    return clusterByDistance(points, CLUSTER_RADIUS / transform.k);
+  }, [residences, projection, transform.k]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([1, 40])
+      .translateExtent([[-WIDTH, -HEIGHT], [WIDTH * 2, HEIGHT * 2]])
+      .on('zoom', (event) => setTransform(event.transform));
+
+    svg.call(zoom);
+    return () => {
+      svg.on('.zoom', null);
+    };
+  }, []);
+
+  const k = transform.k;
+  const maxFlow = Math.max(1, ...migrations.map(m => m.count));
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={`w-full h-auto bg-sky-50 rounded-xl cursor-grab ${className}`}
+      role="img"
+      aria-label="خريطة أماكن إقامة أفراد العائلة"
+    >
+      <defs>
+        <marker id="family-map-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="#d97706" />
+        </marker>
+      </defs>
+
+      <g transform={transform.toString()}>
+        <path d={graticule} fill="none" stroke="#cbd5e1" strokeWidth={0.5 / k} />
+
+        {/* Migrations */}
+        {showMigrations && migrations.map(flow => {
+          const [x1, y1] = project(flow.from.lng, flow.from.lat);
+          const [x2, y2] = project(flow.to.lng, flow.to.lat);
+          // Bend the arrow to one side so opposite flows do not overlap
+          const mx = (x1 + x2) / 2 - (y2 - y1) * 0.2;
+          const my = (y1 + y2) / 2 + (x2 - x1) * 0.2;
+          return (
+            <path
+              key={`${flow.from.id}>${flow.to.id}`}
+              d={`M ${x1} ${y1} Q ${mx} ${my} ${x2} ${y2}`}
+              fill="none"
+              stroke="#d97706"
+              strokeOpacity={0.7}
+              strokeWidth={(1 + (3 * flow.count) / maxFlow) / k}
+              markerEnd="url(#family-map-arrow)"
+            >
+              <title>{`من ${flow.from.nameAr} إلى ${flow.to.nameAr}: ${flow.count}`}</title>
+            </path>
+          );
+        })}
+
+        {/* Residences */}
+        {clusters.map(cluster => {
+          const cities = cluster.items;
+          const selected = cities.some(city => selectedCityIds.includes(city.city.id));
+          const radius = (8 + Math.sqrt(cluster.weight) * 3) / k;
+          const label = cities.length === 1 ? cities[0].city.nameAr : `${cities[0].city.nameAr} +${cities.length - 1}`;
+          return (
+            <g
+              key={cities.map(c => c.city.id).join('|')}
+              transform={`translate(${cluster.x}, ${cluster.y})`}
+              onClick={() => onSelect?.(cities)}
+              className="cursor-pointer"
+            >
+              <circle
+                r={radius}
+                fill={selected ? '#15803d' : '#16a34a'}
+                fillOpacity={0.8}
+                stroke="#fff"
+                strokeWidth={1.5 / k}
+              />
+              <text textAnchor="middle" dy="0.35em" fontSize={11 / k} fill="#fff" fontWeight="bold">
+                {cluster.weight}
+              </text>
+              <text textAnchor="middle" y={radius + 12 / k} fontSize={11 / k} fill="#1f2937">
+                {label}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+    </svg>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import * as d3 from 'd3';
-import { FamilyMember } from '@/lib/types';
+import { FamilyMember, Marriage } from '@/lib/types';
+import { getMotherKey, getWifeKey, groupChildrenByMother, UNKNOWN_MOTHER_KEY } from '@/lib/lineage';
 import { ZoomIn, ZoomOut, Maximize2, Users, Home, GitBranch, Layers, Star } from 'lucide-react';
 import { generationColors, lineageColors, rootColor } from '@/config/theme';
 
@@ -17,6 +18,8 @@ interface FamilyTreeGraphProps {
   onSelectMember: (member: FamilyMember) => void;
   highlightedId?: string | null;
   currentUserId?: string | null; // For "Find Me" feature
+  marriages?: Marriage[]; // For ordering children by wife order
+  highlightedPath?: string[]; // Relationship path to highlight
 }
 
 interface D3TreeNode {
@@ -32,7 +35,7 @@ const GENERATION_COLORS = generationColors;
 const LINEAGE_COLORS = lineageColors;
 const ROOT_COLOR = rootColor;
 
-export default function FamilyTreeGraph({ members, onSelectMember, highlightedId, currentUserId }: FamilyTreeGraphProps) {
+export default function FamilyTreeGraph({ members, onSelectMember, highlightedId, currentUserId, marriages, highlightedPath }: FamilyTreeGraphProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const gRef = useRef<SVGGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -57,6 +60,33 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
     return map;
   }, [gen2Branches]);
 
+  // Husband ID -> (mother key -> wife order), plus names of external wives
+  const { wifeOrders, externalWifeNames } = useMemo(() => {
+    const orders = new Map<string, Map<string, number>>();
+    const names = new Map<string, string>();
+    (marriages || []).forEach(marriage => {
+      const key = getWifeKey(marriage);
+      if (key === UNKNOWN_MOTHER_KEY) return;
+      const husbandOrders = orders.get(marriage.husbandId) || new Map<string, number>();
+      husbandOrders.set(key, marriage.wifeOrder);
+      orders.set(marriage.husbandId, husbandOrders);
+      if (marriage.externalWifeName) names.set(key, marriage.externalWifeName);
+    });
+    return { wifeOrders: orders, externalWifeNames: names };
+  }, [marriages]);
+
+  // Resolve a display name for a child's mother
+  const getMotherName = useCallback((member: FamilyMember): string | null => {
+    if (member.motherId) {
+      const mother = members.find(m => m.id === member.motherId);
+      return mother?.firstName || null;
+    }
+    if (member.externalMotherName) return member.externalMotherName;
+    return externalWifeNames.get(getMotherKey(member)) || null;
+  }, [members, externalWifeNames]);
+
+  const pathIds = useMemo(() => new Set(highlightedPath || []), [highlightedPath]);
+
   // Build tree structure
   const treeData = useMemo(() => {
     const memberMap = new Map<string, TreeNode>();
@@ -77,17 +107,18 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
       }
     });
 
-    // Sort children by birth year
+    // Sort children by mother (wife order), then by birth year
     const sortChildren = (node: TreeNode) => {
       if (node.children) {
-        node.children.sort((a, b) => (a.birthYear || 0) - (b.birthYear || 0));
+        node.children = groupChildrenByMother(node.children, wifeOrders.get(node.id))
+          .flatMap(group => group.children);
         node.children.forEach(sortChildren);
       }
     };
 
     if (root) sortChildren(root);
     return root;
-  }, [members]);
+  }, [members, wifeOrders]);
 
   // Handle resize
   useEffect(() => {
@@ -119,6 +150,38 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
     return { nodes, links };
   }, [treeData]);
 
+  // Mother labels above each group of siblings, for fathers with children from more than one mother
+  const motherGroups = useMemo(() => {
+    const groups: { key: string; name: string; minX: number; maxX: number; y: number }[] = [];
+
+    nodes.forEach(node => {
+      if (!node.children || node.children.length === 0) return;
+
+      const byMother = new Map<string, D3TreeNode[]>();
+      node.children.forEach(child => {
+        const key = getMotherKey(child.data);
+        byMother.set(key, [...(byMother.get(key) || []), child]);
+      });
+
+      if (byMother.size < 2) return;
+
+      byMother.forEach((children, key) => {
+        if (key === UNKNOWN_MOTHER_KEY) return;
+        const name = getMotherName(children[0].data);
+        if (!name) return;
+        groups.push({
+          key: `${node.data.id}-${key}`,
+          name,
+          minX: Math.min(...children.map(c => c.x)) - 60,
+          maxX: Math.max(...children.map(c => c.x)) + 60,
+          y: children[0].y - 62,
+        });
+      });
+    });
+
+    return groups;
+  }, [nodes, getMotherName]);
+
   // Initialize D3 zoom behavior
   useEffect(() => {
     if (!svgRef.current || !gRef.current) return;
@@ -410,6 +473,24 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
             })}
           </g>
 
+          {/* Relationship path */}
+          <g className="path-links">
+            {links
+              .filter(link => pathIds.has(link.source.data.id) && pathIds.has(link.target.data.id))
+              .map(link => (
+                <path
+                  key={`path-${link.target.data.id}`}
+                  d={generateLinkPath(link.source, link.target)}
+                  fill="none"
+                  stroke="#f59e0b"
+                  strokeWidth={6}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  filter="url(#glow-highlight)"
+                />
+              ))}
+          </g>
+
           {/* Link connection dots */}
           <g className="link-dots">
             {links.map((link, i) => (
@@ -436,12 +517,49 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
             ))}
           </g>
 
+          {/* Mother group labels */}
+          <g className="mother-groups">
+            {motherGroups.map(group => (
+              <g key={group.key}>
+                <path
+                  d={`M ${group.minX} ${group.y + 6} L ${group.minX} ${group.y} L ${group.maxX} ${group.y} L ${group.maxX} ${group.y + 6}`}
+                  fill="none"
+                  stroke="#f9a8d4"
+                  strokeWidth={1.5}
+                />
+                <rect
+                  x={(group.minX + group.maxX) / 2 - 45}
+                  y={group.y - 9}
+                  width={90}
+                  height={18}
+                  rx={9}
+                  fill="#fdf2f8"
+                  stroke="#f9a8d4"
+                  strokeWidth={1}
+                />
+                <text
+                  x={(group.minX + group.maxX) / 2}
+                  y={group.y + 4}
+                  textAnchor="middle"
+                  fontSize={9}
+                  fontWeight="600"
+                  fill="#be185d"
+                  style={{ pointerEvents: 'none' }}
+                >
+                  أم: {group.name.slice(0, 12)}
+                </text>
+              </g>
+            ))}
+          </g>
+
           {/* Nodes */}
           <g className="nodes">
             {nodes.map((node) => {
               const isHighlighted = node.data.id === highlightedId;
+              const isOnPath = pathIds.has(node.data.id);
               const isHovered = hoveredNode?.id === node.data.id;
               const isMale = node.data.gender === 'Male';
+              const isPlaceholder = !!node.data.isPlaceholder;
               const nodeColors = getNodeColors(node.data);
 
               // Get gradient ID based on color mode
@@ -462,13 +580,16 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
                 <g
                   key={node.data.id}
                   transform={`translate(${node.x}, ${node.y})`}
-                  className="cursor-pointer"
+                  className={isPlaceholder ? 'cursor-default' : 'cursor-pointer'}
                   style={{ transition: 'transform 0.2s ease-out' }}
                   onClick={(e) => {
                     e.stopPropagation();
+                    // Hidden members have no profile to open
+                    if (isPlaceholder) return;
                     onSelectMember(node.data);
                   }}
                   onMouseEnter={(e) => {
+                    if (isPlaceholder) return;
                     setHoveredNode(node.data);
                     const rect = containerRef.current?.getBoundingClientRect();
                     if (rect) {
@@ -496,6 +617,20 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
                     />
                   )}
 
+                  {/* Ring for members on the relationship path */}
+                  {isOnPath && !isHighlighted && (
+                    <rect
+                      x={-70}
+                      y={-47}
+                      width={140}
+                      height={94}
+                      rx={16}
+                      fill="none"
+                      stroke="#f59e0b"
+                      strokeWidth={3}
+                    />
+                  )}
+
                   {/* Card background */}
                   <rect
                     x={-65}
@@ -505,8 +640,9 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
                     rx={14}
                     fill="white"
                     filter={isHovered ? 'url(#card-shadow-hover)' : 'url(#card-shadow)'}
-                    stroke={isHovered ? '#22c55e' : '#e5e7eb'}
+                    stroke={isHovered ? '#22c55e' : isPlaceholder ? '#d1d5db' : '#e5e7eb'}
                     strokeWidth={isHovered ? 2 : 1}
+                    strokeDasharray={isPlaceholder ? '4 3' : undefined}
                   />
 
                   {/* Color accent bar (by generation or lineage) */}
@@ -524,7 +660,7 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
                     cx={0}
                     cy={-12}
                     r={20}
-                    fill={isMale ? 'url(#male-gradient)' : 'url(#female-gradient)'}
+                    fill={isPlaceholder ? '#d1d5db' : isMale ? 'url(#male-gradient)' : 'url(#female-gradient)'}
                     stroke="white"
                     strokeWidth={3}
                   />
@@ -537,7 +673,7 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
                     fontSize={16}
                     fill="white"
                   >
-                    {isMale ? '♂' : '♀'}
+                    {isPlaceholder ? '?' : isMale ? '♂' : '♀'}
                   </text>
 
                   {/* Name */}
@@ -547,7 +683,7 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
                     textAnchor="middle"
                     fontSize={12}
                     fontWeight="600"
-                    fill="#1f2937"
+                    fill={isPlaceholder ? '#9ca3af' : '#1f2937'}
                     style={{ pointerEvents: 'none' }}
                   >
                     {node.data.firstName}
@@ -660,6 +796,14 @@ export default function FamilyTreeGraph({ members, onSelectMember, highlightedId
             </div>
           </div>
 
+          {/* Mother info */}
+          {getMotherName(hoveredNode) && (
+            <div className="mt-2 bg-pink-50 p-2.5 rounded-lg text-center">
+              <span className="font-bold text-pink-600 block text-sm">{getMotherName(hoveredNode)}</span>
+              <span className="text-gray-500 text-xs">الأم</span>
+            </div>
+          )}
+
           {/* Lineage info */}
           {hoveredNode.lineageBranchName && (
             <div className="mt-2 bg-indigo-50 p-2.5 rounded-lg text-center">
@@ -0,0 +1,101 @@
+'use client';
+
+import { AlertTriangle, Check, RotateCcw } from 'lucide-react';
+import type { VersionConflictDetails } from '@/lib/collaboration';
+
+export interface ConflictField {
+  label: string;
+  mine: string;
+  theirs: string;
+}
+
+interface MergeConflictDialogProps {
+  conflict: VersionConflictDetails;
+  /** The fields the user changed, with their value and the one saved meanwhile */
+  fields: ConflictField[];
+  /** Drop the user's change and keep the saved record */
+  onKeepTheirs: () => void;
+  /** Re-apply the user's change on top of the saved record */
+  onApplyMine: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when a save is rejected because someone else changed the member
+ * after it was loaded
+ */
+export default function MergeConflictDialog({
+  conflict,
+  fields,
+  onKeepTheirs,
+  onApplyMine,
+  onCancel,
+}: MergeConflictDialogProps) {
+  const { current } = conflict;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" dir="rtl">
+      <div className="bg-white rounded-xl shadow-xl p-6 max-w-lg w-full mx-4">
+        <div className="flex items-center gap-3 text-yellow-600 mb-4">
+          <AlertTriangle className="w-6 h-6" />
+          <h3 className="font-bold text-lg">تعارض في التعديل</h3>
+        </div>
+
+        {current ? (
+          <p className="text-gray-600 mb-4">
+            عدّل مستخدم آخر <strong>{current.fullNameAr || current.firstName}</strong> بعد تحميله.
+            اختر أي نسخة تريد الإبقاء عليها.
+          </p>
+        ) : (
+          <p className="text-gray-600 mb-4">حُذف هذا العضو بعد تحميله.</p>
+        )}
+
+        {current && fields.length > 0 && (
+          <table className="w-full text-sm mb-6 border rounded-lg overflow-hidden">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="p-2 text-right">الحقل</th>
+                <th className="p-2 text-right">المحفوظ حالياً</th>
+                <th className="p-2 text-right">تعديلك</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(field => (
+                <tr key={field.label} className="border-t">
+                  <td className="p-2 font-medium">{field.label}</td>
+                  <td className="p-2">{field.theirs}</td>
+                  <td className={`p-2 ${field.mine !== field.theirs ? 'bg-yellow-50' : ''}`}>{field.mine}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+          >
+            إلغاء
+          </button>
+          <button
+            onClick={onKeepTheirs}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            الإبقاء على المحفوظ
+          </button>
+          {current && (
+            <button
+              onClick={onApplyMine}
+              className="px-4 py-2 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] flex items-center gap-2"
+            >
+              <Check className="w-4 h-4" />
+              تطبيق تعديلي
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
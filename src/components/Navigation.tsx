@@ -11,6 +11,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useFeatureFlags, routeToFeature, FeatureKey } from '@/contexts/FeatureFlagsContext';
 import { ROLE_LABELS } from '@/lib/auth/types';
 import { mainNavItems, mobileNavItems, moreNavItems as configMoreNavItems, NavItem } from '@/config/navigation';
+import NotificationBell from '@/components/NotificationBell';
 
 // Using centralized navigation config
 const navItems = mainNavItems;
@@ -240,6 +241,7 @@ export function Navigation() {
 
             {/* User Menu (Desktop) */}
             <div className="hidden lg:flex items-center gap-4">
+              <NotificationBell />
               {user && (
                 <div className="relative">
                   <button
@@ -297,6 +299,7 @@ export function Navigation() {
 
             {/* Mobile: Search & Menu buttons */}
             <div className="flex items-center gap-2 lg:hidden">
+              <NotificationBell />
               <Link
                 href="/search"
                 className="p-2 rounded-lg hover:bg-green-500 transition-colors"
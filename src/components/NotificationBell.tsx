@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Bell } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Link to the inbox with the unread count, refreshed every minute and on
+ * navigation
+ */
+export default function NotificationBell({ className = '' }: { className?: string }) {
+  const { user, getAuthHeader } = useAuth();
+  const pathname = usePathname();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        const res = await fetch('/api/notifications?unread=true&limit=1', { headers: getAuthHeader() });
+        if (res.ok) {
+          const data = await res.json();
+          setUnreadCount(data.unreadCount || 0);
+        }
+      } catch {
+        // Keep the last count
+      }
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, getAuthHeader, pathname]);
+
+  if (!user) return null;
+
+  return (
+    <Link
+      href="/notifications"
+      className={`relative p-2 rounded-lg hover:bg-green-500 transition-colors ${className}`}
+      aria-label={unreadCount > 0 ? `الإشعارات (${unreadCount} غير مقروءة)` : 'الإشعارات'}
+    >
+      <Bell size={22} aria-hidden="true" />
+      {unreadCount > 0 && (
+        <span className="absolute -top-0.5 -left-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+}
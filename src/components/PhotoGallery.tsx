@@ -16,8 +16,8 @@ import {
 
 interface Photo {
   id: string;
-  imageData?: string;
-  thumbnailData?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
   category: string;
   title?: string;
   titleAr?: string;
@@ -109,7 +109,7 @@ export default function PhotoGallery({
       const res = await fetch(`/api/images/photo/${photoId}`);
       const data = await res.json();
       if (data.photo) {
-        setFullImageData(data.photo.imageData);
+        setFullImageData(data.photo.imageUrl);
       }
     } catch (error) {
       console.error('Error loading full image:', error);
@@ -218,7 +218,7 @@ export default function PhotoGallery({
                   >
                     {/* eslint-disable-next-line @next/next/no-img-element */}
                     <img
-                      src={photo.thumbnailData || photo.imageData}
+                      src={photo.thumbnailUrl || photo.imageUrl}
                       alt={photo.titleAr || photo.title || 'صورة'}
                       className="w-full h-full object-cover"
                     />
@@ -278,7 +278,7 @@ export default function PhotoGallery({
               >
                 {/* eslint-disable-next-line @next/next/no-img-element */}
                 <img
-                  src={photo.thumbnailData || photo.imageData}
+                  src={photo.thumbnailUrl || photo.imageUrl}
                   alt={photo.titleAr || photo.title || 'صورة'}
                   className="w-full h-full object-cover transition-transform group-hover:scale-105"
                 />
@@ -352,7 +352,7 @@ export default function PhotoGallery({
             ) : (
               // eslint-disable-next-line @next/next/no-img-element
               <img
-                src={fullImageData || selectedPhoto.thumbnailData || selectedPhoto.imageData}
+                src={fullImageData || selectedPhoto.thumbnailUrl || selectedPhoto.imageUrl}
                 alt={selectedPhoto.titleAr || selectedPhoto.title || 'صورة'}
                 className="max-w-full max-h-[80vh] object-contain"
               />
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowLeftRight, Link2, Loader2, X } from 'lucide-react';
+import SearchableDropdown from '@/components/SearchableDropdown';
+import { FamilyMember } from '@/lib/types';
+import { RelationshipResult } from '@/lib/relationship';
+
+interface PathMember {
+  id: string;
+  firstName: string;
+  fullNameAr: string | null;
+  gender: string;
+  generation: number;
+}
+
+interface RelationshipPanelProps {
+  members: FamilyMember[];
+  onPathChange: (path: string[]) => void;
+  onClose: () => void;
+}
+
+export default function RelationshipPanel({ members, onPathChange, onClose }: RelationshipPanelProps) {
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [result, setResult] = useState<(RelationshipResult & { pathMembers: PathMember[] }) | null>(null);
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fromMember = members.find(m => m.id === fromId);
+  const toMember = members.find(m => m.id === toId);
+
+  const calculate = async () => {
+    if (!fromId || !toId) return;
+
+    setIsLoading(true);
+    setMessage('');
+    try {
+      const response = await fetch(`/api/relationship?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setResult(null);
+        setMessage('تعذر حساب صلة القرابة');
+        onPathChange([]);
+        return;
+      }
+
+      setResult(data.data);
+      setMessage(data.data ? '' : data.messageAr);
+      onPathChange(data.data?.path || []);
+    } catch (error) {
+      console.error('Failed to calculate relationship:', error);
+      setMessage('تعذر حساب صلة القرابة');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const swap = () => {
+    setFromId(toId);
+    setToId(fromId);
+    setResult(null);
+    onPathChange([]);
+  };
+
+  const handleClose = () => {
+    onPathChange([]);
+    onClose();
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-4 mb-4 relative">
+      <button
+        onClick={handleClose}
+        className="absolute top-3 left-3 p-1.5 hover:bg-gray-100 rounded-lg"
+        aria-label="إغلاق"
+      >
+        <X size={18} />
+      </button>
+
+      <div className="flex items-center gap-2 mb-4">
+        <Link2 className="text-green-600" size={20} />
+        <h2 className="font-bold text-gray-800">حاسبة صلة القرابة</h2>
+        <span className="text-xs text-gray-400">Relationship Calculator</span>
+      </div>
+
+      <div className="flex flex-col md:flex-row items-stretch md:items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-sm text-gray-500 mb-1">الشخص الأول</label>
+          <SearchableDropdown
+            options={members}
+            value={fromId}
+            onChange={setFromId}
+            allowEmpty={false}
+            placeholder="اختر الشخص الأول..."
+          />
+        </div>
+
+        <button
+          onClick={swap}
+          className="p-2.5 border rounded-lg hover:bg-gray-50 self-center md:self-auto"
+          aria-label="تبديل"
+        >
+          <ArrowLeftRight size={18} />
+        </button>
+
+        <div className="flex-1">
+          <label className="block text-sm text-gray-500 mb-1">الشخص الثاني</label>
+          <SearchableDropdown
+            options={members}
+            value={toId}
+            onChange={setToId}
+            allowEmpty={false}
+            placeholder="اختر الشخص الثاني..."
+          />
+        </div>
+
+        <button
+          onClick={calculate}
+          disabled={!fromId || !toId || isLoading}
+          className="px-5 py-2.5 bg-green-500 hover:bg-green-600 disabled:bg-gray-300 text-white font-bold rounded-lg transition-colors flex items-center justify-center gap-2"
+        >
+          {isLoading && <Loader2 size={16} className="animate-spin" />}
+          احسب
+        </button>
+      </div>
+
+      {message && (
+        <p className="mt-4 text-sm text-gray-600 bg-gray-50 rounded-lg p-3">{message}</p>
+      )}
+
+      {result && fromMember && toMember && (
+        <div className="mt-4 border-t pt-4">
+          <p className="text-gray-700">
+            <span className="font-bold">{toMember.firstName}</span>
+            {' بالنسبة إلى '}
+            <span className="font-bold">{fromMember.firstName}</span>:
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mt-2">
+            <span className="text-2xl font-bold text-green-700">{result.termAr}</span>
+            <span className="text-sm text-gray-500" dir="ltr">{result.termEn}</span>
+            {result.cousinDegree > 0 && (
+              <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-xs">
+                درجة القرابة: {result.cousinDegree}
+                {result.removed > 0 && ` • فارق ${result.removed} جيل`}
+              </span>
+            )}
+          </div>
+
+          {/* Path through the common ancestor */}
+          <div className="flex flex-wrap items-center gap-1.5 mt-3 text-sm">
+            {result.pathMembers.map((member, index) => (
+              <span key={member.id} className="flex items-center gap-1.5">
+                {index > 0 && <span className="text-gray-300">←</span>}
+                <span
+                  className={`px-2 py-1 rounded-md ${
+                    member.id === result.commonAncestorId
+                      ? 'bg-amber-100 text-amber-800 font-bold'
+                      : member.gender === 'Female'
+                      ? 'bg-pink-50 text-pink-700'
+                      : 'bg-blue-50 text-blue-700'
+                  }`}
+                  title={member.fullNameAr || member.id}
+                >
+                  {member.firstName}
+                </span>
+              </span>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            الجد المشترك مميز باللون الأصفر
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Clock } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { TIMELINE_EVENT_KIND_LABELS, type ThisDayItem } from '@/lib/timeline';
+
+/**
+ * "This day in family history": events from today's date in earlier years
+ * and round anniversaries, with a link to the full timeline
+ */
+export default function ThisDayInHistory({ className = '' }: { className?: string }) {
+  const { getAuthHeader } = useAuth();
+  const [items, setItems] = useState<ThisDayItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/timeline/on-this-day', { headers: getAuthHeader() });
+        const data = await res.json();
+        if (data.success) setItems(data.data.items);
+      } catch (error) {
+        console.error('Error loading this day in family history:', error);
+      } finally {
+        setLoaded(true);
+      }
+    };
+    load();
+  }, [getAuthHeader]);
+
+  if (!loaded) return null;
+
+  return (
+    <div className={`bg-white rounded-2xl shadow-lg p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+          <Clock className="text-green-600" size={24} />
+          في مثل هذا اليوم
+        </h2>
+        <Link href="/timeline" className="text-sm text-green-700 hover:text-green-900">
+          الخط الزمني
+        </Link>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-gray-500 text-sm">لا توجد أحداث مسجلة في مثل هذا اليوم</p>
+      ) : (
+        <ul className="space-y-3">
+          {items.map(({ event, yearsAgo }) => (
+            <li key={event.id}>
+              <Link href={event.linkUrl || '/timeline'} className="flex items-center gap-3 hover:bg-gray-50 rounded-lg p-2 -m-2">
+                <span className="w-16 text-center text-sm font-bold text-green-700 flex-shrink-0">
+                  قبل {yearsAgo} {yearsAgo >= 3 && yearsAgo <= 10 ? 'سنوات' : 'سنة'}
+                </span>
+                <span className="min-w-0">
+                  <span className="block text-xs text-gray-500">
+                    {TIMELINE_EVENT_KIND_LABELS[event.kind].ar} · {event.year}
+                  </span>
+                  <span className="block font-medium text-gray-900 truncate">{event.titleAr}</span>
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
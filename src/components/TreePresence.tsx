@@ -0,0 +1,44 @@
+'use client';
+
+import { Eye, Pencil, Radio } from 'lucide-react';
+import { uniquePresence, type PresenceEntry } from '@/lib/collaboration';
+
+interface TreePresenceProps {
+  presence: PresenceEntry[];
+  connected: boolean;
+  /** The viewer's own connection, left out of the list */
+  connectionId?: string;
+  className?: string;
+}
+
+/**
+ * Who else has the tree open, what they are doing and in which branch
+ */
+export default function TreePresence({ presence, connected, connectionId, className = '' }: TreePresenceProps) {
+  const others = uniquePresence(presence.filter(entry => entry.connectionId !== connectionId));
+
+  return (
+    <div className={`flex items-center gap-2 text-sm ${className}`}>
+      <span
+        className={`flex items-center gap-1 ${connected ? 'text-green-600' : 'text-gray-400'}`}
+        title={connected ? 'متصل بالتحديثات المباشرة' : 'غير متصل'}
+      >
+        <Radio size={14} />
+        {connected ? 'مباشر' : 'غير متصل'}
+      </span>
+      {others.map(entry => (
+        <span
+          key={entry.connectionId}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-full ${
+            entry.mode === 'editing' ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-700'
+          }`}
+          title={`${entry.userName} ${entry.mode === 'editing' ? 'يعدّل' : 'يشاهد'}${entry.branch ? ` - ${entry.branch}` : ''}`}
+        >
+          {entry.mode === 'editing' ? <Pencil size={12} /> : <Eye size={12} />}
+          {entry.userName}
+          {entry.branch && <span className="opacity-70">· {entry.branch}</span>}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import {
   Image,
   Mail,
   Layers,
+  CalendarDays,
 } from 'lucide-react';
 import { useFeatureFlags, FeatureKey } from '@/contexts/FeatureFlagsContext';
 
@@ -43,6 +44,7 @@ interface NavItem {
 const adminRouteToFeature: Record<string, FeatureKey> = {
   '/admin/images': 'imageModeration',
   '/admin/broadcasts': 'broadcasts',
+  '/admin/gatherings': 'gatherings',
   '/admin/reports': 'reports',
   '/admin/audit': 'audit',
   '/admin/services': 'apiServices',
@@ -68,6 +70,7 @@ const adminNavItems: NavItem[] = [
       { href: '/admin/database/history', label: 'سجل التغييرات', labelEn: 'History', icon: History },
       { href: '/admin/database/snapshots', label: 'النسخ الاحتياطية', labelEn: 'Snapshots', icon: Camera },
       { href: '/admin/database/pending', label: 'الطلبات المعلقة', labelEn: 'Pending', icon: UserCheck },
+      { href: '/admin/database/update-requests', label: 'طلبات التحديث', labelEn: 'Update Requests', icon: ClipboardList },
       { href: '/admin/database/branches', label: 'روابط الفروع', labelEn: 'Branch Links', icon: Link2 },
     ],
   },
@@ -83,6 +86,12 @@ const adminNavItems: NavItem[] = [
     labelEn: 'Email Broadcasts',
     icon: Mail,
   },
+  {
+    href: '/admin/gatherings',
+    label: 'اللقاءات العائلية',
+    labelEn: 'Gatherings',
+    icon: CalendarDays,
+  },
   {
     href: '/admin/features',
     label: 'معاينة الميزات',
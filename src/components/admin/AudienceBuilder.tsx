@@ -0,0 +1,404 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Users, FolderPlus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  AUDIENCE_CONDITION_LABELS,
+  AUDIENCE_CONDITION_TYPES,
+  AUDIENCE_MAX_DEPTH,
+  type AudienceCondition,
+  type AudienceConditionType,
+  type AudienceRule,
+} from '@/lib/audience';
+import { USER_ROLES, ROLE_LABELS } from '@/lib/auth/types';
+import type { BroadcastChannel } from '@/lib/broadcast-channels';
+
+export interface LineageBranch {
+  id: string;
+  name: string;
+  subBranches: { id: string; name: string }[];
+}
+
+interface AudiencePreview {
+  matched: number;
+  recipients: number;
+}
+
+type AudienceGroup = Extract<AudienceRule, { type: 'and' | 'or' }>;
+
+const rsvpLabels = {
+  YES: 'حضر',
+  NO: 'اعتذر',
+  MAYBE: 'ربما',
+  NO_RESPONSE: 'لم يرد',
+};
+
+function isGroup(rule: AudienceRule): rule is AudienceGroup {
+  return rule.type === 'and' || rule.type === 'or';
+}
+
+export const EMPTY_AUDIENCE: AudienceGroup = { type: 'and', rules: [{ type: 'living', living: true }] };
+
+function defaultCondition(type: AudienceConditionType, branches: LineageBranch[]): AudienceCondition {
+  switch (type) {
+    case 'branch':
+      return { type, lineageBranchId: branches[0]?.id || '' };
+    case 'generation':
+      return { type, min: null, max: null };
+    case 'city':
+      return { type, cities: [] };
+    case 'gender':
+      return { type, gender: 'Male' };
+    case 'living':
+      return { type, living: true };
+    case 'age':
+      return { type, min: 18, max: null };
+    case 'descendantOf':
+      return { type, memberId: '', includeSelf: false };
+    case 'userRole':
+      return { type, roles: ['MEMBER'] };
+    case 'pastRsvp':
+      return { type, response: 'YES', minCount: 1 };
+  }
+}
+
+const inputClass = 'px-3 py-1.5 border rounded-lg text-sm';
+
+function toNumber(value: string): number | null {
+  return value === '' ? null : parseInt(value);
+}
+
+function ConditionFields({
+  condition,
+  onChange,
+  branches,
+}: {
+  condition: AudienceCondition;
+  onChange: (condition: AudienceCondition) => void;
+  branches: LineageBranch[];
+}) {
+  switch (condition.type) {
+    case 'branch': {
+      const subBranches = branches.find((b) => b.id === condition.lineageBranchId)?.subBranches || [];
+      return (
+        <>
+          <select
+            value={condition.lineageBranchId}
+            onChange={(e) => onChange({ ...condition, lineageBranchId: e.target.value, subBranchId: null })}
+            className={inputClass}
+          >
+            {branches.map((branch) => (
+              <option key={branch.id} value={branch.id}>{branch.name}</option>
+            ))}
+          </select>
+          <select
+            value={condition.subBranchId || ''}
+            onChange={(e) => onChange({ ...condition, subBranchId: e.target.value || null })}
+            className={inputClass}
+          >
+            <option value="">كل الفروع الفرعية</option>
+            {subBranches.map((sub) => (
+              <option key={sub.id} value={sub.id}>{sub.name}</option>
+            ))}
+          </select>
+        </>
+      );
+    }
+    case 'generation':
+    case 'age':
+      return (
+        <>
+          <input
+            type="number"
+            min={condition.type === 'generation' ? 1 : 0}
+            value={condition.min ?? ''}
+            onChange={(e) => onChange({ ...condition, min: toNumber(e.target.value) })}
+            className={`${inputClass} w-20`}
+            placeholder="من"
+          />
+          <input
+            type="number"
+            min={condition.type === 'generation' ? 1 : 0}
+            value={condition.max ?? ''}
+            onChange={(e) => onChange({ ...condition, max: toNumber(e.target.value) })}
+            className={`${inputClass} w-20`}
+            placeholder="إلى"
+          />
+        </>
+      );
+    case 'city':
+      return (
+        <input
+          type="text"
+          value={condition.cities.join('، ')}
+          onChange={(e) => onChange({
+            ...condition,
+            cities: e.target.value.split(/[،,]/).map((city) => city.trim()).filter(Boolean),
+          })}
+          className={`${inputClass} flex-1`}
+          placeholder="الرياض، جدة"
+        />
+      );
+    case 'gender':
+      return (
+        <select
+          value={condition.gender}
+          onChange={(e) => onChange({ ...condition, gender: e.target.value as 'Male' | 'Female' })}
+          className={inputClass}
+        >
+          <option value="Male">ذكر</option>
+          <option value="Female">أنثى</option>
+        </select>
+      );
+    case 'living':
+      return (
+        <select
+          value={condition.living ? 'yes' : 'no'}
+          onChange={(e) => onChange({ ...condition, living: e.target.value === 'yes' })}
+          className={inputClass}
+        >
+          <option value="yes">نعم</option>
+          <option value="no">متوفى</option>
+        </select>
+      );
+    case 'descendantOf':
+      return (
+        <>
+          <input
+            type="text"
+            value={condition.memberId}
+            onChange={(e) => onChange({ ...condition, memberId: e.target.value.trim() })}
+            className={`${inputClass} w-28`}
+            placeholder="P012"
+            dir="ltr"
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={!!condition.includeSelf}
+              onChange={(e) => onChange({ ...condition, includeSelf: e.target.checked })}
+            />
+            يشمله
+          </label>
+        </>
+      );
+    case 'userRole':
+      return (
+        <div className="flex flex-wrap gap-3">
+          {USER_ROLES.map((role) => (
+            <label key={role} className="flex items-center gap-1 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={condition.roles.includes(role)}
+                onChange={(e) => onChange({
+                  ...condition,
+                  roles: e.target.checked ? [...condition.roles, role] : condition.roles.filter((r) => r !== role),
+                })}
+              />
+              {ROLE_LABELS[role].ar}
+            </label>
+          ))}
+        </div>
+      );
+    case 'pastRsvp':
+      return (
+        <>
+          <select
+            value={condition.response}
+            onChange={(e) => onChange({ ...condition, response: e.target.value as keyof typeof rsvpLabels })}
+            className={inputClass}
+          >
+            {Object.entries(rsvpLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={condition.minCount ?? 1}
+            onChange={(e) => onChange({ ...condition, minCount: toNumber(e.target.value) })}
+            className={`${inputClass} w-20`}
+          />
+          <span className="text-sm text-gray-500">مرة على الأقل</span>
+        </>
+      );
+  }
+}
+
+function RuleNode({
+  rule,
+  onChange,
+  onRemove,
+  depth,
+  branches,
+}: {
+  rule: AudienceRule;
+  onChange: (rule: AudienceRule) => void;
+  onRemove?: () => void;
+  depth: number;
+  branches: LineageBranch[];
+}) {
+  const negated = rule.type === 'not';
+  const inner = rule.type === 'not' ? rule.rule : rule;
+  const update = (next: AudienceRule) => onChange(negated ? { type: 'not', rule: next } : next);
+
+  const controls = (
+    <div className="flex items-center gap-2 mr-auto">
+      {onRemove && (
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          <input
+            type="checkbox"
+            checked={negated}
+            onChange={(e) => onChange(e.target.checked ? { type: 'not', rule: inner } : inner)}
+          />
+          استثناء
+        </label>
+      )}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="p-1 text-gray-400 hover:text-red-600" title="حذف">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+
+  if (isGroup(inner)) {
+    const group = inner;
+    const setChild = (index: number, child: AudienceRule) =>
+      update({ ...group, rules: group.rules.map((r, i) => (i === index ? child : r)) });
+
+    return (
+      <div className={`border rounded-lg p-3 space-y-2 ${negated ? 'border-red-200 bg-red-50/40' : 'bg-gray-50'}`}>
+        <div className="flex items-center gap-2">
+          <select
+            value={group.type}
+            onChange={(e) => update({ ...group, type: e.target.value as 'and' | 'or' })}
+            className={inputClass}
+          >
+            <option value="and">تطابق جميع الشروط</option>
+            <option value="or">تطابق أي شرط</option>
+          </select>
+          {controls}
+        </div>
+        {group.rules.map((child, index) => (
+          <RuleNode
+            key={index}
+            rule={child}
+            onChange={(next) => setChild(index, next)}
+            onRemove={group.rules.length > 1 ? () => update({ ...group, rules: group.rules.filter((_, i) => i !== index) }) : undefined}
+            depth={depth + 1}
+            branches={branches}
+          />
+        ))}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => update({ ...group, rules: [...group.rules, defaultCondition('living', branches)] })}
+            className="flex items-center gap-1 text-sm text-[#1E3A5F] hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            شرط
+          </button>
+          {depth < AUDIENCE_MAX_DEPTH - 1 && (
+            <button
+              type="button"
+              onClick={() => update({ ...group, rules: [...group.rules, { type: 'or', rules: [defaultCondition('living', branches)] }] })}
+              className="flex items-center gap-1 text-sm text-[#1E3A5F] hover:underline"
+            >
+              <FolderPlus className="w-4 h-4" />
+              مجموعة
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // The editor only negates one level, but saved rules may nest NOT directly
+  if (inner.type === 'not') {
+    return <RuleNode rule={inner} onChange={update} onRemove={onRemove} depth={depth + 1} branches={branches} />;
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 border rounded-lg px-3 py-2 ${negated ? 'border-red-200 bg-red-50/40' : 'bg-white'}`}>
+      <select
+        value={inner.type}
+        onChange={(e) => update(defaultCondition(e.target.value as AudienceConditionType, branches))}
+        className={inputClass}
+      >
+        {AUDIENCE_CONDITION_TYPES.map((type) => (
+          <option key={type} value={type}>{AUDIENCE_CONDITION_LABELS[type].ar}</option>
+        ))}
+      </select>
+      <ConditionFields condition={inner} onChange={update} branches={branches} />
+      {controls}
+    </div>
+  );
+}
+
+/**
+ * Editor for AND/OR/NOT audience rules with a live count of the people
+ * matched and how many a broadcast on the given channels would reach
+ */
+export default function AudienceBuilder({
+  value,
+  onChange,
+  branches,
+  channels = ['EMAIL'],
+}: {
+  value: AudienceRule;
+  onChange: (rule: AudienceRule) => void;
+  branches: LineageBranch[];
+  channels?: BroadcastChannel[];
+}) {
+  const { getAuthHeader } = useAuth();
+  const [preview, setPreview] = useState<AudiencePreview | null>(null);
+  const [previewError, setPreviewError] = useState('');
+  const [isCounting, setIsCounting] = useState(false);
+  const channelKey = channels.join(',');
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      setIsCounting(true);
+      try {
+        const res = await fetch('/api/audience/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+          body: JSON.stringify({ rules: value, channels: channelKey.split(',') }),
+        });
+        const data = await res.json();
+        if (data.success) {
+          setPreview(data.data);
+          setPreviewError('');
+        } else {
+          setPreview(null);
+          setPreviewError(data.messageAr || data.error || 'القواعد غير مكتملة');
+        }
+      } catch {
+        setPreviewError('تعذر حساب العدد');
+      } finally {
+        setIsCounting(false);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [value, channelKey, getAuthHeader]);
+
+  return (
+    <div className="space-y-3">
+      <RuleNode rule={value} onChange={onChange} depth={0} branches={branches} />
+      <div className="flex items-center gap-2 text-sm">
+        <Users className="w-4 h-4 text-gray-500" />
+        {previewError ? (
+          <span className="text-red-600">{previewError}</span>
+        ) : preview ? (
+          <span className={isCounting ? 'text-gray-400' : 'text-gray-700'}>
+            يطابق {preview.matched} شخصاً · تصل الرسالة إلى {preview.recipients}
+          </span>
+        ) : (
+          <span className="text-gray-400">جاري الحساب...</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Clock, History, Loader2, Play, RefreshCw, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface JobRun {
+  id: string;
+  trigger: 'SCHEDULE' | 'RETRY' | 'MANUAL';
+  attempt: number;
+  status: 'RUNNING' | 'SUCCESS' | 'FAILED';
+  error: string | null;
+  startedAt: string;
+  duration: number | null;
+}
+
+interface ScheduledJob {
+  id: string;
+  name: string;
+  description: string | null;
+  jobType: string;
+  cronExpression: string;
+  timezone: string;
+  isEnabled: boolean;
+  isSupported: boolean;
+  isRunning: boolean;
+  lastRunAt: string | null;
+  lastRunStatus: string | null;
+  lastRunError: string | null;
+  nextRunAt: string | null;
+  maxRetries: number;
+  retryAttempt: number;
+  runs: JobRun[];
+}
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  BACKUP: 'نسخ احتياطي',
+  SCHEDULED_BROADCAST: 'إرسال الرسائل المجدولة',
+  CLEANUP: 'تنظيف البيانات المنتهية',
+  DUPLICATE_SCAN: 'فحص التكرارات',
+  NOTIFICATION_DIGEST: 'ملخص الإشعارات اليومي',
+};
+
+const TRIGGER_LABELS: Record<JobRun['trigger'], string> = {
+  SCHEDULE: 'مجدول',
+  RETRY: 'إعادة محاولة',
+  MANUAL: 'يدوي',
+};
+
+const POLL_INTERVAL_MS = 3000;
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('ar-SA') : '—';
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} مللي ثانية` : `${(ms / 1000).toFixed(1)} ثانية`;
+}
+
+function StatusBadge({ status }: { status: string | null }) {
+  if (status === 'SUCCESS') {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-green-100 text-green-700">
+        <CheckCircle className="w-3 h-3" /> نجح
+      </span>
+    );
+  }
+  if (status === 'FAILED') {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-red-100 text-red-700">
+        <XCircle className="w-3 h-3" /> فشل
+      </span>
+    );
+  }
+  if (status === 'RUNNING') {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700">
+        <Loader2 className="w-3 h-3 animate-spin" /> قيد التشغيل
+      </span>
+    );
+  }
+  return <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-500">لم يعمل بعد</span>;
+}
+
+export function ScheduledJobsPanel() {
+  const { session } = useAuth();
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [startingJobId, setStartingJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    if (!session?.token) return;
+    try {
+      const response = await fetch('/api/admin/jobs', {
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        setJobs(data.data);
+      } else {
+        setError(data.message || data.error || 'فشل في تحميل المهام المجدولة');
+      }
+    } catch (err) {
+      console.error('Failed to load scheduled jobs:', err);
+      setError('فشل في تحميل المهام المجدولة');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [session?.token]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Keep polling while a job is running
+  const hasRunningJob = jobs.some(job => job.isRunning);
+  useEffect(() => {
+    if (!hasRunningJob) return;
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRunningJob, loadJobs]);
+
+  const runNow = async (job: ScheduledJob) => {
+    if (!session?.token) return;
+    setStartingJobId(job.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/jobs/${job.id}/run`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.token}` },
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.message || 'فشل في تشغيل المهمة');
+      }
+      await loadJobs();
+    } catch (err) {
+      console.error('Failed to run job:', err);
+      setError('فشل في تشغيل المهمة');
+    } finally {
+      setStartingJobId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden mt-6">
+      <div className="p-6 border-b bg-gradient-to-l from-indigo-50 to-white flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+            <Clock className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h2 className="font-bold text-lg">المهام المجدولة</h2>
+            <p className="text-sm text-gray-500">Scheduled Jobs (توقيت الرياض)</p>
+          </div>
+        </div>
+        <button
+          onClick={loadJobs}
+          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+          title="تحديث"
+        >
+          <RefreshCw className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-6 p-3 rounded-lg bg-red-50 border border-red-200 text-red-800 text-sm flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-8 text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-[#1E3A5F] mx-auto" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <p className="p-6 text-center text-gray-500">لا توجد مهام مجدولة</p>
+      ) : (
+        <div className="divide-y">
+          {jobs.map(job => (
+            <div key={job.id} className="p-6">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-semibold">{JOB_TYPE_LABELS[job.jobType] || job.jobType}</h3>
+                    <StatusBadge status={job.isRunning ? 'RUNNING' : job.lastRunStatus} />
+                    {!job.isEnabled && (
+                      <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-500">معطلة</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">{job.description || job.name}</p>
+                  <div className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+                    <span>الجدولة: <code dir="ltr" className="bg-gray-100 px-1 rounded">{job.cronExpression}</code></span>
+                    <span>آخر تشغيل: {formatDateTime(job.lastRunAt)}</span>
+                    <span>التشغيل القادم: {job.isEnabled ? formatDateTime(job.nextRunAt) : '—'}</span>
+                    {job.retryAttempt > 0 && (
+                      <span className="text-amber-600">
+                        إعادة المحاولة {job.retryAttempt} من {job.maxRetries}
+                      </span>
+                    )}
+                  </div>
+                  {job.lastRunStatus === 'FAILED' && job.lastRunError && (
+                    <p className="mt-2 text-sm text-red-600">{job.lastRunError}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => runNow(job)}
+                  disabled={!job.isSupported || job.isRunning || startingJobId === job.id}
+                  className="flex items-center gap-2 px-4 py-2 bg-[#1E3A5F] text-white rounded-lg hover:bg-[#2D5A87] disabled:opacity-50"
+                >
+                  {startingJobId === job.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Play className="w-4 h-4" />
+                  )}
+                  تشغيل الآن
+                </button>
+              </div>
+
+              {job.runs.length > 0 && (
+                <div className="mt-4">
+                  <div className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2">
+                    <History className="w-4 h-4" />
+                    آخر التشغيلات
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-500 text-right">
+                        <th className="py-1 font-normal">البداية</th>
+                        <th className="py-1 font-normal">النوع</th>
+                        <th className="py-1 font-normal">الحالة</th>
+                        <th className="py-1 font-normal">المدة</th>
+                        <th className="py-1 font-normal">الخطأ</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {job.runs.map(run => (
+                        <tr key={run.id} className="border-t">
+                          <td className="py-1">{formatDateTime(run.startedAt)}</td>
+                          <td className="py-1">
+                            {TRIGGER_LABELS[run.trigger]}
+                            {run.attempt > 1 && ` (${run.attempt})`}
+                          </td>
+                          <td className="py-1"><StatusBadge status={run.status} /></td>
+                          <td className="py-1">{formatDuration(run.duration)}</td>
+                          <td className="py-1 text-red-600">{run.error || ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
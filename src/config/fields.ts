@@ -1,6 +1,8 @@
 // Field Configuration for Al-Shaye Family Tree
 // Centralized form field definitions for member data
 
+import { DATE_PRECISIONS, gregorianYearToHijri } from '@/lib/hijri';
+
 export type FieldType = 'text' | 'number' | 'email' | 'select' | 'textarea' | 'date';
 
 export interface FieldDefinition {
@@ -115,6 +117,42 @@ export const memberFields: FieldDefinition[] = [
     editable: true,
     validation: { min: 1500, max: new Date().getFullYear() },
   },
+  {
+    key: 'birthYearHijri',
+    label: 'سنة الميلاد (هجري)',
+    labelEn: 'Birth Year (AH)',
+    type: 'number',
+    required: false,
+    editable: true,
+    validation: { min: gregorianYearToHijri(1500), max: gregorianYearToHijri(new Date().getFullYear()) + 1 },
+  },
+  {
+    key: 'deathYearHijri',
+    label: 'سنة الوفاة (هجري)',
+    labelEn: 'Death Year (AH)',
+    type: 'number',
+    required: false,
+    editable: true,
+    validation: { min: gregorianYearToHijri(1500), max: gregorianYearToHijri(new Date().getFullYear()) + 1 },
+  },
+  {
+    key: 'birthYearPrecision',
+    label: 'دقة سنة الميلاد',
+    labelEn: 'Birth Year Precision',
+    type: 'select',
+    options: DATE_PRECISIONS,
+    required: false,
+    editable: true,
+  },
+  {
+    key: 'deathYearPrecision',
+    label: 'دقة سنة الوفاة',
+    labelEn: 'Death Year Precision',
+    type: 'select',
+    options: DATE_PRECISIONS,
+    required: false,
+    editable: true,
+  },
   {
     key: 'status',
     label: 'الحالة',
@@ -201,6 +239,8 @@ export const memberFields: FieldDefinition[] = [
 export const numericFields: string[] = [
   'birthYear',
   'deathYear',
+  'birthYearHijri',
+  'deathYearHijri',
   'sonsCount',
   'daughtersCount',
   'generation',
@@ -3,7 +3,7 @@
 
 import {
   Home, Users, TreePine, PlusCircle, BarChart3, Search,
-  GitBranch, Download, Upload, History, Settings, Edit, Copy, BookOpen
+  GitBranch, Download, Upload, History, Settings, Edit, Copy, BookOpen, Clock, MapPin, Printer
 } from 'lucide-react';
 import { LucideIcon } from 'lucide-react';
 import { PermissionKey } from '@/lib/auth/types';
@@ -37,6 +37,9 @@ export const mobileNavItems: NavItem[] = [
 // "More" dropdown menu items
 export const moreNavItems: NavItem[] = [
   { href: '/search', label: 'البحث', labelEn: 'Search', icon: Search },
+  { href: '/timeline', label: 'الخط الزمني', labelEn: 'Timeline', icon: Clock },
+  { href: '/map', label: 'خريطة العائلة', labelEn: 'Family Map', icon: MapPin },
+  { href: '/poster', label: 'ملصق الشجرة', labelEn: 'Tree Poster', icon: Printer },
   { href: '/quick-add', label: 'إضافة عضو', labelEn: 'Add Member', icon: PlusCircle },
   { href: '/dashboard', label: 'الإحصائيات', labelEn: 'Statistics', icon: BarChart3 },
   { href: '/branches', label: 'الفروع', labelEn: 'Branches', icon: GitBranch },
@@ -55,6 +58,7 @@ export const publicPages: string[] = [
   '/invite',
   '/forgot-password',
   '/reset-password',
+  '/gatherings/rsvp',
 ];
 
 // Pages that should not show the navigation bar
@@ -65,6 +69,7 @@ export const noNavPages: string[] = [
   '/forgot-password',
   '/reset-password',
   '/welcome',
+  '/gatherings/rsvp',
 ];
 
 // Routes configuration
@@ -73,6 +78,9 @@ export const routes = {
   tree: '/tree',
   branches: '/branches',
   journals: '/journals',
+  timeline: '/timeline',
+  map: '/map',
+  poster: '/poster',
   registry: '/registry',
   search: '/search',
   quickAdd: '/quick-add',
@@ -89,6 +97,7 @@ export const routes = {
   forgotPassword: '/forgot-password',
   resetPassword: '/reset-password',
   profile: '/profile',
+  notifications: '/notifications',
   welcome: '/welcome',
 } as const;
 
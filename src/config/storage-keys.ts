@@ -13,6 +13,8 @@ export const storageKeys = {
   session: 'alshaye_session',
   token: 'alshaye_token',
   sessionId: 'alshaye_session_id',
+  // Session token mirrored into a cookie so server pages can redact for the viewer
+  sessionCookie: 'alshaye_session_token',
 
   // Admin management
   admins: 'alshaye_admins',
@@ -23,6 +25,9 @@ export const storageKeys = {
   // Theme
   theme: 'alshaye-theme',
 
+  // Display calendar (also stored as a cookie so server pages can read it)
+  calendar: 'alshaye_calendar',
+
   // Data storage
   familyData: 'alshaye_family_data',
   newMembers: 'alshaye_new_members',
@@ -9,6 +9,7 @@ import {
   getStoredSession,
   storeSession,
   clearStoredSession,
+  syncSessionCookie,
   userHasPermission,
   userCanActOnBranch,
   isSessionValid,
@@ -111,6 +112,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         const stored = getStoredSession();
         if (stored && isSessionValid(stored)) {
           setSession(stored);
+          syncSessionCookie();
           // Optionally validate with server
           validateSessionWithServer(stored.token);
         }
@@ -385,6 +385,7 @@ export const routeToFeature: Record<string, FeatureKey> = {
   '/profile': 'profiles',
   '/admin/images': 'imageModeration',
   '/admin/broadcasts': 'broadcasts',
+  '/admin/gatherings': 'gatherings',
   '/admin/reports': 'reports',
   '/admin/audit': 'audit',
   '/admin/services': 'apiServices',
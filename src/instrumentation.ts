@@ -52,6 +52,12 @@ export async function register() {
       console.log('✅ Environment validation passed');
     }
 
+    // Run scheduled jobs (backups, scheduled broadcasts, cleanup, duplicate scans)
+    if (process.env.DATABASE_URL && process.env.DISABLE_JOB_RUNNER !== 'true') {
+      const { startJobRunner } = await import('./lib/services/job-runner');
+      startJobRunner();
+    }
+
     console.log('🚀 Server initialization complete');
   }
 }
@@ -0,0 +1,65 @@
+/**
+ * Tests for the public API v1 serializers and OpenAPI document
+ */
+
+import { apiMemberSchema, apiTreeNodeSchema, buildApiTree, toApiMember } from '@/lib/api/v1/resources';
+import { buildOpenApiDocument } from '@/lib/api/v1/openapi';
+import { createMockPrivacySettings, createMockProfileMember } from '@/test/setup';
+
+const privacy = createMockPrivacySettings({ showCity: false });
+
+describe('toApiMember', () => {
+  it('should hide fields by the viewer role', () => {
+    const member = createMockProfileMember();
+
+    const asMember = toApiMember(member, { role: 'MEMBER', settings: privacy });
+    expect(asMember).toMatchObject({ phone: null, email: null, birthYear: 1980, photoUrl: '/photos/p.jpg', city: null });
+    expect(asMember.occupation).toBe('مهندس');
+
+    const asAdmin = toApiMember(member, { role: 'ADMIN', settings: privacy });
+    expect(asAdmin).toMatchObject({ phone: '0500000000', email: 'member@example.com', city: 'الرياض' });
+  });
+
+  it('should hide profile details from roles that cannot see profiles', () => {
+    const asGuest = toApiMember(createMockProfileMember(), { role: 'GUEST', settings: privacy });
+    expect(asGuest).toMatchObject({ birthYear: null, photoUrl: null, occupation: null });
+    expect(asGuest.firstName).toBeTruthy();
+  });
+
+  it('should match the published schema', () => {
+    const result = apiMemberSchema.safeParse(toApiMember(createMockProfileMember(), { role: 'MEMBER', settings: privacy }));
+    expect(result.success).toBe(true);
+  });
+});
+
+describe('buildApiTree', () => {
+  const root = createMockProfileMember({ id: 'P001', fatherId: null });
+  const son = createMockProfileMember({ id: 'P002', fatherId: 'P001', generation: 2 });
+  const grandson = createMockProfileMember({ id: 'P003', fatherId: 'P002', generation: 3 });
+
+  it('should nest children and stop at the requested depth', () => {
+    const viewer = { role: 'MEMBER' as const, settings: privacy };
+    const tree = buildApiTree([grandson, son, root], viewer);
+    expect(tree?.children[0].children[0].id).toBe('P003');
+    expect(apiTreeNodeSchema.safeParse(tree).success).toBe(true);
+
+    const shallow = buildApiTree([grandson, son, root], viewer, { maxDepth: 1 });
+    expect(shallow?.children[0].children).toEqual([]);
+
+    expect(buildApiTree([grandson, son, root], viewer, { rootId: 'P002' })?.id).toBe('P002');
+    expect(buildApiTree([root], viewer, { rootId: 'P999' })).toBeNull();
+  });
+});
+
+describe('buildOpenApiDocument', () => {
+  it('should reference generated component schemas', () => {
+    const doc = buildOpenApiDocument();
+    expect(doc.openapi).toBe('3.1.0');
+    expect(Object.keys(doc.paths)).toEqual(expect.arrayContaining(['/members', '/members/{id}', '/tree']));
+
+    const { schemas } = doc.components;
+    expect(schemas.Member).toMatchObject({ type: 'object' });
+    expect(schemas.Member.$schema).toBeUndefined();
+    expect(JSON.stringify(schemas.TreeNode)).toContain('#/components/schemas/TreeNode');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for composable audience rules
+ */
+
+import {
+  emptyRsvpCounts,
+  evaluateAudience,
+  measureAudienceRule,
+  type AudienceRule,
+  type AudienceSubject,
+} from '@/lib/audience';
+import { audienceRuleSchema } from '@/lib/validations';
+
+function member(id: string, fields: Partial<AudienceSubject> = {}): AudienceSubject {
+  return {
+    memberId: id,
+    userIds: [],
+    gender: 'Male',
+    status: 'Living',
+    roles: [],
+    rsvp: emptyRsvpCounts(),
+    ...fields,
+  };
+}
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+const subjects: AudienceSubject[] = [
+  member('P001', { generation: 1, status: 'Deceased', lineageBranchId: 'P002' }),
+  member('P002', { fatherId: 'P001', generation: 2, lineageBranchId: 'P002', city: 'الرياض', birthYear: 1950 }),
+  member('P003', { fatherId: 'P002', generation: 3, lineageBranchId: 'P002', subBranchId: 'P003', city: 'Riyadh, Saudi Arabia', birthYear: 1980, userIds: ['u1'], roles: ['ADMIN'] }),
+  member('P004', { motherId: 'P003', gender: 'Female', generation: 4, lineageBranchId: 'P002', subBranchId: 'P003', city: 'جدة', birthYear: 2010 }),
+  member('P005', { fatherId: 'P001', generation: 2, lineageBranchId: 'P005', city: 'مدينة الرياض', birthYear: 1960, rsvp: { ...emptyRsvpCounts(), NO_RESPONSE: 3 } }),
+  { userIds: ['u2'], roles: ['MEMBER'], rsvp: { ...emptyRsvpCounts(), YES: 2 } },
+];
+
+function ids(rule: AudienceRule): string[] {
+  return evaluateAudience(rule, subjects, now).map(subject => subject.memberId ?? subject.userIds[0]);
+}
+
+describe('audience conditions', () => {
+  it('should match branches and sub-branches', () => {
+    expect(ids({ type: 'branch', lineageBranchId: 'P002' })).toEqual(['P001', 'P002', 'P003', 'P004']);
+    expect(ids({ type: 'branch', lineageBranchId: 'P002', subBranchId: 'P003' })).toEqual(['P003', 'P004']);
+  });
+
+  it('should match generation and age ranges', () => {
+    expect(ids({ type: 'generation', min: 2, max: 3 })).toEqual(['P002', 'P003', 'P005']);
+    expect(ids({ type: 'age', min: 18, max: 70 })).toEqual(['P003', 'P005']);
+    expect(ids({ type: 'age', max: 17 })).toEqual(['P004']);
+  });
+
+  it('should match cities through the gazetteer', () => {
+    expect(ids({ type: 'city', cities: ['Riyadh'] })).toEqual(['P002', 'P003', 'P005']);
+    expect(ids({ type: 'city', cities: ['جده'] })).toEqual(['P004']);
+  });
+
+  it('should follow both parents for descendants', () => {
+    expect(ids({ type: 'descendantOf', memberId: 'P002' })).toEqual(['P003', 'P004']);
+    expect(ids({ type: 'descendantOf', memberId: 'P002', includeSelf: true })).toEqual(['P002', 'P003', 'P004']);
+  });
+
+  it('should match roles and past RSVPs for users without a member', () => {
+    expect(ids({ type: 'userRole', roles: ['MEMBER', 'ADMIN'] })).toEqual(['P003', 'u2']);
+    expect(ids({ type: 'pastRsvp', response: 'YES', minCount: 2 })).toEqual(['u2']);
+    expect(ids({ type: 'pastRsvp', response: 'NO_RESPONSE', minCount: 4 })).toEqual([]);
+  });
+
+  it('should not match member-only conditions on users without a member', () => {
+    expect(ids({ type: 'living', living: false })).toEqual(['P001']);
+    expect(ids({ type: 'not', rule: { type: 'living', living: true } })).toEqual(['P001', 'u2']);
+  });
+});
+
+describe('audience groups', () => {
+  it('should combine AND, OR and NOT', () => {
+    const rule: AudienceRule = {
+      type: 'and',
+      rules: [
+        { type: 'living', living: true },
+        { type: 'or', rules: [{ type: 'city', cities: ['الرياض'] }, { type: 'gender', gender: 'Female' }] },
+        { type: 'not', rule: { type: 'descendantOf', memberId: 'P002' } },
+      ],
+    };
+    expect(ids(rule)).toEqual(['P002', 'P005']);
+  });
+
+  it('should measure depth and conditions', () => {
+    expect(measureAudienceRule({ type: 'living', living: true })).toEqual({ depth: 0, conditions: 1 });
+    expect(measureAudienceRule({
+      type: 'and',
+      rules: [{ type: 'not', rule: { type: 'gender', gender: 'Male' } }, { type: 'living', living: true }],
+    })).toEqual({ depth: 2, conditions: 2 });
+  });
+
+  it('should reject rules nested too deep', () => {
+    let rule: AudienceRule = { type: 'living', living: true };
+    for (let i = 0; i < 6; i++) rule = { type: 'not', rule };
+    expect(audienceRuleSchema.safeParse(rule).success).toBe(false);
+    expect(audienceRuleSchema.safeParse({ type: 'and', rules: [{ type: 'living', living: true }] }).success).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for the audit log hash chain and CSV export
+ */
+
+import {
+  AUDIT_GENESIS_HASH,
+  computeAuditHash,
+  verifyAuditChain,
+  type AuditChainRow,
+  type AuditHashInput,
+} from '@/lib/audit-chain';
+import { auditLogsToCsv, parseAuditLogFilter, type AuditLogEntry } from '@/lib/audit';
+
+function makeInput(overrides: Partial<AuditHashInput> = {}): AuditHashInput {
+  return {
+    createdAt: new Date('2026-01-01T10:00:00.000Z'),
+    action: 'MEMBER_UPDATE',
+    category: 'MEMBER',
+    severity: 'INFO',
+    description: 'تحديث عضو',
+    userId: 'user-1',
+    userEmail: 'admin@example.com',
+    userName: 'المدير',
+    userRole: 'ADMIN',
+    targetType: 'MEMBER',
+    targetId: 'P001',
+    targetName: 'محمد',
+    details: null,
+    previousState: null,
+    newState: '{"city":"الرياض"}',
+    ipAddress: '127.0.0.1',
+    userAgent: null,
+    success: true,
+    errorMessage: null,
+    ...overrides,
+  };
+}
+
+function makeChain(count: number, anchor = AUDIT_GENESIS_HASH): AuditChainRow[] {
+  const rows: AuditChainRow[] = [];
+  let prevHash = anchor;
+  for (let i = 1; i <= count; i++) {
+    const input = makeInput({ targetId: `P00${i}` });
+    const hash = computeAuditHash(input, prevHash);
+    rows.push({ ...input, id: `log-${i}`, sequence: i, prevHash, hash });
+    prevHash = hash;
+  }
+  return rows;
+}
+
+describe('computeAuditHash', () => {
+  it('should be deterministic and depend on the previous hash', () => {
+    const input = makeInput();
+    expect(computeAuditHash(input, AUDIT_GENESIS_HASH)).toBe(computeAuditHash({ ...input }, AUDIT_GENESIS_HASH));
+    expect(computeAuditHash(input, AUDIT_GENESIS_HASH)).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeAuditHash(input, 'a'.repeat(64))).not.toBe(computeAuditHash(input, AUDIT_GENESIS_HASH));
+  });
+
+  it('should treat Date and ISO string timestamps alike', () => {
+    const input = makeInput();
+    expect(computeAuditHash({ ...input, createdAt: '2026-01-01T10:00:00.000Z' }, AUDIT_GENESIS_HASH))
+      .toBe(computeAuditHash(input, AUDIT_GENESIS_HASH));
+  });
+
+  it('should change when any field changes', () => {
+    const base = computeAuditHash(makeInput(), AUDIT_GENESIS_HASH);
+    expect(computeAuditHash(makeInput({ success: false }), AUDIT_GENESIS_HASH)).not.toBe(base);
+    expect(computeAuditHash(makeInput({ newState: '{"city":"جدة"}' }), AUDIT_GENESIS_HASH)).not.toBe(base);
+  });
+});
+
+describe('verifyAuditChain', () => {
+  it('should accept an intact chain', () => {
+    const rows = makeChain(5);
+    const result = verifyAuditChain(rows, AUDIT_GENESIS_HASH);
+    expect(result.valid).toBe(true);
+    expect(result.checked).toBe(5);
+    expect(result.lastHash).toBe(rows[4].hash);
+  });
+
+  it('should verify in batches from the previous batch hash', () => {
+    const rows = makeChain(6);
+    const first = verifyAuditChain(rows.slice(0, 3), AUDIT_GENESIS_HASH);
+    const second = verifyAuditChain(rows.slice(3), first.lastHash);
+    expect(second.valid).toBe(true);
+  });
+
+  it('should detect an edited entry', () => {
+    const rows = makeChain(4);
+    rows[2] = { ...rows[2], targetName: 'عبدالله' };
+    const result = verifyAuditChain(rows, AUDIT_GENESIS_HASH);
+    expect(result.valid).toBe(false);
+    expect(result.checked).toBe(2);
+    expect(result.brokenAt).toEqual({ sequence: 3, id: 'log-3', reason: 'HASH_MISMATCH' });
+  });
+
+  it('should detect a removed entry', () => {
+    const rows = makeChain(4);
+    rows.splice(1, 1);
+    const result = verifyAuditChain(rows, AUDIT_GENESIS_HASH);
+    expect(result.valid).toBe(false);
+    expect(result.brokenAt).toEqual({ sequence: 3, id: 'log-3', reason: 'CHAIN_BROKEN' });
+  });
+
+  it('should require the expected anchor', () => {
+    const anchor = 'b'.repeat(64);
+    expect(verifyAuditChain(makeChain(2, anchor), anchor).valid).toBe(true);
+    expect(verifyAuditChain(makeChain(2, anchor), AUDIT_GENESIS_HASH).brokenAt?.reason).toBe('CHAIN_BROKEN');
+  });
+});
+
+describe('parseAuditLogFilter', () => {
+  it('should read known filters and ignore invalid values', () => {
+    const filter = parseAuditLogFilter(new URLSearchParams(
+      'category=AUTH&severity=CRITICAL&success=false&startDate=2026-01-01&unknown=x'
+    ));
+    expect(filter).toEqual({ category: 'AUTH', severity: 'CRITICAL', success: false, startDate: '2026-01-01' });
+    expect(parseAuditLogFilter(new URLSearchParams('severity=LOUD&success=maybe'))).toEqual({});
+  });
+});
+
+describe('auditLogsToCsv', () => {
+  it('should start with a BOM and quote and guard cells', () => {
+    const [row] = makeChain(1);
+    const entry: AuditLogEntry = {
+      ...row,
+      createdAt: '2026-01-01T10:00:00.000Z',
+      severity: 'INFO',
+      description: 'قال "مرحبا", ثم غادر',
+      targetName: '=HYPERLINK("x")',
+      details: { count: 2 },
+      previousState: null,
+      newState: null,
+    };
+
+    const csv = auditLogsToCsv([entry]);
+    expect(csv.startsWith('\uFEFFsequence,createdAt,action')).toBe(true);
+
+    const line = csv.split('\n')[1];
+    expect(line).toContain('"قال ""مرحبا"", ثم غادر"');
+    expect(line).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(line).toContain('"{""count"":2}"');
+    expect(line.endsWith(row.hash)).toBe(true);
+  });
+});
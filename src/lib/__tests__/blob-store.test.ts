@@ -0,0 +1,123 @@
+/**
+ * Tests for blob store keys, range parsing and the local driver
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLocalBlobStore } from '@/lib/blob-store/local';
+import {
+  contentAddressedKey,
+  contentTypeForKey,
+  etagForKey,
+  isValidBlobKey,
+  parseDataUrl,
+  parseRangeHeader,
+  resolveImageUrl,
+} from '@/lib/blob-store/utils';
+
+async function readAll(body: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = body.getReader();
+  const chunks: Buffer[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('contentAddressedKey', () => {
+  it('should derive the same key for the same content', () => {
+    const key = contentAddressedKey(Buffer.from('photo'), 'image/jpeg');
+    expect(key).toBe(contentAddressedKey(Buffer.from('photo'), 'image/jpeg'));
+    expect(key).toMatch(/^images\/([0-9a-f]{2})\/\1[0-9a-f]{62}\.jpg$/);
+    expect(isValidBlobKey(key)).toBe(true);
+    expect(contentTypeForKey(key)).toBe('image/jpeg');
+  });
+
+  it('should use the hash as the ETag', () => {
+    const key = contentAddressedKey(Buffer.from('photo'), 'image/png', 'thumbs');
+    expect(etagForKey(key)).toBe(`"${key.split('/')[2].replace('.png', '')}"`);
+  });
+});
+
+describe('isValidBlobKey', () => {
+  it('should reject traversal and unexpected characters', () => {
+    expect(isValidBlobKey('../etc/passwd')).toBe(false);
+    expect(isValidBlobKey('images/../../secret')).toBe(false);
+    expect(isValidBlobKey('/images/a.jpg')).toBe(false);
+    expect(isValidBlobKey('images/A.jpg')).toBe(false);
+  });
+});
+
+describe('parseDataUrl', () => {
+  it('should decode base64 data URLs', () => {
+    const parsed = parseDataUrl(`data:image/png;base64,${Buffer.from('png').toString('base64')}`);
+    expect(parsed?.contentType).toBe('image/png');
+    expect(parsed?.data.toString()).toBe('png');
+    expect(parseDataUrl('https://example.com/a.png')).toBeNull();
+  });
+});
+
+describe('resolveImageUrl', () => {
+  it('should prefer the blob key over inline data', () => {
+    expect(resolveImageUrl('images/ab/ab.jpg', 'data:image/jpeg;base64,AA==')).toBe('/api/images/blob/images/ab/ab.jpg');
+    expect(resolveImageUrl(null, 'data:image/jpeg;base64,AA==')).toBe('data:image/jpeg;base64,AA==');
+    expect(resolveImageUrl(null, null)).toBeNull();
+  });
+});
+
+describe('parseRangeHeader', () => {
+  it('should parse bounded, open and suffix ranges', () => {
+    expect(parseRangeHeader('bytes=0-9', 100)).toEqual({ start: 0, end: 9 });
+    expect(parseRangeHeader('bytes=90-', 100)).toEqual({ start: 90, end: 99 });
+    expect(parseRangeHeader('bytes=-10', 100)).toEqual({ start: 90, end: 99 });
+    expect(parseRangeHeader('bytes=50-500', 100)).toEqual({ start: 50, end: 99 });
+  });
+
+  it('should flag unsatisfiable ranges and ignore malformed ones', () => {
+    expect(parseRangeHeader('bytes=100-', 100)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=9-5', 100)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=0-1,5-6', 100)).toBeNull();
+    expect(parseRangeHeader('items=0-1', 100)).toBeNull();
+  });
+});
+
+describe('createLocalBlobStore', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'blob-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete blobs', async () => {
+    const store = createLocalBlobStore(root);
+    const data = Buffer.from('0123456789');
+    const key = contentAddressedKey(data, 'image/webp');
+
+    expect(await store.head(key)).toBeNull();
+    await store.put(key, data, 'image/webp');
+    expect(await store.head(key)).toEqual({ key, size: 10, contentType: 'image/webp' });
+
+    const whole = await store.get(key);
+    expect(await readAll(whole!.body)).toBe('0123456789');
+
+    const part = await store.get(key, { start: 2, end: 4 });
+    expect(part?.range).toEqual({ start: 2, end: 4 });
+    expect(await readAll(part!.body)).toBe('234');
+
+    await store.delete(key);
+    expect(await store.get(key)).toBeNull();
+    await expect(store.delete(key)).resolves.toBeUndefined();
+  });
+
+  it('should refuse keys outside the root', async () => {
+    const store = createLocalBlobStore(root);
+    await expect(store.put('../outside.jpg', Buffer.from('x'), 'image/jpeg')).rejects.toThrow('Invalid blob key');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for broadcast channel choice and the SMS and WhatsApp message formats
+ */
+
+import {
+  buildWhatsAppTemplate,
+  parseBroadcastChannels,
+  renderBroadcastSms,
+  renderWhatsAppText,
+  resolveRecipientChannels,
+  serializeBroadcastChannels,
+  SMS_MAX_LENGTH,
+} from '@/lib/broadcast-channels';
+import { clearMockOutbox, getMockOutbox, sendViaMock } from '@/lib/services/mock-messaging';
+
+const announcement = {
+  titleAr: 'تحديث شجرة العائلة',
+  contentAr: '<p>تمت إضافة <strong>فرع جديد</strong>.</p><p>شكراً لكم</p>',
+  type: 'ANNOUNCEMENT',
+};
+
+const meeting = {
+  titleAr: 'اللقاء السنوي',
+  contentAr: '<p>ندعوكم</p>',
+  type: 'MEETING',
+  meetingDate: new Date('2026-03-05T16:00:00Z'),
+  meetingLocation: 'الرياض',
+};
+
+describe('channel choice', () => {
+  const all = ['EMAIL', 'WHATSAPP', 'SMS'] as const;
+
+  it('should parse and serialize channels in a fixed order', () => {
+    expect(parseBroadcastChannels('sms, EMAIL,FAX')).toEqual(['EMAIL', 'SMS']);
+    expect(parseBroadcastChannels(null)).toEqual([]);
+    expect(serializeBroadcastChannels(['SMS', 'EMAIL'])).toBe('EMAIL,SMS');
+  });
+
+  it('should use preferred channels when the recipient can be reached on them', () => {
+    const contact = { email: 'a@b.com', phone: '+966500000001', preferred: ['SMS' as const] };
+    expect(resolveRecipientChannels(all, contact)).toEqual(['SMS']);
+    expect(resolveRecipientChannels(['EMAIL', 'WHATSAPP'], contact)).toEqual(['EMAIL', 'WHATSAPP']);
+  });
+
+  it('should send WhatsApp rather than SMS to the same phone without a preference', () => {
+    expect(resolveRecipientChannels(all, { email: 'a@b.com', phone: '+966500000001', preferred: [] }))
+      .toEqual(['EMAIL', 'WHATSAPP']);
+    expect(resolveRecipientChannels(['EMAIL', 'SMS'], { phone: '+966500000001', preferred: [] }))
+      .toEqual(['SMS']);
+    expect(resolveRecipientChannels(['EMAIL'], { phone: '+966500000001', preferred: ['EMAIL'] }))
+      .toEqual([]);
+  });
+});
+
+describe('message formats', () => {
+  it('should keep SMS within two Arabic segments', () => {
+    const sms = renderBroadcastSms({ ...announcement, titleAr: 'عنوان طويل جداً '.repeat(20) }, 'https://alshaye.com');
+    expect(sms.length).toBeLessThanOrEqual(SMS_MAX_LENGTH);
+    expect(sms.endsWith('https://alshaye.com')).toBe(true);
+    expect(sms).toContain('…');
+  });
+
+  it('should fill the meeting template with the date and place', () => {
+    const message = buildWhatsAppTemplate(meeting, 'محمد', 'https://alshaye.com');
+    expect(message.name).toBe('alshaye_meeting');
+    expect(message.parameters[0]).toBe('محمد');
+    expect(message.parameters[3]).toBe('الرياض');
+    expect(renderWhatsAppText(message)).toContain('ندعوكم إلى اللقاء السنوي');
+  });
+
+  it('should summarize announcements without HTML or newlines', () => {
+    const message = buildWhatsAppTemplate(announcement, 'محمد', 'https://alshaye.com');
+    expect(message.name).toBe('alshaye_broadcast');
+    expect(message.parameters[3]).toBe('تمت إضافة فرع جديد. شكراً لكم');
+    expect(renderWhatsAppText(message)).not.toMatch(/\{\{\d+\}\}/);
+  });
+});
+
+describe('mock provider', () => {
+  beforeEach(() => clearMockOutbox());
+
+  it('should keep sent messages and fail numbers ending in 000', () => {
+    expect(sendViaMock('SMS', '+966500000001', 'hi').success).toBe(true);
+    expect(sendViaMock('WHATSAPP', '+966500000001', 'hi').messageId).toMatch(/^mock-whatsapp-/);
+    expect(sendViaMock('SMS', '+966500001000', 'hi')).toMatchObject({ success: false });
+    expect(getMockOutbox('SMS')).toHaveLength(1);
+    expect(getMockOutbox()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for folding live tree events into a member list and presence
+ */
+
+import {
+  applyTreeEvent,
+  formatStreamMessage,
+  uniquePresence,
+  type MemberTreeEvent,
+  type PresenceEntry,
+} from '@/lib/collaboration';
+import type { FamilyMember } from '@/lib/types';
+import { createMockMember } from '@/test/setup';
+
+const actor = { id: 'u1', name: 'محمد' };
+
+function event(overrides: Partial<MemberTreeEvent>): MemberTreeEvent {
+  return {
+    type: 'member.updated',
+    memberId: 'P001',
+    member: null,
+    actor,
+    at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeMember(overrides: Partial<FamilyMember>): FamilyMember {
+  return { ...createMockMember(), sonsCount: 0, daughtersCount: 0, ...overrides } as FamilyMember;
+}
+
+function presence(overrides: Partial<PresenceEntry>): PresenceEntry {
+  return {
+    connectionId: 'c1',
+    userId: 'u1',
+    userName: 'محمد',
+    mode: 'viewing',
+    branch: null,
+    memberId: null,
+    since: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('applyTreeEvent', () => {
+  const members = [
+    makeMember({ id: 'P001', firstName: 'محمد', version: 2 }),
+    makeMember({ id: 'P002', firstName: 'عبدالله', fatherId: 'P001', version: 1 }),
+  ];
+
+  it('appends created members', () => {
+    const added = makeMember({ id: 'P003', firstName: 'سعد', fatherId: 'P001' });
+    const next = applyTreeEvent(members, event({ type: 'member.created', memberId: 'P003', member: added }));
+    expect(next.map(m => m.id)).toEqual(['P001', 'P002', 'P003']);
+  });
+
+  it('replaces updated and moved members', () => {
+    const moved = { ...members[1], fatherId: null, version: 2 };
+    const next = applyTreeEvent(members, event({ type: 'member.moved', memberId: 'P002', member: moved }));
+    expect(next[1].fatherId).toBeNull();
+    expect(members[1].fatherId).toBe('P001');
+  });
+
+  it('removes deleted members', () => {
+    const next = applyTreeEvent(members, event({ type: 'member.deleted', memberId: 'P002' }));
+    expect(next.map(m => m.id)).toEqual(['P001']);
+  });
+
+  it('ignores events older than the member it has', () => {
+    const stale = { ...members[0], firstName: 'قديم', version: 1 };
+    expect(applyTreeEvent(members, event({ member: stale }))).toBe(members);
+  });
+
+  it('returns the same list when a deleted member is unknown', () => {
+    expect(applyTreeEvent(members, event({ type: 'member.deleted', memberId: 'P999' }))).toBe(members);
+  });
+});
+
+describe('uniquePresence', () => {
+  it('keeps one entry per user, preferring editing', () => {
+    const entries = [
+      presence({ connectionId: 'c1' }),
+      presence({ connectionId: 'c2', mode: 'editing', branch: 'الفرع الأول' }),
+      presence({ connectionId: 'c3', userId: 'u2', userName: 'سعد' }),
+    ];
+    expect(uniquePresence(entries).map(e => e.connectionId)).toEqual(['c2', 'c3']);
+  });
+});
+
+describe('formatStreamMessage', () => {
+  it('writes a named server-sent event frame', () => {
+    expect(formatStreamMessage({ event: 'presence', data: [] })).toBe('event: presence\ndata: []\n\n');
+  });
+});
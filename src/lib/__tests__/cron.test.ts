@@ -0,0 +1,62 @@
+/**
+ * Tests for cron expression utilities
+ */
+
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from '@/lib/cron';
+
+describe('parseCronExpression', () => {
+  it('should expand lists, ranges and steps', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([9, 10, 11]);
+    expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(Array.from(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect(Array.from(parseCronExpression('0 0 * * 7').daysOfWeek)).toEqual([0]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(isValidCronExpression('0 2 * *')).toBe(false);
+    expect(isValidCronExpression('60 2 * * *')).toBe(false);
+    expect(isValidCronExpression('0 5-2 * * *')).toBe(false);
+    expect(isValidCronExpression('0 2 * * mon')).toBe(false);
+    expect(isValidCronExpression('0 2 * * *')).toBe(true);
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('should evaluate the schedule in Riyadh time', () => {
+    // 02:00 in Riyadh (UTC+3) is 23:00 UTC the day before
+    const next = getNextCronRun('0 2 * * *', new Date('2024-03-10T12:00:00Z'));
+    expect(next.toISOString()).toBe('2024-03-10T23:00:00.000Z');
+  });
+
+  it('should always move strictly forward', () => {
+    const next = getNextCronRun('0 2 * * *', new Date('2024-03-10T23:00:00Z'));
+    expect(next.toISOString()).toBe('2024-03-11T23:00:00.000Z');
+  });
+
+  it('should find the next matching weekday', () => {
+    // 2024-03-10 is a Sunday; the next Friday is 2024-03-15
+    const next = getNextCronRun('30 14 * * 5', new Date('2024-03-10T00:00:00Z'), 'UTC');
+    expect(next.toISOString()).toBe('2024-03-15T14:30:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 20th or any Monday, whichever comes first
+    const next = getNextCronRun('0 0 20 * 1', new Date('2024-03-12T00:00:00Z'), 'UTC');
+    expect(next.toISOString()).toBe('2024-03-18T00:00:00.000Z');
+  });
+
+  it('should roll over months and years', () => {
+    const next = getNextCronRun('0 0 29 2 *', new Date('2024-03-01T00:00:00Z'), 'UTC');
+    expect(next.toISOString()).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should throw when the expression never matches', () => {
+    expect(() => getNextCronRun('0 0 31 2 *')).toThrow('never matches');
+  });
+});
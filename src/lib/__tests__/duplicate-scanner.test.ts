@@ -0,0 +1,77 @@
+/**
+ * Tests for the background duplicate scanner
+ */
+
+import { buildDuplicateBlocks, findDuplicatePairs } from '@/lib/matching/duplicate-scanner';
+import type { FamilyMember } from '@/lib/types';
+
+function member(id: string, firstName: string, fatherId: string | null, generation: number, fields: Partial<FamilyMember> = {}): FamilyMember {
+  return {
+    id,
+    firstName,
+    fatherName: null,
+    grandfatherName: null,
+    greatGrandfatherName: null,
+    familyName: 'آل شايع',
+    fatherId,
+    gender: 'Male',
+    birthYear: null,
+    deathYear: null,
+    sonsCount: 0,
+    daughtersCount: 0,
+    generation,
+    branch: null,
+    fullNameAr: null,
+    fullNameEn: null,
+    phone: null,
+    city: null,
+    status: 'Living',
+    photoUrl: null,
+    biography: null,
+    occupation: null,
+    email: null,
+    ...fields,
+  };
+}
+
+const members: FamilyMember[] = [
+  member('P001', 'عبدالله', null, 1),
+  member('P002', 'محمد', 'P001', 2),
+  member('P003', 'فهد', 'P001', 2),
+  // The same son entered twice under the same father
+  member('P010', 'سعد', 'P002', 3, { birthYear: 1950 }),
+  member('P011', 'سعد', 'P002', 3, { birthYear: 1951 }),
+  // A brother with a different name
+  member('P012', 'خالد', 'P002', 3),
+  // Same name in another branch
+  member('P020', 'سعد', 'P003', 3),
+];
+
+describe('buildDuplicateBlocks', () => {
+  it('should group by phonetic key and generation only', () => {
+    const blocks = buildDuplicateBlocks(members);
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].map(m => m.id).sort()).toEqual(['P010', 'P011', 'P020']);
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('should flag the same name under matching lineage only', async () => {
+    const pairs = await findDuplicatePairs(members);
+
+    expect(pairs.map(p => [p.sourceId, p.targetId])).toEqual([['P010', 'P011']]);
+    expect(pairs[0].score).toBeGreaterThanOrEqual(70);
+    expect(pairs[0].reasons).toContain('نفس الأب');
+  });
+
+  it('should skip pairs with distant birth years', async () => {
+    const pairs = await findDuplicatePairs(members.map(m => (m.id === 'P011' ? { ...m, birthYear: 1980 } : m)));
+    expect(pairs).toHaveLength(0);
+  });
+
+  it('should report progress per block', async () => {
+    const onProgress = jest.fn();
+    await findDuplicatePairs(members, {}, onProgress);
+    expect(onProgress).toHaveBeenLastCalledWith({ processedBlocks: 1, totalBlocks: 1, pairsFound: 1 });
+  });
+});
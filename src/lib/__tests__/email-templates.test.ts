@@ -0,0 +1,95 @@
+/**
+ * Tests for editable email templates: variable validation and rendering
+ */
+
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EDITABLE_EMAIL_TEMPLATES,
+  renderDigestItems,
+  renderEmailTemplate,
+  sampleTemplateData,
+  templateVariables,
+  validateEmailTemplate,
+} from '@/lib/email-templates';
+
+describe('validateEmailTemplate', () => {
+  it('should accept every default template', () => {
+    for (const type of EDITABLE_EMAIL_TEMPLATES) {
+      expect(validateEmailTemplate(type, DEFAULT_EMAIL_TEMPLATES[type])).toEqual([]);
+    }
+  });
+
+  it('should reject unknown and missing required variables', () => {
+    const issues = validateEmailTemplate('welcome', {
+      subjectAr: 'مرحباً {{firstName}}',
+      bodyAr: 'أهلاً {{name}}',
+    });
+    expect(issues.map(issue => issue.field)).toEqual(['subjectAr', 'bodyAr']);
+    expect(issues[0].message).toContain('{{firstName}}');
+    expect(issues[1].message).toContain('{{loginUrl}}');
+  });
+
+  it('should reject unclosed sections and HTML variables in subjects or mid-line', () => {
+    const issues = validateEmailTemplate('broadcast', {
+      subjectAr: '{{contentAr}}',
+      bodyAr: 'النص: {{contentAr}}\n\n{{#titleEn}}\n{{titleEn}}\n\n[إلغاء]({{unsubscribeUrl}})',
+    });
+    expect(issues.map(issue => issue.message)).toEqual([
+      "{{contentAr}} contains HTML and can't be used in the subject",
+      'Section {{#titleEn}} is not closed with {{/titleEn}}',
+      '{{contentAr}} must be on a line of its own',
+    ]);
+  });
+
+  it('should list the variables a text uses', () => {
+    expect(templateVariables('{{#message}}> {{ message }}{{/message}} [x]({{inviteUrl}})')).toEqual(['message', 'inviteUrl']);
+  });
+});
+
+describe('renderEmailTemplate', () => {
+  it('should render markdown with escaped variables and a button', () => {
+    const email = renderEmailTemplate('welcome', DEFAULT_EMAIL_TEMPLATES.welcome, {
+      name: '<b>محمد</b>',
+      loginUrl: 'https://alshaye.com/login?a=1&b=2',
+    });
+    expect(email.subject).toBe('مرحباً بك في شجرة عائلة آل شايع - Welcome to Al-Shaye Family Tree');
+    expect(email.html).toContain('مرحباً &lt;b&gt;محمد&lt;&#x2F;b&gt;!');
+    expect(email.html).toContain('href="https:&#x2F;&#x2F;alshaye.com&#x2F;login?a&#x3D;1&amp;b&#x3D;2"');
+    expect(email.html).toContain('dir="rtl"');
+    expect(email.text).toContain('دخول إلى حسابك: https://alshaye.com/login?a=1&b=2');
+  });
+
+  it('should drop sections without a value', () => {
+    const withMessage = renderEmailTemplate('invite', DEFAULT_EMAIL_TEMPLATES.invite, {
+      inviterName: 'عبدالله',
+      inviteUrl: 'https://alshaye.com/invite/x',
+      message: 'يسعدنا انضمامك',
+    });
+    const without = renderEmailTemplate('invite', DEFAULT_EMAIL_TEMPLATES.invite, {
+      inviterName: 'عبدالله',
+      inviteUrl: 'https://alshaye.com/invite/x',
+    });
+    expect(withMessage.html).toContain('يسعدنا انضمامك');
+    expect(without.html).not.toContain('background: #f8f9fa');
+    expect(without.html).not.toContain('تنتهي هذه الدعوة');
+  });
+
+  it('should insert HTML variables as is and add the English section when it has content', () => {
+    const data = sampleTemplateData('broadcast');
+    const bilingual = renderEmailTemplate('broadcast', DEFAULT_EMAIL_TEMPLATES.broadcast, data);
+    expect(bilingual.subject).toBe('إعلان: تحديث شجرة العائلة');
+    expect(bilingual.html).toContain(data.contentAr);
+    expect(bilingual.html).toContain('dir="ltr"');
+    expect(bilingual.text).toContain('A new branch was added to the tree.');
+    expect(bilingual.text).not.toContain('<p>');
+
+    const arabicOnly = renderEmailTemplate('broadcast', DEFAULT_EMAIL_TEMPLATES.broadcast, { ...data, contentEn: null });
+    expect(arabicOnly.html).not.toContain('dir="ltr"');
+  });
+
+  it('should render digest items as an escaped list', () => {
+    const html = renderDigestItems([{ titleAr: 'فرد <جديد>', messageAr: 'تمت الإضافة', linkUrl: 'https://alshaye.com/m' }]);
+    expect(html).toContain('<a href="https:&#x2F;&#x2F;alshaye.com&#x2F;m"');
+    expect(html).toContain('فرد &lt;جديد&gt;');
+  });
+});
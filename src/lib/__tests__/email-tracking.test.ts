@@ -0,0 +1,138 @@
+/**
+ * Tests for broadcast tracking links and email provider webhooks
+ */
+
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import {
+  addEmailTracking,
+  buildClickTrackingUrl,
+  normalizeMessageId,
+  parseMailgunEvents,
+  parseResendEvents,
+  parseSendGridEvents,
+  rewriteTrackedLinks,
+  verifyMailgunSignature,
+  verifyResendSignature,
+  verifySendGridSignature,
+  verifyTrackingParams,
+} from '@/lib/email-tracking';
+
+const target = { baseUrl: 'https://alshaye.com', broadcastId: 'b1', recipientId: 'r1' };
+const now = new Date('2026-03-01T12:00:00Z');
+const nowSeconds = String(now.getTime() / 1000);
+
+describe('tracking links', () => {
+  it('should sign click URLs for one broadcast, recipient and target', () => {
+    const url = new URL(buildClickTrackingUrl(target, 'https://meet.example.com/a?x=1&y=2'));
+    expect(url.pathname).toBe('/api/broadcasts/b1/track/click');
+    const s = url.searchParams.get('s');
+    expect(url.searchParams.get('u')).toBe('https://meet.example.com/a?x=1&y=2');
+    expect(verifyTrackingParams(s, 'click', 'b1', 'r1', 'https://meet.example.com/a?x=1&y=2')).toBe(true);
+    expect(verifyTrackingParams(s, 'click', 'b1', 'r1', 'https://evil.example.com')).toBe(false);
+    expect(verifyTrackingParams(s, 'click', 'b1', 'r2', 'https://meet.example.com/a?x=1&y=2')).toBe(false);
+    expect(verifyTrackingParams(null, 'click', 'b1', 'r1', 'https://meet.example.com/a?x=1&y=2')).toBe(false);
+  });
+
+  it('should rewrite web links and leave unsubscribe and mailto links alone', () => {
+    const html = [
+      '<a href="https://meet.example.com/a?x=1&amp;y=2" style="color: red">Join</a>',
+      '<a href="https://alshaye.com/unsubscribe?email=a%40b.com">إلغاء الاشتراك</a>',
+      '<a href="mailto:info@alshaye.com">mail</a>',
+    ].join('\n');
+    const rewritten = rewriteTrackedLinks(html, target);
+    const [join, unsubscribe, mailto] = rewritten.split('\n');
+
+    expect(join).toContain('href="https://alshaye.com/api/broadcasts/b1/track/click?r=r1&amp;u=');
+    expect(join).toContain('style="color: red"');
+    const href = join.match(/href="([^"]+)"/)![1].replace(/&amp;/g, '&');
+    expect(new URL(href).searchParams.get('u')).toBe('https://meet.example.com/a?x=1&y=2');
+    expect(unsubscribe).toBe('<a href="https://alshaye.com/unsubscribe?email=a%40b.com">إلغاء الاشتراك</a>');
+    expect(mailto).toBe('<a href="mailto:info@alshaye.com">mail</a>');
+  });
+
+  it('should append the open pixel', () => {
+    const html = addEmailTracking('<p>hi</p>', target);
+    expect(html).toMatch(/^<p>hi<\/p><img src="https:\/\/alshaye\.com\/api\/broadcasts\/b1\/track\/open\?r=r1&amp;s=/);
+  });
+});
+
+describe('webhook signatures', () => {
+  it('should verify Resend (Svix) signatures within the time window', () => {
+    const key = Buffer.from('resend-test-secret');
+    const secret = `whsec_${key.toString('base64')}`;
+    const body = '{"type":"email.delivered"}';
+    const signature = createHmac('sha256', key).update(`msg_1.${nowSeconds}.${body}`).digest('base64');
+    const headers = { id: 'msg_1', timestamp: nowSeconds, signature: `v1,bogus v1,${signature}` };
+
+    expect(verifyResendSignature(secret, headers, body, now)).toBe(true);
+    expect(verifyResendSignature(secret, headers, `${body} `, now)).toBe(false);
+    expect(verifyResendSignature(secret, headers, body, new Date(now.getTime() + 10 * 60 * 1000))).toBe(false);
+  });
+
+  it('should verify SendGrid ECDSA signatures with a base64 DER key', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const der = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+    const body = '[{"event":"delivered"}]';
+    const signature = sign('sha256', Buffer.from(nowSeconds + body), privateKey).toString('base64');
+
+    expect(verifySendGridSignature(der, { signature, timestamp: nowSeconds }, body, now)).toBe(true);
+    expect(verifySendGridSignature(der, { signature, timestamp: nowSeconds }, '[]', now)).toBe(false);
+    expect(verifySendGridSignature('not-a-key', { signature, timestamp: nowSeconds }, body, now)).toBe(false);
+  });
+
+  it('should verify Mailgun signatures', () => {
+    const signature = createHmac('sha256', 'mg-key').update(`${nowSeconds}token123`).digest('hex');
+    const payload = { timestamp: nowSeconds, token: 'token123', signature };
+
+    expect(verifyMailgunSignature('mg-key', payload, now)).toBe(true);
+    expect(verifyMailgunSignature('other-key', payload, now)).toBe(false);
+    expect(verifyMailgunSignature('mg-key', undefined, now)).toBe(false);
+  });
+});
+
+describe('webhook events', () => {
+  it('should parse Resend bounces as hard unless transient', () => {
+    const [event] = parseResendEvents({
+      type: 'email.bounced',
+      created_at: '2026-03-01T12:00:00.000Z',
+      data: { email_id: 'abc', to: ['Ali@Example.com'], bounce: { type: 'Permanent', message: 'No such user' } },
+    });
+    expect(event).toMatchObject({ type: 'BOUNCED', email: 'ali@example.com', messageId: 'abc', bounceType: 'HARD', detail: 'No such user' });
+
+    const [transient] = parseResendEvents({ type: 'email.bounced', data: { email_id: 'abc', to: ['a@b.com'], bounce: { type: 'Transient' } } });
+    expect(transient.bounceType).toBe('SOFT');
+    expect(parseResendEvents({ type: 'email.opened', data: { to: ['a@b.com'] } })).toEqual([]);
+  });
+
+  it('should parse SendGrid batches and match their message ids to the send response', () => {
+    const events = parseSendGridEvents([
+      { event: 'delivered', email: 'a@b.com', sg_message_id: 'XYZ.filter001.123.0', timestamp: 1772366400 },
+      { event: 'bounce', type: 'blocked', email: 'c@d.com', sg_message_id: 'QRS.filter002', reason: '421 try later' },
+      { event: 'spamreport', email: 'e@f.com', sg_message_id: 'TUV.filter003' },
+      { event: 'open', email: 'g@h.com' },
+    ]);
+    expect(events.map(e => e.type)).toEqual(['DELIVERED', 'BOUNCED', 'COMPLAINED']);
+    expect(events[0].messageId).toBe('XYZ');
+    expect(events[0].occurredAt.toISOString()).toBe('2026-03-01T12:00:00.000Z');
+    expect(events[1].bounceType).toBe('SOFT');
+  });
+
+  it('should parse Mailgun permanent failures as hard bounces', () => {
+    const [event] = parseMailgunEvents({
+      'event-data': {
+        event: 'failed',
+        severity: 'permanent',
+        recipient: 'a@b.com',
+        timestamp: 1772366400,
+        message: { headers: { 'message-id': '20260301.1@mg.alshaye.com' } },
+        'delivery-status': { description: 'Mailbox does not exist' },
+      },
+    });
+    expect(event).toMatchObject({ type: 'BOUNCED', bounceType: 'HARD', messageId: '20260301.1@mg.alshaye.com', detail: 'Mailbox does not exist' });
+  });
+
+  it('should strip angle brackets from message ids', () => {
+    expect(normalizeMessageId('<20260301.1@mg.alshaye.com>')).toBe('20260301.1@mg.alshaye.com');
+    expect(normalizeMessageId(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for gathering RSVP tokens, start times and the attendance report
+ */
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { gatheringStartsAt, summarizeAttendance, type AttendanceRow } from '@/lib/gatherings';
+import {
+  buildGatheringRsvpUrl,
+  createGatheringToken,
+  gatheringInvitation,
+  hasGatheringPass,
+  isAcceptingRsvps,
+  parseGatheringToken,
+  type GatheringSummary,
+} from '@/lib/services/gatherings';
+
+const gathering: GatheringSummary = {
+  id: 'g1',
+  title: 'Eid Gathering',
+  titleAr: 'لقاء العيد',
+  description: null,
+  descriptionAr: 'نلتقي بعد صلاة العيد',
+  date: new Date('2026-03-20T00:00:00Z'),
+  time: '18:30',
+  location: 'Riyadh',
+  locationAr: 'الرياض',
+  locationUrl: null,
+  status: 'UPCOMING',
+};
+
+describe('gathering tokens', () => {
+  it('should round-trip a token for its own purpose only', () => {
+    const token = createGatheringToken('rsvp', 'att1');
+    expect(parseGatheringToken('rsvp', token)).toBe('att1');
+    expect(parseGatheringToken('check-in', token)).toBeNull();
+    expect(parseGatheringToken('check-in', createGatheringToken('check-in', 'att1'))).toBe('att1');
+  });
+
+  it('should reject tampered and malformed tokens', () => {
+    const token = createGatheringToken('rsvp', 'att1');
+    expect(parseGatheringToken('rsvp', token.replace('att1', 'att2'))).toBeNull();
+    expect(parseGatheringToken('rsvp', 'att1')).toBeNull();
+    expect(parseGatheringToken('rsvp', '')).toBeNull();
+  });
+
+  it('should build a personal RSVP link that takes a response', () => {
+    const url = new URL(`${buildGatheringRsvpUrl('https://alshaye.com', 'att1')}&response=YES`);
+    expect(url.pathname).toBe('/gatherings/rsvp');
+    expect(parseGatheringToken('rsvp', url.searchParams.get('t'))).toBe('att1');
+    expect(url.searchParams.get('response')).toBe('YES');
+  });
+});
+
+describe('gathering schedule', () => {
+  it('should place the start time in Riyadh', () => {
+    expect(gatheringStartsAt(gathering.date, '18:30').toISOString()).toBe('2026-03-20T15:30:00.000Z');
+    expect(gatheringStartsAt(gathering.date, 'after maghrib')).toBe(gathering.date);
+  });
+
+  it('should stop taking RSVPs once started or closed', () => {
+    expect(isAcceptingRsvps(gathering, new Date('2026-03-20T15:00:00Z'))).toBe(true);
+    expect(isAcceptingRsvps(gathering, new Date('2026-03-20T16:00:00Z'))).toBe(false);
+    expect(isAcceptingRsvps({ ...gathering, status: 'CANCELLED' }, new Date('2026-03-01T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('gatheringInvitation', () => {
+  it('should invite a branch through audience rules with RSVP required', () => {
+    const input = gatheringInvitation(gathering, {
+      targetAudience: 'BRANCH',
+      lineageBranchId: 'b1',
+      subBranchId: 's1',
+      channels: ['EMAIL', 'WHATSAPP'],
+      messageAr: 'أهلاً <بكم>',
+      sendNow: true,
+    }, { id: 'u1', name: 'المدير' });
+
+    expect(input).toMatchObject({
+      titleAr: 'دعوة: لقاء العيد',
+      type: 'MEETING',
+      rsvpRequired: true,
+      gatheringId: 'g1',
+      targetAudience: 'RULES',
+      targetRules: { type: 'branch', lineageBranchId: 'b1', subBranchId: 's1' },
+      meetingLocation: 'الرياض',
+    });
+    expect(input.contentAr).toBe('<p>أهلاً &lt;بكم&gt;</p>');
+    expect(input.meetingDate?.toISOString()).toBe('2026-03-20T15:30:00.000Z');
+  });
+});
+
+describe('hasGatheringPass', () => {
+  it('should only issue passes to attendees who said yes or maybe', () => {
+    expect(hasGatheringPass({ rsvpStatus: 'YES' })).toBe(true);
+    expect(hasGatheringPass({ rsvpStatus: 'MAYBE' })).toBe(true);
+    expect(hasGatheringPass({ rsvpStatus: 'PENDING' })).toBe(false);
+    expect(hasGatheringPass({ rsvpStatus: 'NO' })).toBe(false);
+  });
+});
+
+describe('summarizeAttendance', () => {
+  const invitedAt = new Date('2026-03-01T00:00:00Z');
+  const rows: AttendanceRow[] = [
+    { rsvpStatus: 'YES', plusOnes: 2, attended: true, invitedAt, branchId: 'b1', branchName: 'محمد' },
+    { rsvpStatus: 'YES', plusOnes: 0, attended: false, invitedAt, branchId: 'b1', branchName: 'محمد' },
+    { rsvpStatus: 'MAYBE', plusOnes: 1, attended: true, invitedAt, branchId: 'b2', branchName: 'عبدالله' },
+    { rsvpStatus: 'NO', plusOnes: 0, attended: false, invitedAt, branchId: 'b2', branchName: 'عبدالله' },
+    { rsvpStatus: 'PENDING', plusOnes: 0, attended: false, invitedAt, branchId: null },
+    { rsvpStatus: 'YES', plusOnes: 1, attended: true, invitedAt: null, branchId: null },
+  ];
+
+  it('should count responses, expected headcount and arrivals', () => {
+    expect(summarizeAttendance(rows).totals).toEqual({
+      invited: 5,
+      yes: 3,
+      maybe: 1,
+      no: 1,
+      pending: 1,
+      expectedHeadcount: 6,
+      attended: 3,
+      attendedHeadcount: 7,
+      noShows: 1,
+      walkIns: 1,
+    });
+  });
+
+  it('should break totals down by branch with unplaced attendees last', () => {
+    const { branches } = summarizeAttendance(rows);
+    expect(branches.map(branch => branch.branchName)).toEqual(['عبدالله', 'محمد', null]);
+    expect(branches[1]).toMatchObject({ yes: 2, expectedHeadcount: 4, attendedHeadcount: 3, noShows: 1 });
+    expect(branches[2]).toMatchObject({ invited: 1, pending: 1, attended: 1 });
+  });
+});
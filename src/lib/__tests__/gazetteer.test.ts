@@ -0,0 +1,78 @@
+/**
+ * Tests for city matching, place name normalization and family map aggregation
+ */
+
+import {
+  clusterByDistance,
+  matchCity,
+  normalizePlaceName,
+  summarizeFamilyMap,
+  type MapMember,
+} from '@/lib/gazetteer';
+
+function makeMember(overrides: Partial<MapMember>): MapMember {
+  return { id: 'P001', name: 'محمد', city: null, birthPlace: null, ...overrides };
+}
+
+describe('matchCity', () => {
+  it('matches Arabic and English spellings of the same city', () => {
+    for (const text of ['الرياض', 'رياض', 'مدينة الرياض', 'Riyadh', 'riyadh, Saudi Arabia']) {
+      expect(matchCity(text)).toEqual({ city: expect.objectContaining({ id: 'riyadh' }), exact: true });
+    }
+    expect(matchCity('Al-Kharj')?.city.id).toBe('kharj');
+    expect(matchCity('الهفوف')?.city.id).toBe('ahsa');
+  });
+
+  it('falls back to a part of a detailed address without marking it exact', () => {
+    expect(matchCity('حي النسيم، الرياض')).toEqual({ city: expect.objectContaining({ id: 'riyadh' }), exact: false });
+  });
+
+  it('returns null for unknown or empty places', () => {
+    expect(matchCity('قرية مجهولة')).toBeNull();
+    expect(matchCity('  ')).toBeNull();
+    expect(matchCity(null)).toBeNull();
+  });
+});
+
+describe('normalizePlaceName', () => {
+  it('rewrites exact matches to the canonical Arabic name only', () => {
+    expect(normalizePlaceName('Dammam')).toBe('الدمام');
+    expect(normalizePlaceName('الدمام')).toBeNull();
+    expect(normalizePlaceName('حي النسيم، الرياض')).toBeNull();
+  });
+});
+
+describe('summarizeFamilyMap', () => {
+  it('groups residences, counts migrations and reports unmatched places', () => {
+    const summary = summarizeFamilyMap([
+      makeMember({ id: 'P001', city: 'الرياض', birthPlace: 'الخرج' }),
+      makeMember({ id: 'P002', city: 'Riyadh', birthPlace: 'Al-Kharj' }),
+      makeMember({ id: 'P003', city: 'جدة', birthPlace: 'جدة' }),
+      makeMember({ id: 'P004', city: 'قرية مجهولة' }),
+      makeMember({ id: 'P005', birthPlace: 'الدمام' }),
+    ]);
+
+    expect(summary.located).toBe(4);
+    expect(summary.residences.map(r => [r.city.id, r.count])).toEqual([['riyadh', 2], ['jeddah', 1]]);
+    expect(summary.migrations).toHaveLength(1);
+    expect(summary.migrations[0]).toMatchObject({ from: { id: 'kharj' }, to: { id: 'riyadh' }, count: 2 });
+    expect(summary.unmatched).toEqual([{ text: 'قرية مجهولة', count: 1 }]);
+  });
+});
+
+describe('clusterByDistance', () => {
+  it('merges nearby points around the heaviest one', () => {
+    const clusters = clusterByDistance(
+      [
+        { x: 0, y: 0, weight: 1, item: 'a' },
+        { x: 10, y: 0, weight: 3, item: 'b' },
+        { x: 100, y: 100, weight: 1, item: 'c' },
+      ],
+      20
+    );
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toEqual({ x: 7.5, y: 0, weight: 4, items: ['b', 'a'] });
+    expect(clusters[1].items).toEqual(['c']);
+  });
+});
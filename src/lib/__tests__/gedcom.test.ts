@@ -0,0 +1,161 @@
+/**
+ * Tests for GEDCOM export and import
+ */
+
+import { exportToGEDCOM, ALL_EXPORT_FIELDS } from '@/lib/export-utils';
+import { parseGEDCOM, prepareImport } from '@/lib/import-utils';
+import { FamilyMember, Marriage } from '@/lib/types';
+
+function member(overrides: Partial<FamilyMember> & { id: string }): FamilyMember {
+  return {
+    firstName: overrides.id,
+    fatherName: null,
+    grandfatherName: null,
+    greatGrandfatherName: null,
+    familyName: 'آل شايع',
+    fatherId: null,
+    gender: 'Male',
+    birthYear: null,
+    deathYear: null,
+    sonsCount: 0,
+    daughtersCount: 0,
+    generation: 1,
+    branch: null,
+    fullNameAr: null,
+    fullNameEn: null,
+    phone: null,
+    city: null,
+    status: 'Living',
+    photoUrl: null,
+    biography: null,
+    occupation: null,
+    email: null,
+    ...overrides,
+  } as FamilyMember;
+}
+
+const members: FamilyMember[] = [
+  member({ id: 'P001', firstName: 'عبدالله', status: 'Deceased', deathYear: 1950, birthYear: 1880 }),
+  member({ id: 'P002', firstName: 'محمد', fatherId: 'P001', generation: 2, birthYear: 1910, biography: 'سطر أول\nسطر ثاني' }),
+  member({ id: 'P003', firstName: 'نورة', fatherId: 'P001', generation: 2, gender: 'Female', birthYear: 1915 }),
+  member({ id: 'P004', firstName: 'سعد', fatherId: 'P002', generation: 3, externalMotherName: 'هيا', birthYear: 1940 }),
+];
+
+const marriages: Marriage[] = [
+  {
+    id: 'm1',
+    husbandId: 'P002',
+    wifeId: null,
+    externalWifeName: 'هيا',
+    externalWifeFamily: 'الدوسري',
+    wifeOrder: 1,
+    startYear: 1935,
+    endYear: null,
+    status: 'ACTIVE',
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: null,
+  },
+];
+
+const options = { format: 'GEDCOM' as const, fields: ALL_EXPORT_FIELDS.map(f => ({ ...f, selected: true })) };
+
+describe('GEDCOM', () => {
+  describe('exportToGEDCOM', () => {
+    it('should write a 5.5.1 header with UTF-8 charset', () => {
+      const gedcom = exportToGEDCOM(members, options, marriages);
+      expect(gedcom).toContain('2 VERS 5.5.1');
+      expect(gedcom).toContain('1 CHAR UTF-8');
+      expect(gedcom.trim().endsWith('0 TRLR')).toBe(true);
+    });
+
+    it('should write INDI records with Arabic names and FAM records', () => {
+      const gedcom = exportToGEDCOM(members, options, marriages);
+      expect(gedcom).toContain('0 @P002@ INDI');
+      expect(gedcom).toContain('1 NAME محمد /آل شايع/');
+      expect(gedcom).toContain('1 CHIL @P002@');
+      expect(gedcom).toContain('2 CONT سطر ثاني');
+      expect(gedcom).toMatch(/1 MARR\n2 DATE 1935/);
+    });
+
+    it('should write a 7.0 header without CHAR', () => {
+      const gedcom = exportToGEDCOM(members, { ...options, gedcomVersion: '7.0' }, marriages);
+      expect(gedcom).toContain('2 VERS 7.0');
+      expect(gedcom).not.toContain('1 CHAR');
+    });
+  });
+
+  describe('parseGEDCOM', () => {
+    it('should round-trip exported members', () => {
+      const { members: imported, error } = parseGEDCOM(exportToGEDCOM(members, options, marriages));
+      expect(error).toBeUndefined();
+      expect(imported).toHaveLength(4);
+
+      const saad = imported.find(m => m.id === 'P004')!;
+      expect(saad.firstName).toBe('سعد');
+      expect(saad.fatherId).toBe('P002');
+      expect(saad.fatherName).toBe('محمد');
+      expect(saad.grandfatherName).toBe('عبدالله');
+      expect(saad.externalMotherName).toBe('هيا');
+      expect(saad.generation).toBe(3);
+
+      expect(imported.find(m => m.id === 'P001')!.status).toBe('Deceased');
+      expect(imported.find(m => m.id === 'P002')!.biography).toBe('سطر أول\nسطر ثاني');
+    });
+
+    it('should round-trip date precision and Hijri years', () => {
+      const dated = [
+        member({ id: 'P001', birthYear: 1880, birthYearPrecision: 'APPROXIMATE', status: 'Deceased', deathYear: 1954, deathYearPrecision: 'DECADE' }),
+        member({ id: 'P002', fatherId: 'P001', birthYear: 1910, birthYearHijri: 1328 }),
+      ];
+      const gedcom = exportToGEDCOM(dated, options);
+      expect(gedcom).toContain('2 DATE ABT 1880');
+      expect(gedcom).toContain('2 DATE BET 1950 AND 1959');
+
+      const { members: imported } = parseGEDCOM(gedcom);
+      const first = imported.find(m => m.id === 'P001')!;
+      expect(first.birthYearPrecision).toBe('APPROXIMATE');
+      expect(first.deathYearPrecision).toBe('DECADE');
+      expect(first.deathYear).toBe(1950);
+      expect(imported.find(m => m.id === 'P002')!.birthYearHijri).toBe(1328);
+    });
+
+    it('should renumber foreign IDs after existing members', () => {
+      const gedcom = [
+        '0 HEAD',
+        '1 GEDC',
+        '2 VERS 5.5.1',
+        '0 @I1@ INDI',
+        '1 NAME Ahmed /Ali/',
+        '1 SEX M',
+        '1 BIRT',
+        '2 DATE ABT 1920',
+        '0 @I2@ INDI',
+        '1 NAME Sara /Ali/',
+        '1 SEX F',
+        '0 @F1@ FAM',
+        '1 HUSB @I1@',
+        '1 CHIL @I2@',
+        '0 TRLR',
+      ].join('\r\n');
+
+      const { members: imported } = parseGEDCOM(gedcom, members);
+      expect(imported.map(m => m.id)).toEqual(['P005', 'P006']);
+      expect(imported[0].birthYear).toBe(1920);
+      expect(imported[1].fatherId).toBe('P005');
+      expect(imported[1].generation).toBe(2);
+    });
+
+    it('should reject files without a HEAD record', () => {
+      expect(parseGEDCOM('0 @I1@ INDI').error).toBeDefined();
+    });
+
+    it('should feed into prepareImport like other formats', () => {
+      const { members: imported } = parseGEDCOM(exportToGEDCOM(members, options, marriages));
+      const prepared = prepareImport(imported, members.slice(0, 2));
+      expect(prepared.errors).toHaveLength(0);
+      expect(prepared.newMembers.map(m => m.id)).toEqual(['P003', 'P004']);
+    });
+  });
+});
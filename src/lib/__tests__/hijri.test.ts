@@ -0,0 +1,64 @@
+/**
+ * Tests for Hijri calendar utilities
+ */
+
+import {
+  formatDualYear,
+  gregorianToHijri,
+  gregorianYearToHijri,
+  hijriToGregorian,
+  hijriYearToGregorian,
+  parseCalendarPreference,
+  withDualCalendarYears,
+} from '@/lib/hijri';
+
+describe('date conversion', () => {
+  it('should convert known dates between calendars', () => {
+    // 1 Muharram 1445 AH = 19 July 2023 (tabular calendar)
+    expect(hijriToGregorian({ year: 1445, month: 1, day: 1 })).toEqual({ year: 2023, month: 7, day: 19 });
+    expect(gregorianToHijri({ year: 2023, month: 7, day: 19 })).toEqual({ year: 1445, month: 1, day: 1 });
+  });
+
+  it('should round-trip dates', () => {
+    const date = { year: 1990, month: 3, day: 15 };
+    expect(hijriToGregorian(gregorianToHijri(date))).toEqual(date);
+  });
+
+  it('should convert years through mid-year', () => {
+    expect(gregorianYearToHijri(1990)).toBe(1410);
+    expect(hijriYearToGregorian(1410)).toBe(1990);
+    expect(gregorianYearToHijri(1932)).toBe(1351);
+  });
+});
+
+describe('formatDualYear', () => {
+  it('should format in the preferred calendar with precision', () => {
+    expect(formatDualYear(1990, null, 'EXACT', 'gregorian')).toBe('1990م');
+    expect(formatDualYear(1990, null, 'APPROXIMATE', 'hijri')).toBe('حوالي 1410هـ');
+    expect(formatDualYear(1994, null, 'DECADE', 'gregorian')).toBe('عقد 1990م');
+    expect(formatDualYear(null, 1410, 'EXACT', 'both')).toBe('1410هـ / 1990م');
+    expect(formatDualYear(null, null, 'EXACT', 'both')).toBe('');
+  });
+
+  it('should apply the precision to both calendars', () => {
+    expect(formatDualYear(1990, null, 'APPROXIMATE', 'both')).toBe('حوالي 1410هـ / حوالي 1990م');
+    expect(formatDualYear(1994, 1414, 'DECADE', 'both')).toBe('عقد 1410هـ / عقد 1990م');
+  });
+});
+
+describe('withDualCalendarYears', () => {
+  it('should fill only the missing counterpart', () => {
+    expect(withDualCalendarYears({ birthYear: 1990 })).toEqual({ birthYear: 1990, birthYearHijri: 1410 });
+    expect(withDualCalendarYears({ deathYearHijri: 1410 })).toEqual({ deathYearHijri: 1410, deathYear: 1990 });
+    expect(withDualCalendarYears({ birthYear: 1990, birthYearHijri: 1409 })).toEqual({ birthYear: 1990, birthYearHijri: 1409 });
+    expect(withDualCalendarYears({ birthYear: null })).toEqual({ birthYear: null, birthYearHijri: null });
+  });
+});
+
+describe('parseCalendarPreference', () => {
+  it('should fall back to gregorian', () => {
+    expect(parseCalendarPreference('hijri')).toBe('hijri');
+    expect(parseCalendarPreference('julian')).toBe('gregorian');
+    expect(parseCalendarPreference(undefined)).toBe('gregorian');
+  });
+});
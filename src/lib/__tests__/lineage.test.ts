@@ -0,0 +1,73 @@
+/**
+ * Tests for grouping children by mother in lineage utilities
+ */
+
+import {
+  buildChildrenByMotherMap,
+  getMotherKey,
+  groupChildrenByMother,
+  UNKNOWN_MOTHER_KEY,
+  FamilyMemberBase,
+} from '@/lib/lineage';
+
+function member(overrides: Partial<FamilyMemberBase> & { id: string }): FamilyMemberBase {
+  return {
+    firstName: overrides.id,
+    fatherId: 'P001',
+    gender: 'Male',
+    generation: 2,
+    ...overrides,
+  };
+}
+
+describe('Lineage - children by mother', () => {
+  describe('getMotherKey', () => {
+    it('should use motherId for in-tree mothers', () => {
+      expect(getMotherKey(member({ id: 'P002', motherId: 'P010' }))).toBe('P010');
+    });
+
+    it('should key external mothers by name', () => {
+      expect(getMotherKey(member({ id: 'P002', externalMotherName: ' نورة ' }))).toBe('ext:نورة');
+    });
+
+    it('should return unknown when no mother is recorded', () => {
+      expect(getMotherKey(member({ id: 'P002' }))).toBe(UNKNOWN_MOTHER_KEY);
+    });
+  });
+
+  describe('groupChildrenByMother', () => {
+    const children = [
+      member({ id: 'A2', motherId: 'W1', birthYear: 1960 }),
+      member({ id: 'B1', externalMotherName: 'سارة', birthYear: 1950 }),
+      member({ id: 'U1', birthYear: 1940 }),
+      member({ id: 'A1', motherId: 'W1', birthYear: 1955 }),
+    ];
+
+    it('should order groups by eldest child and keep unknown mother last', () => {
+      const groups = groupChildrenByMother(children);
+      expect(groups.map(g => g.motherKey)).toEqual(['ext:سارة', 'W1', UNKNOWN_MOTHER_KEY]);
+      expect(groups[1].children.map(c => c.id)).toEqual(['A1', 'A2']);
+    });
+
+    it('should follow wife order when provided', () => {
+      const wifeOrder = new Map([['W1', 1], ['ext:سارة', 2]]);
+      const groups = groupChildrenByMother(children, wifeOrder);
+      expect(groups.map(g => g.motherKey)).toEqual(['W1', 'ext:سارة', UNKNOWN_MOTHER_KEY]);
+    });
+  });
+
+  describe('buildChildrenByMotherMap', () => {
+    it('should apply wife order per father', () => {
+      const members = [
+        member({ id: 'C1', fatherId: 'F1', motherId: 'W1', birthYear: 1990 }),
+        member({ id: 'C2', fatherId: 'F1', motherId: 'W2', birthYear: 1980 }),
+        member({ id: 'C3', fatherId: 'F2', motherId: 'W1', birthYear: 1970 }),
+      ];
+      const wifeOrders = new Map([['F1', new Map([['W1', 1], ['W2', 2]])]]);
+
+      const result = buildChildrenByMotherMap(members, wifeOrders);
+      expect(result.get('F1')!.map(g => g.motherKey)).toEqual(['W1', 'W2']);
+      expect(result.get('F2')!.map(g => g.motherKey)).toEqual(['W1']);
+    });
+  });
+});
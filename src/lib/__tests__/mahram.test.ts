@@ -0,0 +1,87 @@
+/**
+ * Tests for the mahram calculator
+ */
+
+import { checkMahram, findMahrams, MahramContext } from '@/lib/mahram';
+
+function member(id: string, fatherId: string | null, gender: 'Male' | 'Female', motherId: string | null = null) {
+  return { id, fatherId, gender, motherId };
+}
+
+// P001 (M) + P020 (F, wife)
+// ├── P002 (M)
+// │   ├── P004 (M)
+// │   └── P005 (F)
+// └── P003 (F)
+//     (P003 is the mother of P030 with external father)
+// P010 (F) nursed P004; P010's daughter P011 (F); P010's sister P013 (F)
+// P012 (F) is P002's second wife
+const context: MahramContext = {
+  members: [
+    member('P001', null, 'Male'),
+    member('P020', null, 'Female'),
+    member('P002', 'P001', 'Male', 'P020'),
+    member('P003', 'P001', 'Female', 'P020'),
+    member('P004', 'P002', 'Male'),
+    member('P005', 'P002', 'Female'),
+    member('P030', null, 'Male', 'P003'),
+    member('P009', null, 'Male'),
+    member('P010', 'P009', 'Female'),
+    member('P011', null, 'Female', 'P010'),
+    member('P013', 'P009', 'Female'),
+    member('P014', null, 'Female'),
+    member('P012', null, 'Female'),
+  ],
+  breastfeeding: [{ childId: 'P004', nurseId: 'P010', milkFatherId: null }],
+  marriages: [
+    { husbandId: 'P001', wifeId: 'P020' },
+    { husbandId: 'P002', wifeId: 'P012' },
+  ],
+};
+
+describe('checkMahram', () => {
+  it('should not apply between members of the same gender', () => {
+    const result = checkMahram('P002', 'P004', context);
+    expect(result.isMahram).toBe(false);
+    expect(result.rule).toBeNull();
+  });
+
+  it('should detect blood mahrams', () => {
+    expect(checkMahram('P004', 'P005', context).rule?.code).toBe('SIBLING_LINE');
+    expect(checkMahram('P004', 'P003', context).rule?.code).toBe('AUNT_UNCLE');
+    expect(checkMahram('P004', 'P020', context).rule?.code).toBe('ASCENDANT');
+    expect(checkMahram('P003', 'P004', context).rule?.code).toBe('SIBLING_LINE');
+    expect(checkMahram('P020', 'P004', context).rule?.type).toBe('blood');
+  });
+
+  it('should not treat cousins as mahram', () => {
+    expect(checkMahram('P030', 'P005', context).isMahram).toBe(false);
+  });
+
+  it('should detect milk mahrams for the nursed child only', () => {
+    const milkMother = checkMahram('P004', 'P010', context);
+    expect(milkMother.rule?.type).toBe('milk');
+    expect(milkMother.rule?.code).toBe('ASCENDANT');
+
+    expect(checkMahram('P004', 'P011', context).rule?.code).toBe('SIBLING_LINE');
+    expect(checkMahram('P004', 'P013', context).rule?.code).toBe('AUNT_UNCLE');
+
+    // The nursed child's father is not related to the milk family
+    expect(checkMahram('P002', 'P010', context).isMahram).toBe(false);
+  });
+
+  it('should detect mahrams by marriage', () => {
+    expect(checkMahram('P004', 'P012', context).rule?.code).toBe('SPOUSE_OF_ASCENDANT');
+    expect(checkMahram('P012', 'P004', context).rule?.code).toBe('DESCENDANT_OF_SPOUSE');
+    expect(checkMahram('P001', 'P012', context).rule?.code).toBe('SPOUSE_OF_DESCENDANT');
+    expect(checkMahram('P012', 'P001', context).rule?.code).toBe('ASCENDANT_OF_SPOUSE');
+    expect(checkMahram('P004', 'P014', context).isMahram).toBe(false);
+  });
+});
+
+describe('findMahrams', () => {
+  it('should list all mahrams of a member', () => {
+    const ids = findMahrams('P004', context).map(m => m.memberId).sort();
+    expect(ids).toEqual(['P003', 'P005', 'P010', 'P011', 'P012', 'P013', 'P020']);
+  });
+});
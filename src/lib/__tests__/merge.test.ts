@@ -0,0 +1,74 @@
+/**
+ * Tests for member merge utilities
+ */
+
+import { replaceMemberIdInList, resolveMergedFields } from '@/lib/merge';
+import type { FamilyMember } from '@/lib/types';
+
+function member(id: string, fields: Partial<FamilyMember> = {}): FamilyMember {
+  return {
+    id,
+    firstName: 'محمد',
+    fatherName: null,
+    grandfatherName: null,
+    greatGrandfatherName: null,
+    familyName: 'آل شايع',
+    fatherId: null,
+    gender: 'Male',
+    birthYear: null,
+    deathYear: null,
+    sonsCount: 0,
+    daughtersCount: 0,
+    generation: 3,
+    branch: null,
+    fullNameAr: null,
+    fullNameEn: null,
+    phone: null,
+    city: null,
+    status: 'Living',
+    photoUrl: null,
+    biography: null,
+    occupation: null,
+    email: null,
+    ...fields,
+  };
+}
+
+describe('resolveMergedFields', () => {
+  const survivor = member('P010', { phone: '0501111111', city: null, birthYear: 1960 });
+  const duplicate = member('P099', { phone: '0502222222', city: 'الرياض', birthYear: 1961, fatherId: 'P001' });
+
+  it('should fill only empty fields by default', () => {
+    expect(resolveMergedFields(survivor, duplicate)).toEqual({ city: 'الرياض' });
+  });
+
+  it('should prefer the duplicate values with MERGE_PREFER_IMPORTED', () => {
+    expect(resolveMergedFields(survivor, duplicate, 'MERGE_PREFER_IMPORTED')).toEqual({
+      phone: '0502222222',
+      city: 'الرياض',
+      birthYear: 1961,
+    });
+  });
+
+  it('should apply field-by-field choices over the strategy', () => {
+    expect(resolveMergedFields(survivor, duplicate, 'MERGE_PREFER_EXISTING', { birthYear: 'merged', city: 'keep' }))
+      .toEqual({ birthYear: 1961 });
+  });
+
+  it('should never change the tree position of the survivor', () => {
+    expect(resolveMergedFields(survivor, duplicate, 'USE_IMPORTED')).not.toHaveProperty('fatherId');
+  });
+});
+
+describe('replaceMemberIdInList', () => {
+  it('should replace the merged ID without duplicating the survivor', () => {
+    expect(replaceMemberIdInList('["P001","P099"]', 'P099', 'P010')).toBe('["P001","P010"]');
+    expect(replaceMemberIdInList('["P010","P099"]', 'P099', 'P010')).toBe('["P010"]');
+  });
+
+  it('should return null when nothing changes', () => {
+    expect(replaceMemberIdInList('["P001"]', 'P099', 'P010')).toBeNull();
+    expect(replaceMemberIdInList(null, 'P099', 'P010')).toBeNull();
+    expect(replaceMemberIdInList('not json', 'P099', 'P010')).toBeNull();
+  });
+});
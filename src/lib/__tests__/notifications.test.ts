@@ -0,0 +1,49 @@
+/**
+ * Tests for notification preferences and digest text
+ */
+
+import {
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  buildDigestSms,
+  resolveNotificationPreferences,
+} from '@/lib/notifications';
+
+describe('resolveNotificationPreferences', () => {
+  it('should default every type to in-app only', () => {
+    const preferences = resolveNotificationPreferences([]);
+    expect(Object.keys(preferences)).toEqual([...NOTIFICATION_TYPES]);
+    for (const type of NOTIFICATION_TYPES) {
+      expect(preferences[type]).toEqual(DEFAULT_NOTIFICATION_CHANNELS);
+    }
+  });
+
+  it('should apply saved rows and ignore unknown types', () => {
+    const preferences = resolveNotificationPreferences([
+      { type: 'PHOTO_TAGGED', inApp: false, email: true, sms: true, digest: true },
+      { type: 'SOMETHING_ELSE', inApp: false, email: true, sms: false, digest: false },
+    ]);
+    expect(preferences.PHOTO_TAGGED).toEqual({ inApp: false, email: true, sms: true, digest: true });
+    expect(preferences.GATHERING_INVITATION).toEqual(DEFAULT_NOTIFICATION_CHANNELS);
+    expect(preferences).not.toHaveProperty('SOMETHING_ELSE');
+  });
+});
+
+describe('buildDigestSms', () => {
+  const item = (n: number) => ({ titleAr: `إشعار ${n}`, messageAr: '', linkUrl: null });
+
+  it('should list every title when there are few', () => {
+    const sms = buildDigestSms([item(1), item(2)], 'https://example.com/notifications');
+    const lines = sms.split('\n');
+    expect(lines[0]).toContain('2');
+    expect(lines.slice(1, 3)).toEqual(['• إشعار 1', '• إشعار 2']);
+    expect(lines[lines.length - 1]).toBe('https://example.com/notifications');
+  });
+
+  it('should cap the titles and count the rest', () => {
+    const items = Array.from({ length: 8 }, (_, i) => item(i + 1));
+    const lines = buildDigestSms(items, '/notifications').split('\n');
+    expect(lines.filter(line => line.startsWith('•'))).toHaveLength(5);
+    expect(lines).toContain('و3 أخرى');
+  });
+});
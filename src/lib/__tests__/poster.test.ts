@@ -0,0 +1,149 @@
+/**
+ * Tests for poster layouts, tiling, SVG and PDF output
+ */
+
+import {
+  buildPosterTree,
+  computePosterTiles,
+  generationBandColor,
+  layoutPoster,
+  lightenHex,
+  paperDimensions,
+  renderPosterSvg,
+  writeImagePdf,
+  type PosterMember,
+} from '@/lib/poster';
+
+function makeMember(id: string, fatherId: string | null, generation: number, overrides: Partial<PosterMember> = {}): PosterMember {
+  return {
+    id,
+    fatherId,
+    name: `عضو ${id}`,
+    generation,
+    gender: 'Male',
+    status: 'Living',
+    lineageBranchId: null,
+    birthYear: null,
+    deathYear: null,
+    placeholder: false,
+    ...overrides,
+  };
+}
+
+// P001 -> P002 (b. 1360), P003 (b. 1350); P002 -> P004, P005; P003 -> P006
+const members = [
+  makeMember('P001', null, 1),
+  makeMember('P002', 'P001', 2, { birthYear: 1360 }),
+  makeMember('P003', 'P001', 2, { birthYear: 1350 }),
+  makeMember('P004', 'P002', 3, { lineageBranchId: 'P002' }),
+  makeMember('P005', 'P002', 3, { lineageBranchId: 'P002' }),
+  makeMember('P006', 'P003', 3, { lineageBranchId: 'P003' }),
+];
+
+describe('buildPosterTree', () => {
+  it('should start from the family root and order children eldest first', () => {
+    const tree = buildPosterTree(members)!;
+    expect(tree.member.id).toBe('P001');
+    expect(tree.children.map(c => c.member.id)).toEqual(['P003', 'P002']);
+    expect(tree.leaves).toBe(3);
+  });
+
+  it('should start from a branch root and stop at the generation limit', () => {
+    expect(buildPosterTree(members, 'P002')!.children).toHaveLength(2);
+    expect(buildPosterTree(members, 'P001', 1)!.children.every(c => c.children.length === 0)).toBe(true);
+  });
+
+  it('should return null for an unknown root', () => {
+    expect(buildPosterTree(members, 'P999')).toBeNull();
+  });
+});
+
+describe('layouts', () => {
+  const tree = buildPosterTree(members)!;
+
+  it('should place the eldest branch on the right in the descendant tree', () => {
+    const layout = layoutPoster(tree, members, 'DESCENDANT');
+    const x = (id: string) => layout.nodes.find(n => n.member.id === id)!.x;
+    expect(x('P003')).toBeGreaterThan(x('P002'));
+    expect(layout.bands).toHaveLength(3);
+  });
+
+  it('should stack sibling leaves in one column', () => {
+    const layout = layoutPoster(tree, members, 'DESCENDANT');
+    const p004 = layout.nodes.find(n => n.member.id === 'P004')!;
+    const p005 = layout.nodes.find(n => n.member.id === 'P005')!;
+    expect(p004.stacked).toBe(true);
+    expect(p004.x).toBe(p005.x);
+    expect(p005.y).toBeGreaterThan(p004.y);
+  });
+
+  it('should split the fan by leaves and keep it in the upper half', () => {
+    const layout = layoutPoster(tree, members, 'FAN');
+    const p002 = layout.nodes.find(n => n.member.id === 'P002')!;
+    const p003 = layout.nodes.find(n => n.member.id === 'P003')!;
+    expect(Math.abs(p002.endAngle! - p002.startAngle!)).toBeCloseTo((2 * Math.PI) / 3);
+    expect(Math.abs(p003.endAngle! - p003.startAngle!)).toBeCloseTo(Math.PI / 3);
+    expect(layout.nodes.every(n => n.y <= layout.cy + 1e-9)).toBe(true);
+  });
+
+  it('should list the branches shown for the legend', () => {
+    const layout = layoutPoster(buildPosterTree(members, 'P002')!, members, 'RADIAL');
+    expect(layout.branches.map(b => b.id)).toEqual(['P002']);
+  });
+});
+
+describe('colors', () => {
+  it('should lighten towards white', () => {
+    expect(lightenHex('#000000', 0.5)).toBe('#808080');
+    expect(lightenHex('#ef4444', 0)).toBe('#ef4444');
+  });
+
+  it('should shade later generations of a branch lighter', () => {
+    const branches = [{ id: 'P003' }, { id: 'P002' }];
+    expect(generationBandColor(members[2], branches)).toBe('#ef4444');
+    expect(generationBandColor(members[5], branches)).toBe(lightenHex('#ef4444', 0.14));
+  });
+});
+
+describe('computePosterTiles', () => {
+  it('should cover an A0 poster with A3 sheets starting top right', () => {
+    const poster = paperDimensions('A0', 'landscape');
+    const tiles = computePosterTiles(poster, 'A3');
+    expect(tiles.length).toBeGreaterThan(4);
+    expect(tiles[0].x + tiles[0].width).toBe(poster.width);
+    expect(tiles[0].y).toBe(0);
+    const last = tiles[tiles.length - 1];
+    expect(last.x).toBeLessThanOrEqual(0);
+    expect(last.y + last.height).toBeGreaterThanOrEqual(poster.height);
+  });
+
+  it('should use one sheet when the poster fits', () => {
+    expect(computePosterTiles(paperDimensions('A4', 'portrait'), 'A3')).toHaveLength(1);
+  });
+});
+
+describe('renderPosterSvg', () => {
+  it('should size the document to the paper and escape names', () => {
+    const withMarkup = [...members, makeMember('P007', 'P006', 4, { name: 'أحمد <b>' })];
+    const layout = layoutPoster(buildPosterTree(withMarkup)!, withMarkup, 'DESCENDANT');
+    const svg = renderPosterSvg(layout, { paper: paperDimensions('A2', 'portrait'), title: 'شجرة عائلة آل شايع' });
+    expect(svg).toContain('width="420mm" height="594mm"');
+    expect(svg).toContain('direction="rtl"');
+    expect(svg).toContain('أحمد &lt;b&gt;');
+    expect(svg).not.toContain('<b>');
+  });
+});
+
+describe('writeImagePdf', () => {
+  it('should write one page per image with a valid trailer', () => {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xd9]);
+    const page = { width: 210, height: 297, jpeg, pixelWidth: 1, pixelHeight: 1 };
+    const pdf = writeImagePdf([page, page], 'شجرة').toString('binary');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('/MediaBox [0 0 595.28 841.89]');
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for member redaction by viewer role, relation and member overrides
+ */
+
+import type { FamilyMember } from '@/lib/types';
+import {
+  getViewerRelation,
+  HIDDEN_MEMBER_NAME,
+  parseMemberPrivacyOverrides,
+  redactMember,
+  redactMemberTree,
+  type PrivacyViewer,
+} from '@/lib/privacy';
+import { prepareMembersForExport } from '@/lib/export-utils';
+import { createMockPrivacySettings, createMockProfileMember } from '@/test/setup';
+
+const settings = createMockPrivacySettings();
+
+const makeMember = (overrides: Partial<FamilyMember> = {}): FamilyMember =>
+  createMockProfileMember({ id: 'P010', branch: 'الفرع الأول', birthYearHijri: 1400, ...overrides });
+
+const memberViewer: PrivacyViewer = { role: 'MEMBER', settings };
+
+describe('redactMember', () => {
+  it('should apply the role rules to unrelated viewers', () => {
+    const redacted = redactMember(makeMember(), memberViewer);
+    expect(redacted).toMatchObject({ phone: null, email: null, birthYear: 1980, city: 'الرياض' });
+  });
+
+  it('should hide profile details from anonymous viewers when guests cannot see profiles', () => {
+    const redacted = redactMember(makeMember(), { role: null, settings });
+    expect(redacted).toMatchObject({ birthYear: null, birthYearHijri: null, photoUrl: null, city: null });
+    expect(redacted.firstName).toBeTruthy();
+  });
+
+  it('should show contact details to relatives and everything to the member', () => {
+    const member = makeMember();
+    const relative = redactMember(member, { ...memberViewer, relativeIds: new Set(['P010']) });
+    expect(relative).toMatchObject({ phone: '0500000000', email: 'member@example.com' });
+
+    expect(redactMember(member, { ...memberViewer, linkedMemberId: 'P010' })).toBe(member);
+  });
+
+  it('should apply member overrides to everyone but the member and editors', () => {
+    const member = makeMember({ privacyOverrides: { hidePhone: true, hideCity: true } });
+
+    const relative = redactMember(member, { ...memberViewer, relativeIds: new Set(['P010']) });
+    expect(relative).toMatchObject({ phone: null, city: null, email: 'member@example.com' });
+    expect(relative.privacyOverrides).toBeUndefined();
+
+    const admin = redactMember(member, { role: 'ADMIN', settings, editableBranch: 'ALL' });
+    expect(admin).toMatchObject({ phone: '0500000000', city: 'الرياض' });
+  });
+
+  it('should only give branch leaders the full record within their branch', () => {
+    const leader: PrivacyViewer = { role: 'BRANCH_LEADER', settings, editableBranch: 'الفرع الأول' };
+    expect(redactMember(makeMember(), leader).phone).toBe('0500000000');
+    expect(redactMember(makeMember({ branch: 'الفرع الثاني' }), leader).phone).toBeNull();
+  });
+
+  it('should read overrides stored as JSON on raw rows', () => {
+    const row = { id: 'P010', phone: '0500000000', privacyOverrides: '{"hidePhone":true,"other":true}' };
+    expect(redactMember(row, { role: 'ADMIN', settings }).phone).toBeNull();
+    expect(parseMemberPrivacyOverrides(row.privacyOverrides)).toEqual({ hidePhone: true });
+    expect(parseMemberPrivacyOverrides('not json')).toEqual({});
+  });
+});
+
+describe('privacy profile', () => {
+  it('should hide the photo from relatives too', () => {
+    const member = makeMember({ privacyOverrides: { hidePhoto: true } });
+    expect(redactMember(member, { ...memberViewer, relativeIds: new Set(['P010']) }).photoUrl).toBeNull();
+    expect(redactMember(member, { ...memberViewer, linkedMemberId: 'P010' }).photoUrl).toBe('/photos/p.jpg');
+  });
+
+  it('should show guests a placeholder that keeps the place in the tree', () => {
+    const member = makeMember({ fatherId: 'P001', generation: 3, privacyOverrides: { hideFromGuests: true } });
+
+    const asGuest = redactMember(member, { role: null, settings });
+    expect(asGuest).toMatchObject({
+      id: 'P010',
+      fatherId: 'P001',
+      generation: 3,
+      isPlaceholder: true,
+      firstName: HIDDEN_MEMBER_NAME.ar,
+      fullNameAr: null,
+      phone: null,
+    });
+
+    expect(redactMember(member, memberViewer).isPlaceholder).toBeUndefined();
+  });
+
+  it('should show only the first name to viewers outside the immediate family', () => {
+    const member = makeMember({ fatherName: 'محمد', fullNameAr: 'أحمد بن محمد', privacyOverrides: { firstNameOnly: true } });
+
+    const stranger = redactMember(member, memberViewer);
+    expect(stranger.firstName).toBe(member.firstName);
+    expect(stranger).toMatchObject({ fatherName: null, fullNameAr: null, birthYear: null, city: null });
+
+    const relative = redactMember(member, { ...memberViewer, relativeIds: new Set(['P010']) });
+    expect(relative.fullNameAr).toBe('أحمد بن محمد');
+  });
+
+  it('should keep the export opt-out visible so exporters write a placeholder', () => {
+    const member = makeMember({ privacyOverrides: { excludeFromExports: true, hidePhone: true } });
+    const redacted = redactMember(member, memberViewer);
+    expect(redacted.privacyOverrides).toEqual({ excludeFromExports: true });
+
+    const [exported] = prepareMembersForExport([redacted]);
+    expect(exported).toMatchObject({ id: 'P010', isPlaceholder: true, email: null, occupation: null });
+    expect(prepareMembersForExport([makeMember()])[0].isPlaceholder).toBeUndefined();
+  });
+});
+
+describe('redactMemberTree', () => {
+  it('should redact every node', () => {
+    const tree = {
+      ...makeMember({ id: 'P001' }),
+      children: [{ ...makeMember({ id: 'P002' }), children: [] }],
+    };
+    const redacted = redactMemberTree(tree, memberViewer);
+    expect(redacted.phone).toBeNull();
+    expect((redacted.children[0] as FamilyMember).phone).toBeNull();
+  });
+});
+
+describe('getViewerRelation', () => {
+  it('should tell self, relatives and others apart', () => {
+    const viewer: PrivacyViewer = { ...memberViewer, linkedMemberId: 'P001', relativeIds: new Set(['P002']) };
+    expect(getViewerRelation(viewer, 'P001')).toBe('SELF');
+    expect(getViewerRelation(viewer, 'P002')).toBe('RELATIVE');
+    expect(getViewerRelation(viewer, 'P003')).toBe('NONE');
+  });
+});
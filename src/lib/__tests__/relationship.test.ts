@@ -0,0 +1,86 @@
+/**
+ * Tests for the relationship calculator
+ */
+
+import { calculateRelationship } from '@/lib/relationship';
+import { FamilyMember } from '@/lib/types';
+
+function member(id: string, fatherId: string | null, gender: 'Male' | 'Female' = 'Male'): FamilyMember {
+  return { id, firstName: id, fatherId, gender, generation: 1 } as FamilyMember;
+}
+
+// P001
+// ├── P002
+// │   ├── P004
+// │   │   └── P007
+// │   │       └── P010
+// │   └── P005 (F)
+// └── P003
+//     └── P006
+//         ├── P008
+//         │   └── P011
+//         └── P009 (F)
+const members: FamilyMember[] = [
+  member('P001', null),
+  member('P002', 'P001'),
+  member('P003', 'P001'),
+  member('P004', 'P002'),
+  member('P005', 'P002', 'Female'),
+  member('P006', 'P003'),
+  member('P007', 'P004'),
+  member('P008', 'P006'),
+  member('P009', 'P006', 'Female'),
+  member('P010', 'P007'),
+  member('P011', 'P008'),
+  member('P099', null),
+];
+
+describe('calculateRelationship', () => {
+  it('should return null for unrelated or missing members', () => {
+    expect(calculateRelationship('P004', 'P099', members)).toBeNull();
+    expect(calculateRelationship('P004', 'P404', members)).toBeNull();
+  });
+
+  it('should describe siblings', () => {
+    const result = calculateRelationship('P004', 'P005', members)!;
+    expect(result.termAr).toBe('أخت');
+    expect(result.termEn).toBe('sister');
+    expect(result.path).toEqual(['P004', 'P002', 'P005']);
+  });
+
+  it('should describe ancestors and descendants', () => {
+    expect(calculateRelationship('P010', 'P002', members)!.termAr).toBe('جد الأب');
+    expect(calculateRelationship('P010', 'P001', members)!.termAr).toBe('جد الجد');
+    expect(calculateRelationship('P010', 'P001', members)!.termEn).toBe('great-great-grandfather');
+    expect(calculateRelationship('P002', 'P010', members)!.termAr).toBe('ابن الحفيد');
+  });
+
+  it('should describe paternal uncles', () => {
+    expect(calculateRelationship('P004', 'P003', members)!.termAr).toBe('عم');
+    expect(calculateRelationship('P010', 'P003', members)!.termAr).toBe('عم الجد');
+    expect(calculateRelationship('P010', 'P003', members)!.termEn).toBe('great-great-uncle');
+  });
+
+  it('should describe cousins with degree and removal', () => {
+    const first = calculateRelationship('P004', 'P006', members)!;
+    expect(first.termAr).toBe('ابن العم');
+    expect(first.termEn).toBe('first cousin');
+    expect(first.cousinDegree).toBe(1);
+    expect(first.commonAncestorId).toBe('P001');
+    expect(first.path).toEqual(['P004', 'P002', 'P001', 'P003', 'P006']);
+
+    const once = calculateRelationship('P004', 'P008', members)!;
+    expect(once.termAr).toBe('ابن ابن العم');
+    expect(once.termEn).toBe('first cousin once removed');
+    expect(once.removed).toBe(1);
+
+    const second = calculateRelationship('P007', 'P009', members)!;
+    expect(second.termAr).toBe('بنت ابن عم الأب');
+    expect(second.termEn).toBe('second cousin');
+    expect(second.cousinDegree).toBe(2);
+
+    const removed = calculateRelationship('P010', 'P008', members)!;
+    expect(removed.termAr).toBe('ابن ابن عم الجد');
+    expect(removed.termEn).toBe('second cousin once removed');
+  });
+});
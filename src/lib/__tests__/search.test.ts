@@ -0,0 +1,141 @@
+/**
+ * Tests for Arabic-aware search utilities
+ */
+
+import {
+  buildSearchDocument,
+  highlightText,
+  journalSearchDocument,
+  matchesSearchQuery,
+  memberSearchDocument,
+  normalizeSearchText,
+  parseSearchQuery,
+  rankSearchDocuments,
+  scoreSearchDocument,
+} from '@/lib/search';
+import type { IndexedSearchDocument } from '@/lib/search';
+
+function member(id: string, title: string, extra: Partial<IndexedSearchDocument> = {}): IndexedSearchDocument {
+  return {
+    ...buildSearchDocument({
+      entityType: 'member',
+      entityId: id,
+      title,
+      body: null,
+      generation: 3,
+      branch: 'الأصل',
+      city: 'الرياض',
+      status: 'Living',
+    }),
+    ...extra,
+  };
+}
+
+describe('normalizeSearchText', () => {
+  it('should unify hamza, alef maqsura and taa marbuta spellings', () => {
+    expect(normalizeSearchText('أحمد')).toBe(normalizeSearchText('احمد'));
+    expect(normalizeSearchText('فاطمة')).toBe(normalizeSearchText('فاطمه'));
+    expect(normalizeSearchText('موسى')).toBe(normalizeSearchText('موسي'));
+  });
+});
+
+describe('scoreSearchDocument', () => {
+  it('should match regardless of spelling variants', () => {
+    const doc = member('P001', 'أحمد بن عبدالله');
+    expect(scoreSearchDocument(doc, parseSearchQuery('احمد'))).toBeGreaterThan(0);
+  });
+
+  it('should require every query word to match', () => {
+    const doc = member('P001', 'أحمد بن عبدالله');
+    expect(scoreSearchDocument(doc, parseSearchQuery('احمد خالد'))).toBe(0);
+  });
+
+  it('should rank exact title matches above prefixes and members above journals', () => {
+    const query = parseSearchQuery('محمد');
+    const exact = scoreSearchDocument(member('P001', 'محمد بن سعد'), query);
+    const prefix = scoreSearchDocument(member('P002', 'محمدين بن سعد'), query);
+    const journal = scoreSearchDocument(journalSearchDocument({
+      id: 'J1',
+      titleAr: 'محمد والنخلة',
+      contentAr: 'قصة',
+    }), query);
+
+    expect(exact).toBeGreaterThan(prefix);
+    expect(exact).toBeGreaterThan(journal);
+  });
+});
+
+describe('memberSearchDocument', () => {
+  const source = {
+    id: 'P010',
+    firstName: 'سعد',
+    fatherName: 'محمد',
+    grandfatherName: null,
+    fullNameAr: 'سعد بن محمد',
+    fullNameEn: null,
+    occupation: 'مهندس',
+    biography: 'عاش في القصيم',
+    generation: 3,
+    branch: 'الأصل',
+    city: 'الرياض',
+    status: 'Living',
+  };
+
+  it('should match occupation and biography only when asked to', () => {
+    const doc = memberSearchDocument(source);
+    expect(scoreSearchDocument(doc, parseSearchQuery('مهندس'))).toBe(0);
+    expect(scoreSearchDocument(doc, parseSearchQuery('مهندس'), true)).toBeGreaterThan(0);
+    expect(scoreSearchDocument(doc, parseSearchQuery('سعد'))).toBeGreaterThan(0);
+  });
+
+  it('should leave out the occupation and city the member hid', () => {
+    const doc = memberSearchDocument({ ...source, privacyOverrides: { hideOccupation: true, hideCity: true } });
+    expect(scoreSearchDocument(doc, parseSearchQuery('مهندس'), true)).toBe(0);
+    expect(scoreSearchDocument(doc, parseSearchQuery('القصيم'), true)).toBeGreaterThan(0);
+    expect(doc.city).toBeNull();
+  });
+});
+
+describe('highlightText', () => {
+  it('should mark matching words and escape HTML', () => {
+    expect(highlightText('أحمد <b>', parseSearchQuery('احمد').tokens)).toBe('<mark>أحمد</mark> &lt;b&gt;');
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('should match word prefixes', () => {
+    expect(matchesSearchQuery('الرياض', parseSearchQuery('الري'))).toBe(true);
+    expect(matchesSearchQuery('جدة', parseSearchQuery('الري'))).toBe(false);
+  });
+});
+
+describe('rankSearchDocuments', () => {
+  const docs = [
+    member('P001', 'سعد بن محمد', { generation: 2 }),
+    member('P002', 'سعد بن علي', { generation: 3, city: 'جدة' }),
+    member('P003', 'سعد بن خالد', { generation: 3 }),
+    member('P004', 'فهد بن خالد', { generation: 3 }),
+  ];
+
+  it('should count facets before applying filters', () => {
+    const result = rankSearchDocuments(docs, parseSearchQuery('سعد'), { filters: { generation: 3 } });
+
+    expect(result.total).toBe(2);
+    expect(result.facets.generation).toEqual([
+      { value: '3', count: 2 },
+      { value: '2', count: 1 },
+    ]);
+    expect(result.facets.city).toEqual([
+      { value: 'الرياض', count: 2 },
+      { value: 'جدة', count: 1 },
+    ]);
+  });
+
+  it('should paginate hits and link them to their pages', () => {
+    const result = rankSearchDocuments(docs, parseSearchQuery('سعد'), { page: 2, limit: 2 });
+
+    expect(result.total).toBe(3);
+    expect(result.hits).toHaveLength(1);
+    expect(result.hits[0].url).toMatch(/^\/member\/P00\d$/);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for timeline grouping, filtering and "this day in family history"
+ */
+
+import {
+  filterTimelineByYears,
+  getThisDayInHistory,
+  groupTimelineByDecade,
+  sortTimelineEvents,
+  type TimelineEvent,
+} from '@/lib/timeline';
+
+function makeEvent(overrides: Partial<TimelineEvent>): TimelineEvent {
+  return {
+    id: 'BIRTH:P001',
+    kind: 'BIRTH',
+    year: 1990,
+    yearTo: null,
+    date: null,
+    approximate: false,
+    titleAr: 'محمد',
+    titleEn: null,
+    descriptionAr: null,
+    memberId: 'P001',
+    linkUrl: '/member/P001',
+    imageUrl: null,
+    ...overrides,
+  };
+}
+
+describe('filterTimelineByYears', () => {
+  const events = [
+    makeEvent({ id: 'a', year: 1950 }),
+    makeEvent({ id: 'b', year: 1985 }),
+    makeEvent({ id: 'c', kind: 'JOURNAL', year: 1940, yearTo: 1962 }),
+  ];
+
+  it('should keep events overlapping the range', () => {
+    expect(filterTimelineByYears(events, 1960, 1990).map(e => e.id)).toEqual(['b', 'c']);
+  });
+
+  it('should allow open bounds', () => {
+    expect(filterTimelineByYears(events, null, 1955).map(e => e.id)).toEqual(['a', 'c']);
+    expect(filterTimelineByYears(events, 1980).map(e => e.id)).toEqual(['b']);
+  });
+});
+
+describe('sortTimelineEvents', () => {
+  it('should order by year, then date, then kind', () => {
+    const events = [
+      makeEvent({ id: 'photo', kind: 'PHOTO', year: 2000 }),
+      makeEvent({ id: 'late', kind: 'GATHERING', year: 2000, date: '2000-09-01T00:00:00.000Z' }),
+      makeEvent({ id: 'early', kind: 'GATHERING', year: 2000, date: '2000-03-01T00:00:00.000Z' }),
+      makeEvent({ id: 'old', year: 1950 }),
+    ];
+    expect(sortTimelineEvents(events).map(e => e.id)).toEqual(['old', 'early', 'late', 'photo']);
+    expect(sortTimelineEvents(events, 'desc')[0].year).toBe(2000);
+  });
+});
+
+describe('groupTimelineByDecade', () => {
+  it('should count events per decade and kind', () => {
+    const decades = groupTimelineByDecade([
+      makeEvent({ year: 1989 }),
+      makeEvent({ year: 1980, kind: 'DEATH' }),
+      makeEvent({ year: 1951 }),
+    ]);
+    expect(decades.map(d => d.decade)).toEqual([1950, 1980]);
+    expect(decades[1].count).toBe(2);
+    expect(decades[1].kinds).toMatchObject({ BIRTH: 1, DEATH: 1, PHOTO: 0 });
+  });
+});
+
+describe('getThisDayInHistory', () => {
+  const today = new Date(2025, 3, 12);
+
+  it('should match dated events on the same month and day in earlier years', () => {
+    const items = getThisDayInHistory([
+      makeEvent({ id: 'match', kind: 'GATHERING', year: 2019, date: new Date(2019, 3, 12).toISOString() }),
+      makeEvent({ id: 'other-day', kind: 'GATHERING', year: 2019, date: new Date(2019, 3, 13).toISOString() }),
+      makeEvent({ id: 'this-year', kind: 'GATHERING', year: 2025, date: new Date(2025, 3, 12).toISOString() }),
+    ], today);
+    expect(items).toEqual([expect.objectContaining({ yearsAgo: 6 })]);
+    expect(items[0].event.id).toBe('match');
+  });
+
+  it('should include round anniversaries of exact years only', () => {
+    const items = getThisDayInHistory([
+      makeEvent({ id: 'fifty', year: 1975 }),
+      makeEvent({ id: 'approximate', year: 2000, approximate: true }),
+      makeEvent({ id: 'not-round', year: 1980 }),
+    ], today);
+    expect(items.map(item => [item.event.id, item.yearsAgo])).toEqual([['fifty', 50]]);
+  });
+});
@@ -3,6 +3,7 @@ import {
   loginSchema,
   registerSchema,
   createMemberSchema,
+  memberUpdateBodySchema,
   emailSchema,
   passwordSchema,
   phoneSchema,
@@ -174,6 +175,28 @@ describe('Validation Schemas', () => {
     });
   });
 
+  describe('memberUpdateBodySchema', () => {
+    it('should accept partial updates without defaults or an id', () => {
+      const result = memberUpdateBodySchema.safeParse({
+        city: 'الرياض',
+        photoUrl: '/api/images/blob/images/ab/ab.jpg',
+        version: 3,
+      });
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toEqual({
+        city: 'الرياض',
+        photoUrl: '/api/images/blob/images/ab/ab.jpg',
+        version: 3,
+      });
+    });
+
+    it('should reject malformed fields', () => {
+      expect(memberUpdateBodySchema.safeParse({ gender: 'Other' }).success).toBe(false);
+      expect(memberUpdateBodySchema.safeParse({ birthYear: 'abc' }).success).toBe(false);
+      expect(memberUpdateBodySchema.safeParse(null).success).toBe(false);
+    });
+  });
+
   describe('validateInput helper', () => {
     it('should return success true for valid input', () => {
       const result = validateInput(emailSchema, 'test@example.com');
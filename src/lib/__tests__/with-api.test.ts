@@ -0,0 +1,183 @@
+/**
+ * Tests for the withApi route guard
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withApi } from '@/lib/api/with-api';
+import { NotFoundError } from '@/lib/errors';
+import { DEFAULT_PERMISSION_MATRIX } from '@/lib/auth/types';
+import { createMockAdmin, createMockSession, createMockUser } from '@/test/setup';
+
+jest.mock('@/lib/auth/db-store', () => ({
+  findSessionByToken: jest.fn(),
+  findUserById: jest.fn(),
+  getPermissionMatrix: jest.fn(),
+  getUserPermissionOverrides: jest.fn(),
+}));
+
+jest.mock('@/lib/services/access-tokens', () => ({
+  verifyAccessToken: jest.fn(),
+}));
+
+import {
+  findSessionByToken,
+  findUserById,
+  getPermissionMatrix,
+  getUserPermissionOverrides,
+} from '@/lib/auth/db-store';
+import { verifyAccessToken } from '@/lib/services/access-tokens';
+
+function makeRequest(options: { token?: string; body?: unknown; method?: string; ip?: string } = {}) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+  if (options.ip) headers['x-forwarded-for'] = options.ip;
+
+  // next/server is mocked in jest.setup.js, so build the parts withApi reads
+  return {
+    method: options.method || (options.body !== undefined ? 'POST' : 'GET'),
+    headers: new Headers(headers),
+    nextUrl: new URL('http://localhost:5000/api/test'),
+    json: async () => options.body,
+  } as unknown as NextRequest;
+}
+
+// The mocked NextResponse.json returns { ...data, ...init }
+type MockResponse = Record<string, any>;
+
+async function call(route: (request: NextRequest) => Promise<unknown>, request: NextRequest): Promise<MockResponse> {
+  return (await route(request)) as MockResponse;
+}
+
+function signIn(user: ReturnType<typeof createMockUser>) {
+  (findSessionByToken as jest.Mock).mockResolvedValue(createMockSession(user));
+  (findUserById as jest.Mock).mockResolvedValue(user);
+}
+
+const ok = () => NextResponse.json({ success: true }, { status: 200 });
+
+describe('withApi', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (findSessionByToken as jest.Mock).mockResolvedValue(null);
+    (getPermissionMatrix as jest.Mock).mockResolvedValue(DEFAULT_PERMISSION_MATRIX);
+    (getUserPermissionOverrides as jest.Mock).mockResolvedValue({});
+  });
+
+  it('should require a session unless the route is public', async () => {
+    const response = await call(withApi({}, ok), makeRequest());
+    expect(response.status).toBe(401);
+    expect(response).toMatchObject({ success: false, code: 'AUTHENTICATION_ERROR' });
+
+    const publicHandler = jest.fn(ok);
+    await call(withApi({ public: true }, publicHandler), makeRequest());
+    expect(publicHandler).toHaveBeenCalledWith(expect.objectContaining({ user: null }));
+  });
+
+  it('should check the permission matrix', async () => {
+    signIn(createMockUser({ role: 'MEMBER' }));
+    const response = await call(withApi({ permission: 'delete_member' }, ok), makeRequest({ token: 't' }));
+    expect(response.status).toBe(403);
+    expect(response.code).toBe('AUTHORIZATION_ERROR');
+  });
+
+  it('should apply user permission overrides', async () => {
+    signIn(createMockUser({ role: 'MEMBER' }));
+    (getUserPermissionOverrides as jest.Mock).mockResolvedValue({ delete_member: true });
+    const response = await call(withApi({ permission: 'delete_member' }, ok), makeRequest({ token: 't' }));
+    expect(response.status).toBe(200);
+  });
+
+  it('should check allowed roles', async () => {
+    signIn(createMockUser({ role: 'MEMBER' }));
+    const response = await call(withApi({ roles: ['ADMIN', 'SUPER_ADMIN'] }, ok), makeRequest({ token: 't' }));
+    expect(response.status).toBe(403);
+  });
+
+  it('should restrict branch leaders to their branch', async () => {
+    signIn(createMockUser({ role: 'BRANCH_LEADER', assignedBranch: 'الفرع الأول' }));
+    (getUserPermissionOverrides as jest.Mock).mockResolvedValue({ edit_member: true });
+
+    const guarded = (branch: string) =>
+      call(withApi({ permission: 'edit_member', branchScope: () => branch }, ok), makeRequest({ token: 't' }));
+
+    expect((await guarded('الفرع الأول')).status).toBe(200);
+    expect((await guarded('الفرع الثاني')).status).toBe(403);
+  });
+
+  it('should require every branch a request moves a record between', async () => {
+    signIn(createMockUser({ role: 'BRANCH_LEADER', assignedBranch: 'الفرع الأول' }));
+    (getUserPermissionOverrides as jest.Mock).mockResolvedValue({ edit_member: true });
+
+    const guarded = (branches: string[]) =>
+      call(withApi({ permission: 'edit_member', branchScope: () => branches }, ok), makeRequest({ token: 't' }));
+
+    expect((await guarded(['الفرع الأول', 'الفرع الأول'])).status).toBe(200);
+    expect((await guarded(['الفرع الأول', 'الفرع الثاني'])).status).toBe(403);
+  });
+
+  it('should validate the body and pass the parsed value', async () => {
+    signIn(createMockAdmin());
+    const schema = z.object({ name: z.string().min(1), count: z.number().default(1) });
+    const handler = jest.fn(ok);
+    const route = withApi({ schema }, handler);
+
+    const invalid = await call(route, makeRequest({ token: 't', body: { name: '' } }));
+    expect(invalid.status).toBe(400);
+    expect(invalid.code).toBe('VALIDATION_ERROR');
+    expect(invalid.details.fieldErrors.name).toBeDefined();
+    expect(handler).not.toHaveBeenCalled();
+
+    await call(route, makeRequest({ token: 't', body: { name: 'محمد' } }));
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ body: { name: 'محمد', count: 1 } }));
+  });
+
+  it('should rate limit per client', async () => {
+    const route = withApi({ public: true, rateLimit: { windowMs: 60000, maxRequests: 2 } }, ok);
+    const ip = '203.0.113.7';
+
+    expect((await call(route, makeRequest({ ip }))).status).toBe(200);
+    expect((await call(route, makeRequest({ ip }))).status).toBe(200);
+    const limited = await call(route, makeRequest({ ip }));
+    expect(limited.status).toBe(429);
+    expect(limited.headers['Retry-After']).toBeTruthy();
+
+    // Other clients have their own budget
+    expect((await call(route, makeRequest({ ip: '203.0.113.8' }))).status).toBe(200);
+  });
+
+  it('should accept access tokens only on routes with a matching scope', async () => {
+    const user = createMockUser({ role: 'MEMBER' });
+    (verifyAccessToken as jest.Mock).mockResolvedValue({ tokenId: 'tok-1', user, scopes: ['members:read'] });
+    const request = () => makeRequest({ token: 'pat_abc' });
+
+    const handler = jest.fn(ok);
+    expect((await call(withApi({ scope: 'members:read' }, handler), request())).status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ user }));
+
+    const wrongScope = await call(withApi({ scope: 'journals:read' }, ok), request());
+    expect(wrongScope.status).toBe(403);
+
+    // Routes without a scope never look the token up
+    (verifyAccessToken as jest.Mock).mockClear();
+    expect((await call(withApi({}, ok), request())).status).toBe(401);
+    expect(verifyAccessToken).not.toHaveBeenCalled();
+    expect(findSessionByToken).not.toHaveBeenCalled();
+  });
+
+  it('should turn thrown AppErrors into JSON and hide other errors', async () => {
+    signIn(createMockAdmin());
+
+    const notFound = await call(withApi({}, () => {
+      throw new NotFoundError('Member not found', 'member', 'P999');
+    }), makeRequest({ token: 't' }));
+    expect(notFound.status).toBe(404);
+    expect(notFound).toMatchObject({ error: 'Member not found', code: 'NOT_FOUND_ERROR' });
+
+    const crashed = await call(withApi({}, () => {
+      throw new Error('connection string leaked');
+    }), makeRequest({ token: 't' }));
+    expect(crashed.status).toBe(500);
+    expect(crashed.error).toBe('Internal server error');
+  });
+});
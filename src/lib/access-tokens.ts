@@ -0,0 +1,37 @@
+// Personal Access Tokens - Shared types and constants
+// Tokens are created from /settings/security and accepted by the read-only
+// /api/v1 routes. Server-side handling lives in src/lib/services/access-tokens.ts.
+
+export type ApiScope = 'members:read' | 'tree:read' | 'journals:read' | 'gatherings:read';
+
+export const API_SCOPES: ApiScope[] = ['members:read', 'tree:read', 'journals:read', 'gatherings:read'];
+
+export const API_SCOPE_LABELS: Record<ApiScope, { ar: string; en: string }> = {
+  'members:read': { ar: 'قراءة بيانات الأعضاء', en: 'Read members' },
+  'tree:read': { ar: 'قراءة شجرة العائلة', en: 'Read family tree' },
+  'journals:read': { ar: 'قراءة القصص والمذكرات', en: 'Read journals' },
+  'gatherings:read': { ar: 'قراءة المناسبات', en: 'Read gatherings' },
+};
+
+// Every token starts with this, so the API can tell it from a session token
+export const ACCESS_TOKEN_PREFIX = 'pat';
+
+export const ACCESS_TOKEN_EXPIRY_DAYS = [30, 90, 180, 365] as const;
+
+export const MAX_ACCESS_TOKENS_PER_USER = 20;
+
+export interface AccessTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiScope[];
+  expiresAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(`${ACCESS_TOKEN_PREFIX}_`);
+}
@@ -13,3 +13,9 @@ export {
   type AuthResult,
   type AuthError,
 } from './auth';
+export {
+  withApi,
+  appErrorResponse,
+  type ApiContext,
+  type ApiGuardOptions,
+} from './with-api';
@@ -0,0 +1,150 @@
+/**
+ * OpenAPI Document for the Public API v1
+ * Component schemas are generated from the Zod response schemas, so the
+ * document cannot drift from what the routes return.
+ */
+
+import { z } from 'zod';
+import { API_SCOPES, API_SCOPE_LABELS, type ApiScope } from '@/lib/access-tokens';
+import { v1Registry } from './resources';
+
+type JsonObject = Record<string, unknown>;
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const pageParameters = [
+  { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+  { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+];
+
+const idParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+function jsonResponse(description: string, data: JsonObject, paginated = false) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: paginated ? ['success', 'data', 'pagination'] : ['success', 'data'],
+          properties: {
+            success: { type: 'boolean', const: true },
+            data,
+            ...(paginated && { pagination: ref('Pagination') }),
+          },
+        },
+      },
+    },
+  };
+}
+
+const errorResponses = {
+  401: { $ref: '#/components/responses/Unauthorized' },
+  403: { $ref: '#/components/responses/Forbidden' },
+  429: { $ref: '#/components/responses/TooManyRequests' },
+};
+
+function operation(
+  scope: ApiScope,
+  summary: string,
+  parameters: JsonObject[],
+  response: JsonObject,
+  notFound = false
+) {
+  return {
+    get: {
+      summary,
+      tags: [scope.split(':')[0]],
+      security: [{ accessToken: [scope] }],
+      parameters,
+      responses: {
+        200: response,
+        ...errorResponses,
+        ...(notFound && { 404: { $ref: '#/components/responses/NotFound' } }),
+      },
+    },
+  };
+}
+
+function errorResponse(description: string) {
+  return { description, content: { 'application/json': { schema: ref('Error') } } };
+}
+
+/**
+ * Component schemas from the v1 registry, without the per-schema
+ * $schema and $id keys that OpenAPI does not expect
+ */
+function componentSchemas(): Record<string, JsonObject> {
+  const { schemas } = z.toJSONSchema(v1Registry, {
+    uri: (id) => `#/components/schemas/${id}`,
+  }) as { schemas: Record<string, JsonObject> };
+
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => {
+      const { $schema: _schema, $id: _id, ...rest } = schema;
+      return [id, rest];
+    })
+  );
+}
+
+export function buildOpenApiDocument(serverUrl: string = '/api/v1') {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Al-Shaye Family Tree API',
+      version: '1.0.0',
+      description:
+        'Read-only access to the family tree. Authenticate with a personal access token ' +
+        'created from /settings/security. Member fields hidden by the privacy settings are null.',
+    },
+    servers: [{ url: serverUrl }],
+    paths: {
+      '/members': operation('members:read', 'List members', [
+        ...pageParameters,
+        { name: 'generation', in: 'query', schema: { type: 'integer' } },
+        { name: 'branch', in: 'query', schema: { type: 'string' } },
+        { name: 'gender', in: 'query', schema: { type: 'string', enum: ['Male', 'Female'] } },
+        { name: 'status', in: 'query', schema: { type: 'string', enum: ['Living', 'Deceased'] } },
+        { name: 'updatedSince', in: 'query', schema: { type: 'string', format: 'date-time' } },
+      ], jsonResponse('Members', { type: 'array', items: ref('Member') }, true)),
+      '/members/{id}': operation('members:read', 'Get a member', [idParameter],
+        jsonResponse('The member', ref('Member')), true),
+      '/tree': operation('tree:read', 'Get the family tree', [
+        { name: 'root', in: 'query', description: 'Member to start from', schema: { type: 'string' } },
+        { name: 'depth', in: 'query', description: 'Levels below the root', schema: { type: 'integer', minimum: 0 } },
+      ], jsonResponse('The tree', ref('TreeNode')), true),
+      '/journals': operation('journals:read', 'List published journals', [
+        ...pageParameters,
+        { name: 'category', in: 'query', schema: { type: 'string' } },
+        { name: 'memberId', in: 'query', schema: { type: 'string' } },
+      ], jsonResponse('Journals', { type: 'array', items: ref('Journal') }, true)),
+      '/journals/{id}': operation('journals:read', 'Get a published journal', [idParameter],
+        jsonResponse('The journal', ref('Journal')), true),
+      '/gatherings': operation('gatherings:read', 'List public gatherings', [
+        ...pageParameters,
+        { name: 'upcoming', in: 'query', schema: { type: 'boolean' } },
+        { name: 'type', in: 'query', schema: { type: 'string' } },
+      ], jsonResponse('Gatherings', { type: 'array', items: ref('Gathering') }, true)),
+      '/gatherings/{id}': operation('gatherings:read', 'Get a public gathering', [idParameter],
+        jsonResponse('The gathering', ref('Gathering')), true),
+    },
+    components: {
+      schemas: componentSchemas(),
+      securitySchemes: {
+        accessToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Personal access token (pat_...). Scopes: ${API_SCOPES
+            .map(scope => `${scope} (${API_SCOPE_LABELS[scope].en})`)
+            .join(', ')}`,
+        },
+      },
+      responses: {
+        Unauthorized: errorResponse('Missing, invalid, revoked or expired token'),
+        Forbidden: errorResponse('The token lacks the required scope or permission'),
+        NotFound: errorResponse('No such resource'),
+        TooManyRequests: errorResponse('Rate limit exceeded; see the Retry-After header'),
+      },
+    },
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * Public API v1 Resources
+ * Response schemas for the read-only /api/v1 routes and the serializers that
+ * produce them. The schemas are also the source of the OpenAPI document.
+ */
+
+import { z } from 'zod';
+import type { FamilyMember } from '@/lib/types';
+import { isExcludedFromExports, redactMember, toPlaceholderMember, type PrivacyViewer } from '@/lib/privacy';
+import { safeJsonParseArray } from '@/lib/utils/safe-json';
+
+/** Schemas registered here become components in the OpenAPI document */
+export const v1Registry = z.registry<{ id: string; description?: string }>();
+
+const dateTime = () => z.string().meta({ format: 'date-time' });
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+export const apiMemberSchema = z.object({
+  id: z.string(),
+  firstName: z.string(),
+  fatherName: z.string().nullable(),
+  grandfatherName: z.string().nullable(),
+  familyName: z.string(),
+  fullNameAr: z.string().nullable(),
+  fullNameEn: z.string().nullable(),
+  gender: z.enum(['Male', 'Female']),
+  generation: z.number().int(),
+  branch: z.string().nullable(),
+  lineageBranchName: z.string().nullable(),
+  subBranchName: z.string().nullable(),
+  fatherId: z.string().nullable(),
+  motherId: z.string().nullable(),
+  status: z.string(),
+  birthYear: z.number().int().nullable(),
+  birthYearHijri: z.number().int().nullable(),
+  deathYear: z.number().int().nullable(),
+  deathYearHijri: z.number().int().nullable(),
+  sonsCount: z.number().int(),
+  daughtersCount: z.number().int(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  city: z.string().nullable(),
+  occupation: z.string().nullable(),
+  biography: z.string().nullable(),
+  photoUrl: z.string().nullable(),
+  isPlaceholder: z.boolean(),
+  updatedAt: dateTime().nullable(),
+});
+v1Registry.add(apiMemberSchema, {
+  id: 'Member',
+  description: 'A family member. Fields hidden by the privacy settings are null; '
+    + 'members who opted out of exports are placeholders without a name.',
+});
+
+export const apiTreeNodeSchema = z.object({
+  id: z.string(),
+  firstName: z.string(),
+  fullNameAr: z.string().nullable(),
+  gender: z.enum(['Male', 'Female']),
+  generation: z.number().int(),
+  status: z.string(),
+  birthYear: z.number().int().nullable(),
+  deathYear: z.number().int().nullable(),
+  photoUrl: z.string().nullable(),
+  isPlaceholder: z.boolean(),
+  get children() {
+    return z.array(apiTreeNodeSchema);
+  },
+});
+v1Registry.add(apiTreeNodeSchema, { id: 'TreeNode', description: 'A member with their children' });
+
+export const apiJournalSchema = z.object({
+  id: z.string(),
+  titleAr: z.string(),
+  titleEn: z.string().nullable(),
+  excerpt: z.string().nullable(),
+  contentAr: z.string(),
+  contentEn: z.string().nullable(),
+  category: z.string(),
+  tags: z.array(z.string()),
+  era: z.string().nullable(),
+  yearFrom: z.number().int().nullable(),
+  yearTo: z.number().int().nullable(),
+  dateDescription: z.string().nullable(),
+  locationAr: z.string().nullable(),
+  primaryMemberId: z.string().nullable(),
+  relatedMemberIds: z.array(z.string()),
+  generation: z.number().int().nullable(),
+  coverImageUrl: z.string().nullable(),
+  narrator: z.string().nullable(),
+  source: z.string().nullable(),
+  authorName: z.string(),
+  createdAt: dateTime(),
+  updatedAt: dateTime(),
+});
+v1Registry.add(apiJournalSchema, { id: 'Journal', description: 'A published family story' });
+
+export const apiGatheringSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  titleAr: z.string(),
+  description: z.string().nullable(),
+  descriptionAr: z.string().nullable(),
+  type: z.string(),
+  status: z.string(),
+  date: dateTime(),
+  endDate: dateTime().nullable(),
+  time: z.string().nullable(),
+  location: z.string().nullable(),
+  locationAr: z.string().nullable(),
+  locationUrl: z.string().nullable(),
+  organizerNameAr: z.string(),
+  attendeeCount: z.number().int(),
+});
+v1Registry.add(apiGatheringSchema, { id: 'Gathering', description: 'A public family gathering' });
+
+export const apiPaginationSchema = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+  totalPages: z.number().int(),
+});
+v1Registry.add(apiPaginationSchema, { id: 'Pagination' });
+
+export const apiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  errorAr: z.string(),
+  code: z.string(),
+});
+v1Registry.add(apiErrorSchema, { id: 'Error' });
+
+export type ApiMember = z.infer<typeof apiMemberSchema>;
+export type ApiTreeNode = z.infer<typeof apiTreeNodeSchema>;
+export type ApiJournal = z.infer<typeof apiJournalSchema>;
+export type ApiGathering = z.infer<typeof apiGatheringSchema>;
+
+// ============================================
+// SERIALIZERS
+// ============================================
+
+// API clients export data (booklets, bots), so members who opted out of
+// exports are placeholders for every viewer
+function redactForApi(member: FamilyMember, viewer: PrivacyViewer): FamilyMember {
+  return isExcludedFromExports(member) ? toPlaceholderMember(member) : redactMember(member, viewer);
+}
+
+export function toApiMember(member: FamilyMember, viewer: PrivacyViewer): ApiMember {
+  const redacted = redactForApi(member, viewer);
+  return {
+    id: redacted.id,
+    firstName: redacted.firstName,
+    fatherName: redacted.fatherName,
+    grandfatherName: redacted.grandfatherName,
+    familyName: redacted.familyName,
+    fullNameAr: redacted.fullNameAr,
+    fullNameEn: redacted.fullNameEn,
+    gender: redacted.gender,
+    generation: redacted.generation,
+    branch: redacted.branch,
+    lineageBranchName: redacted.lineageBranchName ?? null,
+    subBranchName: redacted.subBranchName ?? null,
+    fatherId: redacted.fatherId,
+    motherId: redacted.motherId ?? null,
+    status: redacted.status,
+    birthYear: redacted.birthYear,
+    birthYearHijri: redacted.birthYearHijri ?? null,
+    deathYear: redacted.deathYear ?? null,
+    deathYearHijri: redacted.deathYearHijri ?? null,
+    sonsCount: redacted.sonsCount,
+    daughtersCount: redacted.daughtersCount,
+    phone: redacted.phone,
+    email: redacted.email,
+    city: redacted.city,
+    occupation: redacted.occupation,
+    biography: redacted.biography,
+    photoUrl: redacted.photoUrl,
+    isPlaceholder: !!redacted.isPlaceholder,
+    updatedAt: redacted.updatedAt ? new Date(redacted.updatedAt).toISOString() : null,
+  };
+}
+
+/**
+ * Nest members under their fathers, starting at rootId (or the member with
+ * no father). Levels below maxDepth are left out.
+ */
+export function buildApiTree(
+  members: FamilyMember[],
+  viewer: PrivacyViewer,
+  options: { rootId?: string; maxDepth?: number } = {}
+): ApiTreeNode | null {
+  const root = options.rootId
+    ? members.find(m => m.id === options.rootId)
+    : members.find(m => !m.fatherId);
+  if (!root) return null;
+
+  const childrenByFather = new Map<string, FamilyMember[]>();
+  for (const member of members) {
+    if (!member.fatherId) continue;
+    const siblings = childrenByFather.get(member.fatherId) || [];
+    siblings.push(member);
+    childrenByFather.set(member.fatherId, siblings);
+  }
+
+  const toNode = (member: FamilyMember, depth: number): ApiTreeNode => {
+    const redacted = redactForApi(member, viewer);
+    const children = options.maxDepth !== undefined && depth >= options.maxDepth
+      ? []
+      : (childrenByFather.get(member.id) || []).map(child => toNode(child, depth + 1));
+
+    return {
+      id: redacted.id,
+      firstName: redacted.firstName,
+      fullNameAr: redacted.fullNameAr,
+      gender: redacted.gender,
+      generation: redacted.generation,
+      status: redacted.status,
+      birthYear: redacted.birthYear,
+      deathYear: redacted.deathYear ?? null,
+      photoUrl: redacted.photoUrl,
+      isPlaceholder: !!redacted.isPlaceholder,
+      children,
+    };
+  };
+
+  return toNode(root, 0);
+}
+
+interface JournalRow {
+  id: string;
+  titleAr: string;
+  titleEn: string | null;
+  excerpt: string | null;
+  contentAr: string;
+  contentEn: string | null;
+  category: string;
+  tags: string | null;
+  era: string | null;
+  yearFrom: number | null;
+  yearTo: number | null;
+  dateDescription: string | null;
+  locationAr: string | null;
+  primaryMemberId: string | null;
+  relatedMemberIds: string | null;
+  generation: number | null;
+  coverImageUrl: string | null;
+  narrator: string | null;
+  source: string | null;
+  authorName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function toApiJournal(journal: JournalRow): ApiJournal {
+  return {
+    id: journal.id,
+    titleAr: journal.titleAr,
+    titleEn: journal.titleEn,
+    excerpt: journal.excerpt,
+    contentAr: journal.contentAr,
+    contentEn: journal.contentEn,
+    category: journal.category,
+    tags: safeJsonParseArray<string>(journal.tags),
+    era: journal.era,
+    yearFrom: journal.yearFrom,
+    yearTo: journal.yearTo,
+    dateDescription: journal.dateDescription,
+    locationAr: journal.locationAr,
+    primaryMemberId: journal.primaryMemberId,
+    relatedMemberIds: safeJsonParseArray<string>(journal.relatedMemberIds),
+    generation: journal.generation,
+    coverImageUrl: journal.coverImageUrl,
+    narrator: journal.narrator,
+    source: journal.source,
+    authorName: journal.authorName,
+    createdAt: journal.createdAt.toISOString(),
+    updatedAt: journal.updatedAt.toISOString(),
+  };
+}
+
+interface GatheringRow {
+  id: string;
+  title: string;
+  titleAr: string;
+  description: string | null;
+  descriptionAr: string | null;
+  type: string;
+  status: string;
+  date: Date;
+  endDate: Date | null;
+  time: string | null;
+  location: string | null;
+  locationAr: string | null;
+  locationUrl: string | null;
+  organizerNameAr: string;
+  _count?: { attendees: number };
+}
+
+export function toApiGathering(gathering: GatheringRow): ApiGathering {
+  return {
+    id: gathering.id,
+    title: gathering.title,
+    titleAr: gathering.titleAr,
+    description: gathering.description,
+    descriptionAr: gathering.descriptionAr,
+    type: gathering.type,
+    status: gathering.status,
+    date: gathering.date.toISOString(),
+    endDate: gathering.endDate?.toISOString() ?? null,
+    time: gathering.time,
+    location: gathering.location,
+    locationAr: gathering.locationAr,
+    locationUrl: gathering.locationUrl,
+    organizerNameAr: gathering.organizerNameAr,
+    attendeeCount: gathering._count?.attendees ?? 0,
+  };
+}
+
+// ============================================
+// QUERY PARAMETERS
+// ============================================
+
+export const V1_MAX_PAGE_SIZE = 100;
+
+/**
+ * Read page and limit, clamped to sane bounds
+ */
+export function parsePagination(searchParams: URLSearchParams): { page: number; limit: number } {
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+  const limit = Math.min(
+    V1_MAX_PAGE_SIZE,
+    Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20)
+  );
+  return { page, limit };
+}
+
+export function paginationOf(page: number, limit: number, total: number) {
+  return { page, limit, total, totalPages: Math.ceil(total / limit) };
+}
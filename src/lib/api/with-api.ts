@@ -0,0 +1,298 @@
+/**
+ * Declarative Route Guard for API Handlers
+ * Resolves the session, enforces permissions, branch scope and rate limits,
+ * validates the request body and turns thrown AppErrors into JSON responses
+ *
+ * @example
+ * export const PUT = withApi(
+ *   { permission: 'edit_member', schema: updateMarriageSchema, rateLimit: 'api' },
+ *   async ({ user, body, params }) => { ... }
+ * );
+ *
+ * Routes that set `scope` also accept personal access tokens carrying it.
+ * Routes that set `sessionCookie` also read the session from its cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  findSessionByToken,
+  findUserById,
+  getPermissionMatrix,
+  getUserPermissionOverrides,
+  type StoredUser,
+} from '@/lib/auth/db-store';
+import { canActOnBranch, hasPermission } from '@/lib/auth/permissions';
+import type { PermissionKey, PermissionMatrix, UserRole } from '@/lib/auth/types';
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+  RateLimitError,
+  ValidationError,
+  type ErrorCode,
+} from '@/lib/errors';
+import { formatZodErrors } from '@/lib/validations';
+import { logger } from '@/lib/logging';
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS, type RateLimitConfig } from '@/lib/middleware/rateLimit';
+import { getClientIp } from '@/lib/rate-limit';
+import { isAccessToken, type ApiScope } from '@/lib/access-tokens';
+import { verifyAccessToken } from '@/lib/services/access-tokens';
+import { storageKeys } from '@/config/storage-keys';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ApiContext<TBody, TParams, TUser> {
+  request: NextRequest;
+  user: TUser;
+  body: TBody;
+  params: TParams;
+}
+
+type BranchScope = string | null | undefined | (string | null | undefined)[];
+
+export interface ApiGuardOptions<TBody, TParams, TPublic extends boolean> {
+  /** Allow anonymous requests; user is null when no valid session is sent */
+  public?: TPublic;
+  /** Roles allowed to call the route, for endpoints not covered by a permission */
+  roles?: UserRole[];
+  /** Required permission, checked against the matrix and the user's overrides */
+  permission?: PermissionKey;
+  /** Accept personal access tokens that carry this scope, besides sessions */
+  scope?: ApiScope;
+  /**
+   * Fall back to the session cookie when no Authorization header is sent.
+   * Only for read-only GETs the browser makes without headers: EventSource
+   * streams and <img> sources.
+   */
+  sessionCookie?: boolean;
+  /**
+   * Branch the request acts on; branch leaders may only act on their own.
+   * Return several when a record moves between branches: all must pass.
+   */
+  branchScope?: (
+    ctx: ApiContext<TBody, TParams, StoredUser>
+  ) => BranchScope | Promise<BranchScope>;
+  /** A RATE_LIMITS preset or a custom config, keyed by user (or IP when anonymous) */
+  rateLimit?: keyof typeof RATE_LIMITS | RateLimitConfig;
+  /** Zod schema for the JSON body; the parsed value is passed as body */
+  schema?: z.ZodType<TBody>;
+}
+
+type ApiUser<TPublic extends boolean> = TPublic extends true ? StoredUser | null : StoredUser;
+
+type ApiHandler<TBody, TParams, TPublic extends boolean> = (
+  ctx: ApiContext<TBody, TParams, ApiUser<TPublic>>
+) => Promise<NextResponse | Response> | NextResponse | Response;
+
+// ============================================
+// ERROR RESPONSES
+// ============================================
+
+const ERROR_MESSAGES_AR: Record<ErrorCode, string> = {
+  VALIDATION_ERROR: 'البيانات المدخلة غير صالحة',
+  AUTHENTICATION_ERROR: 'يجب تسجيل الدخول',
+  AUTHORIZATION_ERROR: 'صلاحية غير متوفرة',
+  NOT_FOUND_ERROR: 'العنصر غير موجود',
+  CONFLICT_ERROR: 'تعارض مع بيانات موجودة',
+  RATE_LIMIT_ERROR: 'عدد كبير جداً من الطلبات',
+  DATABASE_ERROR: 'حدث خطأ في قاعدة البيانات',
+  EXTERNAL_SERVICE_ERROR: 'تعذر الاتصال بخدمة خارجية',
+  INTERNAL_ERROR: 'حدث خطأ غير متوقع',
+};
+
+/**
+ * JSON response for an AppError: { success, error, errorAr, code, details }
+ */
+export function appErrorResponse(error: AppError): NextResponse {
+  const headers: Record<string, string> = {};
+  if (error instanceof RateLimitError) {
+    headers['Retry-After'] = String(error.retryAfter);
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      errorAr: ERROR_MESSAGES_AR[error.code],
+      code: error.code,
+      ...(error.details && { details: error.details }),
+    },
+    { status: error.statusCode, headers }
+  );
+}
+
+// ============================================
+// GUARD STEPS
+// ============================================
+
+async function resolveUser(
+  request: NextRequest,
+  scope?: ApiScope,
+  sessionCookie?: boolean
+): Promise<StoredUser | null> {
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '')
+    || (sessionCookie ? request.cookies.get(storageKeys.sessionCookie)?.value : undefined);
+  if (!token) return null;
+
+  if (isAccessToken(token)) {
+    // Access tokens only work on routes that declare a scope
+    if (!scope) return null;
+
+    const verified = await verifyAccessToken(token, getClientIp(request));
+    if (!verified) return null;
+    if (!verified.scopes.includes(scope)) {
+      throw new AuthorizationError(`Token scope required: ${scope}`);
+    }
+    return verified.user;
+  }
+
+  const session = await findSessionByToken(token);
+  if (!session) return null;
+
+  const user = await findUserById(session.userId);
+  if (!user || user.status !== 'ACTIVE') return null;
+
+  return user;
+}
+
+/**
+ * The stored matrix with the user's own overrides applied to their role
+ */
+async function getEffectiveMatrix(user: StoredUser): Promise<PermissionMatrix> {
+  const [matrix, overrides] = await Promise.all([
+    getPermissionMatrix(),
+    getUserPermissionOverrides(user.id),
+  ]);
+
+  return {
+    ...matrix,
+    [user.role]: { ...matrix[user.role], ...overrides },
+  };
+}
+
+function enforceRateLimit(
+  request: NextRequest,
+  user: StoredUser | null,
+  rateLimit: keyof typeof RATE_LIMITS | RateLimitConfig
+): void {
+  const config = typeof rateLimit === 'string' ? RATE_LIMITS[rateLimit] : rateLimit;
+  const scope = typeof rateLimit === 'string' ? rateLimit : 'custom';
+  const identifier = user ? `user:${user.id}` : getClientIdentifier(request);
+
+  const result = checkRateLimit(`${scope}:${request.nextUrl.pathname}:${identifier}`, config);
+  if (!result.allowed) {
+    const retryAfter = Math.ceil(Math.max(0, result.resetTime - Date.now()) / 1000);
+    throw new RateLimitError(config.message, retryAfter);
+  }
+}
+
+function denyPermission(
+  request: NextRequest,
+  user: StoredUser,
+  permission: PermissionKey,
+  targetBranch?: string | null
+): AuthorizationError {
+  logger.security('Permission denied', 'low', {
+    userId: user.id,
+    userRole: user.role,
+    requiredPermission: permission,
+    ...(targetBranch !== undefined && { userBranch: user.assignedBranch, targetBranch }),
+    path: request.nextUrl.pathname,
+  });
+  return new AuthorizationError(`Permission required: ${permission}`, permission);
+}
+
+async function parseBody<TBody>(
+  request: NextRequest,
+  schema: z.ZodType<TBody>
+): Promise<TBody> {
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    throw new ValidationError('Invalid JSON body');
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new ValidationError('Validation failed', formatZodErrors(result.error));
+  }
+  return result.data;
+}
+
+// ============================================
+// WRAPPER
+// ============================================
+
+/**
+ * Wrap a route handler with authentication, role, permission, branch scope,
+ * rate limit and body validation checks
+ */
+export function withApi<
+  TBody = undefined,
+  // Catch-all segments ([...key]) are string arrays
+  TParams extends Record<string, string | string[]> = Record<string, string>,
+  TPublic extends boolean = false,
+>(
+  options: ApiGuardOptions<TBody, TParams, TPublic>,
+  handler: ApiHandler<TBody, TParams, TPublic>
+) {
+  return async (
+    request: NextRequest,
+    context?: { params?: TParams }
+  ): Promise<NextResponse | Response> => {
+    try {
+      const params = (context?.params ?? {}) as TParams;
+      const user = await resolveUser(request, options.scope, options.sessionCookie);
+
+      if (options.rateLimit) {
+        enforceRateLimit(request, user, options.rateLimit);
+      }
+
+      if (!user && (!options.public || options.permission || options.roles)) {
+        throw new AuthenticationError();
+      }
+
+      if (user && options.roles && !options.roles.includes(user.role)) {
+        logger.security('Unauthorized access attempt', 'medium', {
+          userId: user.id,
+          userRole: user.role,
+          requiredRoles: options.roles,
+          path: request.nextUrl.pathname,
+        });
+        throw new AuthorizationError('Insufficient permissions');
+      }
+
+      const matrix = user && options.permission ? await getEffectiveMatrix(user) : null;
+      if (user && matrix && !hasPermission(user.role, options.permission!, matrix)) {
+        throw denyPermission(request, user, options.permission!);
+      }
+
+      const body = options.schema
+        ? await parseBody(request, options.schema)
+        : (undefined as TBody);
+
+      // Branch scope may depend on the body or the target record, so it runs last
+      if (user && matrix && options.branchScope) {
+        const scope = await options.branchScope({ request, user, body, params });
+        for (const targetBranch of Array.isArray(scope) ? scope : [scope]) {
+          if (!canActOnBranch(user.role, user.assignedBranch, targetBranch, options.permission!, matrix)) {
+            throw denyPermission(request, user, options.permission!, targetBranch);
+          }
+        }
+      }
+
+      return await handler({ request, user: user as ApiUser<TPublic>, body, params });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return appErrorResponse(error);
+      }
+
+      logger.error(`Unhandled error in ${request.method} ${request.nextUrl.pathname}`, error);
+      return appErrorResponse(new AppError('Internal server error'));
+    }
+  };
+}
@@ -0,0 +1,214 @@
+// Audience Rules - Composable AND/OR/NOT rules choosing who a broadcast or a
+// gathering invitation goes to. Subjects (members, and users not linked to a
+// member) are loaded by src/lib/services/audience.ts; evaluation is pure so
+// the live count preview and sending match the same people.
+
+import { matchCity, placeKey } from '@/lib/gazetteer';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const AUDIENCE_CONDITION_TYPES = [
+  'branch', 'generation', 'city', 'gender', 'living', 'age', 'descendantOf', 'userRole', 'pastRsvp',
+] as const;
+
+export type AudienceConditionType = typeof AUDIENCE_CONDITION_TYPES[number];
+
+export const AUDIENCE_CONDITION_LABELS: Record<AudienceConditionType, { ar: string; en: string }> = {
+  branch: { ar: 'الفرع', en: 'Branch' },
+  generation: { ar: 'الجيل', en: 'Generation' },
+  city: { ar: 'المدينة', en: 'City' },
+  gender: { ar: 'الجنس', en: 'Gender' },
+  living: { ar: 'على قيد الحياة', en: 'Living' },
+  age: { ar: 'العمر', en: 'Age' },
+  descendantOf: { ar: 'من ذرية', en: 'Descendants of' },
+  userRole: { ar: 'دور المستخدم', en: 'User role' },
+  pastRsvp: { ar: 'الردود السابقة', en: 'Past RSVPs' },
+};
+
+export const AUDIENCE_RSVP_RESPONSES = ['YES', 'NO', 'MAYBE', 'NO_RESPONSE'] as const;
+
+export type AudienceRsvpResponse = typeof AUDIENCE_RSVP_RESPONSES[number];
+
+export type AudienceCondition =
+  /** Gen 2 branch, optionally narrowed to one of its Gen 3 sub-branches */
+  | { type: 'branch'; lineageBranchId: string; subBranchId?: string | null }
+  | { type: 'generation'; min?: number | null; max?: number | null }
+  /** Free-text or gazetteer city names; matched through the gazetteer */
+  | { type: 'city'; cities: string[] }
+  | { type: 'gender'; gender: 'Male' | 'Female' }
+  | { type: 'living'; living: boolean }
+  /** Age in years from the Gregorian birth year */
+  | { type: 'age'; min?: number | null; max?: number | null }
+  | { type: 'descendantOf'; memberId: string; includeSelf?: boolean }
+  | { type: 'userRole'; roles: string[] }
+  /** Responded this way to at least minCount past meetings and gatherings */
+  | { type: 'pastRsvp'; response: AudienceRsvpResponse; minCount?: number | null };
+
+export type AudienceRule =
+  | AudienceCondition
+  | { type: 'and' | 'or'; rules: AudienceRule[] }
+  | { type: 'not'; rule: AudienceRule };
+
+/**
+ * A person an audience rule is evaluated against: a family member with the
+ * roles of the users linked to them, or a user with no member record (only
+ * role and RSVP conditions can match those).
+ */
+export interface AudienceSubject {
+  memberId?: string;
+  /** Active users linked to the member, or the one user without a member */
+  userIds: string[];
+  fatherId?: string | null;
+  motherId?: string | null;
+  gender?: string | null;
+  status?: string | null;
+  generation?: number | null;
+  lineageBranchId?: string | null;
+  subBranchId?: string | null;
+  city?: string | null;
+  birthYear?: number | null;
+  roles: string[];
+  rsvp: Record<AudienceRsvpResponse, number>;
+}
+
+// Limits keep saved rules readable and evaluation cheap
+export const AUDIENCE_MAX_DEPTH = 5;
+export const AUDIENCE_MAX_CONDITIONS = 40;
+
+// ============================================
+// EVALUATION
+// ============================================
+
+export function emptyRsvpCounts(): Record<AudienceRsvpResponse, number> {
+  return { YES: 0, NO: 0, MAYBE: 0, NO_RESPONSE: 0 };
+}
+
+/**
+ * Depth of nested groups and number of conditions in a rule
+ */
+export function measureAudienceRule(rule: AudienceRule): { depth: number; conditions: number } {
+  if (rule.type === 'and' || rule.type === 'or') {
+    const children = rule.rules.map(measureAudienceRule);
+    return {
+      depth: 1 + Math.max(0, ...children.map(child => child.depth)),
+      conditions: children.reduce((sum, child) => sum + child.conditions, 0),
+    };
+  }
+  if (rule.type === 'not') {
+    const child = measureAudienceRule(rule.rule);
+    return { depth: 1 + child.depth, conditions: child.conditions };
+  }
+  return { depth: 0, conditions: 1 };
+}
+
+// Gazetteer city id when the place is known, otherwise its normalized key
+function cityKey(text: string | null | undefined): string {
+  const match = matchCity(text);
+  return match ? `city:${match.city.id}` : placeKey(text);
+}
+
+function inRange(value: number | null | undefined, min?: number | null, max?: number | null): boolean {
+  if (value === null || value === undefined) return false;
+  return (min === null || min === undefined || value >= min) && (max === null || max === undefined || value <= max);
+}
+
+/**
+ * Compile a rule into a predicate over the given subjects. Descendant sets
+ * and city keys are worked out once per rule rather than per subject.
+ */
+export function compileAudienceRule(
+  rule: AudienceRule,
+  subjects: AudienceSubject[],
+  now: Date = new Date()
+): (subject: AudienceSubject) => boolean {
+  let childrenMap: Map<string, string[]> | null = null;
+  const getChildrenMap = () => {
+    if (!childrenMap) {
+      childrenMap = new Map();
+      for (const subject of subjects) {
+        if (!subject.memberId) continue;
+        for (const parentId of [subject.fatherId, subject.motherId]) {
+          if (!parentId) continue;
+          const children = childrenMap.get(parentId) || [];
+          children.push(subject.memberId);
+          childrenMap.set(parentId, children);
+        }
+      }
+    }
+    return childrenMap;
+  };
+
+  const descendantsOf = (memberId: string): Set<string> => {
+    const children = getChildrenMap();
+    const descendants = new Set<string>();
+    const stack = [...(children.get(memberId) || [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (descendants.has(id)) continue;
+      descendants.add(id);
+      stack.push(...(children.get(id) || []));
+    }
+    return descendants;
+  };
+
+  const year = now.getFullYear();
+
+  const compile = (node: AudienceRule): ((subject: AudienceSubject) => boolean) => {
+    switch (node.type) {
+      case 'and': {
+        const parts = node.rules.map(compile);
+        return subject => parts.every(part => part(subject));
+      }
+      case 'or': {
+        const parts = node.rules.map(compile);
+        return subject => parts.some(part => part(subject));
+      }
+      case 'not': {
+        const inner = compile(node.rule);
+        return subject => !inner(subject);
+      }
+      case 'branch':
+        return subject => !!subject.memberId
+          && subject.lineageBranchId === node.lineageBranchId
+          && (!node.subBranchId || subject.subBranchId === node.subBranchId);
+      case 'generation':
+        return subject => inRange(subject.generation, node.min, node.max);
+      case 'city': {
+        const keys = new Set(node.cities.map(cityKey).filter(Boolean));
+        return subject => !!subject.city && keys.has(cityKey(subject.city));
+      }
+      case 'gender':
+        return subject => subject.gender === node.gender;
+      case 'living':
+        return subject => !!subject.memberId && (subject.status === 'Living') === node.living;
+      case 'age':
+        return subject => !!subject.birthYear && inRange(year - subject.birthYear, node.min, node.max);
+      case 'descendantOf': {
+        const descendants = descendantsOf(node.memberId);
+        if (node.includeSelf) descendants.add(node.memberId);
+        return subject => !!subject.memberId && descendants.has(subject.memberId);
+      }
+      case 'userRole': {
+        const roles = new Set(node.roles);
+        return subject => subject.roles.some(role => roles.has(role));
+      }
+      case 'pastRsvp': {
+        const minCount = Math.max(1, node.minCount ?? 1);
+        return subject => subject.rsvp[node.response] >= minCount;
+      }
+    }
+  };
+
+  return compile(rule);
+}
+
+export function evaluateAudience(
+  rule: AudienceRule,
+  subjects: AudienceSubject[],
+  now: Date = new Date()
+): AudienceSubject[] {
+  const matches = compileAudienceRule(rule, subjects, now);
+  return subjects.filter(matches);
+}
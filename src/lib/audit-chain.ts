@@ -0,0 +1,99 @@
+/**
+ * Audit Log Hash Chain for آل شايع Family Tree
+ *
+ * Every audit entry stores prevHash (the hash of the entry before it) and
+ * hash = SHA-256(prevHash + canonical entry content). Changing any stored
+ * field, or removing an entry from the middle of the log, breaks the chain
+ * from that point on.
+ */
+
+import { createHash } from 'crypto';
+import type { AuditChainStatus } from './audit';
+
+// prevHash of the very first entry
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Stored columns covered by the hash. JSON payloads are hashed as the
+ * strings stored in the database.
+ */
+export interface AuditHashInput {
+  createdAt: Date | string;
+  action: string;
+  category: string;
+  severity: string;
+  description: string | null;
+  userId: string | null;
+  userEmail: string | null;
+  userName: string | null;
+  userRole: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  targetName: string | null;
+  details: string | null;
+  previousState: string | null;
+  newState: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+  errorMessage: string | null;
+}
+
+export interface AuditChainRow extends AuditHashInput {
+  id: string;
+  sequence: number;
+  prevHash: string;
+  hash: string;
+}
+
+export function computeAuditHash(entry: AuditHashInput, prevHash: string): string {
+  // Fixed field order so the hash does not depend on object key order
+  const canonical = JSON.stringify([
+    new Date(entry.createdAt).toISOString(),
+    entry.action,
+    entry.category,
+    entry.severity,
+    entry.description ?? null,
+    entry.userId ?? null,
+    entry.userEmail ?? null,
+    entry.userName ?? null,
+    entry.userRole ?? null,
+    entry.targetType ?? null,
+    entry.targetId ?? null,
+    entry.targetName ?? null,
+    entry.details ?? null,
+    entry.previousState ?? null,
+    entry.newState ?? null,
+    entry.ipAddress ?? null,
+    entry.userAgent ?? null,
+    entry.success,
+    entry.errorMessage ?? null,
+  ]);
+
+  return createHash('sha256').update(`${prevHash}\n${canonical}`).digest('hex');
+}
+
+/**
+ * Verify consecutive entries (ascending by sequence). expectedPrevHash is the
+ * hash the first entry must point at: the genesis hash for a complete log, or
+ * the last hash of the previous batch when verifying in batches.
+ */
+export function verifyAuditChain(
+  rows: AuditChainRow[],
+  expectedPrevHash: string
+): AuditChainStatus & { lastHash: string } {
+  let prevHash = expectedPrevHash;
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.prevHash !== prevHash) {
+      return { valid: false, checked: i, brokenAt: { sequence: row.sequence, id: row.id, reason: 'CHAIN_BROKEN' }, lastHash: prevHash };
+    }
+    if (computeAuditHash(row, row.prevHash) !== row.hash) {
+      return { valid: false, checked: i, brokenAt: { sequence: row.sequence, id: row.id, reason: 'HASH_MISMATCH' }, lastHash: prevHash };
+    }
+    prevHash = row.hash;
+  }
+
+  return { valid: true, checked: rows.length, brokenAt: null, lastHash: prevHash };
+}
@@ -58,7 +58,7 @@ type PrismaActivityLog = {
   errorMessage: string | null;
   createdAt: Date;
 };
-import { UserRole, UserStatus, DEFAULT_PERMISSION_MATRIX, PermissionMatrix, SiteSettings, PrivacySettings } from './types';
+import { UserRole, UserStatus, DEFAULT_PERMISSION_MATRIX, PERMISSION_KEYS, PermissionKey, PermissionMatrix, SiteSettings, PrivacySettings } from './types';
 import { familyInfo, securitySettings, paginationSettings } from '@/config/constants';
 import { defaultAdminConfig, sessionConfig } from '@/config/admin-config';
 import crypto from 'crypto';
@@ -1352,6 +1352,32 @@ export async function updatePermissionMatrix(matrix: PermissionMatrix): Promise<
   return matrix;
 }
 
+/**
+ * Per-user grants and revocations that take precedence over the role's
+ * row in the permission matrix. The same table also holds 2FA secrets,
+ * so only real permission keys are returned.
+ */
+export async function getUserPermissionOverrides(
+  userId: string
+): Promise<Partial<Record<PermissionKey, boolean>>> {
+  await initializeStore();
+
+  const overrides: Partial<Record<PermissionKey, boolean>> = {};
+  try {
+    const rows = await prisma.userPermissionOverride.findMany({
+      where: { userId, permissionKey: { in: PERMISSION_KEYS } },
+      select: { permissionKey: true, allowed: true },
+    });
+    for (const row of rows as { permissionKey: string; allowed: boolean }[]) {
+      overrides[row.permissionKey as PermissionKey] = row.allowed;
+    }
+  } catch {
+    // Ignore database errors
+  }
+
+  return overrides;
+}
+
 // ============================================
 // 2FA OPERATIONS
 // ============================================
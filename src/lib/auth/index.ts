@@ -67,6 +67,7 @@ export {
   storeSession,
   getStoredSession,
   clearStoredSession,
+  syncSessionCookie,
   getStoredToken,
   userHasPermission,
   userCanActOnBranch,
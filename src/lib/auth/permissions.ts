@@ -72,11 +72,12 @@ export function canActOnBranch(
   userRole: UserRole,
   userBranch: string | null | undefined,
   targetBranch: string | null | undefined,
-  permission: PermissionKey
+  permission: PermissionKey,
+  matrix?: PermissionMatrix
 ): boolean {
   // Super admin and admin can act on any branch
   if (userRole === 'SUPER_ADMIN' || userRole === 'ADMIN') {
-    return hasPermission(userRole, permission);
+    return hasPermission(userRole, permission, matrix);
   }
 
   // Branch leaders can only act on their assigned branch
@@ -87,11 +88,11 @@ export function canActOnBranch(
     if (userBranch !== targetBranch) {
       return false;
     }
-    return hasPermission(userRole, permission);
+    return hasPermission(userRole, permission, matrix);
   }
 
   // Members and guests - check permission directly
-  return hasPermission(userRole, permission);
+  return hasPermission(userRole, permission, matrix);
 }
 
 /**
@@ -8,6 +8,7 @@ import { sessionConfig } from '@/config/admin-config';
 // Session storage key from centralized config
 const SESSION_STORAGE_KEY = storageKeys.session;
 const SESSION_TOKEN_KEY = storageKeys.token;
+const SESSION_COOKIE_NAME = storageKeys.sessionCookie;
 
 // Default session durations from centralized config
 const DEFAULT_SESSION_DURATION = sessionConfig.defaultDurationMs;
@@ -73,6 +74,31 @@ export function storeSession(session: AuthSession, rememberMe: boolean = false):
   const otherStorage = rememberMe ? sessionStorage : localStorage;
   otherStorage.removeItem(SESSION_STORAGE_KEY);
   otherStorage.removeItem(SESSION_TOKEN_KEY);
+
+  writeSessionCookie(session.token, rememberMe ? session.expiresAt : null);
+}
+
+/**
+ * Mirror the session token into a cookie for server-rendered pages.
+ * Without an expiry the cookie ends with the browser session, like sessionStorage.
+ */
+function writeSessionCookie(token: string, expiresAt: Date | null): void {
+  const expires = expiresAt ? `; expires=${expiresAt.toUTCString()}` : '';
+  document.cookie = `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}; path=/${expires}; samesite=lax`;
+}
+
+/**
+ * Restore the session cookie for sessions stored before it existed
+ * or after it was cleared by the browser
+ */
+export function syncSessionCookie(): void {
+  if (typeof window === 'undefined') return;
+
+  const session = getStoredSession();
+  if (!session) return;
+
+  const remembered = localStorage.getItem(SESSION_TOKEN_KEY) === session.token;
+  writeSessionCookie(session.token, remembered ? session.expiresAt : null);
 }
 
 /**
@@ -123,6 +149,7 @@ export function clearStoredSession(): void {
   localStorage.removeItem(SESSION_TOKEN_KEY);
   sessionStorage.removeItem(SESSION_STORAGE_KEY);
   sessionStorage.removeItem(SESSION_TOKEN_KEY);
+  document.cookie = `${SESSION_COOKIE_NAME}=; path=/; max-age=0; samesite=lax`;
 }
 
 /**
@@ -1,8 +1,9 @@
 // آل شايع Family Tree - Backup Scheduler Service
-// Replit-compatible: Uses database-triggered approach instead of setInterval
-// Backups are triggered on-demand or via API calls, not continuous timers
+// Scheduled backups run as the BACKUP job of the job runner (services/job-runner.ts);
+// this module keeps the on-demand checks used by the backup API routes
 
 import { prisma } from '@/lib/prisma';
+import { startJobRunner, stopJobRunner } from '@/lib/services/job-runner';
 
 // ============================================
 // BACKUP CONFIGURATION
@@ -299,22 +300,19 @@ export function updateBackupConfig(config: Partial<BackupConfig>): BackupConfig
 
 /**
  * Start the backup scheduler
- * Replit-compatible: No-op, backups are triggered via API
- * @deprecated Use runBackupIfNeeded() instead
+ * Backups now run as the BACKUP scheduled job on its cron schedule
+ * @deprecated Use startJobRunner() from services/job-runner instead
  */
 export function startBackupScheduler(): void {
-  console.log('[Backup Scheduler] Replit mode: Backups triggered via API, not setInterval');
-  // Run once on startup to check if backup is needed
-  runBackupIfNeeded().catch(console.error);
+  startJobRunner();
 }
 
 /**
  * Stop the backup scheduler
- * Replit-compatible: No-op, nothing to stop
- * @deprecated No longer needed in Replit mode
+ * @deprecated Use stopJobRunner() from services/job-runner instead
  */
 export function stopBackupScheduler(): void {
-  console.log('[Backup Scheduler] Replit mode: No scheduler to stop');
+  stopJobRunner();
 }
 
 /**
@@ -2,7 +2,6 @@
 // Uses API calls for primary storage, localStorage only as client-side cache
 // No setInterval - backups triggered via API or on-demand
 
-import { logBackupCreate, logBackupRestore, logAudit } from './audit';
 import { storageKeys } from '@/config/storage-keys';
 import { backupSettings } from '@/config/constants';
 
@@ -221,9 +220,6 @@ export async function createBackup(options: {
     lastBackupTime: backup.createdAt,
   });
 
-  // Log audit
-  logBackupCreate(backup.id, backup.name, backup.memberCount);
-
   return backup;
 }
 
@@ -264,9 +260,6 @@ export async function restoreBackup(backupId: string): Promise<{ success: boolea
       storage.setItem(storageKeys.admins, JSON.stringify(data.admins));
     }
 
-    // Log restore action
-    logBackupRestore(backup.id, backup.name);
-
     return { success: true };
   } catch {
     return { success: false, error: 'حدث خطأ أثناء استعادة النسخة الاحتياطية' };
@@ -289,15 +282,6 @@ export function deleteBackup(backupId: string): boolean {
     return false;
   }
 
-  logAudit({
-    action: 'BACKUP_DELETE',
-    severity: 'WARNING',
-    targetType: 'BACKUP',
-    targetId: backupId,
-    targetName: backup.name,
-    description: `تم حذف النسخة الاحتياطية: ${backup.name}`,
-  });
-
   return true;
 }
 
@@ -320,14 +304,6 @@ export function downloadBackup(backupId: string): boolean {
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 
-  logAudit({
-    action: 'BACKUP_DOWNLOAD',
-    targetType: 'BACKUP',
-    targetId: backupId,
-    targetName: backup.name,
-    description: `تم تحميل النسخة الاحتياطية: ${backup.name}`,
-  });
-
   return true;
 }
 
@@ -0,0 +1,65 @@
+// آل شايع Family Tree - Blob Store
+// Binary content (images, thumbnails) lives outside Postgres; rows keep only the key.
+//
+// BLOB_STORAGE_DRIVER=local (default) stores files under BLOB_STORAGE_PATH (./uploads).
+// BLOB_STORAGE_DRIVER=s3 uses an S3-compatible service configured by S3_* variables.
+
+import { createLocalBlobStore } from './local';
+import { createS3BlobStore } from './s3';
+import type { BlobStore } from './types';
+import { contentAddressedKey } from './utils';
+
+export * from './types';
+export * from './utils';
+
+const globalForBlobStore = globalThis as unknown as {
+  blobStore: BlobStore | undefined;
+};
+
+function createBlobStore(): BlobStore {
+  const driver = process.env.BLOB_STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 blob storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    const region = process.env.S3_REGION || 'us-east-1';
+
+    return createS3BlobStore({
+      endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  }
+
+  if (driver !== 'local') {
+    throw new Error(`Unknown BLOB_STORAGE_DRIVER: ${driver}`);
+  }
+
+  return createLocalBlobStore(process.env.BLOB_STORAGE_PATH || './uploads');
+}
+
+export function getBlobStore(): BlobStore {
+  if (!globalForBlobStore.blobStore) {
+    globalForBlobStore.blobStore = createBlobStore();
+  }
+  return globalForBlobStore.blobStore;
+}
+
+/**
+ * Store content under its content-addressed key and return the key.
+ * Content that is already stored is not uploaded again.
+ */
+export async function putBlob(data: Buffer, contentType: string, prefix?: string): Promise<string> {
+  const store = getBlobStore();
+  const key = contentAddressedKey(data, contentType, prefix);
+
+  if (!(await store.head(key))) {
+    await store.put(key, data, contentType);
+  }
+  return key;
+}
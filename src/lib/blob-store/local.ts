@@ -0,0 +1,71 @@
+// آل شايع Family Tree - Local Filesystem Blob Store
+
+import { createReadStream } from 'fs';
+import { mkdir, rename, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { randomUUID } from 'crypto';
+import type { BlobMetadata, BlobObject, BlobStore, ByteRange } from './types';
+import { contentTypeForKey } from './utils';
+
+/**
+ * Store blobs as files under a root directory. The content type is derived
+ * from the key's extension, so keys must carry one (content-addressed keys do).
+ */
+export function createLocalBlobStore(root: string): BlobStore {
+  const resolvedRoot = path.resolve(root);
+
+  const filePath = (key: string) => {
+    const resolved = path.resolve(resolvedRoot, key);
+    if (!resolved.startsWith(resolvedRoot + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return resolved;
+  };
+
+  async function head(key: string): Promise<BlobMetadata | null> {
+    try {
+      const stats = await stat(filePath(key));
+      return { key, size: stats.size, contentType: contentTypeForKey(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  return {
+    driver: 'local',
+
+    async put(key: string, data: Buffer): Promise<void> {
+      const target = filePath(key);
+      await mkdir(path.dirname(target), { recursive: true });
+
+      // Write then rename so readers never see a partial file
+      const temp = `${target}.${randomUUID()}.tmp`;
+      await writeFile(temp, data);
+      await rename(temp, target);
+    },
+
+    head,
+
+    async get(key: string, range?: ByteRange): Promise<BlobObject | null> {
+      const metadata = await head(key);
+      if (!metadata) return null;
+
+      const stream = createReadStream(filePath(key), range ? { start: range.start, end: range.end } : {});
+      return {
+        ...metadata,
+        body: Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>,
+        range,
+      };
+    },
+
+    async delete(key: string): Promise<void> {
+      try {
+        await unlink(filePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,141 @@
+// آل شايع Family Tree - S3-Compatible Blob Store
+// Works with AWS S3, MinIO and other S3-compatible services.
+// Requests are signed with AWS Signature Version 4.
+
+import { createHash, createHmac } from 'crypto';
+import type { BlobMetadata, BlobObject, BlobStore, ByteRange } from './types';
+
+export interface S3BlobStoreConfig {
+  endpoint: string;          // e.g. https://s3.me-south-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;   // Required by MinIO: http://host/bucket/key
+}
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding, as required for the canonical URI
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export function createS3BlobStore(config: S3BlobStoreConfig): BlobStore {
+  const endpoint = new URL(config.endpoint);
+
+  function objectUrl(key: string): URL {
+    const encodedKey = key.split('/').map(encodeSegment).join('/');
+    return config.forcePathStyle
+      ? new URL(`${endpoint.origin}/${encodeSegment(config.bucket)}/${encodedKey}`)
+      : new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  async function request(
+    method: 'GET' | 'HEAD' | 'PUT' | 'DELETE',
+    key: string,
+    options: { body?: Buffer; headers?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const url = objectUrl(key);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD_HASH;
+
+    const signed: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const signedHeaderNames = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaderNames.map(name => `${name}:${signed[name]}`),
+      '',
+      signedHeaderNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetch(url, {
+      method,
+      body: options.body ? new Uint8Array(options.body) : undefined,
+      headers: {
+        ...options.headers,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+      },
+    });
+  }
+
+  async function failed(response: Response, action: string): Promise<Error> {
+    const detail = response.bodyUsed ? '' : (await response.text().catch(() => '')).slice(0, 200);
+    return new Error(`S3 ${action} failed with status ${response.status}${detail ? `: ${detail}` : ''}`);
+  }
+
+  return {
+    driver: 's3',
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+      const response = await request('PUT', key, {
+        body: data,
+        headers: { 'Content-Type': contentType },
+      });
+      if (!response.ok) throw await failed(response, 'upload');
+    },
+
+    async head(key: string): Promise<BlobMetadata | null> {
+      const response = await request('HEAD', key);
+      if (response.status === 404) return null;
+      if (!response.ok) throw await failed(response, 'head');
+
+      return {
+        key,
+        size: parseInt(response.headers.get('content-length') || '0', 10),
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+      };
+    },
+
+    async get(key: string, range?: ByteRange): Promise<BlobObject | null> {
+      const response = await request('GET', key, {
+        headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+      });
+      if (response.status === 404) return null;
+      if (!response.ok || !response.body) throw await failed(response, 'download');
+
+      // For a partial response the total size is after the slash: "bytes 0-99/1234"
+      const contentRange = response.headers.get('content-range');
+      const size = contentRange
+        ? parseInt(contentRange.split('/')[1], 10)
+        : parseInt(response.headers.get('content-length') || '0', 10);
+
+      return {
+        key,
+        size,
+        contentType: response.headers.get('content-type') || 'application/octet-stream',
+        body: response.body,
+        range: response.status === 206 ? range : undefined,
+      };
+    },
+
+    async delete(key: string): Promise<void> {
+      const response = await request('DELETE', key);
+      if (!response.ok && response.status !== 404) throw await failed(response, 'delete');
+    },
+  };
+}
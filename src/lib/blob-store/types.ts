@@ -0,0 +1,32 @@
+// آل شايع Family Tree - Blob Store Types
+
+export type BlobDriver = 'local' | 's3';
+
+export interface BlobMetadata {
+  key: string;
+  size: number;          // Total size in bytes
+  contentType: string;
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobObject extends BlobMetadata {
+  body: ReadableStream<Uint8Array>;
+  range?: ByteRange;     // Set when only part of the blob is returned
+}
+
+/**
+ * Storage for binary content (images, thumbnails) addressed by key.
+ * Drivers never interpret keys beyond using them as paths.
+ */
+export interface BlobStore {
+  readonly driver: BlobDriver;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  head(key: string): Promise<BlobMetadata | null>;
+  get(key: string, range?: ByteRange): Promise<BlobObject | null>;
+  delete(key: string): Promise<void>;
+}
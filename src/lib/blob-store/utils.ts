@@ -0,0 +1,97 @@
+// آل شايع Family Tree - Blob Store Utilities
+// Content-addressed keys, data URL decoding and HTTP range parsing
+
+import { createHash } from 'crypto';
+import type { ByteRange } from './types';
+
+// Route that streams blobs to the browser
+export const BLOB_URL_PREFIX = '/api/images/blob/';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+// Lowercase path segments of letters, digits, dot, dash and underscore; no ".."
+const KEY_PATTERN = /^(?:[a-z0-9_-]+\/)*[a-z0-9_-]+(?:\.[a-z0-9]+)?$/;
+
+export function extensionForContentType(contentType: string): string {
+  return EXTENSIONS[contentType] || 'bin';
+}
+
+export function contentTypeForKey(key: string): string {
+  const extension = key.split('.').pop();
+  const match = Object.entries(EXTENSIONS).find(([, ext]) => ext === extension);
+  return match ? match[0] : 'application/octet-stream';
+}
+
+/**
+ * Key derived from the content itself, so identical uploads share one blob
+ * and a key never needs to be invalidated: images/ab/ab12…ef.jpg
+ */
+export function contentAddressedKey(data: Buffer, contentType: string, prefix: string = 'images'): string {
+  const hash = createHash('sha256').update(data).digest('hex');
+  return `${prefix}/${hash.slice(0, 2)}/${hash}.${extensionForContentType(contentType)}`;
+}
+
+export function isValidBlobKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Strong ETag of a content-addressed key (the hash in its file name)
+ */
+export function etagForKey(key: string): string {
+  const fileName = key.split('/').pop() || key;
+  return `"${fileName.split('.')[0]}"`;
+}
+
+export function blobUrl(key: string): string {
+  return `${BLOB_URL_PREFIX}${key}`;
+}
+
+/**
+ * URL to show an image that may still be stored inline (base64 data URL)
+ * in rows not yet moved to the blob store
+ */
+export function resolveImageUrl(key: string | null | undefined, legacyData?: string | null): string | null {
+  if (key) return blobUrl(key);
+  return legacyData || null;
+}
+
+/**
+ * Decode a base64 data URL (data:image/png;base64,...)
+ */
+export function parseDataUrl(dataUrl: string): { contentType: string; data: Buffer } | null {
+  const match = dataUrl.match(/^data:([a-zA-Z0-9.+-]+\/[a-zA-Z0-9.+-]+);base64,(.+)$/);
+  if (!match) return null;
+  return { contentType: match[1], data: Buffer.from(match[2], 'base64') };
+}
+
+/**
+ * Parse a single-range HTTP Range header. Returns null when the header
+ * should be ignored (serve the whole blob) and 'unsatisfiable' for a 416.
+ */
+export function parseRangeHeader(header: string, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
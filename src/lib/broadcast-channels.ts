@@ -0,0 +1,209 @@
+// Broadcast Channels - Channel choice per recipient and the short SMS and
+// WhatsApp versions of a broadcast. Used by the broadcast service
+// (src/lib/services/broadcast.ts) and the broadcast admin pages.
+
+// ============================================
+// TYPES
+// ============================================
+
+export const BROADCAST_CHANNELS = ['EMAIL', 'WHATSAPP', 'SMS'] as const;
+
+export type BroadcastChannel = typeof BROADCAST_CHANNELS[number];
+
+export const BROADCAST_CHANNEL_LABELS: Record<BroadcastChannel, { ar: string; en: string }> = {
+  EMAIL: { ar: 'البريد الإلكتروني', en: 'Email' },
+  WHATSAPP: { ar: 'واتساب', en: 'WhatsApp' },
+  SMS: { ar: 'رسالة نصية', en: 'SMS' },
+};
+
+export interface RecipientContact {
+  email?: string | null;
+  phone?: string | null;
+  /** Channels the member asked for (FamilyMember.broadcastChannels); empty for no preference */
+  preferred: BroadcastChannel[];
+}
+
+/** The broadcast fields the SMS and WhatsApp versions are built from */
+export interface BroadcastMessageSource {
+  titleAr: string;
+  contentAr: string;
+  type: string;
+  meetingDate?: Date | null;
+  meetingLocation?: string | null;
+  meetingUrl?: string | null;
+}
+
+export interface WhatsAppTemplateMessage {
+  /** Template name as approved in WhatsApp Business Manager */
+  name: WhatsAppTemplateName;
+  language: 'ar';
+  /** Values for {{1}}, {{2}}, ... in the template body */
+  parameters: string[];
+}
+
+// ============================================
+// CHANNEL CHOICE
+// ============================================
+
+export function isBroadcastChannel(value: string): value is BroadcastChannel {
+  return (BROADCAST_CHANNELS as readonly string[]).includes(value);
+}
+
+/**
+ * Channels stored as a comma-separated list, in BROADCAST_CHANNELS order
+ */
+export function parseBroadcastChannels(value: string | null | undefined): BroadcastChannel[] {
+  const listed = new Set((value || '').split(',').map(channel => channel.trim().toUpperCase()));
+  return BROADCAST_CHANNELS.filter(channel => listed.has(channel));
+}
+
+export function serializeBroadcastChannels(channels: readonly BroadcastChannel[]): string {
+  return BROADCAST_CHANNELS.filter(channel => channels.includes(channel)).join(',');
+}
+
+/**
+ * Channels one recipient gets a broadcast on. Only channels the broadcast
+ * uses and the recipient has contact details for are considered. The
+ * member's preferred channels win when any of them is available; otherwise
+ * every available channel is used, except that a phone gets WhatsApp
+ * rather than both WhatsApp and SMS.
+ */
+export function resolveRecipientChannels(
+  broadcastChannels: readonly BroadcastChannel[],
+  contact: RecipientContact
+): BroadcastChannel[] {
+  const available = broadcastChannels.filter(channel =>
+    channel === 'EMAIL' ? !!contact.email?.trim() : !!contact.phone?.trim()
+  );
+
+  const preferred = available.filter(channel => contact.preferred.includes(channel));
+  if (preferred.length > 0) return preferred;
+
+  return available.includes('WHATSAPP') ? available.filter(channel => channel !== 'SMS') : available;
+}
+
+// ============================================
+// MESSAGE TEMPLATES
+// ============================================
+
+const TYPE_LABELS_AR: Record<string, string> = {
+  MEETING: 'دعوة اجتماع',
+  ANNOUNCEMENT: 'إعلان',
+  REMINDER: 'تذكير',
+  UPDATE: 'تحديث',
+};
+
+// Two UCS-2 segments; Arabic text can't use the 160-character GSM alphabet
+export const SMS_MAX_LENGTH = 134;
+
+// WhatsApp caps template parameters; keep the summary well under it
+const WHATSAPP_SUMMARY_LENGTH = 300;
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/li)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, Math.max(0, max - 1)).trimEnd()}…`;
+}
+
+export function formatBroadcastDateShort(date: Date): string {
+  return new Intl.DateTimeFormat('ar-SA', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Asia/Riyadh',
+  }).format(date);
+}
+
+/**
+ * Short SMS text: type, title, meeting time and a link. The title is cut
+ * to keep the message within SMS_MAX_LENGTH.
+ */
+export function renderBroadcastSms(broadcast: BroadcastMessageSource, link: string): string {
+  const typeLabel = TYPE_LABELS_AR[broadcast.type] || TYPE_LABELS_AR.ANNOUNCEMENT;
+  const details = broadcast.type === 'MEETING' && broadcast.meetingDate
+    ? [formatBroadcastDateShort(broadcast.meetingDate), broadcast.meetingLocation].filter(Boolean).join(' - ')
+    : '';
+
+  const build = (title: string) => [`آل شايع - ${typeLabel}: ${title}`, details, link].filter(Boolean).join('\n');
+  const room = SMS_MAX_LENGTH - build('').length;
+  return build(truncate(broadcast.titleAr, Math.max(room, 10)));
+}
+
+export const WHATSAPP_TEMPLATES = {
+  // السلام عليكم {{1}}،
+  // {{2}}: {{3}}
+  // {{4}}
+  // التفاصيل: {{5}}
+  alshaye_broadcast: {
+    body: 'السلام عليكم {{1}}،\n{{2}}: {{3}}\n{{4}}\nالتفاصيل: {{5}}\nشجرة عائلة آل شايع',
+  },
+  // السلام عليكم {{1}}، ندعوكم إلى {{2}}
+  // الموعد: {{3}}
+  // المكان: {{4}}
+  // التفاصيل: {{5}}
+  alshaye_meeting: {
+    body: 'السلام عليكم {{1}}، ندعوكم إلى {{2}}\nالموعد: {{3}}\nالمكان: {{4}}\nالتفاصيل: {{5}}\nشجرة عائلة آل شايع',
+  },
+} as const;
+
+export type WhatsAppTemplateName = keyof typeof WHATSAPP_TEMPLATES;
+
+/**
+ * Template message for WhatsApp. Business-initiated messages must use a
+ * pre-approved template, so the broadcast fills in its parameters.
+ */
+export function buildWhatsAppTemplate(
+  broadcast: BroadcastMessageSource,
+  recipientName: string,
+  link: string
+): WhatsAppTemplateMessage {
+  if (broadcast.type === 'MEETING' && broadcast.meetingDate) {
+    return {
+      name: 'alshaye_meeting',
+      language: 'ar',
+      parameters: [
+        recipientName,
+        broadcast.titleAr,
+        formatBroadcastDateShort(broadcast.meetingDate),
+        broadcast.meetingLocation || broadcast.meetingUrl || '-',
+        link,
+      ],
+    };
+  }
+
+  return {
+    name: 'alshaye_broadcast',
+    language: 'ar',
+    parameters: [
+      recipientName,
+      TYPE_LABELS_AR[broadcast.type] || TYPE_LABELS_AR.ANNOUNCEMENT,
+      broadcast.titleAr,
+      // Template parameters may not contain newlines
+      truncate(stripHtml(broadcast.contentAr).replace(/\n+/g, ' '), WHATSAPP_SUMMARY_LENGTH),
+      link,
+    ],
+  };
+}
+
+/**
+ * The text a recipient sees for a template message, for logs and the mock provider
+ */
+export function renderWhatsAppText(message: WhatsAppTemplateMessage): string {
+  return WHATSAPP_TEMPLATES[message.name].body.replace(
+    /\{\{(\d+)\}\}/g,
+    (match, index: string) => message.parameters[Number(index) - 1] ?? match
+  );
+}
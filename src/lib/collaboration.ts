@@ -0,0 +1,120 @@
+// Live Collaboration - Tree events and presence shared by server and browser
+// Member routes publish events through src/lib/services/collaboration.ts and
+// /api/tree/events streams them to /tree and /tree-editor as server-sent
+// events. The browser folds them into its member list with applyTreeEvent.
+
+import type { FamilyMember } from './types';
+
+// ============================================
+// EVENTS
+// ============================================
+
+export type TreeEventType = 'member.created' | 'member.updated' | 'member.moved' | 'member.deleted';
+
+export interface TreeEventActor {
+  id: string;
+  name: string;
+}
+
+export interface MemberTreeEvent {
+  type: TreeEventType;
+  memberId: string;
+  /** The member after the change, redacted for the receiving viewer; null once deleted */
+  member: FamilyMember | null;
+  actor: TreeEventActor;
+  at: string;
+}
+
+export const TREE_EVENT_LABELS: Record<TreeEventType, { ar: string; en: string }> = {
+  'member.created': { ar: 'أضاف', en: 'added' },
+  'member.updated': { ar: 'عدّل', en: 'updated' },
+  'member.moved': { ar: 'نقل', en: 'moved' },
+  'member.deleted': { ar: 'حذف', en: 'deleted' },
+};
+
+/**
+ * The member list after an event. Returns the same array when the event
+ * changes nothing, so React state updates can be skipped.
+ */
+export function applyTreeEvent(members: FamilyMember[], event: MemberTreeEvent): FamilyMember[] {
+  const index = members.findIndex(m => m.id === event.memberId);
+
+  if (event.type === 'member.deleted' || !event.member) {
+    return index === -1 ? members : members.filter(m => m.id !== event.memberId);
+  }
+
+  if (index === -1) return [...members, event.member];
+
+  // Events can arrive after a refetch that already has the change
+  const current = members[index];
+  if (current.version !== undefined && event.member.version !== undefined && current.version > event.member.version) {
+    return members;
+  }
+
+  const next = [...members];
+  next[index] = event.member;
+  return next;
+}
+
+// ============================================
+// PRESENCE
+// ============================================
+
+export type PresenceMode = 'viewing' | 'editing';
+
+export interface PresenceEntry {
+  connectionId: string;
+  userId: string;
+  userName: string;
+  mode: PresenceMode;
+  /** Branch the user is looking at; null for the whole tree */
+  branch: string | null;
+  /** Member selected or being edited */
+  memberId: string | null;
+  since: string;
+}
+
+/**
+ * One entry per user, preferring an editing connection over viewing ones
+ */
+export function uniquePresence(entries: PresenceEntry[]): PresenceEntry[] {
+  const byUser = new Map<string, PresenceEntry>();
+  for (const entry of entries) {
+    const existing = byUser.get(entry.userId);
+    if (!existing || (entry.mode === 'editing' && existing.mode !== 'editing')) {
+      byUser.set(entry.userId, entry);
+    }
+  }
+  return Array.from(byUser.values());
+}
+
+// ============================================
+// STREAM
+// ============================================
+
+export type TreeStreamMessage =
+  | { event: 'ready'; data: { connectionId: string; presence: PresenceEntry[] } }
+  | { event: 'member'; data: MemberTreeEvent }
+  | { event: 'presence'; data: PresenceEntry[] };
+
+/**
+ * Server-sent event frame for a stream message
+ */
+export function formatStreamMessage(message: TreeStreamMessage): string {
+  return `event: ${message.event}\ndata: ${JSON.stringify(message.data)}\n\n`;
+}
+
+// ============================================
+// CONFLICTS
+// ============================================
+
+/** details.reason of the 409 returned when a member's version has moved on */
+export const VERSION_CONFLICT = 'VERSION_CONFLICT';
+
+export interface VersionConflictDetails {
+  reason: typeof VERSION_CONFLICT;
+  memberId: string;
+  expectedVersion: number;
+  /** The member as it is now, for the merge dialog */
+  current: FamilyMember | null;
+}
@@ -0,0 +1,163 @@
+/**
+ * Cron Expression Utilities for آل شايع Family Tree
+ *
+ * Provides:
+ * - Parsing of standard 5-field cron expressions
+ *   (minute hour day-of-month month day-of-week) with lists, ranges and steps
+ * - Computing the next run time in a given time zone (Asia/Riyadh by default)
+ */
+
+export const DEFAULT_CRON_TIMEZONE = 'Asia/Riyadh';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;      // 1-12
+  daysOfWeek: Set<number>;  // 0-6, Sunday = 0
+  // Whether the day fields were '*'; when both are restricted a day matches either
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: { name: string; min: number; max: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Enough to walk past every field combination for several years
+const MAX_SEARCH_STEPS = 100000;
+
+function parseField(field: string, index: number): Set<number> {
+  const { name, min, max } = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron ${name}: "${part}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    let from = range === '*' ? min : parseInt(start, 10);
+    let to = range === '*' ? max : end !== undefined ? parseInt(end, 10) : from;
+    const increment = step !== undefined ? parseInt(step, 10) : 1;
+
+    // "5/15" means every 15 starting at 5
+    if (range !== '*' && end === undefined && step !== undefined) to = max;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid cron ${name}: "${part}"`);
+    }
+
+    for (; from <= to; from += increment) {
+      values.add(index === 4 ? from % 7 : from); // 7 is also Sunday
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression. Throws when the expression is invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields (minute hour day month weekday)');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(parseField);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC, in milliseconds, at the given instant
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const wallClock = Date.UTC(
+    value('year'), value('month') - 1, value('day'),
+    value('hour'), value('minute'), value('second')
+  );
+
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(wall.getUTCDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time strictly after `from` that matches the cron expression,
+ * evaluated on the wall clock of the given time zone.
+ */
+export function getNextCronRun(
+  expression: string,
+  from: Date = new Date(),
+  timeZone: string = DEFAULT_CRON_TIMEZONE
+): Date {
+  const schedule = parseCronExpression(expression);
+
+  // Walk the wall clock as a UTC date so calendar arithmetic ignores the host zone
+  const wall = new Date(from.getTime() + getTimeZoneOffset(from.getTime(), timeZone));
+  wall.setUTCSeconds(0, 0);
+  wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+    } else {
+      // Convert back; the offset at the result can differ across a DST change
+      const guess = wall.getTime() - getTimeZoneOffset(wall.getTime(), timeZone);
+      return new Date(wall.getTime() - getTimeZoneOffset(guess, timeZone));
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
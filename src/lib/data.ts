@@ -18,6 +18,9 @@
  * @see src/lib/db.ts - Database access layer with fallback to this data
  */
 
+import type { DatePrecision } from './types';
+import type { MemberPrivacyOverrides } from './privacy';
+
 export interface FamilyMember {
   id: string;
   firstName: string;
@@ -26,9 +29,15 @@ export interface FamilyMember {
   greatGrandfatherName: string | null;
   familyName: string;
   fatherId: string | null;
+  motherId?: string | null;             // Mother's ID when she is in the tree
+  externalMotherName?: string | null;   // Mother's name when she is from another family
   gender: 'Male' | 'Female';
   birthYear: number | null;
   deathYear?: number | null;
+  birthYearHijri?: number | null;       // Hijri (AH) counterpart of birthYear
+  deathYearHijri?: number | null;       // Hijri (AH) counterpart of deathYear
+  birthYearPrecision?: DatePrecision;
+  deathYearPrecision?: DatePrecision;
   sonsCount: number;
   daughtersCount: number;
   generation: number;
@@ -37,11 +46,15 @@ export interface FamilyMember {
   fullNameEn: string | null;
   phone: string | null;
   city: string | null;
+  birthPlace?: string | null;
   status: string;
   photoUrl: string | null;
   biography: string | null;
   occupation: string | null;
   email: string | null;
+  broadcastChannels?: string | null; // Preferred broadcast channels, comma-separated
+  privacyOverrides?: MemberPrivacyOverrides | null; // Member's privacy profile
+  isPlaceholder?: boolean; // Hidden from the viewer; only the place in the tree is kept
   createdAt?: Date;
   updatedAt?: Date;
   createdBy?: string | null;
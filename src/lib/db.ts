@@ -126,6 +126,22 @@ export async function getChildrenFromDb(parentId: string): Promise<FamilyMember[
   }
 }
 
+/**
+ * Get children of a mother from database
+ */
+export async function getChildrenOfMotherFromDb(motherId: string): Promise<FamilyMember[]> {
+  try {
+    if (!await isDatabaseAvailable()) {
+      return familyMembers.filter(m => m.motherId === motherId);
+    }
+
+    return await postgresDb.getChildrenOfMother(motherId);
+  } catch (error) {
+    console.error('Error fetching children of mother:', error);
+    return familyMembers.filter(m => m.motherId === motherId);
+  }
+}
+
 /**
  * Get statistics from database
  */
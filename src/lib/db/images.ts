@@ -2,12 +2,16 @@
 import { prisma } from '../prisma';
 import { Prisma } from '@prisma/client';
 import { randomUUID } from 'crypto';
+import { blobUrl, getBlobStore, parseDataUrl, putBlob, resolveImageUrl } from '../blob-store';
+import { syncSearchDocument } from './search';
 
 // Types
 export interface PendingImage {
   id: string;
-  imageData: string;
-  thumbnailData: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
   category: 'profile' | 'memory' | 'document' | 'historical';
   title: string | null;
   titleAr: string | null;
@@ -32,8 +36,10 @@ export interface PendingImage {
 
 export interface MemberPhoto {
   id: string;
-  imageData: string;
-  thumbnailData: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
   category: 'profile' | 'memory' | 'document' | 'historical';
   title: string | null;
   titleAr: string | null;
@@ -54,8 +60,10 @@ export interface MemberPhoto {
 }
 
 export interface CreatePendingImageInput {
-  imageData: string;
-  thumbnailData?: string;
+  imageKey: string;
+  thumbnailKey?: string;
+  mimeType?: string;
+  fileSize?: number;
   category?: 'profile' | 'memory' | 'document' | 'historical';
   title?: string;
   titleAr?: string;
@@ -72,8 +80,10 @@ export interface CreatePendingImageInput {
 }
 
 export interface CreateMemberPhotoInput {
-  imageData: string;
-  thumbnailData?: string;
+  imageKey: string;
+  thumbnailKey?: string;
+  mimeType?: string;
+  fileSize?: number;
   category?: 'profile' | 'memory' | 'document' | 'historical';
   title?: string;
   titleAr?: string;
@@ -100,8 +110,10 @@ function generateId(): string {
 function toPendingImage(row: Record<string, unknown>): PendingImage {
   return {
     id: row.id as string,
-    imageData: row.imageData as string,
-    thumbnailData: row.thumbnailData as string | null,
+    imageUrl: resolveImageUrl(row.imageKey as string | null, row.imageData as string | null),
+    thumbnailUrl: resolveImageUrl(row.thumbnailKey as string | null, row.thumbnailData as string | null),
+    mimeType: row.mimeType as string | null,
+    fileSize: row.fileSize as number | null,
     category: row.category as 'profile' | 'memory' | 'document' | 'historical',
     title: row.title as string | null,
     titleAr: row.titleAr as string | null,
@@ -129,8 +141,10 @@ function toPendingImage(row: Record<string, unknown>): PendingImage {
 function toMemberPhoto(row: Record<string, unknown>): MemberPhoto {
   return {
     id: row.id as string,
-    imageData: row.imageData as string,
-    thumbnailData: row.thumbnailData as string | null,
+    imageUrl: resolveImageUrl(row.imageKey as string | null, row.imageData as string | null),
+    thumbnailUrl: resolveImageUrl(row.thumbnailKey as string | null, row.thumbnailData as string | null),
+    mimeType: row.mimeType as string | null,
+    fileSize: row.fileSize as number | null,
     category: row.category as 'profile' | 'memory' | 'document' | 'historical',
     title: row.title as string | null,
     titleAr: row.titleAr as string | null,
@@ -161,8 +175,10 @@ export async function createPendingImage(input: CreatePendingImageInput): Promis
   const result = await prisma.pendingImage.create({
     data: {
       id,
-      imageData: input.imageData,
-      thumbnailData: input.thumbnailData || null,
+      imageKey: input.imageKey,
+      thumbnailKey: input.thumbnailKey || null,
+      mimeType: input.mimeType || null,
+      fileSize: input.fileSize || null,
       category: input.category || 'memory',
       title: input.title || null,
       titleAr: input.titleAr || null,
@@ -247,6 +263,10 @@ export async function approvePendingImage(
     await tx.memberPhoto.create({
       data: {
         id: photoId,
+        imageKey: pending.imageKey,
+        thumbnailKey: pending.thumbnailKey,
+        mimeType: pending.mimeType,
+        fileSize: pending.fileSize,
         imageData: pending.imageData,
         thumbnailData: pending.thumbnailData,
         category: pending.category,
@@ -281,6 +301,8 @@ export async function approvePendingImage(
     });
   });
 
+  void syncSearchDocument('photo', photoId);
+
   return getMemberPhotoById(photoId);
 }
 
@@ -306,9 +328,10 @@ export async function rejectPendingImage(
 
 export async function deletePendingImage(id: string): Promise<boolean> {
   try {
-    await prisma.pendingImage.delete({
+    const deleted = await prisma.pendingImage.delete({
       where: { id },
     });
+    await releaseImageBlobs([deleted.imageKey, deleted.thumbnailKey]);
     return true;
   } catch {
     return false;
@@ -325,8 +348,10 @@ export async function createMemberPhoto(input: CreateMemberPhotoInput): Promise<
   const result = await prisma.memberPhoto.create({
     data: {
       id,
-      imageData: input.imageData,
-      thumbnailData: input.thumbnailData || null,
+      imageKey: input.imageKey,
+      thumbnailKey: input.thumbnailKey || null,
+      mimeType: input.mimeType || null,
+      fileSize: input.fileSize || null,
       category: input.category || 'memory',
       title: input.title || null,
       titleAr: input.titleAr || null,
@@ -345,6 +370,8 @@ export async function createMemberPhoto(input: CreateMemberPhotoInput): Promise<
     },
   });
 
+  void syncSearchDocument('photo', result.id);
+
   return toMemberPhoto(result as unknown as Record<string, unknown>);
 }
 
@@ -487,7 +514,7 @@ export async function getPhotoTimeline(options?: {
 
 export async function updateMemberPhoto(
   id: string,
-  updates: Partial<Omit<CreateMemberPhotoInput, 'imageData' | 'uploadedBy' | 'uploadedByName'>>
+  updates: Partial<Omit<CreateMemberPhotoInput, 'imageKey' | 'thumbnailKey' | 'mimeType' | 'fileSize' | 'uploadedBy' | 'uploadedByName'>>
 ): Promise<MemberPhoto | null> {
   const data: Record<string, unknown> = {};
 
@@ -533,14 +560,18 @@ export async function updateMemberPhoto(
     data,
   });
 
+  void syncSearchDocument('photo', id);
+
   return getMemberPhotoById(id);
 }
 
 export async function deleteMemberPhoto(id: string): Promise<boolean> {
   try {
-    await prisma.memberPhoto.delete({
+    const deleted = await prisma.memberPhoto.delete({
       where: { id },
     });
+    await releaseImageBlobs([deleted.imageKey, deleted.thumbnailKey]);
+    void syncSearchDocument('photo', id);
     return true;
   } catch {
     return false;
@@ -575,6 +606,150 @@ export async function getProfilePhoto(memberId: string): Promise<MemberPhoto | n
   return row ? toMemberPhoto(row as unknown as Record<string, unknown>) : null;
 }
 
+// ======================
+// BLOB STORAGE
+// ======================
+
+/**
+ * Store a base64 data URL in the blob store and return its key and details
+ */
+export async function storeImageDataUrl(
+  dataUrl: string
+): Promise<{ key: string; mimeType: string; fileSize: number } | null> {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) return null;
+
+  const key = await putBlob(parsed.data, parsed.contentType);
+  return { key, mimeType: parsed.contentType, fileSize: parsed.data.length };
+}
+
+/**
+ * Replace a journal media row's keys and inline data with displayable URLs
+ */
+export function withJournalMediaUrls<T extends {
+  imageKey?: string | null;
+  thumbnailKey?: string | null;
+  imageData?: string | null;
+  thumbnailData?: string | null;
+}>(media: T) {
+  const { imageKey, thumbnailKey, imageData, thumbnailData, ...rest } = media;
+  return {
+    ...rest,
+    imageUrl: resolveImageUrl(imageKey, imageData),
+    thumbnailUrl: resolveImageUrl(thumbnailKey, thumbnailData),
+  };
+}
+
+/**
+ * Delete blobs that no image row references any more. Keys are
+ * content-addressed, so a pending image and its approved photo share them.
+ */
+export async function releaseImageBlobs(keys: (string | null | undefined)[]): Promise<void> {
+  for (const key of new Set(keys.filter((k): k is string => !!k))) {
+    const where = { OR: [{ imageKey: key }, { thumbnailKey: key }] };
+    const [pending, photos, media] = await Promise.all([
+      prisma.pendingImage.count({ where }),
+      prisma.memberPhoto.count({ where }),
+      prisma.journalMedia.count({ where }),
+    ]);
+    if (pending + photos + media > 0) continue;
+
+    try {
+      await getBlobStore().delete(key);
+    } catch (error) {
+      console.error(`[Images] Failed to delete blob ${key}:`, error);
+    }
+  }
+}
+
+/**
+ * Members a blob is a photo of: the member of each photo or pending image
+ * stored at the key, and members whose photoUrl points at it. The blob
+ * route checks their privacy before streaming it.
+ */
+export async function getImageBlobMembers(
+  key: string
+): Promise<{ id: string; branch: string | null; privacyOverrides: string | null }[]> {
+  const where = { OR: [{ imageKey: key }, { thumbnailKey: key }], memberId: { not: null } };
+  const [pending, photos] = await Promise.all([
+    prisma.pendingImage.findMany({ where, select: { memberId: true } }),
+    prisma.memberPhoto.findMany({ where, select: { memberId: true } }),
+  ]);
+  const memberIds = [...pending, ...photos].map(row => row.memberId as string);
+
+  return prisma.familyMember.findMany({
+    where: { OR: [{ id: { in: memberIds } }, { photoUrl: blobUrl(key) }] },
+    select: { id: true, branch: true, privacyOverrides: true },
+  });
+}
+
+export interface InlineImageMigrationResult {
+  pendingImages: number;
+  memberPhotos: number;
+  journalMedia: number;
+  failed: string[];
+}
+
+/**
+ * Move base64 images still stored in rows into the blob store, in batches.
+ * Safe to run again: rows already moved are skipped.
+ */
+export async function migrateInlineImagesToBlobStore(batchSize: number = 20): Promise<InlineImageMigrationResult> {
+  const result: InlineImageMigrationResult = { pendingImages: 0, memberPhotos: 0, journalMedia: 0, failed: [] };
+  const models = [
+    ['pendingImage', 'pendingImages'],
+    ['memberPhoto', 'memberPhotos'],
+    ['journalMedia', 'journalMedia'],
+  ] as const;
+
+  for (const [model, counter] of models) {
+    // Prisma delegates differ per model; they share these operations
+    const delegate = prisma[model] as unknown as {
+      findMany(args: unknown): Promise<{ id: string; imageData: string | null; thumbnailData: string | null }[]>;
+      update(args: unknown): Promise<unknown>;
+    };
+    const failedIds = new Set<string>();
+
+    for (;;) {
+      const rows = await delegate.findMany({
+        where: {
+          OR: [{ imageData: { not: null } }, { thumbnailData: { not: null } }],
+          id: { notIn: Array.from(failedIds) },
+        },
+        select: { id: true, imageData: true, thumbnailData: true },
+        take: batchSize,
+      });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        try {
+          const image = row.imageData ? await storeImageDataUrl(row.imageData) : null;
+          const thumbnail = row.thumbnailData ? await storeImageDataUrl(row.thumbnailData) : null;
+          if ((row.imageData && !image) || (row.thumbnailData && !thumbnail)) {
+            throw new Error('Not a base64 data URL');
+          }
+
+          const data: Record<string, unknown> = { imageData: null, thumbnailData: null };
+          if (image) data.imageKey = image.key;
+          if (thumbnail) data.thumbnailKey = thumbnail.key;
+          if (image && model !== 'journalMedia') {
+            data.mimeType = image.mimeType;
+            data.fileSize = image.fileSize;
+          }
+
+          await delegate.update({ where: { id: row.id }, data });
+          result[counter]++;
+        } catch (error) {
+          failedIds.add(row.id);
+          result.failed.push(`${model}:${row.id}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
 // ======================
 // STATISTICS
 // ======================
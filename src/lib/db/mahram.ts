@@ -0,0 +1,32 @@
+// Database loader for the mahram calculator
+import { prisma } from '../prisma';
+import { getAllMembersFromDb } from '../db';
+import { MahramContext } from '../mahram';
+import { FamilyMember } from '../types';
+
+export interface MahramData extends MahramContext {
+  members: FamilyMember[];
+}
+
+/**
+ * Load members, breastfeeding relationships and in-tree marriages
+ */
+export async function getMahramContext(): Promise<MahramData> {
+  const [members, breastfeeding, marriages] = await Promise.all([
+    getAllMembersFromDb(),
+    prisma.breastfeedingRelationship
+      .findMany({ select: { childId: true, nurseId: true, milkFatherId: true } })
+      .catch((error: unknown) => {
+        console.error('Error fetching breastfeeding relationships:', error);
+        return [];
+      }),
+    prisma.marriage
+      .findMany({ where: { wifeId: { not: null } }, select: { husbandId: true, wifeId: true } })
+      .catch((error: unknown) => {
+        console.error('Error fetching marriages:', error);
+        return [];
+      }),
+  ]);
+
+  return { members, breastfeeding, marriages };
+}
@@ -0,0 +1,254 @@
+// Database module for marriages (الزواج) using Prisma
+import { prisma } from '../prisma';
+import { ValidationError } from '../errors/AppError';
+import { FamilyMember, Marriage, MarriageSpouse, MarriageStatus, MotherChildrenGroup } from '../types';
+import { parseMemberPrivacyOverrides } from '../privacy';
+import { getWifeKey, groupChildrenByMother, UNKNOWN_MOTHER_KEY } from '../lineage';
+
+export const MARRIAGE_STATUSES: MarriageStatus[] = ['ACTIVE', 'DIVORCED', 'WIDOWED'];
+
+export const MARRIAGE_STATUS_LABELS: Record<MarriageStatus, { ar: string; en: string }> = {
+  ACTIVE: { ar: 'قائم', en: 'Active' },
+  DIVORCED: { ar: 'طلاق', en: 'Divorced' },
+  WIDOWED: { ar: 'ترمّل', en: 'Widowed' },
+};
+
+export interface CreateMarriageInput {
+  husbandId: string;
+  wifeId?: string | null;
+  externalWifeName?: string | null;
+  externalWifeFamily?: string | null;
+  wifeOrder?: number;
+  startYear?: number | null;
+  endYear?: number | null;
+  status?: MarriageStatus;
+  notes?: string | null;
+  createdBy?: string | null;
+}
+
+export type UpdateMarriageInput = Partial<Omit<CreateMarriageInput, 'husbandId' | 'createdBy'>>;
+
+// Only the spouse fields the UI shows, plus what redaction needs
+const spouseSelect = {
+  id: true,
+  firstName: true,
+  fullNameAr: true,
+  gender: true,
+  branch: true,
+  privacyOverrides: true,
+};
+
+const marriageInclude = {
+  husband: { select: spouseSelect },
+  wife: { select: spouseSelect },
+};
+
+function toSpouse(row: Record<string, unknown> | null | undefined): MarriageSpouse | null {
+  if (!row) return null;
+  return {
+    id: row.id as string,
+    firstName: row.firstName as string,
+    fullNameAr: row.fullNameAr as string | null,
+    gender: row.gender as MarriageSpouse['gender'],
+    branch: row.branch as string | null,
+    privacyOverrides: row.privacyOverrides ? parseMemberPrivacyOverrides(row.privacyOverrides) : null,
+  };
+}
+
+// Convert Prisma result to Marriage
+function toMarriage(row: Record<string, unknown>): Marriage {
+  return {
+    id: row.id as string,
+    husbandId: row.husbandId as string,
+    husband: toSpouse(row.husband as Record<string, unknown> | undefined) ?? undefined,
+    wifeId: row.wifeId as string | null,
+    wife: toSpouse(row.wife as Record<string, unknown> | null | undefined),
+    externalWifeName: row.externalWifeName as string | null,
+    externalWifeFamily: row.externalWifeFamily as string | null,
+    wifeOrder: row.wifeOrder as number,
+    startYear: row.startYear as number | null,
+    endYear: row.endYear as number | null,
+    status: row.status as MarriageStatus,
+    notes: row.notes as string | null,
+    createdAt: row.createdAt as Date,
+    updatedAt: row.updatedAt as Date,
+    createdBy: row.createdBy as string | null,
+  };
+}
+
+/**
+ * Display name of the wife of a marriage
+ */
+export function getWifeDisplayName(marriage: Marriage): string | null {
+  if (marriage.wife) {
+    return marriage.wife.fullNameAr || marriage.wife.firstName;
+  }
+  if (marriage.externalWifeName) {
+    return marriage.externalWifeFamily
+      ? `${marriage.externalWifeName} ${marriage.externalWifeFamily}`
+      : marriage.externalWifeName;
+  }
+  return null;
+}
+
+/**
+ * Build husband ID -> (wife key -> wife order) lookup
+ */
+export function buildWifeOrderMap(marriages: Marriage[]): Map<string, Map<string, number>> {
+  const result = new Map<string, Map<string, number>>();
+  for (const marriage of marriages) {
+    const orders = result.get(marriage.husbandId) || new Map<string, number>();
+    orders.set(getWifeKey(marriage), marriage.wifeOrder);
+    result.set(marriage.husbandId, orders);
+  }
+  return result;
+}
+
+/**
+ * Group a father's children by their mother, resolving mother names
+ * from the tree members and the father's marriages
+ */
+export function buildMotherChildrenGroups(
+  children: FamilyMember[],
+  marriages: Marriage[],
+  members: FamilyMember[]
+): MotherChildrenGroup[] {
+  const memberMap = new Map(members.map(m => [m.id, m]));
+  const marriageByWife = new Map(marriages.map(m => [getWifeKey(m), m]));
+  const wifeOrder = new Map(marriages.map(m => [getWifeKey(m), m.wifeOrder]));
+
+  return groupChildrenByMother(children, wifeOrder).map(group => {
+    const marriage = marriageByWife.get(group.motherKey) || null;
+    const first = group.children[0];
+    const mother = first.motherId ? memberMap.get(first.motherId) : undefined;
+
+    let motherName: string | null = null;
+    if (mother) {
+      motherName = mother.fullNameAr || mother.firstName;
+    } else if (marriage) {
+      motherName = getWifeDisplayName(marriage);
+    } else if (first.externalMotherName) {
+      motherName = first.externalMotherName;
+    }
+
+    return {
+      motherKey: group.motherKey,
+      motherId: first.motherId || null,
+      motherName,
+      isExternal: !first.motherId && group.motherKey !== UNKNOWN_MOTHER_KEY,
+      marriage,
+      children: group.children,
+    };
+  });
+}
+
+/**
+ * Check a mother link before it is saved: the mother must be in the tree,
+ * be female and not be the member themselves. Throws a ValidationError.
+ */
+export async function assertValidMother(motherId: string, memberId?: string | null): Promise<void> {
+  if (memberId && motherId === memberId) {
+    throw new ValidationError('A member cannot be their own mother', { motherId: 'self' });
+  }
+
+  const mother = await prisma.familyMember.findUnique({
+    where: { id: motherId },
+    select: { gender: true },
+  });
+  if (!mother) {
+    throw new ValidationError('Mother not found', { motherId: 'Mother not found' });
+  }
+  if (mother.gender !== 'Female') {
+    throw new ValidationError('Mother must be female', { motherId: 'Mother must be female' });
+  }
+}
+
+export async function getMarriageById(id: string): Promise<Marriage | null> {
+  const row = await prisma.marriage.findUnique({
+    where: { id },
+    include: marriageInclude,
+  });
+  return row ? toMarriage(row as unknown as Record<string, unknown>) : null;
+}
+
+export async function getAllMarriages(): Promise<Marriage[]> {
+  try {
+    const rows = await prisma.marriage.findMany({
+      include: marriageInclude,
+      orderBy: [{ husbandId: 'asc' }, { wifeOrder: 'asc' }],
+    });
+    return rows.map(row => toMarriage(row as unknown as Record<string, unknown>));
+  } catch (error) {
+    console.error('Error fetching marriages:', error);
+    return [];
+  }
+}
+
+/**
+ * Get all marriages a member is part of (as husband or wife)
+ */
+export async function getMarriagesForMember(memberId: string): Promise<Marriage[]> {
+  try {
+    const rows = await prisma.marriage.findMany({
+      where: {
+        OR: [{ husbandId: memberId }, { wifeId: memberId }],
+      },
+      include: marriageInclude,
+      orderBy: [{ wifeOrder: 'asc' }, { startYear: 'asc' }],
+    });
+    return rows.map(row => toMarriage(row as unknown as Record<string, unknown>));
+  } catch (error) {
+    console.error('Error fetching marriages for member:', error);
+    return [];
+  }
+}
+
+export async function createMarriage(input: CreateMarriageInput): Promise<Marriage> {
+  const row = await prisma.marriage.create({
+    data: {
+      husbandId: input.husbandId,
+      wifeId: input.wifeId || null,
+      externalWifeName: input.externalWifeName || null,
+      externalWifeFamily: input.externalWifeFamily || null,
+      wifeOrder: input.wifeOrder ?? 1,
+      startYear: input.startYear ?? null,
+      endYear: input.endYear ?? null,
+      status: input.status || 'ACTIVE',
+      notes: input.notes || null,
+      createdBy: input.createdBy || null,
+    },
+    include: marriageInclude,
+  });
+  return toMarriage(row as unknown as Record<string, unknown>);
+}
+
+export async function updateMarriage(id: string, input: UpdateMarriageInput): Promise<Marriage> {
+  const data: Record<string, unknown> = {};
+  const fields: (keyof UpdateMarriageInput)[] = [
+    'wifeId', 'externalWifeName', 'externalWifeFamily', 'wifeOrder',
+    'startYear', 'endYear', 'status', 'notes',
+  ];
+
+  for (const field of fields) {
+    if (field in input) {
+      data[field] = input[field] ?? null;
+    }
+  }
+
+  const row = await prisma.marriage.update({
+    where: { id },
+    data,
+    include: marriageInclude,
+  });
+  return toMarriage(row as unknown as Record<string, unknown>);
+}
+
+export async function deleteMarriage(id: string): Promise<boolean> {
+  try {
+    await prisma.marriage.delete({ where: { id } });
+    return true;
+  } catch (error) {
+    console.error('Error deleting marriage:', error);
+    return false;
+  }
+}
@@ -0,0 +1,346 @@
+// Database module for merging duplicate members using Prisma
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { prisma } from '../prisma';
+import { ConflictError, NotFoundError, ValidationError } from '../errors/AppError';
+import type { MergeStrategy } from '../import-utils';
+import {
+  MERGEABLE_FIELDS,
+  MergeFieldChoices,
+  replaceMemberIdInList,
+  resolveMergedFields,
+} from '../merge';
+import type { FamilyMember } from '../types';
+import { syncSearchDocument } from './search';
+
+// ChangeHistory field names used by a merge batch
+const MERGE_SUMMARY_FIELD = 'MERGE';
+const REFERENCE_FIELD_PREFIX = 'ref:';
+
+type ReferenceModel =
+  | 'familyMember'
+  | 'marriage'
+  | 'breastfeedingRelationship'
+  | 'memberPhoto'
+  | 'familyJournal'
+  | 'user'
+  | 'gatheringAttendee'
+  | 'changeHistory'
+  | 'memberUpdateRequest'
+  | 'broadcast'
+  | 'broadcastRecipient'
+  | 'pendingImage'
+  | 'pendingMember'
+  | 'accessRequest';
+
+// Every column that can point at a member. JSON lists hold arrays of member IDs.
+const MEMBER_REFERENCES: { model: ReferenceModel; column: string; list?: boolean }[] = [
+  { model: 'familyMember', column: 'fatherId' },
+  { model: 'familyMember', column: 'motherId' },
+  { model: 'marriage', column: 'husbandId' },
+  { model: 'marriage', column: 'wifeId' },
+  { model: 'breastfeedingRelationship', column: 'childId' },
+  { model: 'breastfeedingRelationship', column: 'nurseId' },
+  { model: 'breastfeedingRelationship', column: 'milkFatherId' },
+  { model: 'memberPhoto', column: 'memberId' },
+  { model: 'memberPhoto', column: 'taggedMemberIds', list: true },
+  { model: 'familyJournal', column: 'primaryMemberId' },
+  { model: 'familyJournal', column: 'narratorId' },
+  { model: 'familyJournal', column: 'relatedMemberIds', list: true },
+  { model: 'user', column: 'linkedMemberId' },
+  { model: 'gatheringAttendee', column: 'memberId' },
+  { model: 'changeHistory', column: 'memberId' },
+  { model: 'memberUpdateRequest', column: 'memberId' },
+  { model: 'broadcast', column: 'targetMemberIds', list: true },
+  { model: 'broadcastRecipient', column: 'memberId' },
+  { model: 'pendingImage', column: 'memberId' },
+  { model: 'pendingImage', column: 'taggedMemberIds', list: true },
+  { model: 'pendingMember', column: 'proposedFatherId' },
+  { model: 'pendingMember', column: 'approvedMemberId' },
+  { model: 'accessRequest', column: 'relatedMemberId' },
+];
+
+// Original value of one re-pointed row, kept for rollback
+interface RewiredRow {
+  id: string;
+  value: string | null;
+}
+
+interface ReferenceDelegate {
+  findMany(args: unknown): Promise<({ id: string } & Record<string, string | null>)[]>;
+  update(args: unknown): Promise<unknown>;
+}
+
+function referenceDelegate(tx: Prisma.TransactionClient, model: ReferenceModel): ReferenceDelegate {
+  return tx[model] as unknown as ReferenceDelegate;
+}
+
+export interface MergeMembersInput {
+  survivorId: string;
+  mergedId: string;
+  strategy?: MergeStrategy;
+  fieldChoices?: MergeFieldChoices;
+  changedBy: string;
+  changedByName: string;
+  reason?: string;
+}
+
+export interface MergeMembersResult {
+  batchId: string;
+  survivor: FamilyMember;
+  mergedFields: string[];
+  // Number of re-pointed rows per "model.column"
+  rewired: Record<string, number>;
+}
+
+export interface RollbackMergeResult {
+  batchId: string;
+  survivorId: string;
+  restoredMemberId: string;
+  restoredReferences: number;
+}
+
+function historyValue(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Merge a duplicate member into a surviving member: apply the chosen field
+ * values, re-point every reference, then delete the duplicate. Everything
+ * is recorded as one ChangeHistory batch on the survivor so the merge can
+ * be rolled back with rollbackMemberMerge.
+ */
+export async function mergeDuplicateMembers(input: MergeMembersInput): Promise<MergeMembersResult> {
+  const { survivorId, mergedId, changedBy, changedByName } = input;
+
+  if (survivorId === mergedId) {
+    throw new ValidationError('Cannot merge a member into itself');
+  }
+
+  const batchId = randomUUID();
+  const rewired: Record<string, number> = {};
+
+  const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const survivor = await tx.familyMember.findUnique({ where: { id: survivorId } });
+    const merged = await tx.familyMember.findUnique({ where: { id: mergedId } });
+    if (!survivor) throw new NotFoundError(`Member ${survivorId} not found`, 'FamilyMember', survivorId);
+    if (!merged) throw new NotFoundError(`Member ${mergedId} not found`, 'FamilyMember', mergedId);
+
+    if (
+      survivor.fatherId === merged.id || survivor.motherId === merged.id ||
+      merged.fatherId === survivor.id || merged.motherId === survivor.id
+    ) {
+      throw new ConflictError('Cannot merge a parent with their own child', { survivorId, mergedId });
+    }
+
+    const history: Prisma.ChangeHistoryCreateManyInput[] = [];
+    const record = (fieldName: string, oldValue: string | null, newValue: string | null) => {
+      history.push({
+        memberId: survivor.id,
+        fieldName,
+        oldValue,
+        newValue,
+        changeType: 'MERGE',
+        changedBy,
+        changedByName,
+        batchId,
+        reason: input.reason || `Merged duplicate member ${merged.id}`,
+      });
+    };
+
+    // 1. Re-point every reference from the duplicate to the survivor
+    for (const { model, column, list } of MEMBER_REFERENCES) {
+      const delegate = referenceDelegate(tx, model);
+      const rows = await delegate.findMany({
+        where: list ? { [column]: { contains: `"${merged.id}"` } } : { [column]: merged.id },
+        select: { id: true, [column]: true },
+      });
+
+      const originals: RewiredRow[] = [];
+      for (const row of rows) {
+        const value = list ? replaceMemberIdInList(row[column], merged.id, survivor.id) : survivor.id;
+        if (value === null) continue;
+
+        await delegate.update({ where: { id: row.id }, data: { [column]: value } });
+        originals.push({ id: row.id, value: row[column] });
+      }
+
+      if (originals.length > 0) {
+        rewired[`${model}.${column}`] = originals.length;
+        record(`${REFERENCE_FIELD_PREFIX}${model}.${column}`, JSON.stringify(originals), survivor.id);
+      }
+    }
+
+    // 2. Apply the chosen field values to the survivor
+    const updates = resolveMergedFields(
+      survivor as unknown as FamilyMember,
+      merged as unknown as FamilyMember,
+      input.strategy,
+      input.fieldChoices
+    );
+    const [sonsCount, daughtersCount] = await Promise.all([
+      tx.familyMember.count({ where: { fatherId: survivor.id, gender: 'Male' } }),
+      tx.familyMember.count({ where: { fatherId: survivor.id, gender: 'Female' } }),
+    ]);
+
+    const updated = await tx.familyMember.update({
+      where: { id: survivor.id },
+      data: {
+        ...updates,
+        sonsCount,
+        daughtersCount,
+        lastModifiedBy: changedBy,
+        version: { increment: 1 },
+      },
+    });
+
+    for (const [field, value] of Object.entries(updates)) {
+      record(field, historyValue(survivor[field as keyof typeof survivor]), historyValue(value));
+    }
+
+    // 3. Keep the duplicate flags that will cascade with the duplicate
+    const flags = await tx.duplicateFlag.findMany({
+      where: { OR: [{ sourceMemberId: merged.id }, { targetMemberId: merged.id }] },
+    });
+
+    // 4. Delete the duplicate; the summary row keeps what rollback needs
+    await tx.familyMember.delete({ where: { id: merged.id } });
+
+    history.unshift({
+      memberId: survivor.id,
+      fieldName: MERGE_SUMMARY_FIELD,
+      oldValue: JSON.stringify(merged),
+      newValue: JSON.stringify({
+        mergedFrom: merged.id,
+        mergedFromName: merged.fullNameAr || merged.firstName,
+        strategy: input.strategy || 'MERGE_PREFER_EXISTING',
+        duplicateFlags: flags,
+      }),
+      changeType: 'MERGE',
+      changedBy,
+      changedByName,
+      batchId,
+      fullSnapshot: JSON.stringify(survivor),
+      reason: input.reason || `Merged duplicate member ${merged.id}`,
+    });
+    await tx.changeHistory.createMany({ data: history });
+
+    return {
+      batchId,
+      survivor: updated as unknown as FamilyMember,
+      mergedFields: Object.keys(updates),
+      rewired,
+    };
+  });
+
+  void syncSearchDocument('member', survivorId);
+  void syncSearchDocument('member', mergedId);
+
+  return result;
+}
+
+/**
+ * Whether a ChangeHistory batch was produced by mergeDuplicateMembers
+ */
+export async function isMergeBatch(batchId: string): Promise<boolean> {
+  const summary = await prisma.changeHistory.findFirst({
+    where: { batchId, changeType: 'MERGE', fieldName: MERGE_SUMMARY_FIELD },
+    select: { id: true },
+  });
+  return !!summary;
+}
+
+/**
+ * Undo a merge: recreate the duplicate, point its references back,
+ * restore the survivor's fields and the removed duplicate flags
+ */
+export async function rollbackMemberMerge(
+  batchId: string,
+  changedBy: string,
+  changedByName: string
+): Promise<RollbackMergeResult> {
+  const changes = await prisma.changeHistory.findMany({ where: { batchId, changeType: 'MERGE' } });
+  const summary = changes.find((c: typeof changes[number]) => c.fieldName === MERGE_SUMMARY_FIELD);
+  if (!summary || !summary.oldValue || !summary.fullSnapshot) {
+    throw new NotFoundError(`Merge batch ${batchId} not found`, 'ChangeHistory', batchId);
+  }
+
+  const mergedSnapshot = JSON.parse(summary.oldValue) as Prisma.FamilyMemberUncheckedCreateInput;
+  const survivorSnapshot = JSON.parse(summary.fullSnapshot) as Record<string, unknown>;
+  const { duplicateFlags = [] } = JSON.parse(summary.newValue || '{}') as {
+    duplicateFlags?: Prisma.DuplicateFlagCreateManyInput[];
+  };
+
+  const rollbackBatchId = randomUUID();
+  let restoredReferences = 0;
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const existing = await tx.familyMember.findUnique({ where: { id: mergedSnapshot.id }, select: { id: true } });
+    if (existing) {
+      throw new ConflictError(`Member ${mergedSnapshot.id} already exists; merge was already rolled back`);
+    }
+
+    // 1. Recreate the duplicate exactly as it was
+    await tx.familyMember.create({ data: mergedSnapshot });
+
+    // 2. Point the re-wired rows back to their original values
+    for (const change of changes) {
+      if (!change.fieldName.startsWith(REFERENCE_FIELD_PREFIX) || !change.oldValue) continue;
+
+      const [model, column] = change.fieldName.slice(REFERENCE_FIELD_PREFIX.length).split('.') as [ReferenceModel, string];
+      const delegate = referenceDelegate(tx, model);
+      const rows = JSON.parse(change.oldValue) as RewiredRow[];
+
+      // Rows deleted since the merge cannot be restored
+      const remaining = await delegate.findMany({
+        where: { id: { in: rows.map(row => row.id) } },
+        select: { id: true },
+      });
+      const remainingIds = new Set(remaining.map(row => row.id));
+
+      for (const row of rows.filter(r => remainingIds.has(r.id))) {
+        await delegate.update({ where: { id: row.id }, data: { [column]: row.value } });
+        restoredReferences++;
+      }
+    }
+
+    // 3. Restore the survivor's fields and child counts
+    const survivorData: Record<string, unknown> = {};
+    for (const field of [...MERGEABLE_FIELDS, 'sonsCount', 'daughtersCount']) {
+      if (survivorSnapshot[field] !== undefined) survivorData[field] = survivorSnapshot[field];
+    }
+    await tx.familyMember.update({
+      where: { id: summary.memberId },
+      data: { ...survivorData, lastModifiedBy: changedBy, version: { increment: 1 } },
+    });
+
+    // 4. Bring back the duplicate flags that cascaded with the duplicate
+    if (duplicateFlags.length > 0) {
+      await tx.duplicateFlag.createMany({ data: duplicateFlags, skipDuplicates: true });
+    }
+
+    await tx.changeHistory.create({
+      data: {
+        memberId: summary.memberId,
+        fieldName: 'MERGE_ROLLBACK',
+        oldValue: summary.newValue,
+        newValue: JSON.stringify({ restoredMemberId: mergedSnapshot.id }),
+        changeType: 'RESTORE',
+        changedBy,
+        changedByName,
+        batchId: rollbackBatchId,
+        reason: `Rollback of merge ${batchId}`,
+      },
+    });
+  });
+
+  void syncSearchDocument('member', summary.memberId);
+  void syncSearchDocument('member', mergedSnapshot.id);
+
+  return {
+    batchId: rollbackBatchId,
+    survivorId: summary.memberId,
+    restoredMemberId: mergedSnapshot.id,
+    restoredReferences,
+  };
+}
@@ -0,0 +1,335 @@
+// Database module for the Arabic-aware search index using Prisma
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { getAllMembersFromDb } from '../db';
+import {
+  buildSearchFacets,
+  gatheringSearchDocument,
+  getTokenPhonetic,
+  IndexedSearchDocument,
+  journalSearchDocument,
+  matchesSearchQuery,
+  memberSearchDocument,
+  parseSearchQuery,
+  photoSearchDocument,
+  rankSearchDocuments,
+  SEARCH_ENTITY_TYPES,
+  SearchEntityType,
+  SearchFacetField,
+  SearchFacets,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  sortSearchFacetValues,
+} from '../search';
+
+// Upper bound of rows ranked in memory for one query. Filters run in SQL
+// before the cap, and the total and facets are counted over every match.
+const MAX_CANDIDATES = 500;
+
+export interface SearchIndexParams {
+  q: string;
+  types?: SearchEntityType[];
+  filters?: SearchFilters;
+  // Whether the viewer may see member details (occupation, biography)
+  matchPrivateText?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// Convert Prisma result to IndexedSearchDocument
+function toSearchDocument(row: Record<string, unknown>): IndexedSearchDocument {
+  return {
+    entityType: row.entityType as SearchEntityType,
+    entityId: row.entityId as string,
+    title: row.title as string,
+    body: row.body as string | null,
+    normalizedText: row.normalizedText as string,
+    normalizedPrivateText: row.normalizedPrivateText as string | null,
+    phoneticKeys: row.phoneticKeys as string,
+    generation: row.generation as number | null,
+    branch: row.branch as string | null,
+    city: row.city as string | null,
+    status: row.status as string | null,
+  };
+}
+
+// Only published journals, public photos and announced gatherings are searchable
+const journalWhere = { status: 'PUBLISHED' };
+const photoWhere = { isPublic: true };
+const gatheringWhere = { isPublic: true, status: { not: 'DRAFT' } };
+
+// Photos are loaded without their image data
+const photoSelect = { id: true, title: true, titleAr: true, caption: true, captionAr: true };
+
+/**
+ * Build the current search document of one entity, or null when it
+ * does not exist or should not be searchable
+ */
+async function loadSearchDocument(
+  entityType: SearchEntityType,
+  entityId: string
+): Promise<IndexedSearchDocument | null> {
+  switch (entityType) {
+    case 'member': {
+      const member = await prisma.familyMember.findUnique({ where: { id: entityId } });
+      return member ? memberSearchDocument(member) : null;
+    }
+    case 'journal': {
+      const journal = await prisma.familyJournal.findFirst({ where: { id: entityId, ...journalWhere } });
+      return journal ? journalSearchDocument(journal) : null;
+    }
+    case 'photo': {
+      const photo = await prisma.memberPhoto.findFirst({
+        where: { id: entityId, ...photoWhere },
+        select: photoSelect,
+      });
+      return photo ? photoSearchDocument(photo) : null;
+    }
+    case 'gathering': {
+      const gathering = await prisma.gathering.findFirst({ where: { id: entityId, ...gatheringWhere } });
+      return gathering ? gatheringSearchDocument(gathering) : null;
+    }
+  }
+}
+
+/**
+ * Refresh the index entry of an entity after it was created, changed or
+ * deleted. Never throws: a stale entry is fixed by the next rebuild.
+ */
+export async function syncSearchDocument(entityType: SearchEntityType, entityId: string): Promise<void> {
+  try {
+    const document = await loadSearchDocument(entityType, entityId);
+    if (!document) {
+      await prisma.searchDocument.deleteMany({ where: { entityType, entityId } });
+      return;
+    }
+
+    await prisma.searchDocument.upsert({
+      where: { entityType_entityId: { entityType, entityId } },
+      create: document,
+      update: document,
+    });
+  } catch (error) {
+    console.error(`Failed to update search index for ${entityType} ${entityId}:`, error);
+  }
+}
+
+/**
+ * Rebuild the whole index from members, journals, photos and gatherings
+ * @returns Number of indexed documents
+ */
+export async function rebuildSearchIndex(): Promise<number> {
+  const [members, journals, photos, gatherings] = await Promise.all([
+    prisma.familyMember.findMany(),
+    prisma.familyJournal.findMany({ where: journalWhere }),
+    prisma.memberPhoto.findMany({ where: photoWhere, select: photoSelect }),
+    prisma.gathering.findMany({ where: gatheringWhere }),
+  ]);
+
+  const documents = [
+    ...members.map(memberSearchDocument),
+    ...journals.map(journalSearchDocument),
+    ...photos.map(photoSearchDocument),
+    ...gatherings.map(gatheringSearchDocument),
+  ];
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.searchDocument.deleteMany({});
+    await tx.searchDocument.createMany({ data: documents });
+  });
+
+  return documents.length;
+}
+
+let rebuildInProgress: Promise<number> | null = null;
+
+// Build the index on first use, e.g. right after deploying to an existing database
+function ensureSearchIndex(): void {
+  if (rebuildInProgress) return;
+  rebuildInProgress = rebuildSearchIndex()
+    .catch(error => {
+      console.error('Failed to build search index:', error);
+      return 0;
+    })
+    .finally(() => {
+      rebuildInProgress = null;
+    });
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * SQL form of the match rule of scoreSearchDocument: every token starts a
+ * word, is part of one (tokens of three letters or more) or sounds like one.
+ * The LIKE patterns use the pg_trgm indexes.
+ */
+function matchCondition(query: SearchQuery, matchPrivateText: boolean): Prisma.Sql {
+  const columns = [Prisma.sql`"normalizedText"`];
+  if (matchPrivateText) columns.push(Prisma.sql`"normalizedPrivateText"`);
+
+  return Prisma.join(
+    query.tokens.map(token => {
+      const escaped = escapeLike(token);
+      const conditions: Prisma.Sql[] = [];
+      for (const column of columns) {
+        conditions.push(Prisma.sql`(' ' || ${column}) LIKE ${`% ${escaped}%`}`);
+        if (token.length > 2) conditions.push(Prisma.sql`${column} LIKE ${`%${escaped}%`}`);
+      }
+      const phonetic = getTokenPhonetic(token);
+      if (phonetic) conditions.push(Prisma.sql`(' ' || "phoneticKeys" || ' ') LIKE ${`% ${escapeLike(phonetic)} %`}`);
+      return Prisma.sql`(${Prisma.join(conditions, ' OR ')})`;
+    }),
+    ' AND '
+  );
+}
+
+function filterCondition(filters: SearchFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+  if (filters.generation !== undefined) conditions.push(Prisma.sql`"generation" = ${filters.generation}`);
+  if (filters.branch) conditions.push(Prisma.sql`"branch" = ${filters.branch}`);
+  if (filters.city) conditions.push(Prisma.sql`"city" = ${filters.city}`);
+  if (filters.status) conditions.push(Prisma.sql`"status" = ${filters.status}`);
+  return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+}
+
+/**
+ * Best candidate rows for a query with the filters applied
+ */
+async function findIndexedCandidates(
+  query: SearchQuery,
+  types: SearchEntityType[],
+  filters: SearchFilters,
+  matchPrivateText: boolean
+): Promise<IndexedSearchDocument[]> {
+  const normalizedQuery = query.tokens.join(' ');
+
+  const rows = await prisma.$queryRaw<Record<string, unknown>[]>`
+    SELECT "entityType", "entityId", "title", "body", "normalizedText", "normalizedPrivateText",
+           "phoneticKeys", "generation", "branch", "city", "status"
+    FROM "SearchDocument"
+    WHERE "entityType" IN (${Prisma.join(types)})
+      AND ${matchCondition(query, matchPrivateText)}
+      ${filterCondition(filters)}
+    ORDER BY word_similarity(${normalizedQuery}, "normalizedText") DESC
+    LIMIT ${MAX_CANDIDATES}
+  `;
+
+  return rows.map(toSearchDocument);
+}
+
+const FACET_COLUMNS: Record<SearchFacetField | 'type', string> = {
+  type: 'entityType',
+  generation: 'generation',
+  branch: 'branch',
+  city: 'city',
+  status: 'status',
+};
+
+/**
+ * Number of matches with the filters applied, and facets counted over all
+ * matches before the facet filters so every option keeps its count
+ */
+async function countIndexedMatches(
+  query: SearchQuery,
+  types: SearchEntityType[],
+  filters: SearchFilters,
+  matchPrivateText: boolean
+): Promise<{ total: number; facets: SearchFacets }> {
+  const where = Prisma.sql`"entityType" IN (${Prisma.join(types)}) AND ${matchCondition(query, matchPrivateText)}`;
+
+  const [totalRows, facetRows] = await Promise.all([
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS "total" FROM "SearchDocument" WHERE ${where} ${filterCondition(filters)}
+    `,
+    prisma.$queryRaw<Record<string, unknown>[]>`
+      SELECT "entityType", "generation", "branch", "city", "status",
+             GROUPING("entityType") AS "entityType_grouped",
+             GROUPING("generation") AS "generation_grouped",
+             GROUPING("branch") AS "branch_grouped",
+             GROUPING("city") AS "city_grouped",
+             GROUPING("status") AS "status_grouped",
+             COUNT(*)::int AS "count"
+      FROM "SearchDocument"
+      WHERE ${where}
+      GROUP BY GROUPING SETS (("entityType"), ("generation"), ("branch"), ("city"), ("status"))
+    `,
+  ]);
+
+  // Each row counts one value of the column it was grouped by (GROUPING() = 0)
+  const facets = {} as SearchFacets;
+  for (const [field, column] of Object.entries(FACET_COLUMNS) as [SearchFacetField | 'type', string][]) {
+    facets[field] = sortSearchFacetValues(
+      facetRows
+        .filter(row => Number(row[`${column}_grouped`]) === 0 && row[column] !== null && row[column] !== '')
+        .map(row => ({ value: String(row[column]), count: Number(row.count) }))
+    );
+  }
+
+  return { total: totalRows[0]?.total ?? 0, facets };
+}
+
+/**
+ * Search members, journals, photos and gatherings with ranking,
+ * highlighting, facets and pagination
+ */
+export async function searchIndex(params: SearchIndexParams): Promise<SearchResult> {
+  const query = parseSearchQuery(params.q);
+  const types = params.types && params.types.length > 0 ? params.types : SEARCH_ENTITY_TYPES;
+
+  if (query.tokens.length === 0) {
+    return { hits: [], facets: buildSearchFacets([]), total: 0 };
+  }
+
+  const filters = params.filters || {};
+  const matchPrivateText = !!params.matchPrivateText;
+  let candidates: IndexedSearchDocument[];
+  try {
+    const indexed = await prisma.searchDocument.count();
+    if (indexed > 0) {
+      const [rows, counts] = await Promise.all([
+        findIndexedCandidates(query, types, filters, matchPrivateText),
+        countIndexedMatches(query, types, filters, matchPrivateText),
+      ]);
+      // The rows are already filtered; only rank and paginate them
+      const ranked = rankSearchDocuments(rows, query, { matchPrivateText, page: params.page, limit: params.limit });
+      return { ...ranked, ...counts };
+    } else {
+      // Index not built yet (or in-memory data): rank members directly meanwhile
+      ensureSearchIndex();
+      candidates = types.includes('member') ? (await getAllMembersFromDb()).map(memberSearchDocument) : [];
+    }
+  } catch (error) {
+    console.error('Search index query failed, falling back to members:', error);
+    candidates = types.includes('member') ? (await getAllMembersFromDb()).map(memberSearchDocument) : [];
+  }
+
+  return rankSearchDocuments(candidates, query, {
+    filters,
+    matchPrivateText,
+    page: params.page,
+    limit: params.limit,
+  });
+}
+
+/**
+ * Distinct member branches or cities matching a query, for suggestions.
+ * Read from the index, which leaves out cities members hid.
+ */
+export async function suggestFacetValues(field: 'branch' | 'city', q: string, limit = 3): Promise<string[]> {
+  const query = parseSearchQuery(q);
+  if (query.tokens.length === 0) return [];
+
+  const rows = await prisma.searchDocument.findMany({
+    where: { entityType: 'member', [field]: { not: null } },
+    distinct: [field],
+    select: { branch: true, city: true },
+  });
+
+  return rows
+    .map(row => row[field])
+    .filter((value): value is string => !!value && matchesSearchQuery(value, query))
+    .slice(0, limit);
+}
@@ -0,0 +1,473 @@
+// Email Templates - Bilingual emails admins edit as markdown with {{variable}}
+// placeholders. Each editable type declares the variables its sender provides,
+// so a saved template can't reference missing data or drop the link the email
+// exists for. Stored templates and their history are in
+// src/lib/services/email-templates.ts; types without a stored template keep
+// the built-in emails.
+
+import type { DigestItem } from '@/lib/notifications';
+import { escapeHtml } from '@/lib/sanitize';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const EDITABLE_EMAIL_TEMPLATES = [
+  'welcome', 'invite', 'password_reset', 'broadcast', 'notification_digest',
+] as const;
+
+export type EditableEmailTemplate = typeof EDITABLE_EMAIL_TEMPLATES[number];
+
+export const EMAIL_TEMPLATE_LABELS: Record<EditableEmailTemplate, { ar: string; en: string }> = {
+  welcome: { ar: 'الترحيب', en: 'Welcome' },
+  invite: { ar: 'الدعوة', en: 'Invite' },
+  password_reset: { ar: 'إعادة تعيين كلمة المرور', en: 'Password reset' },
+  broadcast: { ar: 'البث البريدي', en: 'Broadcast' },
+  notification_digest: { ar: 'ملخص الإشعارات', en: 'Notification digest' },
+};
+
+export interface EmailTemplateVariable {
+  key: string;
+  labelAr: string;
+  /** Must appear in the Arabic body */
+  required?: boolean;
+  /** Pre-rendered HTML inserted as is, on a line of its own */
+  html?: boolean;
+  /** Used by the preview and test sends */
+  sample: string;
+}
+
+export interface EmailTemplateContent {
+  subjectAr: string;
+  subjectEn?: string | null;
+  bodyAr: string;
+  bodyEn?: string | null;
+}
+
+export interface EmailTemplateIssue {
+  field: keyof EmailTemplateContent;
+  message: string;
+  messageAr: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function isEditableEmailTemplate(value: string): value is EditableEmailTemplate {
+  return (EDITABLE_EMAIL_TEMPLATES as readonly string[]).includes(value);
+}
+
+// ============================================
+// VARIABLES
+// ============================================
+
+const SAMPLE_MEETING = `
+<div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+  <h3 style="margin: 0 0 15px 0; color: #1E3A5F;">📅 تفاصيل الاجتماع</h3>
+  <p style="margin: 0; color: #333;">الخميس 5 مارس · الرياض</p>
+</div>`;
+
+const SAMPLE_RSVP = `
+<div style="background: #fff3cd; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+  <h3 style="margin: 0; color: #856404;">🗓️ يرجى تأكيد حضورك</h3>
+</div>`;
+
+export const EMAIL_TEMPLATE_VARIABLES: Record<EditableEmailTemplate, EmailTemplateVariable[]> = {
+  welcome: [
+    { key: 'name', labelAr: 'اسم المستخدم', sample: 'محمد' },
+    { key: 'loginUrl', labelAr: 'رابط الدخول', required: true, sample: 'https://alshaye.com/login' },
+  ],
+  invite: [
+    { key: 'inviterName', labelAr: 'اسم صاحب الدعوة', sample: 'عبدالله آل شايع' },
+    { key: 'inviteUrl', labelAr: 'رابط قبول الدعوة', required: true, sample: 'https://alshaye.com/invite/abc123' },
+    { key: 'message', labelAr: 'رسالة صاحب الدعوة', sample: 'يسعدنا انضمامك' },
+    { key: 'expiresIn', labelAr: 'مدة الصلاحية', sample: '7 أيام' },
+  ],
+  password_reset: [
+    { key: 'resetUrl', labelAr: 'رابط إعادة التعيين', required: true, sample: 'https://alshaye.com/reset-password?token=abc123' },
+    { key: 'expiresIn', labelAr: 'مدة الصلاحية', sample: '1 ساعة' },
+  ],
+  broadcast: [
+    { key: 'memberName', labelAr: 'اسم المستلم', sample: 'محمد' },
+    { key: 'typeLabel', labelAr: 'نوع البث', sample: 'إعلان' },
+    { key: 'titleAr', labelAr: 'العنوان بالعربية', sample: 'تحديث شجرة العائلة' },
+    { key: 'titleEn', labelAr: 'العنوان بالإنجليزية', sample: 'Family tree update' },
+    { key: 'contentAr', labelAr: 'المحتوى بالعربية', required: true, html: true, sample: '<p>تمت إضافة فرع جديد إلى الشجرة.</p>' },
+    { key: 'contentEn', labelAr: 'المحتوى بالإنجليزية', html: true, sample: '<p>A new branch was added to the tree.</p>' },
+    { key: 'meetingDetails', labelAr: 'تفاصيل الاجتماع', html: true, sample: SAMPLE_MEETING },
+    { key: 'rsvpButtons', labelAr: 'أزرار الرد', html: true, sample: SAMPLE_RSVP },
+    { key: 'unsubscribeUrl', labelAr: 'رابط إلغاء الاشتراك', required: true, sample: 'https://alshaye.com/unsubscribe?email=a%40b.com' },
+  ],
+  notification_digest: [
+    { key: 'name', labelAr: 'اسم المستخدم', sample: 'محمد' },
+    {
+      key: 'items',
+      labelAr: 'قائمة الإشعارات',
+      required: true,
+      html: true,
+      sample: renderDigestItems([
+        { titleAr: 'فرد جديد في فرعك', messageAr: 'تمت إضافة سارة إلى الشجرة', linkUrl: 'https://alshaye.com/member/P100' },
+        { titleAr: 'تمت الموافقة على طلبك', messageAr: 'تم تحديث بيانات والدك', linkUrl: null },
+      ]),
+    },
+    { key: 'inboxUrl', labelAr: 'رابط صندوق الإشعارات', sample: 'https://alshaye.com/notifications' },
+    { key: 'preferencesUrl', labelAr: 'رابط التفضيلات', sample: 'https://alshaye.com/settings/notifications' },
+  ],
+};
+
+export function sampleTemplateData(type: EditableEmailTemplate): Record<string, string> {
+  return Object.fromEntries(EMAIL_TEMPLATE_VARIABLES[type].map(variable => [variable.key, variable.sample]));
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+/** Starting point for each editable type, matching the built-in emails */
+export const DEFAULT_EMAIL_TEMPLATES: Record<EditableEmailTemplate, EmailTemplateContent> = {
+  welcome: {
+    subjectAr: 'مرحباً بك في شجرة عائلة آل شايع',
+    subjectEn: 'Welcome to Al-Shaye Family Tree',
+    bodyAr: [
+      '## مرحباً {{name}}!',
+      'نرحب بك في منصة شجرة عائلة آل شايع. نحن سعداء بانضمامك إلى مجتمعنا.',
+      'يمكنك الآن استكشاف شجرة العائلة، والتعرف على أفراد العائلة، والمساهمة في إثراء المحتوى.',
+      '[دخول إلى حسابك]({{loginUrl}})',
+      '---',
+      'هذه الرسالة آلية، يرجى عدم الرد عليها.',
+    ].join('\n\n'),
+    bodyEn: null,
+  },
+  invite: {
+    subjectAr: 'دعوة للانضمام إلى شجرة عائلة آل شايع',
+    subjectEn: 'Invitation',
+    bodyAr: [
+      '## دعوة للانضمام',
+      'تمت دعوتك من قبل **{{inviterName}}** للانضمام إلى منصة شجرة عائلة آل شايع.',
+      '{{#message}}\n> {{message}}\n{{/message}}',
+      '[قبول الدعوة]({{inviteUrl}})',
+      '{{#expiresIn}}\nتنتهي هذه الدعوة خلال {{expiresIn}}.\n{{/expiresIn}}',
+    ].join('\n\n'),
+    bodyEn: null,
+  },
+  password_reset: {
+    subjectAr: 'إعادة تعيين كلمة المرور',
+    subjectEn: 'Password Reset',
+    bodyAr: [
+      '## إعادة تعيين كلمة المرور',
+      'تم طلب إعادة تعيين كلمة المرور لحسابك. إذا لم تقم بهذا الطلب، يمكنك تجاهل هذه الرسالة.',
+      '[إعادة تعيين كلمة المرور]({{resetUrl}})',
+      '{{#expiresIn}}\nينتهي هذا الرابط خلال {{expiresIn}}.\n{{/expiresIn}}',
+    ].join('\n\n'),
+    bodyEn: null,
+  },
+  broadcast: {
+    subjectAr: '{{typeLabel}}: {{titleAr}}',
+    subjectEn: null,
+    bodyAr: [
+      '## {{titleAr}}',
+      'السلام عليكم **{{memberName}}**،',
+      '{{contentAr}}',
+      '{{meetingDetails}}',
+      '{{rsvpButtons}}',
+      '---',
+      'هذه الرسالة أرسلت إلى أفراد عائلة آل شايع · [إلغاء الاشتراك]({{unsubscribeUrl}})',
+    ].join('\n\n'),
+    bodyEn: '{{#contentEn}}\n### {{titleEn}}\n\n{{contentEn}}\n{{/contentEn}}',
+  },
+  notification_digest: {
+    subjectAr: 'ملخص الإشعارات اليومي',
+    subjectEn: 'Daily notification digest',
+    bodyAr: [
+      '## مرحباً {{name}}',
+      '{{items}}',
+      '[صندوق الإشعارات]({{inboxUrl}})',
+      '---',
+      'يمكنك تغيير تفضيلات الإشعارات من [الإعدادات]({{preferencesUrl}}).',
+    ].join('\n\n'),
+    bodyEn: null,
+  },
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const PLACEHOLDER = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+const FIELD_LABELS: Record<keyof EmailTemplateContent, string> = {
+  subjectAr: 'الموضوع بالعربية',
+  subjectEn: 'الموضوع بالإنجليزية',
+  bodyAr: 'النص بالعربية',
+  bodyEn: 'النص بالإنجليزية',
+};
+
+/**
+ * Variables a template text uses, sections included
+ */
+export function templateVariables(text: string | null | undefined): string[] {
+  const keys = new Set<string>();
+  for (const match of (text || '').matchAll(PLACEHOLDER)) keys.add(match[2]);
+  return Array.from(keys);
+}
+
+/**
+ * Problems that would stop a template rendering as intended: unknown
+ * variables, unbalanced sections, HTML variables in a subject or mid-line,
+ * and required variables missing from the Arabic body
+ */
+export function validateEmailTemplate(
+  type: EditableEmailTemplate,
+  content: EmailTemplateContent
+): EmailTemplateIssue[] {
+  const variables = new Map(EMAIL_TEMPLATE_VARIABLES[type].map(variable => [variable.key, variable]));
+  const issues: EmailTemplateIssue[] = [];
+  const fields = Object.keys(FIELD_LABELS) as (keyof EmailTemplateContent)[];
+
+  for (const field of fields) {
+    const text = content[field] || '';
+    const isSubject = field.startsWith('subject');
+    const open = new Map<string, number>();
+
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      const [placeholder, marker, key] = match;
+      const variable = variables.get(key);
+      if (!variable) {
+        issues.push({
+          field,
+          message: `Unknown variable ${placeholder}`,
+          messageAr: `متغير غير معروف ${placeholder} في ${FIELD_LABELS[field]}`,
+        });
+        continue;
+      }
+      if (marker) {
+        open.set(key, (open.get(key) || 0) + (marker === '#' ? 1 : -1));
+      } else if (variable.html && isSubject) {
+        issues.push({
+          field,
+          message: `${placeholder} contains HTML and can't be used in the subject`,
+          messageAr: `لا يمكن استخدام ${placeholder} في الموضوع`,
+        });
+      }
+    }
+
+    for (const [key, balance] of open) {
+      if (balance !== 0) {
+        issues.push({
+          field,
+          message: `Section {{#${key}}} is not closed with {{/${key}}}`,
+          messageAr: `القسم {{#${key}}} غير مغلق بـ {{/${key}}} في ${FIELD_LABELS[field]}`,
+        });
+      }
+    }
+
+    if (!isSubject) {
+      for (const line of text.split('\n')) {
+        for (const [placeholder, marker, key] of line.matchAll(PLACEHOLDER)) {
+          if (!marker && variables.get(key)?.html && line.trim() !== placeholder) {
+            issues.push({
+              field,
+              message: `{{${key}}} must be on a line of its own`,
+              messageAr: `يجب أن يكون {{${key}}} في سطر مستقل في ${FIELD_LABELS[field]}`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  const usedInBody = new Set(templateVariables(content.bodyAr));
+  for (const variable of variables.values()) {
+    if (variable.required && !usedInBody.has(variable.key)) {
+      issues.push({
+        field: 'bodyAr',
+        message: `{{${variable.key}}} is required in the Arabic body`,
+        messageAr: `المتغير {{${variable.key}}} (${variable.labelAr}) مطلوب في النص بالعربية`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function isPresent(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '' && value !== false;
+}
+
+// Keeps {{#key}}…{{/key}} content only when the variable has a value
+function applySections(text: string, data: Record<string, unknown>): string {
+  return text.replace(SECTION, (_, key: string, inner: string) => (isPresent(data[key]) ? inner : ''));
+}
+
+function substitute(
+  text: string,
+  type: EditableEmailTemplate,
+  data: Record<string, unknown>,
+  format: 'html' | 'text'
+): string {
+  const variables = new Map(EMAIL_TEMPLATE_VARIABLES[type].map(variable => [variable.key, variable]));
+  return text.replace(PLACEHOLDER, (_, marker: string, key: string) => {
+    const variable = variables.get(key);
+    if (marker || !variable || !isPresent(data[key])) return '';
+    const value = String(data[key]);
+    if (variable.html) return format === 'html' ? value : htmlToText(value);
+    return format === 'html' ? escapeHtml(value) : value;
+  });
+}
+
+const LINK = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+const BUTTON = /^\[([^\]]+)\]\(([^)\s]+)\)$/;
+const LONE_PLACEHOLDER = /^\{\{\s*\w+\s*\}\}$/;
+
+function inlineHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(LINK, '<a href="$2" style="color: #1E3A5F;">$1</a>')
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>');
+}
+
+function inlineText(text: string): string {
+  return text
+    .replace(LINK, '$1 ($2)')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\*(.+?)\*/g, '$1');
+}
+
+function markdownBlocks(markdown: string): string[] {
+  return markdown.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+}
+
+function markdownToHtml(markdown: string): string {
+  return markdownBlocks(markdown).map(block => {
+    const lines = block.split('\n').map(line => line.trim());
+    if (/^-{3,}$/.test(block)) {
+      return '<hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">';
+    }
+    const heading = block.match(/^(#{1,3})\s+(.*)$/);
+    if (heading && lines.length === 1) {
+      return heading[1].length < 3
+        ? `<h2 style="color: #1E3A5F; margin-top: 0;">${inlineHtml(heading[2])}</h2>`
+        : `<h3 style="color: #1E3A5F;">${inlineHtml(heading[2])}</h3>`;
+    }
+    if (lines.every(line => line.startsWith('- '))) {
+      const items = lines.map(line => `<li style="margin-bottom: 8px;">${inlineHtml(line.slice(2))}</li>`);
+      return `<ul style="color: #666; line-height: 1.8;">${items.join('')}</ul>`;
+    }
+    if (lines.every(line => line.startsWith('>'))) {
+      const quote = lines.map(line => inlineHtml(line.replace(/^>\s?/, ''))).join('<br>');
+      return `<p style="color: #666; line-height: 1.8; background: #f8f9fa; padding: 15px; border-radius: 8px;">${quote}</p>`;
+    }
+    if (LONE_PLACEHOLDER.test(block)) {
+      return block;
+    }
+    const button = block.match(BUTTON);
+    if (button) {
+      return `
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(button[2])}" style="background: #1E3A5F; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">${inlineHtml(button[1])}</a>
+        </div>`;
+    }
+    return `<p style="color: #666; line-height: 1.8;">${lines.map(inlineHtml).join('<br>')}</p>`;
+  }).join('\n');
+}
+
+function markdownToText(markdown: string): string {
+  return markdownBlocks(markdown).map(block => {
+    if (/^-{3,}$/.test(block)) return '---';
+    const button = block.match(BUTTON);
+    if (button) return `${button[1]}: ${button[2]}`;
+    return block
+      .split('\n')
+      .map(line => inlineText(line.trim().replace(/^#{1,3}\s+/, '').replace(/^>\s?/, '')))
+      .join('\n');
+  }).join('\n\n');
+}
+
+function emailLayout(bodyAr: string, bodyEn: string | null): string {
+  return `
+    <div dir="rtl" style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #1E3A5F 0%, #2D5A87 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+        <h1 style="margin: 0; font-size: 28px;">شجرة عائلة آل شايع</h1>
+        <p style="margin: 10px 0 0; opacity: 0.9;">Al-Shaye Family Tree</p>
+      </div>
+      <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+        ${bodyAr}
+        ${bodyEn ? `
+        <div dir="ltr" style="text-align: left; margin-top: 20px; padding-top: 20px; border-top: 1px solid #eee;">
+          ${bodyEn}
+        </div>` : ''}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Render a template with the sender's data. The English body follows the
+ * Arabic one in a left-to-right section when it has content for this email.
+ */
+export function renderEmailTemplate(
+  type: EditableEmailTemplate,
+  content: EmailTemplateContent,
+  data: Record<string, unknown>
+): RenderedEmail {
+  const bodyAr = applySections(content.bodyAr, data);
+  const bodyEn = applySections(content.bodyEn || '', data);
+  const hasEnglish = markdownBlocks(bodyEn).length > 0;
+
+  const subjectAr = substitute(applySections(content.subjectAr, data), type, data, 'text').trim();
+  const subjectEn = substitute(applySections(content.subjectEn || '', data), type, data, 'text').trim();
+
+  const html = emailLayout(
+    substitute(markdownToHtml(bodyAr), type, data, 'html'),
+    hasEnglish ? substitute(markdownToHtml(bodyEn), type, data, 'html') : null
+  );
+  const text = [markdownToText(bodyAr), hasEnglish ? markdownToText(bodyEn) : '']
+    .filter(Boolean)
+    .map(part => substitute(part, type, data, 'text'))
+    .join('\n\n---\n\n');
+
+  return {
+    subject: subjectEn ? `${subjectAr} - ${subjectEn}` : subjectAr,
+    html,
+    text: text.trim(),
+  };
+}
+
+/**
+ * Digest items as the HTML list the notification_digest template inserts
+ */
+export function renderDigestItems(items: DigestItem[]): string {
+  const rows = items.map(item => {
+    const title = item.linkUrl
+      ? `<a href="${escapeHtml(item.linkUrl)}" style="color: #1E3A5F;">${escapeHtml(item.titleAr)}</a>`
+      : escapeHtml(item.titleAr);
+    return `<li style="margin-bottom: 12px;"><strong>${title}</strong><br>${escapeHtml(item.messageAr)}</li>`;
+  });
+  return `<ul style="color: #666; line-height: 1.8; padding-right: 20px;">${rows.join('')}</ul>`;
+}
@@ -0,0 +1,321 @@
+/**
+ * Email Tracking and Provider Webhooks for آل شايع Family Tree
+ *
+ * Broadcast emails carry a tracking pixel and have their links rewritten to
+ * a redirect route. Both URLs are signed with HMAC-SHA256 over the broadcast,
+ * recipient and target, so they can't be forged to inflate counts or to turn
+ * the redirect into an open redirect.
+ *
+ * Delivery, bounce and complaint events from Resend, SendGrid and Mailgun are
+ * verified with each provider's signing scheme and parsed into one shape.
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const EMAIL_WEBHOOK_PROVIDERS = ['resend', 'sendgrid', 'mailgun'] as const;
+export type EmailWebhookProvider = typeof EMAIL_WEBHOOK_PROVIDERS[number];
+
+export type DeliveryEventType = 'DELIVERED' | 'BOUNCED' | 'COMPLAINED';
+export type BounceType = 'HARD' | 'SOFT';
+
+export interface DeliveryEvent {
+  provider: EmailWebhookProvider;
+  type: DeliveryEventType;
+  email: string;
+  /** Provider message id, normalized with normalizeMessageId */
+  messageId: string | null;
+  bounceType?: BounceType;
+  detail?: string;
+  occurredAt: Date;
+}
+
+export interface TrackingTarget {
+  baseUrl: string;
+  broadcastId: string;
+  recipientId: string;
+}
+
+// Webhooks older than this are rejected as replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// 1x1 transparent GIF
+export const TRACKING_PIXEL_GIF = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64'
+);
+
+// ============================================
+// SIGNED TRACKING URLS
+// ============================================
+
+function getTrackingSecret(): string {
+  const secret = process.env.EMAIL_TRACKING_SECRET || process.env.ENCRYPTION_SECRET || process.env.JWT_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('CRITICAL: EMAIL_TRACKING_SECRET, ENCRYPTION_SECRET or JWT_SECRET must be set in production.');
+  }
+  return secret || 'dev-only-secret-not-for-production';
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Signature over the tracking parameters, in order
+ */
+export function signTrackingParams(...parts: string[]): string {
+  return createHmac('sha256', getTrackingSecret()).update(parts.join('\n')).digest('base64url');
+}
+
+export function verifyTrackingParams(signature: string | null, ...parts: string[]): boolean {
+  return !!signature && safeEqual(signature, signTrackingParams(...parts));
+}
+
+export function buildOpenTrackingUrl({ baseUrl, broadcastId, recipientId }: TrackingTarget): string {
+  const params = new URLSearchParams({
+    r: recipientId,
+    s: signTrackingParams('open', broadcastId, recipientId),
+  });
+  return `${baseUrl}/api/broadcasts/${broadcastId}/track/open?${params}`;
+}
+
+export function buildClickTrackingUrl({ baseUrl, broadcastId, recipientId }: TrackingTarget, url: string): string {
+  const params = new URLSearchParams({
+    r: recipientId,
+    u: url,
+    s: signTrackingParams('click', broadcastId, recipientId, url),
+  });
+  return `${baseUrl}/api/broadcasts/${broadcastId}/track/click?${params}`;
+}
+
+/**
+ * Whether a link may be tracked. Unsubscribe links must work even when the
+ * tracking route is blocked, and only web links can be redirected to.
+ */
+export function isTrackableLink(url: string): boolean {
+  return /^https?:\/\//i.test(url) && !/\/unsubscribe\b/i.test(url);
+}
+
+function decodeHrefEntities(href: string): string {
+  return href.replace(/&amp;/g, '&').replace(/&#0*39;/g, "'").replace(/&quot;/g, '"');
+}
+
+/**
+ * Point every trackable href in the HTML at the click redirect
+ */
+export function rewriteTrackedLinks(html: string, target: TrackingTarget): string {
+  return html.replace(/(<a\b[^>]*?\shref=)(["'])(.*?)\2/gi, (match, prefix: string, quote: string, href: string) => {
+    const url = decodeHrefEntities(href.trim());
+    if (!isTrackableLink(url)) return match;
+    const tracked = buildClickTrackingUrl(target, url).replace(/&/g, '&amp;');
+    return `${prefix}${quote}${tracked}${quote}`;
+  });
+}
+
+/**
+ * Rewrite links and append the open pixel
+ */
+export function addEmailTracking(html: string, target: TrackingTarget): string {
+  const pixelUrl = buildOpenTrackingUrl(target).replace(/&/g, '&amp;');
+  const pixel = `<img src="${pixelUrl}" width="1" height="1" alt="" style="display: block; width: 1px; height: 1px; border: 0;">`;
+  return `${rewriteTrackedLinks(html, target)}${pixel}`;
+}
+
+// ============================================
+// WEBHOOK SIGNATURES
+// ============================================
+
+function isFresh(timestampSeconds: number, now: Date): boolean {
+  return Number.isFinite(timestampSeconds)
+    && Math.abs(now.getTime() / 1000 - timestampSeconds) <= WEBHOOK_TOLERANCE_SECONDS;
+}
+
+/**
+ * Resend signs webhooks with Svix: base64 HMAC-SHA256 of "id.timestamp.body"
+ * keyed with the base64 part of the whsec_ secret. The signature header may
+ * list several space-separated "v1,<signature>" entries.
+ */
+export function verifyResendSignature(
+  secret: string,
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  body: string,
+  now: Date = new Date()
+): boolean {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature || !isFresh(Number(timestamp), now)) return false;
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64');
+  return signature.split(' ').some(entry => {
+    const [version, value] = entry.split(',');
+    return version === 'v1' && !!value && safeEqual(value, expected);
+  });
+}
+
+/**
+ * SendGrid signs the event webhook with ECDSA over "timestamp + body". The
+ * verification key from the SendGrid settings is base64 DER; PEM also works.
+ */
+export function verifySendGridSignature(
+  publicKey: string,
+  headers: { signature: string | null; timestamp: string | null },
+  body: string,
+  now: Date = new Date()
+): boolean {
+  const { signature, timestamp } = headers;
+  if (!signature || !timestamp || !isFresh(Number(timestamp), now)) return false;
+
+  try {
+    const key = publicKey.includes('BEGIN PUBLIC KEY')
+      ? createPublicKey(publicKey)
+      : createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return verify('sha256', Buffer.from(timestamp + body), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Mailgun puts { timestamp, token, signature } in the payload; the signature
+ * is hex HMAC-SHA256 of timestamp + token keyed with the webhook signing key.
+ */
+export function verifyMailgunSignature(
+  signingKey: string,
+  payload: { timestamp?: string; token?: string; signature?: string } | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!payload?.timestamp || !payload.token || !payload.signature) return false;
+  if (!isFresh(Number(payload.timestamp), now)) return false;
+
+  const expected = createHmac('sha256', signingKey).update(payload.timestamp + payload.token).digest('hex');
+  return safeEqual(payload.signature, expected);
+}
+
+// ============================================
+// WEBHOOK EVENTS
+// ============================================
+
+/**
+ * Message ids as stored on EmailLog: without the angle brackets Mailgun and
+ * SMTP add, and without the per-recipient suffix SendGrid appends in events
+ */
+export function normalizeMessageId(id: string | null | undefined, provider?: EmailWebhookProvider): string | null {
+  if (!id) return null;
+  const bare = id.trim().replace(/^<|>$/g, '');
+  return provider === 'sendgrid' ? bare.split('.')[0] : bare;
+}
+
+function toDate(value: unknown): Date {
+  if (typeof value === 'number') return new Date(value * 1000);
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Resend: one event per request, { type: 'email.bounced', created_at, data }
+ */
+export function parseResendEvents(payload: unknown): DeliveryEvent[] {
+  const event = asRecord(payload);
+  const data = asRecord(event.data);
+  const types: Record<string, DeliveryEventType> = {
+    'email.delivered': 'DELIVERED',
+    'email.bounced': 'BOUNCED',
+    'email.complained': 'COMPLAINED',
+  };
+  const type = types[String(event.type)];
+  if (!type) return [];
+
+  const bounce = asRecord(data.bounce);
+  const recipients = Array.isArray(data.to) ? data.to.map(String) : [String(data.to ?? '')];
+  return recipients.filter(Boolean).map(email => ({
+    provider: 'resend',
+    type,
+    email: email.toLowerCase(),
+    messageId: normalizeMessageId(data.email_id as string | undefined),
+    ...(type === 'BOUNCED' && {
+      bounceType: bounce.type === 'Transient' ? 'SOFT' : 'HARD',
+      detail: (bounce.message as string | undefined) || undefined,
+    }),
+    occurredAt: toDate(event.created_at),
+  }));
+}
+
+/**
+ * SendGrid: batches of events. "blocked" bounces are temporary rejections.
+ */
+export function parseSendGridEvents(payload: unknown): DeliveryEvent[] {
+  if (!Array.isArray(payload)) return [];
+
+  return payload.flatMap((raw): DeliveryEvent[] => {
+    const event = asRecord(raw);
+    const types: Record<string, DeliveryEventType> = {
+      delivered: 'DELIVERED',
+      bounce: 'BOUNCED',
+      spamreport: 'COMPLAINED',
+    };
+    const type = types[String(event.event)];
+    if (!type || !event.email) return [];
+
+    return [{
+      provider: 'sendgrid',
+      type,
+      email: String(event.email).toLowerCase(),
+      messageId: normalizeMessageId(event.sg_message_id as string | undefined, 'sendgrid'),
+      ...(type === 'BOUNCED' && {
+        bounceType: event.type === 'blocked' ? 'SOFT' : 'HARD',
+        detail: (event.reason as string | undefined) || undefined,
+      }),
+      occurredAt: toDate(event.timestamp),
+    }];
+  });
+}
+
+/**
+ * Mailgun: one event per request under "event-data". Failures are bounces;
+ * only permanent ones are hard.
+ */
+export function parseMailgunEvents(payload: unknown): DeliveryEvent[] {
+  const event = asRecord(asRecord(payload)['event-data']);
+  const types: Record<string, DeliveryEventType> = {
+    delivered: 'DELIVERED',
+    failed: 'BOUNCED',
+    complained: 'COMPLAINED',
+  };
+  const type = types[String(event.event)];
+  if (!type || !event.recipient) return [];
+
+  const headers = asRecord(asRecord(event.message).headers);
+  const status = asRecord(event['delivery-status']);
+  return [{
+    provider: 'mailgun',
+    type,
+    email: String(event.recipient).toLowerCase(),
+    messageId: normalizeMessageId(headers['message-id'] as string | undefined),
+    ...(type === 'BOUNCED' && {
+      bounceType: event.severity === 'permanent' ? 'HARD' : 'SOFT',
+      detail: (status.description as string | undefined) || (status.message as string | undefined) || undefined,
+    }),
+    occurredAt: toDate(event.timestamp),
+  }];
+}
+
+export function parseDeliveryEvents(provider: EmailWebhookProvider, payload: unknown): DeliveryEvent[] {
+  switch (provider) {
+    case 'resend':
+      return parseResendEvents(payload);
+    case 'sendgrid':
+      return parseSendGridEvents(payload);
+    case 'mailgun':
+      return parseMailgunEvents(payload);
+  }
+}
@@ -3,7 +3,8 @@
  * Uses AES-256-GCM for authenticated encryption
  */
 
-import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, scryptSync, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
 
 // Encryption algorithm
 const ALGORITHM = 'aes-256-gcm';
@@ -184,20 +185,24 @@ export function generateApiKey(prefix: string = 'sk', length: number = 32): stri
   return `${prefix}_${randomPart}`;
 }
 
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
 /**
- * Hashes an API key for storage (one-way, for verification only)
+ * Hashes an API key for storage (one-way, for verification only).
+ * Runs off the event loop, as keys are hashed on every request.
  */
-export function hashApiKey(apiKey: string): string {
+export async function hashApiKey(apiKey: string): Promise<string> {
   const salt = process.env.ENCRYPTION_SALT || 'family-tree-salt';
-  return scryptSync(apiKey, salt, 32).toString('hex');
+  return (await scryptAsync(apiKey, salt, 32)).toString('hex');
 }
 
 /**
- * Verifies an API key against its hash
+ * Verifies an API key against its hash in constant time
  */
-export function verifyApiKeyHash(apiKey: string, hash: string): boolean {
-  const newHash = hashApiKey(apiKey);
-  return newHash === hash;
+export async function verifyApiKeyHash(apiKey: string, hash: string): Promise<boolean> {
+  const newHash = Buffer.from(await hashApiKey(apiKey));
+  const expected = Buffer.from(hash);
+  return newHash.length === expected.length && timingSafeEqual(newHash, expected);
 }
 
 /**
@@ -1,6 +1,9 @@
 // آل شايع Family Tree - Export Utilities
 
-import { FamilyMember, ExportField, ExportOptions, TreeNode } from './types';
+import { CalendarPreference, DatePrecision, FamilyMember, ExportField, ExportOptions, GedcomVersion, Marriage, TreeNode } from './types';
+import { getMotherKey, getWifeKey, UNKNOWN_MOTHER_KEY } from './lineage';
+import { formatDualYear, gregorianYearToHijri } from './hijri';
+import { isExcludedFromExports, toPlaceholderMember } from './privacy';
 
 // ============================================
 // EXPORT FIELD DEFINITIONS
@@ -28,6 +31,10 @@ export const ALL_EXPORT_FIELDS: ExportField[] = [
   // Personal fields
   { key: 'birthYear', label: 'Birth Year', labelAr: 'سنة الميلاد', selected: true, category: 'personal' },
   { key: 'deathYear', label: 'Death Year', labelAr: 'سنة الوفاة', selected: false, category: 'personal' },
+  { key: 'birthYearHijri', label: 'Birth Year (AH)', labelAr: 'سنة الميلاد (هجري)', selected: false, category: 'personal' },
+  { key: 'deathYearHijri', label: 'Death Year (AH)', labelAr: 'سنة الوفاة (هجري)', selected: false, category: 'personal' },
+  { key: 'birthYearPrecision', label: 'Birth Year Precision', labelAr: 'دقة سنة الميلاد', selected: false, category: 'personal' },
+  { key: 'deathYearPrecision', label: 'Death Year Precision', labelAr: 'دقة سنة الوفاة', selected: false, category: 'personal' },
   { key: 'status', label: 'Status', labelAr: 'الحالة', selected: true, category: 'personal' },
   { key: 'occupation', label: 'Occupation', labelAr: 'المهنة', selected: true, category: 'personal' },
   { key: 'biography', label: 'Biography', labelAr: 'السيرة', selected: false, category: 'personal' },
@@ -51,6 +58,18 @@ export const FIELD_CATEGORIES = {
   meta: { label: 'Metadata', labelAr: 'البيانات الوصفية' },
 };
 
+// ============================================
+// PRIVACY
+// ============================================
+
+/**
+ * Members who opted out of exports keep their place in the tree as
+ * placeholders. Every exporter below calls this first.
+ */
+export function prepareMembersForExport(members: FamilyMember[]): FamilyMember[] {
+  return members.map(member => (isExcludedFromExports(member) ? toPlaceholderMember(member) : member));
+}
+
 // ============================================
 // TREE BUILDING FOR EXPORT
 // ============================================
@@ -95,6 +114,7 @@ export function exportToJSON(
   members: FamilyMember[],
   options: ExportOptions
 ): string {
+  members = prepareMembersForExport(members);
   const selectedKeys = options.fields
     .filter(f => f.selected)
     .map(f => f.key);
@@ -170,6 +190,7 @@ export function exportToCSV(
   members: FamilyMember[],
   options: ExportOptions
 ): string {
+  members = prepareMembersForExport(members);
   const selectedFields = options.fields.filter(f => f.selected);
 
   // UTF-8 BOM for Excel compatibility
@@ -232,7 +253,11 @@ export function exportToCSV(
 // HUMAN-READABLE TEXT EXPORT (for tree view)
 // ============================================
 
-export function exportToReadableText(members: FamilyMember[]): string {
+export function exportToReadableText(
+  members: FamilyMember[],
+  calendar: CalendarPreference = 'gregorian'
+): string {
+  members = prepareMembersForExport(members);
   const tree = buildTreeForExport(members);
   const lines: string[] = [];
 
@@ -269,8 +294,10 @@ export function exportToReadableText(members: FamilyMember[]): string {
           lines.push(`  ${genderIcon} ${member.fullNameAr || member.firstName}`);
           lines.push(`     رقم: ${member.id} │ الفرع: ${member.branch || '-'}`);
 
-          if (member.birthYear) {
-            lines.push(`     الميلاد: ${member.birthYear}${member.status === 'Deceased' ? ` - الوفاة: ${member.deathYear || '؟'}` : ''}`);
+          if (member.birthYear || member.birthYearHijri) {
+            const birth = formatDualYear(member.birthYear, member.birthYearHijri, member.birthYearPrecision, calendar);
+            const death = formatDualYear(member.deathYear, member.deathYearHijri, member.deathYearPrecision, calendar);
+            lines.push(`     الميلاد: ${birth}${member.status === 'Deceased' ? ` - الوفاة: ${death || '؟'}` : ''}`);
           }
 
           if (member.city || member.occupation) {
@@ -333,6 +360,7 @@ export function exportToHTML(
   members: FamilyMember[],
   options: ExportOptions
 ): string {
+  members = prepareMembersForExport(members);
   const selectedFields = options.fields.filter(f => f.selected);
   const tree = buildTreeForExport(members);
 
@@ -520,7 +548,7 @@ export function exportToHTML(
                   <div class="member-name">${member.fullNameAr || member.firstName}</div>
                   <div class="member-id">${member.id} │ ${member.branch || 'الأصل'}</div>
                   <div class="member-details">
-                    ${member.birthYear ? `الميلاد: ${member.birthYear}` : ''}
+                    ${member.birthYear || member.birthYearHijri ? `الميلاد: ${formatDualYear(member.birthYear, member.birthYearHijri, member.birthYearPrecision, options.calendar)}` : ''}
                     ${member.status === 'Deceased' ? ' │ متوفى' : ''}
                     ${member.city ? `<br>المدينة: ${member.city}` : ''}
                     ${member.occupation ? `<br>المهنة: ${member.occupation}` : ''}
@@ -551,6 +579,272 @@ export function exportToHTML(
   `.trim();
 }
 
+// ============================================
+// GEDCOM EXPORT
+// ============================================
+
+const GEDCOM_MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// GEDCOM 5.5.1 limits lines to 255 characters - longer values are split with CONC
+const GEDCOM_MAX_VALUE_LENGTH = 200;
+
+interface GedcomFamily {
+  xref: string;
+  husbandId: string | null;
+  wifeXref: string | null;
+  childIds: string[];
+  marriage: Marriage | null;
+}
+
+function gedcomXref(id: string): string {
+  return `@${id.replace(/[^A-Za-z0-9_]/g, '_')}@`;
+}
+
+function gedcomDate(date: Date): string {
+  return `${date.getDate()} ${GEDCOM_MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+}
+
+/**
+ * Year-only GEDCOM date honoring the recorded precision
+ */
+function gedcomYear(year: number, precision: DatePrecision | undefined): string {
+  if (precision === 'DECADE') {
+    const decade = Math.floor(year / 10) * 10;
+    return `BET ${decade} AND ${decade + 9}`;
+  }
+  return precision === 'APPROXIMATE' ? `ABT ${year}` : String(year);
+}
+
+/**
+ * BIRT/DEAT date lines. The Hijri year is kept in a _HIJR extension tag
+ * since GEDCOM has no Hijri calendar escape.
+ */
+function gedcomEventDate(
+  year: number,
+  hijriYear: number | null | undefined,
+  precision: DatePrecision | undefined
+): string[] {
+  return [`2 DATE ${gedcomYear(year, precision)}`, `2 _HIJR ${hijriYear || gregorianYearToHijri(year)}`];
+}
+
+function escapeGedcomValue(value: string, version: GedcomVersion): string {
+  // 5.5.1 doubles every @, 7.0 only a leading one
+  return version === '5.5.1' ? value.replace(/@/g, '@@') : value.replace(/^@/, '@@');
+}
+
+/**
+ * Write a tag with a (possibly multi-line) value, continuing with CONT/CONC
+ */
+function gedcomLines(
+  level: number,
+  tag: string,
+  value: string | number | null | undefined,
+  version: GedcomVersion
+): string[] {
+  if (value === null || value === undefined || value === '') return [];
+
+  const lines: string[] = [];
+  String(value).split(/\r?\n/).forEach((text, index) => {
+    const escaped = escapeGedcomValue(text, version);
+    const chunks: string[] = [];
+
+    if (version === '5.5.1') {
+      let rest = escaped;
+      while (rest.length > GEDCOM_MAX_VALUE_LENGTH) {
+        // Never split next to a space, readers may trim it
+        let cut = GEDCOM_MAX_VALUE_LENGTH;
+        while (cut > 1 && (rest[cut] === ' ' || rest[cut - 1] === ' ')) cut--;
+        chunks.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      chunks.push(rest);
+    } else {
+      chunks.push(escaped);
+    }
+
+    chunks.forEach((chunk, chunkIndex) => {
+      const lineTag = index === 0 && chunkIndex === 0 ? `${level} ${tag}` : `${level + 1} ${chunkIndex === 0 ? 'CONT' : 'CONC'}`;
+      lines.push(chunk ? `${lineTag} ${chunk}` : lineTag);
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Export members as a GEDCOM file (INDI/FAM records, UTF-8)
+ * Marriages add FAM records for childless couples and marriage/divorce years.
+ * External wives are written as INDI records flagged with _EXT so they are
+ * not imported back as family members.
+ */
+export function exportToGEDCOM(
+  members: FamilyMember[],
+  options: ExportOptions,
+  marriages: Marriage[] = []
+): string {
+  members = prepareMembersForExport(members);
+  const version: GedcomVersion = options.gedcomVersion || '5.5.1';
+  const selectedKeys = new Set(options.fields.filter(f => f.selected).map(f => f.key));
+  const memberIds = new Set(members.map(m => m.id));
+  const lines: string[] = [];
+
+  // Families keyed by father + mother
+  const families = new Map<string, GedcomFamily>();
+  const externalWives = new Map<string, { xref: string; name: string; family: string | null }>();
+
+  const getExternalWifeXref = (motherKey: string, name: string, family: string | null): string => {
+    let wife = externalWives.get(motherKey);
+    if (!wife) {
+      wife = { xref: `@X${externalWives.size + 1}@`, name, family };
+      externalWives.set(motherKey, wife);
+    }
+    return wife.xref;
+  };
+
+  const getFamily = (husbandId: string | null, motherKey: string, wifeXref: string | null): GedcomFamily => {
+    const key = `${husbandId || ''}|${motherKey}`;
+    let family = families.get(key);
+    if (!family) {
+      family = { xref: `@F${families.size + 1}@`, husbandId, wifeXref, childIds: [], marriage: null };
+      families.set(key, family);
+    }
+    return family;
+  };
+
+  const resolveWifeXref = (motherKey: string, externalName: string | null | undefined, externalFamily: string | null): string | null => {
+    if (motherKey === UNKNOWN_MOTHER_KEY) return null;
+    if (memberIds.has(motherKey)) return gedcomXref(motherKey);
+    if (externalName) return getExternalWifeXref(motherKey, externalName.trim(), externalFamily);
+    return null;
+  };
+
+  marriages
+    .filter(m => memberIds.has(m.husbandId))
+    .sort((a, b) => a.wifeOrder - b.wifeOrder)
+    .forEach(marriage => {
+      const motherKey = getWifeKey(marriage);
+      const wifeXref = resolveWifeXref(motherKey, marriage.externalWifeName, marriage.externalWifeFamily);
+      getFamily(marriage.husbandId, motherKey, wifeXref).marriage = marriage;
+    });
+
+  [...members]
+    .sort((a, b) => (a.birthYear || 0) - (b.birthYear || 0))
+    .forEach(child => {
+      const husbandId = child.fatherId && memberIds.has(child.fatherId) ? child.fatherId : null;
+      const motherKey = getMotherKey(child);
+      const wifeXref = resolveWifeXref(motherKey, child.externalMotherName, null);
+      if (!husbandId && !wifeXref) return;
+      getFamily(husbandId, motherKey, wifeXref).childIds.push(child.id);
+    });
+
+  // Header
+  lines.push('0 HEAD');
+  if (version === '7.0') {
+    lines.push('1 GEDC', '2 VERS 7.0');
+  }
+  lines.push('1 SOUR ALSHAYE', '2 NAME ' + escapeGedcomValue('شجرة آل شايع', version));
+  lines.push(`1 DATE ${gedcomDate(new Date())}`);
+  if (version === '5.5.1') {
+    lines.push('1 SUBM @U1@', '1 GEDC', '2 VERS 5.5.1', '2 FORM LINEAGE-LINKED', '1 CHAR UTF-8', '1 LANG Arabic');
+  } else {
+    lines.push('1 LANG ar');
+  }
+
+  // Individuals
+  const familiesAsChild = new Map<string, string>();
+  const familiesAsSpouse = new Map<string, string[]>();
+  families.forEach(family => {
+    family.childIds.forEach(id => familiesAsChild.set(id, family.xref));
+    [family.husbandId ? gedcomXref(family.husbandId) : null, family.wifeXref].forEach(xref => {
+      if (!xref) return;
+      familiesAsSpouse.set(xref, [...(familiesAsSpouse.get(xref) || []), family.xref]);
+    });
+  });
+
+  members.forEach(member => {
+    const xref = gedcomXref(member.id);
+    lines.push(`0 ${xref} INDI`);
+    lines.push(...gedcomLines(1, 'NAME', `${member.firstName} /${member.familyName || ''}/`, version));
+    lines.push(...gedcomLines(2, 'GIVN', member.firstName, version));
+    lines.push(...gedcomLines(2, 'SURN', member.familyName, version));
+    if (member.fullNameEn) {
+      if (version === '5.5.1') {
+        lines.push(...gedcomLines(2, 'ROMN', member.fullNameEn, version), '3 TYPE english');
+      } else {
+        lines.push(...gedcomLines(2, 'TRAN', member.fullNameEn, version), '3 LANG en');
+      }
+    }
+    lines.push(`1 SEX ${member.gender === 'Female' ? 'F' : 'M'}`);
+
+    if (selectedKeys.has('birthYear') && member.birthYear) {
+      lines.push('1 BIRT', ...gedcomEventDate(member.birthYear, member.birthYearHijri, member.birthYearPrecision));
+    }
+    if (member.status === 'Deceased') {
+      if (selectedKeys.has('deathYear') && member.deathYear) {
+        lines.push('1 DEAT', ...gedcomEventDate(member.deathYear, member.deathYearHijri, member.deathYearPrecision));
+      } else {
+        lines.push('1 DEAT Y');
+      }
+    }
+    if (selectedKeys.has('occupation')) {
+      lines.push(...gedcomLines(1, 'OCCU', member.occupation, version));
+    }
+
+    const residence = [
+      ...(selectedKeys.has('city') ? gedcomLines(2, 'PLAC', member.city, version) : []),
+      ...(selectedKeys.has('phone') ? gedcomLines(2, 'PHON', member.phone, version) : []),
+      ...(selectedKeys.has('email') ? gedcomLines(2, 'EMAIL', member.email, version) : []),
+    ];
+    if (residence.length > 0) {
+      lines.push('1 RESI', ...residence);
+    }
+
+    if (selectedKeys.has('biography')) {
+      lines.push(...gedcomLines(1, 'NOTE', member.biography, version));
+    }
+    if (selectedKeys.has('generation')) {
+      lines.push(`1 _GEN ${member.generation}`);
+    }
+
+    const famc = familiesAsChild.get(member.id);
+    if (famc) lines.push(`1 FAMC ${famc}`);
+    (familiesAsSpouse.get(xref) || []).forEach(fams => lines.push(`1 FAMS ${fams}`));
+  });
+
+  externalWives.forEach(wife => {
+    lines.push(`0 ${wife.xref} INDI`);
+    lines.push(...gedcomLines(1, 'NAME', `${wife.name} /${wife.family || ''}/`, version));
+    lines.push(...gedcomLines(2, 'GIVN', wife.name, version));
+    lines.push(...gedcomLines(2, 'SURN', wife.family, version));
+    lines.push('1 SEX F', '1 _EXT Y');
+    (familiesAsSpouse.get(wife.xref) || []).forEach(fams => lines.push(`1 FAMS ${fams}`));
+  });
+
+  // Families
+  families.forEach(family => {
+    lines.push(`0 ${family.xref} FAM`);
+    if (family.husbandId) lines.push(`1 HUSB ${gedcomXref(family.husbandId)}`);
+    if (family.wifeXref) lines.push(`1 WIFE ${family.wifeXref}`);
+    family.childIds.forEach(id => lines.push(`1 CHIL ${gedcomXref(id)}`));
+
+    const marriage = family.marriage;
+    if (marriage) {
+      lines.push(...(marriage.startYear ? ['1 MARR', `2 DATE ${marriage.startYear}`] : ['1 MARR Y']));
+      if (marriage.status === 'DIVORCED') {
+        lines.push(...(marriage.endYear ? ['1 DIV', `2 DATE ${marriage.endYear}`] : ['1 DIV Y']));
+      }
+    }
+  });
+
+  if (version === '5.5.1') {
+    lines.push('0 @U1@ SUBM', '1 NAME ' + escapeGedcomValue('شجرة آل شايع', version));
+  }
+  lines.push('0 TRLR');
+
+  // UTF-8 BOM so desktop genealogy tools detect Arabic text correctly
+  return '\uFEFF' + lines.join('\n') + '\n';
+}
+
 // ============================================
 // DOWNLOAD HELPERS
 // ============================================
@@ -576,6 +870,7 @@ export function getExportFilename(format: string): string {
     case 'CSV': return `${baseName}.csv`;
     case 'PDF': return `${baseName}.html`;
     case 'TXT': return `${baseName}.txt`;
+    case 'GEDCOM': return `${baseName}.ged`;
     default: return `${baseName}.txt`;
   }
 }
@@ -586,6 +881,7 @@ export function getMimeType(format: string): string {
     case 'CSV': return 'text/csv;charset=utf-8';
     case 'PDF': return 'text/html;charset=utf-8';
     case 'TXT': return 'text/plain;charset=utf-8';
+    case 'GEDCOM': return 'text/vnd.familysearch.gedcom;charset=utf-8';
     default: return 'text/plain;charset=utf-8';
   }
 }
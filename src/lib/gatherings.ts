@@ -0,0 +1,146 @@
+// Gatherings - RSVP options, start times and the headcount summary behind
+// the post-event attendance report. Signed RSVP and check-in tokens live in
+// src/lib/services/gatherings.ts; this module stays free of server code so
+// the RSVP and check-in pages can share it.
+
+// ============================================
+// TYPES
+// ============================================
+
+export const GATHERING_RSVP_RESPONSES = ['YES', 'MAYBE', 'NO'] as const;
+
+export type GatheringRsvpResponse = typeof GATHERING_RSVP_RESPONSES[number];
+
+export const GATHERING_RSVP_LABELS: Record<GatheringRsvpResponse | 'PENDING', { ar: string; en: string }> = {
+  YES: { ar: 'سأحضر', en: 'Attending' },
+  MAYBE: { ar: 'ربما', en: 'Maybe' },
+  NO: { ar: 'لن أحضر', en: 'Not attending' },
+  PENDING: { ar: 'لم يرد', en: 'No response' },
+};
+
+/** Guests one attendee can bring along */
+export const GATHERING_MAX_PLUS_ONES = 10;
+
+export interface AttendanceRow {
+  rsvpStatus: string;
+  plusOnes: number;
+  attended: boolean;
+  invitedAt?: Date | null;
+  /** Gen 2 lineage branch of the attendee's member record */
+  branchId?: string | null;
+  branchName?: string | null;
+}
+
+export interface AttendanceTotals {
+  invited: number;
+  yes: number;
+  maybe: number;
+  no: number;
+  pending: number;
+  /** Attendees who said yes plus the guests they're bringing */
+  expectedHeadcount: number;
+  attended: number;
+  /** Attendees checked in plus the guests they registered */
+  attendedHeadcount: number;
+  /** Said yes but weren't checked in */
+  noShows: number;
+  /** Checked in without having said yes */
+  walkIns: number;
+}
+
+export interface BranchAttendance extends AttendanceTotals {
+  branchId: string | null;
+  branchName: string | null;
+}
+
+export interface AttendanceSummary {
+  totals: AttendanceTotals;
+  /** One entry per branch, attendees without a branch last */
+  branches: BranchAttendance[];
+}
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+/**
+ * When a gathering starts: its date at the "HH:mm" time in Riyadh, or the
+ * date alone when no valid time is set
+ */
+export function gatheringStartsAt(date: Date, time?: string | null): Date {
+  const match = time?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return date;
+  // Riyadh is UTC+3 all year
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), Number(match[1]) - 3, Number(match[2])));
+}
+
+// ============================================
+// ATTENDANCE
+// ============================================
+
+function emptyTotals(): AttendanceTotals {
+  return {
+    invited: 0,
+    yes: 0,
+    maybe: 0,
+    no: 0,
+    pending: 0,
+    expectedHeadcount: 0,
+    attended: 0,
+    attendedHeadcount: 0,
+    noShows: 0,
+    walkIns: 0,
+  };
+}
+
+function addRow(totals: AttendanceTotals, row: AttendanceRow): void {
+  const guests = Math.max(0, row.plusOnes || 0);
+  if (row.invitedAt) totals.invited++;
+
+  switch (row.rsvpStatus) {
+    case 'YES':
+      totals.yes++;
+      totals.expectedHeadcount += 1 + guests;
+      if (!row.attended) totals.noShows++;
+      break;
+    case 'MAYBE':
+      totals.maybe++;
+      break;
+    case 'NO':
+      totals.no++;
+      break;
+    default:
+      totals.pending++;
+  }
+
+  if (row.attended) {
+    totals.attended++;
+    totals.attendedHeadcount += 1 + guests;
+    if (row.rsvpStatus !== 'YES') totals.walkIns++;
+  }
+}
+
+/**
+ * Headcount totals for a gathering, overall and per lineage branch
+ */
+export function summarizeAttendance(rows: AttendanceRow[]): AttendanceSummary {
+  const totals = emptyTotals();
+  const byBranch = new Map<string, BranchAttendance>();
+
+  for (const row of rows) {
+    addRow(totals, row);
+    const key = row.branchId || '';
+    let branch = byBranch.get(key);
+    if (!branch) {
+      branch = { branchId: row.branchId || null, branchName: row.branchId ? row.branchName || null : null, ...emptyTotals() };
+      byBranch.set(key, branch);
+    }
+    addRow(branch, row);
+  }
+
+  const branches = Array.from(byBranch.values()).sort((a, b) => {
+    if (!a.branchId || !b.branchId) return a.branchId ? -1 : b.branchId ? 1 : 0;
+    return (a.branchName || '').localeCompare(b.branchName || '', 'ar');
+  });
+  return { totals, branches };
+}
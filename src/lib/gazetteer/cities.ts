@@ -0,0 +1,139 @@
+// Bundled city gazetteer for Saudi Arabia, the Gulf and neighbouring cities
+// families moved through. Coordinates are city centres (WGS84, 4 decimals);
+// aliases are alternative spellings seen in entered data.
+
+export type CountryCode = 'SA' | 'KW' | 'BH' | 'QA' | 'AE' | 'OM' | 'IQ' | 'EG' | 'IN';
+
+export interface GazetteerCity {
+  id: string;
+  nameAr: string;
+  nameEn: string;
+  country: CountryCode;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export const COUNTRY_NAMES: Record<CountryCode, { ar: string; en: string }> = {
+  SA: { ar: 'السعودية', en: 'Saudi Arabia' },
+  KW: { ar: 'الكويت', en: 'Kuwait' },
+  BH: { ar: 'البحرين', en: 'Bahrain' },
+  QA: { ar: 'قطر', en: 'Qatar' },
+  AE: { ar: 'الإمارات', en: 'United Arab Emirates' },
+  OM: { ar: 'عُمان', en: 'Oman' },
+  IQ: { ar: 'العراق', en: 'Iraq' },
+  EG: { ar: 'مصر', en: 'Egypt' },
+  IN: { ar: 'الهند', en: 'India' },
+};
+
+export const GAZETTEER_CITIES: GazetteerCity[] = [
+  // Saudi Arabia - Riyadh region
+  { id: 'riyadh', nameAr: 'الرياض', nameEn: 'Riyadh', country: 'SA', lat: 24.7136, lng: 46.6753, aliases: ['Riyad', 'Ar Riyadh'] },
+  { id: 'diriyah', nameAr: 'الدرعية', nameEn: 'Diriyah', country: 'SA', lat: 24.7343, lng: 46.5753, aliases: ['Ad Diriyah', 'Dir\'iyah'] },
+  { id: 'kharj', nameAr: 'الخرج', nameEn: 'Al-Kharj', country: 'SA', lat: 24.1556, lng: 47.3120, aliases: ['Kharj'] },
+  { id: 'majmaah', nameAr: 'المجمعة', nameEn: 'Al-Majmaah', country: 'SA', lat: 25.9039, lng: 45.3456, aliases: ['Majmaah', 'Majma\'ah'] },
+  { id: 'zulfi', nameAr: 'الزلفي', nameEn: 'Az-Zulfi', country: 'SA', lat: 26.2994, lng: 44.8155, aliases: ['Zulfi'] },
+  { id: 'shaqra', nameAr: 'شقراء', nameEn: 'Shaqra', country: 'SA', lat: 25.2497, lng: 45.2511 },
+  { id: 'ushaiqer', nameAr: 'أشيقر', nameEn: 'Ushaiqer', country: 'SA', lat: 25.3389, lng: 45.1939, aliases: ['Ushayqir'] },
+  { id: 'dawadmi', nameAr: 'الدوادمي', nameEn: 'Ad-Dawadmi', country: 'SA', lat: 24.5077, lng: 44.3924, aliases: ['Dawadmi'] },
+  { id: 'quwayiyah', nameAr: 'القويعية', nameEn: 'Al-Quwayiyah', country: 'SA', lat: 24.0737, lng: 45.2806, aliases: ['Quwayiyah'] },
+  { id: 'afif', nameAr: 'عفيف', nameEn: 'Afif', country: 'SA', lat: 23.9065, lng: 42.9172 },
+  { id: 'huraymila', nameAr: 'حريملاء', nameEn: 'Huraymila', country: 'SA', lat: 25.1211, lng: 46.1086, aliases: ['Huraimla'] },
+  { id: 'thadiq', nameAr: 'ثادق', nameEn: 'Thadiq', country: 'SA', lat: 25.2980, lng: 45.8710 },
+  { id: 'ghat', nameAr: 'الغاط', nameEn: 'Al-Ghat', country: 'SA', lat: 26.0270, lng: 44.9600, aliases: ['Ghat'] },
+  { id: 'rumah', nameAr: 'رماح', nameEn: 'Rumah', country: 'SA', lat: 25.5700, lng: 47.1600 },
+  { id: 'muzahimiyah', nameAr: 'المزاحمية', nameEn: 'Al-Muzahimiyah', country: 'SA', lat: 24.4700, lng: 46.2600, aliases: ['Muzahimiyah'] },
+  { id: 'dhurma', nameAr: 'ضرما', nameEn: 'Dhurma', country: 'SA', lat: 24.6000, lng: 46.1200 },
+  { id: 'hotat-bani-tamim', nameAr: 'حوطة بني تميم', nameEn: 'Hotat Bani Tamim', country: 'SA', lat: 23.4900, lng: 46.7600, aliases: ['الحوطة'] },
+  { id: 'hariq', nameAr: 'الحريق', nameEn: 'Al-Hariq', country: 'SA', lat: 23.6230, lng: 46.5180 },
+  { id: 'aflaj', nameAr: 'الأفلاج', nameEn: 'Al-Aflaj', country: 'SA', lat: 22.2833, lng: 46.7333, aliases: ['ليلى', 'Layla', 'Aflaj'] },
+  { id: 'sulayyil', nameAr: 'السليل', nameEn: 'As-Sulayyil', country: 'SA', lat: 20.4607, lng: 45.5779, aliases: ['Sulayyil'] },
+  { id: 'wadi-dawasir', nameAr: 'وادي الدواسر', nameEn: 'Wadi ad-Dawasir', country: 'SA', lat: 20.4667, lng: 44.7833, aliases: ['الخماسين'] },
+
+  // Saudi Arabia - Qassim
+  { id: 'buraydah', nameAr: 'بريدة', nameEn: 'Buraydah', country: 'SA', lat: 26.3260, lng: 43.9750, aliases: ['Buraidah', 'Buraida'] },
+  { id: 'unaizah', nameAr: 'عنيزة', nameEn: 'Unaizah', country: 'SA', lat: 26.0843, lng: 43.9935, aliases: ['Unayzah', 'Onaizah'] },
+  { id: 'rass', nameAr: 'الرس', nameEn: 'Ar-Rass', country: 'SA', lat: 25.8694, lng: 43.4973, aliases: ['Rass'] },
+  { id: 'mithnab', nameAr: 'المذنب', nameEn: 'Al-Mithnab', country: 'SA', lat: 25.8601, lng: 44.2223, aliases: ['Mithnab'] },
+  { id: 'bukayriyah', nameAr: 'البكيرية', nameEn: 'Al-Bukayriyah', country: 'SA', lat: 26.1397, lng: 43.6581, aliases: ['Bukayriyah'] },
+
+  // Saudi Arabia - Makkah and Madinah regions
+  { id: 'makkah', nameAr: 'مكة المكرمة', nameEn: 'Makkah', country: 'SA', lat: 21.3891, lng: 39.8579, aliases: ['مكة', 'Mecca', 'Makkah Al-Mukarramah'] },
+  { id: 'jeddah', nameAr: 'جدة', nameEn: 'Jeddah', country: 'SA', lat: 21.4858, lng: 39.1925, aliases: ['Jiddah', 'Jedda'] },
+  { id: 'taif', nameAr: 'الطائف', nameEn: 'Taif', country: 'SA', lat: 21.2703, lng: 40.4158, aliases: ['At-Taif'] },
+  { id: 'rabigh', nameAr: 'رابغ', nameEn: 'Rabigh', country: 'SA', lat: 22.7986, lng: 39.0349 },
+  { id: 'qunfudhah', nameAr: 'القنفذة', nameEn: 'Al-Qunfudhah', country: 'SA', lat: 19.1264, lng: 41.0789, aliases: ['Qunfudhah'] },
+  { id: 'madinah', nameAr: 'المدينة المنورة', nameEn: 'Madinah', country: 'SA', lat: 24.5247, lng: 39.5692, aliases: ['المدينة', 'Medina', 'Al-Madinah'] },
+  { id: 'yanbu', nameAr: 'ينبع', nameEn: 'Yanbu', country: 'SA', lat: 24.0895, lng: 38.0618 },
+  { id: 'ula', nameAr: 'العلا', nameEn: 'AlUla', country: 'SA', lat: 26.6085, lng: 37.9232, aliases: ['Al-Ula'] },
+
+  // Saudi Arabia - Eastern Province
+  { id: 'dammam', nameAr: 'الدمام', nameEn: 'Dammam', country: 'SA', lat: 26.4207, lng: 50.0888, aliases: ['Ad-Dammam'] },
+  { id: 'khobar', nameAr: 'الخبر', nameEn: 'Al-Khobar', country: 'SA', lat: 26.2172, lng: 50.1971, aliases: ['Khobar'] },
+  { id: 'dhahran', nameAr: 'الظهران', nameEn: 'Dhahran', country: 'SA', lat: 26.2361, lng: 50.0393 },
+  { id: 'qatif', nameAr: 'القطيف', nameEn: 'Qatif', country: 'SA', lat: 26.5196, lng: 50.0115, aliases: ['Al-Qatif'] },
+  { id: 'jubail', nameAr: 'الجبيل', nameEn: 'Jubail', country: 'SA', lat: 27.0046, lng: 49.6460, aliases: ['Al-Jubail'] },
+  { id: 'ahsa', nameAr: 'الأحساء', nameEn: 'Al-Ahsa', country: 'SA', lat: 25.3647, lng: 49.5876, aliases: ['الهفوف', 'Hofuf', 'Al-Hasa', 'Hasa'] },
+  { id: 'abqaiq', nameAr: 'بقيق', nameEn: 'Abqaiq', country: 'SA', lat: 25.9340, lng: 49.6688, aliases: ['أبقيق', 'Buqayq'] },
+  { id: 'ras-tanura', nameAr: 'رأس تنورة', nameEn: 'Ras Tanura', country: 'SA', lat: 26.6444, lng: 50.1592 },
+  { id: 'khafji', nameAr: 'الخفجي', nameEn: 'Khafji', country: 'SA', lat: 28.4391, lng: 48.4913, aliases: ['Al-Khafji'] },
+  { id: 'nairyah', nameAr: 'النعيرية', nameEn: 'An-Nairyah', country: 'SA', lat: 27.4700, lng: 48.4900, aliases: ['Nairyah'] },
+  { id: 'hafar-albatin', nameAr: 'حفر الباطن', nameEn: 'Hafar Al-Batin', country: 'SA', lat: 28.4328, lng: 45.9708 },
+
+  // Saudi Arabia - North
+  { id: 'hail', nameAr: 'حائل', nameEn: 'Hail', country: 'SA', lat: 27.5114, lng: 41.7208, aliases: ['Ha\'il'] },
+  { id: 'tabuk', nameAr: 'تبوك', nameEn: 'Tabuk', country: 'SA', lat: 28.3835, lng: 36.5662 },
+  { id: 'tayma', nameAr: 'تيماء', nameEn: 'Tayma', country: 'SA', lat: 27.6320, lng: 38.5440 },
+  { id: 'wajh', nameAr: 'الوجه', nameEn: 'Al-Wajh', country: 'SA', lat: 26.2455, lng: 36.4525 },
+  { id: 'duba', nameAr: 'ضباء', nameEn: 'Duba', country: 'SA', lat: 27.3513, lng: 35.6901 },
+  { id: 'arar', nameAr: 'عرعر', nameEn: 'Arar', country: 'SA', lat: 30.9753, lng: 41.0381 },
+  { id: 'rafha', nameAr: 'رفحاء', nameEn: 'Rafha', country: 'SA', lat: 29.6264, lng: 43.4932 },
+  { id: 'turaif', nameAr: 'طريف', nameEn: 'Turaif', country: 'SA', lat: 31.6725, lng: 38.6637 },
+  { id: 'sakaka', nameAr: 'سكاكا', nameEn: 'Sakaka', country: 'SA', lat: 29.9697, lng: 40.2064, aliases: ['الجوف', 'Al-Jouf'] },
+  { id: 'qurayyat', nameAr: 'القريات', nameEn: 'Al-Qurayyat', country: 'SA', lat: 31.3318, lng: 37.3428, aliases: ['Qurayyat'] },
+
+  // Saudi Arabia - South
+  { id: 'abha', nameAr: 'أبها', nameEn: 'Abha', country: 'SA', lat: 18.2164, lng: 42.5053 },
+  { id: 'khamis-mushait', nameAr: 'خميس مشيط', nameEn: 'Khamis Mushait', country: 'SA', lat: 18.3000, lng: 42.7333 },
+  { id: 'bisha', nameAr: 'بيشة', nameEn: 'Bisha', country: 'SA', lat: 20.0005, lng: 42.6052 },
+  { id: 'namas', nameAr: 'النماص', nameEn: 'An-Namas', country: 'SA', lat: 19.1453, lng: 42.1200 },
+  { id: 'muhayil', nameAr: 'محايل عسير', nameEn: 'Muhayil Asir', country: 'SA', lat: 18.5460, lng: 42.0512, aliases: ['محايل'] },
+  { id: 'baha', nameAr: 'الباحة', nameEn: 'Al-Baha', country: 'SA', lat: 20.0129, lng: 41.4677, aliases: ['Baha'] },
+  { id: 'najran', nameAr: 'نجران', nameEn: 'Najran', country: 'SA', lat: 17.4924, lng: 44.1277 },
+  { id: 'sharurah', nameAr: 'شرورة', nameEn: 'Sharurah', country: 'SA', lat: 17.4667, lng: 47.1167 },
+  { id: 'jazan', nameAr: 'جازان', nameEn: 'Jazan', country: 'SA', lat: 16.8892, lng: 42.5511, aliases: ['جيزان', 'Jizan', 'Gizan'] },
+  { id: 'sabya', nameAr: 'صبيا', nameEn: 'Sabya', country: 'SA', lat: 17.1495, lng: 42.6254 },
+
+  // Kuwait
+  { id: 'kuwait-city', nameAr: 'الكويت', nameEn: 'Kuwait City', country: 'KW', lat: 29.3759, lng: 47.9774, aliases: ['Kuwait', 'مدينة الكويت'] },
+  { id: 'jahra', nameAr: 'الجهراء', nameEn: 'Al-Jahra', country: 'KW', lat: 29.3375, lng: 47.6581, aliases: ['Jahra'] },
+
+  // Bahrain
+  { id: 'manama', nameAr: 'المنامة', nameEn: 'Manama', country: 'BH', lat: 26.2285, lng: 50.5860, aliases: ['البحرين', 'Bahrain'] },
+  { id: 'muharraq', nameAr: 'المحرق', nameEn: 'Muharraq', country: 'BH', lat: 26.2572, lng: 50.6119 },
+
+  // Qatar
+  { id: 'doha', nameAr: 'الدوحة', nameEn: 'Doha', country: 'QA', lat: 25.2854, lng: 51.5310, aliases: ['قطر', 'Qatar'] },
+  { id: 'wakrah', nameAr: 'الوكرة', nameEn: 'Al-Wakrah', country: 'QA', lat: 25.1659, lng: 51.6034 },
+
+  // United Arab Emirates
+  { id: 'abu-dhabi', nameAr: 'أبوظبي', nameEn: 'Abu Dhabi', country: 'AE', lat: 24.4539, lng: 54.3773, aliases: ['أبو ظبي'] },
+  { id: 'dubai', nameAr: 'دبي', nameEn: 'Dubai', country: 'AE', lat: 25.2048, lng: 55.2708 },
+  { id: 'sharjah', nameAr: 'الشارقة', nameEn: 'Sharjah', country: 'AE', lat: 25.3463, lng: 55.4209 },
+  { id: 'ajman', nameAr: 'عجمان', nameEn: 'Ajman', country: 'AE', lat: 25.4052, lng: 55.5136 },
+  { id: 'ras-al-khaimah', nameAr: 'رأس الخيمة', nameEn: 'Ras Al Khaimah', country: 'AE', lat: 25.8007, lng: 55.9762 },
+  { id: 'fujairah', nameAr: 'الفجيرة', nameEn: 'Fujairah', country: 'AE', lat: 25.1288, lng: 56.3265 },
+  { id: 'al-ain', nameAr: 'العين', nameEn: 'Al Ain', country: 'AE', lat: 24.2075, lng: 55.7447 },
+
+  // Oman
+  { id: 'muscat', nameAr: 'مسقط', nameEn: 'Muscat', country: 'OM', lat: 23.5880, lng: 58.3829 },
+  { id: 'sohar', nameAr: 'صحار', nameEn: 'Sohar', country: 'OM', lat: 24.3460, lng: 56.7075 },
+  { id: 'nizwa', nameAr: 'نزوى', nameEn: 'Nizwa', country: 'OM', lat: 22.9333, lng: 57.5333 },
+  { id: 'salalah', nameAr: 'صلالة', nameEn: 'Salalah', country: 'OM', lat: 17.0151, lng: 54.0924 },
+
+  // Beyond the Gulf
+  { id: 'zubair', nameAr: 'الزبير', nameEn: 'Az-Zubair', country: 'IQ', lat: 30.3892, lng: 47.7018, aliases: ['Zubair', 'Zubayr'] },
+  { id: 'basra', nameAr: 'البصرة', nameEn: 'Basra', country: 'IQ', lat: 30.5085, lng: 47.7804, aliases: ['Basrah'] },
+  { id: 'cairo', nameAr: 'القاهرة', nameEn: 'Cairo', country: 'EG', lat: 30.0444, lng: 31.2357 },
+  { id: 'mumbai', nameAr: 'بومباي', nameEn: 'Mumbai', country: 'IN', lat: 19.0760, lng: 72.8777, aliases: ['مومباي', 'Bombay'] },
+];
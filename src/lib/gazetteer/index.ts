@@ -0,0 +1,211 @@
+// آل شايع Family Tree - City Gazetteer
+// Matches free-text places (member city and birthplace, gathering and journal
+// locations) to the bundled city list, and aggregates members into the city
+// clusters and migration flows drawn on the family map.
+
+import { normalizeSearchText } from '@/lib/search';
+import { GAZETTEER_CITIES, type GazetteerCity } from './cities';
+
+export * from './cities';
+
+// ============================================
+// MATCHING
+// ============================================
+
+// Words that qualify a place without naming it ("مدينة الرياض", "Riyadh, Saudi Arabia")
+const FILLER_WORDS = new Set([
+  'مدينه', 'محافظه', 'منطقه', 'المملكه', 'العربيه', 'السعوديه',
+  'city', 'of', 'province', 'governorate', 'region', 'saudi', 'arabia', 'ksa',
+]);
+
+// Transliterated Arabic articles ("Al-Kharj", "Ar Rass")
+const LATIN_ARTICLES = new Set(['al', 'ar', 'as', 'ad', 'an', 'az', 'at', 'ash', 'el']);
+
+// Parts of a place string tried one by one ("حي النسيم، الرياض")
+const PLACE_SEPARATOR = /[،,؛;/|()\n-]+/;
+
+/**
+ * Matching key for a place: normalized words without qualifiers or the
+ * Arabic definite article
+ */
+export function placeKey(text: string | null | undefined): string {
+  return normalizeSearchText(text)
+    .split(' ')
+    .filter(word => word && !FILLER_WORDS.has(word) && !LATIN_ARTICLES.has(word))
+    .map(word => (word.startsWith('ال') && word.length > 3 ? word.slice(2) : word))
+    .join(' ');
+}
+
+const CITY_INDEX = new Map<string, GazetteerCity>();
+for (const city of GAZETTEER_CITIES) {
+  for (const name of [city.nameAr, city.nameEn, ...(city.aliases || [])]) {
+    const key = placeKey(name);
+    if (key && !CITY_INDEX.has(key)) CITY_INDEX.set(key, city);
+  }
+}
+
+export function getGazetteerCity(id: string): GazetteerCity | undefined {
+  return GAZETTEER_CITIES.find(city => city.id === id);
+}
+
+export interface CityMatch {
+  city: GazetteerCity;
+  /** The whole text names the city, so it can be replaced by the canonical name */
+  exact: boolean;
+}
+
+/**
+ * The gazetteer city a free-text place refers to. The whole text is tried
+ * first, then each comma- or dash-separated part.
+ */
+export function matchCity(text: string | null | undefined): CityMatch | null {
+  if (!text || !text.trim()) return null;
+
+  const whole = placeKey(text);
+  const city = whole ? CITY_INDEX.get(whole) : undefined;
+  if (city) return { city, exact: true };
+
+  for (const part of text.split(PLACE_SEPARATOR)) {
+    const key = placeKey(part);
+    const partCity = key ? CITY_INDEX.get(key) : undefined;
+    if (partCity) return { city: partCity, exact: false };
+  }
+  return null;
+}
+
+/**
+ * The canonical Arabic name for a place that fully matches a city, or null
+ * when it should be left as entered
+ */
+export function normalizePlaceName(text: string | null | undefined): string | null {
+  const match = matchCity(text);
+  if (!match || !match.exact || match.city.nameAr === text) return null;
+  return match.city.nameAr;
+}
+
+// ============================================
+// MAP AGGREGATION
+// ============================================
+
+export interface MapMember {
+  id: string;
+  name: string;
+  city: string | null;
+  birthPlace: string | null;
+}
+
+export interface CityCluster {
+  city: GazetteerCity;
+  count: number;
+  members: { id: string; name: string }[];
+}
+
+export interface MigrationFlow {
+  from: GazetteerCity;
+  to: GazetteerCity;
+  count: number;
+}
+
+export interface UnmatchedPlace {
+  text: string;
+  count: number;
+}
+
+export interface FamilyMapSummary {
+  residences: CityCluster[];
+  migrations: MigrationFlow[];
+  unmatched: UnmatchedPlace[];
+  /** Members with a city, matched or not */
+  located: number;
+}
+
+/**
+ * Members grouped by current city, and birthplace -> city flows for members
+ * who moved. Places that match no city are counted so they can be fixed.
+ */
+export function summarizeFamilyMap(members: MapMember[]): FamilyMapSummary {
+  const residences = new Map<string, CityCluster>();
+  const migrations = new Map<string, MigrationFlow>();
+  const unmatched = new Map<string, UnmatchedPlace>();
+  let located = 0;
+
+  const noteUnmatched = (text: string) => {
+    const key = text.trim();
+    const entry = unmatched.get(key);
+    if (entry) entry.count++;
+    else unmatched.set(key, { text: key, count: 1 });
+  };
+
+  for (const member of members) {
+    const residence = matchCity(member.city);
+    if (member.city?.trim()) {
+      located++;
+      if (!residence) noteUnmatched(member.city);
+    }
+
+    if (residence) {
+      const cluster = residences.get(residence.city.id) || { city: residence.city, count: 0, members: [] };
+      cluster.count++;
+      cluster.members.push({ id: member.id, name: member.name });
+      residences.set(residence.city.id, cluster);
+    }
+
+    const birthplace = matchCity(member.birthPlace);
+    if (member.birthPlace?.trim() && !birthplace) noteUnmatched(member.birthPlace);
+
+    if (birthplace && residence && birthplace.city.id !== residence.city.id) {
+      const key = `${birthplace.city.id}>${residence.city.id}`;
+      const flow = migrations.get(key) || { from: birthplace.city, to: residence.city, count: 0 };
+      flow.count++;
+      migrations.set(key, flow);
+    }
+  }
+
+  return {
+    residences: Array.from(residences.values()).sort((a, b) => b.count - a.count),
+    migrations: Array.from(migrations.values()).sort((a, b) => b.count - a.count),
+    unmatched: Array.from(unmatched.values()).sort((a, b) => b.count - a.count),
+    located,
+  };
+}
+
+// ============================================
+// SCREEN CLUSTERING
+// ============================================
+
+export interface ScreenPoint<T> {
+  x: number;
+  y: number;
+  weight: number;
+  item: T;
+}
+
+export interface ScreenCluster<T> {
+  x: number;
+  y: number;
+  weight: number;
+  items: T[];
+}
+
+/**
+ * Merge points closer than `radius` (in screen units) into weighted clusters.
+ * Heavier points are placed first so clusters centre on the largest city.
+ */
+export function clusterByDistance<T>(points: ScreenPoint<T>[], radius: number): ScreenCluster<T>[] {
+  const clusters: ScreenCluster<T>[] = [];
+  const sorted = [...points].sort((a, b) => b.weight - a.weight);
+
+  for (const point of sorted) {
+    const cluster = clusters.find(c => Math.hypot(c.x - point.x, c.y - point.y) <= radius);
+    if (cluster) {
+      const weight = cluster.weight + point.weight;
+      cluster.x = (cluster.x * cluster.weight + point.x * point.weight) / weight;
+      cluster.y = (cluster.y * cluster.weight + point.y * point.weight) / weight;
+      cluster.weight = weight;
+      cluster.items.push(point.item);
+    } else {
+      clusters.push({ x: point.x, y: point.y, weight: point.weight, items: [point.item] });
+    }
+  }
+  return clusters;
+}
@@ -0,0 +1,204 @@
+/**
+ * Hijri Calendar Utilities for آل شايع Family Tree
+ *
+ * Provides:
+ * - Conversion between Gregorian and Hijri (AH) dates and years
+ *   using the tabular Islamic calendar (within a day or two of Umm al-Qura)
+ * - Year formatting that honors the recorded precision (exact, approximate, decade)
+ * - Date formatting in the user's preferred calendar
+ * - Filling the missing calendar counterpart of member birth/death years
+ */
+
+import type { CalendarPreference, DatePrecision } from './types';
+
+export const DATE_PRECISIONS: DatePrecision[] = ['EXACT', 'APPROXIMATE', 'DECADE'];
+
+export const DATE_PRECISION_LABELS: Record<DatePrecision, { ar: string; en: string }> = {
+  EXACT: { ar: 'دقيق', en: 'Exact' },
+  APPROXIMATE: { ar: 'تقريبي', en: 'Approximate' },
+  DECADE: { ar: 'العقد فقط', en: 'Decade only' },
+};
+
+export const CALENDAR_PREFERENCES: CalendarPreference[] = ['gregorian', 'hijri', 'both'];
+
+export const DEFAULT_CALENDAR_PREFERENCE: CalendarPreference = 'gregorian';
+
+export interface SimpleDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+// Julian day number of 1 Muharram 1 AH (16 July 622 CE, Julian calendar)
+const ISLAMIC_EPOCH = 1948440;
+
+function gregorianToJulianDay({ year, month, day }: SimpleDate): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return day + Math.floor((153 * m + 2) / 5) + 365 * y
+    + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+}
+
+function julianDayToGregorian(jd: number): SimpleDate {
+  const a = jd + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return {
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+    month: m + 3 - 12 * Math.floor(m / 10),
+    year: 100 * b + d - 4800 + Math.floor(m / 10),
+  };
+}
+
+function hijriToJulianDay({ year, month, day }: SimpleDate): number {
+  return day + Math.ceil(29.5 * (month - 1)) + (year - 1) * 354
+    + Math.floor((3 + 11 * year) / 30) + ISLAMIC_EPOCH - 1;
+}
+
+function julianDayToHijri(jd: number): SimpleDate {
+  const year = Math.floor((30 * (jd - ISLAMIC_EPOCH) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((jd - 29 - hijriToJulianDay({ year, month: 1, day: 1 })) / 29.5) + 1);
+  const day = jd - hijriToJulianDay({ year, month, day: 1 }) + 1;
+  return { year, month, day };
+}
+
+/**
+ * Convert a Gregorian date to Hijri
+ */
+export function gregorianToHijri(date: SimpleDate): SimpleDate {
+  return julianDayToHijri(gregorianToJulianDay(date));
+}
+
+/**
+ * Convert a Hijri date to Gregorian
+ */
+export function hijriToGregorian(date: SimpleDate): SimpleDate {
+  return julianDayToGregorian(hijriToJulianDay(date));
+}
+
+/**
+ * Hijri year that covers the middle of a Gregorian year.
+ * A Gregorian year spans two Hijri years, so year-only records use mid-year.
+ */
+export function gregorianYearToHijri(year: number): number {
+  return gregorianToHijri({ year, month: 7, day: 1 }).year;
+}
+
+/**
+ * Gregorian year that covers the middle of a Hijri year
+ */
+export function hijriYearToGregorian(year: number): number {
+  return hijriToGregorian({ year, month: 7, day: 1 }).year;
+}
+
+/**
+ * Parse a stored calendar preference, falling back to the default
+ */
+export function parseCalendarPreference(value: string | null | undefined): CalendarPreference {
+  return CALENDAR_PREFERENCES.includes(value as CalendarPreference)
+    ? (value as CalendarPreference)
+    : DEFAULT_CALENDAR_PREFERENCE;
+}
+
+/**
+ * Parse a stored precision value, treating unknown values as exact
+ */
+export function parseDatePrecision(value: string | null | undefined): DatePrecision {
+  return DATE_PRECISIONS.includes(value as DatePrecision) ? (value as DatePrecision) : 'EXACT';
+}
+
+/**
+ * Format a single year with its precision and calendar suffix,
+ * e.g. "1990م", "حوالي 1410هـ", "عقد 1990م"
+ */
+export function formatYear(
+  year: number,
+  calendar: 'gregorian' | 'hijri',
+  precision: DatePrecision = 'EXACT'
+): string {
+  const suffix = calendar === 'hijri' ? 'هـ' : 'م';
+  if (precision === 'DECADE') return `عقد ${Math.floor(year / 10) * 10}${suffix}`;
+  if (precision === 'APPROXIMATE') return `حوالي ${year}${suffix}`;
+  return `${year}${suffix}`;
+}
+
+/**
+ * Format a member year in the preferred calendar.
+ * Either year may be missing; the other is converted when needed.
+ */
+export function formatDualYear(
+  gregorianYear: number | null | undefined,
+  hijriYear: number | null | undefined,
+  precision: DatePrecision | string | null | undefined,
+  preference: CalendarPreference = DEFAULT_CALENDAR_PREFERENCE
+): string {
+  if (!gregorianYear && !hijriYear) return '';
+
+  const datePrecision = parseDatePrecision(precision);
+  const gregorian = gregorianYear || hijriYearToGregorian(hijriYear!);
+  const hijri = hijriYear || gregorianYearToHijri(gregorianYear!);
+
+  if (preference === 'hijri') return formatYear(hijri, 'hijri', datePrecision);
+  if (preference === 'both') {
+    return `${formatYear(hijri, 'hijri', datePrecision)} / ${formatYear(gregorian, 'gregorian', datePrecision)}`;
+  }
+  return formatYear(gregorian, 'gregorian', datePrecision);
+}
+
+/**
+ * Format a full date in the preferred calendar (Umm al-Qura for Hijri)
+ */
+export function formatDateInCalendar(
+  date: Date | string,
+  preference: CalendarPreference = DEFAULT_CALENDAR_PREFERENCE,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  const hijri = () => value.toLocaleDateString('ar-SA-u-ca-islamic-umalqura', options);
+
+  if (preference === 'hijri') return hijri();
+  if (preference === 'both') {
+    // The weekday is shown once, with the Hijri date
+    const gregorian = value.toLocaleDateString('ar-SA-u-ca-gregory', { ...options, weekday: undefined });
+    return `${hijri()} / ${gregorian}`;
+  }
+  return value.toLocaleDateString('ar-SA-u-ca-gregory', options);
+}
+
+type DualYearFields = {
+  birthYear?: number | null;
+  deathYear?: number | null;
+  birthYearHijri?: number | null;
+  deathYearHijri?: number | null;
+};
+
+/**
+ * Fill the missing calendar counterpart of birth/death years.
+ * Only pairs where exactly one side is present in the data are touched,
+ * so partial updates keep both calendars consistent.
+ */
+export function withDualCalendarYears<T extends DualYearFields>(data: T): T {
+  const result = { ...data };
+
+  const fill = (gregorianKey: 'birthYear' | 'deathYear', hijriKey: 'birthYearHijri' | 'deathYearHijri') => {
+    const hasGregorian = result[gregorianKey] !== undefined;
+    const hasHijri = result[hijriKey] !== undefined;
+
+    if (hasGregorian && !hasHijri) {
+      const year = result[gregorianKey];
+      result[hijriKey] = year ? gregorianYearToHijri(year) : null;
+    } else if (hasHijri && !hasGregorian) {
+      const year = result[hijriKey];
+      result[gregorianKey] = year ? hijriYearToGregorian(year) : null;
+    }
+  };
+
+  fill('birthYear', 'birthYearHijri');
+  fill('deathYear', 'deathYearHijri');
+
+  return result;
+}
@@ -0,0 +1,34 @@
+// Calendar display preference hook
+// Al-Shaye Family Tree Application
+
+import { useCallback, useEffect, useState } from 'react';
+import { storageKeys } from '@/config/storage-keys';
+import { DEFAULT_CALENDAR_PREFERENCE, parseCalendarPreference } from '@/lib/hijri';
+import type { CalendarPreference } from '@/lib/types';
+
+const COOKIE_NAME = storageKeys.calendar;
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+function readCalendarCookie(): CalendarPreference {
+  const entry = document.cookie.split('; ').find(c => c.startsWith(`${COOKIE_NAME}=`));
+  return parseCalendarPreference(entry?.split('=')[1]);
+}
+
+/**
+ * Calendar used to display dates. Kept in a cookie rather than localStorage
+ * so server-rendered pages (e.g. the member page) can honor it too.
+ */
+export function useCalendarPreference() {
+  const [calendar, setCalendarState] = useState<CalendarPreference>(DEFAULT_CALENDAR_PREFERENCE);
+
+  useEffect(() => {
+    setCalendarState(readCalendarCookie());
+  }, []);
+
+  const setCalendar = useCallback((value: CalendarPreference) => {
+    document.cookie = `${COOKIE_NAME}=${value}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`;
+    setCalendarState(value);
+  }, []);
+
+  return { calendar, setCalendar };
+}
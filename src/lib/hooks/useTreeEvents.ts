@@ -0,0 +1,78 @@
+// Live tree events hook
+// Al-Shaye Family Tree Application
+
+import { useEffect, useRef, useState } from 'react';
+import type { MemberTreeEvent, PresenceEntry, PresenceMode } from '@/lib/collaboration';
+
+interface UseTreeEventsOptions {
+  /** Connect only once the session is known, so events are redacted for it */
+  enabled: boolean;
+  mode?: PresenceMode;
+  branch?: string | null;
+  memberId?: string | null;
+  getAuthHeader: () => HeadersInit;
+  onMemberEvent: (event: MemberTreeEvent) => void;
+}
+
+/**
+ * Subscribe to /api/tree/events. Member events are passed to onMemberEvent;
+ * presence is returned for signed-in viewers and kept in step with mode,
+ * branch and memberId. The browser reconnects dropped streams by itself.
+ */
+export function useTreeEvents({
+  enabled,
+  mode = 'viewing',
+  branch = null,
+  memberId = null,
+  getAuthHeader,
+  onMemberEvent,
+}: UseTreeEventsOptions) {
+  const [connected, setConnected] = useState(false);
+  const [connectionId, setConnectionId] = useState('');
+  const [presence, setPresence] = useState<PresenceEntry[]>([]);
+
+  // Handlers change every render; the stream should not
+  const onMemberEventRef = useRef(onMemberEvent);
+  onMemberEventRef.current = onMemberEvent;
+  const initialPresence = useRef({ mode, branch });
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    const params = new URLSearchParams({ mode: initialPresence.current.mode });
+    if (initialPresence.current.branch) params.set('branch', initialPresence.current.branch);
+    const source = new EventSource(`/api/tree/events?${params}`);
+
+    source.addEventListener('ready', (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setConnectionId(data.connectionId);
+      setPresence(data.presence);
+      setConnected(true);
+    });
+    source.addEventListener('presence', (e) => {
+      setPresence(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('member', (e) => {
+      onMemberEventRef.current(JSON.parse((e as MessageEvent).data));
+    });
+    source.onerror = () => setConnected(false);
+
+    return () => {
+      source.close();
+      setConnected(false);
+      setConnectionId('');
+    };
+  }, [enabled]);
+
+  // Anonymous connections have no presence entry to update
+  useEffect(() => {
+    if (!connectionId) return;
+    fetch('/api/tree/presence', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeader() },
+      body: JSON.stringify({ connectionId, mode, branch, memberId }),
+    }).catch(error => console.error('Failed to update presence:', error));
+  }, [connectionId, mode, branch, memberId, getAuthHeader]);
+
+  return { connected, connectionId, presence };
+}
@@ -1,6 +1,7 @@
 // آل شايع Family Tree - Import & Merge Utilities
 
-import { FamilyMember, ImportConflict, FieldConflict, ValidationResult, ValidationError } from './types';
+import { DatePrecision, FamilyMember, ImportConflict, FieldConflict, ValidationResult, ValidationError } from './types';
+import { DATE_PRECISION_LABELS, DATE_PRECISIONS } from './hijri';
 
 // ============================================
 // VALIDATION
@@ -335,6 +336,10 @@ function mapCSVHeaders(headers: string[]): (keyof FamilyMember | null)[] {
     'الجنس': 'gender',
     'سنة الميلاد': 'birthYear',
     'سنة الوفاة': 'deathYear',
+    'سنة الميلاد (هجري)': 'birthYearHijri',
+    'سنة الوفاة (هجري)': 'deathYearHijri',
+    'دقة سنة الميلاد': 'birthYearPrecision',
+    'دقة سنة الوفاة': 'deathYearPrecision',
     'عدد الأبناء': 'sonsCount',
     'عدد البنات': 'daughtersCount',
     'الجيل': 'generation',
@@ -357,6 +362,10 @@ function mapCSVHeaders(headers: string[]): (keyof FamilyMember | null)[] {
     'Gender': 'gender',
     'Birth Year': 'birthYear',
     'Death Year': 'deathYear',
+    'Birth Year (AH)': 'birthYearHijri',
+    'Death Year (AH)': 'deathYearHijri',
+    'Birth Year Precision': 'birthYearPrecision',
+    'Death Year Precision': 'deathYearPrecision',
     'Sons Count': 'sonsCount',
     'Daughters Count': 'daughtersCount',
     'Generation': 'generation',
@@ -374,7 +383,7 @@ function mapCSVHeaders(headers: string[]): (keyof FamilyMember | null)[] {
 }
 
 function convertValue(field: keyof FamilyMember, value: string): any {
-  const numericFields = ['birthYear', 'deathYear', 'sonsCount', 'daughtersCount', 'generation'];
+  const numericFields = ['birthYear', 'deathYear', 'birthYearHijri', 'deathYearHijri', 'sonsCount', 'daughtersCount', 'generation'];
 
   if (numericFields.includes(field)) {
     const num = parseInt(value, 10);
@@ -388,6 +397,10 @@ function convertValue(field: keyof FamilyMember, value: string): any {
     return value;
   }
 
+  if (field === 'birthYearPrecision' || field === 'deathYearPrecision') {
+    return parsePrecisionValue(value);
+  }
+
   // Convert Arabic status to English
   if (field === 'status') {
     if (value === 'على قيد الحياة' || value.toLowerCase() === 'living') return 'Living';
@@ -398,6 +411,280 @@ function convertValue(field: keyof FamilyMember, value: string): any {
   return value;
 }
 
+/**
+ * Accept precision codes (EXACT) or their Arabic/English labels (تقريبي, Approximate)
+ */
+function parsePrecisionValue(value: string): DatePrecision {
+  const normalized = value.trim().toLowerCase();
+  return DATE_PRECISIONS.find(precision =>
+    precision.toLowerCase() === normalized ||
+    DATE_PRECISION_LABELS[precision].ar === value.trim() ||
+    DATE_PRECISION_LABELS[precision].en.toLowerCase() === normalized
+  ) || 'EXACT';
+}
+
+// ============================================
+// GEDCOM PARSING
+// ============================================
+
+interface GedcomNode {
+  level: number;
+  xref: string | null;
+  tag: string;
+  value: string;
+  children: GedcomNode[];
+}
+
+/**
+ * Parse GEDCOM 5.5.1 / 7.0 content (INDI and FAM records)
+ * Record IDs in our P001 format are kept so re-imports match existing members;
+ * other IDs are renumbered after the highest existing ID.
+ */
+export function parseGEDCOM(
+  content: string,
+  existingMembers: Pick<FamilyMember, 'id'>[] = []
+): { members: Partial<FamilyMember>[]; error?: string } {
+  try {
+    const records = parseGedcomRecords(content);
+
+    if (records.length === 0 || records[0].tag !== 'HEAD') {
+      return { members: [], error: 'ملف GEDCOM غير صالح - Missing HEAD record' };
+    }
+
+    const byXref = new Map<string, GedcomNode>();
+    records.forEach(record => {
+      if (record.xref) byXref.set(record.xref, record);
+    });
+
+    const individuals = records.filter(r => r.tag === 'INDI' && r.xref);
+    const families = records.filter(r => r.tag === 'FAM');
+
+    // Assign member IDs
+    const usedNumbers = [...existingMembers.map(m => m.id), ...individuals.map(r => stripXref(r.xref!))]
+      .filter(id => /^P\d{3,}$/.test(id))
+      .map(id => parseInt(id.slice(1), 10));
+    let nextNumber = usedNumbers.length > 0 ? Math.max(...usedNumbers) + 1 : 1;
+
+    const idByXref = new Map<string, string>();
+    const externalWives = new Set<string>();
+
+    for (const record of individuals) {
+      if (gedcomChildValue(record, '_EXT') === 'Y') {
+        externalWives.add(record.xref!);
+        continue;
+      }
+      const id = stripXref(record.xref!);
+      idByXref.set(record.xref!, /^P\d{3,}$/.test(id) ? id : `P${String(nextNumber++).padStart(3, '0')}`);
+    }
+
+    const members = new Map<string, Partial<FamilyMember>>();
+
+    for (const record of individuals) {
+      const id = idByXref.get(record.xref!);
+      if (!id) continue;
+
+      const { given, surname } = parseGedcomName(record);
+      const member: Partial<FamilyMember> = { id };
+
+      if (given) member.firstName = given;
+      if (surname) member.familyName = surname;
+
+      const nameNode = gedcomChild(record, 'NAME');
+      const romanized = nameNode && (gedcomChildValue(nameNode, 'ROMN') || gedcomChildValue(nameNode, 'TRAN'));
+      if (romanized) member.fullNameEn = romanized;
+
+      const sex = gedcomChildValue(record, 'SEX');
+      if (sex === 'M') member.gender = 'Male';
+      else if (sex === 'F') member.gender = 'Female';
+
+      const birth = gedcomChild(record, 'BIRT');
+      const birthDate = birth && gedcomChildValue(birth, 'DATE');
+      const birthYear = parseGedcomYear(birthDate);
+      if (birthYear) {
+        member.birthYear = birthYear;
+        member.birthYearPrecision = parseGedcomPrecision(birthDate);
+      }
+      const birthYearHijri = birth && parseGedcomYear(gedcomChildValue(birth, '_HIJR'));
+      if (birthYearHijri) member.birthYearHijri = birthYearHijri;
+
+      const death = gedcomChild(record, 'DEAT');
+      member.status = death ? 'Deceased' : 'Living';
+      const deathDate = death && gedcomChildValue(death, 'DATE');
+      const deathYear = parseGedcomYear(deathDate);
+      if (deathYear) {
+        member.deathYear = deathYear;
+        member.deathYearPrecision = parseGedcomPrecision(deathDate);
+      }
+      const deathYearHijri = death && parseGedcomYear(gedcomChildValue(death, '_HIJR'));
+      if (deathYearHijri) member.deathYearHijri = deathYearHijri;
+
+      const occupation = gedcomChildValue(record, 'OCCU');
+      if (occupation) member.occupation = occupation;
+
+      const residence = gedcomChild(record, 'RESI');
+      const place = residence && gedcomChildValue(residence, 'PLAC');
+      if (place) member.city = place.split(',')[0].trim();
+
+      const phone = (residence && gedcomChildValue(residence, 'PHON')) || gedcomChildValue(record, 'PHON');
+      if (phone) member.phone = phone;
+      const email = (residence && gedcomChildValue(residence, 'EMAIL')) || gedcomChildValue(record, 'EMAIL');
+      if (email) member.email = email;
+
+      const note = gedcomChild(record, 'NOTE') || gedcomChild(record, 'SNOTE');
+      if (note) {
+        // Notes may point to a shared NOTE/SNOTE record
+        const biography = /^@[^@]+@$/.test(note.value) ? byXref.get(note.value)?.value : note.value;
+        if (biography) member.biography = biography;
+      }
+
+      const generation = parseInt(gedcomChildValue(record, '_GEN') || '', 10);
+      if (!isNaN(generation)) member.generation = generation;
+
+      members.set(record.xref!, member);
+    }
+
+    // Link children to parents
+    for (const family of families) {
+      const husbandXref = gedcomChildValue(family, 'HUSB');
+      const wifeXref = gedcomChildValue(family, 'WIFE');
+      const fatherId = husbandXref ? idByXref.get(husbandXref) : undefined;
+      const motherId = wifeXref ? idByXref.get(wifeXref) : undefined;
+      const externalWife = wifeXref && externalWives.has(wifeXref) ? byXref.get(wifeXref) : undefined;
+      const externalMotherName = externalWife ? parseGedcomName(externalWife).given : null;
+
+      for (const child of family.children.filter(c => c.tag === 'CHIL')) {
+        const member = members.get(child.value);
+        if (!member) continue;
+        if (fatherId) member.fatherId = fatherId;
+        if (motherId) member.motherId = motherId;
+        else if (externalMotherName) member.externalMotherName = externalMotherName;
+      }
+    }
+
+    // Fill in the name chain and generation from the father links
+    const memberById = new Map(Array.from(members.values()).map(m => [m.id!, m]));
+    const getFather = (member: Partial<FamilyMember> | undefined) =>
+      member?.fatherId ? memberById.get(member.fatherId) : undefined;
+
+    const getGeneration = (member: Partial<FamilyMember>, depth = 0): number => {
+      if (member.generation) return member.generation;
+      const father = getFather(member);
+      // Guard against cycles in malformed files
+      return father && depth < 50 ? getGeneration(father, depth + 1) + 1 : 1;
+    };
+
+    memberById.forEach(member => {
+      const father = getFather(member);
+      const grandfather = getFather(father);
+      const greatGrandfather = getFather(grandfather);
+      if (father?.firstName) member.fatherName = father.firstName;
+      if (grandfather?.firstName) member.grandfatherName = grandfather.firstName;
+      if (greatGrandfather?.firstName) member.greatGrandfatherName = greatGrandfather.firstName;
+    });
+    memberById.forEach(member => {
+      member.generation = getGeneration(member);
+    });
+
+    return { members: Array.from(members.values()) };
+  } catch (e) {
+    return { members: [], error: 'خطأ في تحليل GEDCOM: ' + (e as Error).message };
+  }
+}
+
+/**
+ * Build the record tree from GEDCOM lines, joining CONT/CONC continuations
+ */
+function parseGedcomRecords(content: string): GedcomNode[] {
+  const records: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  for (const rawLine of lines) {
+    // Keep trailing spaces, they can be part of a CONC value
+    const line = rawLine.replace(/^\s+/, '');
+    if (!line) continue;
+
+    const match = line.match(/^(\d+)\s+(?:(@[^@\s]+@)\s+)?(\S+)(?: (.*))?$/);
+    if (!match) {
+      throw new Error(`سطر غير صالح: ${line}`);
+    }
+
+    const level = parseInt(match[1], 10);
+    const value = (match[4] || '').replace(/@@/g, '@');
+    const node: GedcomNode = { level, xref: match[2] || null, tag: match[3].toUpperCase(), value, children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    if (parent && (node.tag === 'CONT' || node.tag === 'CONC')) {
+      parent.value += (node.tag === 'CONT' ? '\n' : '') + node.value;
+      continue;
+    }
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      records.push(node);
+    }
+    stack.push(node);
+  }
+
+  return records;
+}
+
+function gedcomChild(node: GedcomNode, tag: string): GedcomNode | undefined {
+  return node.children.find(c => c.tag === tag);
+}
+
+function gedcomChildValue(node: GedcomNode, tag: string): string | undefined {
+  return gedcomChild(node, tag)?.value.trim() || undefined;
+}
+
+function stripXref(xref: string): string {
+  return xref.replace(/@/g, '');
+}
+
+/**
+ * Split "Given /Surname/" names, preferring explicit GIVN/SURN parts
+ */
+function parseGedcomName(record: GedcomNode): { given: string; surname: string } {
+  const nameNode = gedcomChild(record, 'NAME');
+  if (!nameNode) return { given: '', surname: '' };
+
+  const match = nameNode.value.match(/^([^/]*)(?:\/([^/]*)\/)?/);
+  const given = gedcomChildValue(nameNode, 'GIVN') || (match?.[1] || '').trim();
+  const surname = gedcomChildValue(nameNode, 'SURN') || (match?.[2] || '').trim();
+
+  return { given, surname };
+}
+
+/**
+ * Extract the year from a GEDCOM date ("12 MAR 1950", "ABT 1900", "BET 1900 AND 1910")
+ */
+function parseGedcomYear(date: string | undefined): number | undefined {
+  if (!date) return undefined;
+  const match = date.match(/\b(\d{3,4})\b/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Precision of a GEDCOM date: ABT/EST/CAL/BEF/AFT are approximate,
+ * a BET range covering one decade (as we export it) is a decade
+ */
+function parseGedcomPrecision(date: string | undefined): DatePrecision {
+  if (!date) return 'EXACT';
+  const range = date.match(/^BET\s+(\d{3,4})\s+AND\s+(\d{3,4})$/i);
+  if (range) {
+    const from = parseInt(range[1], 10);
+    const to = parseInt(range[2], 10);
+    return from % 10 === 0 && to === from + 9 ? 'DECADE' : 'APPROXIMATE';
+  }
+  return /^(ABT|EST|CAL|BEF|AFT|FROM)\b/i.test(date) ? 'APPROXIMATE' : 'EXACT';
+}
+
 // ============================================
 // HELPERS
 // ============================================
@@ -647,6 +934,10 @@ function mapExcelHeaders(headers: string[]): (keyof FamilyMember | null)[] {
     'تاريخ الميلاد': 'birthYear',
     'سنة الوفاة': 'deathYear',
     'تاريخ الوفاة': 'deathYear',
+    'سنة الميلاد (هجري)': 'birthYearHijri',
+    'سنة الوفاة (هجري)': 'deathYearHijri',
+    'دقة سنة الميلاد': 'birthYearPrecision',
+    'دقة سنة الوفاة': 'deathYearPrecision',
     'عدد الأبناء': 'sonsCount',
     'عدد البنات': 'daughtersCount',
     'الجيل': 'generation',
@@ -693,6 +984,10 @@ function mapExcelHeaders(headers: string[]): (keyof FamilyMember | null)[] {
     'Death Year': 'deathYear',
     'Year of Death': 'deathYear',
     'Died': 'deathYear',
+    'Birth Year (AH)': 'birthYearHijri',
+    'Death Year (AH)': 'deathYearHijri',
+    'Birth Year Precision': 'birthYearPrecision',
+    'Death Year Precision': 'deathYearPrecision',
     'Sons Count': 'sonsCount',
     'Number of Sons': 'sonsCount',
     'Daughters Count': 'daughtersCount',
@@ -731,7 +1026,7 @@ function mapExcelHeaders(headers: string[]): (keyof FamilyMember | null)[] {
  * Convert Excel cell value to appropriate type for FamilyMember field
  */
 function convertExcelValue(field: keyof FamilyMember, value: string): unknown {
-  const numericFields = ['birthYear', 'deathYear', 'sonsCount', 'daughtersCount', 'generation'];
+  const numericFields = ['birthYear', 'deathYear', 'birthYearHijri', 'deathYearHijri', 'sonsCount', 'daughtersCount', 'generation'];
 
   if (numericFields.includes(field)) {
     // Handle Excel date serial numbers for birth/death years
@@ -756,6 +1051,10 @@ function convertExcelValue(field: keyof FamilyMember, value: string): unknown {
     return value;
   }
 
+  if (field === 'birthYearPrecision' || field === 'deathYearPrecision') {
+    return parsePrecisionValue(value);
+  }
+
   // Convert Arabic status to English
   if (field === 'status') {
     const normalized = value.toLowerCase().trim();
@@ -214,7 +214,7 @@ export function getLineageBranchColor(
  */
 export function getLineageBranchHexColor(
   branchId: string | null,
-  allGen2Branches: FamilyMember[]
+  allGen2Branches: Pick<FamilyMember, 'id'>[]
 ): string {
   if (!branchId) return '#6b7280'; // gray-500
 
@@ -9,16 +9,23 @@
  * - subBranchName: Name of Gen 3 ancestor
  * - sonsCount: Number of male children
  * - daughtersCount: Number of female children
+ * - Children grouped by mother (for fathers with more than one wife)
  */
 
 export interface FamilyMemberBase {
   id: string;
   firstName: string;
   fatherId: string | null;
+  motherId?: string | null;
+  externalMotherName?: string | null;
   gender: string;
   generation: number;
+  birthYear?: number | null;
 }
 
+// Key used for children whose mother is not recorded
+export const UNKNOWN_MOTHER_KEY = 'unknown';
+
 /**
  * Build a map of parent ID to children for efficient lookup
  */
@@ -36,6 +43,82 @@ export function buildChildrenMap<T extends FamilyMemberBase>(members: T[]): Map<
   return childrenMap;
 }
 
+/**
+ * Get the key identifying a member's mother
+ * In-tree mothers are keyed by ID, external mothers by "ext:<name>"
+ */
+export function getMotherKey(member: FamilyMemberBase): string {
+  if (member.motherId) return member.motherId;
+  const externalName = member.externalMotherName?.trim();
+  if (externalName) return `ext:${externalName}`;
+  return UNKNOWN_MOTHER_KEY;
+}
+
+/**
+ * Get the key identifying the wife of a marriage - matches getMotherKey()
+ */
+export function getWifeKey(marriage: { wifeId?: string | null; externalWifeName?: string | null }): string {
+  if (marriage.wifeId) return marriage.wifeId;
+  const externalName = marriage.externalWifeName?.trim();
+  if (externalName) return `ext:${externalName}`;
+  return UNKNOWN_MOTHER_KEY;
+}
+
+/**
+ * Group siblings by mother
+ * Groups follow the wife order when known (motherKey -> order), otherwise
+ * the birth year of the eldest child. Unknown mother always comes last.
+ */
+export function groupChildrenByMother<T extends FamilyMemberBase>(
+  children: T[],
+  wifeOrder?: Map<string, number>
+): { motherKey: string; children: T[] }[] {
+  const groups = new Map<string, T[]>();
+
+  for (const child of children) {
+    const key = getMotherKey(child);
+    const group = groups.get(key) || [];
+    group.push(child);
+    groups.set(key, group);
+  }
+
+  const eldestYear = (group: T[]) =>
+    Math.min(...group.map(c => c.birthYear ?? Number.MAX_SAFE_INTEGER));
+
+  return Array.from(groups.entries())
+    .map(([motherKey, group]) => ({
+      motherKey,
+      children: [...group].sort((a, b) => (a.birthYear || 0) - (b.birthYear || 0)),
+    }))
+    .sort((a, b) => {
+      if (a.motherKey === UNKNOWN_MOTHER_KEY) return 1;
+      if (b.motherKey === UNKNOWN_MOTHER_KEY) return -1;
+      const orderA = wifeOrder?.get(a.motherKey);
+      const orderB = wifeOrder?.get(b.motherKey);
+      if (orderA !== undefined && orderB !== undefined && orderA !== orderB) {
+        return orderA - orderB;
+      }
+      return eldestYear(a.children) - eldestYear(b.children);
+    });
+}
+
+/**
+ * Build a map of father ID to his children grouped by mother
+ * wifeOrders maps husband ID -> (motherKey -> wife order)
+ */
+export function buildChildrenByMotherMap<T extends FamilyMemberBase>(
+  members: T[],
+  wifeOrders?: Map<string, Map<string, number>>
+): Map<string, { motherKey: string; children: T[] }[]> {
+  const result = new Map<string, { motherKey: string; children: T[] }[]>();
+
+  buildChildrenMap(members).forEach((children, fatherId) => {
+    result.set(fatherId, groupChildrenByMother(children, wifeOrders?.get(fatherId)));
+  });
+
+  return result;
+}
+
 /**
  * Build a map of ID to member for efficient lookup
  */
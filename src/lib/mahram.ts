@@ -0,0 +1,258 @@
+// آل شايع Family Tree - Mahram (المحارم) Calculator
+// Decides whether two members are mahram through blood (النسب),
+// milk kinship (الرضاعة) or marriage (المصاهرة)
+
+import { BreastfeedingRelationship, FamilyMember, Marriage } from './types';
+
+export type MahramRuleType = 'blood' | 'milk' | 'marriage';
+
+export type MahramRuleCode =
+  | 'ASCENDANT'
+  | 'DESCENDANT'
+  | 'SIBLING_LINE'
+  | 'AUNT_UNCLE'
+  | 'SPOUSE_OF_ASCENDANT'
+  | 'SPOUSE_OF_DESCENDANT'
+  | 'ASCENDANT_OF_SPOUSE'
+  | 'DESCENDANT_OF_SPOUSE';
+
+export interface MahramRule {
+  type: MahramRuleType;
+  code: MahramRuleCode;
+  labelAr: string;
+  labelEn: string;
+  basisAr: string;
+}
+
+export interface MahramResult {
+  isMahram: boolean;
+  rule: MahramRule | null;
+  // Common ancestor (blood/milk) or the spouse linking the two (marriage)
+  viaId: string | null;
+  reasonAr: string;
+  reasonEn: string;
+}
+
+export interface MahramContext {
+  members: Pick<FamilyMember, 'id' | 'gender' | 'fatherId' | 'motherId'>[];
+  breastfeeding: Pick<BreastfeedingRelationship, 'childId' | 'nurseId' | 'milkFatherId'>[];
+  marriages: Pick<Marriage, 'husbandId' | 'wifeId'>[];
+}
+
+const RULE_LABELS: Record<MahramRuleCode, { ar: string; en: string }> = {
+  ASCENDANT: { ar: 'من الأصول (الآباء والأمهات وإن علوا)', en: 'Ancestor (parent, grandparent...)' },
+  DESCENDANT: { ar: 'من الفروع (الأبناء والبنات وإن نزلوا)', en: 'Descendant (child, grandchild...)' },
+  SIBLING_LINE: { ar: 'من فروع الأبوين (الإخوة والأخوات وأبناؤهم)', en: 'Sibling or sibling\'s descendant' },
+  AUNT_UNCLE: { ar: 'من فروع الأجداد المباشرين (الأعمام والعمات والأخوال والخالات)', en: 'Uncle or aunt of the person or of an ancestor' },
+  SPOUSE_OF_ASCENDANT: { ar: 'زوج أحد الأصول (زوجة الأب أو الجد، زوج الأم أو الجدة)', en: 'Spouse of an ancestor' },
+  SPOUSE_OF_DESCENDANT: { ar: 'زوج أحد الفروع (زوجة الابن، زوج البنت)', en: 'Spouse of a descendant' },
+  ASCENDANT_OF_SPOUSE: { ar: 'من أصول الزوج أو الزوجة', en: 'Ancestor of the spouse' },
+  DESCENDANT_OF_SPOUSE: { ar: 'من فروع الزوج أو الزوجة (بعد الدخول)', en: 'Descendant of the spouse (after consummation)' },
+};
+
+const RULE_BASIS: Record<MahramRuleType, string> = {
+  blood: 'سورة النساء، الآية 23',
+  milk: 'حديث: «يحرم من الرضاع ما يحرم من النسب»',
+  marriage: 'سورة النساء، الآيتان 22 و23',
+};
+
+const TYPE_LABELS: Record<MahramRuleType, { ar: string; en: string }> = {
+  blood: { ar: 'النسب', en: 'blood' },
+  milk: { ar: 'الرضاعة', en: 'milk kinship' },
+  marriage: { ar: 'المصاهرة', en: 'marriage' },
+};
+
+// Ancestor ID -> shortest distance through blood only and through any milk link
+type AncestorMap = Map<string, { blood?: number; milk?: number }>;
+
+function buildRule(type: MahramRuleType, code: MahramRuleCode): MahramRule {
+  const label = RULE_LABELS[code];
+  return {
+    type,
+    code,
+    labelAr: type === 'milk' ? `${label.ar} - من الرضاعة` : label.ar,
+    labelEn: type === 'milk' ? `${label.en} through milk kinship` : label.en,
+    basisAr: RULE_BASIS[type],
+  };
+}
+
+function notMahram(reasonAr: string, reasonEn: string): MahramResult {
+  return { isMahram: false, rule: null, viaId: null, reasonAr, reasonEn };
+}
+
+/**
+ * Create a checker over one snapshot of the tree, caching ancestor lookups
+ */
+export function createMahramChecker(context: MahramContext) {
+  const memberMap = new Map(context.members.map(m => [m.id, m]));
+
+  // Parent links: blood parents plus milk parents of a nursed child.
+  // Milk links only go up from the nursed child, so the child's own
+  // blood relatives do not become related to the milk family.
+  const parents = new Map<string, { id: string; milk: boolean }[]>();
+  const addParent = (childId: string, parentId: string | null | undefined, milk: boolean) => {
+    if (!parentId || parentId === childId) return;
+    parents.set(childId, [...(parents.get(childId) || []), { id: parentId, milk }]);
+  };
+  context.members.forEach(m => {
+    addParent(m.id, m.fatherId, false);
+    addParent(m.id, m.motherId, false);
+  });
+  context.breastfeeding.forEach(b => {
+    addParent(b.childId, b.nurseId, true);
+    addParent(b.childId, b.milkFatherId, true);
+  });
+
+  const spouses = new Map<string, string[]>();
+  context.marriages.forEach(m => {
+    if (!m.wifeId) return;
+    spouses.set(m.husbandId, [...(spouses.get(m.husbandId) || []), m.wifeId]);
+    spouses.set(m.wifeId, [...(spouses.get(m.wifeId) || []), m.husbandId]);
+  });
+
+  const ancestorCache = new Map<string, AncestorMap>();
+
+  // Ancestors of a member including the member itself at distance 0
+  const getAncestors = (memberId: string): AncestorMap => {
+    const cached = ancestorCache.get(memberId);
+    if (cached) return cached;
+
+    const result: AncestorMap = new Map([[memberId, { blood: 0 }]]);
+    const queue: { id: string; distance: number; milk: boolean }[] = [{ id: memberId, distance: 0, milk: false }];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const parent of parents.get(current.id) || []) {
+        const milk = current.milk || parent.milk;
+        const distance = current.distance + 1;
+        const entry = result.get(parent.id) || {};
+        const key = milk ? 'milk' : 'blood';
+        if (entry[key] !== undefined) continue;
+        entry[key] = distance;
+        result.set(parent.id, entry);
+        queue.push({ id: parent.id, distance, milk });
+      }
+    }
+
+    ancestorCache.set(memberId, result);
+    return result;
+  };
+
+  // Blood/milk rule between two members: they are mahram when one of them
+  // is at most one generation below a common ancestor
+  const findKinshipRule = (aId: string, bId: string): { rule: MahramRule; viaId: string } | null => {
+    const aAncestors = getAncestors(aId);
+    const bAncestors = getAncestors(bId);
+    let best: { rule: MahramRule; viaId: string } | null = null;
+
+    for (const [ancestorId, aEntry] of Array.from(aAncestors.entries())) {
+      const bEntry = bAncestors.get(ancestorId);
+      if (!bEntry) continue;
+
+      for (const aMilk of [false, true]) {
+        for (const bMilk of [false, true]) {
+          const up = aMilk ? aEntry.milk : aEntry.blood;
+          const down = bMilk ? bEntry.milk : bEntry.blood;
+          if (up === undefined || down === undefined) continue;
+
+          let code: MahramRuleCode | null = null;
+          if (up === 0) code = 'DESCENDANT';
+          else if (down === 0) code = 'ASCENDANT';
+          else if (up === 1) code = 'SIBLING_LINE';
+          else if (down === 1) code = 'AUNT_UNCLE';
+          if (!code) continue;
+
+          const type: MahramRuleType = aMilk || bMilk ? 'milk' : 'blood';
+          // Blood takes precedence over milk when both apply
+          if (!best || (best.rule.type === 'milk' && type === 'blood')) {
+            best = { rule: buildRule(type, code), viaId: ancestorId };
+          }
+        }
+      }
+    }
+
+    return best;
+  };
+
+  const isAncestor = (ancestorId: string, memberId: string) =>
+    ancestorId !== memberId && getAncestors(memberId).has(ancestorId);
+
+  const findMarriageRule = (aId: string, bId: string): { rule: MahramRule; viaId: string } | null => {
+    // b is the spouse of an ancestor of a (stepmother, stepfather)
+    for (const spouseId of spouses.get(bId) || []) {
+      if (isAncestor(spouseId, aId)) return { rule: buildRule('marriage', 'SPOUSE_OF_ASCENDANT'), viaId: spouseId };
+    }
+    // b is the spouse of a descendant of a (daughter/son-in-law)
+    for (const spouseId of spouses.get(bId) || []) {
+      if (isAncestor(aId, spouseId)) return { rule: buildRule('marriage', 'SPOUSE_OF_DESCENDANT'), viaId: spouseId };
+    }
+    for (const spouseId of spouses.get(aId) || []) {
+      // b is an ancestor of a's spouse (mother/father-in-law)
+      if (isAncestor(bId, spouseId)) return { rule: buildRule('marriage', 'ASCENDANT_OF_SPOUSE'), viaId: spouseId };
+      // b is a descendant of a's spouse (stepchild)
+      if (isAncestor(spouseId, bId)) return { rule: buildRule('marriage', 'DESCENDANT_OF_SPOUSE'), viaId: spouseId };
+    }
+    return null;
+  };
+
+  /**
+   * Check whether member b is a mahram of member a
+   */
+  const check = (aId: string, bId: string): MahramResult => {
+    const a = memberMap.get(aId);
+    const b = memberMap.get(bId);
+
+    if (!a || !b) return notMahram('العضو غير موجود', 'Member not found');
+    if (aId === bId) return notMahram('نفس الشخص', 'Same person');
+    if (a.gender === b.gender) {
+      return notMahram('المحرمية تكون بين الرجل والمرأة', 'Mahram status applies between a man and a woman');
+    }
+
+    const match = findKinshipRule(aId, bId) || findMarriageRule(aId, bId);
+    if (!match) {
+      return notMahram(
+        'ليس من المحارم - لا توجد قرابة نسب أو رضاعة أو مصاهرة محرِّمة مسجلة',
+        'Not mahram - no prohibiting blood, milk or marriage relation is recorded'
+      );
+    }
+
+    const typeLabel = TYPE_LABELS[match.rule.type];
+    return {
+      isMahram: true,
+      rule: match.rule,
+      viaId: match.viaId,
+      reasonAr: `محرم بسبب ${typeLabel.ar}: ${match.rule.labelAr}`,
+      reasonEn: `Mahram through ${typeLabel.en}: ${match.rule.labelEn}`,
+    };
+  };
+
+  return { check };
+}
+
+/**
+ * Check whether two members are mahram
+ */
+export function checkMahram(aId: string, bId: string, context: MahramContext): MahramResult {
+  return createMahramChecker(context).check(aId, bId);
+}
+
+/**
+ * List all recorded mahrams of a member
+ */
+export function findMahrams(
+  memberId: string,
+  context: MahramContext
+): { memberId: string; rule: MahramRule; viaId: string | null }[] {
+  const checker = createMahramChecker(context);
+  const result: { memberId: string; rule: MahramRule; viaId: string | null }[] = [];
+
+  for (const other of context.members) {
+    if (other.id === memberId) continue;
+    const check = checker.check(memberId, other.id);
+    if (check.isMahram && check.rule) {
+      result.push({ memberId: other.id, rule: check.rule, viaId: check.viaId });
+    }
+  }
+
+  return result;
+}
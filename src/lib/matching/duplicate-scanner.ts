@@ -0,0 +1,162 @@
+// آل شايع Family Tree - Duplicate Scanner
+// Finds likely duplicate members across the whole tree using the name matcher
+
+import { FamilyMember } from '../types';
+import { arabicPhonetic, comprehensiveNameMatch } from './arabic-utils';
+import { findMatches } from './name-matcher';
+
+/**
+ * A pair of members that are likely the same person.
+ * sourceId is always the smaller ID so a pair has a single orientation.
+ */
+export interface DuplicatePairMatch {
+  sourceId: string;
+  targetId: string;
+  score: number;               // 0-100
+  reasons: string[];
+}
+
+export interface DuplicateScanProgress {
+  processedBlocks: number;
+  totalBlocks: number;
+  pairsFound: number;
+}
+
+export interface DuplicateScanOptions {
+  minimumScore: number;        // Default: 70
+  maxBirthYearGap: number;     // Default: 5
+}
+
+const DEFAULT_SCAN_OPTIONS: DuplicateScanOptions = {
+  minimumScore: 70,
+  maxBirthYearGap: 5,
+};
+
+/**
+ * Group members by the phonetic key of their first name and generation.
+ * Only members in the same block are compared, so the scan is not O(n²).
+ */
+export function buildDuplicateBlocks(members: FamilyMember[]): FamilyMember[][] {
+  const blocks = new Map<string, FamilyMember[]>();
+
+  for (const member of members) {
+    if (!member.firstName) continue;
+    const key = `${arabicPhonetic(member.firstName)}:${member.generation}`;
+    const block = blocks.get(key);
+    if (block) block.push(member);
+    else blocks.set(key, [member]);
+  }
+
+  return Array.from(blocks.values()).filter(block => block.length > 1);
+}
+
+/**
+ * The block members plus their fathers, grandfathers and great-grandfathers,
+ * which is all findMatches needs to score the ancestor chain
+ */
+function withAncestors(block: FamilyMember[], memberMap: Map<string, FamilyMember>): FamilyMember[] {
+  const subset = new Map(block.map(m => [m.id, m]));
+
+  for (const member of block) {
+    let ancestorId = member.fatherId;
+    for (let level = 0; level < 3 && ancestorId; level++) {
+      const ancestor = memberMap.get(ancestorId);
+      if (!ancestor) break;
+      subset.set(ancestor.id, ancestor);
+      ancestorId = ancestor.fatherId;
+    }
+  }
+
+  return Array.from(subset.values());
+}
+
+/**
+ * Find duplicate pairs within one block. For each member, findMatches finds
+ * the fathers whose lineage matches the member's father, grandfather and
+ * great-grandfather names; their other children with a matching first name
+ * are the duplicates.
+ */
+function findDuplicatesInBlock(
+  block: FamilyMember[],
+  memberMap: Map<string, FamilyMember>,
+  options: DuplicateScanOptions
+): DuplicatePairMatch[] {
+  const subset = withAncestors(block, memberMap);
+  const blockIds = new Set(block.map(m => m.id));
+  const pairs = new Map<string, DuplicatePairMatch>();
+
+  for (const member of block) {
+    const father = member.fatherId ? memberMap.get(member.fatherId) : undefined;
+    const grandfather = father?.fatherId ? memberMap.get(father.fatherId) : undefined;
+    const fatherName = father?.firstName || member.fatherName;
+    if (!fatherName) continue;
+
+    const result = findMatches(
+      {
+        firstName: member.firstName,
+        fatherName,
+        grandfatherName: grandfather?.firstName || member.grandfatherName || undefined,
+        greatGrandfatherName: (grandfather?.fatherId && memberMap.get(grandfather.fatherId)?.firstName)
+          || member.greatGrandfatherName || undefined,
+      },
+      subset,
+      { includeLowConfidence: false }
+    );
+
+    for (const candidate of result.allMatches) {
+      for (const other of candidate.siblings) {
+        if (other.id === member.id || !blockIds.has(other.id)) continue;
+        if (other.gender !== member.gender) continue;
+        if (
+          member.birthYear && other.birthYear &&
+          Math.abs(member.birthYear - other.birthYear) > options.maxBirthYearGap
+        ) continue;
+
+        // Phonetic and fuzzy first-name matches are too loose for duplicates
+        const sameFather = other.fatherId === member.fatherId;
+        const nameMatch = comprehensiveNameMatch(member.firstName, other.firstName);
+        if (!nameMatch.isMatch || nameMatch.confidence !== 'high') continue;
+
+        const score = Math.round(candidate.matchScore * 0.6 + nameMatch.similarity * 0.4);
+        if (score < options.minimumScore) continue;
+
+        const reasons = [`تطابق الاسم الأول (${nameMatch.similarity}%)`];
+        if (sameFather) reasons.push('نفس الأب');
+        else reasons.push(`تطابق نسب الأب (${candidate.matchScore}%)`);
+        if (member.birthYear && member.birthYear === other.birthYear) reasons.push('نفس سنة الميلاد');
+
+        const [sourceId, targetId] = [member.id, other.id].sort();
+        const key = `${sourceId}|${targetId}`;
+        const existing = pairs.get(key);
+        if (!existing || existing.score < score) {
+          pairs.set(key, { sourceId, targetId, score, reasons });
+        }
+      }
+    }
+  }
+
+  return Array.from(pairs.values());
+}
+
+/**
+ * Scan the whole tree for duplicate members. Yields to the event loop
+ * between blocks so a scan running in the server stays responsive.
+ */
+export async function findDuplicatePairs(
+  members: FamilyMember[],
+  options: Partial<DuplicateScanOptions> = {},
+  onProgress?: (progress: DuplicateScanProgress) => void | Promise<void>
+): Promise<DuplicatePairMatch[]> {
+  const cfg = { ...DEFAULT_SCAN_OPTIONS, ...options };
+  const memberMap = new Map(members.map(m => [m.id, m]));
+  const blocks = buildDuplicateBlocks(members);
+  const pairs: DuplicatePairMatch[] = [];
+
+  for (let index = 0; index < blocks.length; index++) {
+    pairs.push(...findDuplicatesInBlock(blocks[index], memberMap, cfg));
+    await onProgress?.({ processedBlocks: index + 1, totalBlocks: blocks.length, pairsFound: pairs.length });
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
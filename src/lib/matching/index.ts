@@ -3,3 +3,4 @@
 
 export * from './arabic-utils';
 export * from './name-matcher';
+export * from './duplicate-scanner';
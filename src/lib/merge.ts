@@ -0,0 +1,114 @@
+/**
+ * Member Merge Utilities for آل شايع Family Tree
+ *
+ * Decides the field values of the surviving member when two duplicate
+ * members are merged, using the same MergeStrategy options as imports,
+ * with optional field-by-field overrides chosen by the admin.
+ */
+
+import { mergeMembers, MergeStrategy } from './import-utils';
+import type { FamilyMember } from './types';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = [
+  'KEEP_EXISTING',
+  'USE_IMPORTED',
+  'MERGE_PREFER_EXISTING',
+  'MERGE_PREFER_IMPORTED',
+];
+
+// Fields whose value can come from either member. Identity and tree
+// position (id, fatherId, generation, lineage) always stay with the survivor.
+export const MERGEABLE_FIELDS = [
+  'firstName',
+  'fatherName',
+  'grandfatherName',
+  'greatGrandfatherName',
+  'fullNameAr',
+  'fullNameEn',
+  'gender',
+  'birthYear',
+  'deathYear',
+  'birthYearHijri',
+  'deathYearHijri',
+  'birthYearPrecision',
+  'deathYearPrecision',
+  'status',
+  'motherId',
+  'externalMotherName',
+  'phone',
+  'email',
+  'city',
+  'occupation',
+  'biography',
+  'photoUrl',
+] as const;
+
+export type MergeableField = typeof MERGEABLE_FIELDS[number];
+
+// 'keep' takes the surviving member's value, 'merged' the removed member's
+export type MergeFieldChoice = 'keep' | 'merged';
+
+export type MergeFieldChoices = Partial<Record<MergeableField, MergeFieldChoice>>;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function withoutEmptyFields(member: FamilyMember): Partial<FamilyMember> {
+  return Object.fromEntries(
+    Object.entries(member).filter(([, value]) => !isEmpty(value))
+  ) as Partial<FamilyMember>;
+}
+
+/**
+ * Field updates to apply to the surviving member. The strategy decides the
+ * defaults (MERGE_PREFER_EXISTING fills the survivor's empty fields), then
+ * per-field choices override them. Only changed fields are returned.
+ */
+export function resolveMergedFields(
+  survivor: FamilyMember,
+  merged: FamilyMember,
+  strategy: MergeStrategy = 'MERGE_PREFER_EXISTING',
+  choices: MergeFieldChoices = {}
+): Partial<Pick<FamilyMember, MergeableField>> {
+  // Empty values never win, so "prefer" strategies fill gaps from the other member
+  const base = mergeMembers(withoutEmptyFields(survivor) as FamilyMember, withoutEmptyFields(merged), strategy);
+
+  const updates: Record<string, unknown> = {};
+  for (const field of MERGEABLE_FIELDS) {
+    const choice = choices[field];
+    const value = choice === 'keep' ? survivor[field] : choice === 'merged' ? merged[field] : base[field];
+
+    // A member cannot become their own mother
+    if (field === 'motherId' && (value === survivor.id || value === merged.id)) continue;
+
+    if ((value ?? null) !== (survivor[field] ?? null)) {
+      updates[field] = value ?? null;
+    }
+  }
+
+  return updates as Partial<Pick<FamilyMember, MergeableField>>;
+}
+
+/**
+ * Replace a member ID inside a JSON array column (e.g. relatedMemberIds),
+ * without duplicating the surviving ID. Returns null when nothing changes.
+ */
+export function replaceMemberIdInList(
+  json: string | null | undefined,
+  fromId: string,
+  toId: string
+): string | null {
+  if (!json) return null;
+
+  let ids: unknown;
+  try {
+    ids = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(ids) || !ids.includes(fromId)) return null;
+
+  const replaced = ids.map(id => (id === fromId ? toId : id));
+  return JSON.stringify(Array.from(new Set(replaced)));
+}
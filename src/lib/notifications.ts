@@ -0,0 +1,104 @@
+// Notifications - Types, delivery preferences and digest text
+// Shared by the notification service (src/lib/services/notifications.ts),
+// the inbox at /notifications and the preferences at /settings/notifications.
+
+// ============================================
+// TYPES
+// ============================================
+
+export const NOTIFICATION_TYPES = [
+  'NEW_MEMBER_IN_BRANCH',
+  'UPDATE_REQUEST_APPROVED',
+  'PHOTO_TAGGED',
+  'GATHERING_INVITATION',
+  'JOURNAL_ABOUT_ANCESTOR',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, { ar: string; en: string }> = {
+  NEW_MEMBER_IN_BRANCH: { ar: 'فرد جديد في فرعي', en: 'New member in my branch' },
+  UPDATE_REQUEST_APPROVED: { ar: 'الموافقة على طلب التحديث', en: 'My update request approved' },
+  PHOTO_TAGGED: { ar: 'الإشارة إلي في صورة', en: 'Tagged in a photo' },
+  GATHERING_INVITATION: { ar: 'دعوة إلى لقاء', en: 'Gathering invitation' },
+  JOURNAL_ABOUT_ANCESTOR: { ar: 'قصة عن أحد أجدادي', en: 'Journal about my ancestor' },
+};
+
+export function isNotificationType(type: string): type is NotificationType {
+  return (NOTIFICATION_TYPES as readonly string[]).includes(type);
+}
+
+/** A notification as returned to the inbox */
+export interface InboxNotification {
+  id: string;
+  type: string;
+  titleAr: string;
+  titleEn: string;
+  messageAr: string;
+  messageEn: string;
+  linkUrl: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+  /** Send email and SMS once a day instead of as they happen */
+  digest: boolean;
+}
+
+export type NotificationPreferences = Record<NotificationType, NotificationChannels>;
+
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannels = {
+  inApp: true,
+  email: false,
+  sms: false,
+  digest: false,
+};
+
+/**
+ * Preferences for every type, from the rows the user saved. Unknown types
+ * are ignored and missing ones get the defaults.
+ */
+export function resolveNotificationPreferences(
+  rows: Array<{ type: string } & NotificationChannels>
+): NotificationPreferences {
+  const preferences = Object.fromEntries(
+    NOTIFICATION_TYPES.map(type => [type, { ...DEFAULT_NOTIFICATION_CHANNELS }])
+  ) as NotificationPreferences;
+
+  for (const { type, inApp, email, sms, digest } of rows) {
+    if (isNotificationType(type)) preferences[type] = { inApp, email, sms, digest };
+  }
+  return preferences;
+}
+
+// ============================================
+// DIGEST
+// ============================================
+
+export interface DigestItem {
+  titleAr: string;
+  messageAr: string;
+  linkUrl: string | null;
+}
+
+// SMS digests list titles only and stop here
+const SMS_DIGEST_MAX_ITEMS = 5;
+
+/**
+ * Daily digest SMS: a count, the first few titles and a link to the inbox
+ */
+export function buildDigestSms(items: DigestItem[], inboxUrl: string): string {
+  const lines = items.slice(0, SMS_DIGEST_MAX_ITEMS).map(item => `• ${item.titleAr}`);
+  const more = items.length - SMS_DIGEST_MAX_ITEMS;
+  if (more > 0) lines.push(`و${more} أخرى`);
+
+  return [`لديك ${items.length} إشعارات جديدة من شجرة آل شايع:`, ...lines, inboxUrl].join('\n');
+}
@@ -0,0 +1,8 @@
+// آل شايع Family Tree - Wall Chart Posters
+// Pure layout, SVG and PDF building blocks; src/lib/services/poster.ts loads
+// the members and rasterizes PDF pages.
+
+export * from './layout';
+export * from './paper';
+export * from './svg';
+export * from './pdf';
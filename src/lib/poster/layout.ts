@@ -0,0 +1,374 @@
+// آل شايع Family Tree - Poster Layouts
+// Places a descendant tree in abstract units: a top-down tree, a half-circle
+// fan chart or a full radial chart. Children are ordered eldest first and
+// laid out right to left so the poster reads like Arabic text.
+
+import { getLineageBranchHexColor } from '@/lib/lineage-utils';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const POSTER_LAYOUTS = ['DESCENDANT', 'FAN', 'RADIAL'] as const;
+
+export type PosterLayoutKind = typeof POSTER_LAYOUTS[number];
+
+export const POSTER_LAYOUT_LABELS: Record<PosterLayoutKind, { ar: string; en: string }> = {
+  DESCENDANT: { ar: 'شجرة النسب', en: 'Descendant tree' },
+  FAN: { ar: 'مروحة', en: 'Fan chart' },
+  RADIAL: { ar: 'دائرية', en: 'Radial' },
+};
+
+export interface PosterMember {
+  id: string;
+  fatherId: string | null;
+  /** Name printed on the node (first name, or the hidden-member label) */
+  name: string;
+  generation: number;
+  gender: string;
+  status: string;
+  /** Gen 2 branch founder */
+  lineageBranchId: string | null;
+  birthYear: number | null;
+  deathYear: number | null;
+  /** Shown as an unnamed node */
+  placeholder: boolean;
+}
+
+export interface PosterTreeNode {
+  member: PosterMember;
+  /** 0 for the poster's root */
+  depth: number;
+  children: PosterTreeNode[];
+  /** Leaves under the node (1 for a leaf); sets its share of the width or angle */
+  leaves: number;
+}
+
+export interface PosterBranch {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface PositionedNode {
+  member: PosterMember;
+  depth: number;
+  parentId: string | null;
+  /** Node center (descendant) or label anchor (fan, radial) */
+  x: number;
+  y: number;
+  /** Fill: the Gen 2 branch color, lighter for each generation */
+  color: string;
+  /** Descendant layout: hangs in a column of siblings under the parent */
+  stacked?: boolean;
+  /** Polar layouts: the node's sector, in radians, clockwise from the +x axis */
+  startAngle?: number;
+  endAngle?: number;
+  innerRadius?: number;
+  outerRadius?: number;
+}
+
+export interface PosterLayout {
+  kind: PosterLayoutKind;
+  width: number;
+  height: number;
+  /** Center of the fan or radial chart */
+  cx: number;
+  cy: number;
+  nodes: PositionedNode[];
+  /** Generation rows (descendant) or ring radii (fan, radial), root first */
+  bands: { depth: number; generation: number; from: number; to: number }[];
+  branches: PosterBranch[];
+}
+
+// Abstract units; the renderer scales the layout to the paper
+export const DESCENDANT_NODE_WIDTH = 100;
+export const DESCENDANT_NODE_HEIGHT = 44;
+const DESCENDANT_GAP = 12;
+const DESCENDANT_LEVEL_GAP = 56;
+const DESCENDANT_STACK_GAP = 8;
+const POLAR_ROOT_RADIUS = 60;
+const POLAR_RING_WIDTH = 90;
+
+const ROOT_COLOR = '#1E3A5F';
+
+// ============================================
+// TREE
+// ============================================
+
+function byAge(a: PosterMember, b: PosterMember): number {
+  if (a.birthYear != null && b.birthYear != null && a.birthYear !== b.birthYear) {
+    return a.birthYear - b.birthYear;
+  }
+  if (a.birthYear != null && b.birthYear == null) return -1;
+  if (a.birthYear == null && b.birthYear != null) return 1;
+  return a.id.localeCompare(b.id, undefined, { numeric: true });
+}
+
+/**
+ * Descendants of rootId (or of the oldest-generation member) down to
+ * maxDepth generations below it. Returns null when the root is unknown.
+ */
+export function buildPosterTree(
+  members: PosterMember[],
+  rootId?: string | null,
+  maxDepth?: number | null
+): PosterTreeNode | null {
+  const childrenOf = new Map<string, PosterMember[]>();
+  for (const member of members) {
+    if (!member.fatherId) continue;
+    const siblings = childrenOf.get(member.fatherId) || [];
+    siblings.push(member);
+    childrenOf.set(member.fatherId, siblings);
+  }
+
+  const root = rootId
+    ? members.find(member => member.id === rootId)
+    : [...members]
+      .filter(member => !member.fatherId)
+      .sort((a, b) => a.generation - b.generation || byAge(a, b))[0];
+  if (!root) return null;
+
+  const visited = new Set<string>();
+  const build = (member: PosterMember, depth: number): PosterTreeNode => {
+    visited.add(member.id);
+    const children = maxDepth != null && depth >= maxDepth
+      ? []
+      : (childrenOf.get(member.id) || [])
+        .filter(child => !visited.has(child.id))
+        .sort(byAge)
+        .map(child => build(child, depth + 1));
+    const leaves = children.length === 0 ? 1 : children.reduce((sum, child) => sum + child.leaves, 0);
+    return { member, depth, children, leaves };
+  };
+
+  return build(root, 0);
+}
+
+export function countPosterNodes(node: PosterTreeNode): number {
+  return 1 + node.children.reduce((sum, child) => sum + countPosterNodes(child), 0);
+}
+
+function treeDepth(node: PosterTreeNode): number {
+  return node.children.reduce((max, child) => Math.max(max, treeDepth(child)), node.depth);
+}
+
+// ============================================
+// COLORS
+// ============================================
+
+/**
+ * Mix a hex color with white; amount 0 keeps it, 1 gives white
+ */
+export function lightenHex(hex: string, amount: number): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const mix = (channel: number) => Math.round(channel + (255 - channel) * Math.min(1, Math.max(0, amount)));
+  const r = mix((value >> 16) & 0xff);
+  const g = mix((value >> 8) & 0xff);
+  const b = mix(value & 0xff);
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * Color band for a member: their Gen 2 branch color from
+ * getLineageBranchHexColor, lightened one step per generation below it
+ */
+export function generationBandColor(member: PosterMember, gen2Branches: { id: string }[]): string {
+  if (member.generation <= 1) return ROOT_COLOR;
+  const branchId = member.generation === 2 ? member.id : member.lineageBranchId;
+  const base = getLineageBranchHexColor(branchId, gen2Branches);
+  return lightenHex(base, Math.min(0.7, (member.generation - 2) * 0.14));
+}
+
+function collectBranches(members: PosterMember[]): { id: string }[] {
+  return members
+    .filter(member => member.generation === 2)
+    .sort(byAge);
+}
+
+// ============================================
+// LAYOUTS
+// ============================================
+
+// Children that are all leaves hang in one column under their parent
+function stacksChildren(node: PosterTreeNode): boolean {
+  return node.children.length > 1 && node.children.every(child => child.children.length === 0);
+}
+
+// Slots a subtree needs across the poster
+function slotCount(node: PosterTreeNode): number {
+  if (node.children.length === 0 || stacksChildren(node)) return 1;
+  return node.children.reduce((sum, child) => sum + slotCount(child), 0);
+}
+
+/**
+ * Top-down tree: each leaf gets one slot, parents sit centered over their
+ * children, and the eldest child is on the right. Sibling leaves are stacked
+ * in one column, and each generation row is as tall as its longest column.
+ */
+export function layoutDescendantTree(root: PosterTreeNode, members: PosterMember[]): PosterLayout {
+  const gen2Branches = collectBranches(members);
+  const slot = DESCENDANT_NODE_WIDTH + DESCENDANT_GAP;
+  const width = slotCount(root) * slot;
+  const depth = treeDepth(root);
+
+  // Longest column in each generation row
+  const stackHeights = Array.from({ length: depth + 1 }, () => 1);
+  const measure = (node: PosterTreeNode) => {
+    if (stacksChildren(node)) {
+      stackHeights[node.depth + 1] = Math.max(stackHeights[node.depth + 1], node.children.length);
+    }
+    node.children.forEach(measure);
+  };
+  measure(root);
+
+  const rowTops: number[] = [];
+  let top = 0;
+  for (const stackHeight of stackHeights) {
+    rowTops.push(top);
+    top += stackHeight * (DESCENDANT_NODE_HEIGHT + DESCENDANT_STACK_GAP) - DESCENDANT_STACK_GAP + DESCENDANT_LEVEL_GAP;
+  }
+  const nodeY = (row: number, index: number) =>
+    rowTops[row] + DESCENDANT_LEVEL_GAP / 2 + DESCENDANT_NODE_HEIGHT / 2 + index * (DESCENDANT_NODE_HEIGHT + DESCENDANT_STACK_GAP);
+
+  const nodes: PositionedNode[] = [];
+  const push = (node: PosterTreeNode, parentId: string | null, x: number, y: number, stacked: boolean) => {
+    nodes.push({
+      member: node.member,
+      depth: node.depth,
+      parentId,
+      x,
+      y,
+      color: generationBandColor(node.member, gen2Branches),
+      ...(stacked ? { stacked } : {}),
+    });
+  };
+
+  let nextSlot = 0;
+  const place = (node: PosterTreeNode, parentId: string | null): number => {
+    let x: number;
+    if (node.children.length === 0 || stacksChildren(node)) {
+      x = width - (nextSlot + 0.5) * slot;
+      nextSlot += 1;
+      node.children.forEach((child, index) => push(child, node.member.id, x, nodeY(child.depth, index), true));
+    } else {
+      const childXs = node.children.map(child => place(child, node.member.id));
+      x = (childXs[0] + childXs[childXs.length - 1]) / 2;
+    }
+    push(node, parentId, x, nodeY(node.depth, 0), false);
+    return x;
+  };
+  place(root, null);
+
+  const bands = stackHeights.map((_, d) => ({
+    depth: d,
+    generation: root.member.generation + d,
+    from: rowTops[d],
+    to: d < depth ? rowTops[d + 1] : top,
+  }));
+
+  return {
+    kind: 'DESCENDANT',
+    width,
+    height: top,
+    cx: width / 2,
+    cy: 0,
+    nodes,
+    bands,
+    branches: [],
+  };
+}
+
+/**
+ * Rings around the root: each node gets a sector of its parent's sector in
+ * proportion to its leaves. The fan spans the upper half circle, the radial
+ * chart the whole circle; both start on the right.
+ */
+export function layoutPolarTree(
+  root: PosterTreeNode,
+  members: PosterMember[],
+  kind: 'FAN' | 'RADIAL'
+): PosterLayout {
+  const gen2Branches = collectBranches(members);
+  const depth = treeDepth(root);
+  const outer = POLAR_ROOT_RADIUS + depth * POLAR_RING_WIDTH;
+  const sweep = kind === 'FAN' ? Math.PI : 2 * Math.PI;
+  const nodes: PositionedNode[] = [];
+
+  // Screen angles grow clockwise; going negative from 0 runs right -> top -> left
+  const place = (node: PosterTreeNode, parentId: string | null, start: number, end: number) => {
+    const innerRadius = node.depth === 0 ? 0 : POLAR_ROOT_RADIUS + (node.depth - 1) * POLAR_RING_WIDTH;
+    const outerRadius = node.depth === 0 ? POLAR_ROOT_RADIUS : innerRadius + POLAR_RING_WIDTH;
+    const mid = (start + end) / 2;
+    const anchor = node.depth === 0 ? 0 : (innerRadius + outerRadius) / 2;
+    nodes.push({
+      member: node.member,
+      depth: node.depth,
+      parentId,
+      x: Math.cos(mid) * anchor,
+      y: Math.sin(mid) * anchor,
+      color: generationBandColor(node.member, gen2Branches),
+      startAngle: start,
+      endAngle: end,
+      innerRadius,
+      outerRadius,
+    });
+
+    let cursor = start;
+    for (const child of node.children) {
+      const span = (end - start) * (child.leaves / node.leaves);
+      place(child, node.member.id, cursor, cursor + span);
+      cursor += span;
+    }
+  };
+  place(root, null, 0, -sweep);
+
+  const cx = outer;
+  const cy = outer;
+  for (const node of nodes) {
+    node.x += cx;
+    node.y += cy;
+  }
+
+  const bands = Array.from({ length: depth + 1 }, (_, d) => ({
+    depth: d,
+    generation: root.member.generation + d,
+    from: d === 0 ? 0 : POLAR_ROOT_RADIUS + (d - 1) * POLAR_RING_WIDTH,
+    to: POLAR_ROOT_RADIUS + d * POLAR_RING_WIDTH,
+  }));
+
+  return {
+    kind,
+    width: 2 * outer,
+    height: kind === 'FAN' ? outer + POLAR_ROOT_RADIUS : 2 * outer,
+    cx,
+    cy,
+    nodes,
+    bands,
+    branches: [],
+  };
+}
+
+/**
+ * Lay out the tree and list the Gen 2 branches it contains for the legend
+ */
+export function layoutPoster(root: PosterTreeNode, members: PosterMember[], kind: PosterLayoutKind): PosterLayout {
+  const layout = kind === 'DESCENDANT'
+    ? layoutDescendantTree(root, members)
+    : layoutPolarTree(root, members, kind);
+
+  const gen2Branches = collectBranches(members);
+  const shown = new Set(layout.nodes.map(node =>
+    node.member.generation === 2 ? node.member.id : node.member.lineageBranchId
+  ));
+  layout.branches = members
+    .filter(member => member.generation === 2 && shown.has(member.id))
+    .sort(byAge)
+    .map(member => ({
+      id: member.id,
+      name: member.name,
+      color: getLineageBranchHexColor(member.id, gen2Branches),
+    }));
+
+  return layout;
+}
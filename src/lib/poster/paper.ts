@@ -0,0 +1,80 @@
+// آل شايع Family Tree - Poster Paper Sizes and Tiling
+// ISO A sizes in millimetres. A poster larger than the printer's paper is
+// split into overlapping tiles that are trimmed and glued together.
+
+export const PAPER_SIZES = {
+  A0: { width: 841, height: 1189 },
+  A1: { width: 594, height: 841 },
+  A2: { width: 420, height: 594 },
+  A3: { width: 297, height: 420 },
+  A4: { width: 210, height: 297 },
+} as const;
+
+export type PaperSize = keyof typeof PAPER_SIZES;
+
+export const PAPER_SIZE_NAMES = Object.keys(PAPER_SIZES) as PaperSize[];
+
+export const POSTER_ORIENTATIONS = ['portrait', 'landscape'] as const;
+
+export type PosterOrientation = typeof POSTER_ORIENTATIONS[number];
+
+/** Glue margin shared by neighbouring tiles */
+export const TILE_OVERLAP_MM = 10;
+
+export interface PaperDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PosterTile {
+  row: number;
+  col: number;
+  /** Top-left corner on the poster, in mm */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function paperDimensions(size: PaperSize, orientation: PosterOrientation): PaperDimensions {
+  const { width, height } = PAPER_SIZES[size];
+  return orientation === 'portrait' ? { width, height } : { width: height, height: width };
+}
+
+function tileCount(length: number, tileLength: number): number {
+  if (length <= tileLength) return 1;
+  return Math.ceil((length - TILE_OVERLAP_MM) / (tileLength - TILE_OVERLAP_MM));
+}
+
+/**
+ * Sheets of tileSize covering the poster, right to left then top to bottom
+ * so the first sheet holds the top-right corner. The sheet orientation that
+ * needs fewer sheets is used.
+ */
+export function computePosterTiles(poster: PaperDimensions, tileSize: PaperSize): PosterTile[] {
+  const options = POSTER_ORIENTATIONS.map(orientation => {
+    const sheet = paperDimensions(tileSize, orientation);
+    const cols = tileCount(poster.width, sheet.width);
+    const rows = tileCount(poster.height, sheet.height);
+    return { sheet, cols, rows };
+  });
+  const { sheet, cols, rows } = options.reduce((best, option) =>
+    option.cols * option.rows < best.cols * best.rows ? option : best
+  );
+
+  const tiles: PosterTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const right = poster.width - col * (sheet.width - TILE_OVERLAP_MM);
+      tiles.push({
+        row,
+        col,
+        x: right - sheet.width,
+        y: row * (sheet.height - TILE_OVERLAP_MM),
+        width: sheet.width,
+        height: sheet.height,
+      });
+    }
+  }
+  return tiles;
+}
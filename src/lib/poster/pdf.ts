@@ -0,0 +1,84 @@
+// آل شايع Family Tree - Poster PDF Writer
+// A minimal PDF 1.4 file with one JPEG image per page. Pages are the SVG
+// poster (or its tiles) rasterized by the server, which handles Arabic
+// shaping and right-to-left text the way the SVG renders it.
+
+export interface PdfImagePage {
+  /** Page size in millimetres */
+  width: number;
+  height: number;
+  jpeg: Buffer;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Info dictionary strings as UTF-16BE so Arabic titles survive
+function pdfTextString(text: string): string {
+  const utf16 = Buffer.from(`\uFEFF${text}`, 'utf16le').swap16();
+  return `<${utf16.toString('hex')}>`;
+}
+
+/**
+ * Build a PDF with each image filling its page
+ */
+export function writeImagePdf(pages: PdfImagePage[], title: string): Buffer {
+  const chunks: Buffer[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Buffer) => {
+    const chunk = typeof data === 'string' ? Buffer.from(data, 'binary') : data;
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+  const object = (id: number, body: string | Buffer[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === 'string') write(body);
+    else body.forEach(write);
+    write('\nendobj\n');
+  };
+
+  // 1: catalog, 2: page tree, 3: info, then page, contents and image per page
+  const firstPageObject = 4;
+  const pageIds = pages.map((_, i) => firstPageObject + i * 3);
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, `<< /Title ${pdfTextString(title)} /Producer (Al-Shaye Family Tree) >>`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const width = (page.width * POINTS_PER_MM).toFixed(2);
+    const height = (page.height * POINTS_PER_MM).toFixed(2);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im${i} Do Q`;
+
+    object(pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] `
+      + `/Resources << /XObject << /Im${i} ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+    object(pageId + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    object(pageId + 2, [
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} `
+        + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+        'binary'
+      ),
+      page.jpeg,
+      Buffer.from('\nendstream', 'binary'),
+    ]);
+  });
+
+  const objectCount = firstPageObject + pages.length * 3;
+  const xref = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return Buffer.concat(chunks);
+}
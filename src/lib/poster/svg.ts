@@ -0,0 +1,331 @@
+// آل شايع Family Tree - Poster SVG Rendering
+// Draws a PosterLayout onto a page in millimetres: title block, the chart
+// scaled to fit, and a legend of Gen 2 branch colors. Text is right to left.
+
+import {
+  DESCENDANT_NODE_HEIGHT,
+  DESCENDANT_NODE_WIDTH,
+  type PositionedNode,
+  type PosterLayout,
+  type PosterMember,
+} from './layout';
+import type { PaperDimensions, PosterTile } from './paper';
+
+export interface PosterSvgOptions {
+  paper: PaperDimensions;
+  title: string;
+  subtitle?: string | null;
+  /** Printed under the legend, e.g. the print date */
+  footer?: string | null;
+}
+
+const FONT_FAMILY = "'Tajawal', 'Noto Naskh Arabic', 'Amiri', 'DejaVu Sans', sans-serif";
+const LINK_COLOR = '#94a3b8';
+const PLACEHOLDER_FILL = '#e5e7eb';
+const BAND_FILLS = ['#f8fafc', '#ffffff'];
+// Gap between a column of stacked siblings and its trunk line
+const DESCENDANT_STACK_INDENT = 5;
+// Average Arabic glyph width as a share of the font size, for fitting labels
+const GLYPH_WIDTH = 0.55;
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function formatPosterYears(member: PosterMember): string {
+  if (member.birthYear && member.deathYear) return `${member.birthYear}–${member.deathYear}`;
+  if (member.birthYear) return `${member.birthYear}`;
+  if (member.deathYear) return `–${member.deathYear}`;
+  return '';
+}
+
+function textColorOn(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const luminance = 0.299 * ((value >> 16) & 0xff) + 0.587 * ((value >> 8) & 0xff) + 0.114 * (value & 0xff);
+  return luminance > 150 ? '#1f2937' : '#ffffff';
+}
+
+function fitFontSize(text: string, maxWidth: number, maxSize: number): number {
+  if (!text) return maxSize;
+  return Math.min(maxSize, maxWidth / (text.length * GLYPH_WIDTH));
+}
+
+function polar(cx: number, cy: number, radius: number, angle: number): [number, number] {
+  return [cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius];
+}
+
+function sectorPath(cx: number, cy: number, node: PositionedNode): string {
+  const start = node.startAngle ?? 0;
+  const end = node.endAngle ?? 0;
+  const inner = node.innerRadius ?? 0;
+  const outer = node.outerRadius ?? 0;
+  const largeArc = Math.abs(end - start) > Math.PI ? 1 : 0;
+  // Angles run from start down to end: counter-clockwise on the outer arc
+  const [x1, y1] = polar(cx, cy, outer, start);
+  const [x2, y2] = polar(cx, cy, outer, end);
+  if (Math.abs(end - start) >= 2 * Math.PI - 1e-9) {
+    return `M ${num(cx + outer)} ${num(cy)} A ${num(outer)} ${num(outer)} 0 1 0 ${num(cx - outer)} ${num(cy)} `
+      + `A ${num(outer)} ${num(outer)} 0 1 0 ${num(cx + outer)} ${num(cy)} Z`;
+  }
+  if (inner === 0) {
+    return `M ${num(cx)} ${num(cy)} L ${num(x1)} ${num(y1)} A ${num(outer)} ${num(outer)} 0 ${largeArc} 0 ${num(x2)} ${num(y2)} Z`;
+  }
+  const [x3, y3] = polar(cx, cy, inner, end);
+  const [x4, y4] = polar(cx, cy, inner, start);
+  return `M ${num(x1)} ${num(y1)} A ${num(outer)} ${num(outer)} 0 ${largeArc} 0 ${num(x2)} ${num(y2)} `
+    + `L ${num(x3)} ${num(y3)} A ${num(inner)} ${num(inner)} 0 ${largeArc} 1 ${num(x4)} ${num(y4)} Z`;
+}
+
+function nodeFill(node: PositionedNode): string {
+  return node.member.placeholder ? PLACEHOLDER_FILL : node.color;
+}
+
+// ============================================
+// CHARTS
+// ============================================
+
+function descendantChart(layout: PosterLayout): string {
+  const parts: string[] = [];
+  const byId = new Map(layout.nodes.map(node => [node.member.id, node]));
+  const halfHeight = DESCENDANT_NODE_HEIGHT / 2;
+
+  for (const band of layout.bands) {
+    parts.push(`<rect x="0" y="${num(band.from)}" width="${num(layout.width)}" height="${num(band.to - band.from)}" fill="${BAND_FILLS[band.depth % 2]}"/>`);
+    parts.push(
+      `<text x="${num(layout.width - 4)}" y="${num(band.from + 12)}" font-size="10" fill="#64748b" text-anchor="start">`
+      + `${escapeXml(`الجيل ${band.generation}`)}</text>`
+    );
+  }
+
+  for (const node of layout.nodes) {
+    const parent = node.parentId ? byId.get(node.parentId) : null;
+    if (!parent) continue;
+    if (node.stacked) {
+      // Trunk down the right side of the column, a tick into each box
+      const trunkX = node.x + DESCENDANT_NODE_WIDTH / 2 + DESCENDANT_STACK_INDENT;
+      const elbowY = parent.y + halfHeight + DESCENDANT_STACK_INDENT;
+      parts.push(
+        `<path d="M ${num(parent.x)} ${num(parent.y + halfHeight)} V ${num(elbowY)} H ${num(trunkX)} V ${num(node.y)} H ${num(node.x + DESCENDANT_NODE_WIDTH / 2)}" `
+        + `fill="none" stroke="${LINK_COLOR}" stroke-width="1.5"/>`
+      );
+      continue;
+    }
+    const midY = (parent.y + halfHeight + node.y - halfHeight) / 2;
+    parts.push(
+      `<path d="M ${num(parent.x)} ${num(parent.y + halfHeight)} V ${num(midY)} H ${num(node.x)} V ${num(node.y - halfHeight)}" `
+      + `fill="none" stroke="${LINK_COLOR}" stroke-width="1.5"/>`
+    );
+  }
+
+  for (const node of layout.nodes) {
+    const fill = nodeFill(node);
+    const ink = textColorOn(fill);
+    const years = formatPosterYears(node.member);
+    const nameSize = fitFontSize(node.member.name, DESCENDANT_NODE_WIDTH - 10, 16);
+    const dash = node.member.placeholder ? ' stroke-dasharray="4 3"' : '';
+    parts.push(
+      `<rect x="${num(node.x - DESCENDANT_NODE_WIDTH / 2)}" y="${num(node.y - halfHeight)}" `
+      + `width="${DESCENDANT_NODE_WIDTH}" height="${DESCENDANT_NODE_HEIGHT}" rx="8" fill="${fill}" stroke="#334155" stroke-width="0.8"${dash}/>`
+    );
+    parts.push(
+      `<text x="${num(node.x)}" y="${num(years ? node.y - 2 : node.y + nameSize / 3)}" font-size="${num(nameSize)}" `
+      + `font-weight="bold" fill="${ink}" text-anchor="middle">${escapeXml(node.member.name)}</text>`
+    );
+    if (years) {
+      parts.push(
+        `<text x="${num(node.x)}" y="${num(node.y + 14)}" font-size="10" fill="${ink}" text-anchor="middle" direction="ltr">${years}</text>`
+      );
+    }
+  }
+
+  return parts.join('\n');
+}
+
+function polarLabel(layout: PosterLayout, node: PositionedNode, radius: number, ringWidth: number): string {
+  const start = node.startAngle ?? 0;
+  const end = node.endAngle ?? 0;
+  const mid = (start + end) / 2;
+  const arc = Math.abs(end - start) * radius;
+  const fill = nodeFill(node);
+  const ink = layout.kind === 'FAN' ? textColorOn(fill) : '#1f2937';
+
+  if (node.depth === 0) {
+    const size = fitFontSize(node.member.name, ringWidth * 1.6, 22);
+    return `<text x="${num(layout.cx)}" y="${num(layout.cy - (layout.kind === 'FAN' ? ringWidth / 3 : -size / 3))}" `
+      + `font-size="${num(size)}" font-weight="bold" fill="${layout.kind === 'FAN' ? ink : '#1E3A5F'}" text-anchor="middle">`
+      + `${escapeXml(node.member.name)}</text>`;
+  }
+
+  // Along the radius, turned so no label reads upside down
+  const [x, y] = polar(layout.cx, layout.cy, radius, mid);
+  let degrees = (mid * 180) / Math.PI;
+  if (Math.cos(mid) < 0) degrees += 180;
+  const size = Math.min(fitFontSize(node.member.name, ringWidth - 10, 16), arc * 0.7);
+  return `<text x="${num(x)}" y="${num(y)}" font-size="${num(size)}" fill="${ink}" text-anchor="middle" dominant-baseline="central" `
+    + `transform="rotate(${num(degrees)} ${num(x)} ${num(y)})">${escapeXml(node.member.name)}</text>`;
+}
+
+function fanChart(layout: PosterLayout): string {
+  const parts: string[] = [];
+  for (const node of layout.nodes) {
+    const dash = node.member.placeholder ? ' stroke-dasharray="3 2"' : '';
+    parts.push(`<path d="${sectorPath(layout.cx, layout.cy, node)}" fill="${nodeFill(node)}" stroke="#ffffff" stroke-width="1"${dash}/>`);
+  }
+  for (const node of layout.nodes) {
+    const radius = ((node.innerRadius ?? 0) + (node.outerRadius ?? 0)) / 2;
+    parts.push(polarLabel(layout, node, radius, (node.outerRadius ?? 0) - (node.innerRadius ?? 0)));
+  }
+  for (const band of layout.bands.slice(1)) {
+    parts.push(
+      `<text x="${num(layout.cx - (band.from + band.to) / 2)}" y="${num(layout.cy + 14)}" font-size="10" fill="#64748b" text-anchor="middle">`
+      + `${escapeXml(`الجيل ${band.generation}`)}</text>`
+    );
+  }
+  return parts.join('\n');
+}
+
+function radialChart(layout: PosterLayout): string {
+  const parts: string[] = [];
+  const byId = new Map(layout.nodes.map(node => [node.member.id, node]));
+  const point = (node: PositionedNode): [number, number] => {
+    if (node.depth === 0) return [layout.cx, layout.cy];
+    const mid = ((node.startAngle ?? 0) + (node.endAngle ?? 0)) / 2;
+    return polar(layout.cx, layout.cy, (node.innerRadius ?? 0) + 6, mid);
+  };
+
+  for (const band of [...layout.bands].reverse()) {
+    parts.push(`<circle cx="${num(layout.cx)}" cy="${num(layout.cy)}" r="${num(band.to)}" fill="${BAND_FILLS[band.depth % 2]}" stroke="#e2e8f0"/>`);
+  }
+
+  for (const node of layout.nodes) {
+    const parent = node.parentId ? byId.get(node.parentId) : null;
+    if (!parent) continue;
+    const [x1, y1] = point(parent);
+    const [x2, y2] = point(node);
+    parts.push(`<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}" stroke="${node.color}" stroke-width="1.2"/>`);
+  }
+
+  for (const node of layout.nodes) {
+    const [x, y] = point(node);
+    const dash = node.member.placeholder ? ' stroke="#64748b" stroke-dasharray="2 1"' : '';
+    parts.push(`<circle cx="${num(x)}" cy="${num(y)}" r="${node.depth === 0 ? 8 : 4}" fill="${nodeFill(node)}"${dash}/>`);
+    const ringWidth = (node.outerRadius ?? 0) - (node.innerRadius ?? 0);
+    const radius = node.depth === 0 ? 0 : (node.innerRadius ?? 0) + 12 + (ringWidth - 12) / 2;
+    parts.push(polarLabel(layout, node, radius, ringWidth - 12));
+  }
+
+  return parts.join('\n');
+}
+
+// ============================================
+// PAGE
+// ============================================
+
+function legend(layout: PosterLayout, options: PosterSvgOptions, top: number, height: number): string {
+  const { width } = options.paper;
+  const margin = Math.max(10, width * 0.025);
+  const size = Math.min(height * 0.35, 8);
+  const parts: string[] = [];
+
+  // Swatches right to left
+  let x = width - margin;
+  const y = top + height * 0.35;
+  for (const branch of layout.branches) {
+    const label = `فرع ${branch.name}`;
+    const labelWidth = label.length * size * GLYPH_WIDTH;
+    if (x - size - labelWidth < margin) break;
+    parts.push(`<rect x="${num(x - size)}" y="${num(y - size / 2)}" width="${num(size)}" height="${num(size)}" rx="${num(size / 5)}" fill="${branch.color}"/>`);
+    parts.push(`<text x="${num(x - size * 1.4)}" y="${num(y + size / 3)}" font-size="${num(size)}" fill="#334155" text-anchor="start">${escapeXml(label)}</text>`);
+    x -= size * 2.4 + labelWidth;
+  }
+
+  if (options.footer) {
+    parts.push(
+      `<text x="${num(width / 2)}" y="${num(top + height * 0.85)}" font-size="${num(size * 0.8)}" fill="#64748b" text-anchor="middle">`
+      + `${escapeXml(options.footer)}</text>`
+    );
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Poster contents in page millimetres, without the <svg> wrapper
+ */
+export function renderPosterBody(layout: PosterLayout, options: PosterSvgOptions): string {
+  const { width, height } = options.paper;
+  const margin = Math.max(10, width * 0.025);
+  const headerHeight = height * 0.08;
+  const footerHeight = height * 0.05;
+  const areaTop = margin + headerHeight;
+  const areaWidth = width - 2 * margin;
+  const areaHeight = height - areaTop - footerHeight - margin;
+
+  const scale = Math.min(areaWidth / layout.width, areaHeight / layout.height);
+  const offsetX = margin + (areaWidth - layout.width * scale) / 2;
+  const offsetY = areaTop + (areaHeight - layout.height * scale) / 2;
+
+  const chart = layout.kind === 'DESCENDANT'
+    ? descendantChart(layout)
+    : layout.kind === 'FAN' ? fanChart(layout) : radialChart(layout);
+
+  const titleSize = headerHeight * 0.42;
+  const parts = [
+    `<rect x="0" y="0" width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${num(width / 2)}" y="${num(margin + titleSize)}" font-size="${num(titleSize)}" font-weight="bold" fill="#1E3A5F" text-anchor="middle">${escapeXml(options.title)}</text>`,
+  ];
+  if (options.subtitle) {
+    parts.push(
+      `<text x="${num(width / 2)}" y="${num(margin + titleSize + headerHeight * 0.35)}" font-size="${num(titleSize * 0.45)}" fill="#475569" text-anchor="middle">`
+      + `${escapeXml(options.subtitle)}</text>`
+    );
+  }
+  parts.push(`<g transform="translate(${num(offsetX)} ${num(offsetY)}) scale(${scale.toPrecision(6)})">`, chart, '</g>');
+  parts.push(legend(layout, options, height - margin - footerHeight, footerHeight));
+  return parts.join('\n');
+}
+
+function svgDocument(body: string, width: number, height: number, viewBox: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}mm" height="${num(height)}mm" viewBox="${viewBox}" `
+      + `direction="rtl" xml:lang="ar" font-family="${FONT_FAMILY}">`,
+    body,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * The whole poster as one SVG document sized to the paper
+ */
+export function renderPosterSvg(layout: PosterLayout, options: PosterSvgOptions): string {
+  const { width, height } = options.paper;
+  return svgDocument(renderPosterBody(layout, options), width, height, `0 0 ${width} ${height}`);
+}
+
+/**
+ * One printable sheet of a tiled poster, labelled with its place in the grid
+ */
+export function renderPosterTileSvg(body: string, tile: PosterTile, index: number, total: number): string {
+  const label = `${index + 1}/${total} — صف ${tile.row + 1}، عمود ${tile.col + 1}`;
+  const overlay = `<text x="${num(tile.x + tile.width - 4)}" y="${num(tile.y + tile.height - 4)}" font-size="3.5" fill="#94a3b8" text-anchor="start">`
+    + `${escapeXml(label)}</text>`;
+  return svgDocument(
+    `${body}\n${overlay}`,
+    tile.width,
+    tile.height,
+    `${num(tile.x)} ${num(tile.y)} ${num(tile.width)} ${num(tile.height)}`
+  );
+}
@@ -12,6 +12,8 @@
 import { prisma } from './prisma';
 import { Prisma } from '@prisma/client';
 import { FamilyMember } from './data';
+import { parseDatePrecision, withDualCalendarYears } from './hijri';
+import { parseMemberPrivacyOverrides } from './privacy';
 
 // Constants for retry mechanism
 const MAX_RETRIES = 5;
@@ -39,6 +41,28 @@ export class DuplicateIdError extends DatabaseError {
   }
 }
 
+/**
+ * Birth/death years in both calendars plus their precision for a create,
+ * deriving whichever calendar year was not provided
+ */
+function calendarFields(member: Partial<FamilyMember>) {
+  const years = withDualCalendarYears({
+    birthYear: member.birthYear || undefined,
+    deathYear: member.deathYear || undefined,
+    birthYearHijri: member.birthYearHijri || undefined,
+    deathYearHijri: member.deathYearHijri || undefined,
+  });
+
+  return {
+    birthYear: years.birthYear || null,
+    deathYear: years.deathYear || null,
+    birthYearHijri: years.birthYearHijri || null,
+    deathYearHijri: years.deathYearHijri || null,
+    birthYearPrecision: member.birthYearPrecision || 'EXACT',
+    deathYearPrecision: member.deathYearPrecision || 'EXACT',
+  };
+}
+
 /**
  * Sleep utility for retry delays
  */
@@ -95,9 +119,15 @@ function rowToMember(row: Record<string, unknown>): FamilyMember {
     greatGrandfatherName: row.greatGrandfatherName as string | null,
     familyName: row.familyName as string,
     fatherId: row.fatherId as string | null,
+    motherId: row.motherId as string | null,
+    externalMotherName: row.externalMotherName as string | null,
     gender: row.gender as 'Male' | 'Female',
     birthYear: row.birthYear as number | null,
     deathYear: row.deathYear as number | null,
+    birthYearHijri: row.birthYearHijri as number | null,
+    deathYearHijri: row.deathYearHijri as number | null,
+    birthYearPrecision: parseDatePrecision(row.birthYearPrecision as string | null),
+    deathYearPrecision: parseDatePrecision(row.deathYearPrecision as string | null),
     sonsCount: row.sonsCount as number,
     daughtersCount: row.daughtersCount as number,
     generation: row.generation as number,
@@ -106,11 +136,14 @@ function rowToMember(row: Record<string, unknown>): FamilyMember {
     fullNameEn: row.fullNameEn as string | null,
     phone: row.phone as string | null,
     city: row.city as string | null,
+    birthPlace: row.birthPlace as string | null,
     status: row.status as string,
     photoUrl: row.photoUrl as string | null,
     biography: row.biography as string | null,
     occupation: row.occupation as string | null,
     email: row.email as string | null,
+    broadcastChannels: row.broadcastChannels as string | null,
+    privacyOverrides: row.privacyOverrides ? parseMemberPrivacyOverrides(row.privacyOverrides) : null,
     createdAt: row.createdAt ? new Date(row.createdAt as string) : undefined,
     updatedAt: row.updatedAt ? new Date(row.updatedAt as string) : undefined,
     createdBy: row.createdBy as string | null,
@@ -178,6 +211,19 @@ export async function getChildren(parentId: string): Promise<FamilyMember[]> {
   }
 }
 
+export async function getChildrenOfMother(motherId: string): Promise<FamilyMember[]> {
+  try {
+    const rows = await prisma.familyMember.findMany({
+      where: { motherId },
+      orderBy: { id: 'asc' },
+    });
+    return rows.map((row: Record<string, unknown>) => rowToMember(row as unknown as Record<string, unknown>));
+  } catch (error) {
+    console.error('Error fetching children of mother:', error);
+    return [];
+  }
+}
+
 export async function getGen2Branches(): Promise<FamilyMember[]> {
   try {
     const rows = await prisma.familyMember.findMany({
@@ -288,9 +334,10 @@ export async function createMemberWithAutoId(
           greatGrandfatherName: memberData.greatGrandfatherName || null,
           familyName: memberData.familyName || 'آل شايع',
           fatherId: memberData.fatherId || null,
+          motherId: memberData.motherId || null,
+          externalMotherName: memberData.externalMotherName || null,
           gender: memberData.gender,
-          birthYear: memberData.birthYear || null,
-          deathYear: memberData.deathYear || null,
+          ...calendarFields(memberData),
           sonsCount: memberData.sonsCount || 0,
           daughtersCount: memberData.daughtersCount || 0,
           generation: memberData.generation || 1,
@@ -299,6 +346,7 @@ export async function createMemberWithAutoId(
           fullNameEn: memberData.fullNameEn || null,
           phone: memberData.phone || null,
           city: memberData.city || null,
+          birthPlace: memberData.birthPlace || null,
           status: memberData.status || 'Living',
           photoUrl: memberData.photoUrl || null,
           biography: memberData.biography || null,
@@ -360,9 +408,10 @@ export async function createMember(
           greatGrandfatherName: member.greatGrandfatherName || null,
           familyName: member.familyName || 'آل شايع',
           fatherId: member.fatherId || null,
+          motherId: member.motherId || null,
+          externalMotherName: member.externalMotherName || null,
           gender: member.gender,
-          birthYear: member.birthYear || null,
-          deathYear: member.deathYear || null,
+          ...calendarFields(member),
           sonsCount: member.sonsCount || 0,
           daughtersCount: member.daughtersCount || 0,
           generation: member.generation || 1,
@@ -371,6 +420,7 @@ export async function createMember(
           fullNameEn: member.fullNameEn || null,
           phone: member.phone || null,
           city: member.city || null,
+          birthPlace: member.birthPlace || null,
           status: member.status || 'Living',
           photoUrl: member.photoUrl || null,
           biography: member.biography || null,
@@ -436,22 +486,32 @@ export async function updateMember(
 
       const allowedFields = [
         'firstName', 'fatherName', 'grandfatherName', 'greatGrandfatherName',
-        'familyName', 'fatherId', 'gender', 'birthYear', 'deathYear', 'sonsCount',
+        'familyName', 'fatherId', 'motherId', 'externalMotherName', 'gender',
+        'birthYear', 'deathYear', 'birthYearHijri', 'deathYearHijri',
+        'birthYearPrecision', 'deathYearPrecision', 'sonsCount',
         'daughtersCount', 'generation', 'branch', 'fullNameAr', 'fullNameEn',
-        'phone', 'city', 'status', 'photoUrl', 'biography', 'occupation', 'email',
-        'lastModifiedBy'
+        'phone', 'city', 'birthPlace', 'status', 'photoUrl', 'biography', 'occupation', 'email',
+        'broadcastChannels', 'lastModifiedBy'
       ];
 
       const updateData: Record<string, unknown> = {
         version: { increment: 1 },
       };
 
+      // Changing a year in one calendar updates the other
+      const changes = withDualCalendarYears(updates);
+
       for (const field of allowedFields) {
-        if (field in updates) {
-          updateData[field] = updates[field as keyof FamilyMember] ?? null;
+        if (field in changes) {
+          updateData[field] = changes[field as keyof FamilyMember] ?? null;
         }
       }
 
+      // Precision columns are required, a cleared precision means exact
+      for (const field of ['birthYearPrecision', 'deathYearPrecision']) {
+        if (field in updateData && !updateData[field]) updateData[field] = 'EXACT';
+      }
+
       const updated = await tx.familyMember.update({
         where: { id },
         data: updateData,
@@ -554,9 +614,10 @@ export async function bulkCreateMembers(
               greatGrandfatherName: member.greatGrandfatherName || null,
               familyName: member.familyName || 'آل شايع',
               fatherId: member.fatherId || null,
+              motherId: member.motherId || null,
+              externalMotherName: member.externalMotherName || null,
               gender: member.gender,
-              birthYear: member.birthYear || null,
-              deathYear: member.deathYear || null,
+              ...calendarFields(member),
               sonsCount: member.sonsCount || 0,
               daughtersCount: member.daughtersCount || 0,
               generation: member.generation || 1,
@@ -565,6 +626,7 @@ export async function bulkCreateMembers(
               fullNameEn: member.fullNameEn || null,
               phone: member.phone || null,
               city: member.city || null,
+              birthPlace: member.birthPlace || null,
               status: member.status || 'Living',
               photoUrl: member.photoUrl || null,
               biography: member.biography || null,
@@ -0,0 +1,352 @@
+// Member Privacy - Central redaction of member fields
+// Applied on the server before member data leaves an API route, export,
+// email or server-rendered page. Server helpers that build the viewer live
+// in src/lib/services/privacy.ts.
+//
+// What a viewer sees of a member depends on:
+// - the viewer's role, through the site-wide PrivacySettings
+// - the viewer's relation to the member: themselves, immediate family, or none
+// - the member's own privacy profile (e.g. hiding their phone or photo)
+// Viewers themselves and those who may edit the member see the full record.
+// Members hidden from a viewer become placeholder nodes that keep only their
+// place in the tree.
+
+import type { PrivacySettings, UserRole } from '@/lib/auth/types';
+
+// ============================================
+// MEMBER OVERRIDES
+// ============================================
+
+export interface MemberPrivacyOverrides {
+  hidePhone?: boolean;
+  hideEmail?: boolean;
+  hideBirthYear?: boolean;
+  hideCity?: boolean;
+  hideOccupation?: boolean;
+  hidePhoto?: boolean;             // Also hidden from relatives
+  hideFromGuests?: boolean;        // Guests see a placeholder node
+  firstNameOnly?: boolean;         // Viewers outside the immediate family see the first name only
+  excludeFromExports?: boolean;    // Placeholder in exports; no broadcasts
+}
+
+export const MEMBER_PRIVACY_OVERRIDE_KEYS: (keyof MemberPrivacyOverrides)[] = [
+  'hidePhone', 'hideEmail', 'hideBirthYear', 'hideCity', 'hideOccupation',
+  'hidePhoto', 'hideFromGuests', 'firstNameOnly', 'excludeFromExports',
+];
+
+export const MEMBER_PRIVACY_OVERRIDE_LABELS: Record<keyof MemberPrivacyOverrides, { ar: string; en: string }> = {
+  hidePhone: { ar: 'إخفاء رقم الجوال', en: 'Hide phone number' },
+  hideEmail: { ar: 'إخفاء البريد الإلكتروني', en: 'Hide email' },
+  hideBirthYear: { ar: 'إخفاء سنة الميلاد', en: 'Hide birth year' },
+  hideCity: { ar: 'إخفاء المدينة', en: 'Hide city' },
+  hideOccupation: { ar: 'إخفاء المهنة', en: 'Hide occupation' },
+  hidePhoto: { ar: 'إخفاء الصورة', en: 'Hide photo' },
+  hideFromGuests: { ar: 'إخفاء ملفي عن الزوار', en: 'Hide from guests' },
+  firstNameOnly: { ar: 'إظهار الاسم الأول فقط لغير الأقارب', en: 'Show only my first name to non-relatives' },
+  excludeFromExports: { ar: 'استبعادي من التصدير والتعاميم', en: 'Exclude me from exports and broadcasts' },
+};
+
+// Flags that are returned to every viewer because renderers act on them
+const PUBLIC_OVERRIDE_KEYS: (keyof MemberPrivacyOverrides)[] = ['excludeFromExports'];
+
+/** Name shown on placeholder nodes */
+export const HIDDEN_MEMBER_NAME = { ar: 'فرد من العائلة', en: 'Family member' };
+
+/**
+ * Read stored overrides, keeping only known flags that are set
+ */
+export function parseMemberPrivacyOverrides(value: unknown): MemberPrivacyOverrides {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (!raw || typeof raw !== 'object') return {};
+
+  const overrides: MemberPrivacyOverrides = {};
+  for (const key of MEMBER_PRIVACY_OVERRIDE_KEYS) {
+    if ((raw as Record<string, unknown>)[key] === true) overrides[key] = true;
+  }
+  return overrides;
+}
+
+// ============================================
+// VIEWER
+// ============================================
+
+export type ViewerRelation = 'SELF' | 'RELATIVE' | 'NONE';
+
+export interface PrivacyViewer {
+  /** null for anonymous requests, treated as GUEST */
+  role: UserRole | null;
+  settings: PrivacySettings;
+  /** The viewer's own record in the tree */
+  linkedMemberId?: string | null;
+  /** Immediate family of the linked member: parents, children, siblings, spouses */
+  relativeIds?: ReadonlySet<string>;
+  /** Members the viewer may edit: 'ALL', one branch, or none */
+  editableBranch?: 'ALL' | string | null;
+}
+
+export function getViewerRelation(viewer: PrivacyViewer, memberId: string): ViewerRelation {
+  if (viewer.linkedMemberId && viewer.linkedMemberId === memberId) return 'SELF';
+  if (viewer.relativeIds?.has(memberId)) return 'RELATIVE';
+  return 'NONE';
+}
+
+function canEditMember(viewer: PrivacyViewer, member: { branch?: string | null }): boolean {
+  if (!viewer.editableBranch) return false;
+  return viewer.editableBranch === 'ALL' || viewer.editableBranch === member.branch;
+}
+
+// ============================================
+// REDACTION
+// ============================================
+
+// Member fields that can be hidden
+export interface RedactableMember {
+  id: string;
+  branch?: string | null;
+  firstName?: string;
+  fatherName?: string | null;
+  grandfatherName?: string | null;
+  greatGrandfatherName?: string | null;
+  fullNameAr?: string | null;
+  fullNameEn?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  broadcastChannels?: string | null;
+  birthYear?: number | null;
+  birthYearHijri?: number | null;
+  deathYear?: number | null;
+  deathYearHijri?: number | null;
+  photoUrl?: string | null;
+  occupation?: string | null;
+  city?: string | null;
+  birthPlace?: string | null;
+  biography?: string | null;
+  // Parsed, or the JSON column of a raw database row
+  privacyOverrides?: MemberPrivacyOverrides | string | null;
+  isPlaceholder?: boolean;
+}
+
+export interface VisibleMemberFields {
+  full: boolean;
+  /** Only the member's place in the tree is shown */
+  placeholder: boolean;
+  fullName: boolean;
+  profile: boolean;
+  phone: boolean;
+  email: boolean;
+  birthYear: boolean;
+  deathYear: boolean;
+  photo: boolean;
+  occupation: boolean;
+  city: boolean;
+  biography: boolean;
+}
+
+// Admins always see the free-text fields that have no role list
+const ADMIN_ROLES: UserRole[] = ['ADMIN', 'SUPER_ADMIN'];
+
+const ALL_VISIBLE: VisibleMemberFields = {
+  full: true,
+  placeholder: false,
+  fullName: true,
+  profile: true,
+  phone: true,
+  email: true,
+  birthYear: true,
+  deathYear: true,
+  photo: true,
+  occupation: true,
+  city: true,
+  biography: true,
+};
+
+/**
+ * Which fields of a member the viewer may see
+ */
+export function getVisibleMemberFields(viewer: PrivacyViewer, member: RedactableMember): VisibleMemberFields {
+  const relation = getViewerRelation(viewer, member.id);
+  if (relation === 'SELF' || canEditMember(viewer, member)) return ALL_VISIBLE;
+
+  const { settings } = viewer;
+  const role = viewer.role || 'GUEST';
+  const isAdmin = ADMIN_ROLES.includes(role);
+  const isRelative = relation === 'RELATIVE';
+  const overrides = parseMemberPrivacyOverrides(member.privacyOverrides);
+
+  const placeholder = !!overrides.hideFromGuests && role === 'GUEST' && !isRelative;
+  const fullName = !placeholder && !(overrides.firstNameOnly && !isRelative);
+
+  // Roles without a profileVisibility entry see profiles; family always does.
+  // A first name alone comes without any other details.
+  const profile = fullName && (isRelative || settings.profileVisibility[role] !== false);
+
+  return {
+    full: false,
+    placeholder,
+    fullName,
+    profile,
+    phone: profile && (isRelative || settings.showPhoneToRoles.includes(role)) && !overrides.hidePhone,
+    email: profile && (isRelative || settings.showEmailToRoles.includes(role)) && !overrides.hideEmail,
+    birthYear: profile && (isRelative || settings.showBirthYearToRoles.includes(role)) && !overrides.hideBirthYear,
+    deathYear: profile && settings.showDeathYear,
+    photo: profile && (isRelative || settings.showPhotosToRoles.includes(role)) && !overrides.hidePhoto,
+    occupation: profile && (isAdmin || settings.showOccupation) && !overrides.hideOccupation,
+    city: profile && (isAdmin || settings.showCity) && !overrides.hideCity,
+    biography: profile && (isAdmin || settings.showBiography),
+  };
+}
+
+function publicOverrides(member: RedactableMember): MemberPrivacyOverrides | undefined {
+  const overrides = parseMemberPrivacyOverrides(member.privacyOverrides);
+  const shown: MemberPrivacyOverrides = {};
+  for (const key of PUBLIC_OVERRIDE_KEYS) {
+    if (overrides[key]) shown[key] = true;
+  }
+  return Object.keys(shown).length > 0 ? shown : undefined;
+}
+
+type HideableField = Exclude<keyof RedactableMember, 'id' | 'branch' | 'firstName' | 'privacyOverrides' | 'isPlaceholder'>;
+
+function hideFields(member: RedactableMember, fields: HideableField[]): void {
+  for (const field of fields) {
+    if (field in member) member[field] = null;
+  }
+}
+
+const NAME_FIELDS: HideableField[] = [
+  'fatherName', 'grandfatherName', 'greatGrandfatherName', 'fullNameAr', 'fullNameEn',
+];
+
+const DETAIL_FIELDS: HideableField[] = [
+  'phone', 'email', 'broadcastChannels', 'birthYear', 'birthYearHijri', 'deathYear', 'deathYearHijri',
+  'photoUrl', 'occupation', 'city', 'birthPlace', 'biography',
+];
+
+/**
+ * A placeholder node: the member's place in the tree (id, parents,
+ * generation, branch) without their name or any details
+ */
+export function toPlaceholderMember<T extends RedactableMember>(member: T): T {
+  const placeholder: T = { ...member, isPlaceholder: true };
+  if ('firstName' in placeholder) placeholder.firstName = HIDDEN_MEMBER_NAME.ar;
+  hideFields(placeholder, [...NAME_FIELDS, ...DETAIL_FIELDS]);
+  (placeholder as RedactableMember).privacyOverrides = publicOverrides(member);
+  return placeholder;
+}
+
+/**
+ * Whether exporters must write the member as a placeholder
+ */
+export function isExcludedFromExports(member: RedactableMember): boolean {
+  return !!parseMemberPrivacyOverrides(member.privacyOverrides).excludeFromExports;
+}
+
+/**
+ * Copy of the member with the fields the viewer may not see set to null.
+ * Fields the object does not have are left out. The privacy profile is only
+ * returned in full to viewers who see the full record.
+ */
+export function redactMember<T extends RedactableMember>(member: T, viewer: PrivacyViewer): T {
+  const visible = getVisibleMemberFields(viewer, member);
+  if (visible.full) return member;
+
+  if (visible.placeholder) return toPlaceholderMember(member);
+
+  const redacted: T = { ...member };
+  const hidden: HideableField[] = [];
+  if (!visible.fullName) hidden.push(...NAME_FIELDS);
+  if (!visible.phone) hidden.push('phone');
+  if (!visible.email) hidden.push('email');
+  if (!visible.phone || !visible.email) hidden.push('broadcastChannels');
+  if (!visible.birthYear) hidden.push('birthYear', 'birthYearHijri');
+  if (!visible.deathYear) hidden.push('deathYear', 'deathYearHijri');
+  if (!visible.photo) hidden.push('photoUrl');
+  if (!visible.occupation) hidden.push('occupation');
+  if (!visible.city) hidden.push('city', 'birthPlace');
+  if (!visible.biography) hidden.push('biography');
+  hideFields(redacted, hidden);
+  (redacted as RedactableMember).privacyOverrides = publicOverrides(member);
+
+  return redacted;
+}
+
+export function redactMembers<T extends RedactableMember>(members: T[], viewer: PrivacyViewer): T[] {
+  return members.map(member => redactMember(member, viewer));
+}
+
+/**
+ * Redact a nested tree (members with children) node by node
+ */
+export function redactMemberTree<T extends RedactableMember & { children: unknown[] }>(
+  node: T,
+  viewer: PrivacyViewer
+): T {
+  return {
+    ...redactMember(node, viewer),
+    children: (node.children as T[]).map(child => redactMemberTree(child, viewer)),
+  };
+}
+
+// Marriage fields that can be hidden
+export interface RedactableMarriage {
+  husbandId?: string;
+  husband?: RedactableMember | null;
+  wifeId?: string | null;
+  wife?: RedactableMember | null;
+  externalWifeName?: string | null;
+  externalWifeFamily?: string | null;
+  startYear?: number | null;
+  endYear?: number | null;
+  status?: string | null;
+  notes?: string | null;
+}
+
+type MarriageDetailField = Exclude<keyof RedactableMarriage, 'husbandId' | 'husband' | 'wifeId' | 'wife'>;
+
+/**
+ * Whether a spouse of the marriage is a placeholder for the viewer
+ */
+export function hasHiddenSpouse(marriage: RedactableMarriage, viewer: PrivacyViewer): boolean {
+  return [marriage.husband, marriage.wife].some(spouse =>
+    spouse && getVisibleMemberFields(viewer, spouse).placeholder
+  );
+}
+
+/**
+ * Redact the husband and wife of a marriage. Details of the marriage itself
+ * are shown like the matching fields of the spouses in the tree: dates like
+ * birth years, notes like biographies, and the rest like the profile.
+ */
+export function redactMarriage<T extends RedactableMarriage>(marriage: T, viewer: PrivacyViewer): T {
+  const spouses = [
+    marriage.husband || (marriage.husbandId ? { id: marriage.husbandId } : null),
+    marriage.wife || (marriage.wifeId ? { id: marriage.wifeId } : null),
+  ].filter((spouse): spouse is RedactableMember => !!spouse);
+  const visible = spouses.map(spouse => getVisibleMemberFields(viewer, spouse));
+
+  const redacted: T = {
+    ...marriage,
+    husband: marriage.husband && redactMember(marriage.husband, viewer),
+    wife: marriage.wife && redactMember(marriage.wife, viewer),
+  };
+  if (visible.every(fields => fields.full)) return redacted;
+
+  const hidden: MarriageDetailField[] = [];
+  if (!visible.every(fields => fields.profile)) {
+    hidden.push('externalWifeName', 'externalWifeFamily', 'status', 'startYear', 'endYear', 'notes');
+  }
+  if (!visible.every(fields => fields.birthYear)) hidden.push('startYear', 'endYear');
+  if (!visible.every(fields => fields.biography)) hidden.push('notes');
+  for (const field of hidden) {
+    if (field in redacted) (redacted as RedactableMarriage)[field] = null;
+  }
+
+  return redacted;
+}
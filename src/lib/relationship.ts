@@ -0,0 +1,157 @@
+// آل شايع Family Tree - Relationship Calculator
+// Finds how two members are related through their fatherId chains
+
+import { FamilyMember } from './types';
+import { getAncestors } from './edit-utils';
+
+export interface RelationshipResult {
+  fromId: string;
+  toId: string;
+  commonAncestorId: string;
+  // Steps from each member up to the common ancestor
+  generationsUp: number;
+  generationsDown: number;
+  // Path of member IDs: from -> common ancestor -> to
+  path: string[];
+  // How "to" is related to "from" (e.g. ابن العم = "to" is the cousin of "from")
+  termAr: string;
+  termEn: string;
+  // 1 = first cousins, 2 = second cousins... 0 when not cousins
+  cousinDegree: number;
+  // Generation difference between cousins ("once removed")
+  removed: number;
+}
+
+const ORDINALS_EN = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+function ordinalEn(n: number): string {
+  return ORDINALS_EN[n - 1] || `${n}th`;
+}
+
+function removedEn(n: number): string {
+  if (n === 0) return '';
+  if (n === 1) return ' once removed';
+  if (n === 2) return ' twice removed';
+  return ` ${n} times removed`;
+}
+
+/**
+ * Arabic term for the paternal ancestor n generations up
+ * 1: الأب، 2: الجد، 3: جد الأب، 4: جد الجد، 5: جد جد الأب...
+ */
+function ancestorTermAr(n: number): string {
+  const grandfathers = Math.floor(n / 2);
+  if (n % 2 === 1) {
+    return [...Array(grandfathers).fill('جد'), 'الأب'].join(' ');
+  }
+  return [...Array(grandfathers - 1).fill('جد'), 'الجد'].join(' ');
+}
+
+function ancestorTermEn(n: number): string {
+  if (n === 1) return 'father';
+  if (n === 2) return 'grandfather';
+  return 'great-'.repeat(n - 2) + 'grandfather';
+}
+
+/**
+ * Arabic term for the paternal uncle, a brother of the ancestor n generations up
+ * 1: عم، 2: عم الأب، 3: عم الجد...
+ */
+function uncleTermAr(n: number, isFemale: boolean, definite: boolean): string {
+  const base = isFemale ? 'عمة' : 'عم';
+  if (n === 1) return definite ? `ال${base}` : base;
+  return `${base} ${ancestorTermAr(n - 1)}`;
+}
+
+/**
+ * Prefix a term with a chain of sons: (ابن|بنت) ابن ابن ... <term>
+ */
+function descendantChainAr(steps: number, isFemale: boolean, term: string): string {
+  return [isFemale ? 'بنت' : 'ابن', ...Array(steps - 1).fill('ابن'), term].join(' ');
+}
+
+function describeRelationship(up: number, down: number, isFemale: boolean): { termAr: string; termEn: string } {
+  if (up === 0 && down === 0) {
+    return { termAr: 'نفس الشخص', termEn: 'same person' };
+  }
+
+  // "to" is an ancestor of "from"
+  if (down === 0) {
+    return { termAr: ancestorTermAr(up), termEn: ancestorTermEn(up) };
+  }
+
+  // "to" is a descendant of "from"
+  if (up === 0) {
+    if (down === 1) return { termAr: isFemale ? 'بنت' : 'ابن', termEn: isFemale ? 'daughter' : 'son' };
+    if (down === 2) return { termAr: isFemale ? 'حفيدة' : 'حفيد', termEn: isFemale ? 'granddaughter' : 'grandson' };
+    return {
+      termAr: descendantChainAr(down - 2, isFemale, 'الحفيد'),
+      termEn: 'great-'.repeat(down - 2) + (isFemale ? 'granddaughter' : 'grandson'),
+    };
+  }
+
+  if (up === 1 && down === 1) {
+    return { termAr: isFemale ? 'أخت' : 'أخ', termEn: isFemale ? 'sister' : 'brother' };
+  }
+
+  // "to" descends from a brother of "from"
+  if (up === 1) {
+    const nephew = isFemale ? 'niece' : 'nephew';
+    return {
+      termAr: descendantChainAr(down - 1, isFemale, 'الأخ'),
+      termEn: down === 2 ? nephew : 'great-'.repeat(down - 3) + 'grand' + nephew,
+    };
+  }
+
+  // "to" is a brother/sister of an ancestor of "from"
+  if (down === 1) {
+    const uncle = isFemale ? 'aunt' : 'uncle';
+    return {
+      termAr: uncleTermAr(up - 1, isFemale, false),
+      termEn: up === 2 ? uncle : 'great-'.repeat(up - 2) + uncle,
+    };
+  }
+
+  // Cousins: "to" descends from a paternal uncle of "from"
+  const degree = Math.min(up, down) - 1;
+  return {
+    termAr: descendantChainAr(down - 1, isFemale, uncleTermAr(up - 1, false, true)),
+    termEn: `${ordinalEn(degree)} cousin${removedEn(Math.abs(up - down))}`,
+  };
+}
+
+/**
+ * Find the relationship of member "toId" to member "fromId"
+ * Returns null if either member is missing or they share no paternal ancestor.
+ */
+export function calculateRelationship(
+  fromId: string,
+  toId: string,
+  allMembers: FamilyMember[]
+): RelationshipResult | null {
+  const to = allMembers.find(m => m.id === toId);
+  if (!to || !allMembers.some(m => m.id === fromId)) return null;
+
+  const fromChain = [fromId, ...getAncestors(fromId, allMembers)];
+  const toChain = [toId, ...getAncestors(toId, allMembers)];
+
+  const up = fromChain.findIndex(id => toChain.includes(id));
+  if (up === -1) return null;
+
+  const commonAncestorId = fromChain[up];
+  const down = toChain.indexOf(commonAncestorId);
+  const { termAr, termEn } = describeRelationship(up, down, to.gender === 'Female');
+
+  return {
+    fromId,
+    toId,
+    commonAncestorId,
+    generationsUp: up,
+    generationsDown: down,
+    path: [...fromChain.slice(0, up + 1), ...toChain.slice(0, down).reverse()],
+    termAr,
+    termEn,
+    cousinDegree: up >= 2 && down >= 2 ? Math.min(up, down) - 1 : 0,
+    removed: up >= 2 && down >= 2 ? Math.abs(up - down) : 0,
+  };
+}
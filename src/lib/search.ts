@@ -0,0 +1,420 @@
+/**
+ * Arabic-aware Search Utilities for آل شايع Family Tree
+ *
+ * Builds the normalized documents stored in the SearchDocument index and
+ * ranks, highlights and facets the matches. Text is normalized word by word
+ * with normalizeArabicName/arabicPhonetic (the same helpers used for
+ * duplicate detection), so alef/hamza/yeh/taa marbuta spellings and common
+ * name variations find each other.
+ */
+
+import { arabicPhonetic, normalizeArabicName } from './matching/arabic-utils';
+import { escapeHtml } from './sanitize';
+import { parseMemberPrivacyOverrides } from './privacy';
+import type { MemberPrivacyOverrides } from './privacy';
+import type { FamilyMember } from './types';
+
+export type SearchEntityType = 'member' | 'journal' | 'photo' | 'gathering';
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['member', 'journal', 'photo', 'gathering'];
+
+export type SearchFacetField = 'generation' | 'branch' | 'city' | 'status';
+
+export interface SearchDocumentInput {
+  entityType: SearchEntityType;
+  entityId: string;
+  title: string;
+  body: string | null;
+  // The body holds member details redacted per viewer; it is indexed apart
+  // and only matched for viewers who may see those details
+  privateBody?: boolean;
+  // Indexed but not displayed (IDs, ancestor names, English names)
+  keywords?: (string | null | undefined)[];
+  generation: number | null;
+  branch: string | null;
+  city: string | null;
+  status: string | null;
+}
+
+export interface IndexedSearchDocument extends Omit<SearchDocumentInput, 'keywords' | 'privateBody'> {
+  normalizedText: string;
+  normalizedPrivateText: string | null;
+  phoneticKeys: string;
+}
+
+export interface SearchQuery {
+  text: string;
+  tokens: string[];
+  phonetics: string[];
+}
+
+export interface SearchFilters {
+  generation?: number;
+  branch?: string;
+  city?: string;
+  status?: string;
+}
+
+export interface SearchHit {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  // HTML-escaped text with matches wrapped in <mark>
+  titleHighlighted: string;
+  snippet: string | null;
+  score: number;
+  url: string;
+  generation: number | null;
+  branch: string | null;
+  city: string | null;
+  status: string | null;
+}
+
+export interface SearchFacetValue {
+  value: string;
+  count: number;
+}
+
+export type SearchFacets = Record<SearchFacetField | 'type', SearchFacetValue[]>;
+
+export interface SearchResult {
+  hits: SearchHit[];
+  facets: SearchFacets;
+  total: number;
+}
+
+// Words are split on whitespace and Latin/Arabic punctuation (، ؛ ؟)
+const WORD_SEPARATOR = /[\s،؛؟.,;:!?()[\]{}"'«»\-_/]+/;
+
+// Members rank above other content with the same text match
+const TYPE_WEIGHTS: Record<SearchEntityType, number> = {
+  member: 1.2,
+  journal: 1,
+  gathering: 1,
+  photo: 0.8,
+};
+
+const SNIPPET_WORDS = 24;
+
+const ARABIC_LETTER = /[\u0600-\u06FF]/;
+
+function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text.split(WORD_SEPARATOR).filter(Boolean);
+}
+
+function normalizeWord(word: string): string {
+  return normalizeArabicName(word.toLowerCase());
+}
+
+/**
+ * Normalize text for indexing and matching, one word at a time
+ */
+export function normalizeSearchText(text: string | null | undefined): string {
+  return tokenize(text).map(normalizeWord).filter(Boolean).join(' ');
+}
+
+/**
+ * Unique phonetic codes of the Arabic words in a text
+ */
+export function buildPhoneticKeys(text: string | null | undefined): string {
+  const codes = tokenize(text)
+    .filter(word => ARABIC_LETTER.test(word))
+    .map(word => arabicPhonetic(word))
+    .filter(code => code && code !== '0000');
+  return Array.from(new Set(codes)).join(' ');
+}
+
+/**
+ * Add the search keys to a document before it is stored
+ */
+export function buildSearchDocument(input: SearchDocumentInput): IndexedSearchDocument {
+  const { keywords = [], privateBody = false, ...document } = input;
+  const publicBody = privateBody ? null : input.body;
+  return {
+    ...document,
+    normalizedText: normalizeSearchText([input.title, publicBody, ...keywords].filter(Boolean).join(' ')),
+    normalizedPrivateText: privateBody && input.body ? normalizeSearchText(input.body) : null,
+    phoneticKeys: buildPhoneticKeys([input.title, ...keywords].filter(Boolean).join(' ')),
+  };
+}
+
+/**
+ * Occupation and city a member hid in their privacy profile are left out
+ * of the index, so nobody finds or filters the member by them
+ */
+export function memberSearchDocument(
+  member: Pick<FamilyMember, 'id' | 'firstName' | 'fatherName' | 'grandfatherName' | 'fullNameAr' | 'fullNameEn' |
+    'occupation' | 'biography' | 'generation' | 'branch' | 'city' | 'status'> & {
+    privacyOverrides?: MemberPrivacyOverrides | string | null;
+  }
+): IndexedSearchDocument {
+  const overrides = parseMemberPrivacyOverrides(member.privacyOverrides);
+  const occupation = overrides.hideOccupation ? null : member.occupation;
+
+  return buildSearchDocument({
+    entityType: 'member',
+    entityId: member.id,
+    title: member.fullNameAr || member.firstName,
+    body: [occupation, member.biography].filter(Boolean).join(' - ') || null,
+    privateBody: true,
+    keywords: [member.id, member.firstName, member.fatherName, member.grandfatherName, member.fullNameEn],
+    generation: member.generation,
+    branch: member.branch,
+    city: overrides.hideCity ? null : member.city,
+    status: member.status,
+  });
+}
+
+export function journalSearchDocument(journal: {
+  id: string;
+  titleAr: string;
+  titleEn?: string | null;
+  excerpt?: string | null;
+  contentAr: string;
+  narrator?: string | null;
+  locationAr?: string | null;
+  generation?: number | null;
+}): IndexedSearchDocument {
+  return buildSearchDocument({
+    entityType: 'journal',
+    entityId: journal.id,
+    title: journal.titleAr,
+    body: journal.contentAr,
+    keywords: [journal.titleEn, journal.excerpt, journal.narrator, journal.locationAr],
+    generation: journal.generation ?? null,
+    branch: null,
+    city: journal.locationAr ?? null,
+    status: null,
+  });
+}
+
+export function photoSearchDocument(photo: {
+  id: string;
+  title?: string | null;
+  titleAr?: string | null;
+  caption?: string | null;
+  captionAr?: string | null;
+}): IndexedSearchDocument {
+  return buildSearchDocument({
+    entityType: 'photo',
+    entityId: photo.id,
+    title: photo.titleAr || photo.title || photo.captionAr || photo.caption || '',
+    body: photo.captionAr || photo.caption || null,
+    keywords: [photo.title, photo.caption],
+    generation: null,
+    branch: null,
+    city: null,
+    status: null,
+  });
+}
+
+export function gatheringSearchDocument(gathering: {
+  id: string;
+  title: string;
+  titleAr: string;
+  description?: string | null;
+  descriptionAr?: string | null;
+  locationAr?: string | null;
+  location?: string | null;
+  status: string;
+}): IndexedSearchDocument {
+  return buildSearchDocument({
+    entityType: 'gathering',
+    entityId: gathering.id,
+    title: gathering.titleAr,
+    body: gathering.descriptionAr || gathering.description || null,
+    keywords: [gathering.title, gathering.description, gathering.location],
+    generation: null,
+    branch: null,
+    city: gathering.locationAr || gathering.location || null,
+    status: gathering.status,
+  });
+}
+
+/**
+ * Parse a user query into normalized tokens and their phonetic codes
+ */
+export function parseSearchQuery(text: string): SearchQuery {
+  const words = tokenize(text);
+  return {
+    text: text.trim(),
+    tokens: Array.from(new Set(words.map(normalizeWord).filter(Boolean))),
+    phonetics: words
+      .filter(word => ARABIC_LETTER.test(word))
+      .map(word => arabicPhonetic(word))
+      .filter(code => code !== '0000'),
+  };
+}
+
+/**
+ * Phonetic code a query token is matched against, or null for tokens
+ * without Arabic letters
+ */
+export function getTokenPhonetic(token: string): string | null {
+  if (!ARABIC_LETTER.test(token)) return null;
+  const code = arabicPhonetic(token);
+  return code && code !== '0000' ? code : null;
+}
+
+/**
+ * Score a document against a query. Every token has to match (exactly,
+ * as a word prefix, as a substring or phonetically); 0 means no match.
+ * Private text (member details) is only matched when matchPrivateText is set.
+ */
+export function scoreSearchDocument(
+  document: IndexedSearchDocument,
+  query: SearchQuery,
+  matchPrivateText = false
+): number {
+  if (query.tokens.length === 0) return 0;
+
+  const privateText = matchPrivateText ? document.normalizedPrivateText : null;
+  const words = [document.normalizedText, privateText].filter(Boolean).join(' ').split(' ');
+  const titleWords = new Set(normalizeSearchText(document.title).split(' '));
+  const phonetics = new Set(document.phoneticKeys.split(' ').filter(Boolean));
+  let total = 0;
+
+  for (const token of query.tokens) {
+    let best = 0;
+    for (const word of words) {
+      const inTitle = titleWords.has(word);
+      if (word === token) best = Math.max(best, inTitle ? 3 : 2);
+      else if (word.startsWith(token)) best = Math.max(best, inTitle ? 2 : 1);
+      else if (token.length > 2 && word.includes(token)) best = Math.max(best, 0.5);
+    }
+    // Sounds-alike fallback for spelling mistakes
+    const phonetic = getTokenPhonetic(token);
+    if (best === 0 && phonetic && phonetics.has(phonetic)) best = 0.4;
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  return Math.round((total / query.tokens.length) * TYPE_WEIGHTS[document.entityType] * 100) / 100;
+}
+
+/**
+ * Whether every query token starts a word of the text (e.g. a branch or city name)
+ */
+export function matchesSearchQuery(text: string, query: SearchQuery): boolean {
+  const words = normalizeSearchText(text).split(' ');
+  return query.tokens.length > 0 && query.tokens.every(token => words.some(word => word.startsWith(token)));
+}
+
+function isMatchingWord(word: string, tokens: string[]): boolean {
+  const normalized = normalizeWord(word);
+  return normalized !== '' && tokens.some(token => normalized.startsWith(token));
+}
+
+/**
+ * Wrap the words matching the query in <mark>, escaping everything else
+ */
+export function highlightText(text: string, tokens: string[]): string {
+  return text
+    .split(new RegExp(`(${WORD_SEPARATOR.source})`))
+    .map(part => {
+      const escaped = escapeHtml(part);
+      return isMatchingWord(part, tokens) ? `<mark>${escaped}</mark>` : escaped;
+    })
+    .join('');
+}
+
+/**
+ * Short highlighted excerpt of the body around the first match
+ */
+export function buildSnippet(text: string | null, tokens: string[]): string | null {
+  if (!text) return null;
+
+  const words = text.split(/\s+/).filter(Boolean);
+  const firstMatch = words.findIndex(word => tokenize(word).some(part => isMatchingWord(part, tokens)));
+  const start = Math.max(0, (firstMatch === -1 ? 0 : firstMatch) - Math.floor(SNIPPET_WORDS / 3));
+  const end = Math.min(words.length, start + SNIPPET_WORDS);
+
+  return `${start > 0 ? '… ' : ''}${highlightText(words.slice(start, end).join(' '), tokens)}${end < words.length ? ' …' : ''}`;
+}
+
+export function getSearchResultUrl(type: SearchEntityType, id: string): string {
+  switch (type) {
+    case 'member':
+      return `/member/${id}`;
+    case 'journal':
+      return `/journals/${id}`;
+    case 'photo':
+      return `/gallery?photo=${id}`;
+    case 'gathering':
+      return `/gatherings?id=${id}`;
+  }
+}
+
+/**
+ * Facet values by count, most frequent first
+ */
+export function sortSearchFacetValues(values: SearchFacetValue[]): SearchFacetValue[] {
+  return [...values].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, 'ar'));
+}
+
+function countValues(values: (string | number | null)[]): SearchFacetValue[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (value === null || value === '') return;
+    counts.set(String(value), (counts.get(String(value)) || 0) + 1);
+  });
+  return sortSearchFacetValues(Array.from(counts.entries()).map(([value, count]) => ({ value, count })));
+}
+
+export function buildSearchFacets(documents: IndexedSearchDocument[]): SearchFacets {
+  return {
+    type: countValues(documents.map(d => d.entityType)),
+    generation: countValues(documents.map(d => d.generation)),
+    branch: countValues(documents.map(d => d.branch)),
+    city: countValues(documents.map(d => d.city)),
+    status: countValues(documents.map(d => d.status)),
+  };
+}
+
+function matchesFilters(document: IndexedSearchDocument, filters: SearchFilters): boolean {
+  if (filters.generation !== undefined && document.generation !== filters.generation) return false;
+  if (filters.branch && document.branch !== filters.branch) return false;
+  if (filters.city && document.city !== filters.city) return false;
+  if (filters.status && document.status !== filters.status) return false;
+  return true;
+}
+
+/**
+ * Rank candidate documents, then facet, filter and paginate them.
+ * Facets are counted before the facet filters so every option keeps its count.
+ */
+export function rankSearchDocuments(
+  documents: IndexedSearchDocument[],
+  query: SearchQuery,
+  options: { filters?: SearchFilters; matchPrivateText?: boolean; page?: number; limit?: number } = {}
+): SearchResult {
+  const { filters = {}, matchPrivateText = false, page = 1, limit = 20 } = options;
+
+  const scored = documents
+    .map(document => ({ document, score: scoreSearchDocument(document, query, matchPrivateText) }))
+    .filter(entry => entry.score > 0);
+
+  const facets = buildSearchFacets(scored.map(entry => entry.document));
+  const filtered = scored
+    .filter(entry => matchesFilters(entry.document, filters))
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title, 'ar'));
+
+  const hits = filtered
+    .slice((page - 1) * limit, page * limit)
+    .map(({ document, score }): SearchHit => ({
+      type: document.entityType,
+      id: document.entityId,
+      title: document.title,
+      titleHighlighted: highlightText(document.title, query.tokens),
+      snippet: buildSnippet(document.body, query.tokens),
+      score,
+      url: getSearchResultUrl(document.entityType, document.entityId),
+      generation: document.generation,
+      branch: document.branch,
+      city: document.city,
+      status: document.status,
+    }));
+
+  return { hits, facets, total: filtered.length };
+}
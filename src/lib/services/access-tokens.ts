@@ -0,0 +1,136 @@
+// Personal Access Token Service
+// Al-Shaye Family Tree Application
+//
+// Tokens are shown once on creation; only a hash of each is stored. The
+// hash is deterministic, so a presented token is looked up by its hash.
+
+import type { PersonalAccessToken } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { findUserById, type StoredUser } from '@/lib/auth/db-store';
+import { generateApiKey, hashApiKey } from '@/lib/encryption';
+import { ConflictError, NotFoundError } from '@/lib/errors';
+import { safeJsonParseArray } from '@/lib/utils/safe-json';
+import type { CreateAccessTokenInput } from '@/lib/validations';
+import {
+  ACCESS_TOKEN_PREFIX,
+  API_SCOPES,
+  MAX_ACCESS_TOKENS_PER_USER,
+  type AccessTokenSummary,
+  type ApiScope,
+} from '@/lib/access-tokens';
+
+const TOKEN_LENGTH = 40;
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// lastUsedAt is written at most this often per token
+const USAGE_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface VerifiedAccessToken {
+  tokenId: string;
+  user: StoredUser;
+  scopes: ApiScope[];
+}
+
+function toSummary(row: PersonalAccessToken): AccessTokenSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.tokenPrefix,
+    scopes: parseScopes(row.scopes),
+    expiresAt: row.expiresAt.toISOString(),
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: row.lastUsedIp,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function parseScopes(json: string): ApiScope[] {
+  return safeJsonParseArray<string>(json).filter((scope): scope is ApiScope =>
+    API_SCOPES.includes(scope as ApiScope)
+  );
+}
+
+/**
+ * Create a token. The plain token is only ever returned here.
+ */
+export async function createAccessToken(
+  userId: string,
+  input: CreateAccessTokenInput
+): Promise<{ token: string; accessToken: AccessTokenSummary }> {
+  const active = await prisma.personalAccessToken.count({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+  });
+  if (active >= MAX_ACCESS_TOKENS_PER_USER) {
+    throw new ConflictError(`A user may have at most ${MAX_ACCESS_TOKENS_PER_USER} active tokens`);
+  }
+
+  const token = generateApiKey(ACCESS_TOKEN_PREFIX, TOKEN_LENGTH);
+  const row = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name: input.name,
+      tokenHash: await hashApiKey(token),
+      tokenPrefix: token.substring(0, DISPLAY_PREFIX_LENGTH),
+      scopes: JSON.stringify([...new Set(input.scopes)]),
+      expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  return { token, accessToken: toSummary(row) };
+}
+
+export async function listAccessTokens(userId: string): Promise<AccessTokenSummary[]> {
+  const rows = await prisma.personalAccessToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return rows.map(toSummary);
+}
+
+/**
+ * Revoke one of the user's tokens. Revoked tokens stay listed for reference.
+ */
+export async function revokeAccessToken(userId: string, tokenId: string): Promise<AccessTokenSummary> {
+  const row = await prisma.personalAccessToken.findFirst({ where: { id: tokenId, userId } });
+  if (!row) {
+    throw new NotFoundError('Access token not found', 'accessToken', tokenId);
+  }
+  if (row.revokedAt) return toSummary(row);
+
+  const updated = await prisma.personalAccessToken.update({
+    where: { id: tokenId },
+    data: { revokedAt: new Date() },
+  });
+  return toSummary(updated);
+}
+
+/**
+ * Resolve a presented token to its active user and scopes, recording usage.
+ * Returns null for unknown, revoked or expired tokens and inactive users.
+ */
+export async function verifyAccessToken(
+  token: string,
+  ipAddress?: string | null
+): Promise<VerifiedAccessToken | null> {
+  // scrypt is slow by design, so the token is hashed once per request and
+  // looked up by that hash; the unique index match is the comparison
+  const tokenHash = await hashApiKey(token);
+  const row = await prisma.personalAccessToken.findUnique({ where: { tokenHash } });
+  if (!row) return null;
+
+  const now = new Date();
+  if (row.revokedAt || row.expiresAt <= now) return null;
+
+  const user = await findUserById(row.userId);
+  if (!user || user.status !== 'ACTIVE') return null;
+
+  if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() > USAGE_UPDATE_INTERVAL_MS) {
+    await prisma.personalAccessToken.update({
+      where: { id: row.id },
+      data: { lastUsedAt: now, lastUsedIp: ipAddress || null },
+    }).catch((error: unknown) => console.error('[AccessTokens] Failed to record usage:', error));
+  }
+
+  return { tokenId: row.id, user, scopes: parseScopes(row.scopes) };
+}
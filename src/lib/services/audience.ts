@@ -0,0 +1,238 @@
+// Audience Service
+// Al-Shaye Family Tree Application
+//
+// Loads the people audience rules are evaluated against (members with their
+// linked users' roles and past RSVPs, plus users without a member record),
+// resolves rules and saved segments to member and user ids, and stores the
+// saved segments used by broadcasts and gathering invitations.
+
+import { prisma } from '@/lib/prisma';
+import {
+  emptyRsvpCounts,
+  evaluateAudience,
+  type AudienceRsvpResponse,
+  type AudienceRule,
+  type AudienceSubject,
+} from '@/lib/audience';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AudienceSegment {
+  id: string;
+  name: string;
+  description: string | null;
+  rules: AudienceRule;
+  lastCount: number;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SegmentInput {
+  name: string;
+  description?: string | null;
+  rules: AudienceRule;
+}
+
+export interface ResolvedAudience {
+  /** People matched, counting a member and their linked users once */
+  count: number;
+  memberIds: string[];
+  userIds: string[];
+}
+
+// ============================================
+// SUBJECTS
+// ============================================
+
+function toRsvpResponse(value: string | null | undefined): AudienceRsvpResponse {
+  return value === 'YES' || value === 'NO' || value === 'MAYBE' ? value : 'NO_RESPONSE';
+}
+
+/**
+ * Everyone a rule can match. RSVP counts cover meetings and gatherings that
+ * have already taken place, so "never responds" isn't skewed by invitations
+ * still open.
+ */
+export async function loadAudienceSubjects(now: Date = new Date()): Promise<AudienceSubject[]> {
+  const [members, users, broadcastRsvps, gatheringRsvps] = await Promise.all([
+    prisma.familyMember.findMany({
+      select: {
+        id: true,
+        fatherId: true,
+        motherId: true,
+        gender: true,
+        status: true,
+        generation: true,
+        lineageBranchId: true,
+        subBranchId: true,
+        city: true,
+        birthYear: true,
+      },
+    }),
+    prisma.user.findMany({
+      where: { status: 'ACTIVE' },
+      select: { id: true, email: true, role: true, linkedMemberId: true },
+    }),
+    prisma.broadcastRecipient.findMany({
+      where: { broadcast: { rsvpRequired: true, status: 'SENT', meetingDate: { lt: now } } },
+      select: { memberId: true, email: true, rsvpResponse: true },
+    }),
+    prisma.gatheringAttendee.findMany({
+      where: { gathering: { date: { lt: now } } },
+      select: { memberId: true, userId: true, rsvpStatus: true },
+    }),
+  ]);
+
+  const subjects = new Map<string, AudienceSubject>();
+  for (const member of members) {
+    subjects.set(`member:${member.id}`, {
+      memberId: member.id,
+      userIds: [],
+      fatherId: member.fatherId,
+      motherId: member.motherId,
+      gender: member.gender,
+      status: member.status,
+      generation: member.generation,
+      lineageBranchId: member.lineageBranchId,
+      subBranchId: member.subBranchId,
+      city: member.city,
+      birthYear: member.birthYear,
+      roles: [],
+      rsvp: emptyRsvpCounts(),
+    });
+  }
+
+  // Users join their member's subject, or stand alone when not linked
+  const userSubjectKey = new Map<string, string>();
+  const emailSubjectKey = new Map<string, string>();
+  for (const user of users) {
+    const memberKey = user.linkedMemberId ? `member:${user.linkedMemberId}` : null;
+    const key = memberKey && subjects.has(memberKey) ? memberKey : `user:${user.id}`;
+    const subject = subjects.get(key) ?? { userIds: [], roles: [], rsvp: emptyRsvpCounts() };
+    subject.userIds.push(user.id);
+    if (!subject.roles.includes(user.role)) subject.roles.push(user.role);
+    subjects.set(key, subject);
+    userSubjectKey.set(user.id, key);
+    if (user.email) emailSubjectKey.set(user.email.toLowerCase(), key);
+  }
+
+  const count = (key: string | undefined, response: AudienceRsvpResponse) => {
+    const subject = key ? subjects.get(key) : undefined;
+    if (subject) subject.rsvp[response]++;
+  };
+  for (const rsvp of broadcastRsvps) {
+    const key = rsvp.memberId ? `member:${rsvp.memberId}` : rsvp.email ? emailSubjectKey.get(rsvp.email.toLowerCase()) : undefined;
+    count(key, toRsvpResponse(rsvp.rsvpResponse));
+  }
+  for (const rsvp of gatheringRsvps) {
+    const key = rsvp.memberId ? `member:${rsvp.memberId}` : rsvp.userId ? userSubjectKey.get(rsvp.userId) : undefined;
+    count(key, toRsvpResponse(rsvp.rsvpStatus));
+  }
+
+  return Array.from(subjects.values());
+}
+
+/**
+ * Members and users an audience rule matches
+ */
+export async function resolveAudience(rule: AudienceRule): Promise<ResolvedAudience> {
+  const matched = evaluateAudience(rule, await loadAudienceSubjects());
+  return {
+    count: matched.length,
+    memberIds: matched.flatMap(subject => (subject.memberId ? [subject.memberId] : [])),
+    userIds: matched.flatMap(subject => subject.userIds),
+  };
+}
+
+// ============================================
+// SAVED SEGMENTS
+// ============================================
+
+function toSegment(row: {
+  id: string;
+  name: string;
+  description: string | null;
+  rules: string;
+  lastCount: number;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): AudienceSegment {
+  return { ...row, rules: JSON.parse(row.rules) as AudienceRule };
+}
+
+export async function listSegments(): Promise<AudienceSegment[]> {
+  const rows = await prisma.audienceSegment.findMany({ orderBy: { name: 'asc' } });
+  return rows.map(toSegment);
+}
+
+export async function getSegment(id: string): Promise<AudienceSegment | null> {
+  const row = await prisma.audienceSegment.findUnique({ where: { id } });
+  return row ? toSegment(row) : null;
+}
+
+export async function createSegment(
+  input: SegmentInput,
+  createdBy: { id: string; name: string }
+): Promise<AudienceSegment> {
+  const { count } = await resolveAudience(input.rules);
+  const row = await prisma.audienceSegment.create({
+    data: {
+      name: input.name,
+      description: input.description || null,
+      rules: JSON.stringify(input.rules),
+      lastCount: count,
+      createdBy: createdBy.id,
+      createdByName: createdBy.name,
+    },
+  });
+  return toSegment(row);
+}
+
+export async function updateSegment(id: string, input: Partial<SegmentInput>): Promise<AudienceSegment> {
+  const lastCount = input.rules ? (await resolveAudience(input.rules)).count : undefined;
+  const row = await prisma.audienceSegment.update({
+    where: { id },
+    data: {
+      name: input.name,
+      description: input.description,
+      rules: input.rules ? JSON.stringify(input.rules) : undefined,
+      lastCount,
+    },
+  });
+  return toSegment(row);
+}
+
+/**
+ * Delete a segment. Scheduled broadcasts still targeting it would lose
+ * their audience, so those block the delete.
+ */
+export async function deleteSegment(id: string): Promise<{ deleted: boolean; blockedBy: number }> {
+  const blockedBy = await prisma.broadcast.count({
+    where: { targetSegmentId: id, status: { in: ['DRAFT', 'SCHEDULED'] } },
+  });
+  if (blockedBy > 0) return { deleted: false, blockedBy };
+
+  await prisma.gathering.updateMany({ where: { audienceSegmentId: id }, data: { audienceSegmentId: null } });
+  await prisma.audienceSegment.delete({ where: { id } });
+  return { deleted: true, blockedBy: 0 };
+}
+
+/**
+ * Rule a broadcast or gathering targets: its saved segment's current rules,
+ * or rules stored on it directly
+ */
+export async function getTargetRule(target: {
+  targetSegmentId?: string | null;
+  targetRules?: string | null;
+}): Promise<AudienceRule | null> {
+  if (target.targetSegmentId) {
+    return (await getSegment(target.targetSegmentId))?.rules ?? null;
+  }
+  return target.targetRules ? (JSON.parse(target.targetRules) as AudienceRule) : null;
+}
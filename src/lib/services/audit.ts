@@ -0,0 +1,348 @@
+// Audit Service
+// Al-Shaye Family Tree Application
+//
+// Server-side audit trail. Every mutating API route records what happened
+// with audit(); entries are appended to the hash-chained AuditLog table
+// (see src/lib/audit-chain.ts) and read back by /admin/audit.
+
+import type { NextRequest } from 'next/server';
+import type { AuditLog, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getAuthUser } from '@/lib/api';
+import { backupSettings } from '@/config/constants';
+import { getClientIp } from '@/lib/rate-limit';
+import { safeJsonParse } from '@/lib/utils/safe-json';
+import { AUDIT_GENESIS_HASH, computeAuditHash, verifyAuditChain, type AuditHashInput } from '@/lib/audit-chain';
+import type {
+  AuditCategory,
+  AuditChainStatus,
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditSeverity,
+} from '@/lib/audit';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AuditEventInput {
+  action: string;
+  category: AuditCategory;
+  severity?: AuditSeverity;      // Defaults to WARNING for failures, INFO otherwise
+  description?: string;
+
+  // The acting user. When neither it nor the individual fields are given,
+  // the user is looked up from the request's session token.
+  user?: { id: string; email?: string | null; nameArabic?: string | null; role?: string | null } | null;
+  userId?: string | null;
+  userEmail?: string | null;
+  userName?: string | null;
+  userRole?: string | null;
+
+  targetType?: string;
+  targetId?: string | null;
+  targetName?: string | null;
+
+  details?: Record<string, unknown> | null;
+  previousState?: Record<string, unknown> | null;
+  newState?: Record<string, unknown> | null;
+
+  // Fills ipAddress and userAgent when they are not given
+  request?: NextRequest;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+
+  success?: boolean;
+  errorMessage?: string | null;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Entries older than this are removed by the cleanup job
+export const AUDIT_RETENTION_DAYS =
+  parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '', 10) || backupSettings.auditLogRetentionDays;
+
+// Serializes appends so each entry links to the one before it
+const AUDIT_CHAIN_LOCK_ID = 7345001;
+
+const VERIFY_BATCH_SIZE = 1000;
+const MAX_EXPORT_ROWS = 50000;
+
+// ============================================
+// WRITING
+// ============================================
+
+function toJson(value: Record<string, unknown> | null | undefined): string | null {
+  return value ? JSON.stringify(value) : null;
+}
+
+/**
+ * Append an entry to the audit log. Failures are logged and swallowed so
+ * that auditing never breaks the request being audited.
+ */
+export async function audit(input: AuditEventInput): Promise<void> {
+  try {
+    const hasActor = input.user !== undefined || input.userId !== undefined || input.userEmail !== undefined;
+    const user = hasActor || !input.request ? input.user : await getAuthUser(input.request);
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await lockAuditChain(tx);
+      await appendEntry(tx, toEntryData(input, user));
+    });
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${input.action}:`, error);
+  }
+}
+
+function toEntryData(input: AuditEventInput, user: AuditEventInput['user']): Omit<AuditHashInput, 'createdAt'> {
+  const success = input.success !== false;
+
+  return {
+    action: input.action,
+    category: input.category,
+    severity: input.severity || (success ? 'INFO' : 'WARNING'),
+    description: input.description || null,
+    userId: user?.id ?? input.userId ?? null,
+    userEmail: user?.email ?? input.userEmail ?? null,
+    userName: user?.nameArabic ?? input.userName ?? null,
+    userRole: user?.role ?? input.userRole ?? null,
+    targetType: input.targetType || null,
+    targetId: input.targetId || null,
+    targetName: input.targetName || null,
+    details: toJson(input.details),
+    previousState: toJson(input.previousState),
+    newState: toJson(input.newState),
+    ipAddress: input.ipAddress || (input.request ? getClientIp(input.request) : null),
+    userAgent: input.userAgent || input.request?.headers.get('user-agent') || null,
+    success,
+    errorMessage: input.errorMessage || null,
+  };
+}
+
+// Held until the transaction ends, so appends and retention never interleave
+async function lockAuditChain(tx: Prisma.TransactionClient): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`;
+}
+
+// Link a new entry to the newest one; the chain must be locked
+async function appendEntry(tx: Prisma.TransactionClient, data: Omit<AuditHashInput, 'createdAt'>): Promise<void> {
+  const last = await tx.auditLog.findFirst({
+    orderBy: { sequence: 'desc' },
+    select: { hash: true },
+  });
+  const prevHash = last?.hash || AUDIT_GENESIS_HASH;
+  const createdAt = new Date();
+
+  await tx.auditLog.create({
+    data: {
+      ...data,
+      createdAt,
+      prevHash,
+      hash: computeAuditHash({ ...data, createdAt }, prevHash),
+    },
+  });
+}
+
+// ============================================
+// READING
+// ============================================
+
+function toAuditLogEntry(row: AuditLog): AuditLogEntry {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    severity: row.severity as AuditSeverity,
+    details: safeJsonParse<Record<string, unknown> | null>(row.details, null),
+    previousState: safeJsonParse<Record<string, unknown> | null>(row.previousState, null),
+    newState: safeJsonParse<Record<string, unknown> | null>(row.newState, null),
+  };
+}
+
+function buildWhere(filter: AuditLogFilter): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (filter.action) where.action = filter.action;
+  if (filter.category) where.category = filter.category;
+  if (filter.severity) where.severity = filter.severity;
+  if (filter.userId) where.userId = filter.userId;
+  if (filter.targetType) where.targetType = filter.targetType;
+  if (filter.targetId) where.targetId = filter.targetId;
+  if (filter.success !== undefined) where.success = filter.success;
+
+  if (filter.startDate || filter.endDate) {
+    where.createdAt = {};
+    if (filter.startDate) where.createdAt.gte = new Date(filter.startDate);
+    if (filter.endDate) {
+      // A bare date means the whole day
+      const end = new Date(filter.endDate);
+      if (/^\d{4}-\d{2}-\d{2}$/.test(filter.endDate)) end.setUTCHours(23, 59, 59, 999);
+      where.createdAt.lte = end;
+    }
+  }
+
+  if (filter.search) {
+    const contains = { contains: filter.search, mode: 'insensitive' as const };
+    where.OR = [
+      { description: contains },
+      { userName: contains },
+      { userEmail: contains },
+      { targetName: contains },
+      { targetId: contains },
+    ];
+  }
+
+  return where;
+}
+
+export async function listAuditLogs(
+  filter: AuditLogFilter,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ logs: AuditLogEntry[]; total: number }> {
+  const where = buildWhere(filter);
+  const [rows, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { sequence: 'desc' },
+      take: Math.min(options.limit || 50, 500),
+      skip: options.offset || 0,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return { logs: rows.map(toAuditLogEntry), total };
+}
+
+/**
+ * All entries matching the filter, oldest first, for CSV export
+ */
+export async function exportAuditLogs(filter: AuditLogFilter): Promise<AuditLogEntry[]> {
+  const rows = await prisma.auditLog.findMany({
+    where: buildWhere(filter),
+    orderBy: { sequence: 'asc' },
+    take: MAX_EXPORT_ROWS,
+  });
+  return rows.map(toAuditLogEntry);
+}
+
+export async function getAuditStats(filter: AuditLogFilter = {}) {
+  const where = buildWhere(filter);
+  const todayStart = new Date();
+  todayStart.setHours(0, 0, 0, 0);
+  const weekStart = new Date(todayStart.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+  const [total, today, thisWeek, failed, severities] = await Promise.all([
+    prisma.auditLog.count({ where }),
+    prisma.auditLog.count({ where: { ...where, createdAt: { gte: todayStart } } }),
+    prisma.auditLog.count({ where: { ...where, createdAt: { gte: weekStart } } }),
+    prisma.auditLog.count({ where: { ...where, success: false } }),
+    prisma.auditLog.groupBy({ by: ['severity'], where, _count: { _all: true } }),
+  ]);
+
+  const bySeverity: Record<string, number> = {};
+  for (const group of severities as { severity: string; _count: { _all: number } }[]) {
+    bySeverity[group.severity] = group._count._all;
+  }
+
+  return { total, today, thisWeek, failed, bySeverity };
+}
+
+// ============================================
+// INTEGRITY
+// ============================================
+
+/**
+ * Hash the oldest remaining entry must point at. After retention removed
+ * older entries, that is the last removed hash, recorded (inside the chain)
+ * by the most recent AUDIT_RETENTION entry.
+ */
+async function getChainAnchor(): Promise<string> {
+  const retention = await prisma.auditLog.findFirst({
+    where: { action: 'AUDIT_RETENTION' },
+    orderBy: { sequence: 'desc' },
+    select: { details: true },
+  });
+  const details = safeJsonParse<{ lastDeletedHash?: string }>(retention?.details ?? null, {});
+  return details.lastDeletedHash || AUDIT_GENESIS_HASH;
+}
+
+/**
+ * Recompute the whole chain in batches
+ */
+export async function verifyAuditLogChain(): Promise<AuditChainStatus> {
+  let prevHash = await getChainAnchor();
+  let afterSequence = -1;
+  let checked = 0;
+
+  for (;;) {
+    const rows = await prisma.auditLog.findMany({
+      where: { sequence: { gt: afterSequence } },
+      orderBy: { sequence: 'asc' },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (rows.length === 0) break;
+
+    const result = verifyAuditChain(rows, prevHash);
+    checked += result.checked;
+    if (!result.valid) {
+      return { valid: false, checked, brokenAt: result.brokenAt };
+    }
+
+    prevHash = result.lastHash;
+    afterSequence = rows[rows.length - 1].sequence;
+  }
+
+  return { valid: true, checked, brokenAt: null };
+}
+
+// ============================================
+// RETENTION
+// ============================================
+
+/**
+ * Remove entries older than the retention period. Only a contiguous run of
+ * the oldest entries is removed, and the last removed hash is recorded in
+ * a new AUDIT_RETENTION entry so the remaining chain still verifies. Both
+ * happen in one transaction under the chain lock; errors reach the caller.
+ */
+export async function enforceAuditRetention(
+  retentionDays: number = AUDIT_RETENTION_DAYS
+): Promise<{ deleted: number; retentionDays: number }> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const deleted = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await lockAuditChain(tx);
+
+    const lastExpired = await tx.auditLog.findFirst({
+      where: { createdAt: { lt: cutoff } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    });
+    if (!lastExpired) return 0;
+
+    const count = await tx.auditLog.count({ where: { sequence: { lte: lastExpired.sequence } } });
+
+    // Appended before the delete so it links to the newest entry even when
+    // every other entry expired
+    await appendEntry(tx, toEntryData({
+      action: 'AUDIT_RETENTION',
+      category: 'SYSTEM',
+      description: `تم حذف ${count} سجل أقدم من ${retentionDays} يوم من سجل المراجعة`,
+      userName: 'النظام',
+      userRole: 'SYSTEM',
+      targetType: 'AUDIT_LOG',
+      details: {
+        deletedCount: count,
+        retentionDays,
+        throughSequence: lastExpired.sequence,
+        lastDeletedHash: lastExpired.hash,
+      },
+    }, undefined));
+
+    await tx.auditLog.deleteMany({ where: { sequence: { lte: lastExpired.sequence } } });
+    return count;
+  });
+
+  return { deleted, retentionDays };
+}
@@ -1,9 +1,28 @@
 // Broadcast Service
 // Al-Shaye Family Tree Application
-// Handles email broadcasts for meetings, announcements, reminders, and updates
+// Handles broadcasts for meetings, announcements, reminders, and updates
+// over email, WhatsApp and SMS
 
 import { prisma } from '@/lib/prisma';
 import { emailService } from './email';
+import { smsService } from './sms';
+import { whatsappService } from './whatsapp';
+import { isExcludedFromExports } from '@/lib/privacy';
+import { addEmailTracking } from '@/lib/email-tracking';
+import { getSuppressedEmails } from './email-tracking';
+import { getTargetRule, resolveAudience } from './audience';
+import { getCustomTemplate } from './email-templates';
+import { renderEmailTemplate } from '@/lib/email-templates';
+import { buildGatheringRsvpUrl } from './gatherings';
+import type { AudienceRule } from '@/lib/audience';
+import {
+  buildWhatsAppTemplate,
+  parseBroadcastChannels,
+  renderBroadcastSms,
+  resolveRecipientChannels,
+  serializeBroadcastChannels,
+  type BroadcastChannel,
+} from '@/lib/broadcast-channels';
 
 // ============================================
 // TYPES
@@ -11,7 +30,7 @@ import { emailService } from './email';
 
 export type BroadcastType = 'MEETING' | 'ANNOUNCEMENT' | 'REMINDER' | 'UPDATE';
 export type BroadcastStatus = 'DRAFT' | 'SCHEDULED' | 'SENDING' | 'SENT' | 'CANCELLED';
-export type TargetAudience = 'ALL' | 'BRANCH' | 'GENERATION' | 'CUSTOM';
+export type TargetAudience = 'ALL' | 'BRANCH' | 'GENERATION' | 'CUSTOM' | 'SEGMENT' | 'RULES';
 export type RSVPResponse = 'YES' | 'NO' | 'MAYBE';
 
 export interface CreateBroadcastInput {
@@ -26,11 +45,17 @@ export interface CreateBroadcastInput {
   meetingUrl?: string;
   rsvpRequired?: boolean;
   rsvpDeadline?: Date;
+  // Channels to send on; email when left out
+  channels?: BroadcastChannel[];
   // Targeting
   targetAudience: TargetAudience;
   targetBranch?: string;
   targetGeneration?: number;
   targetMemberIds?: string[];
+  targetSegmentId?: string;
+  targetRules?: AudienceRule;
+  // Gathering the broadcast invites to
+  gatheringId?: string;
   // Scheduling
   scheduledAt?: Date;
   // Creator info
@@ -41,14 +66,32 @@ export interface CreateBroadcastInput {
 export interface BroadcastRecipient {
   memberId?: string;
   memberName: string;
-  email: string;
+  email?: string;
+  phone?: string;
+  /** Channels this recipient gets the broadcast on */
+  channels: BroadcastChannel[];
+}
+
+// Delivery on one non-email channel; email status lives on the recipient
+interface ChannelDelivery {
+  recipientId: string;
+  channel: BroadcastChannel;
+  to: string;
+  status: 'SENT' | 'FAILED';
+  providerMessageId?: string;
+  errorMessage?: string;
+  sentAt?: Date;
 }
 
 export interface SendBroadcastResult {
   success: boolean;
   totalRecipients: number;
+  /** Recipients reached on at least one channel */
   sentCount: number;
+  /** Recipients every channel failed for */
   failedCount: number;
+  /** Email addresses skipped after a hard bounce or spam complaint */
+  suppressedCount?: number;
   errors?: string[];
 }
 
@@ -56,43 +99,47 @@ export interface SendBroadcastResult {
 // BROADCAST TEMPLATES
 // ============================================
 
-function renderBroadcastEmail(
-  broadcast: {
-    titleAr: string;
-    titleEn?: string | null;
-    contentAr: string;
-    contentEn?: string | null;
-    type: string;
-    meetingDate?: Date | null;
-    meetingLocation?: string | null;
-    meetingUrl?: string | null;
-    rsvpRequired?: boolean;
-    rsvpDeadline?: Date | null;
-  },
-  recipient: BroadcastRecipient,
-  baseUrl: string,
-  broadcastId: string
-): { subject: string; html: string; text: string } {
-  const formatDate = (date: Date) => {
-    return new Intl.DateTimeFormat('ar-SA', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      timeZone: 'Asia/Riyadh',
-    }).format(date);
-  };
+interface BroadcastEmailContent {
+  titleAr: string;
+  titleEn?: string | null;
+  contentAr: string;
+  contentEn?: string | null;
+  type: string;
+  meetingDate?: Date | null;
+  meetingLocation?: string | null;
+  meetingUrl?: string | null;
+  rsvpRequired?: boolean;
+  rsvpDeadline?: Date | null;
+}
 
-  const typeLabels: Record<string, { ar: string; en: string; color: string }> = {
-    MEETING: { ar: 'دعوة اجتماع', en: 'Meeting Invitation', color: '#2563eb' },
-    ANNOUNCEMENT: { ar: 'إعلان', en: 'Announcement', color: '#1E3A5F' },
-    REMINDER: { ar: 'تذكير', en: 'Reminder', color: '#f59e0b' },
-    UPDATE: { ar: 'تحديث', en: 'Update', color: '#10b981' },
-  };
+const BROADCAST_TYPE_LABELS: Record<string, { ar: string; en: string; color: string }> = {
+  MEETING: { ar: 'دعوة اجتماع', en: 'Meeting Invitation', color: '#2563eb' },
+  ANNOUNCEMENT: { ar: 'إعلان', en: 'Announcement', color: '#1E3A5F' },
+  REMINDER: { ar: 'تذكير', en: 'Reminder', color: '#f59e0b' },
+  UPDATE: { ar: 'تحديث', en: 'Update', color: '#10b981' },
+};
+
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('ar-SA', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Asia/Riyadh',
+  }).format(date);
+}
 
-  const typeInfo = typeLabels[broadcast.type] || typeLabels.ANNOUNCEMENT;
+// Meeting details, RSVP buttons and unsubscribe link, shared by the built-in
+// email and the editable broadcast template
+function broadcastEmailSections(
+  broadcast: BroadcastEmailContent,
+  recipient: { email: string; rsvpUrl?: string },
+  baseUrl: string,
+  broadcastId: string
+): { typeInfo: { ar: string; en: string; color: string }; meetingSection: string; rsvpSection: string; unsubscribeUrl: string } {
+  const typeInfo = BROADCAST_TYPE_LABELS[broadcast.type] || BROADCAST_TYPE_LABELS.ANNOUNCEMENT;
 
   // Build meeting details section
   let meetingSection = '';
@@ -131,7 +178,9 @@ function renderBroadcastEmail(
   // Build RSVP section
   let rsvpSection = '';
   if (broadcast.rsvpRequired) {
-    const rsvpBaseUrl = `${baseUrl}/api/broadcasts/${broadcastId}/rsvp?email=${encodeURIComponent(recipient.email)}`;
+    // Gathering invitations answer on the attendee's personal RSVP page
+    const rsvpBaseUrl = recipient.rsvpUrl
+      || `${baseUrl}/api/broadcasts/${broadcastId}/rsvp?email=${encodeURIComponent(recipient.email)}`;
     rsvpSection = `
       <div style="background: #fff3cd; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
         <h3 style="margin: 0 0 15px 0; color: #856404;">🗓️ يرجى تأكيد حضورك</h3>
@@ -151,6 +200,45 @@ function renderBroadcastEmail(
     `;
   }
 
+  return {
+    typeInfo,
+    meetingSection,
+    rsvpSection,
+    unsubscribeUrl: `${baseUrl}/unsubscribe?email=${encodeURIComponent(recipient.email)}`,
+  };
+}
+
+/**
+ * Variables for the broadcast template edited in /admin/settings/email-templates
+ */
+function broadcastTemplateData(
+  broadcast: BroadcastEmailContent,
+  recipient: { memberName: string; email: string; rsvpUrl?: string },
+  baseUrl: string,
+  broadcastId: string
+): Record<string, unknown> {
+  const { typeInfo, meetingSection, rsvpSection, unsubscribeUrl } = broadcastEmailSections(broadcast, recipient, baseUrl, broadcastId);
+  return {
+    memberName: recipient.memberName,
+    typeLabel: typeInfo.ar,
+    titleAr: broadcast.titleAr,
+    titleEn: broadcast.titleEn,
+    contentAr: broadcast.contentAr,
+    contentEn: broadcast.contentEn,
+    meetingDetails: meetingSection.trim(),
+    rsvpButtons: rsvpSection.trim(),
+    unsubscribeUrl,
+  };
+}
+
+function renderBroadcastEmail(
+  broadcast: BroadcastEmailContent,
+  recipient: { memberName: string; email: string; rsvpUrl?: string },
+  baseUrl: string,
+  broadcastId: string
+): { subject: string; html: string; text: string } {
+  const { typeInfo, meetingSection, rsvpSection, unsubscribeUrl } = broadcastEmailSections(broadcast, recipient, baseUrl, broadcastId);
+
   const html = `
     <div dir="rtl" style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
       <div style="background: linear-gradient(135deg, ${typeInfo.color} 0%, ${typeInfo.color}dd 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
@@ -183,7 +271,7 @@ function renderBroadcastEmail(
         <p style="color: #999; font-size: 12px; text-align: center;">
           هذه الرسالة أرسلت إلى أفراد عائلة آل شايع
           <br>
-          <a href="${baseUrl}/unsubscribe?email=${encodeURIComponent(recipient.email)}" style="color: #999;">إلغاء الاشتراك</a>
+          <a href="${unsubscribeUrl}" style="color: #999;">إلغاء الاشتراك</a>
         </p>
       </div>
     </div>
@@ -204,6 +292,7 @@ ${broadcast.meetingDate ? `
 ${broadcast.meetingLocation ? `- المكان: ${broadcast.meetingLocation}` : ''}
 ${broadcast.meetingUrl ? `- الرابط: ${broadcast.meetingUrl}` : ''}
 ` : ''}
+${recipient.rsvpUrl ? `للرد على الدعوة: ${recipient.rsvpUrl}` : ''}
 
 ---
 شجرة عائلة آل شايع
@@ -241,10 +330,14 @@ export class BroadcastService {
         meetingUrl: input.meetingUrl,
         rsvpRequired: input.rsvpRequired ?? false,
         rsvpDeadline: input.rsvpDeadline,
+        channels: serializeBroadcastChannels(input.channels ?? ['EMAIL']),
         targetAudience: input.targetAudience,
         targetBranch: input.targetBranch,
         targetGeneration: input.targetGeneration,
         targetMemberIds: input.targetMemberIds ? JSON.stringify(input.targetMemberIds) : null,
+        targetSegmentId: input.targetSegmentId,
+        targetRules: input.targetRules ? JSON.stringify(input.targetRules) : null,
+        gatheringId: input.gatheringId,
         status: input.scheduledAt ? 'SCHEDULED' : 'DRAFT',
         scheduledAt: input.scheduledAt,
         createdBy: input.createdBy,
@@ -255,24 +348,40 @@ export class BroadcastService {
     return broadcast;
   }
 
-  // Get recipients based on targeting
+  // Get recipients based on targeting, with the channels each one gets
   async getRecipients(broadcast: {
     targetAudience: string;
     targetBranch?: string | null;
     targetGeneration?: number | null;
     targetMemberIds?: string | null;
+    targetSegmentId?: string | null;
+    targetRules?: string | null;
+    channels?: string | null;
   }): Promise<BroadcastRecipient[]> {
+    const channels = parseBroadcastChannels(broadcast.channels || 'EMAIL');
+    const reachable = { OR: [{ email: { not: null } }, { phone: { not: null } }] };
+    const select = {
+      id: true,
+      fullNameAr: true,
+      firstName: true,
+      email: true,
+      phone: true,
+      broadcastChannels: true,
+      privacyOverrides: true,
+    };
     let members;
+    // Users matched by segment or rules; every active user otherwise
+    let userIds: string[] | undefined;
 
     switch (broadcast.targetAudience) {
       case 'BRANCH':
         members = await prisma.familyMember.findMany({
           where: {
             branch: broadcast.targetBranch || undefined,
-            email: { not: null },
+            ...reachable,
             status: 'Living',
           },
-          select: { id: true, fullNameAr: true, firstName: true, email: true },
+          select,
         });
         break;
 
@@ -280,10 +389,10 @@ export class BroadcastService {
         members = await prisma.familyMember.findMany({
           where: {
             generation: broadcast.targetGeneration || undefined,
-            email: { not: null },
+            ...reachable,
             status: 'Living',
           },
-          select: { id: true, fullNameAr: true, firstName: true, email: true },
+          select,
         });
         break;
 
@@ -294,61 +403,162 @@ export class BroadcastService {
         members = await prisma.familyMember.findMany({
           where: {
             id: { in: memberIds },
-            email: { not: null },
+            ...reachable,
+          },
+          select,
+        });
+        break;
+
+      case 'SEGMENT':
+      case 'RULES': {
+        // Rules say whether deceased members are included, so status isn't filtered here
+        const rule = await getTargetRule(broadcast);
+        const audience = rule ? await resolveAudience(rule) : { memberIds: [], userIds: [] };
+        userIds = audience.userIds;
+        members = await prisma.familyMember.findMany({
+          where: {
+            id: { in: audience.memberIds },
+            ...reachable,
           },
-          select: { id: true, fullNameAr: true, firstName: true, email: true },
+          select,
         });
         break;
+      }
 
       case 'ALL':
       default:
         members = await prisma.familyMember.findMany({
           where: {
-            email: { not: null },
+            ...reachable,
             status: 'Living',
           },
-          select: { id: true, fullNameAr: true, firstName: true, email: true },
+          select,
         });
         break;
     }
 
+    // Members who opted out of broadcasts, with or without contact details on their record
+    members = members.filter(member => !isExcludedFromExports(member));
+    const optedOut = await prisma.familyMember.findMany({
+      where: { privacyOverrides: { contains: 'excludeFromExports' } },
+      select: { id: true, privacyOverrides: true },
+    });
+    const optedOutIds = new Set(optedOut.filter(isExcludedFromExports).map(member => member.id));
+
     // Also include users with emails
-    const users = await prisma.user.findMany({
+    const users = (await prisma.user.findMany({
       where: {
         status: 'ACTIVE',
         email: { not: '' },
+        ...(userIds && { id: { in: userIds } }),
       },
-      select: { id: true, nameArabic: true, email: true, linkedMemberId: true },
-    });
+      select: { id: true, nameArabic: true, email: true, phone: true, linkedMemberId: true },
+    })).filter(user => !user.linkedMemberId || !optedOutIds.has(user.linkedMemberId));
 
-    // Combine and dedupe by email
+    // Combine and dedupe by email; a phone number is only messaged once
     const recipientMap = new Map<string, BroadcastRecipient>();
+    const phonesUsed = new Set<string>();
+    const preferences = new Map<string, BroadcastChannel[]>();
+    const add = (recipient: Omit<BroadcastRecipient, 'channels'>, preferred: BroadcastChannel[]) => {
+      if (recipient.email && recipientMap.has(recipient.email)) return;
+      const phoneDigits = recipient.phone?.replace(/[^0-9]/g, '');
+      const phone = phoneDigits && !phonesUsed.has(phoneDigits) ? recipient.phone : undefined;
+
+      const recipientChannels = resolveRecipientChannels(channels, { ...recipient, phone, preferred });
+      if (recipientChannels.length === 0) return;
+      if (phoneDigits && recipientChannels.some(channel => channel !== 'EMAIL')) phonesUsed.add(phoneDigits);
+      recipientMap.set(recipient.email || `tel:${phoneDigits}`, { ...recipient, phone, channels: recipientChannels });
+    };
 
     // Add family members
     for (const member of members) {
-      if (member.email) {
-        recipientMap.set(member.email, {
-          memberId: member.id,
-          memberName: member.fullNameAr || member.firstName,
-          email: member.email,
-        });
-      }
+      const preferred = parseBroadcastChannels(member.broadcastChannels);
+      preferences.set(member.id, preferred);
+      add({
+        memberId: member.id,
+        memberName: member.fullNameAr || member.firstName,
+        email: member.email || undefined,
+        phone: member.phone || undefined,
+      }, preferred);
     }
 
     // Add users (only if their email isn't already in the map)
     for (const user of users) {
-      if (user.email && !recipientMap.has(user.email)) {
-        recipientMap.set(user.email, {
-          memberId: user.linkedMemberId || undefined,
-          memberName: user.nameArabic,
-          email: user.email,
-        });
-      }
+      add({
+        memberId: user.linkedMemberId || undefined,
+        memberName: user.nameArabic,
+        email: user.email,
+        phone: user.phone || undefined,
+      }, (user.linkedMemberId && preferences.get(user.linkedMemberId)) || []);
     }
 
     return Array.from(recipientMap.values());
   }
 
+  // Match recipients to the gathering's attendees, adding the ones not there
+  // yet, and return each recipient's RSVP link by recipient key
+  private async addGatheringInvitees(
+    gatheringId: string,
+    recipients: BroadcastRecipient[],
+    recipientKey: (recipient: BroadcastRecipient) => string
+  ): Promise<Map<string, string>> {
+    const emails = recipients.flatMap(recipient => (recipient.email ? [recipient.email] : []));
+    const users = await prisma.user.findMany({
+      where: { email: { in: emails } },
+      select: { id: true, email: true },
+    });
+    const userIds = new Map<string, string>(users.map((user: { id: string; email: string }) => [user.email.toLowerCase(), user.id]));
+
+    type Invitee = { id?: string; userId: string | null; memberId: string | null; email: string | null };
+    const invitee = (recipient: BroadcastRecipient): Invitee => {
+      const email = recipient.email?.trim().toLowerCase() || null;
+      return { userId: (email && userIds.get(email)) || null, memberId: recipient.memberId || null, email };
+    };
+    const findAttendee = (rows: Invitee[], wanted: Invitee) => rows.find(row =>
+      (wanted.userId && row.userId === wanted.userId)
+      || (wanted.memberId && row.memberId === wanted.memberId)
+      || (wanted.email && row.email?.toLowerCase() === wanted.email));
+    const loadAttendees = (): Promise<Invitee[]> => prisma.gatheringAttendee.findMany({
+      where: { gatheringId },
+      select: { id: true, userId: true, memberId: true, email: true },
+    });
+
+    // People who registered on their own keep their RSVP and are marked invited
+    const existing = await loadAttendees();
+    const invitedIds = new Set<string>();
+    const toCreate: (Invitee & { gatheringId: string; name: string; invitedAt: Date })[] = [];
+    const now = new Date();
+    for (const recipient of recipients) {
+      const wanted = invitee(recipient);
+      const match = findAttendee(existing, wanted);
+      if (match?.id) {
+        invitedIds.add(match.id);
+      } else if (!match) {
+        const row = { ...wanted, gatheringId, name: recipient.memberName, invitedAt: now };
+        toCreate.push(row);
+        existing.push(row);
+      }
+    }
+
+    if (toCreate.length > 0) {
+      await prisma.gatheringAttendee.createMany({ data: toCreate });
+    }
+    if (invitedIds.size > 0) {
+      await prisma.gatheringAttendee.updateMany({
+        where: { id: { in: Array.from(invitedIds) }, invitedAt: null },
+        data: { invitedAt: now },
+      });
+    }
+
+    const attendees = await loadAttendees();
+    const urls = new Map<string, string>();
+    for (const recipient of recipients) {
+      const attendeeId = findAttendee(attendees, invitee(recipient))?.id;
+      if (attendeeId) urls.set(recipientKey(recipient), buildGatheringRsvpUrl(this.baseUrl, attendeeId));
+    }
+    return urls;
+  }
+
   // Send a broadcast
   async sendBroadcast(broadcastId: string): Promise<SendBroadcastResult> {
     const broadcast = await prisma.broadcast.findUnique({
@@ -386,12 +596,15 @@ export class BroadcastService {
 
     // PERFORMANCE FIX: Batch create recipient records using createMany
     // This replaces N individual upsert queries with a single batch operation
+    // Recipients not emailed on this broadcast keep the email status SKIPPED
     const recipientData = recipients.map(recipient => ({
       broadcastId,
       memberId: recipient.memberId || null,
       memberName: recipient.memberName,
-      email: recipient.email,
-      status: 'PENDING' as const,
+      email: recipient.email || null,
+      phone: recipient.phone || null,
+      channels: serializeBroadcastChannels(recipient.channels),
+      status: recipient.channels.includes('EMAIL') ? 'PENDING' : 'SKIPPED',
     }));
 
     try {
@@ -404,53 +617,141 @@ export class BroadcastService {
       // but wrap in transaction for better performance
       await prisma.$transaction(
         recipientData.map(data =>
-          prisma.broadcastRecipient.upsert({
-            where: { broadcastId_email: { broadcastId, email: data.email } },
-            update: {},
-            create: data,
-          })
+          data.email
+            ? prisma.broadcastRecipient.upsert({
+              where: { broadcastId_email: { broadcastId, email: data.email } },
+              update: {},
+              create: data,
+            })
+            : prisma.broadcastRecipient.create({ data })
         )
       );
     }
 
-    // Send emails and collect results
+    // Recipient ids sign the tracking links and key the channel deliveries
+    const recipientKey = (row: { email?: string | null; phone?: string | null }) =>
+      row.email || `tel:${row.phone?.replace(/[^0-9]/g, '')}`;
+    const recipientIds = new Map<string, string>(
+      (await prisma.broadcastRecipient.findMany({
+        where: { broadcastId },
+        select: { id: true, email: true, phone: true },
+      })).map(row => [recipientKey(row), row.id])
+    );
+
+    // Gathering invitations get an attendee row and a personal RSVP link per recipient
+    const rsvpUrls = broadcast.gatheringId
+      ? await this.addGatheringInvitees(broadcast.gatheringId, recipients, recipientKey)
+      : new Map<string, string>();
+
+    // Suppressed addresses are not emailed; their other channels still go out
+    const emailed = recipients.filter(recipient => recipient.email && recipient.channels.includes('EMAIL'));
+    const suppressed = await getSuppressedEmails(emailed.map(r => r.email!));
+    const suppressedEmails = emailed
+      .filter(recipient => suppressed.has(recipient.email!.trim().toLowerCase()))
+      .map(recipient => recipient.email!);
+    if (suppressedEmails.length > 0) {
+      await prisma.broadcastRecipient.updateMany({
+        where: {
+          broadcastId,
+          email: { in: suppressedEmails },
+        },
+        data: {
+          status: 'SUPPRESSED',
+          errorMessage: 'Address suppressed after a hard bounce or spam complaint',
+        },
+      });
+    }
+
+    // Send on every channel and collect results
     const errors: string[] = [];
-    const sentEmails: string[] = [];
+    const sentEmails: { email: string; messageId?: string }[] = [];
     const failedEmails: { email: string; error: string }[] = [];
+    const deliveries: ChannelDelivery[] = [];
+    let sentCount = 0;
+    let failedCount = 0;
+    const link = broadcast.meetingUrl || this.baseUrl;
+    const customTemplate = await getCustomTemplate('broadcast');
+
+    const sendEmail = async (recipient: BroadcastRecipient, recipientId?: string) => {
+      const email = recipient.email!;
+      try {
+        const emailRecipient = { memberName: recipient.memberName, email, rsvpUrl: rsvpUrls.get(recipientKey(recipient)) };
+        const emailContent = customTemplate
+          ? renderEmailTemplate('broadcast', customTemplate, broadcastTemplateData(broadcast, emailRecipient, this.baseUrl, broadcastId))
+          : renderBroadcastEmail(broadcast, emailRecipient, this.baseUrl, broadcastId);
+
+        const result = await emailService.sendEmail({
+          to: email,
+          subject: emailContent.subject,
+          html: recipientId
+            ? addEmailTracking(emailContent.html, { baseUrl: this.baseUrl, broadcastId, recipientId })
+            : emailContent.html,
+          text: emailContent.text,
+        });
+
+        if (result.success) {
+          sentEmails.push({ email, messageId: result.messageId });
+          return true;
+        }
+        failedEmails.push({ email, error: result.error || 'Unknown error' });
+        errors.push(`${email}: ${result.error}`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        failedEmails.push({ email, error: errorMsg });
+        errors.push(`${email}: ${errorMsg}`);
+      }
+      return false;
+    };
 
-    // Send emails in parallel batches for better performance
+    const sendToPhone = async (recipient: BroadcastRecipient, channel: BroadcastChannel, recipientId: string) => {
+      const to = recipient.phone!;
+      const recipientLink = rsvpUrls.get(recipientKey(recipient)) || link;
+      let result: { success: boolean; messageId?: string; error?: string };
+      try {
+        result = channel === 'WHATSAPP'
+          ? await whatsappService.sendTemplate({
+            to,
+            template: buildWhatsAppTemplate(broadcast, recipient.memberName, recipientLink),
+          })
+          : await smsService.sendSms({ to, message: renderBroadcastSms(broadcast, recipientLink), type: 'NOTIFICATION' });
+      } catch (error) {
+        result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      deliveries.push({
+        recipientId,
+        channel,
+        to,
+        status: result.success ? 'SENT' : 'FAILED',
+        providerMessageId: result.messageId,
+        errorMessage: result.error,
+        sentAt: result.success ? new Date() : undefined,
+      });
+      if (!result.success) errors.push(`${channel} ${to}: ${result.error}`);
+      return result.success;
+    };
+
+    // Send in parallel batches for better performance
     const BATCH_SIZE = 10;
     for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
       const batch = recipients.slice(i, i + BATCH_SIZE);
 
       await Promise.all(
         batch.map(async (recipient) => {
-          try {
-            const emailContent = renderBroadcastEmail(
-              broadcast,
-              recipient,
-              this.baseUrl,
-              broadcastId
-            );
-
-            const result = await emailService.sendEmail({
-              to: recipient.email,
-              subject: emailContent.subject,
-              html: emailContent.html,
-              text: emailContent.text,
-            });
-
-            if (result.success) {
-              sentEmails.push(recipient.email);
-            } else {
-              failedEmails.push({ email: recipient.email, error: result.error || 'Unknown error' });
-              errors.push(`${recipient.email}: ${result.error}`);
+          const recipientId = recipientIds.get(recipientKey(recipient));
+          const attempts: Promise<boolean>[] = [];
+
+          for (const channel of recipient.channels) {
+            if (channel === 'EMAIL') {
+              if (!suppressedEmails.includes(recipient.email!)) attempts.push(sendEmail(recipient, recipientId));
+            } else if (recipientId) {
+              attempts.push(sendToPhone(recipient, channel, recipientId));
             }
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-            failedEmails.push({ email: recipient.email, error: errorMsg });
-            errors.push(`${recipient.email}: ${errorMsg}`);
           }
+
+          const outcomes = await Promise.all(attempts);
+          if (outcomes.some(Boolean)) sentCount++;
+          else if (outcomes.length > 0) failedCount++;
         })
       );
     }
@@ -461,13 +762,26 @@ export class BroadcastService {
       await prisma.broadcastRecipient.updateMany({
         where: {
           broadcastId,
-          email: { in: sentEmails },
+          email: { in: sentEmails.map(s => s.email) },
         },
         data: {
           status: 'SENT',
           sentAt: new Date(),
         },
       });
+
+      // Message ids differ per recipient; delivery webhooks are matched on them
+      const withMessageIds = sentEmails.filter(s => s.messageId);
+      if (withMessageIds.length > 0) {
+        await prisma.$transaction(
+          withMessageIds.map(s =>
+            prisma.broadcastRecipient.update({
+              where: { broadcastId_email: { broadcastId, email: s.email } },
+              data: { providerMessageId: s.messageId },
+            })
+          )
+        );
+      }
     }
 
     // Update all failed recipients in one query (with generic error for batch)
@@ -484,8 +798,17 @@ export class BroadcastService {
       });
     }
 
-    const sentCount = sentEmails.length;
-    const failedCount = failedEmails.length;
+    if (deliveries.length > 0) {
+      await prisma.broadcastDelivery.createMany({
+        data: deliveries.map(delivery => ({
+          ...delivery,
+          providerMessageId: delivery.providerMessageId || null,
+          errorMessage: delivery.errorMessage || null,
+          sentAt: delivery.sentAt || null,
+        })),
+        skipDuplicates: true,
+      });
+    }
 
     // Update broadcast status
     await prisma.broadcast.update({
@@ -504,6 +827,7 @@ export class BroadcastService {
       totalRecipients: recipients.length,
       sentCount,
       failedCount,
+      suppressedCount: suppressedEmails.length,
       errors: errors.length > 0 ? errors : undefined,
     };
   }
@@ -566,13 +890,14 @@ export class BroadcastService {
     return { success: true, response };
   }
 
-  // Get broadcast by ID with recipients
+  // Get broadcast by ID with recipients and their WhatsApp/SMS deliveries
   async getBroadcast(id: string) {
     return prisma.broadcast.findUnique({
       where: { id },
       include: {
         recipients: {
           orderBy: { memberName: 'asc' },
+          include: { deliveries: true },
         },
       },
     });
@@ -645,10 +970,13 @@ export class BroadcastService {
       throw new Error('Cannot update a broadcast that has been sent');
     }
 
+    const { channels, targetRules, ...fields } = data;
     return prisma.broadcast.update({
       where: { id },
       data: {
-        ...data,
+        ...fields,
+        channels: channels ? serializeBroadcastChannels(channels) : undefined,
+        targetRules: targetRules ? JSON.stringify(targetRules) : undefined,
         targetMemberIds: data.targetMemberIds
           ? JSON.stringify(data.targetMemberIds)
           : undefined,
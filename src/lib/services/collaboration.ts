@@ -0,0 +1,178 @@
+// Collaboration Service
+// Al-Shaye Family Tree Application
+//
+// In-process event bus behind /api/tree/events: member routes publish
+// create/update/move/delete events and connected editors register their
+// presence. State lives in this server process, so all editors of a tree
+// must be served by the same instance.
+
+import { randomUUID } from 'crypto';
+import type { StoredUser } from '@/lib/auth/db-store';
+import { ConflictError } from '@/lib/errors';
+import { getMemberByIdFromDb } from '@/lib/db';
+import {
+  VERSION_CONFLICT,
+  type PresenceEntry,
+  type PresenceMode,
+  type TreeEventType,
+  type VersionConflictDetails,
+} from '@/lib/collaboration';
+import type { FamilyMember } from '@/lib/types';
+
+/** A member event before it is redacted for each connection */
+export interface RawMemberEvent {
+  type: TreeEventType;
+  memberId: string;
+  member: FamilyMember | null;
+  actor: { id: string; name: string };
+  at: string;
+}
+
+export type CollaborationMessage =
+  | { kind: 'member'; event: RawMemberEvent }
+  | { kind: 'presence'; presence: PresenceEntry[] };
+
+type Listener = (message: CollaborationMessage) => void;
+
+interface CollaborationState {
+  listeners: Set<Listener>;
+  presence: Map<string, PresenceEntry>;
+}
+
+// Kept on globalThis so route modules reloaded in development share it
+const globalForCollaboration = globalThis as unknown as {
+  collaboration: CollaborationState | undefined;
+};
+
+const state: CollaborationState = globalForCollaboration.collaboration ?? {
+  listeners: new Set(),
+  presence: new Map(),
+};
+globalForCollaboration.collaboration = state;
+
+function emit(message: CollaborationMessage): void {
+  state.listeners.forEach(listener => {
+    try {
+      listener(message);
+    } catch (error) {
+      console.error('Collaboration listener failed:', error);
+    }
+  });
+}
+
+export function subscribe(listener: Listener): () => void {
+  state.listeners.add(listener);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
+
+// ============================================
+// MEMBER EVENTS
+// ============================================
+
+/**
+ * Tell connected viewers that a member changed. Pass the member as stored
+ * after the change, or just its ID for deletions.
+ */
+export function publishMemberEvent(
+  type: TreeEventType,
+  member: FamilyMember | { id: string },
+  user: Pick<StoredUser, 'id' | 'nameArabic'>
+): void {
+  emit({
+    kind: 'member',
+    event: {
+      type,
+      memberId: member.id,
+      member: type === 'member.deleted' ? null : (member as FamilyMember),
+      actor: { id: user.id, name: user.nameArabic },
+      at: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Publish the member as it is now in the database, for routes that change
+ * it through raw queries
+ */
+export async function publishStoredMember(
+  type: TreeEventType,
+  memberId: string,
+  user: Pick<StoredUser, 'id' | 'nameArabic'>
+): Promise<void> {
+  const member = await getMemberByIdFromDb(memberId);
+  if (member) publishMemberEvent(type, member, user);
+}
+
+// ============================================
+// PRESENCE
+// ============================================
+
+export function listPresence(): PresenceEntry[] {
+  return Array.from(state.presence.values());
+}
+
+export function joinPresence(
+  user: Pick<StoredUser, 'id' | 'nameArabic'>,
+  options: { mode?: PresenceMode; branch?: string | null; memberId?: string | null } = {}
+): PresenceEntry {
+  const entry: PresenceEntry = {
+    connectionId: randomUUID(),
+    userId: user.id,
+    userName: user.nameArabic,
+    mode: options.mode || 'viewing',
+    branch: options.branch || null,
+    memberId: options.memberId || null,
+    since: new Date().toISOString(),
+  };
+  state.presence.set(entry.connectionId, entry);
+  emit({ kind: 'presence', presence: listPresence() });
+  return entry;
+}
+
+/**
+ * Change what a connection is doing. Only the user who opened the
+ * connection may change it; returns false for unknown connections.
+ */
+export function updatePresence(
+  connectionId: string,
+  userId: string,
+  changes: { mode?: PresenceMode; branch?: string | null; memberId?: string | null }
+): boolean {
+  const entry = state.presence.get(connectionId);
+  if (!entry || entry.userId !== userId) return false;
+
+  state.presence.set(connectionId, {
+    ...entry,
+    ...(changes.mode !== undefined && { mode: changes.mode }),
+    ...(changes.branch !== undefined && { branch: changes.branch }),
+    ...(changes.memberId !== undefined && { memberId: changes.memberId }),
+  });
+  emit({ kind: 'presence', presence: listPresence() });
+  return true;
+}
+
+export function leavePresence(connectionId: string): void {
+  if (state.presence.delete(connectionId)) {
+    emit({ kind: 'presence', presence: listPresence() });
+  }
+}
+
+// ============================================
+// CONFLICTS
+// ============================================
+
+/**
+ * 409 for a member whose version moved on since the client loaded it,
+ * carrying the current record for the merge dialog
+ */
+export async function memberVersionConflict(memberId: string, expectedVersion: number): Promise<ConflictError> {
+  const details: VersionConflictDetails = {
+    reason: VERSION_CONFLICT,
+    memberId,
+    expectedVersion,
+    current: await getMemberByIdFromDb(memberId),
+  };
+  return new ConflictError('Member was modified by another user', { ...details });
+}
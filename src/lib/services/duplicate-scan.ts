@@ -0,0 +1,156 @@
+// Background Duplicate Scan Service
+// Al-Shaye Family Tree Application
+
+import { prisma } from '@/lib/prisma';
+import { getAllMembersFromDb } from '@/lib/db';
+import {
+  DuplicateScanOptions,
+  DuplicateScanProgress,
+  findDuplicatePairs,
+} from '@/lib/matching/duplicate-scanner';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DuplicateScanJobProgress extends DuplicateScanProgress {
+  totalMembers: number;
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+export interface DuplicateScanStatus {
+  isEnabled: boolean;
+  cronExpression: string;
+  lastRunAt: Date | null;
+  lastRunStatus: string | null;
+  lastRunDuration: number | null;
+  lastRunError: string | null;
+  nextRunAt: Date | null;
+  progress: DuplicateScanJobProgress | null;
+  pendingFlags: number;
+}
+
+// ============================================
+// JOB REGISTRATION
+// ============================================
+
+export const DUPLICATE_SCAN_JOB_NAME = 'duplicate-scan';
+
+const DEFAULT_SCAN_CONFIG: DuplicateScanOptions = {
+  minimumScore: 70,
+  maxBirthYearGap: 5,
+};
+
+/**
+ * Register the weekly DUPLICATE_SCAN job if it does not exist yet.
+ * The job runner (services/job-runner.ts) runs it on schedule or on demand.
+ */
+export async function ensureDuplicateScanJob() {
+  return prisma.scheduledJob.upsert({
+    where: { name: DUPLICATE_SCAN_JOB_NAME },
+    update: {},
+    create: {
+      name: DUPLICATE_SCAN_JOB_NAME,
+      description: 'Scan the whole tree for duplicate members',
+      cronExpression: '0 2 * * 5', // Fridays at 2 AM
+      timezone: 'Asia/Riyadh',
+      jobType: 'DUPLICATE_SCAN',
+      isEnabled: true,
+      jobConfig: JSON.stringify(DEFAULT_SCAN_CONFIG),
+    },
+  });
+}
+
+function parseProgress(json: string | null): DuplicateScanJobProgress | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as DuplicateScanJobProgress;
+  } catch {
+    return null;
+  }
+}
+
+export async function getDuplicateScanStatus(): Promise<DuplicateScanStatus> {
+  const job = await ensureDuplicateScanJob();
+  const pendingFlags = await prisma.duplicateFlag.count({ where: { status: 'PENDING' } });
+
+  return {
+    isEnabled: job.isEnabled,
+    cronExpression: job.cronExpression,
+    lastRunAt: job.lastRunAt,
+    lastRunStatus: job.lastRunStatus,
+    lastRunDuration: job.lastRunDuration,
+    lastRunError: job.lastRunError,
+    nextRunAt: job.nextRunAt,
+    progress: parseProgress(job.lastRunProgress),
+    pendingFlags,
+  };
+}
+
+// ============================================
+// SCAN
+// ============================================
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join('|');
+}
+
+/**
+ * Scan all members for duplicates and upsert DuplicateFlag rows.
+ * Pairs already marked NOT_DUPLICATE are skipped; other existing flags
+ * keep their status and only get a fresh score and reasons.
+ */
+export async function runDuplicateScan(
+  options: Partial<DuplicateScanOptions> = {},
+  onProgress?: (progress: DuplicateScanJobProgress) => void | Promise<void>
+): Promise<DuplicateScanJobProgress> {
+  const config = { ...DEFAULT_SCAN_CONFIG, ...options };
+  const progress: DuplicateScanJobProgress = {
+    totalMembers: 0,
+    processedBlocks: 0,
+    totalBlocks: 0,
+    pairsFound: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+  };
+
+  const members = await getAllMembersFromDb();
+  progress.totalMembers = members.length;
+
+  const pairs = await findDuplicatePairs(members, config, async (scan) => {
+    Object.assign(progress, scan);
+    await onProgress?.(progress);
+  });
+
+  const existingFlags = await prisma.duplicateFlag.findMany({
+    select: { id: true, sourceMemberId: true, targetMemberId: true, status: true },
+  });
+  const flagsByPair = new Map<string, typeof existingFlags[number]>(
+    existingFlags.map((flag: typeof existingFlags[number]) => [pairKey(flag.sourceMemberId, flag.targetMemberId), flag])
+  );
+
+  for (const pair of pairs) {
+    const existing = flagsByPair.get(pairKey(pair.sourceId, pair.targetId));
+    const data = { matchScore: pair.score, matchReasons: JSON.stringify(pair.reasons) };
+
+    if (existing?.status === 'NOT_DUPLICATE') {
+      progress.skipped++;
+    } else if (existing) {
+      await prisma.duplicateFlag.update({ where: { id: existing.id }, data });
+      progress.updated++;
+    } else {
+      await prisma.duplicateFlag.upsert({
+        where: { sourceMemberId_targetMemberId: { sourceMemberId: pair.sourceId, targetMemberId: pair.targetId } },
+        update: data,
+        create: { sourceMemberId: pair.sourceId, targetMemberId: pair.targetId, detectedBy: 'SYSTEM', ...data },
+      });
+      progress.created++;
+    }
+  }
+
+  await onProgress?.(progress);
+  return progress;
+}
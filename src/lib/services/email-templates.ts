@@ -0,0 +1,223 @@
+// Email Templates Service
+// Al-Shaye Family Tree Application
+//
+// Stores admin-edited email templates with every saved version, and renders
+// them for the email and broadcast services. Types nobody has edited return
+// null from getCustomTemplate so senders keep the built-in emails.
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EDITABLE_EMAIL_TEMPLATES,
+  isEditableEmailTemplate,
+  renderDigestItems,
+  renderEmailTemplate,
+  validateEmailTemplate,
+  type EditableEmailTemplate,
+  type EmailTemplateContent,
+  type RenderedEmail,
+} from '@/lib/email-templates';
+import type { DigestItem } from '@/lib/notifications';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EmailTemplateRecord extends EmailTemplateContent {
+  type: EditableEmailTemplate;
+  /** 0 while the built-in template is in use */
+  version: number;
+  isDefault: boolean;
+  updatedByName: string | null;
+  updatedAt: Date | null;
+}
+
+export interface EmailTemplateVersionRecord extends EmailTemplateContent {
+  version: number;
+  note: string | null;
+  createdByName: string;
+  createdAt: Date;
+}
+
+interface TemplateRow {
+  type: string;
+  subjectAr: string;
+  subjectEn: string | null;
+  bodyAr: string;
+  bodyEn: string | null;
+  version: number;
+  updatedByName: string | null;
+  updatedAt: Date;
+}
+
+function toRecord(type: EditableEmailTemplate, row: TemplateRow | null): EmailTemplateRecord {
+  if (!row) {
+    return { type, ...DEFAULT_EMAIL_TEMPLATES[type], version: 0, isDefault: true, updatedByName: null, updatedAt: null };
+  }
+  return {
+    type,
+    subjectAr: row.subjectAr,
+    subjectEn: row.subjectEn,
+    bodyAr: row.bodyAr,
+    bodyEn: row.bodyEn,
+    version: row.version,
+    isDefault: false,
+    updatedByName: row.updatedByName,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export function requireTemplateType(type: string): EditableEmailTemplate {
+  if (!isEditableEmailTemplate(type)) {
+    throw new NotFoundError('Email template not found', 'emailTemplate', type);
+  }
+  return type;
+}
+
+/**
+ * Reject a template whose variables don't fit its type, one message per field
+ */
+export function assertValidTemplate(type: EditableEmailTemplate, content: EmailTemplateContent): void {
+  const issues = validateEmailTemplate(type, content);
+  if (issues.length === 0) return;
+
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of issues) {
+    fieldErrors[issue.field] = fieldErrors[issue.field] ? `${fieldErrors[issue.field]}; ${issue.message}` : issue.message;
+  }
+  throw new ValidationError('Template variables do not match the template type', fieldErrors);
+}
+
+// ============================================
+// READ
+// ============================================
+
+export async function listEmailTemplates(): Promise<EmailTemplateRecord[]> {
+  const rows = await prisma.emailTemplate.findMany();
+  const byType = new Map<string, TemplateRow>(rows.map((row: TemplateRow) => [row.type, row]));
+  return EDITABLE_EMAIL_TEMPLATES.map(type => toRecord(type, byType.get(type) ?? null));
+}
+
+export async function getEmailTemplate(type: EditableEmailTemplate): Promise<EmailTemplateRecord> {
+  const row = await prisma.emailTemplate.findUnique({ where: { type } });
+  return toRecord(type, row);
+}
+
+export async function listEmailTemplateVersions(type: EditableEmailTemplate): Promise<EmailTemplateVersionRecord[]> {
+  return prisma.emailTemplateVersion.findMany({
+    where: { template: { type } },
+    orderBy: { version: 'desc' },
+    select: {
+      version: true,
+      subjectAr: true,
+      subjectEn: true,
+      bodyAr: true,
+      bodyEn: true,
+      note: true,
+      createdByName: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * The stored template for a type, or null when senders should use the
+ * built-in email
+ */
+export async function getCustomTemplate(type: string): Promise<EmailTemplateContent | null> {
+  if (!isEditableEmailTemplate(type)) return null;
+  try {
+    return await prisma.emailTemplate.findUnique({
+      where: { type },
+      select: { subjectAr: true, subjectEn: true, bodyAr: true, bodyEn: true },
+    });
+  } catch {
+    // Database model might not exist yet
+    return null;
+  }
+}
+
+// ============================================
+// WRITE
+// ============================================
+
+/**
+ * Save a new version of a template and make it the one senders use
+ */
+export async function saveEmailTemplate(
+  type: EditableEmailTemplate,
+  content: EmailTemplateContent,
+  savedBy: { id: string; name: string },
+  note?: string | null
+): Promise<EmailTemplateRecord> {
+  const fields = {
+    subjectAr: content.subjectAr,
+    subjectEn: content.subjectEn || null,
+    bodyAr: content.bodyAr,
+    bodyEn: content.bodyEn || null,
+  };
+
+  const row = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const current = await tx.emailTemplate.findUnique({ where: { type }, select: { version: true } });
+    const version = (current?.version ?? 0) + 1;
+    const template = await tx.emailTemplate.upsert({
+      where: { type },
+      create: { type, ...fields, version, updatedBy: savedBy.id, updatedByName: savedBy.name },
+      update: { ...fields, version, updatedBy: savedBy.id, updatedByName: savedBy.name },
+    });
+    await tx.emailTemplateVersion.create({
+      data: {
+        templateId: template.id,
+        version,
+        ...fields,
+        note: note || null,
+        createdBy: savedBy.id,
+        createdByName: savedBy.name,
+      },
+    });
+    return template;
+  });
+
+  return toRecord(type, row);
+}
+
+/**
+ * Restore an earlier version by saving its content as a new version, so the
+ * rollback itself can be undone. Null when the version doesn't exist.
+ */
+export async function rollbackEmailTemplate(
+  type: EditableEmailTemplate,
+  version: number,
+  savedBy: { id: string; name: string }
+): Promise<EmailTemplateRecord | null> {
+  const previous = await prisma.emailTemplateVersion.findFirst({
+    where: { template: { type }, version },
+  });
+  if (!previous) return null;
+  return saveEmailTemplate(type, previous, savedBy, `Restored version ${version}`);
+}
+
+// ============================================
+// RENDER
+// ============================================
+
+/**
+ * Sender data in the form the template variables take
+ */
+export function templateDataFor(type: EditableEmailTemplate, data: Record<string, unknown>): Record<string, unknown> {
+  if (type === 'notification_digest' && Array.isArray(data.items)) {
+    return { ...data, items: renderDigestItems(data.items as DigestItem[]) };
+  }
+  return data;
+}
+
+/**
+ * Render the stored template for a type, or null when there is none
+ */
+export async function renderCustomEmail(type: string, data: Record<string, unknown>): Promise<RenderedEmail | null> {
+  const template = await getCustomTemplate(type);
+  if (!template || !isEditableEmailTemplate(type)) return null;
+  return renderEmailTemplate(type, template, templateDataFor(type, data));
+}
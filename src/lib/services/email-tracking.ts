@@ -0,0 +1,167 @@
+// Email Tracking Service
+// Al-Shaye Family Tree Application
+//
+// Records broadcast opens and clicks from the signed tracking routes, and
+// applies provider delivery, bounce and complaint webhooks to EmailLog and
+// broadcast recipients. Hard bounces and complaints suppress the address so
+// later sends skip it.
+
+import { prisma } from '@/lib/prisma';
+import type { DeliveryEvent } from '@/lib/email-tracking';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SuppressionReason = 'HARD_BOUNCE' | 'COMPLAINT';
+
+export interface DeliveryEventsResult {
+  processed: number;
+  suppressed: number;
+}
+
+// ============================================
+// OPENS AND CLICKS
+// ============================================
+
+/**
+ * First open of a broadcast by a recipient; later opens are ignored
+ */
+export async function recordOpen(broadcastId: string, recipientId: string): Promise<void> {
+  const { count } = await prisma.broadcastRecipient.updateMany({
+    where: { id: recipientId, broadcastId, openedAt: null },
+    data: { openedAt: new Date() },
+  });
+  if (count > 0) {
+    await prisma.broadcast.update({
+      where: { id: broadcastId },
+      data: { openCount: { increment: 1 } },
+    });
+  }
+}
+
+/**
+ * First click in a broadcast by a recipient. A click also counts as an open
+ * for mail clients that block images.
+ */
+export async function recordClick(broadcastId: string, recipientId: string): Promise<void> {
+  const { count } = await prisma.broadcastRecipient.updateMany({
+    where: { id: recipientId, broadcastId, clickedAt: null },
+    data: { clickedAt: new Date() },
+  });
+  if (count > 0) {
+    await prisma.broadcast.update({
+      where: { id: broadcastId },
+      data: { clickCount: { increment: 1 } },
+    });
+  }
+  await recordOpen(broadcastId, recipientId);
+}
+
+// ============================================
+// SUPPRESSION
+// ============================================
+
+export async function suppressEmail(
+  email: string,
+  reason: SuppressionReason,
+  provider?: string,
+  detail?: string
+): Promise<void> {
+  const normalized = email.trim().toLowerCase();
+  await prisma.emailSuppression.upsert({
+    where: { email: normalized },
+    update: { reason, provider, detail },
+    create: { email: normalized, reason, provider, detail },
+  });
+}
+
+/**
+ * The given addresses that must not be emailed, lowercased
+ */
+export async function getSuppressedEmails(emails: string[]): Promise<Set<string>> {
+  if (emails.length === 0) return new Set();
+
+  const rows = await prisma.emailSuppression.findMany({
+    where: { email: { in: emails.map(email => email.trim().toLowerCase()) } },
+    select: { email: true },
+  });
+  return new Set(rows.map(row => row.email));
+}
+
+// ============================================
+// PROVIDER EVENTS
+// ============================================
+
+// EmailLog rows and broadcast recipients carrying the event's message id.
+// Broadcasts send one message per recipient, so the id names the recipient.
+async function applyDeliveryStatus(messageId: string, event: DeliveryEvent): Promise<void> {
+  const { occurredAt } = event;
+
+  switch (event.type) {
+    case 'DELIVERED':
+      await prisma.emailLog.updateMany({
+        where: { providerMessageId: messageId, status: 'SENT' },
+        data: { status: 'DELIVERED', deliveredAt: occurredAt },
+      });
+      await prisma.broadcastRecipient.updateMany({
+        where: { providerMessageId: messageId, status: 'SENT' },
+        data: { status: 'DELIVERED', deliveredAt: occurredAt },
+      });
+      break;
+
+    case 'BOUNCED': {
+      await prisma.emailLog.updateMany({
+        where: { providerMessageId: messageId },
+        data: { status: 'BOUNCED', bounceType: event.bounceType, errorMessage: event.detail },
+      });
+      const bounced = await prisma.broadcastRecipient.findMany({
+        where: { providerMessageId: messageId, status: { in: ['SENT', 'DELIVERED'] } },
+        select: { id: true, broadcastId: true },
+      });
+      for (const recipient of bounced) {
+        await prisma.broadcastRecipient.update({
+          where: { id: recipient.id },
+          data: { status: 'BOUNCED', bouncedAt: occurredAt, errorMessage: event.detail },
+        });
+        await prisma.broadcast.update({
+          where: { id: recipient.broadcastId },
+          data: { bounceCount: { increment: 1 } },
+        });
+      }
+      break;
+    }
+
+    case 'COMPLAINED':
+      await prisma.emailLog.updateMany({
+        where: { providerMessageId: messageId },
+        data: { status: 'COMPLAINED' },
+      });
+      await prisma.broadcastRecipient.updateMany({
+        where: { providerMessageId: messageId },
+        data: { status: 'COMPLAINED' },
+      });
+      break;
+  }
+}
+
+/**
+ * Apply verified webhook events in order
+ */
+export async function applyDeliveryEvents(events: DeliveryEvent[]): Promise<DeliveryEventsResult> {
+  let suppressed = 0;
+  for (const event of events) {
+    if (event.messageId) {
+      await applyDeliveryStatus(event.messageId, event);
+    }
+
+    if (event.type === 'BOUNCED' && event.bounceType === 'HARD') {
+      await suppressEmail(event.email, 'HARD_BOUNCE', event.provider, event.detail);
+      suppressed++;
+    } else if (event.type === 'COMPLAINED') {
+      await suppressEmail(event.email, 'COMPLAINT', event.provider);
+      suppressed++;
+    }
+  }
+  return { processed: events.length, suppressed };
+}
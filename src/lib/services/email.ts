@@ -3,6 +3,12 @@
 // Supports multiple providers: Resend, SendGrid, Mailgun, SMTP
 
 import { prisma } from '@/lib/prisma';
+import type { PrivacyViewer, RedactableMember } from '@/lib/privacy';
+import { memberTemplateData } from '@/lib/services/privacy';
+import type { DigestItem } from '@/lib/notifications';
+import { normalizeMessageId } from '@/lib/email-tracking';
+import { getSuppressedEmails } from '@/lib/services/email-tracking';
+import { renderCustomEmail } from '@/lib/services/email-templates';
 
 // ============================================
 // TYPES
@@ -57,6 +63,8 @@ export const EMAIL_TEMPLATES = {
   MEMBER_UPDATED: 'member_updated',
   BACKUP_COMPLETE: 'backup_complete',
   SECURITY_ALERT: 'security_alert',
+  NOTIFICATION: 'notification',
+  NOTIFICATION_DIGEST: 'notification_digest',
 } as const;
 
 export type EmailTemplate = typeof EMAIL_TEMPLATES[keyof typeof EMAIL_TEMPLATES];
@@ -65,6 +73,10 @@ export type EmailTemplate = typeof EMAIL_TEMPLATES[keyof typeof EMAIL_TEMPLATES]
 // TEMPLATE RENDERER
 // ============================================
 
+function digestItems(data: Record<string, unknown>): DigestItem[] {
+  return Array.isArray(data.items) ? (data.items as DigestItem[]) : [];
+}
+
 function renderTemplate(templateName: string, data: Record<string, unknown>): { subject: string; html: string; text: string } {
   const templates: Record<string, { subject: string; html: string; text: string }> = {
     welcome: {
@@ -303,6 +315,61 @@ function renderTemplate(templateName: string, data: Record<string, unknown>): {
       `,
       text: `تنبيه أمني\n\n${data.alertMessage || 'تم رصد نشاط غير عادي'}\n\nالوقت: ${data.time || new Date().toLocaleString('ar-SA')}\nIP: ${data.ipAddress || 'غير معروف'}`,
     },
+    notification: {
+      subject: `${data.titleAr || 'إشعار جديد'} - ${data.titleEn || 'New notification'}`,
+      html: `
+        <div dir="rtl" style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #1E3A5F 0%, #2D5A87 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">شجرة عائلة آل شايع</h1>
+          </div>
+          <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+            <h2 style="color: #1E3A5F; margin-top: 0;">${data.titleAr || 'إشعار جديد'}</h2>
+            <p style="color: #666; line-height: 1.8;">${data.messageAr || ''}</p>
+            ${data.linkUrl ? `
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${data.linkUrl}" style="background: #1E3A5F; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+                عرض التفاصيل
+              </a>
+            </div>` : ''}
+            <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+            <p style="color: #999; font-size: 14px; text-align: center;">
+              يمكنك تغيير تفضيلات الإشعارات من <a href="${data.preferencesUrl || '#'}" style="color: #999;">الإعدادات</a>.
+            </p>
+          </div>
+        </div>
+      `,
+      text: `${data.titleAr || 'إشعار جديد'}\n\n${data.messageAr || ''}${data.linkUrl ? `\n\n${data.linkUrl}` : ''}`,
+    },
+    notification_digest: {
+      subject: 'ملخص الإشعارات اليومي - Daily notification digest',
+      html: `
+        <div dir="rtl" style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #1E3A5F 0%, #2D5A87 100%); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">ملخص الإشعارات</h1>
+          </div>
+          <div style="background: #fff; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+            <h2 style="color: #1E3A5F; margin-top: 0;">مرحباً ${data.name || ''}</h2>
+            <ul style="color: #666; line-height: 1.8; padding-right: 20px;">
+              ${digestItems(data).map(item => `
+              <li style="margin-bottom: 12px;">
+                <strong>${item.linkUrl ? `<a href="${item.linkUrl}" style="color: #1E3A5F;">${item.titleAr}</a>` : item.titleAr}</strong><br>
+                ${item.messageAr}
+              </li>`).join('')}
+            </ul>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${data.inboxUrl || '#'}" style="background: #1E3A5F; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+                صندوق الإشعارات
+              </a>
+            </div>
+            <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+            <p style="color: #999; font-size: 14px; text-align: center;">
+              يمكنك تغيير تفضيلات الإشعارات من <a href="${data.preferencesUrl || '#'}" style="color: #999;">الإعدادات</a>.
+            </p>
+          </div>
+        </div>
+      `,
+      text: `ملخص الإشعارات\n\n${digestItems(data).map(item => `- ${item.titleAr}: ${item.messageAr}`).join('\n')}\n\n${data.inboxUrl || ''}`,
+    },
   };
 
   const template = templates[templateName] || {
@@ -540,6 +607,22 @@ export class EmailService {
   async sendEmail(options: SendEmailOptions): Promise<EmailResult> {
     const config = await this.getConfig();
 
+    // Skip addresses that hard-bounced or reported spam
+    const recipients = Array.isArray(options.to) ? options.to : [options.to];
+    let suppressed = new Set<string>();
+    try {
+      suppressed = await getSuppressedEmails(recipients);
+    } catch {
+      // Database model might not exist yet
+    }
+    if (suppressed.size > 0) {
+      const allowed = recipients.filter(email => !suppressed.has(email.trim().toLowerCase()));
+      if (allowed.length === 0) {
+        return { success: false, error: 'Recipient is suppressed after a hard bounce or complaint' };
+      }
+      options = { ...options, to: Array.isArray(options.to) ? allowed : allowed[0] };
+    }
+
     // If test mode or no provider, just log and return success
     if (config.testMode || config.provider === 'none') {
       console.log('[EMAIL TEST MODE]', {
@@ -557,7 +640,7 @@ export class EmailService {
       text: options.text || '',
     };
 
-    if (options.templateName && options.templateData) {
+    if (options.templateName && options.templateData && !options.html) {
       emailContent = renderTemplate(options.templateName, options.templateData);
       if (!options.subject) {
         options.subject = emailContent.subject;
@@ -588,6 +671,11 @@ export class EmailService {
         result = { success: false, error: 'No email provider configured' };
     }
 
+    // Stored as webhooks report it, so delivery events find the log entry
+    if (result.messageId) {
+      result = { ...result, messageId: normalizeMessageId(result.messageId) || undefined };
+    }
+
     // Log to database
     try {
       await prisma.emailLog?.create({
@@ -616,7 +704,8 @@ export class EmailService {
     templateName: EmailTemplate,
     templateData: Record<string, unknown>
   ): Promise<EmailResult> {
-    const rendered = renderTemplate(templateName, templateData);
+    // Templates edited in /admin/settings/email-templates replace the built-in ones
+    const rendered = (await renderCustomEmail(templateName, templateData)) ?? renderTemplate(templateName, templateData);
     return this.sendEmail({
       to,
       subject: rendered.subject,
@@ -656,6 +745,31 @@ export class EmailService {
     return this.sendTemplateEmail(to, EMAIL_TEMPLATES.ACCESS_REQUEST_REJECTED, data);
   }
 
+  // Member details are redacted for the recipient before they reach the template or the log
+  async sendNewMemberAddedEmail(
+    to: string,
+    data: { member: RedactableMember & { fullNameAr?: string | null; firstName?: string }; recipient: PrivacyViewer; viewUrl: string }
+  ): Promise<EmailResult> {
+    return this.sendTemplateEmail(to, EMAIL_TEMPLATES.NEW_MEMBER_ADDED, {
+      ...memberTemplateData(data.member, data.recipient),
+      viewUrl: data.viewUrl,
+    });
+  }
+
+  async sendNotificationEmail(
+    to: string,
+    data: { titleAr: string; titleEn: string; messageAr: string; linkUrl?: string | null; preferencesUrl: string }
+  ): Promise<EmailResult> {
+    return this.sendTemplateEmail(to, EMAIL_TEMPLATES.NOTIFICATION, data);
+  }
+
+  async sendNotificationDigestEmail(
+    to: string,
+    data: { name: string; items: DigestItem[]; inboxUrl: string; preferencesUrl: string }
+  ): Promise<EmailResult> {
+    return this.sendTemplateEmail(to, EMAIL_TEMPLATES.NOTIFICATION_DIGEST, data);
+  }
+
   async sendSecurityAlertEmail(to: string, data: { alertMessage: string; time: string; ipAddress: string; device: string }): Promise<EmailResult> {
     return this.sendTemplateEmail(to, EMAIL_TEMPLATES.SECURITY_ALERT, data);
   }
@@ -0,0 +1,351 @@
+// Gatherings Service
+// Al-Shaye Family Tree Application
+//
+// Invitations, RSVPs and check-in for gatherings. Invitations go out as
+// broadcasts linked to the gathering; every invitee gets an attendee row and
+// a signed link to answer without signing in. Passes carry a separately
+// signed check-in token as a QR code for the door scanner.
+
+import { prisma } from '@/lib/prisma';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors';
+import { escapeHtml } from '@/lib/sanitize';
+import { signTrackingParams, verifyTrackingParams } from '@/lib/email-tracking';
+import { generateQRCodeSVG } from '@/lib/utils/qrcode';
+import {
+  gatheringStartsAt,
+  summarizeAttendance,
+  type AttendanceSummary,
+  type GatheringRsvpResponse,
+} from '@/lib/gatherings';
+import type { CreateBroadcastInput } from './broadcast';
+import type { GatheringInviteInput } from '@/lib/validations';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** RSVP links open the response page; check-in tokens are what the pass QR holds */
+export type GatheringTokenPurpose = 'rsvp' | 'check-in';
+
+export interface GatheringSummary {
+  id: string;
+  title: string;
+  titleAr: string;
+  description: string | null;
+  descriptionAr: string | null;
+  date: Date;
+  time: string | null;
+  location: string | null;
+  locationAr: string | null;
+  locationUrl: string | null;
+  status: string;
+}
+
+export interface GatheringAttendeeRecord {
+  id: string;
+  gatheringId: string;
+  userId: string | null;
+  memberId: string | null;
+  name: string;
+  email: string | null;
+  rsvpStatus: string;
+  rsvpNote: string | null;
+  rsvpAt: Date | null;
+  plusOnes: number;
+  dietaryNotes: string | null;
+  invitedAt: Date | null;
+  attended: boolean;
+  attendedAt: Date | null;
+}
+
+export interface AttendanceReport extends AttendanceSummary {
+  gathering: GatheringSummary;
+  attendees: (GatheringAttendeeRecord & { branchId: string | null; branchName: string | null })[];
+}
+
+const gatheringSelect = {
+  id: true,
+  title: true,
+  titleAr: true,
+  description: true,
+  descriptionAr: true,
+  date: true,
+  time: true,
+  location: true,
+  locationAr: true,
+  locationUrl: true,
+  status: true,
+};
+
+const attendeeSelect = {
+  id: true,
+  gatheringId: true,
+  userId: true,
+  memberId: true,
+  name: true,
+  email: true,
+  rsvpStatus: true,
+  rsvpNote: true,
+  rsvpAt: true,
+  plusOnes: true,
+  dietaryNotes: true,
+  invitedAt: true,
+  attended: true,
+  attendedAt: true,
+};
+
+// ============================================
+// TOKENS
+// ============================================
+
+export function createGatheringToken(purpose: GatheringTokenPurpose, attendeeId: string): string {
+  return `${attendeeId}.${signTrackingParams('gathering', purpose, attendeeId)}`;
+}
+
+/**
+ * The attendee id a token was issued for, or null when it's malformed or
+ * was signed for another purpose
+ */
+export function parseGatheringToken(purpose: GatheringTokenPurpose, token: string | null | undefined): string | null {
+  if (!token) return null;
+  const dot = token.lastIndexOf('.');
+  if (dot <= 0) return null;
+  const attendeeId = token.slice(0, dot);
+  return verifyTrackingParams(token.slice(dot + 1), 'gathering', purpose, attendeeId) ? attendeeId : null;
+}
+
+/**
+ * Personal RSVP page; append &response=YES|MAYBE|NO to answer in one click
+ */
+export function buildGatheringRsvpUrl(baseUrl: string, attendeeId: string): string {
+  return `${baseUrl}/gatherings/rsvp?t=${encodeURIComponent(createGatheringToken('rsvp', attendeeId))}`;
+}
+
+// ============================================
+// LOOKUPS
+// ============================================
+
+export async function getGatheringOrThrow(id: string): Promise<GatheringSummary> {
+  const gathering = await prisma.gathering.findUnique({ where: { id }, select: gatheringSelect });
+  if (!gathering) {
+    throw new NotFoundError('Gathering not found', 'gathering', id);
+  }
+  return gathering;
+}
+
+/**
+ * The attendee and gathering behind a signed token
+ */
+export async function getAttendeeByToken(
+  purpose: GatheringTokenPurpose,
+  token: string | null | undefined
+): Promise<{ attendee: GatheringAttendeeRecord; gathering: GatheringSummary }> {
+  const attendeeId = parseGatheringToken(purpose, token);
+  const attendee = attendeeId
+    ? await prisma.gatheringAttendee.findUnique({ where: { id: attendeeId }, select: attendeeSelect })
+    : null;
+  if (!attendee) {
+    throw new NotFoundError('This link is invalid or has expired', 'gatheringAttendee', attendeeId ?? undefined);
+  }
+  return { attendee, gathering: await getGatheringOrThrow(attendee.gatheringId) };
+}
+
+/**
+ * Whether a gathering still takes RSVPs: not cancelled, completed or started
+ */
+export function isAcceptingRsvps(gathering: GatheringSummary, now: Date = new Date()): boolean {
+  if (gathering.status === 'CANCELLED' || gathering.status === 'COMPLETED') return false;
+  return gatheringStartsAt(gathering.date, gathering.time) > now;
+}
+
+// ============================================
+// INVITATIONS
+// ============================================
+
+/**
+ * The broadcast inviting an audience to a gathering. Branches are sent as
+ * audience rules so sub-branches narrow the same way as everywhere else.
+ */
+export function gatheringInvitation(
+  gathering: GatheringSummary,
+  input: GatheringInviteInput,
+  createdBy: { id: string; name: string }
+): CreateBroadcastInput {
+  const message = input.messageAr || gathering.descriptionAr || gathering.description
+    || `يسعدنا دعوتكم لحضور ${gathering.titleAr}`;
+  const audience: Pick<CreateBroadcastInput, 'targetAudience' | 'targetSegmentId' | 'targetRules'> =
+    input.targetAudience === 'BRANCH'
+      ? { targetAudience: 'RULES', targetRules: { type: 'branch', lineageBranchId: input.lineageBranchId!, subBranchId: input.subBranchId } }
+      : input.targetAudience === 'SEGMENT'
+        ? { targetAudience: 'SEGMENT', targetSegmentId: input.targetSegmentId! }
+        : input.targetAudience === 'RULES'
+          ? { targetAudience: 'RULES', targetRules: input.targetRules! }
+          : { targetAudience: 'ALL' };
+
+  return {
+    titleAr: `دعوة: ${gathering.titleAr}`,
+    titleEn: `Invitation: ${gathering.title}`,
+    contentAr: message.split(/\n{2,}/).map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n'),
+    type: 'MEETING',
+    meetingDate: gatheringStartsAt(gathering.date, gathering.time),
+    meetingLocation: gathering.locationAr || gathering.location || undefined,
+    meetingUrl: gathering.locationUrl || undefined,
+    rsvpRequired: true,
+    rsvpDeadline: input.rsvpDeadline || undefined,
+    channels: input.channels,
+    ...audience,
+    gatheringId: gathering.id,
+    createdBy: createdBy.id,
+    createdByName: createdBy.name,
+  };
+}
+
+// ============================================
+// RSVP
+// ============================================
+
+export async function recordGatheringRsvp(
+  attendee: GatheringAttendeeRecord,
+  gathering: GatheringSummary,
+  response: {
+    rsvpStatus: GatheringRsvpResponse;
+    plusOnes?: number;
+    dietaryNotes?: string | null;
+    rsvpNote?: string | null;
+  }
+): Promise<GatheringAttendeeRecord> {
+  if (!isAcceptingRsvps(gathering)) {
+    throw new ConflictError('This gathering is no longer taking responses', { gatheringId: gathering.id });
+  }
+
+  // Guests only come along with someone who's attending
+  const coming = response.rsvpStatus !== 'NO';
+  return prisma.gatheringAttendee.update({
+    where: { id: attendee.id },
+    data: {
+      rsvpStatus: response.rsvpStatus,
+      plusOnes: coming ? response.plusOnes ?? attendee.plusOnes : 0,
+      dietaryNotes: coming ? response.dietaryNotes ?? attendee.dietaryNotes : null,
+      rsvpNote: response.rsvpNote ?? attendee.rsvpNote,
+      rsvpAt: new Date(),
+    },
+    select: attendeeSelect,
+  });
+}
+
+/**
+ * Whether an attendee answered they're coming (or might), and so gets a pass
+ */
+export function hasGatheringPass(attendee: Pick<GatheringAttendeeRecord, 'rsvpStatus'>): boolean {
+  return attendee.rsvpStatus === 'YES' || attendee.rsvpStatus === 'MAYBE';
+}
+
+/**
+ * QR code for the door, holding the attendee's check-in token
+ */
+export async function renderGatheringPass(attendee: GatheringAttendeeRecord): Promise<string> {
+  if (!hasGatheringPass(attendee)) {
+    throw new ValidationError('Passes are only issued to attendees who are coming', { rsvpStatus: attendee.rsvpStatus });
+  }
+  return generateQRCodeSVG(createGatheringToken('check-in', attendee.id));
+}
+
+/**
+ * Users among a gathering's invitees, for in-app invitation notifications
+ */
+export async function getInvitedUserIds(gatheringId: string): Promise<string[]> {
+  const attendees: { userId: string | null }[] = await prisma.gatheringAttendee.findMany({
+    where: { gatheringId, invitedAt: { not: null }, userId: { not: null } },
+    select: { userId: true },
+  });
+  return attendees.map(attendee => attendee.userId!);
+}
+
+// ============================================
+// CHECK-IN
+// ============================================
+
+/**
+ * Mark an attendee as arrived, from a scanned pass or the attendee list
+ */
+export async function checkInAttendee(
+  gatheringId: string,
+  input: { code?: string; attendeeId?: string; attended: boolean },
+  checkedInBy: string
+): Promise<{ attendee: GatheringAttendeeRecord; changed: boolean }> {
+  const attendeeId = input.code ? parseGatheringToken('check-in', input.code.trim()) : input.attendeeId;
+  if (!attendeeId) {
+    throw new ValidationError('This QR code is not a gathering pass', { code: 'Invalid pass' });
+  }
+
+  const attendee = await prisma.gatheringAttendee.findUnique({ where: { id: attendeeId }, select: attendeeSelect });
+  if (!attendee) {
+    throw new NotFoundError('Attendee not found', 'gatheringAttendee', attendeeId);
+  }
+  if (attendee.gatheringId !== gatheringId) {
+    throw new ValidationError('This pass is for another gathering', { code: 'Wrong gathering' });
+  }
+  if (attendee.attended === input.attended) {
+    return { attendee, changed: false };
+  }
+
+  const updated = await prisma.gatheringAttendee.update({
+    where: { id: attendee.id },
+    data: input.attended
+      ? { attended: true, attendedAt: new Date(), checkedInBy }
+      : { attended: false, attendedAt: null, checkedInBy: null },
+    select: attendeeSelect,
+  });
+  return { attendee: updated, changed: true };
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+/**
+ * Attendees with their lineage branch, and headcounts overall and per branch
+ */
+export async function getAttendanceReport(gatheringId: string): Promise<AttendanceReport> {
+  const gathering = await getGatheringOrThrow(gatheringId);
+  const attendees: GatheringAttendeeRecord[] = await prisma.gatheringAttendee.findMany({
+    where: { gatheringId },
+    select: attendeeSelect,
+    orderBy: { name: 'asc' },
+  });
+
+  // Attendees without a member record are placed through their user's member
+  const userIds = attendees.filter(a => !a.memberId && a.userId).map(a => a.userId!);
+  const users = userIds.length > 0
+    ? await prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, linkedMemberId: true } })
+    : [];
+  const linkedMembers = new Map<string, string | null>(
+    users.map((user: { id: string; linkedMemberId: string | null }) => [user.id, user.linkedMemberId])
+  );
+  const memberIdOf = (attendee: GatheringAttendeeRecord) =>
+    attendee.memberId || (attendee.userId && linkedMembers.get(attendee.userId)) || null;
+
+  const memberIds = Array.from(new Set(attendees.map(memberIdOf).filter((id): id is string => !!id)));
+  const members = await prisma.familyMember.findMany({
+    where: { id: { in: memberIds } },
+    select: { id: true, lineageBranchId: true, lineageBranchName: true },
+  });
+  const branches = new Map<string, { id: string | null; name: string | null }>(
+    members.map((member: { id: string; lineageBranchId: string | null; lineageBranchName: string | null }) => [
+      member.id,
+      { id: member.lineageBranchId, name: member.lineageBranchName },
+    ])
+  );
+
+  const rows = attendees.map(attendee => {
+    const memberId = memberIdOf(attendee);
+    const branch = memberId ? branches.get(memberId) : undefined;
+    return { ...attendee, branchId: branch?.id ?? null, branchName: branch?.id ? branch.name : null };
+  });
+
+  return {
+    gathering,
+    ...summarizeAttendance(rows),
+    attendees: rows,
+  };
+}
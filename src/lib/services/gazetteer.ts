@@ -0,0 +1,159 @@
+// Gazetteer Service
+// Al-Shaye Family Tree Application
+//
+// Builds the family map from member cities and birthplaces, and rewrites
+// stored place names that fully match a gazetteer city to its canonical
+// Arabic name.
+
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { syncSearchDocument } from '@/lib/db/search';
+import { getVisibleMemberFields, redactMember, type PrivacyViewer } from '@/lib/privacy';
+import { normalizePlaceName, summarizeFamilyMap, type FamilyMapSummary } from '@/lib/gazetteer';
+
+// ============================================
+// FAMILY MAP
+// ============================================
+
+export interface FamilyMapFilters {
+  lineageBranchId?: string;
+  subBranchId?: string;
+  generation?: number;
+}
+
+/**
+ * Residences and migrations of the members the filters select. Cities and
+ * birthplaces the viewer may not see are left out.
+ */
+export async function getFamilyMap(viewer: PrivacyViewer, filters: FamilyMapFilters = {}): Promise<FamilyMapSummary> {
+  const where: Record<string, unknown> = {
+    OR: [{ city: { not: null } }, { birthPlace: { not: null } }],
+  };
+  if (filters.generation) where.generation = filters.generation;
+  if (filters.lineageBranchId) {
+    where.AND = [{ OR: [{ lineageBranchId: filters.lineageBranchId }, { id: filters.lineageBranchId }] }];
+  }
+  if (filters.subBranchId) {
+    where.AND = [
+      ...((where.AND as unknown[]) || []),
+      { OR: [{ subBranchId: filters.subBranchId }, { id: filters.subBranchId }] },
+    ];
+  }
+
+  const members = await prisma.familyMember.findMany({
+    where,
+    select: {
+      id: true,
+      firstName: true,
+      fatherName: true,
+      grandfatherName: true,
+      greatGrandfatherName: true,
+      fullNameAr: true,
+      fullNameEn: true,
+      branch: true,
+      city: true,
+      birthPlace: true,
+      privacyOverrides: true,
+    },
+  });
+
+  const visibleMembers = members
+    .filter(member => !getVisibleMemberFields(viewer, member).placeholder)
+    .map(member => {
+      const visible = redactMember(member, viewer);
+      return {
+        id: member.id,
+        name: visible.fullNameAr || visible.firstName,
+        city: visible.city,
+        birthPlace: visible.birthPlace,
+      };
+    });
+
+  return summarizeFamilyMap(visibleMembers);
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+export interface PlaceNameChange {
+  entity: 'member' | 'gathering' | 'journal';
+  id: string;
+  field: 'city' | 'birthPlace' | 'locationAr';
+  from: string;
+  to: string;
+}
+
+/**
+ * Stored place names that fully match a city but are spelled differently.
+ * Places with extra detail ("حي النسيم، الرياض") are left alone.
+ */
+export async function findPlaceNameChanges(): Promise<PlaceNameChange[]> {
+  const [members, gatherings, journals] = await Promise.all([
+    prisma.familyMember.findMany({
+      where: { OR: [{ city: { not: null } }, { birthPlace: { not: null } }] },
+      select: { id: true, city: true, birthPlace: true },
+    }),
+    prisma.gathering.findMany({ where: { locationAr: { not: null } }, select: { id: true, locationAr: true } }),
+    prisma.familyJournal.findMany({ where: { locationAr: { not: null } }, select: { id: true, locationAr: true } }),
+  ]);
+
+  const changes: PlaceNameChange[] = [];
+  const check = (entity: PlaceNameChange['entity'], id: string, field: PlaceNameChange['field'], value: string | null) => {
+    const to = normalizePlaceName(value);
+    if (value && to) changes.push({ entity, id, field, from: value, to });
+  };
+
+  for (const member of members) {
+    check('member', member.id, 'city', member.city);
+    check('member', member.id, 'birthPlace', member.birthPlace);
+  }
+  for (const gathering of gatherings) check('gathering', gathering.id, 'locationAr', gathering.locationAr);
+  for (const journal of journals) check('journal', journal.id, 'locationAr', journal.locationAr);
+
+  return changes;
+}
+
+/**
+ * Apply the changes from findPlaceNameChanges in one transaction, then
+ * refresh the search index for the records that changed. Member edits are
+ * recorded in the change history as one batch.
+ */
+export async function applyPlaceNameChanges(
+  changes: PlaceNameChange[],
+  changedBy: { id: string; name: string }
+): Promise<number> {
+  const batchId = randomUUID();
+  const history = changes
+    .filter(change => change.entity === 'member')
+    .map(change => ({
+      memberId: change.id,
+      fieldName: change.field,
+      oldValue: change.from,
+      newValue: change.to,
+      changeType: 'UPDATE',
+      changedBy: changedBy.id,
+      changedByName: changedBy.name,
+      batchId,
+      reason: 'Place name normalized to the gazetteer',
+    }));
+
+  await prisma.$transaction([
+    ...changes.map(change => {
+      const data = { [change.field]: change.to };
+      if (change.entity === 'member') {
+        return prisma.familyMember.update({ where: { id: change.id }, data: { ...data, version: { increment: 1 } } });
+      }
+      if (change.entity === 'gathering') return prisma.gathering.update({ where: { id: change.id }, data });
+      return prisma.familyJournal.update({ where: { id: change.id }, data });
+    }),
+    ...(history.length > 0 ? [prisma.changeHistory.createMany({ data: history })] : []),
+  ]);
+
+  const changed = new Set(changes.map(change => `${change.entity}:${change.id}`));
+  for (const key of changed) {
+    const [entity, id] = key.split(':') as [PlaceNameChange['entity'], string];
+    void syncSearchDocument(entity, id);
+  }
+  return changes.length;
+}
@@ -0,0 +1,528 @@
+// Scheduled Job Runner
+// Al-Shaye Family Tree Application
+//
+// Runs ScheduledJob rows on their cron schedule inside the server process.
+// A lease on the job row makes sure only one instance runs a job at a time,
+// every run is recorded in ScheduledJobRun, and failed scheduled runs are
+// retried with exponential backoff.
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import type { Prisma, ScheduledJob, ScheduledJobRun } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getNextCronRun } from '@/lib/cron';
+import { ConflictError, NotFoundError } from '@/lib/errors/AppError';
+import { safeJsonParse } from '@/lib/utils/safe-json';
+import { backupService } from '@/lib/services/backup';
+import { broadcastService } from '@/lib/services/broadcast';
+import { ensureDuplicateScanJob, runDuplicateScan } from '@/lib/services/duplicate-scan';
+import { enforceAuditRetention } from '@/lib/services/audit';
+import { sendNotificationDigests } from '@/lib/services/notifications';
+import type { DuplicateScanOptions } from '@/lib/matching/duplicate-scanner';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const JOB_TYPES = ['BACKUP', 'SCHEDULED_BROADCAST', 'CLEANUP', 'DUPLICATE_SCAN', 'NOTIFICATION_DIGEST'] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+export type JobTrigger = 'SCHEDULE' | 'RETRY' | 'MANUAL';
+
+export interface JobContext {
+  job: ScheduledJob;
+  config: Record<string, unknown>;
+  // Saves progress on the job row (throttled) so the admin UI can show it
+  reportProgress: (progress: unknown) => Promise<void>;
+}
+
+// Returns a JSON-serializable summary; throwing marks the run as failed
+type JobHandler = (context: JobContext) => Promise<unknown>;
+
+export interface ScheduledJobWithRuns extends ScheduledJob {
+  runs: ScheduledJobRun[];
+  isSupported: boolean;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// A lease not renewed within this time is considered abandoned
+const LEASE_TTL_MS = 5 * 60 * 1000;
+const LEASE_RENEW_MS = 60 * 1000;
+
+// Minimum time between progress writes
+const PROGRESS_INTERVAL_MS = 2000;
+
+const DEFAULT_JOBS: Prisma.ScheduledJobCreateInput[] = [
+  {
+    name: 'AUTO_BACKUP',
+    description: 'Automatic family tree backup',
+    cronExpression: '0 2 * * *', // Daily at 2 AM
+    jobType: 'BACKUP',
+    jobConfig: JSON.stringify({ retentionDays: 30, maxBackups: 10 }),
+  },
+  {
+    name: 'scheduled-broadcasts',
+    description: 'Send broadcasts whose scheduled time has come',
+    cronExpression: '* * * * *', // Every minute
+    jobType: 'SCHEDULED_BROADCAST',
+    maxRetries: 0,
+  },
+  {
+    name: 'cleanup',
+    description: 'Remove expired sessions and tokens, old job runs and audit entries past retention',
+    cronExpression: '0 4 * * *', // Daily at 4 AM
+    jobType: 'CLEANUP',
+    jobConfig: JSON.stringify({ runHistoryDays: 30 }),
+  },
+  {
+    name: 'notification-digest',
+    description: 'Send the daily notification digest by email and SMS',
+    cronExpression: '0 8 * * *', // Daily at 8 AM
+    jobType: 'NOTIFICATION_DIGEST',
+  },
+];
+
+// ============================================
+// JOB HANDLERS
+// ============================================
+
+async function runBackupJob({ config }: JobContext) {
+  const result = await backupService.createBackup(undefined, undefined, 'AUTO_BACKUP');
+  if (!result.success) {
+    throw new Error(result.error || 'Backup failed');
+  }
+
+  const retentionDays = Number(config.retentionDays) || 30;
+  const maxBackups = Number(config.maxBackups) || 10;
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+  const expired = await prisma.snapshot.deleteMany({
+    where: { snapshotType: 'AUTO_BACKUP', createdAt: { lt: cutoffDate } },
+  });
+
+  const excess = await prisma.snapshot.findMany({
+    where: { snapshotType: 'AUTO_BACKUP' },
+    orderBy: { createdAt: 'desc' },
+    skip: maxBackups,
+    select: { id: true },
+  });
+  if (excess.length > 0) {
+    await prisma.snapshot.deleteMany({
+      where: { id: { in: excess.map((s: { id: string }) => s.id) } },
+    });
+  }
+
+  return {
+    snapshotId: result.snapshotId,
+    memberCount: result.memberCount,
+    removedBackups: expired.count + excess.length,
+  };
+}
+
+async function runScheduledBroadcastJob() {
+  const due = await prisma.broadcast.findMany({
+    where: { status: 'SCHEDULED', scheduledAt: { lte: new Date() } },
+    select: { id: true },
+    orderBy: { scheduledAt: 'asc' },
+  });
+
+  let sent = 0;
+  const errors: string[] = [];
+
+  for (const { id } of due) {
+    // Claim the broadcast so a manual send at the same moment cannot double-send it
+    const { count } = await prisma.broadcast.updateMany({
+      where: { id, status: 'SCHEDULED' },
+      data: { status: 'SENDING' },
+    });
+    if (count === 0) continue;
+
+    try {
+      const result = await broadcastService.sendBroadcast(id);
+      if (result.success) sent++;
+      else errors.push(`${id}: ${(result.errors || []).join(', ')}`);
+    } catch (error) {
+      // Release the claim so the next run retries it, and carry on with the others
+      await prisma.broadcast.updateMany({
+        where: { id, status: 'SENDING' },
+        data: { status: 'SCHEDULED' },
+      }).catch(resetError => console.error(`[Job Runner] Failed to reschedule broadcast ${id}:`, resetError));
+      errors.push(`${id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Failed to send ${errors.length} broadcast(s): ${errors.join('; ')}`);
+  }
+
+  return { due: due.length, sent };
+}
+
+async function runCleanupJob({ config }: JobContext) {
+  const now = new Date();
+  const runHistoryDays = Number(config.runHistoryDays) || 30;
+  const runCutoff = new Date(now.getTime() - runHistoryDays * 24 * 60 * 60 * 1000);
+
+  const [sessions, adminSessions, passwordResets, emailVerifications, jobRuns] = await Promise.all([
+    prisma.session.deleteMany({ where: { expiresAt: { lt: now } } }),
+    prisma.adminSession.deleteMany({ where: { expiresAt: { lt: now } } }),
+    prisma.passwordReset.deleteMany({ where: { expiresAt: { lt: now } } }),
+    prisma.emailVerification.deleteMany({ where: { expiresAt: { lt: now } } }),
+    prisma.scheduledJobRun.deleteMany({ where: { startedAt: { lt: runCutoff }, status: { not: 'RUNNING' } } }),
+  ]);
+  const auditRetention = await enforceAuditRetention();
+
+  return {
+    sessions: sessions.count,
+    adminSessions: adminSessions.count,
+    passwordResets: passwordResets.count,
+    emailVerifications: emailVerifications.count,
+    jobRuns: jobRuns.count,
+    auditLogs: auditRetention.deleted,
+  };
+}
+
+async function runDuplicateScanJob({ config, reportProgress }: JobContext) {
+  return runDuplicateScan(config as Partial<DuplicateScanOptions>, reportProgress);
+}
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  BACKUP: runBackupJob,
+  SCHEDULED_BROADCAST: runScheduledBroadcastJob,
+  CLEANUP: runCleanupJob,
+  DUPLICATE_SCAN: runDuplicateScanJob,
+  NOTIFICATION_DIGEST: sendNotificationDigests,
+};
+
+function isSupportedJobType(jobType: string): jobType is JobType {
+  return (JOB_TYPES as readonly string[]).includes(jobType);
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+/**
+ * Register the built-in jobs whose type has no job yet
+ */
+export async function ensureDefaultJobs(): Promise<void> {
+  for (const job of DEFAULT_JOBS) {
+    const existing = await prisma.scheduledJob.count({ where: { jobType: job.jobType } });
+    if (existing === 0) {
+      await prisma.scheduledJob.create({ data: job });
+    }
+  }
+  await ensureDuplicateScanJob();
+}
+
+/**
+ * Next scheduled run of a job, or null when its cron expression is invalid
+ */
+export function computeNextRunAt(
+  job: Pick<ScheduledJob, 'name' | 'cronExpression' | 'timezone'>,
+  from: Date = new Date()
+): Date | null {
+  try {
+    return getNextCronRun(job.cronExpression, from, job.timezone);
+  } catch (error) {
+    console.error(`[Job Runner] Invalid schedule for ${job.name}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// ============================================
+// LEASES
+// ============================================
+
+/**
+ * Take the lease on a job and open a run record. Returns null when another
+ * run (in this or another instance) holds the lease or `where` no longer matches.
+ */
+async function acquireJob(
+  jobId: string,
+  where: Prisma.ScheduledJobWhereInput,
+  trigger: JobTrigger,
+  triggeredBy?: string
+): Promise<{ job: ScheduledJob; run: ScheduledJobRun } | null> {
+  const now = new Date();
+  const { count } = await prisma.scheduledJob.updateMany({
+    where: {
+      ...where,
+      id: jobId,
+      OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: now } }],
+    },
+    data: {
+      leaseOwner: INSTANCE_ID,
+      leaseExpiresAt: new Date(now.getTime() + LEASE_TTL_MS),
+      lastRunAt: now,
+      lastRunStatus: 'RUNNING',
+      lastRunError: null,
+      lastRunProgress: null,
+    },
+  });
+  if (count === 0) return null;
+
+  const job = await prisma.scheduledJob.findUnique({ where: { id: jobId } });
+  if (!job) return null;
+
+  // A run left RUNNING belongs to an instance whose lease expired
+  await prisma.scheduledJobRun.updateMany({
+    where: { jobId, status: 'RUNNING' },
+    data: { status: 'FAILED', error: 'Run interrupted', finishedAt: now },
+  });
+
+  const run = await prisma.scheduledJobRun.create({
+    data: {
+      jobId,
+      trigger,
+      attempt: trigger === 'MANUAL' ? 1 : job.retryAttempt + 1,
+      status: 'RUNNING',
+      startedAt: now,
+      triggeredBy,
+      instanceId: INSTANCE_ID,
+    },
+  });
+
+  return { job, run };
+}
+
+async function renewLease(jobId: string): Promise<void> {
+  await prisma.scheduledJob.updateMany({
+    where: { id: jobId, leaseOwner: INSTANCE_ID },
+    data: { leaseExpiresAt: new Date(Date.now() + LEASE_TTL_MS) },
+  });
+}
+
+/**
+ * Mark jobs whose lease expired (crashed instance) as failed so their
+ * status does not stay RUNNING
+ */
+async function releaseExpiredLeases(now: Date): Promise<void> {
+  await prisma.scheduledJob.updateMany({
+    where: { leaseExpiresAt: { lt: now } },
+    data: {
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastRunStatus: 'FAILED',
+      lastRunError: 'Run interrupted',
+    },
+  });
+}
+
+// ============================================
+// EXECUTION
+// ============================================
+
+async function executeJob(job: ScheduledJob, run: ScheduledJobRun): Promise<void> {
+  const startTime = Date.now();
+  const heartbeat = setInterval(() => {
+    renewLease(job.id).catch(error => console.error(`[Job Runner] Failed to renew lease for ${job.name}:`, error));
+  }, LEASE_RENEW_MS);
+  if (heartbeat.unref) heartbeat.unref();
+
+  let latestProgress: unknown = null;
+  let lastProgressAt = 0;
+  const context: JobContext = {
+    job,
+    config: safeJsonParse<Record<string, unknown>>(job.jobConfig, {}),
+    reportProgress: async (progress) => {
+      latestProgress = progress;
+      if (Date.now() - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+      lastProgressAt = Date.now();
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: { lastRunProgress: JSON.stringify(progress) },
+      });
+    },
+  };
+
+  let result: unknown = null;
+  let errorMessage: string | null = null;
+  try {
+    if (!isSupportedJobType(job.jobType)) {
+      throw new Error(`Unsupported job type: ${job.jobType}`);
+    }
+    result = await JOB_HANDLERS[job.jobType](context);
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Job Runner] ${job.name} failed:`, errorMessage);
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  const duration = Date.now() - startTime;
+  const failed = errorMessage !== null;
+
+  // Failed scheduled runs are retried with exponential backoff; manual runs
+  // leave the schedule as it is
+  let nextRunAt = job.nextRunAt;
+  let retryAttempt = job.retryAttempt;
+  if (run.trigger !== 'MANUAL') {
+    if (failed && job.retryAttempt < job.maxRetries) {
+      retryAttempt = job.retryAttempt + 1;
+      nextRunAt = new Date(Date.now() + job.retryBackoffMs * 2 ** job.retryAttempt);
+    } else {
+      retryAttempt = 0;
+      nextRunAt = computeNextRunAt(job);
+    }
+  } else if (!nextRunAt) {
+    nextRunAt = computeNextRunAt(job);
+  }
+
+  try {
+    await prisma.scheduledJobRun.update({
+      where: { id: run.id },
+      data: {
+        status: failed ? 'FAILED' : 'SUCCESS',
+        error: errorMessage,
+        result: result === null || result === undefined ? null : JSON.stringify(result),
+        finishedAt: new Date(),
+        duration,
+      },
+    });
+
+    await prisma.scheduledJob.updateMany({
+      where: { id: job.id, leaseOwner: INSTANCE_ID },
+      data: {
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        lastRunStatus: failed ? 'FAILED' : 'SUCCESS',
+        lastRunDuration: duration,
+        lastRunError: errorMessage,
+        lastRunProgress: latestProgress === null ? null : JSON.stringify(latestProgress),
+        nextRunAt,
+        retryAttempt,
+      },
+    });
+  } catch (error) {
+    // The lease expires on its own if this fails
+    console.error(`[Job Runner] Failed to record run of ${job.name}:`, error);
+  }
+}
+
+/**
+ * Start every enabled job that is due. Jobs run in the background;
+ * returns the number of jobs started by this instance.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<number> {
+  await releaseExpiredLeases(now);
+
+  const jobs = await prisma.scheduledJob.findMany({
+    where: { isEnabled: true, jobType: { in: [...JOB_TYPES] } },
+  });
+
+  let started = 0;
+  for (const job of jobs) {
+    if (!job.nextRunAt) {
+      const nextRunAt = computeNextRunAt(job, now);
+      if (nextRunAt) {
+        await prisma.scheduledJob.updateMany({ where: { id: job.id, nextRunAt: null }, data: { nextRunAt } });
+      }
+      continue;
+    }
+    if (job.nextRunAt > now) continue;
+
+    const trigger: JobTrigger = job.retryAttempt > 0 ? 'RETRY' : 'SCHEDULE';
+    const acquired = await acquireJob(job.id, { isEnabled: true, nextRunAt: { lte: now } }, trigger);
+    if (!acquired) continue;
+
+    void executeJob(acquired.job, acquired.run);
+    started++;
+  }
+
+  return started;
+}
+
+/**
+ * Run a job now regardless of its schedule. The job runs in the background;
+ * the returned run record can be polled through the job list.
+ */
+export async function triggerJobNow(
+  where: Prisma.ScheduledJobWhereUniqueInput,
+  triggeredBy?: string
+): Promise<ScheduledJobRun> {
+  const job = await prisma.scheduledJob.findUnique({ where });
+  if (!job) {
+    throw new NotFoundError('Scheduled job not found', 'ScheduledJob', where.id || where.name);
+  }
+  if (!isSupportedJobType(job.jobType)) {
+    throw new ConflictError(`Job type ${job.jobType} cannot be run`, { jobType: job.jobType });
+  }
+
+  const acquired = await acquireJob(job.id, {}, 'MANUAL', triggeredBy);
+  if (!acquired) {
+    throw new ConflictError(`Job ${job.name} is already running`, { jobId: job.id });
+  }
+
+  void executeJob(acquired.job, acquired.run);
+  return acquired.run;
+}
+
+/**
+ * All jobs with their most recent runs, for the admin UI
+ */
+export async function listScheduledJobs(runLimit: number = 5): Promise<ScheduledJobWithRuns[]> {
+  const jobs = await prisma.scheduledJob.findMany({
+    orderBy: { name: 'asc' },
+    include: { runs: { orderBy: { startedAt: 'desc' }, take: runLimit } },
+  });
+
+  return jobs.map((job: ScheduledJob & { runs: ScheduledJobRun[] }) => ({
+    ...job,
+    isSupported: isSupportedJobType(job.jobType),
+  }));
+}
+
+// ============================================
+// RUNNER LOOP
+// ============================================
+
+const globalForJobRunner = globalThis as unknown as {
+  jobRunnerTimer: NodeJS.Timeout | null | undefined;
+};
+
+function scheduleNextTick(): void {
+  // Tick shortly after each minute boundary so '* * * * *' jobs run every minute
+  const delay = 60 * 1000 - (Date.now() % (60 * 1000)) + 1000;
+
+  globalForJobRunner.jobRunnerTimer = setTimeout(async () => {
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error('[Job Runner] Tick failed:', error);
+    }
+    if (globalForJobRunner.jobRunnerTimer) scheduleNextTick();
+  }, delay);
+
+  // Don't keep the process alive just for the runner
+  if (globalForJobRunner.jobRunnerTimer.unref) {
+    globalForJobRunner.jobRunnerTimer.unref();
+  }
+}
+
+/**
+ * Start the in-process job runner. Safe to call more than once
+ * (e.g. after a hot reload); only one loop runs per process.
+ */
+export function startJobRunner(): void {
+  if (globalForJobRunner.jobRunnerTimer) return;
+
+  console.log(`[Job Runner] Starting on ${INSTANCE_ID}`);
+  ensureDefaultJobs().catch(error => console.error('[Job Runner] Failed to register default jobs:', error));
+  scheduleNextTick();
+}
+
+export function stopJobRunner(): void {
+  if (globalForJobRunner.jobRunnerTimer) {
+    clearTimeout(globalForJobRunner.jobRunnerTimer);
+  }
+  globalForJobRunner.jobRunnerTimer = null;
+}
@@ -0,0 +1,53 @@
+// Mock Messaging Provider
+// Al-Shaye Family Tree Application
+//
+// Local stand-in for the SMS and WhatsApp providers (OTP_PROVIDER=mock,
+// WHATSAPP_PROVIDER=mock). Messages are kept in memory instead of sent so
+// tests and development can read them back. Numbers ending in 000 fail,
+// to exercise the failure paths.
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MockChannel = 'SMS' | 'WHATSAPP';
+
+export interface MockMessage {
+  channel: MockChannel;
+  to: string;
+  body: string;
+  messageId: string;
+  sentAt: Date;
+}
+
+export interface MockSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+// ============================================
+// OUTBOX
+// ============================================
+
+const outbox: MockMessage[] = [];
+let sequence = 0;
+
+export function sendViaMock(channel: MockChannel, to: string, body: string): MockSendResult {
+  if (to.replace(/[^0-9]/g, '').endsWith('000')) {
+    return { success: false, error: `Mock ${channel} error: number unreachable` };
+  }
+
+  sequence++;
+  const messageId = `mock-${channel.toLowerCase()}-${sequence}`;
+  outbox.push({ channel, to, body, messageId, sentAt: new Date() });
+  return { success: true, messageId };
+}
+
+export function getMockOutbox(channel?: MockChannel): MockMessage[] {
+  return outbox.filter(message => !channel || message.channel === channel);
+}
+
+export function clearMockOutbox(): void {
+  outbox.length = 0;
+}
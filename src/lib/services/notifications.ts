@@ -0,0 +1,511 @@
+// Notification Service
+// Al-Shaye Family Tree Application
+//
+// Creates Notification rows for the events users can follow and delivers
+// them on the channels each user chose for the type: the in-app inbox,
+// email and SMS, either right away or batched into the daily digest job.
+
+import { prisma } from '@/lib/prisma';
+import { findUserById } from '@/lib/auth/db-store';
+import {
+  buildDigestSms,
+  resolveNotificationPreferences,
+  type DigestItem,
+  type InboxNotification,
+  type NotificationChannels,
+  type NotificationPreferences,
+  type NotificationType,
+} from '@/lib/notifications';
+import { redactMember, type RedactableMember } from '@/lib/privacy';
+import { getPrivacyViewer } from '@/lib/services/privacy';
+import { emailService } from '@/lib/services/email';
+import { smsService } from '@/lib/services/sms';
+import { safeJsonParseArray } from '@/lib/utils/safe-json';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface NotificationContent {
+  titleAr: string;
+  titleEn: string;
+  messageAr: string;
+  messageEn: string;
+  linkUrl?: string | null;
+  linkType?: string | null;
+  linkId?: string | null;
+}
+
+// Content can differ per recipient (e.g. member names redacted for them);
+// returning null skips that recipient
+type ContentBuilder = NotificationContent | ((userId: string) => Promise<NotificationContent | null>);
+
+export interface DigestResult {
+  users: number;
+  notifications: number;
+  emails: number;
+  sms: number;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+const INBOX_URL = `${BASE_URL}/notifications`;
+const PREFERENCES_URL = `${BASE_URL}/settings/notifications`;
+
+function absoluteUrl(linkUrl: string | null | undefined): string | null {
+  if (!linkUrl) return null;
+  return linkUrl.startsWith('/') ? `${BASE_URL}${linkUrl}` : linkUrl;
+}
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const rows = await prisma.notificationPreference.findMany({ where: { userId } });
+  return resolveNotificationPreferences(rows);
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  changes: Partial<Record<NotificationType, NotificationChannels>>
+): Promise<NotificationPreferences> {
+  for (const [type, channels] of Object.entries(changes)) {
+    if (!channels) continue;
+    await prisma.notificationPreference.upsert({
+      where: { userId_type: { userId, type } },
+      create: { userId, type, ...channels },
+      update: channels,
+    });
+  }
+  return getNotificationPreferences(userId);
+}
+
+// ============================================
+// INBOX
+// ============================================
+
+export async function listInbox(
+  userId: string,
+  options: { page: number; limit: number; unreadOnly?: boolean }
+): Promise<{ notifications: InboxNotification[]; total: number; unreadCount: number }> {
+  const where = { userId, inApp: true, ...(options.unreadOnly ? { read: false } : {}) };
+  const [rows, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+    }),
+    prisma.notification.count({ where }),
+    countUnread(userId),
+  ]);
+
+  return {
+    notifications: rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      titleAr: row.titleAr,
+      titleEn: row.titleEn,
+      messageAr: row.messageAr,
+      messageEn: row.messageEn,
+      linkUrl: row.linkUrl,
+      read: row.read,
+      createdAt: row.createdAt.toISOString(),
+    })),
+    total,
+    unreadCount,
+  };
+}
+
+export function countUnread(userId: string): Promise<number> {
+  return prisma.notification.count({ where: { userId, inApp: true, read: false } });
+}
+
+/**
+ * Mark the user's notifications read; ids from other users are ignored
+ */
+export async function markNotificationsRead(userId: string, ids: string[] | 'all'): Promise<number> {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, read: false, ...(ids === 'all' ? {} : { id: { in: ids } }) },
+    data: { read: true, readAt: new Date() },
+  });
+  return count;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+/**
+ * Notify users of an event on the channels they chose for its type.
+ * Failures are logged, never thrown: a notification must not fail the
+ * request that caused it, and one failing user or channel does not stop
+ * the others.
+ */
+export async function notifyUsers(
+  userIds: Iterable<string>,
+  type: NotificationType,
+  content: ContentBuilder,
+  options: { excludeUserId?: string | null } = {}
+): Promise<number> {
+  const ids = Array.from(new Set(userIds)).filter(id => id !== options.excludeUserId);
+  if (ids.length === 0) return 0;
+
+  const recipients = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: ids }, status: 'ACTIVE' },
+      select: { id: true, email: true, phone: true },
+    }),
+    prisma.notificationPreference.findMany({ where: { userId: { in: ids }, type } }),
+  ]).catch(error => {
+    console.error(`[Notifications] Failed to load recipients of ${type}:`, error);
+    return null;
+  });
+  if (!recipients) return 0;
+  const [users, preferenceRows] = recipients;
+
+  let delivered = 0;
+  for (const user of users) {
+    const preferences = resolveNotificationPreferences(preferenceRows.filter(row => row.userId === user.id))[type];
+    if (!preferences.inApp && !preferences.email && !preferences.sms) continue;
+
+    const sendEmail = preferences.email && !!user.email;
+    const sendSms = preferences.sms && !!user.phone;
+
+    let message: NotificationContent | null;
+    try {
+      message = typeof content === 'function' ? await content(user.id) : content;
+      if (!message) continue;
+
+      await prisma.notification.create({
+        data: {
+          userId: user.id,
+          type,
+          titleAr: message.titleAr,
+          titleEn: message.titleEn,
+          messageAr: message.messageAr,
+          messageEn: message.messageEn,
+          linkUrl: message.linkUrl || null,
+          linkType: message.linkType || null,
+          linkId: message.linkId || null,
+          inApp: preferences.inApp,
+          digestEmail: sendEmail && preferences.digest,
+          digestSms: sendSms && preferences.digest,
+        },
+      });
+      delivered++;
+    } catch (error) {
+      console.error(`[Notifications] Failed to notify user ${user.id} of ${type}:`, error);
+      continue;
+    }
+
+    if (preferences.digest) continue;
+    if (sendEmail) {
+      try {
+        await emailService.sendNotificationEmail(user.email, {
+          titleAr: message.titleAr,
+          titleEn: message.titleEn,
+          messageAr: message.messageAr,
+          linkUrl: absoluteUrl(message.linkUrl),
+          preferencesUrl: PREFERENCES_URL,
+        });
+      } catch (error) {
+        console.error(`[Notifications] Failed to email user ${user.id} about ${type}:`, error);
+      }
+    }
+    if (sendSms) {
+      try {
+        const link = absoluteUrl(message.linkUrl);
+        await smsService.sendSms({
+          to: user.phone!,
+          message: `${message.titleAr}\n${message.messageAr}${link ? `\n${link}` : ''}`,
+        });
+      } catch (error) {
+        console.error(`[Notifications] Failed to text user ${user.id} about ${type}:`, error);
+      }
+    }
+  }
+  return delivered;
+}
+
+/**
+ * Send the daily digest: one email and/or SMS per user with the
+ * notifications batched since the last digest
+ */
+export async function sendNotificationDigests(): Promise<DigestResult> {
+  const pending = await prisma.notification.findMany({
+    where: { digestedAt: null, OR: [{ digestEmail: true }, { digestSms: true }] },
+    include: { user: { select: { email: true, phone: true, nameArabic: true, status: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const byUser = new Map<string, typeof pending>();
+  for (const notification of pending) {
+    byUser.set(notification.userId, [...(byUser.get(notification.userId) || []), notification]);
+  }
+
+  const result: DigestResult = { users: 0, notifications: pending.length, emails: 0, sms: 0 };
+  const toItem = (n: (typeof pending)[number]): DigestItem => ({
+    titleAr: n.titleAr,
+    messageAr: n.messageAr,
+    linkUrl: absoluteUrl(n.linkUrl),
+  });
+
+  for (const notifications of Array.from(byUser.values())) {
+    const { user } = notifications[0];
+    if (user.status === 'ACTIVE') {
+      result.users++;
+
+      const emailItems = notifications.filter(n => n.digestEmail).map(toItem);
+      if (emailItems.length > 0 && user.email) {
+        const sent = await emailService.sendNotificationDigestEmail(user.email, {
+          name: user.nameArabic,
+          items: emailItems,
+          inboxUrl: INBOX_URL,
+          preferencesUrl: PREFERENCES_URL,
+        });
+        if (sent.success) result.emails++;
+      }
+
+      const smsItems = notifications.filter(n => n.digestSms).map(toItem);
+      if (smsItems.length > 0 && user.phone) {
+        const sent = await smsService.sendSms({ to: user.phone, message: buildDigestSms(smsItems, INBOX_URL) });
+        if (sent.success) result.sms++;
+      }
+    }
+
+    await prisma.notification.updateMany({
+      where: { id: { in: notifications.map(n => n.id) } },
+      data: { digestedAt: new Date() },
+    });
+  }
+
+  return result;
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+// Routes fire these without awaiting, so like notifyUsers they log
+// failures and resolve to 0 instead of throwing
+
+/**
+ * A member was added: users linked to a member of the same branch, and the
+ * branch's leaders. Each recipient sees the member as privacy allows, and
+ * members hidden from them are not announced.
+ */
+export async function notifyNewMemberInBranch(
+  member: RedactableMember & { firstName: string; fullNameAr?: string | null },
+  actor?: { id: string } | null
+): Promise<number> {
+  if (!member.branch) return 0;
+
+  try {
+    const branchMembers = await prisma.familyMember.findMany({
+      where: { branch: member.branch },
+      select: { id: true },
+    });
+    const users = await prisma.user.findMany({
+      where: {
+        status: 'ACTIVE',
+        OR: [
+          { linkedMemberId: { in: branchMembers.map(m => m.id).filter(id => id !== member.id) } },
+          { role: 'BRANCH_LEADER', assignedBranch: member.branch },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return notifyUsers(
+      users.map(u => u.id),
+      'NEW_MEMBER_IN_BRANCH',
+      async (userId) => {
+        const viewer = await getPrivacyViewer(await findUserById(userId));
+        const visible = redactMember(member, viewer);
+        if (visible.isPlaceholder) return null;
+        const name = visible.fullNameAr || visible.firstName;
+        return {
+          titleAr: 'فرد جديد في فرعك',
+          titleEn: 'New member in your branch',
+          messageAr: `تمت إضافة ${name} إلى فرع ${member.branch}`,
+          messageEn: `${name} was added to the ${member.branch} branch`,
+          linkUrl: `/member/${member.id}`,
+          linkType: 'MEMBER',
+          linkId: member.id,
+        };
+      },
+      { excludeUserId: actor?.id }
+    );
+  } catch (error) {
+    console.error('[Notifications] Failed to notify NEW_MEMBER_IN_BRANCH:', error);
+    return 0;
+  }
+}
+
+/**
+ * The submitter's update request was approved, fully or in part
+ */
+export async function notifyUpdateRequestApproved(request: {
+  id: string;
+  memberId: string;
+  memberName: string;
+  submittedById: string | null;
+  status: string;
+}): Promise<number> {
+  if (!request.submittedById) return 0;
+  const partial = request.status === 'PARTIALLY_APPROVED';
+
+  return notifyUsers([request.submittedById], 'UPDATE_REQUEST_APPROVED', {
+    titleAr: partial ? 'تمت الموافقة الجزئية على طلبك' : 'تمت الموافقة على طلبك',
+    titleEn: partial ? 'Your update request was partially approved' : 'Your update request was approved',
+    messageAr: `تم تطبيق التحديثات المقترحة على ملف ${request.memberName}`,
+    messageEn: `The changes you proposed to ${request.memberName} were applied`,
+    linkUrl: `/member/${request.memberId}`,
+    linkType: 'REQUEST',
+    linkId: request.id,
+  });
+}
+
+/**
+ * Members newly tagged in a photo: the users linked to them
+ */
+export async function notifyPhotoTagged(
+  photo: { id: string; title?: string | null; titleAr?: string | null; memberId?: string | null },
+  taggedMemberIds: string[],
+  actorId?: string | null
+): Promise<number> {
+  if (taggedMemberIds.length === 0) return 0;
+
+  try {
+    const users = await prisma.user.findMany({
+      where: { status: 'ACTIVE', linkedMemberId: { in: taggedMemberIds } },
+      select: { id: true },
+    });
+    const title = photo.titleAr || photo.title;
+
+    return notifyUsers(
+      users.map(u => u.id),
+      'PHOTO_TAGGED',
+      {
+        titleAr: 'تمت الإشارة إليك في صورة',
+        titleEn: 'You were tagged in a photo',
+        messageAr: title ? `تمت الإشارة إليك في صورة "${title}"` : 'تمت الإشارة إليك في صورة جديدة',
+        messageEn: title ? `You were tagged in "${title}"` : 'You were tagged in a new photo',
+        linkUrl: photo.memberId ? `/member/${photo.memberId}` : '/gallery',
+        linkType: 'PHOTO',
+        linkId: photo.id,
+      },
+      { excludeUserId: actorId }
+    );
+  } catch (error) {
+    console.error('[Notifications] Failed to notify PHOTO_TAGGED:', error);
+    return 0;
+  }
+}
+
+/**
+ * Tagged member IDs added by an edit, from the stored JSON before it
+ */
+export function newlyTaggedMemberIds(previous: string | null, next: string[] | undefined): string[] {
+  if (!next) return [];
+  const before = new Set(safeJsonParseArray<string>(previous));
+  return next.filter(id => !before.has(id));
+}
+
+/**
+ * Invite users to a gathering. Without userIds every active user is
+ * invited, as for public gatherings.
+ */
+export async function notifyGatheringInvitation(
+  gathering: { id: string; title: string; titleAr: string; date: Date; organizerId?: string | null; createdBy?: string | null },
+  userIds?: string[]
+): Promise<number> {
+  try {
+    const recipients = userIds ?? (await prisma.user.findMany({
+      where: { status: 'ACTIVE' },
+      select: { id: true },
+    })).map(u => u.id);
+    const date = gathering.date.toLocaleDateString('ar-SA');
+
+    return notifyUsers(
+      recipients,
+      'GATHERING_INVITATION',
+      {
+        titleAr: `دعوة: ${gathering.titleAr}`,
+        titleEn: `Invitation: ${gathering.title}`,
+        messageAr: `أنت مدعو إلى ${gathering.titleAr} بتاريخ ${date}`,
+        messageEn: `You are invited to ${gathering.title} on ${gathering.date.toISOString().slice(0, 10)}`,
+        linkUrl: '/gatherings',
+        linkType: 'GATHERING',
+        linkId: gathering.id,
+      },
+      { excludeUserId: gathering.organizerId || gathering.createdBy }
+    );
+  } catch (error) {
+    console.error('[Notifications] Failed to notify GATHERING_INVITATION:', error);
+    return 0;
+  }
+}
+
+/**
+ * A journal about a member was published: users linked to that member's
+ * descendants
+ */
+export async function notifyJournalAboutAncestor(journal: {
+  id: string;
+  titleAr: string;
+  titleEn?: string | null;
+  primaryMemberId: string | null;
+  authorId?: string | null;
+}): Promise<number> {
+  if (!journal.primaryMemberId) return 0;
+
+  try {
+    const ancestor = await prisma.familyMember.findUnique({
+      where: { id: journal.primaryMemberId },
+      select: { firstName: true, fullNameAr: true },
+    });
+    if (!ancestor) return 0;
+
+    const descendantIds = new Set<string>();
+    let frontier = [journal.primaryMemberId];
+    while (frontier.length > 0) {
+      const children = await prisma.familyMember.findMany({
+        where: { OR: [{ fatherId: { in: frontier } }, { motherId: { in: frontier } }] },
+        select: { id: true },
+      });
+      frontier = children.map(c => c.id).filter(id => !descendantIds.has(id));
+      frontier.forEach(id => descendantIds.add(id));
+    }
+    if (descendantIds.size === 0) return 0;
+
+    const users = await prisma.user.findMany({
+      where: { status: 'ACTIVE', linkedMemberId: { in: Array.from(descendantIds) } },
+      select: { id: true },
+    });
+    const name = ancestor.fullNameAr || ancestor.firstName;
+
+    return notifyUsers(
+      users.map(u => u.id),
+      'JOURNAL_ABOUT_ANCESTOR',
+      {
+        titleAr: `قصة جديدة عن ${name}`,
+        titleEn: `A new story about ${name}`,
+        messageAr: journal.titleAr,
+        messageEn: journal.titleEn || journal.titleAr,
+        linkUrl: `/journals/${journal.id}`,
+        linkType: 'JOURNAL',
+        linkId: journal.id,
+      },
+      { excludeUserId: journal.authorId }
+    );
+  } catch (error) {
+    console.error('[Notifications] Failed to notify JOURNAL_ABOUT_ANCESTOR:', error);
+    return 0;
+  }
+}
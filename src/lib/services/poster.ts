@@ -0,0 +1,184 @@
+// Poster Service
+// Al-Shaye Family Tree Application
+//
+// Builds wall-chart posters of the whole tree or one branch. Members go
+// through the viewer's privacy settings and export exclusions first; PDF
+// pages are the SVG rasterized with sharp, one page per sheet when tiled.
+
+import sharp from 'sharp';
+import { prisma } from '@/lib/prisma';
+import { NotFoundError } from '@/lib/errors';
+import {
+  HIDDEN_MEMBER_NAME,
+  getVisibleMemberFields,
+  isExcludedFromExports,
+  redactMember,
+  type PrivacyViewer,
+} from '@/lib/privacy';
+import {
+  buildPosterTree,
+  computePosterTiles,
+  countPosterNodes,
+  layoutPoster,
+  paperDimensions,
+  renderPosterBody,
+  renderPosterSvg,
+  renderPosterTileSvg,
+  writeImagePdf,
+  type PaperSize,
+  type PosterLayoutKind,
+  type PosterMember,
+  type PosterOrientation,
+  type PosterSvgOptions,
+} from '@/lib/poster';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PosterOptions {
+  /** Member whose descendants are drawn; the family root when left out */
+  rootId?: string;
+  layout: PosterLayoutKind;
+  paper: PaperSize;
+  orientation: PosterOrientation;
+  /** Split the PDF into sheets of this size */
+  tile?: PaperSize;
+  /** Generations below the root to include */
+  generations?: number;
+  /** PDF raster resolution, lowered for large pages (see MAX_PAGE_PIXELS) */
+  dpi: number;
+}
+
+export interface Poster {
+  svg: string;
+  title: string;
+  memberCount: number;
+  options: PosterSvgOptions;
+  body: string;
+}
+
+// ============================================
+// MEMBERS
+// ============================================
+
+async function loadPosterMembers(viewer: PrivacyViewer): Promise<PosterMember[]> {
+  const members = await prisma.familyMember.findMany({
+    select: {
+      id: true,
+      fatherId: true,
+      firstName: true,
+      fatherName: true,
+      grandfatherName: true,
+      greatGrandfatherName: true,
+      fullNameAr: true,
+      fullNameEn: true,
+      branch: true,
+      gender: true,
+      status: true,
+      generation: true,
+      lineageBranchId: true,
+      birthYear: true,
+      birthYearHijri: true,
+      deathYear: true,
+      deathYearHijri: true,
+      privacyOverrides: true,
+    },
+  });
+
+  return members.map(member => {
+    const placeholder = isExcludedFromExports(member) || getVisibleMemberFields(viewer, member).placeholder;
+    const visible = redactMember(member, viewer);
+    return {
+      id: member.id,
+      fatherId: member.fatherId,
+      name: placeholder ? HIDDEN_MEMBER_NAME.ar : visible.firstName,
+      generation: member.generation,
+      gender: member.gender,
+      status: member.status,
+      lineageBranchId: member.lineageBranchId,
+      birthYear: placeholder ? null : visible.birthYear,
+      deathYear: placeholder ? null : visible.deathYear,
+      placeholder,
+    };
+  });
+}
+
+// ============================================
+// POSTER
+// ============================================
+
+/**
+ * Lay out and render the poster as SVG. Throws NotFoundError when the
+ * root member does not exist.
+ */
+export async function buildPoster(viewer: PrivacyViewer, options: PosterOptions): Promise<Poster> {
+  const members = await loadPosterMembers(viewer);
+  const root = buildPosterTree(members, options.rootId, options.generations);
+  if (!root) throw new NotFoundError('Member not found', 'FamilyMember', options.rootId);
+
+  const layout = layoutPoster(root, members, options.layout);
+  const title = root.member.generation <= 1 || root.member.placeholder
+    ? 'شجرة عائلة آل شايع'
+    : `فرع ${root.member.name} — آل شايع`;
+  const memberCount = countPosterNodes(root);
+  const svgOptions: PosterSvgOptions = {
+    paper: paperDimensions(options.paper, options.orientation),
+    title,
+    subtitle: `عدد الأفراد: ${memberCount} · عدد الأجيال: ${layout.bands.length}`,
+    footer: `طُبعت في ${new Date().toISOString().split('T')[0]}`,
+  };
+
+  return {
+    svg: renderPosterSvg(layout, svgOptions),
+    title,
+    memberCount,
+    options: svgOptions,
+    body: renderPosterBody(layout, svgOptions),
+  };
+}
+
+// Largest raster per PDF page, about A0 at 150 dpi; higher resolutions are
+// only used for pages small enough to stay under it
+const MAX_PAGE_PIXELS = 36_000_000;
+
+/**
+ * The requested resolution, lowered so a page of this size (in mm) stays
+ * within MAX_PAGE_PIXELS
+ */
+export function pageDpi(width: number, height: number, dpi: number): number {
+  const squareInches = (width / 25.4) * (height / 25.4);
+  return Math.min(dpi, Math.floor(Math.sqrt(MAX_PAGE_PIXELS / squareInches)));
+}
+
+async function rasterize(svg: string, width: number, height: number, dpi: number) {
+  // libvips applies the density twice to documents sized in mm (as the
+  // resolution and again as a scale from 72), so ask for its square root
+  const density = Math.sqrt(72 * pageDpi(width, height, dpi));
+  const { data, info } = await sharp(Buffer.from(svg), { density, limitInputPixels: MAX_PAGE_PIXELS })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 90 })
+    .toBuffer({ resolveWithObject: true });
+  return { jpeg: data, pixelWidth: info.width, pixelHeight: info.height };
+}
+
+/**
+ * The poster as a PDF: one page at full size, or one page per tile
+ */
+export async function renderPosterPdf(poster: Poster, options: PosterOptions): Promise<Buffer> {
+  sharp.concurrency(1); // One page at a time; A0 rasters are large
+
+  const pages = [];
+  if (options.tile) {
+    const tiles = computePosterTiles(poster.options.paper, options.tile);
+    for (const [index, tile] of tiles.entries()) {
+      const svg = renderPosterTileSvg(poster.body, tile, index, tiles.length);
+      pages.push({ width: tile.width, height: tile.height, ...(await rasterize(svg, tile.width, tile.height, options.dpi)) });
+    }
+  } else {
+    const { width, height } = poster.options.paper;
+    pages.push({ width, height, ...(await rasterize(poster.svg, width, height, options.dpi)) });
+  }
+
+  return writeImagePdf(pages, poster.title);
+}
@@ -0,0 +1,313 @@
+// Privacy Service
+// Al-Shaye Family Tree Application
+//
+// Builds the PrivacyViewer that src/lib/privacy.ts redacts member data for:
+// the viewer's role and privacy settings, who they may edit, and the
+// immediate family of the member they are linked to.
+
+import { prisma } from '@/lib/prisma';
+import {
+  findSessionByToken,
+  findUserById,
+  getPermissionMatrix,
+  getPrivacySettings,
+  getUserPermissionOverrides,
+  type StoredUser,
+} from '@/lib/auth/db-store';
+import { hasPermission } from '@/lib/auth/permissions';
+import { syncSearchDocument } from '@/lib/db/search';
+import {
+  getVisibleMemberFields,
+  parseMemberPrivacyOverrides,
+  redactMember,
+  type MemberPrivacyOverrides,
+  type PrivacyViewer,
+  type RedactableMember,
+} from '@/lib/privacy';
+import { highlightText, type SearchHit } from '@/lib/search';
+
+/**
+ * Member IDs of the linked member's parents, children, siblings and spouses
+ */
+async function getRelativeIds(memberId: string): Promise<Set<string>> {
+  const member = await prisma.familyMember.findUnique({
+    where: { id: memberId },
+    select: { fatherId: true, motherId: true },
+  });
+  if (!member) return new Set();
+
+  const parentIds = [member.fatherId, member.motherId].filter((id): id is string => !!id);
+  const [relatives, marriages] = await Promise.all([
+    prisma.familyMember.findMany({
+      where: {
+        OR: [
+          { id: { in: parentIds } },
+          { fatherId: memberId },
+          { motherId: memberId },
+          ...(member.fatherId ? [{ fatherId: member.fatherId }] : []),
+          ...(member.motherId ? [{ motherId: member.motherId }] : []),
+        ],
+      },
+      select: { id: true },
+    }),
+    prisma.marriage.findMany({
+      where: { OR: [{ husbandId: memberId }, { wifeId: memberId }] },
+      select: { husbandId: true, wifeId: true },
+    }),
+  ]);
+
+  const ids = new Set(relatives.map(r => r.id));
+  for (const marriage of marriages) {
+    ids.add(marriage.husbandId);
+    if (marriage.wifeId) ids.add(marriage.wifeId);
+  }
+  ids.delete(memberId);
+  return ids;
+}
+
+/**
+ * Which members the user may edit, using the same rules as withApi's
+ * branch scope for edit_member
+ */
+async function getEditableBranch(user: StoredUser): Promise<PrivacyViewer['editableBranch']> {
+  const [matrix, overrides] = await Promise.all([
+    getPermissionMatrix(),
+    getUserPermissionOverrides(user.id),
+  ]);
+  const effective = { ...matrix, [user.role]: { ...matrix[user.role], ...overrides } };
+  if (!hasPermission(user.role, 'edit_member', effective)) return null;
+
+  if (user.role === 'BRANCH_LEADER') return user.assignedBranch || null;
+  return 'ALL';
+}
+
+/**
+ * The privacy viewer for a request's user; null means an anonymous visitor
+ */
+export async function getPrivacyViewer(user: StoredUser | null): Promise<PrivacyViewer> {
+  const settings = await getPrivacySettings();
+  if (!user) return { role: null, settings };
+
+  const [editableBranch, relativeIds] = await Promise.all([
+    getEditableBranch(user),
+    user.linkedMemberId ? getRelativeIds(user.linkedMemberId) : Promise.resolve(new Set<string>()),
+  ]);
+
+  return {
+    role: user.role,
+    settings,
+    linkedMemberId: user.linkedMemberId,
+    relativeIds,
+    editableBranch,
+  };
+}
+
+/**
+ * The privacy viewer for a session token, for server-rendered pages that
+ * read it from the session cookie
+ */
+export async function getPrivacyViewerForSessionToken(token: string | null | undefined): Promise<PrivacyViewer> {
+  if (!token) return getPrivacyViewer(null);
+
+  const session = await findSessionByToken(token);
+  const user = session ? await findUserById(session.userId) : null;
+  return getPrivacyViewer(user && user.status === 'ACTIVE' ? user : null);
+}
+
+// ============================================
+// MEMBER OVERRIDES
+// ============================================
+
+export async function getMemberPrivacyOverrides(memberId: string): Promise<MemberPrivacyOverrides | null> {
+  const member = await prisma.familyMember.findUnique({
+    where: { id: memberId },
+    select: { privacyOverrides: true },
+  });
+  if (!member) return null;
+  return parseMemberPrivacyOverrides(member.privacyOverrides);
+}
+
+/**
+ * Value for the privacyOverrides column; null when no flag is set
+ */
+export function serializeMemberPrivacyOverrides(overrides: unknown): string | null {
+  const cleaned = parseMemberPrivacyOverrides(overrides);
+  return Object.keys(cleaned).length > 0 ? JSON.stringify(cleaned) : null;
+}
+
+export async function setMemberPrivacyOverrides(
+  memberId: string,
+  overrides: MemberPrivacyOverrides
+): Promise<MemberPrivacyOverrides> {
+  await prisma.familyMember.update({
+    where: { id: memberId },
+    data: { privacyOverrides: serializeMemberPrivacyOverrides(overrides) },
+  });
+  // Hidden occupations and cities are left out of the search index
+  await syncSearchDocument('member', memberId);
+  return parseMemberPrivacyOverrides(overrides);
+}
+
+// ============================================
+// PRIVACY CHANGE REQUESTS
+// ============================================
+
+// Members change their privacy profile through a MemberUpdateRequest with
+// proposedChanges { privacyOverrides }, applied when a reviewer approves it
+
+export interface PendingPrivacyRequest {
+  id: string;
+  overrides: MemberPrivacyOverrides;
+  createdAt: Date;
+}
+
+const PRIVACY_REQUEST_MARKER = '"privacyOverrides"';
+
+export async function getPendingPrivacyRequest(
+  memberId: string,
+  userId: string
+): Promise<PendingPrivacyRequest | null> {
+  const request = await prisma.memberUpdateRequest.findFirst({
+    where: {
+      memberId,
+      submittedById: userId,
+      status: 'PENDING',
+      proposedChanges: { contains: PRIVACY_REQUEST_MARKER },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!request) return null;
+
+  let proposed: { privacyOverrides?: unknown } = {};
+  try {
+    proposed = JSON.parse(request.proposedChanges);
+  } catch {
+    // Unreadable requests propose no flags
+  }
+  return {
+    id: request.id,
+    overrides: parseMemberPrivacyOverrides(proposed.privacyOverrides),
+    createdAt: request.createdAt,
+  };
+}
+
+/**
+ * Submit a privacy profile for review. A pending request from the same user
+ * is replaced rather than queued behind.
+ */
+export async function submitPrivacyRequest(
+  user: StoredUser,
+  member: { id: string; fullNameAr: string | null; firstName: string },
+  overrides: MemberPrivacyOverrides,
+  ipAddress: string | null
+): Promise<PendingPrivacyRequest> {
+  const proposedChanges = JSON.stringify({ privacyOverrides: parseMemberPrivacyOverrides(overrides) });
+  const existing = await getPendingPrivacyRequest(member.id, user.id);
+
+  const request = existing
+    ? await prisma.memberUpdateRequest.update({
+        where: { id: existing.id },
+        data: { proposedChanges },
+      })
+    : await prisma.memberUpdateRequest.create({
+        data: {
+          memberId: member.id,
+          memberName: member.fullNameAr || member.firstName,
+          submittedById: user.id,
+          submittedByName: user.nameArabic,
+          submittedByEmail: user.email,
+          proposedChanges,
+          status: 'PENDING',
+          ipAddress,
+        },
+      });
+
+  return {
+    id: request.id,
+    overrides: parseMemberPrivacyOverrides(overrides),
+    createdAt: request.createdAt,
+  };
+}
+
+// ============================================
+// SEARCH AND TEMPLATES
+// ============================================
+
+/**
+ * Member search hits carry the full name, the city and a snippet of
+ * occupation and biography. Members hidden from the viewer are dropped and
+ * those who show only their first name are cut to it. Other hit types are
+ * returned as they are.
+ */
+export async function redactSearchHits(hits: SearchHit[], viewer: PrivacyViewer): Promise<SearchHit[]> {
+  const memberIds = hits.filter(hit => hit.type === 'member').map(hit => hit.id);
+  if (memberIds.length === 0) return hits;
+
+  const rows = await prisma.familyMember.findMany({
+    where: { id: { in: memberIds } },
+    select: { id: true, privacyOverrides: true },
+  });
+  const overridesById = new Map(rows.map(row => [row.id, parseMemberPrivacyOverrides(row.privacyOverrides)]));
+
+  const redacted: SearchHit[] = [];
+  for (const hit of hits) {
+    if (hit.type !== 'member') {
+      redacted.push(hit);
+      continue;
+    }
+
+    const visible = getVisibleMemberFields(viewer, {
+      id: hit.id,
+      branch: hit.branch,
+      privacyOverrides: overridesById.get(hit.id),
+    });
+    if (visible.placeholder) continue;
+
+    const firstName = hit.title.split(' ')[0];
+    redacted.push({
+      ...hit,
+      title: visible.fullName ? hit.title : firstName,
+      titleHighlighted: visible.fullName ? hit.titleHighlighted : highlightText(firstName, []),
+      city: visible.city ? hit.city : null,
+      snippet: visible.occupation && visible.biography ? hit.snippet : null,
+    });
+  }
+  return redacted;
+}
+
+/**
+ * Whether the viewer may see members' cities by the site-wide settings,
+ * which decides if city facets, filters and suggestions are offered
+ */
+export function canViewerSeeCities(viewer: PrivacyViewer): boolean {
+  return getVisibleMemberFields(viewer, { id: '' }).city;
+}
+
+/**
+ * Whether the viewer may see members' occupations and biographies by the
+ * site-wide settings, which decides if search matches them
+ */
+export function canViewerSeeMemberDetails(viewer: PrivacyViewer): boolean {
+  const visible = getVisibleMemberFields(viewer, { id: '' });
+  return visible.occupation && visible.biography;
+}
+
+/**
+ * Member fields for an email template, redacted for the recipient
+ */
+export function memberTemplateData(
+  member: RedactableMember & { fullNameAr?: string | null; firstName?: string },
+  viewer: PrivacyViewer
+): Record<string, string> {
+  const redacted = redactMember(member, viewer);
+  const data: Record<string, string> = {
+    memberId: redacted.id,
+    memberName: redacted.fullNameAr || redacted.firstName || redacted.id,
+  };
+  if (redacted.branch) data.branch = redacted.branch;
+  if (redacted.city) data.city = redacted.city;
+  if (redacted.phone) data.phone = redacted.phone;
+  if (redacted.email) data.email = redacted.email;
+  if (redacted.birthYear) data.birthYear = String(redacted.birthYear);
+  return data;
+}
@@ -1,15 +1,16 @@
 // SMS/OTP Service
 // Al-Shaye Family Tree Application
-// Supports multiple providers: Twilio, Vonage, MessageBird
+// Supports multiple providers: Twilio, Vonage, MessageBird, and a local mock
 
 import { prisma } from '@/lib/prisma';
 import { randomInt } from 'crypto';
+import { sendViaMock } from './mock-messaging';
 
 // ============================================
 // TYPES
 // ============================================
 
-export type OtpProvider = 'twilio' | 'vonage' | 'messagebird' | 'none';
+export type OtpProvider = 'twilio' | 'vonage' | 'messagebird' | 'mock' | 'none';
 
 export interface OtpConfig {
   provider: OtpProvider;
@@ -163,6 +164,12 @@ export class SmsService {
       return this.config;
     }
 
+    // The mock provider is chosen by environment, for tests and development
+    if (process.env.OTP_PROVIDER === 'mock') {
+      this.config = { provider: 'mock', testMode: false };
+      return this.config;
+    }
+
     try {
       // Try to get from database first
       const dbConfig = await prisma.apiServiceConfig?.findUnique({
@@ -220,6 +227,9 @@ export class SmsService {
       case 'messagebird':
         result = await sendViaMessageBird(config, options);
         break;
+      case 'mock':
+        result = sendViaMock('SMS', options.to, options.message);
+        break;
       default:
         result = { success: false, error: 'No SMS provider configured' };
     }
@@ -0,0 +1,256 @@
+// Timeline Service
+// Al-Shaye Family Tree Application
+//
+// Collects dated records from members, gatherings, journals and photos into
+// TimelineEvents. Member names and years go through the viewer's privacy
+// settings; events about a member inherit that member's branch so the
+// timeline can be narrowed to one lineage.
+
+import { prisma } from '@/lib/prisma';
+import { resolveImageUrl } from '@/lib/blob-store';
+import { hijriYearToGregorian } from '@/lib/hijri';
+import { getVisibleMemberFields, redactMember, type PrivacyViewer } from '@/lib/privacy';
+import type { TimelineEvent, TimelineEventKind } from '@/lib/timeline';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TimelineFilters {
+  /** Gen 2 branch founder */
+  lineageBranchId?: string;
+  /** Gen 3 sub-branch founder */
+  subBranchId?: string;
+  kinds?: TimelineEventKind[];
+}
+
+export interface LineageBranch {
+  id: string;
+  name: string;
+  subBranches: { id: string; name: string }[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const MEMBER_SELECT = {
+  id: true,
+  firstName: true,
+  fatherName: true,
+  grandfatherName: true,
+  greatGrandfatherName: true,
+  fullNameAr: true,
+  fullNameEn: true,
+  branch: true,
+  birthYear: true,
+  birthYearHijri: true,
+  birthYearPrecision: true,
+  deathYear: true,
+  deathYearHijri: true,
+  deathYearPrecision: true,
+  photoUrl: true,
+  status: true,
+  lineageBranchId: true,
+  subBranchId: true,
+  privacyOverrides: true,
+} as const;
+
+type TimelineMember = Awaited<ReturnType<typeof loadMembers>>[number];
+
+function loadMembers() {
+  return prisma.familyMember.findMany({ select: MEMBER_SELECT });
+}
+
+function inBranch(member: TimelineMember | undefined, filters: TimelineFilters): boolean {
+  if (!filters.lineageBranchId && !filters.subBranchId) return true;
+  if (!member) return false;
+  if (filters.lineageBranchId && member.lineageBranchId !== filters.lineageBranchId && member.id !== filters.lineageBranchId) {
+    return false;
+  }
+  if (filters.subBranchId && member.subBranchId !== filters.subBranchId && member.id !== filters.subBranchId) {
+    return false;
+  }
+  return true;
+}
+
+// Gregorian year, falling back to the Hijri year converted (±1 year)
+function eventYear(gregorian: number | null, hijri: number | null): { year: number; converted: boolean } | null {
+  if (gregorian) return { year: gregorian, converted: false };
+  if (hijri) return { year: hijriYearToGregorian(hijri), converted: true };
+  return null;
+}
+
+function memberEvents(member: TimelineMember, viewer: PrivacyViewer): TimelineEvent[] {
+  if (getVisibleMemberFields(viewer, member).placeholder) return [];
+  const visible = redactMember(member, viewer);
+
+  const base = {
+    yearTo: null,
+    date: null,
+    titleAr: visible.fullNameAr || visible.firstName,
+    titleEn: visible.fullNameEn,
+    descriptionAr: null,
+    memberId: member.id,
+    linkUrl: `/member/${member.id}`,
+    imageUrl: visible.photoUrl,
+  };
+  const events: TimelineEvent[] = [];
+
+  const birth = eventYear(visible.birthYear, visible.birthYearHijri);
+  if (birth) {
+    events.push({
+      ...base,
+      id: `BIRTH:${member.id}`,
+      kind: 'BIRTH',
+      year: birth.year,
+      approximate: birth.converted || member.birthYearPrecision !== 'EXACT',
+    });
+  }
+
+  const death = eventYear(visible.deathYear, visible.deathYearHijri);
+  if (death) {
+    events.push({
+      ...base,
+      id: `DEATH:${member.id}`,
+      kind: 'DEATH',
+      year: death.year,
+      approximate: death.converted || member.deathYearPrecision !== 'EXACT',
+    });
+  }
+
+  return events;
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+/**
+ * Every timeline event the viewer may see, unsorted. With a branch filter,
+ * only events tied to a member of that branch are returned (family-wide
+ * gatherings and album photos are left out).
+ */
+export async function getTimelineEvents(viewer: PrivacyViewer, filters: TimelineFilters = {}): Promise<TimelineEvent[]> {
+  const wants = (kind: TimelineEventKind) => !filters.kinds || filters.kinds.includes(kind);
+  const branchFiltered = !!(filters.lineageBranchId || filters.subBranchId);
+
+  const members = await loadMembers();
+  const membersById = new Map(members.map(member => [member.id, member]));
+  const events: TimelineEvent[] = [];
+
+  if (wants('BIRTH') || wants('DEATH')) {
+    for (const member of members) {
+      if (!inBranch(member, filters)) continue;
+      events.push(...memberEvents(member, viewer).filter(event => wants(event.kind)));
+    }
+  }
+
+  if (wants('GATHERING') && !branchFiltered) {
+    const gatherings = await prisma.gathering.findMany({
+      where: { isPublic: true, status: { notIn: ['DRAFT', 'CANCELLED'] } },
+      select: { id: true, titleAr: true, title: true, date: true, locationAr: true, location: true },
+    });
+    for (const gathering of gatherings) {
+      events.push({
+        id: `GATHERING:${gathering.id}`,
+        kind: 'GATHERING',
+        year: gathering.date.getFullYear(),
+        yearTo: null,
+        date: gathering.date.toISOString(),
+        approximate: false,
+        titleAr: gathering.titleAr,
+        titleEn: gathering.title,
+        descriptionAr: gathering.locationAr || gathering.location,
+        memberId: null,
+        linkUrl: '/gatherings',
+        imageUrl: null,
+      });
+    }
+  }
+
+  if (wants('JOURNAL')) {
+    const journals = await prisma.familyJournal.findMany({
+      where: { status: 'PUBLISHED', yearFrom: { not: null } },
+      select: {
+        id: true, titleAr: true, titleEn: true, excerpt: true, dateDescription: true,
+        yearFrom: true, yearTo: true, primaryMemberId: true,
+      },
+    });
+    for (const journal of journals) {
+      const member = journal.primaryMemberId ? membersById.get(journal.primaryMemberId) : undefined;
+      if (!inBranch(member, filters)) continue;
+      events.push({
+        id: `JOURNAL:${journal.id}`,
+        kind: 'JOURNAL',
+        year: journal.yearFrom as number,
+        yearTo: journal.yearTo && journal.yearTo > (journal.yearFrom as number) ? journal.yearTo : null,
+        date: null,
+        approximate: true,
+        titleAr: journal.titleAr,
+        titleEn: journal.titleEn,
+        descriptionAr: journal.excerpt || journal.dateDescription,
+        memberId: journal.primaryMemberId,
+        linkUrl: `/journals/${journal.id}`,
+        imageUrl: null,
+      });
+    }
+  }
+
+  if (wants('PHOTO')) {
+    const photos = await prisma.memberPhoto.findMany({
+      where: { isPublic: true, year: { not: null } },
+      select: {
+        id: true, titleAr: true, title: true, captionAr: true, year: true, memberId: true,
+        thumbnailKey: true, thumbnailData: true, imageKey: true, imageData: true,
+      },
+    });
+    for (const photo of photos) {
+      const member = photo.memberId ? membersById.get(photo.memberId) : undefined;
+      if (branchFiltered && !inBranch(member, filters)) continue;
+      // Photos of a member follow that member's photo visibility
+      if (member && !getVisibleMemberFields(viewer, member).photo) continue;
+
+      events.push({
+        id: `PHOTO:${photo.id}`,
+        kind: 'PHOTO',
+        year: photo.year as number,
+        yearTo: null,
+        date: null,
+        approximate: false,
+        titleAr: photo.titleAr || photo.title || 'صورة عائلية',
+        titleEn: photo.title,
+        descriptionAr: photo.captionAr,
+        memberId: photo.memberId,
+        linkUrl: photo.memberId ? `/member/${photo.memberId}` : '/gallery',
+        imageUrl: resolveImageUrl(photo.thumbnailKey, photo.thumbnailData) || resolveImageUrl(photo.imageKey, photo.imageData),
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Gen 2 branches and their Gen 3 sub-branches, for the branch filters on
+ * the timeline and the family map
+ */
+export async function getLineageBranches(): Promise<LineageBranch[]> {
+  const members = await prisma.familyMember.findMany({
+    where: { generation: { in: [2, 3] } },
+    select: { id: true, firstName: true, generation: true, fatherId: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const branches = members
+    .filter(member => member.generation === 2)
+    .map(member => ({ id: member.id, name: member.firstName, subBranches: [] as LineageBranch['subBranches'] }));
+  const byId = new Map(branches.map(branch => [branch.id, branch]));
+
+  for (const member of members) {
+    if (member.generation === 3 && member.fatherId) {
+      byId.get(member.fatherId)?.subBranches.push({ id: member.id, name: member.firstName });
+    }
+  }
+  return branches;
+}
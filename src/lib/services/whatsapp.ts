@@ -0,0 +1,160 @@
+// WhatsApp Service
+// Al-Shaye Family Tree Application
+//
+// Sends WhatsApp template messages through the WhatsApp Business Cloud API,
+// or the local mock provider. Messages are logged to SmsLog with type
+// WHATSAPP alongside text messages.
+
+import { prisma } from '@/lib/prisma';
+import { renderWhatsAppText, type WhatsAppTemplateMessage } from '@/lib/broadcast-channels';
+import { sendViaMock } from './mock-messaging';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type WhatsAppProvider = 'cloud' | 'mock' | 'none';
+
+export interface WhatsAppConfig {
+  provider: WhatsAppProvider;
+  accessToken?: string;
+  phoneNumberId?: string;
+  testMode: boolean;
+}
+
+export interface SendWhatsAppOptions {
+  to: string;
+  template: WhatsAppTemplateMessage;
+}
+
+export interface WhatsAppResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+const CLOUD_API_VERSION = 'v20.0';
+
+// ============================================
+// PROVIDER IMPLEMENTATIONS
+// ============================================
+
+async function sendViaCloudApi(config: WhatsAppConfig, options: SendWhatsAppOptions): Promise<WhatsAppResult> {
+  if (!config.accessToken || !config.phoneNumberId) {
+    return { success: false, error: 'WhatsApp Cloud API credentials not configured' };
+  }
+
+  try {
+    const response = await fetch(
+      `https://graph.facebook.com/${CLOUD_API_VERSION}/${config.phoneNumberId}/messages`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          to: options.to.replace(/[^0-9]/g, ''),
+          type: 'template',
+          template: {
+            name: options.template.name,
+            language: { code: options.template.language },
+            components: [{
+              type: 'body',
+              parameters: options.template.parameters.map(text => ({ type: 'text', text })),
+            }],
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      return { success: false, error: `WhatsApp error: ${error}` };
+    }
+
+    const data = await response.json();
+    return { success: true, messageId: data.messages?.[0]?.id };
+  } catch (error) {
+    return { success: false, error: `WhatsApp error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
+
+// ============================================
+// MAIN WHATSAPP SERVICE
+// ============================================
+
+export class WhatsAppService {
+  private config: WhatsAppConfig | null = null;
+
+  getConfig(): WhatsAppConfig {
+    if (this.config) {
+      return this.config;
+    }
+
+    const provider = (process.env.WHATSAPP_PROVIDER || 'none') as WhatsAppProvider;
+    this.config = {
+      provider,
+      accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+      phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+      testMode: provider !== 'mock' && process.env.TEST_MODE === 'true',
+    };
+    return this.config;
+  }
+
+  clearConfigCache(): void {
+    this.config = null;
+  }
+
+  async sendTemplate(options: SendWhatsAppOptions): Promise<WhatsAppResult> {
+    const config = this.getConfig();
+    const text = renderWhatsAppText(options.template);
+
+    // If test mode or no provider, just log and return success
+    if (config.testMode || config.provider === 'none') {
+      console.log('[WHATSAPP TEST MODE]', {
+        to: options.to,
+        template: options.template.name,
+        provider: config.provider,
+      });
+      return { success: true, messageId: `test-${Date.now()}` };
+    }
+
+    let result: WhatsAppResult;
+
+    switch (config.provider) {
+      case 'cloud':
+        result = await sendViaCloudApi(config, options);
+        break;
+      case 'mock':
+        result = sendViaMock('WHATSAPP', options.to, text);
+        break;
+      default:
+        result = { success: false, error: 'No WhatsApp provider configured' };
+    }
+
+    // Log to database
+    try {
+      await prisma.smsLog?.create({
+        data: {
+          to: options.to,
+          from: config.phoneNumberId || 'SYSTEM',
+          message: text,
+          type: 'WHATSAPP',
+          status: result.success ? 'SENT' : 'FAILED',
+          provider: config.provider,
+          providerMessageId: result.messageId || null,
+          errorMessage: result.error || null,
+          sentAt: result.success ? new Date() : null,
+        },
+      });
+    } catch {
+      // Database model might not exist yet
+    }
+
+    return result;
+  }
+}
+
+export const whatsappService = new WhatsAppService();
@@ -0,0 +1,146 @@
+// Family Timeline - One chronology of births, deaths, gatherings, journals and photos
+// Events are collected by src/lib/services/timeline.ts; grouping, filtering and
+// "this day in family history" are pure so the page and dashboard can share them.
+
+// ============================================
+// TYPES
+// ============================================
+
+export const TIMELINE_EVENT_KINDS = ['BIRTH', 'DEATH', 'GATHERING', 'JOURNAL', 'PHOTO'] as const;
+
+export type TimelineEventKind = typeof TIMELINE_EVENT_KINDS[number];
+
+export const TIMELINE_EVENT_KIND_LABELS: Record<TimelineEventKind, { ar: string; en: string }> = {
+  BIRTH: { ar: 'ولادة', en: 'Birth' },
+  DEATH: { ar: 'وفاة', en: 'Death' },
+  GATHERING: { ar: 'لقاء', en: 'Gathering' },
+  JOURNAL: { ar: 'قصة', en: 'Journal' },
+  PHOTO: { ar: 'صورة', en: 'Photo' },
+};
+
+export interface TimelineEvent {
+  /** Unique across kinds, e.g. "BIRTH:P012" */
+  id: string;
+  kind: TimelineEventKind;
+  /** Gregorian year the event happened (or started) */
+  year: number;
+  /** Last year of an event spanning several years (journals) */
+  yearTo: number | null;
+  /** ISO date when the exact day is known (gatherings) */
+  date: string | null;
+  /** Year is approximate or only known to the decade */
+  approximate: boolean;
+  titleAr: string;
+  titleEn: string | null;
+  descriptionAr: string | null;
+  memberId: string | null;
+  linkUrl: string | null;
+  imageUrl: string | null;
+}
+
+export interface TimelineDecade {
+  decade: number;
+  count: number;
+  kinds: Record<TimelineEventKind, number>;
+}
+
+// ============================================
+// FILTERING AND GROUPING
+// ============================================
+
+export function decadeOf(year: number): number {
+  return Math.floor(year / 10) * 10;
+}
+
+/**
+ * Events that overlap the year range; either bound may be left open
+ */
+export function filterTimelineByYears(
+  events: TimelineEvent[],
+  from?: number | null,
+  to?: number | null
+): TimelineEvent[] {
+  return events.filter(event => {
+    const end = event.yearTo ?? event.year;
+    if (from != null && end < from) return false;
+    if (to != null && event.year > to) return false;
+    return true;
+  });
+}
+
+/**
+ * Oldest first; events in the same year by date when known, then by kind
+ */
+export function sortTimelineEvents(events: TimelineEvent[], order: 'asc' | 'desc' = 'asc'): TimelineEvent[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...events].sort((a, b) => {
+    if (a.year !== b.year) return (a.year - b.year) * direction;
+    if (a.date && b.date && a.date !== b.date) return a.date < b.date ? -direction : direction;
+    return TIMELINE_EVENT_KINDS.indexOf(a.kind) - TIMELINE_EVENT_KINDS.indexOf(b.kind);
+  });
+}
+
+/**
+ * Event counts per decade, oldest first, for the zoomed-out view
+ */
+export function groupTimelineByDecade(events: TimelineEvent[]): TimelineDecade[] {
+  const decades = new Map<number, TimelineDecade>();
+
+  for (const event of events) {
+    const decade = decadeOf(event.year);
+    let entry = decades.get(decade);
+    if (!entry) {
+      entry = {
+        decade,
+        count: 0,
+        kinds: Object.fromEntries(TIMELINE_EVENT_KINDS.map(kind => [kind, 0])) as Record<TimelineEventKind, number>,
+      };
+      decades.set(decade, entry);
+    }
+    entry.count++;
+    entry.kinds[event.kind]++;
+  }
+
+  return Array.from(decades.values()).sort((a, b) => a.decade - b.decade);
+}
+
+// ============================================
+// THIS DAY IN FAMILY HISTORY
+// ============================================
+
+export interface ThisDayItem {
+  event: TimelineEvent;
+  yearsAgo: number;
+}
+
+// Events known only by year are remembered on round anniversaries
+export const TIMELINE_ANNIVERSARY_STEP = 25;
+
+/**
+ * Events from earlier years on today's month and day, plus events known only
+ * by year whose round anniversary falls this year. Most recent first.
+ */
+export function getThisDayInHistory(events: TimelineEvent[], today: Date = new Date()): ThisDayItem[] {
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const day = today.getDate();
+  const items: ThisDayItem[] = [];
+
+  for (const event of events) {
+    const yearsAgo = year - event.year;
+    if (yearsAgo <= 0) continue;
+
+    if (event.date) {
+      const date = new Date(event.date);
+      if (date.getMonth() === month && date.getDate() === day) items.push({ event, yearsAgo });
+    } else if (!event.approximate && yearsAgo % TIMELINE_ANNIVERSARY_STEP === 0) {
+      items.push({ event, yearsAgo });
+    }
+  }
+
+  return items.sort((a, b) => {
+    // Exact-day matches before anniversaries
+    if (!!a.event.date !== !!b.event.date) return a.event.date ? -1 : 1;
+    return a.yearsAgo - b.yearsAgo;
+  });
+}
@@ -1,9 +1,17 @@
 // آل شايع Family Tree - Type Definitions
 
+import type { MemberPrivacyOverrides } from './privacy';
+
 // ============================================
 // CORE TYPES
 // ============================================
 
+// How reliable a recorded year is: exact, approximate (حوالي) or known only to the decade
+export type DatePrecision = 'EXACT' | 'APPROXIMATE' | 'DECADE';
+
+// Calendar used to display dates
+export type CalendarPreference = 'gregorian' | 'hijri' | 'both';
+
 export interface FamilyMember {
   id: string;
   firstName: string;
@@ -12,9 +20,15 @@ export interface FamilyMember {
   greatGrandfatherName: string | null;
   familyName: string;
   fatherId: string | null;
+  motherId?: string | null;             // Mother's ID when she is in the tree
+  externalMotherName?: string | null;   // Mother's name when she is from another family
   gender: 'Male' | 'Female';
   birthYear: number | null;
   deathYear?: number | null;
+  birthYearHijri?: number | null;       // Hijri (AH) counterpart of birthYear
+  deathYearHijri?: number | null;       // Hijri (AH) counterpart of deathYear
+  birthYearPrecision?: DatePrecision;
+  deathYearPrecision?: DatePrecision;
   sonsCount: number;
   daughtersCount: number;
   generation: number;
@@ -23,11 +37,15 @@ export interface FamilyMember {
   fullNameEn: string | null;
   phone: string | null;
   city: string | null;
+  birthPlace?: string | null;
   status: string;
   photoUrl: string | null;
   biography: string | null;
   occupation: string | null;
   email: string | null;
+  broadcastChannels?: string | null; // Preferred broadcast channels, comma-separated
+  privacyOverrides?: MemberPrivacyOverrides | null; // Member's privacy profile
+  isPlaceholder?: boolean; // Hidden from the viewer; only the place in the tree is kept
   createdAt?: Date;
   updatedAt?: Date;
   createdBy?: string | null;
@@ -67,7 +85,7 @@ export interface ChangeHistory {
   ipAddress?: string | null;
 }
 
-export type ChangeType = 'CREATE' | 'UPDATE' | 'DELETE' | 'PARENT_CHANGE' | 'RESTORE';
+export type ChangeType = 'CREATE' | 'UPDATE' | 'DELETE' | 'PARENT_CHANGE' | 'RESTORE' | 'MERGE';
 
 export interface Snapshot {
   id: string;
@@ -156,7 +174,7 @@ export interface AdminSession {
 export interface ImportJob {
   id: string;
   fileName: string;
-  fileType: 'JSON' | 'CSV' | 'EXCEL';
+  fileType: 'JSON' | 'CSV' | 'EXCEL' | 'GEDCOM';
   totalRecords: number;
   status: ImportStatus;
   processedCount: number;
@@ -220,7 +238,9 @@ export interface ExportJob {
   downloadUrl?: string | null;
 }
 
-export type ExportFormat = 'JSON' | 'CSV' | 'EXCEL' | 'PDF';
+export type ExportFormat = 'JSON' | 'CSV' | 'EXCEL' | 'PDF' | 'GEDCOM';
+
+export type GedcomVersion = '5.5.1' | '7.0';
 
 export interface ExportFilters {
   generations?: number[];
@@ -236,6 +256,8 @@ export interface ExportOptions {
   includeTree?: boolean;
   groupByGeneration?: boolean;
   filters?: ExportFilters;
+  gedcomVersion?: GedcomVersion;
+  calendar?: CalendarPreference;   // Calendar for years in text/HTML exports
 }
 
 export interface ExportField {
@@ -402,6 +424,51 @@ export interface MilkFamily {
   milkSiblings: MilkSibling[]; // Children of the milk mother
 }
 
+// ============================================
+// MARRIAGES (الزواج)
+// ============================================
+
+export type MarriageStatus = 'ACTIVE' | 'DIVORCED' | 'WIDOWED';
+
+// Fields of a husband or wife returned with a marriage
+export type MarriageSpouse = Pick<
+  FamilyMember,
+  'id' | 'firstName' | 'fullNameAr' | 'gender' | 'branch' | 'privacyOverrides' | 'isPlaceholder'
+>;
+
+export interface Marriage {
+  id: string;
+
+  // Husband (الزوج)
+  husbandId: string;
+  husband?: MarriageSpouse;
+
+  // Wife (الزوجة) - either a tree member or an external person
+  wifeId: string | null;
+  wife?: MarriageSpouse | null;
+  externalWifeName: string | null;
+  externalWifeFamily: string | null;
+
+  wifeOrder: number;
+  startYear: number | null;
+  endYear: number | null;
+  status: MarriageStatus;
+  notes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string | null;
+}
+
+// Children of one person grouped under one mother (or one father's wife)
+export interface MotherChildrenGroup {
+  motherKey: string;                 // Mother ID, "ext:<name>" or "unknown"
+  motherId: string | null;
+  motherName: string | null;
+  isExternal: boolean;
+  marriage: Marriage | null;
+  children: FamilyMember[];
+}
+
 // Data structure for the mini family graph
 export interface MiniGraphData {
   // The main person
@@ -475,8 +542,8 @@ export interface JournalMedia {
   journalId: string;
   type: 'IMAGE' | 'DOCUMENT' | 'AUDIO' | 'VIDEO';
   url?: string | null;
-  imageData?: string | null;
-  thumbnailData?: string | null;
+  imageUrl?: string | null;      // Blob store URL, or inline data for rows not yet migrated
+  thumbnailUrl?: string | null;
   titleAr?: string | null;
   titleEn?: string | null;
   captionAr?: string | null;
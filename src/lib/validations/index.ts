@@ -2,6 +2,23 @@
 // Al-Shaye Family Tree Application
 
 import { z } from 'zod';
+import { gregorianYearToHijri } from '@/lib/hijri';
+import type { MergeStrategy } from '@/lib/import-utils';
+import { MERGEABLE_FIELDS, MERGE_STRATEGIES } from '@/lib/merge';
+import { ACCESS_TOKEN_EXPIRY_DAYS, API_SCOPES } from '@/lib/access-tokens';
+import { NOTIFICATION_TYPES } from '@/lib/notifications';
+import { TIMELINE_EVENT_KINDS } from '@/lib/timeline';
+import { PAPER_SIZE_NAMES, POSTER_LAYOUTS, POSTER_ORIENTATIONS, type PaperSize } from '@/lib/poster';
+import { BROADCAST_CHANNELS } from '@/lib/broadcast-channels';
+import { EDITABLE_EMAIL_TEMPLATES } from '@/lib/email-templates';
+import { GATHERING_MAX_PLUS_ONES, GATHERING_RSVP_RESPONSES } from '@/lib/gatherings';
+import {
+  AUDIENCE_MAX_CONDITIONS,
+  AUDIENCE_MAX_DEPTH,
+  AUDIENCE_RSVP_RESPONSES,
+  measureAudienceRule,
+  type AudienceRule,
+} from '@/lib/audience';
 
 // ============================================
 // COMMON SCHEMAS
@@ -69,6 +86,13 @@ export const genderSchema = z.enum(['Male', 'Female']);
 
 export const memberStatusSchema = z.enum(['Living', 'Deceased']);
 
+export const datePrecisionSchema = z.enum(['EXACT', 'APPROXIMATE', 'DECADE']);
+
+// Hijri years covering the same range as the Gregorian birth/death years
+const hijriYearSchema = z.number().int()
+  .min(gregorianYearToHijri(1800))
+  .max(gregorianYearToHijri(new Date().getFullYear()) + 1);
+
 export const createMemberSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
   fatherName: z.string().optional().nullable(),
@@ -76,24 +100,46 @@ export const createMemberSchema = z.object({
   greatGrandfatherName: z.string().optional().nullable(),
   familyName: z.string().default('آل شايع'),
   fatherId: z.string().optional().nullable(),
+  motherId: z.string().optional().nullable(),
+  externalMotherName: z.string().max(200).optional().nullable(),
   gender: genderSchema,
   birthYear: z.number().int().min(1800).max(new Date().getFullYear()).optional().nullable(),
   deathYear: z.number().int().min(1800).max(new Date().getFullYear()).optional().nullable(),
+  birthYearHijri: hijriYearSchema.optional().nullable(),
+  deathYearHijri: hijriYearSchema.optional().nullable(),
+  birthYearPrecision: datePrecisionSchema.optional(),
+  deathYearPrecision: datePrecisionSchema.optional(),
   generation: z.number().int().min(1).max(20).optional(),
   branch: z.string().optional().nullable(),
   fullNameAr: z.string().optional().nullable(),
   fullNameEn: z.string().optional().nullable(),
   phone: phoneSchema.nullable(),
   city: z.string().optional().nullable(),
+  birthPlace: z.string().max(100).optional().nullable(),
   status: memberStatusSchema.default('Living'),
   photoUrl: z.string().url().optional().nullable(),
   biography: z.string().optional().nullable(),
   occupation: z.string().optional().nullable(),
   email: emailSchema.optional().nullable().or(z.literal('')),
+  // Comma-separated broadcast channels the member prefers, e.g. "WHATSAPP,EMAIL"
+  broadcastChannels: z.string()
+    .regex(/^((EMAIL|WHATSAPP|SMS)(,(EMAIL|WHATSAPP|SMS))*)?$/, 'Invalid broadcast channels')
+    .optional()
+    .nullable(),
 });
 
+// Fields left out keep their stored value, so no defaults are filled in
 export const updateMemberSchema = createMemberSchema.partial().extend({
   id: idSchema,
+  familyName: z.string().optional(),
+  status: memberStatusSchema.optional(),
+});
+
+// Body of PUT /api/members/[id]: the id comes from the path. Stored photos
+// are app-relative blob URLs, and version enables conflict detection.
+export const memberUpdateBodySchema = updateMemberSchema.omit({ id: true }).extend({
+  photoUrl: z.string().max(2000).optional().nullable(),
+  version: z.number().int().optional(),
 });
 
 export const memberQuerySchema = z.object({
@@ -108,6 +154,80 @@ export const memberQuerySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('asc'),
 });
 
+// ============================================
+// MARRIAGE SCHEMAS
+// ============================================
+
+export const marriageStatusSchema = z.enum(['ACTIVE', 'DIVORCED', 'WIDOWED']);
+
+const marriageFieldsSchema = z.object({
+  husbandId: idSchema,
+  wifeId: z.string().optional().nullable(),
+  externalWifeName: z.string().max(200).optional().nullable(),
+  externalWifeFamily: z.string().max(200).optional().nullable(),
+  wifeOrder: z.number().int().min(1).max(10).optional(),
+  startYear: z.number().int().min(1300).max(new Date().getFullYear()).optional().nullable(),
+  endYear: z.number().int().min(1300).max(new Date().getFullYear()).optional().nullable(),
+  status: marriageStatusSchema.optional(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+export const createMarriageSchema = marriageFieldsSchema
+  .refine((data) => !!data.wifeId || !!data.externalWifeName, {
+    message: 'Either wifeId or externalWifeName is required',
+    path: ['wifeId'],
+  })
+  .refine((data) => !data.startYear || !data.endYear || data.endYear >= data.startYear, {
+    message: 'End year must be after start year',
+    path: ['endYear'],
+  });
+
+export const updateMarriageSchema = marriageFieldsSchema.omit({ husbandId: true }).partial();
+
+// ============================================
+// MEMBER MERGE SCHEMA
+// ============================================
+
+export const mergeMembersSchema = z.object({
+  survivorId: idSchema,
+  mergedId: idSchema,
+  strategy: z.enum(MERGE_STRATEGIES as [MergeStrategy, ...MergeStrategy[]]).optional(),
+  fieldChoices: z.partialRecord(z.enum(MERGEABLE_FIELDS), z.enum(['keep', 'merged'])).optional(),
+  reason: z.string().max(500).optional(),
+}).refine((data) => data.survivorId !== data.mergedId, {
+  message: 'Cannot merge a member into itself',
+  path: ['mergedId'],
+});
+
+// ============================================
+// TREE MOVE SCHEMAS
+// ============================================
+
+export const moveMemberSchema = z.object({
+  memberId: idSchema,
+  newParentId: z.string().optional().nullable(),
+  updateGenerations: z.boolean().default(true),
+  // Version the client loaded; the move is refused if the member changed since
+  expectedVersion: z.number().int().positive().optional(),
+}).refine((data) => data.newParentId !== data.memberId, {
+  message: 'Cannot set self as parent',
+  path: ['newParentId'],
+});
+
+export const batchMoveSchema = z.object({
+  moves: z.array(z.object({
+    memberId: z.string().optional(),
+    newParentId: z.string().optional().nullable(),
+  })).min(1, 'moves array is required').max(50, 'Maximum 50 moves per batch'),
+});
+
+export const treePresenceSchema = z.object({
+  connectionId: z.string().min(1),
+  mode: z.enum(['viewing', 'editing']).optional(),
+  branch: z.string().max(100).nullable().optional(),
+  memberId: z.string().max(50).nullable().optional(),
+});
+
 // ============================================
 // USER MANAGEMENT SCHEMAS
 // ============================================
@@ -177,10 +297,11 @@ export const reviewAccessRequestSchema = z.object({
 // ============================================
 
 export const exportOptionsSchema = z.object({
-  format: z.enum(['JSON', 'CSV', 'EXCEL', 'PDF']),
+  format: z.enum(['JSON', 'CSV', 'EXCEL', 'PDF', 'GEDCOM']),
   fields: z.array(z.string()).min(1, 'Select at least one field'),
   includeTree: z.boolean().default(false),
   groupByGeneration: z.boolean().default(false),
+  gedcomVersion: z.enum(['5.5.1', '7.0']).optional(),
   filters: z.object({
     generations: z.array(z.number()).optional(),
     branches: z.array(z.string()).optional(),
@@ -191,7 +312,7 @@ export const exportOptionsSchema = z.object({
 });
 
 export const importOptionsSchema = z.object({
-  fileType: z.enum(['JSON', 'CSV', 'EXCEL']),
+  fileType: z.enum(['JSON', 'CSV', 'EXCEL', 'GEDCOM']),
   conflictStrategy: z.enum(['SKIP', 'OVERWRITE', 'MERGE', 'ASK']).default('ASK'),
   validateOnly: z.boolean().default(false),
 });
@@ -234,6 +355,19 @@ export const privacySettingsSchema = z.object({
   showFullDeathDate: z.boolean().default(false),
 });
 
+// Fields a member hides from other viewers, on top of the privacy settings
+export const memberPrivacyOverridesSchema = z.object({
+  hidePhone: z.boolean().optional(),
+  hideEmail: z.boolean().optional(),
+  hideBirthYear: z.boolean().optional(),
+  hideCity: z.boolean().optional(),
+  hideOccupation: z.boolean().optional(),
+  hidePhoto: z.boolean().optional(),
+  hideFromGuests: z.boolean().optional(),
+  firstNameOnly: z.boolean().optional(),
+  excludeFromExports: z.boolean().optional(),
+});
+
 // ============================================
 // API SERVICE CONFIGURATION SCHEMAS
 // ============================================
@@ -268,6 +402,68 @@ export const apiServiceConfigSchema = z.object({
   testMode: z.boolean().default(true),
 });
 
+// ============================================
+// EMAIL TEMPLATE SCHEMAS
+// ============================================
+
+export const emailTemplateTypeSchema = z.enum(EDITABLE_EMAIL_TEMPLATES);
+
+export const emailTemplateSchema = z.object({
+  subjectAr: z.string().trim().min(1, 'Arabic subject is required').max(200),
+  subjectEn: z.string().trim().max(200).optional().nullable(),
+  bodyAr: z.string().trim().min(1, 'Arabic body is required').max(20000),
+  bodyEn: z.string().trim().max(20000).optional().nullable(),
+  note: z.string().trim().max(200).optional().nullable(),
+});
+
+export const emailTemplateTestSchema = emailTemplateSchema.omit({ note: true }).extend({
+  to: emailSchema.optional(),
+});
+
+export const emailTemplateRollbackSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+// ============================================
+// PERSONAL ACCESS TOKEN SCHEMAS
+// ============================================
+
+export const createAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(100),
+  scopes: z.array(z.enum(API_SCOPES)).min(1, 'At least one scope is required'),
+  expiresInDays: z.number().refine(
+    (days) => (ACCESS_TOKEN_EXPIRY_DAYS as readonly number[]).includes(days),
+    { message: `Expiry must be one of ${ACCESS_TOKEN_EXPIRY_DAYS.join(', ')} days` }
+  ),
+});
+
+// ============================================
+// NOTIFICATION SCHEMAS
+// ============================================
+
+export const notificationChannelsSchema = z.object({
+  inApp: z.boolean(),
+  email: z.boolean(),
+  sms: z.boolean(),
+  digest: z.boolean(),
+});
+
+export const notificationPreferencesSchema = z.object(
+  Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, notificationChannelsSchema.optional()])) as Record<
+    typeof NOTIFICATION_TYPES[number],
+    z.ZodOptional<typeof notificationChannelsSchema>
+  >
+);
+
+// Mark the given notifications as read, or all of them
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(idSchema).max(500).optional(),
+  all: z.boolean().optional(),
+}).refine((data) => data.all || (data.ids && data.ids.length > 0), {
+  message: 'Provide ids or all',
+  path: ['ids'],
+});
+
 // ============================================
 // SNAPSHOT SCHEMAS
 // ============================================
@@ -289,13 +485,61 @@ export const createBranchLinkSchema = z.object({
   maxUses: z.number().int().min(1).max(1000).optional().nullable(),
 });
 
+// ============================================
+// AUDIENCE SCHEMAS
+// ============================================
+
+const audienceYearsSchema = z.number().int().min(0).max(150).optional().nullable();
+const audienceGenerationSchema = z.number().int().min(1).max(20).optional().nullable();
+
+export const audienceConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('branch'), lineageBranchId: z.string().min(1), subBranchId: z.string().optional().nullable() }),
+  z.object({ type: z.literal('generation'), min: audienceGenerationSchema, max: audienceGenerationSchema }),
+  z.object({ type: z.literal('city'), cities: z.array(z.string().trim().min(1).max(100)).min(1).max(50) }),
+  z.object({ type: z.literal('gender'), gender: z.enum(['Male', 'Female']) }),
+  z.object({ type: z.literal('living'), living: z.boolean() }),
+  z.object({ type: z.literal('age'), min: audienceYearsSchema, max: audienceYearsSchema }),
+  z.object({ type: z.literal('descendantOf'), memberId: z.string().min(1), includeSelf: z.boolean().optional() }),
+  z.object({ type: z.literal('userRole'), roles: z.array(z.enum(['SUPER_ADMIN', 'ADMIN', 'BRANCH_LEADER', 'MEMBER', 'GUEST'])).min(1) }),
+  z.object({
+    type: z.literal('pastRsvp'),
+    response: z.enum(AUDIENCE_RSVP_RESPONSES),
+    minCount: z.number().int().min(1).max(100).optional().nullable(),
+  }),
+]);
+
+const audienceRuleTreeSchema: z.ZodType<AudienceRule> = z.lazy(() => z.union([
+  audienceConditionSchema,
+  z.object({ type: z.enum(['and', 'or']), rules: z.array(audienceRuleTreeSchema).min(1, 'A group needs at least one rule') }),
+  z.object({ type: z.literal('not'), rule: audienceRuleTreeSchema }),
+]));
+
+export const audienceRuleSchema = audienceRuleTreeSchema.superRefine((rule, ctx) => {
+  const { depth, conditions } = measureAudienceRule(rule);
+  if (depth > AUDIENCE_MAX_DEPTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Rules can be nested at most ${AUDIENCE_MAX_DEPTH} deep` });
+  }
+  if (conditions > AUDIENCE_MAX_CONDITIONS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Rules can have at most ${AUDIENCE_MAX_CONDITIONS} conditions` });
+  }
+});
+
+export const audienceSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Segment name is required').max(100),
+  description: z.string().max(500).optional().nullable(),
+  rules: audienceRuleSchema,
+});
+
+export const updateAudienceSegmentSchema = audienceSegmentSchema.partial();
+
 // ============================================
 // BROADCAST SCHEMAS
 // ============================================
 
 export const broadcastTypeSchema = z.enum(['MEETING', 'ANNOUNCEMENT', 'REMINDER', 'UPDATE']);
 export const broadcastStatusSchema = z.enum(['DRAFT', 'SCHEDULED', 'SENDING', 'SENT', 'CANCELLED']);
-export const broadcastAudienceSchema = z.enum(['ALL', 'BRANCH', 'GENERATION', 'CUSTOM']);
+export const broadcastAudienceSchema = z.enum(['ALL', 'BRANCH', 'GENERATION', 'CUSTOM', 'SEGMENT', 'RULES']);
+export const broadcastChannelSchema = z.enum(BROADCAST_CHANNELS);
 
 export const createBroadcastSchema = z.object({
   titleAr: z.string().min(1, 'Arabic title is required').max(200),
@@ -303,10 +547,13 @@ export const createBroadcastSchema = z.object({
   contentAr: z.string().min(1, 'Arabic content is required'),
   contentEn: z.string().optional().nullable(),
   type: broadcastTypeSchema.default('ANNOUNCEMENT'),
+  channels: z.array(broadcastChannelSchema).min(1, 'Choose at least one channel').default(['EMAIL']),
   targetAudience: broadcastAudienceSchema.default('ALL'),
   targetBranch: z.string().optional().nullable(),
   targetGeneration: z.number().int().min(1).max(20).optional().nullable(),
   targetMemberIds: z.array(z.string()).optional().nullable(),
+  targetSegmentId: z.string().optional().nullable(),
+  targetRules: audienceRuleSchema.optional().nullable(),
   meetingDate: z.coerce.date().optional().nullable(),
   meetingLocation: z.string().max(500).optional().nullable(),
   meetingUrl: z.string().url().optional().nullable().or(z.literal('')),
@@ -319,6 +566,11 @@ export const updateBroadcastSchema = createBroadcastSchema.partial().extend({
   status: broadcastStatusSchema.optional(),
 });
 
+export const audiencePreviewSchema = z.object({
+  rules: audienceRuleSchema,
+  channels: z.array(broadcastChannelSchema).min(1).default(['EMAIL']),
+});
+
 // ============================================
 // JOURNAL SCHEMAS
 // ============================================
@@ -373,6 +625,7 @@ export const pendingMemberSchema = z.object({
   fullNameEn: z.string().max(300).optional().nullable(),
   phone: phoneSchema.nullable(),
   city: z.string().max(100).optional().nullable(),
+  birthPlace: z.string().max(100).optional().nullable(),
   status: memberStatusSchema.default('Living'),
   occupation: z.string().max(100).optional().nullable(),
   email: emailSchema.optional().nullable().or(z.literal('')),
@@ -464,10 +717,55 @@ export const createGatheringSchema = z.object({
   organizerNameAr: z.string().min(1, 'Arabic organizer name is required').max(200),
   status: gatheringStatusSchema.default('UPCOMING'),
   isPublic: z.boolean().default(true),
+  audienceSegmentId: z.string().optional().nullable(),
 });
 
 export const updateGatheringSchema = createGatheringSchema.partial();
 
+export const gatheringInviteSchema = z.object({
+  targetAudience: z.enum(['ALL', 'BRANCH', 'SEGMENT', 'RULES']).default('ALL'),
+  // Gen 2 lineage branch, optionally narrowed to one of its sub-branches
+  lineageBranchId: z.string().optional().nullable(),
+  subBranchId: z.string().optional().nullable(),
+  targetSegmentId: z.string().optional().nullable(),
+  targetRules: audienceRuleSchema.optional().nullable(),
+  channels: z.array(broadcastChannelSchema).min(1, 'Choose at least one channel').default(['EMAIL']),
+  // Invitation text; the gathering's description when left out
+  messageAr: z.string().max(5000).optional().nullable(),
+  rsvpDeadline: z.coerce.date().optional().nullable(),
+  // false leaves a draft broadcast to review before sending
+  sendNow: z.boolean().default(true),
+}).superRefine((data, ctx) => {
+  if (data.targetAudience === 'BRANCH' && !data.lineageBranchId) {
+    ctx.addIssue({ code: 'custom', message: 'Choose a branch', path: ['lineageBranchId'] });
+  }
+  if (data.targetAudience === 'SEGMENT' && !data.targetSegmentId) {
+    ctx.addIssue({ code: 'custom', message: 'Choose a saved audience', path: ['targetSegmentId'] });
+  }
+  if (data.targetAudience === 'RULES' && !data.targetRules) {
+    ctx.addIssue({ code: 'custom', message: 'Audience rules are required', path: ['targetRules'] });
+  }
+});
+
+export const gatheringRsvpSchema = z.object({
+  token: z.string().min(1, 'RSVP link is required'),
+  rsvpStatus: z.enum(GATHERING_RSVP_RESPONSES),
+  plusOnes: z.number().int().min(0).max(GATHERING_MAX_PLUS_ONES).default(0),
+  dietaryNotes: z.string().max(500).optional().nullable(),
+  rsvpNote: z.string().max(500).optional().nullable(),
+});
+
+export const gatheringCheckInSchema = z.object({
+  // Contents of a scanned pass, or an attendee picked from the list
+  code: z.string().min(1).optional(),
+  attendeeId: z.string().min(1).optional(),
+  // false undoes a check-in made by mistake
+  attended: z.boolean().default(true),
+}).refine(data => data.code || data.attendeeId, {
+  message: 'Scan a pass or choose an attendee',
+  path: ['code'],
+});
+
 // ============================================
 // SEARCH SCHEMAS
 // ============================================
@@ -478,6 +776,86 @@ export const searchQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(50).default(20),
 });
 
+export const searchEntityTypeSchema = z.enum(['member', 'journal', 'photo', 'gathering']);
+
+export const fullTextSearchSchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(200),
+  types: z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    const parsed = z.array(searchEntityTypeSchema).safeParse(value.split(',').map(t => t.trim()));
+    if (!parsed.success) {
+      ctx.addIssue({ code: 'custom', message: 'Invalid search type' });
+      return z.NEVER;
+    }
+    return parsed.data;
+  }),
+  generation: z.coerce.number().int().min(1).max(20).optional(),
+  branch: z.string().optional(),
+  city: z.string().optional(),
+  // Member (Living/Deceased) or gathering status
+  status: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// ============================================
+// TIMELINE SCHEMA
+// ============================================
+
+export const timelineQuerySchema = z.object({
+  lineageBranchId: z.string().optional(),
+  subBranchId: z.string().optional(),
+  kinds: z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    const parsed = z.array(z.enum(TIMELINE_EVENT_KINDS)).safeParse(value.split(',').map(k => k.trim()));
+    if (!parsed.success) {
+      ctx.addIssue({ code: 'custom', message: 'Invalid event kind' });
+      return z.NEVER;
+    }
+    return parsed.data;
+  }),
+  // Era: an open or closed range of Gregorian years
+  from: z.coerce.number().int().min(1000).max(2200).optional(),
+  to: z.coerce.number().int().min(1000).max(2200).optional(),
+  // Zoom into one decade (e.g. 1980 for 1980-1989); overrides from/to
+  decade: z.coerce.number().int().min(1000).max(2200).multipleOf(10).optional(),
+  order: z.enum(['asc', 'desc']).default('asc'),
+}).refine(data => data.from == null || data.to == null || data.from <= data.to, {
+  message: 'from must not be after to',
+  path: ['to'],
+});
+
+// ============================================
+// FAMILY MAP SCHEMA
+// ============================================
+
+export const familyMapQuerySchema = z.object({
+  lineageBranchId: z.string().optional(),
+  subBranchId: z.string().optional(),
+  generation: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+// ============================================
+// POSTER SCHEMA
+// ============================================
+
+const paperSizeSchema = z.enum(PAPER_SIZE_NAMES as [PaperSize, ...PaperSize[]]);
+
+export const posterQuerySchema = z.object({
+  rootId: z.string().optional(),
+  layout: z.enum(POSTER_LAYOUTS).default('DESCENDANT'),
+  paper: paperSizeSchema.default('A0'),
+  orientation: z.enum(POSTER_ORIENTATIONS).default('landscape'),
+  // PDF only: print on sheets of this size
+  tile: paperSizeSchema.optional(),
+  generations: z.coerce.number().int().min(1).max(20).optional(),
+  format: z.enum(['svg', 'pdf']).default('svg'),
+  dpi: z.coerce.number().int().min(72).max(300).default(150),
+}).refine(data => !data.tile || PAPER_SIZE_NAMES.indexOf(data.tile) > PAPER_SIZE_NAMES.indexOf(data.paper), {
+  message: 'Tiles must be smaller than the poster',
+  path: ['tile'],
+});
+
 // ============================================
 // PAGINATION SCHEMA
 // ============================================
@@ -496,7 +874,13 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type PasswordResetInput = z.infer<typeof passwordResetSchema>;
 export type CreateMemberInput = z.infer<typeof createMemberSchema>;
 export type UpdateMemberInput = z.infer<typeof updateMemberSchema>;
+export type MemberUpdateBody = z.infer<typeof memberUpdateBodySchema>;
 export type MemberQueryInput = z.infer<typeof memberQuerySchema>;
+export type CreateMarriageInput = z.infer<typeof createMarriageSchema>;
+export type UpdateMarriageInput = z.infer<typeof updateMarriageSchema>;
+export type MergeMembersInput = z.infer<typeof mergeMembersSchema>;
+export type MoveMemberInput = z.infer<typeof moveMemberSchema>;
+export type BatchMoveInput = z.infer<typeof batchMoveSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type CreateInviteInput = z.infer<typeof createInviteSchema>;
@@ -506,13 +890,23 @@ export type ExportOptionsInput = z.infer<typeof exportOptionsSchema>;
 export type ImportOptionsInput = z.infer<typeof importOptionsSchema>;
 export type SiteSettingsInput = z.infer<typeof siteSettingsSchema>;
 export type PrivacySettingsInput = z.infer<typeof privacySettingsSchema>;
+export type MemberPrivacyOverridesInput = z.infer<typeof memberPrivacyOverridesSchema>;
 export type ApiServiceConfigInput = z.infer<typeof apiServiceConfigSchema>;
+export type EmailTemplateInput = z.infer<typeof emailTemplateSchema>;
+export type EmailTemplateTestInput = z.infer<typeof emailTemplateTestSchema>;
+export type CreateAccessTokenInput = z.infer<typeof createAccessTokenSchema>;
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
 export type CreateSnapshotInput = z.infer<typeof createSnapshotSchema>;
 export type CreateBranchLinkInput = z.infer<typeof createBranchLinkSchema>;
 export type SearchQueryInput = z.infer<typeof searchQuerySchema>;
+export type FullTextSearchInput = z.infer<typeof fullTextSearchSchema>;
+export type TimelineQueryInput = z.infer<typeof timelineQuerySchema>;
+export type FamilyMapQueryInput = z.infer<typeof familyMapQuerySchema>;
+export type PosterQueryInput = z.infer<typeof posterQuerySchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;
 export type CreateBroadcastInput = z.infer<typeof createBroadcastSchema>;
 export type UpdateBroadcastInput = z.infer<typeof updateBroadcastSchema>;
+export type AudienceSegmentInput = z.infer<typeof audienceSegmentSchema>;
 export type CreateJournalInput = z.infer<typeof createJournalSchema>;
 export type UpdateJournalInput = z.infer<typeof updateJournalSchema>;
 export type PendingMemberInput = z.infer<typeof pendingMemberSchema>;
@@ -520,6 +914,9 @@ export type AdminConfigInput = z.infer<typeof adminConfigSchema>;
 export type ImageUploadInput = z.infer<typeof imageUploadSchema>;
 export type CreateGatheringInput = z.infer<typeof createGatheringSchema>;
 export type UpdateGatheringInput = z.infer<typeof updateGatheringSchema>;
+export type GatheringInviteInput = z.infer<typeof gatheringInviteSchema>;
+export type GatheringRsvpInput = z.infer<typeof gatheringRsvpSchema>;
+export type GatheringCheckInInput = z.infer<typeof gatheringCheckInSchema>;
 
 // ============================================
 // VALIDATION HELPER
@@ -40,6 +40,10 @@ export {
   createMockChild,
   createMockDeceasedMember,
   createMockFamilyTree,
+  createMockProfileMember,
+
+  // Privacy settings factories
+  createMockPrivacySettings,
 
   // Session factories
   createMockSession,
@@ -10,6 +10,8 @@
  */
 
 import type { NextRequest } from 'next/server';
+import type { FamilyMember } from '@/lib/types';
+import type { PrivacySettings } from '@/lib/auth/types';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -317,6 +319,25 @@ export function createMockDeceasedMember(overrides?: Partial<MockFamilyMember>):
   });
 }
 
+/**
+ * A full FamilyMember with contact and profile details filled in, for
+ * privacy and redaction tests
+ */
+export function createMockProfileMember(overrides: Partial<FamilyMember> = {}): FamilyMember {
+  return {
+    ...createMockMember(),
+    sonsCount: 0,
+    daughtersCount: 0,
+    phone: '0500000000',
+    email: 'member@example.com',
+    birthYear: 1980,
+    city: 'الرياض',
+    occupation: 'مهندس',
+    photoUrl: '/photos/p.jpg',
+    ...overrides,
+  } as FamilyMember;
+}
+
 export function createMockFamilyTree(
   generations: number = 3,
   childrenPerMember: number = 2
@@ -365,6 +386,31 @@ export function createMockFamilyTree(
   return members;
 }
 
+// ============================================
+// PRIVACY SETTINGS MOCK FACTORIES
+// ============================================
+
+/**
+ * Privacy settings where guests cannot see profiles and only admins see
+ * contact details
+ */
+export function createMockPrivacySettings(overrides?: Partial<PrivacySettings>): PrivacySettings {
+  return {
+    profileVisibility: { GUEST: false, MEMBER: true, BRANCH_LEADER: true, ADMIN: true, SUPER_ADMIN: true },
+    showPhoneToRoles: ['ADMIN', 'SUPER_ADMIN'],
+    showEmailToRoles: ['ADMIN', 'SUPER_ADMIN'],
+    showBirthYearToRoles: ['MEMBER', 'BRANCH_LEADER', 'ADMIN', 'SUPER_ADMIN'],
+    showAgeForLiving: false,
+    showOccupation: true,
+    showCity: true,
+    showBiography: true,
+    showPhotosToRoles: ['MEMBER', 'BRANCH_LEADER', 'ADMIN', 'SUPER_ADMIN'],
+    showDeathYear: true,
+    showFullDeathDate: false,
+    ...overrides,
+  };
+}
+
 // ============================================
 // SESSION MOCK FACTORIES
 // ============================================